@@ -14,15 +14,24 @@ import UserManagement from './views/UserManagement';
 import Reports from './views/Reports';
 import PerformanceReports from './views/PerformanceReports';
 import NHIFReports from './views/NHIFReports';
+import DebtorsReport from './views/DebtorsReport';
+import NHIFClaims from './views/NHIFClaims';
+import InsurerClaims from './views/InsurerClaims';
 import SystemSettings from './views/SystemSettings';
 import NHIFSettings from './views/NHIFSettings';
 import AuditLogs from './views/AuditLogs';
+import StockAlertsPanel from './components/StockAlertsPanel';
+import BillAdjustmentApprovals from './components/BillAdjustmentApprovals';
+import FiscalReceiptQueue from './components/FiscalReceiptQueue';
 import { PatientProvider, usePatients } from './contexts/PatientContext';
+import { TariffProvider } from './contexts/TariffContext';
+import { SettingsProvider } from './contexts/SettingsContext';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { ToastContainer, useToast } from './components/Toast';
 import { UserRole, PatientStatus } from './types';
 import { getProviders } from './services/providerService';
+import { calculateBillTotal } from './utils/patientUtils';
 
 // Helper function to get background color from Tailwind class
 const getBackgroundColor = (colorClass: string): string => {
@@ -106,7 +115,7 @@ const AppContent: React.FC = () => {
         
         // Calculate revenue for Manager/Admin dashboard
         const totalRevenue = patients.reduce((sum, p) => {
-          return sum + p.billItems.reduce((s, item) => s + item.amount, 0);
+          return sum + calculateBillTotal(p.billItems);
         }, 0);
         
         const dashboardStats = isAdmin ? [
@@ -257,6 +266,15 @@ const AppContent: React.FC = () => {
               </div>
             </div>
 
+            {/* Pharmacy stock alerts */}
+            {(activeRole === UserRole.PHARMACIST || isAdmin || isManager) && (
+              <StockAlertsPanel onOpenInventory={isManager ? undefined : () => handlePageChange('pharmacy')} />
+            )}
+
+            {/* Voids and credit notes awaiting a manager */}
+            {isManager && <BillAdjustmentApprovals />}
+            {isManager && <FiscalReceiptQueue />}
+
             {/* Admin-specific sections */}
             {isAdmin && (
               <>
@@ -364,6 +382,12 @@ const AppContent: React.FC = () => {
         return <PerformanceReports />;
       case 'nhif-reports':
         return <NHIFReports />;
+      case 'debtors':
+        return <DebtorsReport />;
+      case 'nhif-claims':
+        return <NHIFClaims />;
+      case 'insurer-claims':
+        return <InsurerClaims />;
       case 'settings':
         return <SystemSettings />;
       case 'nhif-settings':
@@ -405,9 +429,13 @@ const App: React.FC = () => {
   return (
     <ErrorBoundary>
       <AuthProvider>
-        <PatientProvider>
-          <AppContent />
-        </PatientProvider>
+        <SettingsProvider>
+          <PatientProvider>
+            <TariffProvider>
+              <AppContent />
+            </TariffProvider>
+          </PatientProvider>
+        </SettingsProvider>
       </AuthProvider>
     </ErrorBoundary>
   );
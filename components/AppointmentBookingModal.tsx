@@ -0,0 +1,354 @@
+/**
+ * Appointment Booking Modal
+ * Books a new appointment, or moves an existing one, into a free slot. Slots come
+ * from the provider's working template less their existing bookings, at the slot
+ * length of the appointment type. A patient's past no-shows are shown when they are picked.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Appointment, AppointmentType, AppointmentPriority, AppointmentSlot, ReminderLanguage, WaitlistEntry } from '../types';
+import { Provider } from '../services/providerService';
+import { getAvailableSlots, bookAppointment, rescheduleAppointment, bookFromWaitlist, getPatientAppointments } from '../services/appointmentService';
+import { usePatients } from '../contexts/PatientContext';
+import { getCurrentDate } from '../utils/dateTimeUtils';
+import { getAppointmentEndTime } from '../utils/appointmentUtils';
+import { useToast } from './Toast';
+
+interface AppointmentBookingModalProps {
+  providers: Provider[];
+  /** Appointment being rescheduled; omit to book a new one */
+  appointment?: Appointment;
+  initial?: { date?: string; time?: string; providerId?: string; patientId?: string };
+  /** Waitlist entry being booked; its patient, type and priority are used */
+  waitlistEntry?: WaitlistEntry;
+  onClose: () => void;
+  onSaved: (appointment: Appointment) => void;
+}
+
+const inputClass = 'w-full h-10 px-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all';
+
+const AppointmentBookingModal: React.FC<AppointmentBookingModalProps> = ({ providers, appointment, initial, waitlistEntry, onClose, onSaved }) => {
+  const { patients } = usePatients();
+  const { success: showSuccess, error: showError } = useToast();
+  const isReschedule = !!appointment;
+
+  const [patientSearch, setPatientSearch] = useState('');
+  const [patientId, setPatientId] = useState(appointment?.patientId || waitlistEntry?.patientId || initial?.patientId || '');
+  const [providerId, setProviderId] = useState(appointment?.providerId || waitlistEntry?.providerId || initial?.providerId || '');
+  const [appointmentType, setAppointmentType] = useState<AppointmentType | ''>(appointment?.appointmentType || waitlistEntry?.appointmentType || '');
+  const [date, setDate] = useState(initial?.date || appointment?.appointmentDate || waitlistEntry?.earliestDate || getCurrentDate());
+  const [time, setTime] = useState(initial?.time || '');
+  const [priority, setPriority] = useState<AppointmentPriority>(waitlistEntry?.priority || AppointmentPriority.NORMAL);
+  const [notes, setNotes] = useState(waitlistEntry?.notes || '');
+  const [reminderLanguage, setReminderLanguage] = useState<ReminderLanguage>('sw');
+  const [reason, setReason] = useState('');
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [slotsError, setSlotsError] = useState<string | null>(null);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [noShowCount, setNoShowCount] = useState(0);
+
+  const selectedPatient = patients.find(p => p.id === patientId);
+
+  const patientMatches = useMemo(() => {
+    const search = patientSearch.trim().toLowerCase();
+    if (!search) return [];
+    return patients
+      .filter(p => p.name.toLowerCase().includes(search) || p.phone.includes(search) || p.id.toLowerCase().includes(search))
+      .slice(0, 5);
+  }, [patients, patientSearch]);
+
+  useEffect(() => {
+    if (!patientId || isReschedule) {
+      setNoShowCount(0);
+      return;
+    }
+    let cancelled = false;
+    getPatientAppointments(patientId).then(result => {
+      if (!cancelled && result.success) {
+        setNoShowCount((result.appointments || []).filter(a => a.status === 'NO_SHOW').length);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId, isReschedule]);
+
+  useEffect(() => {
+    if (!providerId || !date || !appointmentType) {
+      setSlots([]);
+      return;
+    }
+    let cancelled = false;
+    const loadSlots = async () => {
+      setIsLoadingSlots(true);
+      try {
+        const result = await getAvailableSlots(providerId, date, appointmentType);
+        if (cancelled) return;
+        if (result.success) {
+          // The appointment being moved still holds its own slot; offer it back
+          const own = appointment && appointment.providerId === providerId && appointment.appointmentDate === date
+            ? [{ time: appointment.appointmentTime, endTime: getAppointmentEndTime(appointment) }]
+            : [];
+          const available = [...own, ...(result.slots || [])].sort((a, b) => a.time.localeCompare(b.time));
+          setSlots(available);
+          setSlotsError(null);
+          // Keep a time picked on the calendar only if it is still free
+          setTime(current => (available.some(slot => slot.time === current) ? current : ''));
+        } else {
+          setSlots([]);
+          setSlotsError(result.error || 'Failed to load free slots');
+        }
+      } finally {
+        if (!cancelled) setIsLoadingSlots(false);
+      }
+    };
+    loadSlots();
+    return () => {
+      cancelled = true;
+    };
+  }, [providerId, date, appointmentType, appointment]);
+
+  const handleSave = async () => {
+    if (!patientId) {
+      showError('Select a patient');
+      return;
+    }
+    if (!providerId || !appointmentType || !date || !time) {
+      showError('Choose a provider, appointment type, date and time');
+      return;
+    }
+    if (isReschedule && appointment.providerId === providerId && appointment.appointmentDate === date && appointment.appointmentTime === time) {
+      showError('Choose a different time to reschedule to');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = isReschedule
+        ? await rescheduleAppointment(appointment.id, { date, time, providerId, reason: reason.trim() || undefined })
+        : waitlistEntry
+        ? await bookFromWaitlist(waitlistEntry.id, { providerId, date, time, reminderLanguage })
+        : await bookAppointment({
+            patientId,
+            providerId,
+            appointmentType,
+            date,
+            time,
+            priority,
+            notes: notes.trim() || undefined,
+            reminderLanguage,
+          });
+      if (result.success && result.appointment) {
+        showSuccess(isReschedule ? 'Appointment rescheduled' : `Appointment booked for ${selectedPatient?.name || 'patient'}`);
+        onSaved(result.appointment);
+      } else {
+        showError(result.error || 'Failed to save appointment');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-base font-bold text-slate-900">{isReschedule ? 'Reschedule Appointment' : 'Book Appointment'}</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              {isReschedule
+                ? `${appointment.patientName || 'Patient'} · ${appointment.appointmentType}`
+                : waitlistEntry
+                ? `From the waitlist · ${waitlistEntry.patientName || 'Patient'}`
+                : 'Pick a patient, provider and free slot'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        {!isReschedule && (
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-slate-700">Patient</label>
+            {selectedPatient ? (
+              <div className="flex items-center justify-between p-3 rounded-xl bg-slate-50 border border-slate-200">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">{selectedPatient.name}</p>
+                  <p className="text-xs text-slate-500">{selectedPatient.id} · {selectedPatient.phone}</p>
+                </div>
+                {!waitlistEntry && (
+                  <button onClick={() => setPatientId('')} className="text-xs font-semibold text-brand-primary">Change</button>
+                )}
+              </div>
+            ) : (
+              <>
+                <input
+                  type="text"
+                  value={patientSearch}
+                  onChange={(e) => setPatientSearch(e.target.value)}
+                  placeholder="Search by name, phone or ID..."
+                  className={inputClass}
+                />
+                {patientMatches.length > 0 && (
+                  <ul className="border border-slate-200 rounded-xl divide-y divide-slate-100 overflow-hidden">
+                    {patientMatches.map(p => (
+                      <li key={p.id}>
+                        <button
+                          onClick={() => {
+                            setPatientId(p.id);
+                            setPatientSearch('');
+                          }}
+                          className="w-full text-left px-3 py-2 hover:bg-slate-50"
+                        >
+                          <p className="text-sm font-semibold text-slate-800">{p.name}</p>
+                          <p className="text-xs text-slate-500">{p.id} · {p.phone}</p>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+            {noShowCount > 0 && (
+              <p className="text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-3 py-2">
+                <i className="fas fa-exclamation-triangle mr-2"></i>
+                {noShowCount} missed appointment{noShowCount === 1 ? '' : 's'} (no-show) on record
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs font-semibold text-slate-700">Provider</label>
+            <select value={providerId} onChange={(e) => setProviderId(e.target.value)} className={inputClass}>
+              <option value="">-- Select --</option>
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-semibold text-slate-700">Appointment Type</label>
+            <select
+              value={appointmentType}
+              onChange={(e) => setAppointmentType(e.target.value as AppointmentType)}
+              disabled={isReschedule || !!waitlistEntry}
+              className={`${inputClass} disabled:opacity-60`}
+            >
+              <option value="">-- Select --</option>
+              {Object.values(AppointmentType).map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-semibold text-slate-700">Date</label>
+            <input
+              type="date"
+              value={date}
+              min={getCurrentDate()}
+              onChange={(e) => setDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          {!isReschedule && (
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-slate-700">Priority</label>
+              <select
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as AppointmentPriority)}
+                disabled={!!waitlistEntry}
+                className={`${inputClass} disabled:opacity-60`}
+              >
+                {Object.values(AppointmentPriority).map(p => (
+                  <option key={p} value={p}>{p}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-slate-700">Time</label>
+          {!providerId || !appointmentType ? (
+            <p className="text-xs text-slate-400">Choose a provider and appointment type to see free slots</p>
+          ) : isLoadingSlots ? (
+            <p className="text-xs text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>Loading free slots...</p>
+          ) : slotsError ? (
+            <p className="text-xs text-red-600">{slotsError}</p>
+          ) : slots.length === 0 ? (
+            <p className="text-xs text-slate-500 p-3 bg-slate-50 rounded-xl border border-dashed border-slate-200 text-center">
+              No free slots on this day
+            </p>
+          ) : (
+            <div className="grid grid-cols-4 gap-2">
+              {slots.map(slot => (
+                <button
+                  key={slot.time}
+                  onClick={() => setTime(slot.time)}
+                  className={`h-9 rounded-lg text-xs font-semibold border transition-all ${
+                    time === slot.time
+                      ? 'bg-brand-primary text-white border-brand-primary'
+                      : 'bg-white text-slate-700 border-slate-200 hover:border-brand-primary'
+                  }`}
+                >
+                  {slot.time}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {isReschedule ? (
+          <div className="space-y-1">
+            <label className="text-xs font-semibold text-slate-700">Reason (optional)</label>
+            <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Patient requested later date" className={inputClass} />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-slate-700">Notes (optional)</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                readOnly={!!waitlistEntry}
+                rows={2}
+                className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-slate-700">SMS Reminder Language</label>
+              <select value={reminderLanguage} onChange={(e) => setReminderLanguage(e.target.value as ReminderLanguage)} className={inputClass}>
+                <option value="sw">Kiswahili</option>
+                <option value="en">English</option>
+              </select>
+              <p className="text-xs text-slate-400">Reminders go to the patient's phone 24 hours and 2 hours before</p>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-5 py-2.5 bg-slate-100 text-slate-700 rounded-xl font-semibold text-sm hover:bg-slate-200 transition-all disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !time}
+            className="px-5 py-2.5 text-white bg-brand-primary rounded-xl font-semibold text-sm hover:bg-brand-primary-dark transition-all disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : isReschedule ? 'Reschedule' : 'Book'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentBookingModal;
@@ -0,0 +1,209 @@
+/**
+ * Appointment Calendar
+ * Time grid for the appointment book. The day view has a column per provider; the
+ * week view has a column per day. Hours outside a provider's working template are
+ * shaded, and clicking a free spot starts a booking there.
+ */
+
+import React, { useMemo } from 'react';
+import { Appointment, AppointmentPriority, ProviderScheduleBlock } from '../types';
+import { Provider } from '../services/providerService';
+import {
+  CalendarView,
+  getWeekday,
+  timeToMinutes,
+  minutesToTime,
+  getAppointmentEndTime,
+  formatDayHeading,
+} from '../utils/appointmentUtils';
+
+const PIXELS_PER_MINUTE = 1.2;
+const CLICK_STEP_MINUTES = 15;
+
+interface Column {
+  key: string;
+  label: string;
+  date: string;
+  providerId?: string;
+}
+
+interface AppointmentCalendarProps {
+  view: CalendarView;
+  days: string[];
+  appointments: Appointment[];
+  providers: Provider[];
+  templates: ProviderScheduleBlock[];
+  selectedProviderId?: string;
+  workingHours: { start: string; end: string };
+  onSelectAppointment: (appointment: Appointment) => void;
+  onSelectSlot: (slot: { date: string; time: string; providerId?: string }) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  SCHEDULED: 'bg-orange-50 border-orange-300 text-orange-800',
+  CONFIRMED: 'bg-brand-primary-50 border-brand-primary text-brand-primary-dark',
+  COMPLETED: 'bg-green-50 border-green-300 text-green-800',
+  LATE: 'bg-amber-50 border-amber-400 text-amber-800',
+  CANCELLED: 'bg-slate-50 border-slate-200 text-slate-400 line-through',
+  NO_SHOW: 'bg-red-50 border-red-300 text-red-700 opacity-70',
+};
+
+const AppointmentCalendar: React.FC<AppointmentCalendarProps> = ({
+  view,
+  days,
+  appointments,
+  providers,
+  templates,
+  selectedProviderId,
+  workingHours,
+  onSelectAppointment,
+  onSelectSlot,
+}) => {
+  const columns: Column[] = useMemo(() => {
+    if (view === 'day') {
+      const shown = selectedProviderId ? providers.filter(p => p.id === selectedProviderId) : providers;
+      return shown.map(p => ({ key: p.id, label: p.name, date: days[0], providerId: p.id }));
+    }
+    return days.map(date => ({ key: date, label: formatDayHeading(date), date, providerId: selectedProviderId }));
+  }, [view, days, providers, selectedProviderId]);
+
+  // Grid spans the clinic's hours, stretched to any template or booking outside them
+  const { gridStart, gridEnd } = useMemo(() => {
+    let start = timeToMinutes(workingHours.start);
+    let end = timeToMinutes(workingHours.end);
+    templates.forEach(t => {
+      start = Math.min(start, timeToMinutes(t.startTime));
+      end = Math.max(end, timeToMinutes(t.endTime));
+    });
+    appointments.forEach(a => {
+      start = Math.min(start, timeToMinutes(a.appointmentTime));
+      end = Math.max(end, timeToMinutes(getAppointmentEndTime(a)));
+    });
+    return { gridStart: Math.floor(start / 60) * 60, gridEnd: Math.ceil(end / 60) * 60 };
+  }, [workingHours, templates, appointments]);
+
+  const hours = useMemo(() => {
+    const list: number[] = [];
+    for (let m = gridStart; m < gridEnd; m += 60) list.push(m);
+    return list;
+  }, [gridStart, gridEnd]);
+
+  const gridHeight = (gridEnd - gridStart) * PIXELS_PER_MINUTE;
+
+  const workingBlocks = (column: Column) => {
+    if (!column.providerId) return null;
+    const weekday = getWeekday(column.date);
+    return templates.filter(t => t.providerId === column.providerId && t.weekday === weekday);
+  };
+
+  const columnAppointments = (column: Column) =>
+    appointments.filter(a =>
+      a.appointmentDate === column.date && (!column.providerId || a.providerId === column.providerId)
+    );
+
+  const handleColumnClick = (column: Column, e: React.MouseEvent<HTMLDivElement>) => {
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const minutes = gridStart + Math.floor(offset / PIXELS_PER_MINUTE / CLICK_STEP_MINUTES) * CLICK_STEP_MINUTES;
+    onSelectSlot({ date: column.date, time: minutesToTime(minutes), providerId: column.providerId });
+  };
+
+  if (columns.length === 0) {
+    return (
+      <div className="p-12 text-center text-slate-400">
+        <i className="fas fa-user-md text-4xl mb-3 opacity-20"></i>
+        <p className="text-sm font-semibold text-slate-600">No providers to schedule</p>
+        <p className="text-xs text-slate-500 mt-1">Optometrists and ophthalmologists added in User Management appear here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex min-w-max">
+        {/* Time axis */}
+        <div className="w-16 shrink-0 border-r border-slate-200">
+          <div className="h-10 border-b border-slate-200"></div>
+          <div className="relative" style={{ height: gridHeight }}>
+            {hours.map(m => (
+              <div
+                key={m}
+                className="absolute left-0 right-0 pr-2 text-right text-[10px] font-semibold text-slate-400 -translate-y-1/2"
+                style={{ top: (m - gridStart) * PIXELS_PER_MINUTE }}
+              >
+                {m > gridStart && minutesToTime(m)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {columns.map(column => {
+          const blocks = workingBlocks(column);
+          return (
+            <div key={column.key} className="flex-1 min-w-[140px] border-r border-slate-100 last:border-r-0">
+              <div className="h-10 px-2 flex items-center justify-center border-b border-slate-200 bg-slate-50 text-xs font-bold text-slate-700 truncate">
+                {column.label}
+              </div>
+              <div
+                className={`relative cursor-pointer ${blocks ? 'bg-slate-100' : 'bg-white'}`}
+                style={{ height: gridHeight }}
+                onClick={(e) => handleColumnClick(column, e)}
+              >
+                {/* Working hours */}
+                {blocks?.map(block => (
+                  <div
+                    key={`${block.weekday}-${block.startTime}`}
+                    className="absolute left-0 right-0 bg-white"
+                    style={{
+                      top: (timeToMinutes(block.startTime) - gridStart) * PIXELS_PER_MINUTE,
+                      height: (timeToMinutes(block.endTime) - timeToMinutes(block.startTime)) * PIXELS_PER_MINUTE,
+                    }}
+                  ></div>
+                ))}
+
+                {/* Hour lines */}
+                {hours.map(m => (
+                  <div
+                    key={m}
+                    className="absolute left-0 right-0 border-t border-slate-100 pointer-events-none"
+                    style={{ top: (m - gridStart) * PIXELS_PER_MINUTE }}
+                  ></div>
+                ))}
+
+                {/* Appointments */}
+                {columnAppointments(column).map(appointment => {
+                  const start = timeToMinutes(appointment.appointmentTime);
+                  return (
+                    <button
+                      key={appointment.id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSelectAppointment(appointment);
+                      }}
+                      className={`absolute left-1 right-1 px-2 py-1 rounded-lg border-l-4 text-left overflow-hidden shadow-sm hover:shadow-md transition-shadow ${STATUS_STYLES[appointment.status] || STATUS_STYLES.SCHEDULED}`}
+                      style={{
+                        top: (start - gridStart) * PIXELS_PER_MINUTE + 1,
+                        height: (appointment.durationMinutes || 30) * PIXELS_PER_MINUTE - 2,
+                      }}
+                      title={`${appointment.appointmentTime}–${getAppointmentEndTime(appointment)} ${appointment.patientName || ''}`}
+                    >
+                      <p className="text-[11px] font-bold truncate">
+                        {appointment.priority === AppointmentPriority.EMERGENCY && <i className="fas fa-exclamation-circle text-red-600 mr-1"></i>}
+                        {appointment.appointmentTime} {appointment.patientName}
+                      </p>
+                      <p className="text-[10px] truncate opacity-80">
+                        {appointment.appointmentType}
+                        {view === 'week' && !selectedProviderId && appointment.providerName && ` · ${appointment.providerName}`}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentCalendar;
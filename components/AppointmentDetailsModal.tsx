@@ -0,0 +1,281 @@
+/**
+ * Appointment Details Modal
+ * One appointment from the book with its history; confirm, complete, reschedule or
+ * cancel it from here
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Appointment, AppointmentHistoryEntry, AppointmentPriority } from '../types';
+import { Provider } from '../services/providerService';
+import { getAppointmentHistory, updateAppointmentStatus, cancelAppointment } from '../services/appointmentService';
+import { formatDate, formatTime, formatISODateTime } from '../utils/dateTimeUtils';
+import {
+  getAppointmentEndTime,
+  getVisibleReminders,
+  isActiveAppointment,
+  formatAppointmentStatus,
+  REMINDER_KIND_LABELS,
+  REMINDER_STATUS_STYLES,
+} from '../utils/appointmentUtils';
+import { useToast } from './Toast';
+
+interface AppointmentDetailsModalProps {
+  appointment: Appointment;
+  providers: Provider[];
+  onClose: () => void;
+  onChanged: (appointment: Appointment) => void;
+  onReschedule: (appointment: Appointment) => void;
+}
+
+const HISTORY_LABELS: Record<AppointmentHistoryEntry['action'], string> = {
+  BOOKED: 'Booked',
+  RESCHEDULED: 'Rescheduled',
+  CANCELLED: 'Cancelled',
+  STATUS_CHANGED: 'Status changed',
+  CHECKED_IN: 'Checked in',
+};
+
+const AppointmentDetailsModal: React.FC<AppointmentDetailsModalProps> = ({ appointment, providers, onClose, onChanged, onReschedule }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [history, setHistory] = useState<AppointmentHistoryEntry[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const isActive = isActiveAppointment(appointment);
+  const reminders = getVisibleReminders(appointment);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setIsLoadingHistory(true);
+      try {
+        const result = await getAppointmentHistory(appointment.id);
+        if (result.success) {
+          setHistory(result.history || []);
+        }
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    };
+    loadHistory();
+  }, [appointment.id, appointment.status, appointment.appointmentDate, appointment.appointmentTime]);
+
+  const providerName = (providerId?: string) =>
+    providers.find(p => p.id === providerId)?.name || (providerId === appointment.providerId ? appointment.providerName : undefined) || 'Unknown provider';
+
+  const describeEntry = (entry: AppointmentHistoryEntry): string => {
+    switch (entry.action) {
+      case 'BOOKED':
+        return `${formatDate(entry.toDate || '')} ${entry.toTime} with ${providerName(entry.toProviderId)}`;
+      case 'RESCHEDULED': {
+        const from = `${formatDate(entry.fromDate || '')} ${entry.fromTime}`;
+        const to = `${formatDate(entry.toDate || '')} ${entry.toTime}`;
+        const providerChange = entry.fromProviderId !== entry.toProviderId ? ` with ${providerName(entry.toProviderId)}` : '';
+        return `${from} → ${to}${providerChange}`;
+      }
+      case 'CANCELLED':
+        return `Was ${formatDate(entry.fromDate || '')} ${entry.fromTime}`;
+      case 'CHECKED_IN':
+        return entry.toStatus === 'LATE' ? 'Arrived late' : 'Arrived on time';
+      default:
+        return `${formatAppointmentStatus(entry.fromStatus || 'SCHEDULED')} → ${formatAppointmentStatus(entry.toStatus || 'SCHEDULED')}`;
+    }
+  };
+
+  const handleStatus = async (status: 'CONFIRMED' | 'COMPLETED') => {
+    setIsUpdating(true);
+    try {
+      const result = await updateAppointmentStatus(appointment.id, status);
+      if (result.success && result.appointment) {
+        showSuccess(status === 'CONFIRMED' ? 'Appointment confirmed' : 'Appointment completed');
+        onChanged(result.appointment);
+      } else {
+        showError(result.error || 'Failed to update appointment');
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelReason.trim()) {
+      showError('Enter a reason for cancelling');
+      return;
+    }
+    setIsUpdating(true);
+    try {
+      const result = await cancelAppointment(appointment.id, cancelReason.trim());
+      if (result.success && result.appointment) {
+        showSuccess('Appointment cancelled');
+        setIsCancelling(false);
+        setCancelReason('');
+        onChanged(result.appointment);
+      } else {
+        showError(result.error || 'Failed to cancel appointment');
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-base font-bold text-slate-900">{appointment.patientName || 'Patient'}</h3>
+            <p className="text-xs text-slate-500 mt-1">{appointment.patientId}{appointment.patientPhone && ` · ${appointment.patientPhone}`}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="p-4 rounded-xl bg-slate-50 border border-slate-200 space-y-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-slate-800">{appointment.appointmentType}</span>
+            <span className="text-xs px-2 py-1 rounded-full font-semibold bg-white border border-slate-200 text-slate-600">{formatAppointmentStatus(appointment.status)}</span>
+          </div>
+          <p className="text-slate-600">
+            <i className="fas fa-clock w-4 mr-1"></i>
+            {formatDate(appointment.appointmentDate)}, {formatTime(appointment.appointmentTime)} – {formatTime(getAppointmentEndTime(appointment))}
+          </p>
+          <p className="text-slate-600">
+            <i className="fas fa-user-md w-4 mr-1"></i>
+            {appointment.providerName || providerName(appointment.providerId)}
+          </p>
+          {appointment.priority === AppointmentPriority.EMERGENCY && (
+            <span className="inline-block text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-full font-bold">Emergency</span>
+          )}
+          {appointment.notes && <p className="text-xs text-slate-500">{appointment.notes}</p>}
+          {appointment.checkedInAt && (
+            <p className="text-xs text-green-700">
+              <i className="fas fa-door-open w-4 mr-1"></i>
+              Checked in {formatISODateTime(appointment.checkedInAt)}
+            </p>
+          )}
+          {appointment.cancelReason && <p className="text-xs text-red-600">Cancelled: {appointment.cancelReason}</p>}
+        </div>
+
+        {isActive && !isCancelling && (
+          <div className="flex flex-wrap gap-2">
+            {appointment.status === 'SCHEDULED' && (
+              <button
+                onClick={() => handleStatus('CONFIRMED')}
+                disabled={isUpdating}
+                className="px-4 py-2 text-xs font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+              >
+                <i className="fas fa-check mr-2"></i>Confirm
+              </button>
+            )}
+            <button
+              onClick={() => handleStatus('COMPLETED')}
+              disabled={isUpdating}
+              className="px-4 py-2 text-xs font-semibold text-green-700 bg-green-50 border border-green-200 rounded-xl hover:bg-green-100 disabled:opacity-50"
+            >
+              <i className="fas fa-check-double mr-2"></i>Complete
+            </button>
+            <button
+              onClick={() => onReschedule(appointment)}
+              disabled={isUpdating}
+              className="px-4 py-2 text-xs font-semibold text-slate-700 bg-slate-100 rounded-xl hover:bg-slate-200 disabled:opacity-50"
+            >
+              <i className="fas fa-calendar-alt mr-2"></i>Reschedule
+            </button>
+            <button
+              onClick={() => setIsCancelling(true)}
+              disabled={isUpdating}
+              className="px-4 py-2 text-xs font-semibold text-red-700 bg-red-50 border border-red-200 rounded-xl hover:bg-red-100 disabled:opacity-50"
+            >
+              <i className="fas fa-ban mr-2"></i>Cancel Appointment
+            </button>
+          </div>
+        )}
+
+        {isCancelling && (
+          <div className="space-y-2 p-4 rounded-xl border border-red-200 bg-red-50/50">
+            <label className="text-xs font-semibold text-slate-700">Reason for cancelling</label>
+            <input
+              type="text"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="e.g. Patient called to cancel"
+              className="w-full h-10 px-3 bg-white border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setIsCancelling(false)}
+                disabled={isUpdating}
+                className="px-4 py-2 text-xs font-semibold text-slate-700 bg-slate-100 rounded-xl hover:bg-slate-200 disabled:opacity-50"
+              >
+                Keep Appointment
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={isUpdating}
+                className="px-4 py-2 text-xs font-semibold text-white bg-red-600 rounded-xl hover:bg-red-700 disabled:opacity-50"
+              >
+                {isUpdating ? 'Cancelling...' : 'Cancel Appointment'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-xs font-bold text-slate-700 uppercase tracking-wide mb-2">
+            SMS Reminders
+            {appointment.reminderLanguage && (
+              <span className="ml-2 font-normal normal-case text-slate-400">{appointment.reminderLanguage === 'sw' ? 'Kiswahili' : 'English'}</span>
+            )}
+          </h4>
+          {reminders.length === 0 ? (
+            <p className="text-xs text-slate-400">No reminders scheduled</p>
+          ) : (
+            <ul className="space-y-2">
+              {reminders.map(reminder => (
+                <li key={reminder.id} className="flex items-start justify-between gap-3 text-xs">
+                  <div>
+                    <p className="font-semibold text-slate-800">{REMINDER_KIND_LABELS[reminder.kind]}</p>
+                    <p className="text-slate-500">
+                      {reminder.deliveredAt
+                        ? `Delivered ${formatISODateTime(reminder.deliveredAt)}`
+                        : reminder.sentAt
+                          ? `Sent ${formatISODateTime(reminder.sentAt)}`
+                          : `Due ${formatISODateTime(reminder.sendAt)}`}
+                    </p>
+                    {reminder.lastError && <p className="text-red-600">{reminder.lastError}</p>}
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full font-semibold ${REMINDER_STATUS_STYLES[reminder.status]}`}>{reminder.status}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-xs font-bold text-slate-700 uppercase tracking-wide mb-2">History</h4>
+          {isLoadingHistory ? (
+            <p className="text-xs text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>Loading...</p>
+          ) : history.length === 0 ? (
+            <p className="text-xs text-slate-400">No history recorded</p>
+          ) : (
+            <ul className="space-y-2">
+              {history.map(entry => (
+                <li key={entry.id} className="text-xs border-l-2 border-slate-200 pl-3">
+                  <p className="font-semibold text-slate-800">
+                    {HISTORY_LABELS[entry.action]} <span className="font-normal text-slate-400">· {formatISODateTime(entry.changedAt)}</span>
+                  </p>
+                  <p className="text-slate-600">{describeEntry(entry)}</p>
+                  {entry.reason && <p className="text-slate-500 italic">{entry.reason}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentDetailsModal;
@@ -0,0 +1,334 @@
+/**
+ * Appointment Waitlist
+ * Patients waiting for an earlier appointment, in the order freed slots are offered to
+ * them (emergencies first, then longest waiting). Add patients, book them into a slot
+ * or take them off the list.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { AppointmentType, AppointmentPriority, WaitlistEntry } from '../types';
+import { Provider } from '../services/providerService';
+import { getWaitlist, addToWaitlist, removeFromWaitlist } from '../services/appointmentService';
+import { usePatients } from '../contexts/PatientContext';
+import { formatDate, getCurrentDate } from '../utils/dateTimeUtils';
+import { useToast } from './Toast';
+
+interface AppointmentWaitlistProps {
+  providers: Provider[];
+  /** Changes when the list should be reloaded (e.g. after booking someone from it) */
+  reloadKey: number;
+  onBook: (entry: WaitlistEntry) => void;
+}
+
+const inputClass = 'w-full h-10 px-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all';
+
+const AppointmentWaitlist: React.FC<AppointmentWaitlistProps> = ({ providers, reloadKey, onBook }) => {
+  const { patients } = usePatients();
+  const { success: showSuccess, error: showError } = useToast();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const [patientSearch, setPatientSearch] = useState('');
+  const [patientId, setPatientId] = useState('');
+  const [appointmentType, setAppointmentType] = useState<AppointmentType | ''>('');
+  const [providerId, setProviderId] = useState('');
+  const [earliestDate, setEarliestDate] = useState(getCurrentDate());
+  const [latestDate, setLatestDate] = useState('');
+  const [priority, setPriority] = useState<AppointmentPriority>(AppointmentPriority.NORMAL);
+  const [notes, setNotes] = useState('');
+
+  const selectedPatient = patients.find(p => p.id === patientId);
+
+  const patientMatches = useMemo(() => {
+    const search = patientSearch.trim().toLowerCase();
+    if (!search) return [];
+    return patients
+      .filter(p => p.name.toLowerCase().includes(search) || p.phone.includes(search) || p.id.toLowerCase().includes(search))
+      .slice(0, 5);
+  }, [patients, patientSearch]);
+
+  const loadWaitlist = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getWaitlist();
+      if (result.success) {
+        setEntries(result.entries || []);
+      } else {
+        showError(result.error || 'Failed to load waitlist');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWaitlist();
+  }, [loadWaitlist, reloadKey]);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setPatientSearch('');
+    setPatientId('');
+    setAppointmentType('');
+    setProviderId('');
+    setEarliestDate(getCurrentDate());
+    setLatestDate('');
+    setPriority(AppointmentPriority.NORMAL);
+    setNotes('');
+  };
+
+  const handleAdd = async () => {
+    if (!patientId || !appointmentType || !earliestDate) {
+      showError('Choose a patient, appointment type and earliest date');
+      return;
+    }
+    if (latestDate && latestDate < earliestDate) {
+      showError('The latest date cannot be before the earliest date');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await addToWaitlist({
+        patientId,
+        appointmentType,
+        providerId: providerId || undefined,
+        earliestDate,
+        latestDate: latestDate || undefined,
+        priority,
+        notes: notes.trim() || undefined,
+      });
+      if (result.success) {
+        showSuccess(`${selectedPatient?.name || 'Patient'} added to the waitlist`);
+        resetForm();
+        loadWaitlist();
+      } else {
+        showError(result.error || 'Failed to add to waitlist');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    setRemovingId(entry.id);
+    try {
+      const result = await removeFromWaitlist(entry.id);
+      if (result.success) {
+        showSuccess(`${entry.patientName || 'Patient'} taken off the waitlist`);
+        setEntries(entries.filter(e => e.id !== entry.id));
+      } else {
+        showError(result.error || 'Failed to remove from waitlist');
+      }
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-8 pt-8 pb-6 border-b border-slate-100 flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-bold text-slate-900 mb-1 flex items-center gap-2">
+            <i className="fas fa-hourglass-half text-brand-primary"></i>
+            Waitlist
+          </h3>
+          <p className="text-sm text-slate-500 font-medium">Freed slots are offered in this order: emergencies first, then longest waiting</p>
+        </div>
+        <button
+          onClick={() => setIsAdding(true)}
+          className="px-5 py-2.5 text-white bg-brand-primary rounded-xl text-xs font-semibold hover:bg-brand-primary-dark transition-colors flex items-center gap-2"
+        >
+          <i className="fas fa-plus"></i>
+          Add to Waitlist
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">#</th>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Patient</th>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Appointment</th>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Provider</th>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Dates</th>
+              <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Waiting Since</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {entries.length > 0 ? (
+              entries.map((entry, index) => (
+                <tr key={entry.id} className="hover:bg-slate-50/50 transition-all">
+                  <td className="px-6 py-4 text-sm font-bold text-slate-500">{index + 1}</td>
+                  <td className="px-6 py-4">
+                    <p className="text-sm font-semibold text-slate-800">{entry.patientName}</p>
+                    <p className="text-xs text-slate-500 mt-0.5">{entry.patientPhone}</p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <p className="text-sm font-medium text-slate-700">{entry.appointmentType}</p>
+                    {entry.priority === AppointmentPriority.EMERGENCY && (
+                      <span className="inline-block mt-1 text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-full font-bold">Emergency</span>
+                    )}
+                    {entry.notes && <p className="text-xs text-slate-400 mt-0.5">{entry.notes}</p>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-700">{entry.providerName || 'Any provider'}</td>
+                  <td className="px-6 py-4 text-sm text-slate-700">
+                    {formatDate(entry.earliestDate)}
+                    {entry.latestDate ? ` – ${formatDate(entry.latestDate)}` : ' onwards'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-500">{formatDate(entry.createdAt)}</td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => onBook(entry)}
+                      className="px-3 py-1.5 text-xs font-semibold text-white bg-brand-primary rounded-lg hover:bg-brand-primary-dark"
+                    >
+                      Book
+                    </button>
+                    <button
+                      onClick={() => handleRemove(entry)}
+                      disabled={removingId === entry.id}
+                      className="ml-2 px-3 py-1.5 text-xs font-semibold text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={7} className="px-8 py-16 text-center text-slate-400 bg-white">
+                  <i className="fas fa-hourglass-half text-4xl mb-3 opacity-20"></i>
+                  <p className="text-sm font-semibold text-slate-600">
+                    {isLoading ? 'Loading waitlist...' : 'Nobody is waiting'}
+                  </p>
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {isAdding && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-base font-bold text-slate-900">Add to Waitlist</h3>
+                <p className="text-xs text-slate-500 mt-1">The patient is offered the first suitable slot that is freed</p>
+              </div>
+              <button onClick={resetForm} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-slate-700">Patient</label>
+              {selectedPatient ? (
+                <div className="flex items-center justify-between p-3 rounded-xl bg-slate-50 border border-slate-200">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">{selectedPatient.name}</p>
+                    <p className="text-xs text-slate-500">{selectedPatient.id} · {selectedPatient.phone}</p>
+                  </div>
+                  <button onClick={() => setPatientId('')} className="text-xs font-semibold text-brand-primary">Change</button>
+                </div>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={patientSearch}
+                    onChange={(e) => setPatientSearch(e.target.value)}
+                    placeholder="Search by name, phone or ID..."
+                    className={inputClass}
+                  />
+                  {patientMatches.length > 0 && (
+                    <ul className="border border-slate-200 rounded-xl divide-y divide-slate-100 overflow-hidden">
+                      {patientMatches.map(p => (
+                        <li key={p.id}>
+                          <button
+                            onClick={() => {
+                              setPatientId(p.id);
+                              setPatientSearch('');
+                            }}
+                            className="w-full text-left px-3 py-2 hover:bg-slate-50"
+                          >
+                            <p className="text-sm font-semibold text-slate-800">{p.name}</p>
+                            <p className="text-xs text-slate-500">{p.id} · {p.phone}</p>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-700">Appointment Type</label>
+                <select value={appointmentType} onChange={(e) => setAppointmentType(e.target.value as AppointmentType)} className={inputClass}>
+                  <option value="">-- Select --</option>
+                  {Object.values(AppointmentType).map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-700">Provider</label>
+                <select value={providerId} onChange={(e) => setProviderId(e.target.value)} className={inputClass}>
+                  <option value="">Any provider</option>
+                  {providers.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-700">Earliest Date</label>
+                <input type="date" value={earliestDate} min={getCurrentDate()} onChange={(e) => setEarliestDate(e.target.value)} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-700">Latest Date (optional)</label>
+                <input type="date" value={latestDate} min={earliestDate} onChange={(e) => setLatestDate(e.target.value)} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-700">Priority</label>
+                <select value={priority} onChange={(e) => setPriority(e.target.value as AppointmentPriority)} className={inputClass}>
+                  {Object.values(AppointmentPriority).map(p => (
+                    <option key={p} value={p}>{p}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-slate-700">Notes (optional)</label>
+              <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="e.g. Mornings only" className={inputClass} />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                onClick={resetForm}
+                disabled={isSaving}
+                className="px-5 py-2.5 bg-slate-100 text-slate-700 rounded-xl font-semibold text-sm hover:bg-slate-200 transition-all disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAdd}
+                disabled={isSaving}
+                className="px-5 py-2.5 text-white bg-brand-primary rounded-xl font-semibold text-sm hover:bg-brand-primary-dark transition-all disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Add to Waitlist'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentWaitlist;
@@ -0,0 +1,133 @@
+/**
+ * Bill Adjustment Approvals
+ * Manager dashboard panel for voids and credit notes awaiting a second approver
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { BillAdjustment } from '../types';
+import { getBillAdjustments, decideBillAdjustment } from '../services/billAdjustmentService';
+import { useAuth } from '../contexts/AuthContext';
+import { formatISODateTime } from '../utils/dateTimeUtils';
+import { useToast } from './Toast';
+
+const BillAdjustmentApprovals: React.FC = () => {
+  const { user } = useAuth();
+  const { success: showSuccess, error: showError } = useToast();
+  const [pending, setPending] = useState<BillAdjustment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  const loadPending = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getBillAdjustments({ status: 'PENDING' });
+      if (result.success) {
+        setPending(result.adjustments || []);
+      } else {
+        console.warn('Pending adjustments unavailable:', result.error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPending();
+  }, [loadPending]);
+
+  const handleDecide = async (adjustment: BillAdjustment, approve: boolean) => {
+    let notes: string | undefined;
+    if (approve) {
+      if (!confirm(`Approve ${adjustment.adjustmentNumber}: ${adjustment.type === 'VOID' ? 'void' : 'credit'} TZS ${adjustment.amount.toLocaleString()} for ${adjustment.description}?`)) {
+        return;
+      }
+    } else {
+      const reason = prompt(`Reason for rejecting ${adjustment.adjustmentNumber}:`);
+      if (!reason || !reason.trim()) return;
+      notes = reason.trim();
+    }
+
+    setDecidingId(adjustment.id);
+    try {
+      const result = await decideBillAdjustment(adjustment.id, approve, notes);
+      if (result.success && result.adjustment) {
+        const refund = result.adjustment.refundAmount > 0 ? ` · refund TZS ${result.adjustment.refundAmount.toLocaleString()} due to patient` : '';
+        showSuccess(`${adjustment.adjustmentNumber} ${approve ? 'approved' : 'rejected'}${refund}`);
+        await loadPending();
+      } else {
+        showError(result.error || 'Failed to record decision');
+      }
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-8 pt-8 pb-6 border-b border-slate-100">
+        <h3 className="text-base font-bold text-slate-900 mb-1 flex items-center gap-2">
+          <i className="fas fa-user-check text-brand-primary"></i>
+          Voids &amp; Credit Notes Awaiting Approval
+          {pending.length > 0 && <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 font-bold">{pending.length}</span>}
+        </h3>
+        <p className="text-sm text-slate-500 font-medium">Bill corrections take effect only after a manager other than the requester approves them</p>
+      </div>
+
+      <div className="p-8">
+        {isLoading ? (
+          <p className="text-sm text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>Loading...</p>
+        ) : pending.length === 0 ? (
+          <p className="text-sm text-slate-400 p-4 bg-slate-50/50 rounded-xl border border-dashed border-slate-200 text-center">Nothing awaiting approval</p>
+        ) : (
+          <ul className="space-y-2">
+            {pending.map(adjustment => {
+              const isOwnRequest = adjustment.requestedBy === user?.id;
+              return (
+                <li key={adjustment.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-xl bg-slate-50 border border-slate-100">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">
+                      <span className={`text-xs px-2 py-0.5 rounded-lg font-semibold mr-2 ${adjustment.type === 'VOID' ? 'bg-red-100 text-red-700' : 'bg-purple-100 text-purple-700'}`}>
+                        {adjustment.type === 'VOID' ? 'VOID' : 'CREDIT NOTE'}
+                      </span>
+                      {adjustment.adjustmentNumber} · {adjustment.patientName || 'Patient'}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {adjustment.description} ({adjustment.category}) · TZS {adjustment.amount.toLocaleString()}
+                      {adjustment.amount !== adjustment.itemAmount && ` of ${adjustment.itemAmount.toLocaleString()}`}
+                      {' · '}{formatISODateTime(adjustment.requestedAt)}
+                    </p>
+                    <p className="text-xs text-slate-700 mt-1 italic">"{adjustment.reason}"</p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {isOwnRequest ? (
+                      <span className="text-xs text-slate-400 font-medium">Your request — needs another manager</span>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => handleDecide(adjustment, false)}
+                          disabled={decidingId === adjustment.id}
+                          className="px-4 py-2 text-sm font-semibold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => handleDecide(adjustment, true)}
+                          disabled={decidingId === adjustment.id}
+                          className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BillAdjustmentApprovals;
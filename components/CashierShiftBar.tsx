@@ -0,0 +1,303 @@
+/**
+ * Cashier Shift Bar
+ * Shows the billing officer's open shift and running takings, and opens / closes
+ * shifts with the float and counted-cash declaration. Closing produces the Z-report.
+ */
+
+import React, { useState } from 'react';
+import { CashierShift, ShiftReport } from '../types';
+import { openShift, closeShift } from '../services/shiftService';
+import { buildShiftReportExport, formatVariance } from '../utils/shiftReportUtils';
+import { exportToPDF, exportToExcel, exportToCSV } from '../utils/exportUtils';
+import { formatISODateTime } from '../utils/dateTimeUtils';
+import { useToast } from './Toast';
+
+interface CashierShiftBarProps {
+  shift: CashierShift | null;
+  report: ShiftReport | null;
+  onShiftChanged: () => void;
+}
+
+const CashierShiftBar: React.FC<CashierShiftBarProps> = ({ shift, report, onShiftChanged }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [showCloseForm, setShowCloseForm] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [closing, setClosing] = useState({ countedCash: '', card: '', mobileMoney: '', notes: '' });
+  const [zReport, setZReport] = useState<ShiftReport | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const float = parseFloat(openingFloat || '0');
+    if (isNaN(float) || float < 0) {
+      showError('Opening float must be zero or more');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await openShift(float);
+      if (result.success && result.shift) {
+        showSuccess(`Shift ${result.shift.shiftNumber} opened`);
+        setShowOpenForm(false);
+        setOpeningFloat('');
+        onShiftChanged();
+      } else {
+        showError(result.error || 'Failed to open shift');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCloseShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shift) return;
+    const countedCash = parseFloat(closing.countedCash);
+    if (isNaN(countedCash) || countedCash < 0) {
+      showError('Enter the cash counted in the drawer, including the float');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await closeShift(shift.id, {
+        countedCash,
+        declaredTotals: {
+          CARD: closing.card ? parseFloat(closing.card) : undefined,
+          MOBILE_MONEY: closing.mobileMoney ? parseFloat(closing.mobileMoney) : undefined,
+        },
+        notes: closing.notes.trim() || undefined,
+      });
+      if (result.success && result.report) {
+        showSuccess(`Shift ${shift.shiftNumber} closed`);
+        setShowCloseForm(false);
+        setClosing({ countedCash: '', card: '', mobileMoney: '', notes: '' });
+        setZReport(result.report);
+        onShiftChanged();
+      } else {
+        showError(result.error || 'Failed to close shift');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async (data: ShiftReport, format: 'pdf' | 'excel' | 'csv') => {
+    const exportData = buildShiftReportExport(data);
+    if (format === 'pdf') {
+      await exportToPDF(exportData);
+    } else if (format === 'excel') {
+      exportToExcel(exportData);
+    } else {
+      exportToCSV(exportData);
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm px-6 py-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        {shift ? (
+          <div className="flex items-center gap-6 flex-wrap">
+            <div>
+              <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Shift</p>
+              <p className="text-sm font-bold text-slate-900">
+                <span className="inline-block w-2 h-2 rounded-full bg-emerald-500 mr-2"></span>
+                {shift.shiftNumber}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Opened</p>
+              <p className="text-sm font-semibold text-slate-700">{formatISODateTime(shift.openedAt)}</p>
+            </div>
+            <div>
+              <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Float</p>
+              <p className="text-sm font-semibold text-slate-700">TZS {shift.openingFloat.toLocaleString()}</p>
+            </div>
+            {report && (
+              <>
+                <div>
+                  <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Taken</p>
+                  <p className="text-sm font-semibold text-slate-700">TZS {report.totalTaken.toLocaleString()} · {report.receiptCount} receipts</p>
+                </div>
+                <div>
+                  <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Cash in Drawer</p>
+                  <p className="text-sm font-semibold text-slate-700">TZS {report.expectedCash.toLocaleString()}</p>
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm font-semibold text-slate-800">No open shift</p>
+            <p className="text-xs text-slate-500">Open a shift with your cash float before taking payments.</p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {shift ? (
+            <>
+              {report && (
+                <button
+                  onClick={() => handleExport(report, 'pdf')}
+                  className="px-4 py-2 bg-slate-50 text-slate-700 border border-slate-200 rounded-xl text-sm font-semibold hover:bg-white transition-all"
+                  title="Print the running X-report"
+                >
+                  <i className="fas fa-print mr-2"></i>X-Report
+                </button>
+              )}
+              <button
+                onClick={() => setShowCloseForm(true)}
+                className="px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-semibold hover:bg-slate-800 transition-all"
+              >
+                <i className="fas fa-lock mr-2"></i>Close Shift
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setShowOpenForm(true)}
+              className="px-4 py-2 text-white rounded-xl text-sm font-semibold transition-all"
+              style={{ backgroundColor: 'var(--brand-primary)' }}
+            >
+              <i className="fas fa-cash-register mr-2"></i>Open Shift
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showOpenForm && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleOpenShift} className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <h3 className="text-base font-bold text-slate-900">Open Cashier Shift</h3>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Opening float (TZS)</label>
+              <input
+                type="number"
+                min={0}
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                placeholder="0"
+                autoFocus
+                className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-brand-primary"
+              />
+              <p className="text-xs text-slate-400 mt-1">Cash placed in the drawer for change</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setShowOpenForm(false)} className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-50 rounded-xl">
+                Cancel
+              </button>
+              <button type="submit" disabled={isSaving} className="px-4 py-2 text-sm font-semibold text-white rounded-xl disabled:opacity-50" style={{ backgroundColor: 'var(--brand-primary)' }}>
+                {isSaving ? 'Opening...' : 'Open Shift'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {showCloseForm && shift && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleCloseShift} className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <div>
+              <h3 className="text-base font-bold text-slate-900">Close Shift {shift.shiftNumber}</h3>
+              <p className="text-xs text-slate-500 mt-1">Count the drawer before looking at the expected total.</p>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Counted cash incl. float (TZS)</label>
+              <input
+                type="number"
+                min={0}
+                value={closing.countedCash}
+                onChange={(e) => setClosing({ ...closing, countedCash: e.target.value })}
+                autoFocus
+                className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-brand-primary"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Card batch total</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={closing.card}
+                  onChange={(e) => setClosing({ ...closing, card: e.target.value })}
+                  placeholder="Optional"
+                  className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-brand-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Mobile money total</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={closing.mobileMoney}
+                  onChange={(e) => setClosing({ ...closing, mobileMoney: e.target.value })}
+                  placeholder="Optional"
+                  className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-brand-primary"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Notes</label>
+              <textarea
+                value={closing.notes}
+                onChange={(e) => setClosing({ ...closing, notes: e.target.value })}
+                rows={2}
+                className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-brand-primary"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setShowCloseForm(false)} className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-50 rounded-xl">
+                Cancel
+              </button>
+              <button type="submit" disabled={isSaving} className="px-4 py-2 text-sm font-semibold text-white bg-slate-900 rounded-xl disabled:opacity-50">
+                {isSaving ? 'Closing...' : 'Close & Print Z-Report'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {zReport && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <div>
+              <h3 className="text-base font-bold text-slate-900">Z-Report {zReport.shiftNumber}</h3>
+              <p className="text-xs text-slate-500 mt-1">{zReport.receiptCount} receipts · TZS {zReport.totalTaken.toLocaleString()} taken</p>
+            </div>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between"><span className="text-slate-500">Expected cash</span><span className="font-semibold">TZS {zReport.expectedCash.toLocaleString()}</span></div>
+              <div className="flex justify-between"><span className="text-slate-500">Counted cash</span><span className="font-semibold">TZS {(zReport.countedCash ?? 0).toLocaleString()}</span></div>
+              <div className="flex justify-between">
+                <span className="text-slate-500">Cash variance</span>
+                <span className={`font-bold ${!zReport.cashVariance ? 'text-emerald-600' : zReport.cashVariance < 0 ? 'text-red-600' : 'text-amber-600'}`}>
+                  {formatVariance(zReport.cashVariance)}
+                </span>
+              </div>
+              {zReport.byMethod.filter(m => m.variance != null).map(m => (
+                <div key={m.method} className="flex justify-between">
+                  <span className="text-slate-500">{m.method === 'CARD' ? 'Card' : 'Mobile money'} variance</span>
+                  <span className={`font-bold ${m.variance === 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatVariance(m.variance)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap justify-end gap-2 pt-2 border-t border-slate-100">
+              <button onClick={() => handleExport(zReport, 'pdf')} className="px-3 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50 rounded-xl">
+                <i className="fas fa-file-pdf text-red-600 mr-2"></i>PDF
+              </button>
+              <button onClick={() => handleExport(zReport, 'excel')} className="px-3 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50 rounded-xl">
+                <i className="fas fa-file-excel text-green-600 mr-2"></i>Excel
+              </button>
+              <button onClick={() => handleExport(zReport, 'csv')} className="px-3 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50 rounded-xl">
+                <i className="fas fa-file-csv text-blue-600 mr-2"></i>CSV
+              </button>
+              <button onClick={() => setZReport(null)} className="px-4 py-2 text-sm font-semibold text-white bg-slate-900 rounded-xl">
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CashierShiftBar;
@@ -0,0 +1,159 @@
+/**
+ * Cashier Shifts Report
+ * Shifts opened in the report period with their cash variance, and each shift's Z-report export
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { CashierShift } from '../types';
+import { getShifts, getShiftReport } from '../services/shiftService';
+import { buildShiftReportExport, formatVariance } from '../utils/shiftReportUtils';
+import { exportToPDF, exportToExcel, exportToCSV } from '../utils/exportUtils';
+import { formatISODateTime } from '../utils/dateTimeUtils';
+import { useToast } from './Toast';
+
+interface CashierShiftsReportProps {
+  startDate: Date;
+  endDate: Date;
+}
+
+const toDateParam = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const CashierShiftsReport: React.FC<CashierShiftsReportProps> = ({ startDate, endDate }) => {
+  const { error: showError } = useToast();
+  const [shifts, setShifts] = useState<CashierShift[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const loadShifts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getShifts({ from: toDateParam(startDate), to: toDateParam(endDate) });
+      if (result.success) {
+        setShifts(result.shifts || []);
+      } else {
+        console.warn('Cashier shifts unavailable:', result.error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  const handleExport = async (shift: CashierShift, format: 'pdf' | 'excel' | 'csv') => {
+    setExportingId(shift.id);
+    try {
+      const result = await getShiftReport(shift.id);
+      if (!result.success || !result.report) {
+        showError(result.error || 'Failed to load shift report');
+        return;
+      }
+      const exportData = buildShiftReportExport(result.report);
+      if (format === 'pdf') {
+        await exportToPDF(exportData);
+      } else if (format === 'excel') {
+        exportToExcel(exportData);
+      } else {
+        exportToCSV(exportData);
+      }
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const closedShifts = shifts.filter(s => s.status === 'CLOSED');
+  const netVariance = closedShifts.reduce((sum, s) => sum + (s.cashVariance || 0), 0);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-sm font-normal text-slate-900 flex items-center gap-2">
+          <i className="fas fa-cash-register text-brand-primary"></i>
+          Cashier Shifts
+        </h2>
+        {closedShifts.length > 0 && (
+          <span className={`text-xs font-semibold ${netVariance === 0 ? 'text-emerald-600' : netVariance < 0 ? 'text-red-600' : 'text-amber-600'}`}>
+            Net cash variance: {formatVariance(netVariance)}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading shifts...</p>
+      ) : shifts.length === 0 ? (
+        <p className="text-sm text-slate-500">No cashier shifts in this period</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                <th className="py-2 pr-4">Shift</th>
+                <th className="py-2 pr-4">Cashier</th>
+                <th className="py-2 pr-4">Opened</th>
+                <th className="py-2 pr-4">Closed</th>
+                <th className="py-2 pr-4 text-right">Expected Cash</th>
+                <th className="py-2 pr-4 text-right">Counted</th>
+                <th className="py-2 pr-4 text-right">Variance</th>
+                <th className="py-2 text-right">Z-Report</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shifts.map(shift => (
+                <tr key={shift.id} className="border-b border-slate-100">
+                  <td className="py-3 pr-4 font-semibold text-slate-800">{shift.shiftNumber}</td>
+                  <td className="py-3 pr-4 text-slate-600">{shift.cashierName || '-'}</td>
+                  <td className="py-3 pr-4 text-slate-600">{formatISODateTime(shift.openedAt)}</td>
+                  <td className="py-3 pr-4 text-slate-600">
+                    {shift.closedAt ? formatISODateTime(shift.closedAt) : <span className="text-emerald-600 font-semibold">Open</span>}
+                  </td>
+                  <td className="py-3 pr-4 text-right text-slate-600">
+                    {shift.expectedCash != null ? `TZS ${shift.expectedCash.toLocaleString()}` : '-'}
+                  </td>
+                  <td className="py-3 pr-4 text-right text-slate-600">
+                    {shift.countedCash != null ? `TZS ${shift.countedCash.toLocaleString()}` : '-'}
+                  </td>
+                  <td className={`py-3 pr-4 text-right font-semibold ${
+                    shift.cashVariance == null ? 'text-slate-400' : shift.cashVariance === 0 ? 'text-emerald-600' : shift.cashVariance < 0 ? 'text-red-600' : 'text-amber-600'
+                  }`}>
+                    {formatVariance(shift.cashVariance)}
+                  </td>
+                  <td className="py-3 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleExport(shift, 'pdf')}
+                      disabled={exportingId === shift.id}
+                      className="px-2 text-slate-500 hover:text-red-600 disabled:opacity-50"
+                      title="Export PDF"
+                    >
+                      <i className="fas fa-file-pdf"></i>
+                    </button>
+                    <button
+                      onClick={() => handleExport(shift, 'excel')}
+                      disabled={exportingId === shift.id}
+                      className="px-2 text-slate-500 hover:text-green-600 disabled:opacity-50"
+                      title="Export Excel"
+                    >
+                      <i className="fas fa-file-excel"></i>
+                    </button>
+                    <button
+                      onClick={() => handleExport(shift, 'csv')}
+                      disabled={exportingId === shift.id}
+                      className="px-2 text-slate-500 hover:text-blue-600 disabled:opacity-50"
+                      title="Export CSV"
+                    >
+                      <i className="fas fa-file-csv"></i>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashierShiftsReport;
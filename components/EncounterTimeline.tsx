@@ -0,0 +1,137 @@
+/**
+ * Encounter Timeline Component
+ * Shows a patient's past encounters (newest first) with notes, refraction, diagnoses and charges
+ */
+
+import React, { useState } from 'react';
+import { Encounter } from '../types';
+import { formatDate } from '../utils/dateTimeUtils';
+import { calculateBillTotal } from '../utils/patientUtils';
+
+interface EncounterTimelineProps {
+  encounters: Encounter[];
+  isLoading?: boolean;
+  currentVisitId?: string | null;
+}
+
+const STATUS_STYLES: Record<Encounter['status'], string> = {
+  REGISTERED: 'bg-slate-100 text-slate-600 border-slate-200',
+  IN_PROGRESS: 'bg-amber-50 text-amber-700 border-amber-200',
+  COMPLETED: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  CANCELLED: 'bg-red-50 text-red-600 border-red-200',
+};
+
+const EncounterTimeline: React.FC<EncounterTimelineProps> = ({ encounters, isLoading = false, currentVisitId }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500 p-4">
+        <i className="fas fa-spinner fa-spin"></i>
+        <span>Loading encounter history...</span>
+      </div>
+    );
+  }
+
+  if (encounters.length === 0) {
+    return (
+      <div className="text-center p-6 text-xs text-slate-400">
+        <i className="fas fa-folder-open text-2xl mb-2 block"></i>
+        No previous encounters recorded for this patient.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l-2 border-slate-200 ml-3 space-y-4">
+      {encounters.map((encounter) => {
+        const isExpanded = expandedId === encounter.id;
+        const isCurrent = encounter.id === currentVisitId;
+        return (
+          <li key={encounter.id} className="ml-5">
+            <span className={`absolute -left-[9px] w-4 h-4 rounded-full border-2 border-white ${isCurrent ? 'bg-brand-primary' : 'bg-slate-300'}`}></span>
+            <button
+              type="button"
+              onClick={() => setExpandedId(isExpanded ? null : encounter.id)}
+              className="w-full text-left bg-slate-50 hover:bg-white border border-slate-200 rounded-xl p-3 transition-all"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-bold text-slate-900">
+                    {formatDate(encounter.visitDate || encounter.createdAt)}
+                    {isCurrent && <span className="ml-2 text-[10px] font-semibold text-brand-primary uppercase">Current visit</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {encounter.providerName || 'Provider not recorded'} · {encounter.department}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-lg border text-[10px] font-semibold uppercase ${STATUS_STYLES[encounter.status]}`}>
+                    {encounter.status.replace('_', ' ')}
+                  </span>
+                  <i className={`fas fa-chevron-${isExpanded ? 'up' : 'down'} text-xs text-slate-400`}></i>
+                </div>
+              </div>
+              {encounter.diagnoses.length > 0 && (
+                <p className="text-xs text-slate-700 mt-2 truncate">
+                  <span className="font-semibold">Dx:</span> {encounter.diagnoses.join('; ')}
+                </p>
+              )}
+            </button>
+
+            {isExpanded && (
+              <div className="mt-2 bg-white border border-slate-200 rounded-xl p-4 space-y-3 text-xs text-slate-700">
+                {encounter.chiefComplaint && (
+                  <div>
+                    <p className="font-semibold text-slate-600 mb-1">Chief Complaint</p>
+                    <p>{encounter.chiefComplaint}</p>
+                  </div>
+                )}
+                {encounter.refraction && (
+                  <div>
+                    <p className="font-semibold text-slate-600 mb-1">Refraction</p>
+                    <div className="grid grid-cols-2 gap-2 font-mono">
+                      <span>OD: {encounter.refraction.od || '—'}</span>
+                      <span>OS: {encounter.refraction.os || '—'}</span>
+                      {(encounter.refraction.addOd || encounter.refraction.addOs) && (
+                        <>
+                          <span>Add OD: {encounter.refraction.addOd || '—'}</span>
+                          <span>Add OS: {encounter.refraction.addOs || '—'}</span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {encounter.consultationNotes && (
+                  <div>
+                    <p className="font-semibold text-slate-600 mb-1">Examination Notes</p>
+                    <pre className="whitespace-pre-wrap font-sans bg-slate-50 p-2 rounded-lg max-h-48 overflow-y-auto custom-scrollbar">{encounter.consultationNotes}</pre>
+                  </div>
+                )}
+                {encounter.billItems.length > 0 && (
+                  <div>
+                    <p className="font-semibold text-slate-600 mb-1">Charges</p>
+                    <ul className="space-y-1">
+                      {encounter.billItems.map((item) => (
+                        <li key={item.id} className="flex justify-between">
+                          <span>{item.description}</span>
+                          <span className="font-mono">TZS {item.amount.toLocaleString()}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="flex justify-between font-bold border-t border-slate-100 mt-1 pt-1">
+                      <span>Total</span>
+                      <span className="font-mono">TZS {calculateBillTotal(encounter.billItems).toLocaleString()}</span>
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default EncounterTimeline;
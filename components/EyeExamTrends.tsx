@@ -0,0 +1,289 @@
+/**
+ * Eye Exam Trends Component
+ * Glaucoma follow-up view of a patient's structured exams: IOP against the patient's
+ * target band, best-corrected VA in logMAR and cup-to-disc ratio, as charts and as a
+ * visit-by-visit flowsheet
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { EyeExam, IopTarget } from '../types';
+import { getPatientEyeExams, getIopTarget, saveIopTarget } from '../services/eyeExamService';
+import { vaToLogMAR, isOutsideIopTarget, parseMeasurement } from '../utils/eyeExamUtils';
+import { formatDate } from '../utils/dateTimeUtils';
+import TrendChart from './TrendChart';
+import { useToast } from './Toast';
+
+interface EyeExamTrendsProps {
+  patientId: string;
+}
+
+const OD_COLOR = '#2563eb';
+const OS_COLOR = '#059669';
+
+const EMPTY_TARGET_FORM = { odLow: '', odHigh: '', osLow: '', osHigh: '', notes: '' };
+
+const text = (value?: number) => (value === undefined ? '' : String(value));
+
+const describeBand = (band: IopTarget['od']): string => {
+  if (band.low !== undefined && band.high !== undefined) return `${band.low}–${band.high} mmHg`;
+  if (band.high !== undefined) return `≤ ${band.high} mmHg`;
+  if (band.low !== undefined) return `≥ ${band.low} mmHg`;
+  return 'Not set';
+};
+
+const EyeExamTrends: React.FC<EyeExamTrendsProps> = ({ patientId }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [exams, setExams] = useState<EyeExam[]>([]);
+  const [target, setTarget] = useState<IopTarget | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isEditingTarget, setIsEditingTarget] = useState(false);
+  const [targetForm, setTargetForm] = useState(EMPTY_TARGET_FORM);
+  const [isSavingTarget, setIsSavingTarget] = useState(false);
+
+  const loadTrends = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [examResult, targetResult] = await Promise.all([getPatientEyeExams(patientId), getIopTarget(patientId)]);
+      if (examResult.success) {
+        setExams(examResult.exams || []);
+      } else {
+        console.warn('Eye exams unavailable:', examResult.error);
+      }
+      if (targetResult.success) {
+        setTarget(targetResult.target || null);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    loadTrends();
+  }, [loadTrends]);
+
+  const startEditingTarget = () => {
+    setTargetForm(target ? {
+      odLow: text(target.od.low),
+      odHigh: text(target.od.high),
+      osLow: text(target.os.low),
+      osHigh: text(target.os.high),
+      notes: target.notes || '',
+    } : EMPTY_TARGET_FORM);
+    setIsEditingTarget(true);
+  };
+
+  const handleSaveTarget = async () => {
+    const band = (low: string, high: string) => ({ low: parseMeasurement(low), high: parseMeasurement(high) });
+    const od = band(targetForm.odLow, targetForm.odHigh);
+    const os = band(targetForm.osLow, targetForm.osHigh);
+    if ([od.low, od.high, os.low, os.high].some(value => value !== undefined && !Number.isFinite(value))) {
+      showError('Target IOP must be a number of mmHg');
+      return;
+    }
+    setIsSavingTarget(true);
+    try {
+      const result = await saveIopTarget(patientId, { od, os, notes: targetForm.notes.trim() || undefined });
+      if (result.success && result.target) {
+        setTarget(result.target);
+        setIsEditingTarget(false);
+        showSuccess('Target IOP saved');
+      } else {
+        showError(result.error || 'Failed to save target IOP');
+      }
+    } finally {
+      setIsSavingTarget(false);
+    }
+  };
+
+  if (isLoading && exams.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500 p-4">
+        <i className="fas fa-spinner fa-spin"></i>
+        <span>Loading exam trends...</span>
+      </div>
+    );
+  }
+
+  const labels = exams.map(exam => formatDate(exam.visitDate || exam.createdAt || ''));
+  const iops = exams.flatMap(exam => [exam.od.iopMmHg, exam.os.iopMmHg]).filter((v): v is number => v !== undefined);
+  const logMars = exams.flatMap(exam => [vaToLogMAR(exam.od.vaBestCorrected), vaToLogMAR(exam.os.vaBestCorrected)])
+    .filter((v): v is number => v !== undefined);
+  const targetBands = target ? [
+    { label: `Target OD ${describeBand(target.od)}`, color: OD_COLOR, from: target.od.low, to: target.od.high },
+    { label: `Target OS ${describeBand(target.os)}`, color: OS_COLOR, from: target.os.low, to: target.os.high },
+  ].filter(band => band.from !== undefined || band.to !== undefined) : [];
+
+  const inputClass = 'w-full p-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-normal focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all';
+
+  return (
+    <div className="space-y-6">
+      {/* Target IOP */}
+      <div className="p-4 bg-slate-50 border border-slate-200 rounded-xl">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold text-slate-600 uppercase tracking-wide">Target IOP</p>
+            <p className="text-sm text-slate-900 mt-1">
+              OD {target ? describeBand(target.od) : 'Not set'} · OS {target ? describeBand(target.os) : 'Not set'}
+            </p>
+            {target?.notes && <p className="text-xs text-slate-500 italic mt-1">{target.notes}</p>}
+          </div>
+          {!isEditingTarget && (
+            <button
+              onClick={startEditingTarget}
+              className="px-3 py-1.5 text-xs font-semibold text-brand-primary bg-white border border-brand-primary-100 rounded-xl hover:bg-brand-primary-50"
+            >
+              {target ? 'Change' : 'Set Target'}
+            </button>
+          )}
+        </div>
+
+        {isEditingTarget && (
+          <div className="mt-4 space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-600">OD from (mmHg)</label>
+                <input type="text" inputMode="decimal" value={targetForm.odLow} onChange={(e) => setTargetForm({ ...targetForm, odLow: e.target.value })} placeholder="Optional" className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-600">OD up to (mmHg)</label>
+                <input type="text" inputMode="decimal" value={targetForm.odHigh} onChange={(e) => setTargetForm({ ...targetForm, odHigh: e.target.value })} placeholder="18" className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-600">OS from (mmHg)</label>
+                <input type="text" inputMode="decimal" value={targetForm.osLow} onChange={(e) => setTargetForm({ ...targetForm, osLow: e.target.value })} placeholder="Optional" className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-semibold text-slate-600">OS up to (mmHg)</label>
+                <input type="text" inputMode="decimal" value={targetForm.osHigh} onChange={(e) => setTargetForm({ ...targetForm, osHigh: e.target.value })} placeholder="18" className={inputClass} />
+              </div>
+            </div>
+            <input
+              type="text"
+              value={targetForm.notes}
+              onChange={(e) => setTargetForm({ ...targetForm, notes: e.target.value })}
+              placeholder="Reason or baseline, e.g. 30% below untreated IOP of 26"
+              className={inputClass}
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setIsEditingTarget(false)}
+                disabled={isSavingTarget}
+                className="px-4 py-2 bg-slate-100 text-slate-700 rounded-xl font-semibold text-xs hover:bg-slate-200 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveTarget}
+                disabled={isSavingTarget}
+                className="px-4 py-2 text-xs font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+              >
+                {isSavingTarget ? 'Saving...' : 'Save Target'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {exams.length === 0 ? (
+        <div className="text-center p-6 text-xs text-slate-400">
+          <i className="fas fa-chart-line text-2xl mb-2 block"></i>
+          No structured exams recorded for this patient yet.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div>
+              <h4 className="text-sm font-semibold text-slate-700 mb-2">IOP (mmHg)</h4>
+              <TrendChart
+                labels={labels}
+                series={[
+                  { label: 'OD', color: OD_COLOR, values: exams.map(exam => exam.od.iopMmHg) },
+                  { label: 'OS', color: OS_COLOR, values: exams.map(exam => exam.os.iopMmHg) },
+                ]}
+                yMin={0}
+                yMax={Math.max(40, ...iops.map(v => Math.ceil((v + 5) / 10) * 10))}
+                unit=" mmHg"
+                bands={targetBands}
+              />
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold text-slate-700 mb-2">Best-Corrected VA (logMAR, better is up)</h4>
+              <TrendChart
+                labels={labels}
+                series={[
+                  { label: 'OD', color: OD_COLOR, values: exams.map(exam => vaToLogMAR(exam.od.vaBestCorrected)) },
+                  { label: 'OS', color: OS_COLOR, values: exams.map(exam => vaToLogMAR(exam.os.vaBestCorrected)) },
+                ]}
+                yMin={Math.min(-0.3, ...logMars)}
+                yMax={Math.max(1, ...logMars)}
+                invertY
+                formatValue={(value) => value.toFixed(2)}
+              />
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold text-slate-700 mb-2">Cup-to-Disc Ratio</h4>
+              <TrendChart
+                labels={labels}
+                series={[
+                  { label: 'OD', color: OD_COLOR, values: exams.map(exam => exam.od.cupDiscRatio) },
+                  { label: 'OS', color: OS_COLOR, values: exams.map(exam => exam.os.cupDiscRatio) },
+                ]}
+                yMin={0}
+                yMax={1}
+                formatValue={(value) => value.toFixed(2)}
+              />
+            </div>
+          </div>
+
+          {/* Flowsheet */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                  <th className="py-2 pr-4">Visit</th>
+                  <th className="py-2 pr-4">BCVA OD</th>
+                  <th className="py-2 pr-4">BCVA OS</th>
+                  <th className="py-2 pr-4 text-right">IOP OD</th>
+                  <th className="py-2 pr-4 text-right">IOP OS</th>
+                  <th className="py-2 pr-4">Tonometry</th>
+                  <th className="py-2 pr-4 text-right">C/D OD</th>
+                  <th className="py-2 text-right">C/D OS</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...exams].reverse().map(exam => {
+                  const acuity = (va?: string) => {
+                    const logMar = vaToLogMAR(va);
+                    return va ? `${va}${logMar !== undefined ? ` (${logMar.toFixed(2)})` : ''}` : '—';
+                  };
+                  const iopCell = (iop: number | undefined, band?: IopTarget['od']) => (
+                    <span className={isOutsideIopTarget(iop, band) ? 'font-bold text-red-600' : 'text-slate-700'}>
+                      {iop ?? '—'}
+                    </span>
+                  );
+                  return (
+                    <tr key={exam.id || exam.visitId} className="border-b border-slate-100">
+                      <td className="py-2 pr-4 font-semibold text-slate-800">{formatDate(exam.visitDate || exam.createdAt || '')}</td>
+                      <td className="py-2 pr-4 text-slate-700">{acuity(exam.od.vaBestCorrected)}</td>
+                      <td className="py-2 pr-4 text-slate-700">{acuity(exam.os.vaBestCorrected)}</td>
+                      <td className="py-2 pr-4 text-right">{iopCell(exam.od.iopMmHg, target?.od)}</td>
+                      <td className="py-2 pr-4 text-right">{iopCell(exam.os.iopMmHg, target?.os)}</td>
+                      <td className="py-2 pr-4 text-xs text-slate-500">{exam.tonometryMethod || '—'}</td>
+                      <td className="py-2 pr-4 text-right text-slate-700">{exam.od.cupDiscRatio?.toFixed(2) ?? '—'}</td>
+                      <td className="py-2 text-right text-slate-700">{exam.os.cupDiscRatio?.toFixed(2) ?? '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-400 mt-2">
+              logMAR in brackets; CF and HM charted as 2.0 and 2.3, PL and NPL not charted. IOP outside the target band in red.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EyeExamTrends;
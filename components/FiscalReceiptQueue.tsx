@@ -0,0 +1,102 @@
+/**
+ * Fiscal Receipt Queue
+ * Manager dashboard panel for receipts the TRA fiscal device has not yet accepted
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { FiscalReceipt } from '../types';
+import { getFiscalReceipts, retryFiscalReceipts } from '../services/paymentService';
+import { formatISODateTime } from '../utils/dateTimeUtils';
+import { useToast } from './Toast';
+
+const FiscalReceiptQueue: React.FC = () => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [failed, setFailed] = useState<FiscalReceipt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const loadFailed = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getFiscalReceipts('FAILED');
+      if (result.success) {
+        setFailed(result.fiscalReceipts || []);
+      } else {
+        console.warn('Fiscal receipt queue unavailable:', result.error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFailed();
+  }, [loadFailed]);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      const result = await retryFiscalReceipts();
+      if (result.success) {
+        showSuccess(`Fiscalised ${result.fiscalised ?? 0} of ${result.attempted ?? 0} queued receipts`);
+        await loadFailed();
+      } else {
+        showError(result.error || 'Failed to retry fiscal receipts');
+      }
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-8 pt-8 pb-6 border-b border-slate-100 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-bold text-slate-900 mb-1 flex items-center gap-2">
+            <i className="fas fa-receipt text-brand-primary"></i>
+            Receipts Awaiting Fiscalisation
+            {failed.length > 0 && <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 font-bold">{failed.length}</span>}
+          </h3>
+          <p className="text-sm text-slate-500 font-medium">Receipts the fiscal device could not register are retried automatically</p>
+        </div>
+        {failed.length > 0 && (
+          <button
+            onClick={handleRetry}
+            disabled={isRetrying}
+            className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50 shrink-0"
+          >
+            {isRetrying ? <><i className="fas fa-spinner fa-spin mr-2"></i>Retrying...</> : 'Retry now'}
+          </button>
+        )}
+      </div>
+
+      <div className="p-8">
+        {isLoading ? (
+          <p className="text-sm text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>Loading...</p>
+        ) : failed.length === 0 ? (
+          <p className="text-sm text-slate-400 p-4 bg-slate-50/50 rounded-xl border border-dashed border-slate-200 text-center">All receipts fiscalised</p>
+        ) : (
+          <ul className="space-y-2">
+            {failed.map(receipt => (
+              <li key={receipt.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-xl bg-slate-50 border border-slate-100">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {receipt.receiptNumber} · {receipt.patientName || 'Patient'}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    TZS {receipt.amount.toLocaleString()} · {formatISODateTime(receipt.createdAt)}
+                    {' · '}{receipt.attempts} attempt{receipt.attempts === 1 ? '' : 's'}
+                    {receipt.nextAttemptAt && ` · next ${formatISODateTime(receipt.nextAttemptAt)}`}
+                  </p>
+                  {receipt.lastError && <p className="text-xs text-red-600 mt-1">{receipt.lastError}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FiscalReceiptQueue;
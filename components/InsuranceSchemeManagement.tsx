@@ -0,0 +1,323 @@
+/**
+ * Insurance Scheme Management
+ * Admin editor for private insurer benefit rules: coverage by category, optical limits, caps, exclusions and co-pay
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { InsuranceScheme, InsuranceProvider, BillItem } from '../types';
+import { getInsuranceSchemes, createInsuranceScheme, updateInsuranceScheme } from '../services/insuranceSchemeService';
+import { useTariffs } from '../contexts/TariffContext';
+import { INSURANCE_PROVIDERS } from '../constants';
+import { useToast } from './Toast';
+
+const CATEGORIES: BillItem['category'][] = ['CLINICAL', 'PHARMACY', 'OPTICAL'];
+
+const PRIVATE_INSURERS = INSURANCE_PROVIDERS
+  .map(p => p.value as InsuranceProvider)
+  .filter(insurer => insurer !== InsuranceProvider.NHIF);
+
+interface SchemeForm {
+  id?: string;
+  insurer: InsuranceProvider;
+  code: string;
+  name: string;
+  coverage: Record<BillItem['category'], string>; // Percentages as typed
+  annualOpticalLimit: string;
+  frameCap: string;
+  lensCap: string;
+  copayAmount: string;
+  excludedCodes: string[];
+}
+
+const toForm = (scheme?: InsuranceScheme): SchemeForm => ({
+  id: scheme?.id,
+  insurer: scheme?.insurer || PRIVATE_INSURERS[0],
+  code: scheme?.code || '',
+  name: scheme?.name || '',
+  coverage: {
+    CLINICAL: String(Math.round((scheme?.coverage.CLINICAL ?? 0.9) * 100)),
+    PHARMACY: String(Math.round((scheme?.coverage.PHARMACY ?? 0.9) * 100)),
+    OPTICAL: String(Math.round((scheme?.coverage.OPTICAL ?? 0.9) * 100)),
+  },
+  annualOpticalLimit: scheme?.annualOpticalLimit !== undefined ? String(scheme.annualOpticalLimit) : '',
+  frameCap: scheme?.frameCap !== undefined ? String(scheme.frameCap) : '',
+  lensCap: scheme?.lensCap !== undefined ? String(scheme.lensCap) : '',
+  copayAmount: scheme ? String(scheme.copayAmount) : '0',
+  excludedCodes: scheme?.excludedCodes || [],
+});
+
+const formatOptional = (amount?: number) => amount !== undefined ? `TZS ${amount.toLocaleString()}` : 'None';
+
+const InsuranceSchemeManagement: React.FC = () => {
+  const { tariffs } = useTariffs();
+  const { success: showSuccess, error: showError } = useToast();
+  const [schemes, setSchemes] = useState<InsuranceScheme[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [form, setForm] = useState<SchemeForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSchemes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getInsuranceSchemes(true);
+      if (result.success) {
+        setSchemes(result.schemes || []);
+      } else {
+        console.warn('Insurance schemes unavailable:', result.error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchemes();
+  }, [loadSchemes]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim() || (!form.id && !form.code.trim())) {
+      showError('Scheme code and name are required');
+      return;
+    }
+    const coverage = {} as Record<BillItem['category'], number>;
+    for (const category of CATEGORIES) {
+      const percent = parseFloat(form.coverage[category]);
+      if (isNaN(percent) || percent < 0 || percent > 100) {
+        showError(`${category} coverage must be between 0 and 100%`);
+        return;
+      }
+      coverage[category] = percent / 100;
+    }
+    const optionalAmount = (value: string) => value.trim() === '' ? null : parseFloat(value);
+
+    const rules = {
+      name: form.name.trim(),
+      coverage,
+      annualOpticalLimit: optionalAmount(form.annualOpticalLimit),
+      frameCap: optionalAmount(form.frameCap),
+      lensCap: optionalAmount(form.lensCap),
+      copayAmount: parseFloat(form.copayAmount) || 0,
+      excludedCodes: form.excludedCodes,
+    };
+
+    setIsSaving(true);
+    try {
+      const result = form.id
+        ? await updateInsuranceScheme(form.id, rules)
+        : await createInsuranceScheme({ ...rules, insurer: form.insurer, code: form.code.trim().toUpperCase() });
+      if (result.success) {
+        showSuccess(`${rules.name} saved`);
+        setForm(null);
+        await loadSchemes();
+      } else {
+        showError(result.error || 'Failed to save scheme');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (scheme: InsuranceScheme) => {
+    if (scheme.isActive && !confirm(`Deactivate ${scheme.name}? Patients on it fall back to the default private cover.`)) {
+      return;
+    }
+    const result = await updateInsuranceScheme(scheme.id, { isActive: !scheme.isActive });
+    if (result.success) {
+      showSuccess(`${scheme.name} ${scheme.isActive ? 'deactivated' : 'activated'}`);
+      await loadSchemes();
+    } else {
+      showError(result.error || 'Failed to update scheme');
+    }
+  };
+
+  const toggleExcluded = (code: string) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      excludedCodes: form.excludedCodes.includes(code)
+        ? form.excludedCodes.filter(c => c !== code)
+        : [...form.excludedCodes, code],
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-bold text-slate-900">Insurance Benefit Schemes</h2>
+          <p className="text-xs text-slate-500 mt-1">What each private insurer scheme pays per bill line. Patients without a scheme get the default private cover.</p>
+        </div>
+        <button
+          onClick={() => setForm(toForm())}
+          className="px-4 py-2 text-white rounded-xl font-semibold text-sm shrink-0"
+          style={{ backgroundColor: 'var(--brand-primary)' }}
+        >
+          <i className="fas fa-plus mr-2"></i>Add Scheme
+        </button>
+      </div>
+
+      <div className="p-6">
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading schemes...</p>
+        ) : schemes.length === 0 ? (
+          <p className="text-sm text-slate-500">No schemes configured</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                  <th className="py-2 pr-4">Scheme</th>
+                  <th className="py-2 pr-4">Cover (Clin / Pharm / Opt)</th>
+                  <th className="py-2 pr-4">Optical Limit</th>
+                  <th className="py-2 pr-4">Frame / Lens Cap</th>
+                  <th className="py-2 pr-4">Co-pay</th>
+                  <th className="py-2 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {schemes.map(scheme => (
+                  <tr key={scheme.id} className={`border-b border-slate-100 ${scheme.isActive ? '' : 'opacity-50'}`}>
+                    <td className="py-3 pr-4">
+                      <p className="font-semibold text-slate-800">{scheme.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {scheme.insurer} · {scheme.code}
+                        {scheme.excludedCodes.length > 0 && ` · ${scheme.excludedCodes.length} excluded`}
+                      </p>
+                    </td>
+                    <td className="py-3 pr-4 text-slate-600">
+                      {CATEGORIES.map(c => `${Math.round(scheme.coverage[c] * 100)}%`).join(' / ')}
+                    </td>
+                    <td className="py-3 pr-4 text-slate-600">{formatOptional(scheme.annualOpticalLimit)}</td>
+                    <td className="py-3 pr-4 text-slate-600">{formatOptional(scheme.frameCap)} / {formatOptional(scheme.lensCap)}</td>
+                    <td className="py-3 pr-4 text-slate-600">{scheme.copayAmount > 0 ? `TZS ${scheme.copayAmount.toLocaleString()}` : 'None'}</td>
+                    <td className="py-3 text-right whitespace-nowrap">
+                      <button onClick={() => setForm(toForm(scheme))} className="px-2 text-slate-500 hover:text-brand-primary" title="Edit rules">
+                        <i className="fas fa-edit"></i>
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(scheme)}
+                        className="px-2 text-slate-500 hover:text-amber-600"
+                        title={scheme.isActive ? 'Deactivate' : 'Activate'}
+                      >
+                        <i className={`fas ${scheme.isActive ? 'fa-toggle-on' : 'fa-toggle-off'}`}></i>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {form && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-base font-bold text-slate-900">{form.id ? `Edit ${form.name}` : 'Add Benefit Scheme'}</h3>
+            {!form.id && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-xs font-semibold text-slate-600 mb-1 block">Insurer</label>
+                  <select
+                    value={form.insurer}
+                    onChange={(e) => setForm({ ...form, insurer: e.target.value as InsuranceProvider })}
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                  >
+                    {PRIVATE_INSURERS.map(insurer => <option key={insurer} value={insurer}>{insurer}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs font-semibold text-slate-600 mb-1 block">Scheme Code</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase().replace(/[^A-Z0-9_]/g, '') })}
+                    placeholder="e.g. GOLD"
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-mono outline-none"
+                  />
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {CATEGORIES.map(category => (
+                <div key={category}>
+                  <label className="text-xs font-semibold text-slate-600 mb-1 block">{category} cover %</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={form.coverage[category]}
+                    onChange={(e) => setForm({ ...form, coverage: { ...form.coverage, [category]: e.target.value } })}
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                ['annualOpticalLimit', 'Annual optical limit (TZS)'],
+                ['frameCap', 'Frame cap (TZS)'],
+                ['lensCap', 'Lens cap (TZS)'],
+                ['copayAmount', 'Co-pay per visit (TZS)'],
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label className="text-xs font-semibold text-slate-600 mb-1 block">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    placeholder={field === 'copayAmount' ? '0' : 'No limit'}
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">Excluded services</label>
+              <div className="max-h-40 overflow-y-auto border border-slate-200 rounded-xl p-3 space-y-1">
+                {tariffs.filter(t => t.group !== 'LIMIT').map(tariff => (
+                  <label key={tariff.code} className="flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={form.excludedCodes.includes(tariff.code)}
+                      onChange={() => toggleExcluded(tariff.code)}
+                    />
+                    {tariff.name} <span className="text-xs text-slate-400 font-mono">{tariff.code}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 text-sm font-semibold text-slate-600 bg-slate-100 rounded-xl hover:bg-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+              >
+                Save Scheme
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsuranceSchemeManagement;
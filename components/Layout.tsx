@@ -30,20 +30,23 @@ const Layout: React.FC<LayoutProps> = ({ children, activeRole, onRoleChange, cur
   const profileRef = useRef<HTMLDivElement>(null);
 
   const menuItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: 'fa-chart-line', roles: [UserRole.RECEPTIONIST, UserRole.MANAGER, UserRole.ADMIN, UserRole.OPTOMETRIST, UserRole.PHARMACIST, UserRole.OPTICAL_DISPENSER, UserRole.BILLING_OFFICER] },
+    { id: 'dashboard', label: 'Dashboard', icon: 'fa-chart-line', roles: [UserRole.RECEPTIONIST, UserRole.MANAGER, UserRole.ADMIN, UserRole.OPTOMETRIST, UserRole.PHARMACIST, UserRole.OPTICAL_DISPENSER, UserRole.BILLING_OFFICER, UserRole.CLAIM_OFFICER] },
     { id: 'registration', label: 'Registration', icon: 'fa-user-plus', roles: [UserRole.RECEPTIONIST, UserRole.ADMIN] },
     { id: 'patients', label: 'Patients List', icon: 'fa-users', roles: [UserRole.RECEPTIONIST, UserRole.MANAGER, UserRole.ADMIN] },
-    { id: 'appointments', label: 'Appointments', icon: 'fa-calendar-check', roles: [UserRole.RECEPTIONIST, UserRole.ADMIN, UserRole.OPTOMETRIST] },
+    { id: 'appointments', label: 'Appointments', icon: 'fa-calendar-check', roles: [UserRole.RECEPTIONIST, UserRole.ADMIN, UserRole.MANAGER, UserRole.OPTOMETRIST] },
     { id: 'queue', label: 'Queue Board', icon: 'fa-list-ol', roles: [UserRole.RECEPTIONIST, UserRole.MANAGER, UserRole.ADMIN] },
     { id: 'clinical', label: 'Clinical EMR', icon: 'fa-stethoscope', roles: [UserRole.OPTOMETRIST, UserRole.ADMIN] },
     { id: 'pharmacy', label: 'Pharmacy', icon: 'fa-pills', roles: [UserRole.PHARMACIST, UserRole.ADMIN] },
     { id: 'optical', label: 'Optical Shop', icon: 'fa-glasses', roles: [UserRole.OPTICAL_DISPENSER, UserRole.ADMIN] },
     { id: 'billing', label: 'Billing & Claims', icon: 'fa-file-invoice-dollar', roles: [UserRole.BILLING_OFFICER, UserRole.ADMIN] },
+    { id: 'nhif-claims', label: 'NHIF Claims', icon: 'fa-file-medical-alt', roles: [UserRole.CLAIM_OFFICER, UserRole.MANAGER, UserRole.ADMIN] },
+    { id: 'insurer-claims', label: 'Insurer Claims', icon: 'fa-file-invoice', roles: [UserRole.CLAIM_OFFICER, UserRole.MANAGER, UserRole.ADMIN] },
     // Admin-specific menu items
     { id: 'users', label: 'User Management', icon: 'fa-user-shield', roles: [UserRole.ADMIN] },
     { id: 'reports', label: 'Reports & Analytics', icon: 'fa-chart-bar', roles: [UserRole.ADMIN, UserRole.MANAGER] },
     { id: 'performance', label: 'Performance Reports', icon: 'fa-chart-line', roles: [UserRole.ADMIN, UserRole.MANAGER] },
     { id: 'nhif-reports', label: 'NHIF Reports', icon: 'fa-shield-alt', roles: [UserRole.ADMIN, UserRole.MANAGER] },
+    { id: 'debtors', label: 'Debtors & Aging', icon: 'fa-hand-holding-usd', roles: [UserRole.ADMIN, UserRole.MANAGER, UserRole.BILLING_OFFICER, UserRole.CLAIM_OFFICER] },
     { id: 'settings', label: 'System Settings', icon: 'fa-cog', roles: [UserRole.ADMIN] },
     { id: 'nhif-settings', label: 'NHIF Settings', icon: 'fa-shield-alt', roles: [UserRole.ADMIN] },
     { id: 'audit', label: 'Audit Logs', icon: 'fa-history', roles: [UserRole.ADMIN] },
@@ -0,0 +1,103 @@
+/**
+ * No-Show Report
+ * Share of booked appointments in the report period that the patient missed, by
+ * provider and by appointment type
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { NoShowReport as NoShowReportData, NoShowReportRow } from '../types';
+import { getNoShowReport } from '../services/appointmentService';
+
+interface NoShowReportProps {
+  startDate: Date;
+  endDate: Date;
+}
+
+const toDateParam = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatRate = (rate: number): string => `${(rate * 100).toFixed(1)}%`;
+
+const rateColor = (rate: number): string =>
+  rate >= 0.2 ? 'text-red-600' : rate >= 0.1 ? 'text-amber-600' : 'text-emerald-600';
+
+const NoShowTable: React.FC<{ title: string; rows: NoShowReportRow[] }> = ({ title, rows }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+          <th className="py-2 pr-4">{title}</th>
+          <th className="py-2 pr-4 text-right">Booked</th>
+          <th className="py-2 pr-4 text-right">Attended</th>
+          <th className="py-2 pr-4 text-right">Late</th>
+          <th className="py-2 pr-4 text-right">No-shows</th>
+          <th className="py-2 text-right">No-show Rate</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-b border-slate-100">
+            <td className="py-3 pr-4 font-semibold text-slate-800">{row.label}</td>
+            <td className="py-3 pr-4 text-right text-slate-600">{row.due}</td>
+            <td className="py-3 pr-4 text-right text-slate-600">{row.attended}</td>
+            <td className="py-3 pr-4 text-right text-slate-600">{row.late}</td>
+            <td className="py-3 pr-4 text-right text-slate-600">{row.noShows}</td>
+            <td className={`py-3 text-right font-semibold ${rateColor(row.noShowRate)}`}>{formatRate(row.noShowRate)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const NoShowReport: React.FC<NoShowReportProps> = ({ startDate, endDate }) => {
+  const [report, setReport] = useState<NoShowReportData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getNoShowReport(toDateParam(startDate), toDateParam(endDate));
+      if (result.success) {
+        setReport(result.report || null);
+      } else {
+        console.warn('No-show report unavailable:', result.error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-sm font-normal text-slate-900 flex items-center gap-2">
+          <i className="fas fa-user-times text-brand-primary"></i>
+          Appointment No-Shows
+        </h2>
+        {report && report.totals.due > 0 && (
+          <span className={`text-xs font-semibold ${rateColor(report.totals.noShowRate)}`}>
+            {report.totals.noShows} of {report.totals.due} missed ({formatRate(report.totals.noShowRate)})
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading no-shows...</p>
+      ) : !report || report.totals.due === 0 ? (
+        <p className="text-sm text-slate-500">No booked appointments in this period</p>
+      ) : (
+        <div className="space-y-6">
+          <NoShowTable title="Provider" rows={report.byProvider} />
+          <NoShowTable title="Appointment Type" rows={report.byType} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoShowReport;
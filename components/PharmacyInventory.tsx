@@ -0,0 +1,665 @@
+/**
+ * Pharmacy Inventory Component
+ * Stock on hand per batch, goods received notes, adjustments and the running stock ledger
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Medication, MedicationBatch, StockMovement, GoodsReceivedNote, StockAdjustmentReason } from '../types';
+import {
+  getMedicationBatches,
+  getStockLedger,
+  getGoodsReceivedNotes,
+  receiveGoods,
+  adjustStock,
+  updateReorderLevel,
+  STOCK_ADJUSTMENT_REASONS,
+} from '../services/inventoryService';
+import { useToast } from './Toast';
+import { formatDate, getCurrentDate } from '../utils/dateTimeUtils';
+import { STOCK_ALERTS } from '../constants';
+
+interface PharmacyInventoryProps {
+  medications: Medication[];
+  onStockChanged: () => void;
+}
+
+interface GRNLine {
+  medicationId: string;
+  batchNo: string;
+  expiryDate: string;
+  quantity: string;
+  unitCost: string;
+}
+
+const emptyLine = (): GRNLine => ({ medicationId: '', batchNo: '', expiryDate: '', quantity: '', unitCost: '' });
+
+/**
+ * Days until a batch expires (negative once expired)
+ */
+const daysToExpiry = (expiryDate?: string): number | null => {
+  if (!expiryDate) return null;
+  const diff = new Date(expiryDate).getTime() - new Date(getCurrentDate()).getTime();
+  return Math.floor(diff / (1000 * 60 * 60 * 24));
+};
+
+const MOVEMENT_LABELS: Record<StockMovement['movementType'], string> = {
+  OPENING: 'Opening balance',
+  RECEIPT: 'Received',
+  DISPENSE: 'Dispensed',
+  ADJUSTMENT: 'Adjustment',
+};
+
+const PharmacyInventory: React.FC<PharmacyInventoryProps> = ({ medications, onStockChanged }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [selectedMedId, setSelectedMedId] = useState<string | null>(null);
+  const [batches, setBatches] = useState<MedicationBatch[]>([]);
+  const [ledger, setLedger] = useState<StockMovement[]>([]);
+  const [grns, setGrns] = useState<GoodsReceivedNote[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [showGRNForm, setShowGRNForm] = useState(false);
+  const [grnHeader, setGrnHeader] = useState({ supplierName: '', supplierInvoiceNo: '', receivedDate: getCurrentDate(), notes: '' });
+  const [grnLines, setGrnLines] = useState<GRNLine[]>([emptyLine()]);
+
+  const [adjustingBatch, setAdjustingBatch] = useState<MedicationBatch | null>(null);
+  const [adjustment, setAdjustment] = useState<{ direction: 'OUT' | 'IN'; quantity: string; reason: StockAdjustmentReason; notes: string }>({
+    direction: 'OUT',
+    quantity: '',
+    reason: 'DAMAGED',
+    notes: '',
+  });
+
+  const [reorderDraft, setReorderDraft] = useState<string | null>(null);
+
+  const selectedMed = medications.find(m => m.id === selectedMedId);
+  const isLowStock = (med: Medication) => med.stock <= (med.reorderLevel ?? STOCK_ALERTS.DEFAULT_REORDER_LEVEL);
+
+  const loadMedicationStock = useCallback(async (medicationId: string) => {
+    setIsLoading(true);
+    try {
+      const [batchResult, ledgerResult] = await Promise.all([
+        getMedicationBatches(medicationId, true),
+        getStockLedger(medicationId),
+      ]);
+      setBatches(batchResult.success ? batchResult.batches || [] : []);
+      setLedger(ledgerResult.success ? (ledgerResult.movements || []).slice().reverse() : []);
+      if (!batchResult.success) {
+        showError(batchResult.error || 'Failed to load batches');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadGRNs = useCallback(async () => {
+    const result = await getGoodsReceivedNotes();
+    if (result.success) {
+      setGrns(result.grns || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGRNs();
+  }, [loadGRNs]);
+
+  useEffect(() => {
+    if (selectedMedId) {
+      loadMedicationStock(selectedMedId);
+    } else {
+      setBatches([]);
+      setLedger([]);
+    }
+  }, [selectedMedId, loadMedicationStock]);
+
+  const handleSaveReorderLevel = async () => {
+    if (!selectedMed || reorderDraft === null) return;
+    const level = parseInt(reorderDraft, 10);
+    if (isNaN(level) || level < 0) {
+      showError('Reorder level must be zero or more');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await updateReorderLevel(selectedMed.id, level);
+      if (result.success) {
+        showSuccess(`Reorder level for ${selectedMed.name} set to ${level}`);
+        setReorderDraft(null);
+        onStockChanged();
+      } else {
+        showError(result.error || 'Failed to update reorder level');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetGRNForm = () => {
+    setGrnHeader({ supplierName: '', supplierInvoiceNo: '', receivedDate: getCurrentDate(), notes: '' });
+    setGrnLines([emptyLine()]);
+  };
+
+  const updateLine = (index: number, field: keyof GRNLine, value: string) => {
+    setGrnLines(prev => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const handleSubmitGRN = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!grnHeader.supplierName.trim()) {
+      showError('Supplier name is required');
+      return;
+    }
+    const lines = grnLines.filter(l => l.medicationId);
+    if (lines.length === 0) {
+      showError('Add at least one medication line');
+      return;
+    }
+    for (const line of lines) {
+      const qty = parseInt(line.quantity, 10);
+      if (!line.batchNo.trim() || !line.expiryDate || isNaN(qty) || qty <= 0) {
+        showError('Each line needs a batch number, expiry date and quantity');
+        return;
+      }
+      if (line.expiryDate < getCurrentDate()) {
+        showError(`Batch ${line.batchNo} has already expired`);
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await receiveGoods({
+        supplierName: grnHeader.supplierName.trim(),
+        supplierInvoiceNo: grnHeader.supplierInvoiceNo.trim() || undefined,
+        receivedDate: grnHeader.receivedDate,
+        notes: grnHeader.notes.trim() || undefined,
+        items: lines.map(l => ({
+          medicationId: l.medicationId,
+          batchNo: l.batchNo.trim(),
+          expiryDate: l.expiryDate,
+          quantity: parseInt(l.quantity, 10),
+          unitCost: l.unitCost ? parseFloat(l.unitCost) : undefined,
+        })),
+      });
+      if (result.success) {
+        showSuccess(`Stock received on ${result.grnNumber || 'GRN'}`);
+        setShowGRNForm(false);
+        resetGRNForm();
+        onStockChanged();
+        loadGRNs();
+        if (selectedMedId) loadMedicationStock(selectedMedId);
+      } else {
+        showError(result.error || 'Failed to record goods received');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmitAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjustingBatch) return;
+    const qty = parseInt(adjustment.quantity, 10);
+    if (isNaN(qty) || qty <= 0) {
+      showError('Enter a quantity greater than zero');
+      return;
+    }
+    if (adjustment.direction === 'OUT' && qty > adjustingBatch.quantityRemaining) {
+      showError(`Only ${adjustingBatch.quantityRemaining} units left in this batch`);
+      return;
+    }
+    if (adjustment.reason === 'OTHER' && !adjustment.notes.trim()) {
+      showError('Please describe the reason for this adjustment');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await adjustStock({
+        batchId: adjustingBatch.id,
+        quantity: adjustment.direction === 'OUT' ? -qty : qty,
+        reason: adjustment.reason,
+        notes: adjustment.notes.trim() || undefined,
+      });
+      if (result.success) {
+        showSuccess(`Batch ${adjustingBatch.batchNo} adjusted. New balance: ${result.balanceAfter}`);
+        setAdjustingBatch(null);
+        setAdjustment({ direction: 'OUT', quantity: '', reason: 'DAMAGED', notes: '' });
+        onStockChanged();
+        if (selectedMedId) loadMedicationStock(selectedMedId);
+      } else {
+        showError(result.error || 'Failed to adjust stock');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 h-full min-h-0">
+      {/* Stock list */}
+      <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-black text-slate-800 text-[10px] uppercase tracking-widest">Stock on Hand</h3>
+          <button
+            onClick={() => setShowGRNForm(true)}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-emerald-500 transition-all"
+          >
+            <i className="fas fa-truck-loading mr-2"></i>Receive Stock
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+          {medications.map(med => (
+            <button
+              key={med.id}
+              onClick={() => { setSelectedMedId(med.id); setReorderDraft(null); }}
+              className={`w-full p-4 rounded-3xl text-left border transition-all flex items-center justify-between ${selectedMedId === med.id ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-white border-slate-100 hover:border-emerald-200'}`}
+            >
+              <div>
+                <p className="text-sm font-black">{med.name}</p>
+                <p className={`text-[10px] font-bold ${selectedMedId === med.id ? 'text-emerald-100' : 'text-slate-400'}`}>{med.dosage} · {med.form}</p>
+              </div>
+              <span className={`text-sm font-black ${selectedMedId === med.id ? 'text-white' : isLowStock(med) ? 'text-red-500' : 'text-slate-700'}`}>{med.stock}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Batches and ledger */}
+      <div className="lg:col-span-2 flex flex-col gap-6 overflow-y-auto custom-scrollbar">
+        {selectedMed ? (
+          <>
+            <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Batches (FEFO order)</p>
+                  <h4 className="text-xl font-black text-slate-800">{selectedMed.name}</h4>
+                </div>
+                <div className="flex items-end gap-6">
+                  <div className="text-right">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Reorder level</p>
+                    {reorderDraft === null ? (
+                      <button
+                        onClick={() => setReorderDraft(String(selectedMed.reorderLevel ?? STOCK_ALERTS.DEFAULT_REORDER_LEVEL))}
+                        className="text-lg font-black text-slate-600 hover:text-emerald-600"
+                        title="Edit reorder level"
+                      >
+                        {selectedMed.reorderLevel ?? STOCK_ALERTS.DEFAULT_REORDER_LEVEL} <i className="fas fa-pen text-[10px]"></i>
+                      </button>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min={0}
+                          value={reorderDraft}
+                          onChange={(e) => setReorderDraft(e.target.value)}
+                          className="w-20 px-2 py-1 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                        />
+                        <button onClick={handleSaveReorderLevel} disabled={isSaving} className="text-emerald-600 px-1"><i className="fas fa-check"></i></button>
+                        <button onClick={() => setReorderDraft(null)} className="text-slate-400 px-1"><i className="fas fa-times"></i></button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">On hand</p>
+                    <p className={`text-2xl font-black ${isLowStock(selectedMed) ? 'text-red-500' : 'text-slate-900'}`}>{selectedMed.stock}</p>
+                  </div>
+                </div>
+              </div>
+              {isLoading ? (
+                <p className="text-xs text-slate-400 p-4"><i className="fas fa-spinner fa-spin mr-2"></i>Loading stock...</p>
+              ) : batches.length === 0 ? (
+                <p className="text-xs text-slate-400 p-4 text-center">No batches recorded. Receive stock to create one.</p>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">Batch</th>
+                      <th className="px-4 py-2 text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">Expiry</th>
+                      <th className="px-4 py-2 text-right text-[10px] font-black text-slate-500 uppercase tracking-widest">Received</th>
+                      <th className="px-4 py-2 text-right text-[10px] font-black text-slate-500 uppercase tracking-widest">Remaining</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {batches.map(batch => {
+                      const days = daysToExpiry(batch.expiryDate);
+                      const expiryClass = days === null
+                        ? 'text-slate-400'
+                        : days < 0
+                          ? 'text-red-600'
+                          : days <= STOCK_ALERTS.EXPIRY_WINDOW_DAYS
+                            ? 'text-amber-600'
+                            : 'text-slate-700';
+                      return (
+                        <tr key={batch.id} className={batch.quantityRemaining === 0 ? 'opacity-50' : ''}>
+                          <td className="px-4 py-3 text-sm font-bold text-slate-800 font-mono">{batch.batchNo}</td>
+                          <td className={`px-4 py-3 text-xs font-bold ${expiryClass}`}>
+                            {batch.expiryDate ? formatDate(batch.expiryDate) : 'Not recorded'}
+                            {days !== null && days < 0 && <span className="ml-2 text-[9px] uppercase">Expired</span>}
+                            {days !== null && days >= 0 && days <= STOCK_ALERTS.EXPIRY_WINDOW_DAYS && <span className="ml-2 text-[9px] uppercase">{days}d left</span>}
+                          </td>
+                          <td className="px-4 py-3 text-right text-xs text-slate-500">{batch.quantityReceived}</td>
+                          <td className="px-4 py-3 text-right text-sm font-black text-slate-900">{batch.quantityRemaining}</td>
+                          <td className="px-4 py-3 text-right">
+                            <button
+                              onClick={() => setAdjustingBatch(batch)}
+                              className="px-3 py-1 text-[10px] font-black uppercase text-slate-600 bg-slate-50 border border-slate-200 rounded-xl hover:bg-white"
+                            >
+                              Adjust
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm">
+              <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mb-4">Stock Ledger</p>
+              {ledger.length === 0 ? (
+                <p className="text-xs text-slate-400 p-4 text-center">No stock movements yet.</p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto custom-scrollbar">
+                  <table className="w-full">
+                    <thead className="bg-slate-50 sticky top-0">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">Date</th>
+                        <th className="px-4 py-2 text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">Movement</th>
+                        <th className="px-4 py-2 text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">Batch</th>
+                        <th className="px-4 py-2 text-left text-[10px] font-black text-slate-500 uppercase tracking-widest">Reference</th>
+                        <th className="px-4 py-2 text-right text-[10px] font-black text-slate-500 uppercase tracking-widest">Qty</th>
+                        <th className="px-4 py-2 text-right text-[10px] font-black text-slate-500 uppercase tracking-widest">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {ledger.map(m => (
+                        <tr key={m.id}>
+                          <td className="px-4 py-2 text-xs text-slate-600">{formatDate(m.createdAt)}</td>
+                          <td className="px-4 py-2 text-xs font-bold text-slate-800">{MOVEMENT_LABELS[m.movementType]}</td>
+                          <td className="px-4 py-2 text-xs font-mono text-slate-600">{m.batchNo || '—'}</td>
+                          <td className="px-4 py-2 text-xs text-slate-500">
+                            {m.grnNumber || (m.reason ? STOCK_ADJUSTMENT_REASONS.find(r => r.value === m.reason)?.label : '') || m.patientId || ''}
+                            {m.notes && <span className="block text-[10px] text-slate-400">{m.notes}</span>}
+                          </td>
+                          <td className={`px-4 py-2 text-right text-sm font-black ${m.quantity > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                            {m.quantity > 0 ? `+${m.quantity}` : m.quantity}
+                          </td>
+                          <td className="px-4 py-2 text-right text-sm font-black text-slate-900">{m.balanceAfter}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm">
+            <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mb-4">Recent Goods Received</p>
+            {grns.length === 0 ? (
+              <p className="text-xs text-slate-400 p-4 text-center">No goods received notes yet. Select a medication to see its batches and ledger.</p>
+            ) : (
+              <div className="space-y-3">
+                {grns.map(grn => (
+                  <div key={grn.id} className="p-4 bg-slate-50 rounded-3xl">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <p className="text-sm font-black text-slate-800">{grn.grnNumber}</p>
+                        <p className="text-[10px] font-bold text-slate-400">
+                          {grn.supplierName}{grn.supplierInvoiceNo ? ` · Inv ${grn.supplierInvoiceNo}` : ''} · {formatDate(grn.receivedDate)}
+                        </p>
+                      </div>
+                      <p className="text-sm font-black text-slate-900">TZS {grn.totalCost.toLocaleString()}</p>
+                    </div>
+                    <ul className="mt-2 space-y-1">
+                      {grn.items.map((item, i) => (
+                        <li key={i} className="text-xs text-slate-600 flex justify-between">
+                          <span>{item.medicationName || 'Medication'} · <span className="font-mono">{item.batchNo}</span> · exp {item.expiryDate ? formatDate(item.expiryDate) : '—'}</span>
+                          <span className="font-bold">{item.quantity}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Goods Received Note form */}
+      {showGRNForm && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+              <h2 className="text-base font-bold text-slate-900">Goods Received Note</h2>
+              <button
+                onClick={() => {
+                  setShowGRNForm(false);
+                  resetGRNForm();
+                }}
+                className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-600 transition-colors"
+              >
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmitGRN} className="p-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="text-xs font-semibold text-slate-600 mb-2 block">Supplier *</label>
+                  <input
+                    type="text"
+                    value={grnHeader.supplierName}
+                    onChange={(e) => setGrnHeader({ ...grnHeader, supplierName: e.target.value })}
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                    placeholder="Supplier name"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-semibold text-slate-600 mb-2 block">Supplier Invoice No</label>
+                  <input
+                    type="text"
+                    value={grnHeader.supplierInvoiceNo}
+                    onChange={(e) => setGrnHeader({ ...grnHeader, supplierInvoiceNo: e.target.value })}
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-semibold text-slate-600 mb-2 block">Received Date *</label>
+                  <input
+                    type="date"
+                    value={grnHeader.receivedDate}
+                    max={getCurrentDate()}
+                    onChange={(e) => setGrnHeader({ ...grnHeader, receivedDate: e.target.value })}
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-[10px] font-bold text-slate-500 uppercase">
+                  <span className="col-span-4">Medication</span>
+                  <span className="col-span-2">Batch No</span>
+                  <span className="col-span-2">Expiry</span>
+                  <span className="col-span-1">Qty</span>
+                  <span className="col-span-2">Unit Cost</span>
+                </div>
+                {grnLines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2">
+                    <select
+                      value={line.medicationId}
+                      onChange={(e) => updateLine(index, 'medicationId', e.target.value)}
+                      className="col-span-4 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                    >
+                      <option value="">Select medication</option>
+                      {medications.map(m => (
+                        <option key={m.id} value={m.id}>{m.name} {m.dosage}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={line.batchNo}
+                      onChange={(e) => updateLine(index, 'batchNo', e.target.value)}
+                      className="col-span-2 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                    />
+                    <input
+                      type="date"
+                      value={line.expiryDate}
+                      min={getCurrentDate()}
+                      onChange={(e) => updateLine(index, 'expiryDate', e.target.value)}
+                      className="col-span-2 px-2 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs outline-none"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                      className="col-span-1 px-2 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(index, 'unitCost', e.target.value)}
+                      className="col-span-2 px-2 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setGrnLines(grnLines.length > 1 ? grnLines.filter((_, i) => i !== index) : [emptyLine()])}
+                      className="col-span-1 text-red-400 hover:text-red-600"
+                    >
+                      <i className="fas fa-trash-alt"></i>
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setGrnLines([...grnLines, emptyLine()])}
+                  className="text-xs font-semibold text-emerald-600 hover:text-emerald-700"
+                >
+                  <i className="fas fa-plus mr-1"></i>Add line
+                </button>
+              </div>
+
+              <div>
+                <label className="text-xs font-semibold text-slate-600 mb-2 block">Notes</label>
+                <textarea
+                  value={grnHeader.notes}
+                  onChange={(e) => setGrnHeader({ ...grnHeader, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowGRNForm(false);
+                    resetGRNForm();
+                  }}
+                  className="px-5 py-2.5 bg-slate-100 text-slate-700 rounded-xl text-sm font-semibold hover:bg-slate-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="px-5 py-2.5 bg-emerald-600 text-white rounded-xl text-sm font-semibold hover:bg-emerald-500 disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Receive Stock'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Stock adjustment form */}
+      {adjustingBatch && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
+            <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+              <h2 className="text-base font-bold text-slate-900">Adjust Batch {adjustingBatch.batchNo}</h2>
+              <button
+                onClick={() => setAdjustingBatch(null)}
+                className="p-2 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-600 transition-colors"
+              >
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmitAdjustment} className="p-6 space-y-4">
+              <p className="text-xs text-slate-500">Currently {adjustingBatch.quantityRemaining} units in this batch.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {(['OUT', 'IN'] as const).map(direction => (
+                  <button
+                    key={direction}
+                    type="button"
+                    onClick={() => setAdjustment({ ...adjustment, direction })}
+                    className={`py-2 rounded-xl text-xs font-bold border ${adjustment.direction === direction ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200'}`}
+                  >
+                    {direction === 'OUT' ? 'Remove stock' : 'Add stock'}
+                  </button>
+                ))}
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-600 mb-2 block">Quantity *</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={adjustment.quantity}
+                  onChange={(e) => setAdjustment({ ...adjustment, quantity: e.target.value })}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                />
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-600 mb-2 block">Reason *</label>
+                <select
+                  value={adjustment.reason}
+                  onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value as StockAdjustmentReason })}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                >
+                  {STOCK_ADJUSTMENT_REASONS.map(r => (
+                    <option key={r.value} value={r.value}>{r.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-600 mb-2 block">Notes{adjustment.reason === 'OTHER' ? ' *' : ''}</label>
+                <textarea
+                  value={adjustment.notes}
+                  onChange={(e) => setAdjustment({ ...adjustment, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setAdjustingBatch(null)}
+                  className="px-5 py-2.5 bg-slate-100 text-slate-700 rounded-xl text-sm font-semibold hover:bg-slate-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="px-5 py-2.5 bg-emerald-600 text-white rounded-xl text-sm font-semibold hover:bg-emerald-500 disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save Adjustment'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PharmacyInventory;
@@ -0,0 +1,236 @@
+/**
+ * Preauthorization Panel
+ * Requests private insurer pre-approval for a visit's gated items and records the insurer's reply
+ */
+
+import React, { useState } from 'react';
+import { Preauthorization, PreauthStatus } from '../types';
+import { requestPreauthorization, recordPreauthorizationDecision } from '../services/preauthorizationService';
+import { PreauthGateResult } from '../utils/preauthGating';
+import { formatISODateTime } from '../utils/dateTimeUtils';
+import { useToast } from './Toast';
+
+interface PreauthorizationPanelProps {
+  visitId: string | null;
+  gate: PreauthGateResult;
+  preauthorizations: Preauthorization[];
+  onChanged: () => void;
+}
+
+interface DecisionForm {
+  preauth: Preauthorization;
+  status: Exclude<PreauthStatus, 'REQUESTED'>;
+  approvedAmount: string;
+  approvalReference: string;
+  notes: string;
+}
+
+const STATUS_STYLES: Record<PreauthStatus, string> = {
+  REQUESTED: 'bg-amber-100 text-amber-700',
+  APPROVED: 'bg-green-100 text-green-700',
+  PARTIALLY_APPROVED: 'bg-blue-100 text-blue-700',
+  DECLINED: 'bg-red-100 text-red-700',
+};
+
+const PreauthorizationPanel: React.FC<PreauthorizationPanelProps> = ({ visitId, gate, preauthorizations, onChanged }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [decisionForm, setDecisionForm] = useState<DecisionForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!gate.required && preauthorizations.length === 0) return null;
+
+  // Ask only for what the existing approvals don't already cover
+  const canRequest = !!visitId && !gate.pending && gate.insurerExcess > 0;
+
+  const handleRequest = async () => {
+    if (!visitId) return;
+    if (!confirm(`Request insurer pre-authorization of TZS ${gate.insurerExcess.toLocaleString()} for ${gate.lines.map(l => l.description).join(', ')}?`)) {
+      return;
+    }
+    // Lines are listed at their insurer share, less whatever earlier approvals already cover
+    let remaining = gate.insurerExcess;
+    const items = gate.lines.map(line => {
+      const amount = Math.min(line.covered, remaining);
+      remaining -= amount;
+      return { billItemId: line.itemId, description: line.description, tariffCode: line.tariffCode, amount };
+    }).filter(item => item.amount > 0);
+
+    setIsSaving(true);
+    try {
+      const result = await requestPreauthorization(visitId, { items });
+      if (result.success && result.preauthorization) {
+        showSuccess(`${result.preauthorization.preauthNumber} sent for insurer approval`);
+        onChanged();
+      } else {
+        showError(result.error || 'Failed to request pre-authorization');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRecordDecision = async () => {
+    if (!decisionForm) return;
+    const { preauth, status } = decisionForm;
+    const approvedAmount = parseFloat(decisionForm.approvedAmount);
+    if (status === 'PARTIALLY_APPROVED' && (isNaN(approvedAmount) || approvedAmount <= 0 || approvedAmount >= preauth.requestedAmount)) {
+      showError(`Enter the approved amount (less than TZS ${preauth.requestedAmount.toLocaleString()})`);
+      return;
+    }
+    if (status !== 'DECLINED' && !decisionForm.approvalReference.trim()) {
+      showError('Enter the insurer approval reference');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await recordPreauthorizationDecision(preauth.id, {
+        status,
+        approvedAmount: status === 'PARTIALLY_APPROVED' ? approvedAmount : undefined,
+        approvalReference: decisionForm.approvalReference.trim() || undefined,
+        notes: decisionForm.notes.trim() || undefined,
+      });
+      if (result.success) {
+        showSuccess(`${preauth.preauthNumber} recorded as ${status.toLowerCase().replace('_', ' ')}`);
+        setDecisionForm(null);
+        onChanged();
+      } else {
+        showError(result.error || 'Failed to record decision');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h4 className="text-sm font-bold text-slate-900 flex items-center gap-2">
+          <i className="fas fa-file-signature text-brand-primary"></i>
+          Insurer Pre-authorization
+        </h4>
+        {canRequest && (
+          <button
+            onClick={handleRequest}
+            disabled={isSaving}
+            className="px-3 py-1.5 text-xs font-semibold text-white bg-brand-primary rounded-lg hover:bg-brand-primary-dark disabled:opacity-50"
+          >
+            Request Pre-auth
+          </button>
+        )}
+      </div>
+
+      {gate.reason && (
+        <p className={`text-xs font-semibold p-3 rounded-lg border ${gate.allowed ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+          <i className={`fas ${gate.allowed ? 'fa-exclamation-triangle' : 'fa-ban'} mr-2`}></i>
+          {gate.reason}
+        </p>
+      )}
+
+      {preauthorizations.length > 0 && (
+        <ul className="space-y-2">
+          {preauthorizations.map(preauth => (
+            <li key={preauth.id} className="p-3 rounded-lg bg-slate-50 border border-slate-100 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-semibold text-slate-800">
+                  {preauth.preauthNumber}
+                  <span className={`ml-2 px-2 py-0.5 rounded-lg font-semibold ${STATUS_STYLES[preauth.status]}`}>
+                    {preauth.status.replace('_', ' ')}
+                  </span>
+                </p>
+                {preauth.status === 'REQUESTED' && (
+                  <button
+                    onClick={() => setDecisionForm({ preauth, status: 'APPROVED', approvedAmount: '', approvalReference: '', notes: '' })}
+                    className="text-brand-primary font-semibold hover:underline"
+                  >
+                    Record insurer reply
+                  </button>
+                )}
+              </div>
+              <p className="text-slate-500 mt-1">
+                {preauth.items.map(item => item.description).join(', ')} · TZS {preauth.requestedAmount.toLocaleString()} requested
+                {preauth.approvedAmount !== undefined && preauth.status !== 'DECLINED' && ` · TZS ${preauth.approvedAmount.toLocaleString()} approved`}
+                {preauth.approvalReference && ` · Ref ${preauth.approvalReference}`}
+              </p>
+              <p className="text-slate-400 mt-0.5">
+                {formatISODateTime(preauth.requestedAt)}
+                {preauth.decisionNotes && ` · "${preauth.decisionNotes}"`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {decisionForm && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <h3 className="text-base font-bold text-slate-900">Insurer reply to {decisionForm.preauth.preauthNumber}</h3>
+            <p className="text-sm text-slate-500">TZS {decisionForm.preauth.requestedAmount.toLocaleString()} requested</p>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">Decision</label>
+              <select
+                value={decisionForm.status}
+                onChange={(e) => setDecisionForm({ ...decisionForm, status: e.target.value as DecisionForm['status'] })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+              >
+                <option value="APPROVED">Approved in full</option>
+                <option value="PARTIALLY_APPROVED">Partially approved</option>
+                <option value="DECLINED">Declined</option>
+              </select>
+            </div>
+            {decisionForm.status === 'PARTIALLY_APPROVED' && (
+              <div>
+                <label className="text-xs font-semibold text-slate-600 mb-1 block">Approved amount (TZS)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={decisionForm.approvedAmount}
+                  onChange={(e) => setDecisionForm({ ...decisionForm, approvedAmount: e.target.value })}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                />
+              </div>
+            )}
+            {decisionForm.status !== 'DECLINED' && (
+              <div>
+                <label className="text-xs font-semibold text-slate-600 mb-1 block">Approval reference</label>
+                <input
+                  type="text"
+                  value={decisionForm.approvalReference}
+                  onChange={(e) => setDecisionForm({ ...decisionForm, approvalReference: e.target.value })}
+                  placeholder="Insurer authorization number"
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                />
+              </div>
+            )}
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">Notes</label>
+              <textarea
+                value={decisionForm.notes}
+                onChange={(e) => setDecisionForm({ ...decisionForm, notes: e.target.value })}
+                rows={2}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                onClick={() => setDecisionForm(null)}
+                className="px-4 py-2 text-sm font-semibold text-slate-600 bg-slate-100 rounded-xl hover:bg-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRecordDecision}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+              >
+                Save Reply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PreauthorizationPanel;
@@ -0,0 +1,177 @@
+/**
+ * Provider Schedule Templates
+ * Weekly hours each provider can be booked. A day may hold several blocks (e.g. a
+ * morning and an afternoon clinic around lunch); a day without blocks is a day off.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ProviderScheduleBlock } from '../types';
+import { Provider } from '../services/providerService';
+import { getProviderSchedules, saveProviderSchedule } from '../services/appointmentService';
+import { WEEKDAY_NAMES } from '../utils/appointmentUtils';
+import { useToast } from './Toast';
+
+type EditableBlock = Pick<ProviderScheduleBlock, 'weekday' | 'startTime' | 'endTime'>;
+
+// Monday first, as the week calendar shows it
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface ProviderScheduleTemplatesProps {
+  providers: Provider[];
+  workingHours: { start: string; end: string };
+  onSaved?: () => void;
+}
+
+const ProviderScheduleTemplates: React.FC<ProviderScheduleTemplatesProps> = ({ providers, workingHours, onSaved }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [providerId, setProviderId] = useState('');
+  const [blocks, setBlocks] = useState<EditableBlock[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!providerId && providers.length > 0) {
+      setProviderId(providers[0].id);
+    }
+  }, [providers, providerId]);
+
+  useEffect(() => {
+    if (!providerId) return;
+    const loadTemplate = async () => {
+      setIsLoading(true);
+      try {
+        const result = await getProviderSchedules(providerId);
+        if (result.success) {
+          setBlocks((result.templates || []).map(({ weekday, startTime, endTime }) => ({ weekday, startTime, endTime })));
+        } else {
+          showError(result.error || 'Failed to load working hours');
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadTemplate();
+  }, [providerId]);
+
+  const addBlock = (weekday: number) => {
+    setBlocks([...blocks, { weekday, startTime: workingHours.start, endTime: workingHours.end }]);
+  };
+
+  const updateBlock = (index: number, changes: Partial<EditableBlock>) => {
+    setBlocks(blocks.map((block, i) => (i === index ? { ...block, ...changes } : block)));
+  };
+
+  const removeBlock = (index: number) => {
+    setBlocks(blocks.filter((_, i) => i !== index));
+  };
+
+  const copyMondayToWeekdays = () => {
+    const monday = blocks.filter(b => b.weekday === 1);
+    const others = blocks.filter(b => b.weekday === 0 || b.weekday === 6);
+    const weekdays = [1, 2, 3, 4, 5].flatMap(weekday => monday.map(b => ({ ...b, weekday })));
+    setBlocks([...weekdays, ...others]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveProviderSchedule(providerId, blocks);
+      if (result.success) {
+        setBlocks((result.templates || []).map(({ weekday, startTime, endTime }) => ({ weekday, startTime, endTime })));
+        showSuccess('Working hours saved');
+        onSaved?.();
+      } else {
+        showError(result.error || 'Failed to save working hours');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-8 pt-8 pb-6 border-b border-slate-100 flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-bold text-slate-900 mb-1 flex items-center gap-2">
+            <i className="fas fa-user-clock text-brand-primary"></i>
+            Provider Working Hours
+          </h3>
+          <p className="text-sm text-slate-500 font-medium">Appointments can only be booked inside these hours</p>
+        </div>
+        <select
+          value={providerId}
+          onChange={(e) => setProviderId(e.target.value)}
+          className="h-10 px-4 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+        >
+          {providers.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-8 space-y-3">
+        {providers.length === 0 ? (
+          <p className="text-sm text-slate-400 p-4 bg-slate-50/50 rounded-xl border border-dashed border-slate-200 text-center">No providers to schedule</p>
+        ) : isLoading ? (
+          <p className="text-sm text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>Loading...</p>
+        ) : (
+          <>
+            {WEEK_ORDER.map(weekday => {
+              const dayBlocks = blocks.map((block, index) => ({ block, index })).filter(({ block }) => block.weekday === weekday);
+              return (
+                <div key={weekday} className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-xl bg-slate-50 border border-slate-100">
+                  <span className="w-28 text-sm font-semibold text-slate-700">{WEEKDAY_NAMES[weekday]}</span>
+                  <div className="flex-1 flex flex-wrap items-center gap-2">
+                    {dayBlocks.length === 0 && <span className="text-xs text-slate-400">Not working</span>}
+                    {dayBlocks.map(({ block, index }) => (
+                      <div key={index} className="flex items-center gap-1 bg-white border border-slate-200 rounded-lg px-2 py-1">
+                        <input
+                          type="time"
+                          value={block.startTime}
+                          onChange={(e) => updateBlock(index, { startTime: e.target.value })}
+                          className="text-xs font-medium outline-none"
+                        />
+                        <span className="text-xs text-slate-400">–</span>
+                        <input
+                          type="time"
+                          value={block.endTime}
+                          onChange={(e) => updateBlock(index, { endTime: e.target.value })}
+                          className="text-xs font-medium outline-none"
+                        />
+                        <button onClick={() => removeBlock(index)} className="ml-1 text-slate-400 hover:text-red-600" aria-label="Remove hours">
+                          <i className="fas fa-times text-xs"></i>
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button onClick={() => addBlock(weekday)} className="text-xs font-semibold text-brand-primary whitespace-nowrap">
+                    <i className="fas fa-plus mr-1"></i>Add hours
+                  </button>
+                </div>
+              );
+            })}
+
+            <div className="flex flex-col sm:flex-row justify-between gap-3 pt-2">
+              <button
+                onClick={copyMondayToWeekdays}
+                disabled={!blocks.some(b => b.weekday === 1)}
+                className="px-4 py-2 text-xs font-semibold text-slate-700 bg-slate-100 rounded-xl hover:bg-slate-200 disabled:opacity-50"
+              >
+                Copy Monday to Tuesday–Friday
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !providerId}
+                className="px-6 py-2.5 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save Working Hours'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProviderScheduleTemplates;
@@ -0,0 +1,91 @@
+/**
+ * Rx Comparison Component
+ * Current spectacle prescription side by side with one from an earlier visit, with the
+ * per-eye change and large changes flagged so transcription errors are caught before
+ * lenses are ordered
+ */
+
+import React from 'react';
+import { PrescriptionHistoryEvent, SpectacleRx } from '../types';
+import { RxChange, compareRx, formatPower, formatRx, rxFromHistory, toMinusCylinder } from '../utils/rxUtils';
+import { formatDate } from '../utils/dateTimeUtils';
+
+interface RxComparisonProps {
+  od?: SpectacleRx;
+  os?: SpectacleRx;
+  previous: PrescriptionHistoryEvent;
+}
+
+const lens = (rx: SpectacleRx): string => formatRx(toMinusCylinder(rx));
+
+const delta = (value: number | undefined): string =>
+  value === undefined ? '—' : value === 0 ? '0.00' : formatPower(value);
+
+const RxComparison: React.FC<RxComparisonProps> = ({ od, os, previous }) => {
+  const eyes = [
+    { label: 'OD', current: od, previous: rxFromHistory(previous, 'od'), written: previous.od },
+    { label: 'OS', current: os, previous: rxFromHistory(previous, 'os'), written: previous.os },
+  ].map(eye => {
+    const change: RxChange | undefined =
+      eye.current && eye.previous.rx ? compareRx(eye.current, eye.previous.rx) : undefined;
+    return { ...eye, change };
+  });
+
+  const flagged = eyes.filter(eye => eye.change && eye.change.flags.length > 0);
+
+  return (
+    <div className="space-y-3">
+      {flagged.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs font-semibold text-red-700">
+            <i className="fas fa-exclamation-triangle mr-2"></i>
+            Large change since {formatDate(previous.date)}. Check the refraction was transcribed correctly before lenses are ordered.
+          </p>
+          <ul className="mt-1 ml-6 text-xs text-red-700 list-disc">
+            {flagged.map(eye => (
+              <li key={eye.label}>{eye.label}: {eye.change!.flags.join(', ')}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+              <th className="py-2 pr-4">Eye</th>
+              <th className="py-2 pr-4">{formatDate(previous.date)}{previous.providerName ? ` · ${previous.providerName}` : ''}</th>
+              <th className="py-2 pr-4">Current</th>
+              <th className="py-2 pr-4 text-right">Sph</th>
+              <th className="py-2 pr-4 text-right">Cyl</th>
+              <th className="py-2 pr-4 text-right">Axis</th>
+              <th className="py-2 text-right">SE</th>
+            </tr>
+          </thead>
+          <tbody>
+            {eyes.map(eye => {
+              const isFlagged = !!eye.change && eye.change.flags.length > 0;
+              return (
+                <tr key={eye.label} className={`border-b border-slate-100 ${isFlagged ? 'bg-red-50' : ''}`}>
+                  <td className="py-2 pr-4 font-semibold text-slate-800">{eye.label}</td>
+                  <td className="py-2 pr-4 text-slate-600">
+                    {eye.previous.rx ? lens(eye.previous.rx) : eye.written || '—'}
+                    {eye.previous.error && <span className="block text-xs text-amber-600">Could not read: {eye.previous.error}</span>}
+                  </td>
+                  <td className="py-2 pr-4 font-semibold text-slate-900">{eye.current ? lens(eye.current) : '—'}</td>
+                  <td className={`py-2 pr-4 text-right ${isFlagged ? 'font-semibold text-red-700' : 'text-slate-600'}`}>{delta(eye.change?.sphere)}</td>
+                  <td className={`py-2 pr-4 text-right ${isFlagged ? 'font-semibold text-red-700' : 'text-slate-600'}`}>{delta(eye.change?.cylinder)}</td>
+                  <td className={`py-2 pr-4 text-right ${isFlagged ? 'font-semibold text-red-700' : 'text-slate-600'}`}>
+                    {eye.change?.axisShift !== undefined ? `${eye.change.axisShift}°` : '—'}
+                  </td>
+                  <td className={`py-2 text-right ${isFlagged ? 'font-semibold text-red-700' : 'text-slate-600'}`}>{delta(eye.change?.sphericalEquivalent)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RxComparison;
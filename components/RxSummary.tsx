@@ -0,0 +1,102 @@
+/**
+ * Rx Summary Component
+ * A spectacle prescription in its canonical written form per eye, with the plus-cylinder
+ * transposition, spherical equivalent, near Rx and, for strong lenses, the power
+ * compensated for the vertex distance the frame is fitted at
+ */
+
+import React, { useState } from 'react';
+import { SpectacleRx } from '../types';
+import {
+  STANDARD_VERTEX_MM,
+  VERTEX_COMPENSATION_THRESHOLD,
+  compensateVertex,
+  formatPower,
+  formatRx,
+  nearRx,
+  sphericalEquivalent,
+  strongestMeridian,
+  toMinusCylinder,
+  toPlusCylinder,
+} from '../utils/rxUtils';
+
+interface RxSummaryProps {
+  od?: SpectacleRx;
+  os?: SpectacleRx;
+}
+
+// The lens powers alone; prism and add have their own columns
+const lens = (rx: SpectacleRx): string => formatRx({ ...rx, add: undefined, prism: undefined });
+
+const RxSummary: React.FC<RxSummaryProps> = ({ od, os }) => {
+  const [fittedVertex, setFittedVertex] = useState(String(STANDARD_VERTEX_MM));
+
+  const eyes = [
+    { label: 'OD', rx: od },
+    { label: 'OS', rx: os },
+  ].filter((eye): eye is { label: string; rx: SpectacleRx } => !!eye.rx);
+  if (eyes.length === 0) return null;
+
+  const needsVertex = eyes.some(({ rx }) => strongestMeridian(rx) >= VERTEX_COMPENSATION_THRESHOLD);
+  const vertexMm = Number(fittedVertex);
+  const showCompensated = needsVertex && fittedVertex.trim() !== '' &&
+    Number.isFinite(vertexMm) && vertexMm >= 0 && vertexMm <= 25 && vertexMm !== STANDARD_VERTEX_MM;
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-indigo-100">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+              <th className="py-2 pr-4">Eye</th>
+              <th className="py-2 pr-4">Distance (minus cyl)</th>
+              <th className="py-2 pr-4">Plus cyl</th>
+              <th className="py-2 pr-4">SE</th>
+              <th className="py-2 pr-4">Near</th>
+              {showCompensated && <th className="py-2">At {vertexMm}mm</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {eyes.map(({ label, rx }) => {
+              const near = nearRx(rx);
+              return (
+                <tr key={label} className="border-b border-slate-100">
+                  <td className="py-2 pr-4 font-semibold text-slate-800">{label}</td>
+                  <td className="py-2 pr-4 font-semibold text-slate-900">
+                    {lens(toMinusCylinder(rx))}
+                    {rx.prism ? <span className="text-slate-500 font-normal">, {rx.prism}Δ {rx.prismBase}</span> : null}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">{lens(toPlusCylinder(rx))}</td>
+                  <td className="py-2 pr-4 text-slate-600">{formatPower(sphericalEquivalent(rx))}</td>
+                  <td className="py-2 pr-4 text-slate-600">{near ? lens(toMinusCylinder(near)) : '—'}</td>
+                  {showCompensated && (
+                    <td className="py-2 text-slate-600">
+                      {lens(toMinusCylinder(compensateVertex(rx, STANDARD_VERTEX_MM, vertexMm)))}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {needsVertex && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-xs text-slate-600">
+          <i className="fas fa-ruler-horizontal text-indigo-500"></i>
+          <span>Strong lens (±{VERTEX_COMPENSATION_THRESHOLD.toFixed(2)}D or more): refracted at {STANDARD_VERTEX_MM}mm, fitted at</span>
+          <input
+            type="number"
+            min={0}
+            max={25}
+            value={fittedVertex}
+            onChange={(e) => setFittedVertex(e.target.value)}
+            className="w-16 p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs text-center outline-none focus:border-indigo-500"
+          />
+          <span>mm (0 for contact lenses)</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RxSummary;
@@ -0,0 +1,229 @@
+/**
+ * Stock Alerts Panel
+ * Dashboard panel flagging medications at or below reorder level and batches nearing expiry
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { LowStockAlert, ExpiryAlert } from '../types';
+import { getStockAlerts } from '../services/inventoryService';
+import { exportToPDF, exportToExcel, exportToCSV, ExportData } from '../utils/exportUtils';
+import { formatDate, getCurrentDate } from '../utils/dateTimeUtils';
+import { STOCK_ALERTS } from '../constants';
+import { useToast } from './Toast';
+
+interface StockAlertsPanelProps {
+  onOpenInventory?: () => void;
+}
+
+const StockAlertsPanel: React.FC<StockAlertsPanelProps> = ({ onOpenInventory }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [expiryWindow, setExpiryWindow] = useState<number>(STOCK_ALERTS.EXPIRY_WINDOW_DAYS);
+  const [lowStock, setLowStock] = useState<LowStockAlert[]>([]);
+  const [nearExpiry, setNearExpiry] = useState<ExpiryAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+
+  const loadAlerts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getStockAlerts(expiryWindow);
+      if (result.success) {
+        setLowStock(result.lowStock || []);
+        setNearExpiry(result.nearExpiry || []);
+      } else {
+        console.warn('Stock alerts unavailable:', result.error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [expiryWindow]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  // Close export menu on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setExportMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const alertCount = lowStock.length + nearExpiry.length;
+
+  const prepareExportData = (): ExportData => ({
+    title: 'Pharmacy Stock Alerts',
+    period: `Expiring within ${expiryWindow} days`,
+    dateRange: { start: formatDate(getCurrentDate()), end: formatDate(getCurrentDate()) },
+    summary: [
+      { label: 'Below Reorder Level', value: lowStock.length },
+      { label: 'Expiring / Expired Batches', value: nearExpiry.length },
+      { label: 'Units at Risk of Expiry', value: nearExpiry.reduce((sum, b) => sum + b.quantityRemaining, 0) },
+    ],
+    tables: [
+      {
+        title: 'Below Reorder Level',
+        headers: ['Medication', 'Dosage', 'Form', 'On Hand', 'Reorder Level'],
+        rows: lowStock.map(item => [item.name, item.dosage || '', item.form, item.stock, item.reorderLevel]),
+      },
+      {
+        title: 'Near Expiry',
+        headers: ['Medication', 'Batch', 'Expiry Date', 'Days Left', 'Quantity'],
+        rows: nearExpiry.map(b => [
+          b.name,
+          b.batchNo,
+          formatDate(b.expiryDate),
+          b.daysToExpiry < 0 ? 'Expired' : b.daysToExpiry,
+          b.quantityRemaining,
+        ]),
+      },
+    ],
+  });
+
+  const handleExport = async (format: 'pdf' | 'excel' | 'csv') => {
+    if (alertCount === 0) {
+      showError('No stock alerts to export');
+      return;
+    }
+    const data = prepareExportData();
+    if (format === 'pdf') {
+      await exportToPDF(data);
+    } else if (format === 'excel') {
+      exportToExcel(data);
+    } else {
+      exportToCSV(data);
+    }
+    showSuccess(`Stock alerts exported as ${format.toUpperCase()}`);
+    setExportMenuOpen(false);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-8 pt-8 pb-6 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-base font-bold text-slate-900 mb-1 flex items-center gap-2">
+            <i className="fas fa-exclamation-triangle text-amber-500"></i>
+            Stock Alerts
+            {alertCount > 0 && <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700 font-bold">{alertCount}</span>}
+          </h3>
+          <p className="text-sm text-slate-500 font-medium">Items below reorder level and batches nearing expiry</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={expiryWindow}
+            onChange={(e) => setExpiryWindow(parseInt(e.target.value, 10))}
+            className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-semibold focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+          >
+            {STOCK_ALERTS.EXPIRY_WINDOW_OPTIONS.map(days => (
+              <option key={days} value={days}>Expiring within {days} days</option>
+            ))}
+          </select>
+          <div className="relative" ref={exportMenuRef}>
+            <button
+              onClick={() => setExportMenuOpen(!exportMenuOpen)}
+              disabled={alertCount === 0}
+              className="px-4 py-2.5 bg-slate-50 text-slate-700 border border-slate-200 rounded-xl text-sm font-semibold hover:bg-white transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <i className="fas fa-download"></i>
+              Export
+            </button>
+            {exportMenuOpen && (
+              <div className="absolute right-0 mt-2 w-48 bg-white rounded-xl border border-slate-200 shadow-lg z-50 overflow-hidden">
+                <button
+                  onClick={() => handleExport('pdf')}
+                  className="w-full px-4 py-3 text-left text-sm font-semibold text-slate-700 hover:bg-slate-50 transition-all flex items-center gap-3 border-b border-slate-100"
+                >
+                  <i className="fas fa-file-pdf text-red-600"></i>
+                  Export as PDF
+                </button>
+                <button
+                  onClick={() => handleExport('excel')}
+                  className="w-full px-4 py-3 text-left text-sm font-semibold text-slate-700 hover:bg-slate-50 transition-all flex items-center gap-3 border-b border-slate-100"
+                >
+                  <i className="fas fa-file-excel text-green-600"></i>
+                  Export as Excel
+                </button>
+                <button
+                  onClick={() => handleExport('csv')}
+                  className="w-full px-4 py-3 text-left text-sm font-semibold text-slate-700 hover:bg-slate-50 transition-all flex items-center gap-3"
+                >
+                  <i className="fas fa-file-csv text-blue-600"></i>
+                  Export as CSV
+                </button>
+              </div>
+            )}
+          </div>
+          {onOpenInventory && (
+            <button
+              onClick={onOpenInventory}
+              className="px-4 py-2.5 bg-brand-primary text-white rounded-xl text-sm font-semibold hover:bg-brand-primary-dark transition-all"
+            >
+              <i className="fas fa-boxes mr-2"></i>Inventory
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <p className="text-xs font-medium text-slate-400 uppercase tracking-wide mb-3">Below Reorder Level ({lowStock.length})</p>
+          {isLoading ? (
+            <p className="text-sm text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>Loading...</p>
+          ) : lowStock.length === 0 ? (
+            <p className="text-sm text-slate-400 p-4 bg-slate-50/50 rounded-xl border border-dashed border-slate-200 text-center">All items are above their reorder level</p>
+          ) : (
+            <ul className="space-y-2">
+              {lowStock.map(item => (
+                <li key={item.medicationId} className="flex items-center justify-between p-3 rounded-xl bg-slate-50 border border-slate-100">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">{item.name}</p>
+                    <p className="text-xs text-slate-500">{item.dosage} · {item.form}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-sm font-bold ${item.stock === 0 ? 'text-red-600' : 'text-amber-600'}`}>
+                      {item.stock === 0 ? 'Out of stock' : `${item.stock} left`}
+                    </p>
+                    <p className="text-xs text-slate-400">Reorder at {item.reorderLevel}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-slate-400 uppercase tracking-wide mb-3">Near Expiry ({nearExpiry.length})</p>
+          {isLoading ? (
+            <p className="text-sm text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>Loading...</p>
+          ) : nearExpiry.length === 0 ? (
+            <p className="text-sm text-slate-400 p-4 bg-slate-50/50 rounded-xl border border-dashed border-slate-200 text-center">No batches expiring within {expiryWindow} days</p>
+          ) : (
+            <ul className="space-y-2">
+              {nearExpiry.map(batch => (
+                <li key={batch.batchId} className="flex items-center justify-between p-3 rounded-xl bg-slate-50 border border-slate-100">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">{batch.name}</p>
+                    <p className="text-xs text-slate-500">Batch <span className="font-mono">{batch.batchNo}</span> · {batch.quantityRemaining} units</p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-sm font-bold ${batch.daysToExpiry < 0 ? 'text-red-600' : batch.daysToExpiry <= 30 ? 'text-orange-600' : 'text-amber-600'}`}>
+                      {batch.daysToExpiry < 0 ? 'Expired' : `${batch.daysToExpiry} days`}
+                    </p>
+                    <p className="text-xs text-slate-400">{formatDate(batch.expiryDate)}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockAlertsPanel;
@@ -0,0 +1,410 @@
+/**
+ * Tariff Management
+ * Admin price list: service codes, per-payer prices and their effective dates
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { TariffItem, TariffGroup, TariffPayer, InsuranceProvider } from '../types';
+import { getTariffs, createTariffItem, updateTariffItem, setTariffPrice } from '../services/tariffService';
+import { useTariffs } from '../contexts/TariffContext';
+import { resolveTariffPrice } from '../utils/tariffUtils';
+import { getCurrentDate } from '../utils/dateTimeUtils';
+import { INSURANCE_PROVIDERS } from '../constants';
+import { useToast } from './Toast';
+
+const TARIFF_GROUPS: { value: TariffGroup; label: string }[] = [
+  { value: 'CONSULTATION', label: 'Consultations' },
+  { value: 'TEST', label: 'Tests' },
+  { value: 'PROCEDURE', label: 'Procedures' },
+  { value: 'LENS_TYPE', label: 'Lens Types' },
+  { value: 'LENS_INDEX', label: 'Lens Indices' },
+  { value: 'EDGE_COLOR', label: 'Edge Colours' },
+  { value: 'COATING', label: 'Coatings' },
+  { value: 'FRAME', label: 'Frames' },
+  { value: 'LIMIT', label: 'NHIF Limits' },
+  { value: 'MEDICATION', label: 'Medications' },
+];
+
+const PAYERS: TariffPayer[] = ['CASH', ...INSURANCE_PROVIDERS.map(p => p.value as InsuranceProvider)];
+
+const emptyItemForm = {
+  code: '',
+  name: '',
+  category: 'CLINICAL' as TariffItem['category'],
+  serviceGroup: 'CONSULTATION' as TariffGroup,
+  nhifItemCode: '',
+};
+
+const TariffManagement: React.FC = () => {
+  const { refreshTariffs } = useTariffs();
+  const { success: showSuccess, error: showError } = useToast();
+  const [items, setItems] = useState<TariffItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [groupFilter, setGroupFilter] = useState<TariffGroup | ''>('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [priceForm, setPriceForm] = useState({ payer: 'CASH' as TariffPayer, price: '', effectiveFrom: getCurrentDate() });
+  const [itemForm, setItemForm] = useState<typeof emptyItemForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getTariffs(true);
+      if (result.success) {
+        setItems(result.tariffs || []);
+      } else {
+        console.warn('Price list unavailable:', result.error);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  // Reload both the admin list and the copy every billing screen prices from
+  const afterChange = async () => {
+    await Promise.all([loadItems(), refreshTariffs()]);
+  };
+
+  const filteredItems = items.filter(item =>
+    (!groupFilter || item.group === groupFilter) &&
+    (!searchTerm || `${item.code} ${item.name}`.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const formatPrice = (item: TariffItem, payer: TariffPayer) => {
+    const price = resolveTariffPrice(item, payer);
+    return price !== undefined ? `TZS ${price.toLocaleString()}` : '-';
+  };
+
+  const handleToggleExpanded = (item: TariffItem) => {
+    setExpandedId(expandedId === item.id ? null : item.id);
+    setPriceForm({ payer: 'CASH', price: '', effectiveFrom: getCurrentDate() });
+  };
+
+  const handleSetPrice = async (item: TariffItem) => {
+    const price = parseFloat(priceForm.price);
+    if (isNaN(price) || price < 0) {
+      showError('Enter a price of zero or more');
+      return;
+    }
+    if (!priceForm.effectiveFrom) {
+      showError('Choose the date the price takes effect');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await setTariffPrice(item.id, { payer: priceForm.payer, price, effectiveFrom: priceForm.effectiveFrom });
+      if (result.success) {
+        showSuccess(`${item.name}: ${priceForm.payer} price TZS ${price.toLocaleString()} from ${priceForm.effectiveFrom}`);
+        setPriceForm({ ...priceForm, price: '' });
+        await afterChange();
+      } else {
+        showError(result.error || 'Failed to set price');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (item: TariffItem) => {
+    if (item.isActive && !confirm(`Deactivate ${item.name}? It will no longer be offered on bills.`)) {
+      return;
+    }
+    const result = await updateTariffItem(item.id, { isActive: !item.isActive });
+    if (result.success) {
+      showSuccess(`${item.name} ${item.isActive ? 'deactivated' : 'activated'}`);
+      await afterChange();
+    } else {
+      showError(result.error || 'Failed to update item');
+    }
+  };
+
+  const handleTogglePreauth = async (item: TariffItem) => {
+    const result = await updateTariffItem(item.id, { requiresPreauth: !item.requiresPreauth });
+    if (result.success) {
+      showSuccess(`${item.name} ${item.requiresPreauth ? 'no longer needs' : 'now needs'} insurer pre-authorization`);
+      await afterChange();
+    } else {
+      showError(result.error || 'Failed to update item');
+    }
+  };
+
+  const handleCreateItem = async () => {
+    if (!itemForm) return;
+    const code = itemForm.code.trim().toUpperCase();
+    if (!code || !itemForm.name.trim()) {
+      showError('Service code and name are required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await createTariffItem({
+        code,
+        name: itemForm.name.trim(),
+        category: itemForm.category,
+        serviceGroup: itemForm.serviceGroup,
+        nhifItemCode: itemForm.nhifItemCode.trim() || undefined,
+      });
+      if (result.success && result.item) {
+        showSuccess(`${code} added. Set its prices to make it billable.`);
+        setItemForm(null);
+        await afterChange();
+        setExpandedId(result.item.id);
+      } else {
+        showError(result.error || 'Failed to add item');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-bold text-slate-900">Price List</h2>
+          <p className="text-xs text-slate-500 mt-1">Prices per payer with effective dates. Insurers without their own price pay the cash price; items without an NHIF price are not NHIF-covered.</p>
+        </div>
+        <button
+          onClick={() => setItemForm(emptyItemForm)}
+          className="px-4 py-2 text-white rounded-xl font-semibold text-sm shrink-0"
+          style={{ backgroundColor: 'var(--brand-primary)' }}
+        >
+          <i className="fas fa-plus mr-2"></i>Add Item
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search by code or name"
+            className="flex-1 px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+          />
+          <select
+            value={groupFilter}
+            onChange={(e) => setGroupFilter(e.target.value as TariffGroup | '')}
+            className="px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+          >
+            <option value="">All groups</option>
+            {TARIFF_GROUPS.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+          </select>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading price list...</p>
+        ) : filteredItems.length === 0 ? (
+          <p className="text-sm text-slate-500">No items match</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                  <th className="py-2 pr-4">Code</th>
+                  <th className="py-2 pr-4">Name</th>
+                  <th className="py-2 pr-4">NHIF Item</th>
+                  <th className="py-2 pr-4 text-right">Cash</th>
+                  <th className="py-2 pr-4 text-right">NHIF</th>
+                  <th className="py-2 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredItems.map(item => (
+                  <React.Fragment key={item.id}>
+                    <tr className={`border-b border-slate-100 ${item.isActive ? '' : 'opacity-50'}`}>
+                      <td className="py-3 pr-4 font-mono text-xs text-slate-700">{item.code}</td>
+                      <td className="py-3 pr-4 font-semibold text-slate-800">
+                        {item.name}
+                        {item.requiresPreauth && <span className="ml-2 text-xs px-2 py-0.5 rounded-lg bg-amber-100 text-amber-700">Pre-auth</span>}
+                        {!item.isActive && <span className="ml-2 text-xs px-2 py-0.5 rounded-lg bg-slate-100 text-slate-500">Inactive</span>}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-600">{item.nhifItemCode || '-'}</td>
+                      <td className="py-3 pr-4 text-right text-slate-700">{formatPrice(item, 'CASH')}</td>
+                      <td className="py-3 pr-4 text-right text-slate-700">{formatPrice(item, InsuranceProvider.NHIF)}</td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleToggleExpanded(item)}
+                          className="px-2 text-slate-500 hover:text-brand-primary"
+                          title="Prices"
+                        >
+                          <i className={`fas ${expandedId === item.id ? 'fa-chevron-up' : 'fa-tags'}`}></i>
+                        </button>
+                        <button
+                          onClick={() => handleTogglePreauth(item)}
+                          className={`px-2 hover:text-amber-600 ${item.requiresPreauth ? 'text-amber-600' : 'text-slate-400'}`}
+                          title={item.requiresPreauth ? 'Private insurers must pre-authorize (click to remove)' : 'Require private insurer pre-authorization'}
+                        >
+                          <i className="fas fa-file-signature"></i>
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(item)}
+                          className="px-2 text-slate-500 hover:text-amber-600"
+                          title={item.isActive ? 'Deactivate' : 'Activate'}
+                        >
+                          <i className={`fas ${item.isActive ? 'fa-toggle-on' : 'fa-toggle-off'}`}></i>
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedId === item.id && (
+                      <tr className="border-b border-slate-100 bg-slate-50/50">
+                        <td colSpan={6} className="p-4 space-y-4">
+                          {item.prices.length === 0 ? (
+                            <p className="text-xs text-slate-500">No prices set</p>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-slate-500 uppercase tracking-wide">
+                                  <th className="py-1 pr-4">Payer</th>
+                                  <th className="py-1 pr-4 text-right">Price</th>
+                                  <th className="py-1 pr-4">From</th>
+                                  <th className="py-1">To</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {item.prices.map(price => (
+                                  <tr key={price.id}>
+                                    <td className="py-1 pr-4 font-semibold text-slate-700">{price.payer}</td>
+                                    <td className="py-1 pr-4 text-right text-slate-700">TZS {price.price.toLocaleString()}</td>
+                                    <td className="py-1 pr-4 text-slate-600">{price.effectiveFrom}</td>
+                                    <td className="py-1 text-slate-600">{price.effectiveTo || 'Current'}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                          <div className="flex flex-col md:flex-row md:items-end gap-3">
+                            <div>
+                              <label className="text-xs font-semibold text-slate-600 mb-1 block">Payer</label>
+                              <select
+                                value={priceForm.payer}
+                                onChange={(e) => setPriceForm({ ...priceForm, payer: e.target.value as TariffPayer })}
+                                className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none"
+                              >
+                                {PAYERS.map(payer => <option key={payer} value={payer}>{payer}</option>)}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="text-xs font-semibold text-slate-600 mb-1 block">Price (TZS)</label>
+                              <input
+                                type="number"
+                                min="0"
+                                value={priceForm.price}
+                                onChange={(e) => setPriceForm({ ...priceForm, price: e.target.value })}
+                                className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs font-semibold text-slate-600 mb-1 block">Effective From</label>
+                              <input
+                                type="date"
+                                value={priceForm.effectiveFrom}
+                                onChange={(e) => setPriceForm({ ...priceForm, effectiveFrom: e.target.value })}
+                                className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none"
+                              />
+                            </div>
+                            <button
+                              onClick={() => handleSetPrice(item)}
+                              disabled={isSaving}
+                              className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-lg hover:bg-brand-primary-dark disabled:opacity-50"
+                            >
+                              Set Price
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {itemForm && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <h3 className="text-base font-bold text-slate-900">Add Price List Item</h3>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">Service Code</label>
+              <input
+                type="text"
+                value={itemForm.code}
+                onChange={(e) => setItemForm({ ...itemForm, code: e.target.value.toUpperCase().replace(/[^A-Z0-9_]/g, '') })}
+                placeholder="e.g. OCT_SCAN"
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-mono outline-none"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">Name</label>
+              <input
+                type="text"
+                value={itemForm.name}
+                onChange={(e) => setItemForm({ ...itemForm, name: e.target.value })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-semibold text-slate-600 mb-1 block">Category</label>
+                <select
+                  value={itemForm.category}
+                  onChange={(e) => setItemForm({ ...itemForm, category: e.target.value as TariffItem['category'] })}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                >
+                  <option value="CLINICAL">Clinical</option>
+                  <option value="PHARMACY">Pharmacy</option>
+                  <option value="OPTICAL">Optical</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-600 mb-1 block">Group</label>
+                <select
+                  value={itemForm.serviceGroup}
+                  onChange={(e) => setItemForm({ ...itemForm, serviceGroup: e.target.value as TariffGroup })}
+                  className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+                >
+                  {TARIFF_GROUPS.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">NHIF Item Code (optional)</label>
+              <input
+                type="text"
+                value={itemForm.nhifItemCode}
+                onChange={(e) => setItemForm({ ...itemForm, nhifItemCode: e.target.value })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                onClick={() => setItemForm(null)}
+                className="px-4 py-2 text-sm font-semibold text-slate-600 bg-slate-100 rounded-xl hover:bg-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreateItem}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+              >
+                Add Item
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TariffManagement;
@@ -0,0 +1,45 @@
+/**
+ * Thermal Print Preview
+ * Shows an ESC/POS job as the 80mm printer would lay it out (workstation preview mode)
+ */
+
+import React from 'react';
+
+interface ThermalPrintPreviewProps {
+  preview: string | null;
+  onClose: () => void;
+}
+
+const ThermalPrintPreview: React.FC<ThermalPrintPreviewProps> = ({ preview, onClose }) => {
+  if (preview === null) return null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-bold text-slate-900 flex items-center gap-2">
+            <i className="fas fa-receipt text-brand-primary"></i>
+            Thermal Print Preview
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">Preview mode is on for this workstation — nothing was sent to the printer.</p>
+        <pre className="max-h-[60vh] overflow-auto bg-slate-50 border border-dashed border-slate-300 rounded-xl p-4 text-[11px] leading-4 font-mono text-slate-800 whitespace-pre">
+          {preview}
+        </pre>
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThermalPrintPreview;
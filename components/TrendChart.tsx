@@ -0,0 +1,155 @@
+/**
+ * Trend Chart Component
+ * Small SVG line chart of one measurement per eye across visits, spaced by visit, with
+ * optional shaded target bands
+ */
+
+import React from 'react';
+
+export interface TrendSeries {
+  label: string;
+  color: string;
+  values: Array<number | undefined>; // One per label; undefined leaves a gap
+}
+
+export interface TrendBand {
+  label: string;
+  color: string;
+  from?: number;
+  to?: number;
+}
+
+interface TrendChartProps {
+  labels: string[];
+  series: TrendSeries[];
+  yMin: number;
+  yMax: number;
+  unit?: string;
+  bands?: TrendBand[];
+  /** Draw larger values lower, e.g. logMAR where smaller is better vision */
+  invertY?: boolean;
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 12, right: 16, bottom: 28, left: 44 };
+const TICKS = 4;
+
+const TrendChart: React.FC<TrendChartProps> = ({
+  labels,
+  series,
+  yMin,
+  yMax,
+  unit = '',
+  bands = [],
+  invertY = false,
+  formatValue = (value) => String(value),
+}) => {
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+
+  const x = (index: number) =>
+    PAD.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => {
+    const clamped = Math.min(yMax, Math.max(yMin, value));
+    const share = (clamped - yMin) / (yMax - yMin || 1);
+    return PAD.top + (invertY ? share : 1 - share) * plotHeight;
+  };
+
+  // Consecutive recorded values form one line; a visit without a value breaks it
+  const segments = (values: Array<number | undefined>) => {
+    const runs: Array<Array<[number, number]>> = [];
+    let run: Array<[number, number]> = [];
+    values.forEach((value, index) => {
+      if (value === undefined) {
+        if (run.length) runs.push(run);
+        run = [];
+      } else {
+        run.push([x(index), y(value)]);
+      }
+    });
+    if (run.length) runs.push(run);
+    return runs;
+  };
+
+  // Keep date labels from overlapping on long follow-ups
+  const labelEvery = Math.ceil(labels.length / 8);
+
+  const ticks = Array.from({ length: TICKS + 1 }, (_, i) => yMin + ((yMax - yMin) * i) / TICKS);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {bands.map((band) => {
+          const from = band.from ?? yMin;
+          const to = band.to ?? yMax;
+          const top = Math.min(y(from), y(to));
+          return (
+            <g key={band.label}>
+              <rect x={PAD.left} y={top} width={plotWidth} height={Math.abs(y(to) - y(from))} fill={band.color} opacity={0.08}>
+                <title>{band.label}</title>
+              </rect>
+              {band.from !== undefined && (
+                <line x1={PAD.left} x2={PAD.left + plotWidth} y1={y(band.from)} y2={y(band.from)} stroke={band.color} strokeDasharray="4 4" opacity={0.6} />
+              )}
+              {band.to !== undefined && (
+                <line x1={PAD.left} x2={PAD.left + plotWidth} y1={y(band.to)} y2={y(band.to)} stroke={band.color} strokeDasharray="4 4" opacity={0.6} />
+              )}
+            </g>
+          );
+        })}
+
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line x1={PAD.left} x2={PAD.left + plotWidth} y1={y(tick)} y2={y(tick)} stroke="#e2e8f0" />
+            <text x={PAD.left - 6} y={y(tick) + 3} textAnchor="end" fontSize="10" fill="#64748b">
+              {formatValue(Math.round(tick * 100) / 100)}
+            </text>
+          </g>
+        ))}
+
+        {labels.map((label, index) => index % labelEvery === 0 && (
+          <text key={`${label}-${index}`} x={x(index)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#64748b">
+            {label}
+          </text>
+        ))}
+
+        {series.map((line) => (
+          <g key={line.label}>
+            {segments(line.values).map((run, i) => (
+              <polyline
+                key={i}
+                points={run.map(([px, py]) => `${px},${py}`).join(' ')}
+                fill="none"
+                stroke={line.color}
+                strokeWidth={2}
+              />
+            ))}
+            {line.values.map((value, index) => value !== undefined && (
+              <circle key={index} cx={x(index)} cy={y(value)} r={3.5} fill={line.color}>
+                <title>{`${line.label} ${labels[index]}: ${formatValue(value)}${unit}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-slate-600">
+        {series.map((line) => (
+          <span key={line.label} className="flex items-center gap-1.5">
+            <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: line.color }}></span>
+            {line.label}
+          </span>
+        ))}
+        {bands.map((band) => (
+          <span key={band.label} className="flex items-center gap-1.5 text-slate-500">
+            <span className="w-3 h-2 inline-block opacity-30" style={{ backgroundColor: band.color }}></span>
+            {band.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
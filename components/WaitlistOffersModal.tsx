@@ -0,0 +1,111 @@
+/**
+ * Waitlist Offers Modal
+ * Shown when a cancellation or reschedule frees a future slot: the waiting patients it
+ * suits, in the order they should be offered it. Book the first who accepts.
+ */
+
+import React, { useState } from 'react';
+import { Appointment, AppointmentPriority, WaitlistEntry } from '../types';
+import { bookFromWaitlist } from '../services/appointmentService';
+import { formatDate, formatTime } from '../utils/dateTimeUtils';
+import { getAppointmentEndTime } from '../utils/appointmentUtils';
+import { useToast } from './Toast';
+
+interface WaitlistOffersModalProps {
+  /** The appointment whose slot was freed, as it was before the change */
+  freedAppointment: Appointment;
+  offers: WaitlistEntry[];
+  onClose: () => void;
+  onBooked: (appointment: Appointment) => void;
+}
+
+const WaitlistOffersModal: React.FC<WaitlistOffersModalProps> = ({ freedAppointment, offers, onClose, onBooked }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [bookingId, setBookingId] = useState<string | null>(null);
+
+  const handleBook = async (entry: WaitlistEntry) => {
+    if (!freedAppointment.providerId) return;
+    setBookingId(entry.id);
+    try {
+      const result = await bookFromWaitlist(entry.id, {
+        providerId: freedAppointment.providerId,
+        date: freedAppointment.appointmentDate,
+        time: freedAppointment.appointmentTime,
+      });
+      if (result.success && result.appointment) {
+        showSuccess(`Slot booked for ${entry.patientName || 'patient'}`);
+        onBooked(result.appointment);
+      } else {
+        showError(result.error || 'Failed to book the slot');
+      }
+    } finally {
+      setBookingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-base font-bold text-slate-900">Offer Freed Slot</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              {formatDate(freedAppointment.appointmentDate)}, {formatTime(freedAppointment.appointmentTime)} – {formatTime(getAppointmentEndTime(freedAppointment))}
+              {freedAppointment.providerName && ` with ${freedAppointment.providerName}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-600">
+          Call the waiting patients in this order and book the first who can come.
+        </p>
+
+        <ul className="space-y-2">
+          {offers.map((entry, index) => (
+            <li key={entry.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-slate-50 border border-slate-200">
+              <div className="flex items-start gap-3">
+                <span className="w-6 h-6 rounded-full bg-white border border-slate-200 text-xs font-bold text-slate-600 flex items-center justify-center">
+                  {index + 1}
+                </span>
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {entry.patientName || entry.patientId}
+                    {entry.priority === AppointmentPriority.EMERGENCY && (
+                      <span className="ml-2 text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-full font-bold">Emergency</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {entry.patientPhone} · {entry.appointmentType} · waiting since {formatDate(entry.createdAt)}
+                  </p>
+                  {entry.notes && <p className="text-xs text-slate-400 italic">{entry.notes}</p>}
+                </div>
+              </div>
+              <button
+                onClick={() => handleBook(entry)}
+                disabled={bookingId !== null}
+                className="px-4 py-2 text-xs font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50 whitespace-nowrap"
+              >
+                {bookingId === entry.id ? 'Booking...' : 'Book'}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end pt-2">
+          <button
+            onClick={onClose}
+            disabled={bookingId !== null}
+            className="px-5 py-2.5 bg-slate-100 text-slate-700 rounded-xl font-semibold text-sm hover:bg-slate-200 transition-all disabled:opacity-50"
+          >
+            Leave Slot Free
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaitlistOffersModal;
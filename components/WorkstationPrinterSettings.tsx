@@ -0,0 +1,145 @@
+/**
+ * Workstation Printer Settings
+ * Chooses A4 PDF or the 80mm thermal printer for receipts and tickets on this
+ * workstation; the choice is stored in this browser only
+ */
+
+import React, { useState, useEffect } from 'react';
+import { PrinterSettings } from '../types';
+import { storageService } from '../services/storageService';
+import { getThermalPrinters, printThermal } from '../services/printService';
+import { EscPosBuilder, LINE_WIDTH } from '../utils/escpos';
+import { addThermalHeader, getClinicName } from '../utils/documentHeader';
+import { formatISODateTime } from '../utils/dateTimeUtils';
+import { useToast } from './Toast';
+import ThermalPrintPreview from './ThermalPrintPreview';
+
+const WorkstationPrinterSettings: React.FC = () => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [settings, setSettings] = useState<PrinterSettings>(() => storageService.loadPrinterSettings());
+  const [printers, setPrinters] = useState<{ name: string }[]>([]);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    getThermalPrinters().then(result => {
+      if (result.success) {
+        setPrinters(result.printers || []);
+      } else {
+        console.warn('Thermal printers unavailable:', result.error);
+      }
+    });
+  }, []);
+
+  const updateSettings = (changes: Partial<PrinterSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    storageService.savePrinterSettings(next);
+  };
+
+  const handleTestPrint = async () => {
+    setIsPrinting(true);
+    try {
+      const job = addThermalHeader(new EscPosBuilder())
+        .align('center')
+        .bold(true).line('TEST PRINT').bold(false)
+        .line(formatISODateTime(new Date().toISOString()))
+        .divider()
+        .align('left')
+        .columns('Printer:', settings.printerName || '-')
+        .columns('Left', 'Right')
+        .line('0123456789'.repeat(5).slice(0, LINE_WIDTH))
+        .align('center')
+        .qrCode(getClinicName())
+        .feed(3)
+        .cut()
+        .toBytes();
+      const result = await printThermal(job);
+      if (!result.success) {
+        showError(result.error || 'Test print failed');
+      } else if (result.preview !== undefined) {
+        setPreview(result.preview);
+      } else {
+        showSuccess(`Test page sent to ${settings.printerName}`);
+      }
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100">
+        <h2 className="text-sm font-bold text-slate-900">Workstation Printer</h2>
+        <p className="text-xs text-slate-500 mt-1">Applies to this computer only — set it up on each front desk and cashier workstation</p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-semibold text-slate-900">Use Thermal Printer</p>
+            <p className="text-xs text-slate-500 mt-1">Print receipts, queue tickets and optical job tickets on the 80mm printer instead of A4 PDF</p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.useThermalPrinter}
+              onChange={(e) => updateSettings({ useThermalPrinter: e.target.checked })}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-brand-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-brand-primary"></div>
+          </label>
+        </div>
+
+        {settings.useThermalPrinter && (
+          <>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-2 block">Printer</label>
+              <select
+                value={settings.printerName}
+                onChange={(e) => updateSettings({ printerName: e.target.value })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+              >
+                <option value="">Select printer</option>
+                {printers.map(p => (
+                  <option key={p.name} value={p.name}>{p.name}</option>
+                ))}
+              </select>
+              {printers.length === 0 && (
+                <p className="text-xs text-amber-600 mt-2">No thermal printers are configured on the server (THERMAL_PRINTERS)</p>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-semibold text-slate-900">Preview Mode</p>
+                <p className="text-xs text-slate-500 mt-1">Show each print job as text on screen instead of sending it to the printer</p>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.previewMode}
+                  onChange={(e) => updateSettings({ previewMode: e.target.checked })}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-brand-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-brand-primary"></div>
+              </label>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={handleTestPrint}
+                disabled={isPrinting || (!settings.previewMode && !settings.printerName)}
+                className="px-4 py-2 text-sm font-semibold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 disabled:opacity-50"
+              >
+                <i className="fas fa-print mr-2"></i>
+                {isPrinting ? 'Printing...' : 'Test Print'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <ThermalPrintPreview preview={preview} onClose={() => setPreview(null)} />
+    </div>
+  );
+};
+
+export default WorkstationPrinterSettings;
@@ -21,39 +21,6 @@ export const APP_THEME = {
   info: 'var(--brand-info)',
 };
 
-/**
- * Clinical fees and pricing constants - Hospital Price List
- */
-export const HOSPITAL_PRICING = {
-  // Consultation Fees
-  EYE_CONSULTATION: 25000,
-  VISION_TEST: 15000,
-  OPTICAL_REVIEW: 20000,
-  SPECIALIST_CONSULTATION: 50000,
-  COMPREHENSIVE_EXAMINATION: 30000,
-  BASIC_EXAMINATION: 15000,
-  
-  // Tests
-  VISUAL_ACUITY_TEST: 10000,
-  REFRACTION_TEST: 15000,
-  INTRAOCULAR_PRESSURE_TEST: 12000,
-  FUNDOSCOPY: 18000,
-  SLIT_LAMP_EXAMINATION: 15000,
-  
-  // Procedures
-  MINOR_PROCEDURE: 30000,
-  MAJOR_PROCEDURE: 100000,
-} as const;
-
-/**
- * Legacy clinical fees (for backward compatibility)
- */
-export const CLINICAL_FEES = {
-  COMPREHENSIVE_EXAMINATION: HOSPITAL_PRICING.COMPREHENSIVE_EXAMINATION,
-  BASIC_EXAMINATION: HOSPITAL_PRICING.BASIC_EXAMINATION,
-  SPECIALIST_CONSULTATION: HOSPITAL_PRICING.SPECIALIST_CONSULTATION,
-} as const;
-
 /**
  * Insurance Providers List - Tanzania
  */
@@ -74,6 +41,15 @@ export const INSURANCE_COVERAGE = {
   NHIF_COVERAGE_PERCENTAGE: 1.0, // 100% coverage for NHIF (if eligible)
 } as const;
 
+/**
+ * Pharmacy stock alert thresholds
+ */
+export const STOCK_ALERTS = {
+  DEFAULT_REORDER_LEVEL: 10, // Used when a medication has no reorder level set
+  EXPIRY_WINDOW_DAYS: 90, // Flag batches expiring within this many days
+  EXPIRY_WINDOW_OPTIONS: [30, 60, 90, 180],
+} as const;
+
 /**
  * UI/UX timing constants (in milliseconds)
  */
@@ -82,6 +58,8 @@ export const UI_TIMING = {
   TOAST_DURATION: 3000, // Default toast notification duration
   TOAST_FADE_OUT: 300, // Toast fade-out animation duration
   AI_REQUEST_TIMEOUT: 30000, // AI service request timeout (30 seconds)
+  MOBILE_MONEY_POLL_INTERVAL: 3000, // How often to check a pending mobile money request
+  MOBILE_MONEY_TIMEOUT: 120000, // Give up waiting for the patient to approve (2 minutes)
 } as const;
 
 /**
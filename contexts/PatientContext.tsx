@@ -5,19 +5,23 @@
  */
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
-import { Patient } from '../types';
+import { Patient, Encounter } from '../types';
 import { storageService } from '../services/storageService';
 import {
   useSupabaseForPatients,
   mapPatientFromApi,
+  mapEncounterFromApi,
   listPatients,
   createPatient as apiCreatePatient,
   updatePatient as apiUpdatePatient,
   deletePatient as apiDeletePatient,
   getPatient as apiGetPatient,
+  getPatientEncounters as apiGetPatientEncounters,
+  saveEncounter as apiSaveEncounter,
 } from '../services/patientService';
 import { validatePatient, ValidationResult } from '../utils/validation';
-import { generatePatientId } from '../utils/idGenerator';
+import { generatePatientId, generateId } from '../utils/idGenerator';
+import { getCurrentDate, getCurrentTime } from '../utils/dateTimeUtils';
 import { handleError } from '../utils/errorHandler';
 
 interface PatientContextType {
@@ -27,6 +31,8 @@ interface PatientContextType {
   deletePatient: (id: string) => Promise<{ success: boolean; error?: string }>;
   getPatient: (id: string) => Patient | undefined;
   refreshPatient: (id: string) => Promise<Patient | null>;
+  getEncounters: (patientId: string) => Promise<Encounter[]>;
+  saveEncounter: (patientId: string, data: Partial<Encounter>) => Promise<{ success: boolean; error?: string; encounter?: Encounter }>;
   isLoading: boolean;
   error: string | null;
   useApi: boolean;
@@ -174,7 +180,9 @@ export const PatientProvider: React.FC<PatientProviderProps> = ({
 
     try {
       if (useApi) {
-        const res = await apiUpdatePatient(id, updates);
+        // Tag prescriptions/bill items with the patient's current visit
+        const current = patients.find((p) => p.id === id);
+        const res = await apiUpdatePatient(id, { visitId: current?.visitId, ...updates });
         const updated = (res as any).patient;
         if (updated) {
           const mapped = mapPatientFromApi(updated);
@@ -204,7 +212,7 @@ export const PatientProvider: React.FC<PatientProviderProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, [useApi]);
+  }, [useApi, patients]);
 
   const deletePatient = useCallback(async (
     id: string
@@ -251,6 +259,82 @@ export const PatientProvider: React.FC<PatientProviderProps> = ({
     }
   }, [useApi, getPatient]);
 
+  const setPatientEncounters = useCallback((patientId: string, encounters: Encounter[]) => {
+    setPatients((prev) => prev.map((p) => (p.id === patientId ? { ...p, encounters } : p)));
+  }, []);
+
+  const getEncounters = useCallback(async (patientId: string): Promise<Encounter[]> => {
+    if (!useApi) return getPatient(patientId)?.encounters ?? [];
+    try {
+      const res = await apiGetPatientEncounters(patientId);
+      if (!res.success) return getPatient(patientId)?.encounters ?? [];
+      setPatientEncounters(patientId, res.encounters);
+      return res.encounters;
+    } catch (err) {
+      console.error('Failed to load encounters:', err);
+      return getPatient(patientId)?.encounters ?? [];
+    }
+  }, [useApi, getPatient, setPatientEncounters]);
+
+  const saveEncounter = useCallback(async (
+    patientId: string,
+    data: Partial<Encounter>
+  ): Promise<{ success: boolean; error?: string; encounter?: Encounter }> => {
+    const patient = getPatient(patientId);
+    if (!patient) return { success: false, error: `Patient with ID ${patientId} not found` };
+    const existing = patient.encounters ?? [];
+
+    try {
+      if (useApi) {
+        const visitId = data.id ?? patient.visitId;
+        if (!visitId) return { success: false, error: 'No active visit for this patient' };
+        const res = await apiSaveEncounter(visitId, data);
+        if (!(res as any).success || !(res as any).encounter) {
+          return { success: false, error: (res as any).error ?? 'Failed to save encounter' };
+        }
+        const saved = mapEncounterFromApi((res as any).encounter);
+        setPatientEncounters(patientId, [saved, ...existing.filter((e) => e.id !== saved.id)]);
+        return { success: true, encounter: saved };
+      }
+
+      // localStorage mode: encounters live on the patient record
+      // A closed current visit means the patient is back for a new encounter
+      const current = existing.find((e) => e.id === (data.id ?? patient.visitId));
+      const isOpen = !!current && current.status !== 'COMPLETED' && current.status !== 'CANCELLED';
+      if (data.id && current && !isOpen) {
+        return { success: false, error: 'Visit is closed and can no longer be modified' };
+      }
+      const now = new Date().toISOString();
+      const saved: Encounter = isOpen
+        ? { ...current, ...data, id: current.id, updatedAt: now }
+        : {
+            patientId,
+            visitDate: getCurrentDate(),
+            visitTime: getCurrentTime(),
+            department: 'OPTOMETRY',
+            payerType: patient.insuranceType === 'CASH' ? 'CASH' : 'INSURANCE',
+            insuranceProvider: patient.insuranceProvider,
+            status: 'IN_PROGRESS',
+            createdAt: now,
+            updatedAt: now,
+            diagnoses: [],
+            billItems: [],
+            ...data,
+            id: data.id ?? generateId('VIS'),
+          };
+      if (data.status === 'COMPLETED' && !saved.completedAt) saved.completedAt = now;
+
+      setPatients((prev) => prev.map((p) => (p.id === patientId
+        ? { ...p, visitId: saved.id, encounters: [saved, ...existing.filter((e) => e.id !== saved.id)] }
+        : p)));
+      return { success: true, encounter: saved };
+    } catch (err) {
+      const errorMessage = handleError(err);
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [useApi, getPatient, setPatientEncounters]);
+
   const value: PatientContextType = {
     patients,
     addPatient,
@@ -258,6 +342,8 @@ export const PatientProvider: React.FC<PatientProviderProps> = ({
     deletePatient,
     getPatient,
     refreshPatient,
+    getEncounters,
+    saveEncounter,
     isLoading,
     error,
     useApi,
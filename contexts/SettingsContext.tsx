@@ -0,0 +1,95 @@
+/**
+ * Settings Context
+ * Loads the saved system settings once per session and pushes the clinic details into
+ * the document headers, so every screen and printout uses the same values.
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { SystemSettings } from '../types';
+import { getSettings, updateSettings, DEFAULT_SETTINGS } from '../services/settingsService';
+import { setClinicDetails } from '../utils/documentHeader';
+import { useAuth } from './AuthContext';
+
+interface SettingsContextType {
+  settings: SystemSettings;
+  isLoading: boolean;
+  error: string | null;
+  refreshSettings: () => Promise<void>;
+  saveSettings: (changes: Partial<Omit<SystemSettings, 'updatedAt'>>) => Promise<{ success: boolean; error?: string }>;
+  workingHours: { start: string; end: string };
+}
+
+const SettingsContext = createContext<SettingsContextType | null>(null);
+
+export const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within SettingsProvider');
+  }
+  return context;
+};
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [settings, setSettings] = useState<SystemSettings>(DEFAULT_SETTINGS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshSettings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getSettings();
+      if (result.success && result.settings) {
+        setSettings(result.settings);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load settings');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshSettings();
+    } else {
+      setSettings(DEFAULT_SETTINGS);
+    }
+  }, [isAuthenticated, refreshSettings]);
+
+  // Document headers are built outside React; keep them in step with the settings
+  useEffect(() => {
+    setClinicDetails({
+      name: settings.clinicName,
+      tagline: settings.clinicTagline,
+      address: settings.clinicAddress,
+      phone: settings.clinicPhone,
+      email: settings.clinicEmail,
+    });
+  }, [settings]);
+
+  const saveSettings = useCallback(async (changes: Partial<Omit<SystemSettings, 'updatedAt'>>) => {
+    const result = await updateSettings(changes);
+    if (result.success && result.settings) {
+      setSettings(result.settings);
+      return { success: true };
+    }
+    return { success: false, error: result.error };
+  }, []);
+
+  const value: SettingsContextType = {
+    settings,
+    isLoading,
+    error,
+    refreshSettings,
+    saveSettings,
+    workingHours: { start: settings.workingHoursStart, end: settings.workingHoursEnd },
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
@@ -0,0 +1,91 @@
+/**
+ * Tariff Context
+ * Loads the tariff master once per session so every billing screen prices from the same list.
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { TariffItem, TariffGroup, TariffPayer } from '../types';
+import { getTariffs } from '../services/tariffService';
+import { resolveTariffPrice } from '../utils/tariffUtils';
+import { useAuth } from './AuthContext';
+
+interface TariffContextType {
+  tariffs: TariffItem[];
+  isLoading: boolean;
+  error: string | null;
+  refreshTariffs: () => Promise<void>;
+  getTariff: (code: string) => TariffItem | undefined;
+  getTariffsByGroup: (group: TariffGroup) => TariffItem[];
+  priceFor: (code: string, payer: TariffPayer, date?: string) => number | undefined;
+}
+
+const TariffContext = createContext<TariffContextType | null>(null);
+
+export const useTariffs = () => {
+  const context = useContext(TariffContext);
+  if (!context) {
+    throw new Error('useTariffs must be used within TariffProvider');
+  }
+  return context;
+};
+
+export const TariffProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [tariffs, setTariffs] = useState<TariffItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshTariffs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getTariffs();
+      if (result.success) {
+        setTariffs(result.tariffs || []);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load tariffs');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshTariffs();
+    } else {
+      setTariffs([]);
+    }
+  }, [isAuthenticated, refreshTariffs]);
+
+  const getTariff = useCallback(
+    (code: string) => tariffs.find(t => t.code === code),
+    [tariffs]
+  );
+
+  const getTariffsByGroup = useCallback(
+    (group: TariffGroup) => tariffs.filter(t => t.group === group),
+    [tariffs]
+  );
+
+  const priceFor = useCallback((code: string, payer: TariffPayer, date?: string) => {
+    const item = tariffs.find(t => t.code === code);
+    return item ? resolveTariffPrice(item, payer, date) : undefined;
+  }, [tariffs]);
+
+  const value: TariffContextType = {
+    tariffs,
+    isLoading,
+    error,
+    refreshTariffs,
+    getTariff,
+    getTariffsByGroup,
+    priceFor,
+  };
+
+  return (
+    <TariffContext.Provider value={value}>
+      {children}
+    </TariffContext.Provider>
+  );
+};
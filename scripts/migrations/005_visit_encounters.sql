@@ -0,0 +1,30 @@
+-- Migration: Visit encounters (per-visit clinical record)
+-- Run in Supabase SQL Editor or via: psql ... -f 005_visit_encounters.sql
+-- Turns each visit into a full encounter so notes, refraction, diagnoses and
+-- bill items belong to the visit instead of being overwritten on the patient.
+
+-- =============================================================================
+-- 1. Encounter columns on visits
+-- =============================================================================
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS provider_id UUID REFERENCES providers(id) ON DELETE SET NULL;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS chief_complaint TEXT;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS clinical_notes TEXT;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS consultation_notes TEXT;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS diagnoses JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_visits_provider_id ON visits(provider_id);
+CREATE INDEX IF NOT EXISTS idx_visits_patient_created ON visits(patient_id, created_at DESC);
+
+-- =============================================================================
+-- 2. Link prescriptions and bill items to the visit they were recorded in
+-- =============================================================================
+ALTER TABLE prescriptions ADD COLUMN IF NOT EXISTS visit_id UUID REFERENCES visits(id) ON DELETE SET NULL;
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS visit_id UUID REFERENCES visits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_prescriptions_visit_id ON prescriptions(visit_id);
+CREATE INDEX IF NOT EXISTS idx_bill_items_visit_id ON bill_items(visit_id);
+
+COMMENT ON COLUMN visits.diagnoses IS 'Diagnoses recorded during this encounter (array of strings / ICD-10 descriptions)';
+COMMENT ON COLUMN prescriptions.visit_id IS 'Encounter the prescription was written in; NULL for legacy rows';
+COMMENT ON COLUMN bill_items.visit_id IS 'Encounter the item was billed against; NULL for legacy rows';
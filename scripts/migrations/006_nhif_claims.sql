@@ -0,0 +1,90 @@
+-- Migration: NHIF Claims (folios and monthly batches)
+-- Run in Supabase SQL Editor or via: psql ... -f 006_nhif_claims.sql
+-- Claim folios are built from NHIF-covered bill items of completed, verified visits
+-- and bundled into one batch per claim month for submission to NHIF.
+
+-- =============================================================================
+-- 1. Claim Batches (one per facility per claim month)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS nhif_claim_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  claim_month DATE NOT NULL, -- First day of the month being claimed
+  facility_code VARCHAR(50),
+  status VARCHAR(20) NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'SUBMITTED', 'CLOSED')),
+  folio_count INTEGER NOT NULL DEFAULT 0,
+  total_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  submission_reference VARCHAR(100), -- Reference returned by NHIF on submission
+  submitted_at TIMESTAMPTZ,
+  submitted_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  UNIQUE (claim_month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nhif_claim_batches_claim_month ON nhif_claim_batches(claim_month);
+CREATE INDEX IF NOT EXISTS idx_nhif_claim_batches_status ON nhif_claim_batches(status);
+
+COMMENT ON TABLE nhif_claim_batches IS 'Monthly NHIF claim batches submitted for reimbursement';
+
+-- =============================================================================
+-- 2. Claim Folios (one per verified NHIF visit)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS nhif_claim_folios (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES nhif_claim_batches(id) ON DELETE CASCADE,
+  visit_id UUID NOT NULL UNIQUE REFERENCES visits(id) ON DELETE RESTRICT, -- A visit is claimed once
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+  verification_id UUID REFERENCES nhif_verifications(id) ON DELETE SET NULL,
+  folio_no INTEGER NOT NULL, -- Sequential within the batch
+  card_no VARCHAR(50) NOT NULL,
+  authorization_no VARCHAR(100),
+  member_name VARCHAR(255),
+  visit_date DATE NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb, -- Snapshot of NHIF-covered bill items at folio creation
+  total_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SUBMITTED', 'ACCEPTED', 'REJECTED', 'PAID')),
+  rejection_reason TEXT,
+  paid_amount NUMERIC(12, 2) CHECK (paid_amount >= 0),
+  paid_at TIMESTAMPTZ,
+  nhif_response JSONB, -- Per-folio result returned by NHIF
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  UNIQUE (batch_id, folio_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nhif_claim_folios_batch_id ON nhif_claim_folios(batch_id);
+CREATE INDEX IF NOT EXISTS idx_nhif_claim_folios_patient_id ON nhif_claim_folios(patient_id);
+CREATE INDEX IF NOT EXISTS idx_nhif_claim_folios_status ON nhif_claim_folios(status);
+
+COMMENT ON TABLE nhif_claim_folios IS 'NHIF claim folios - one per verified NHIF visit, tracked from submission to payment';
+
+-- =============================================================================
+-- 3. RLS Policies
+-- =============================================================================
+ALTER TABLE nhif_claim_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nhif_claim_folios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY nhif_claim_batches_claims_staff ON nhif_claim_batches
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'claim_officer')
+    )
+  );
+
+CREATE POLICY nhif_claim_folios_claims_staff ON nhif_claim_folios
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'claim_officer')
+    )
+  );
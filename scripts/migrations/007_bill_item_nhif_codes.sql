@@ -0,0 +1,10 @@
+-- Migration: NHIF item codes on bill items
+-- Run in Supabase SQL Editor or via: psql ... -f 007_bill_item_nhif_codes.sql
+-- NHIF claim forms and folio submissions list each service against its NHIF tariff item code.
+
+-- =============================================================================
+-- 1. NHIF item code on bill items
+-- =============================================================================
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS nhif_item_code VARCHAR(50);
+
+COMMENT ON COLUMN bill_items.nhif_item_code IS 'NHIF tariff item code for this service; printed on Form 2A/2B and sent with claim folios';
@@ -0,0 +1,126 @@
+-- Migration: Pharmacy inventory (GRNs, batches with expiry, stock ledger)
+-- Run in Supabase SQL Editor or via: psql ... -f 008_pharmacy_inventory.sql
+-- Replaces the paper stock register: stock is received on goods received notes into
+-- expiry-dated batches, dispensed first-expiry-first-out, and every change is
+-- written to the stock movement ledger with the running balance.
+-- medications.stock stays as the cached on-hand total across all batches.
+
+-- =============================================================================
+-- 1. Goods Received Notes
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS goods_received_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_number VARCHAR(50) NOT NULL UNIQUE,
+  supplier_name VARCHAR(255) NOT NULL,
+  supplier_invoice_no VARCHAR(100),
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  total_cost NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (total_cost >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_received_date ON goods_received_notes(received_date DESC);
+
+COMMENT ON TABLE goods_received_notes IS 'Pharmacy goods received notes (supplier deliveries)';
+
+-- =============================================================================
+-- 2. Medication Batches
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS medication_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE RESTRICT,
+  batch_no VARCHAR(100) NOT NULL,
+  expiry_date DATE, -- NULL only for the opening-balance batch
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  quantity_remaining INTEGER NOT NULL DEFAULT 0 CHECK (quantity_remaining >= 0),
+  unit_cost NUMERIC(12, 2) CHECK (unit_cost >= 0),
+  grn_id UUID REFERENCES goods_received_notes(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  UNIQUE (medication_id, batch_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_batches_medication_id ON medication_batches(medication_id);
+CREATE INDEX IF NOT EXISTS idx_medication_batches_expiry ON medication_batches(medication_id, expiry_date) WHERE quantity_remaining > 0;
+
+COMMENT ON TABLE medication_batches IS 'Stock on hand per medication batch; dispensed first-expiry-first-out';
+
+-- =============================================================================
+-- 3. Stock Movements (ledger)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE RESTRICT,
+  batch_id UUID REFERENCES medication_batches(id) ON DELETE SET NULL,
+  movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('OPENING', 'RECEIPT', 'DISPENSE', 'ADJUSTMENT')),
+  quantity INTEGER NOT NULL CHECK (quantity <> 0), -- Positive = stock in, negative = stock out
+  balance_after INTEGER NOT NULL CHECK (balance_after >= 0), -- Medication on-hand total after this movement
+  reason VARCHAR(50), -- Adjustment reason (DAMAGED, EXPIRED, ...)
+  notes TEXT,
+  grn_id UUID REFERENCES goods_received_notes(id) ON DELETE SET NULL,
+  patient_id UUID REFERENCES patients(id) ON DELETE SET NULL,
+  visit_id UUID REFERENCES visits(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_medication_created ON stock_movements(medication_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_batch_id ON stock_movements(batch_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_patient_id ON stock_movements(patient_id);
+
+COMMENT ON TABLE stock_movements IS 'Pharmacy stock ledger - every receipt, dispense and adjustment with the running balance';
+
+-- =============================================================================
+-- 4. Opening balances for existing stock
+-- =============================================================================
+INSERT INTO medication_batches (medication_id, batch_no, expiry_date, quantity_received, quantity_remaining)
+SELECT m.id, 'OPENING', NULL, m.stock, m.stock
+FROM medications m
+WHERE m.stock > 0
+AND NOT EXISTS (SELECT 1 FROM medication_batches b WHERE b.medication_id = m.id);
+
+INSERT INTO stock_movements (medication_id, batch_id, movement_type, quantity, balance_after, notes)
+SELECT b.medication_id, b.id, 'OPENING', b.quantity_received, b.quantity_received, 'Opening balance from medications.stock'
+FROM medication_batches b
+WHERE b.batch_no = 'OPENING'
+AND NOT EXISTS (SELECT 1 FROM stock_movements s WHERE s.batch_id = b.id);
+
+-- =============================================================================
+-- 5. RLS Policies
+-- =============================================================================
+ALTER TABLE goods_received_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY goods_received_notes_pharmacy_staff ON goods_received_notes
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'pharmacist')
+    )
+  );
+
+CREATE POLICY medication_batches_pharmacy_staff ON medication_batches
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'pharmacist')
+    )
+  );
+
+CREATE POLICY stock_movements_pharmacy_staff ON stock_movements
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'pharmacist')
+    )
+  );
@@ -0,0 +1,12 @@
+-- Migration: Reorder levels for pharmacy stock
+-- Run in Supabase SQL Editor or via: psql ... -f 009_medication_reorder_levels.sql
+-- Items at or below their reorder level are flagged on the pharmacist dashboard.
+
+-- =============================================================================
+-- 1. Reorder level on medications
+-- =============================================================================
+ALTER TABLE medications ADD COLUMN IF NOT EXISTS reorder_level INTEGER NOT NULL DEFAULT 10 CHECK (reorder_level >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_medication_batches_expiry_date ON medication_batches(expiry_date) WHERE quantity_remaining > 0;
+
+COMMENT ON COLUMN medications.reorder_level IS 'Stock level at or below which the item is flagged for reordering';
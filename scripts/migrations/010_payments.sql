@@ -0,0 +1,45 @@
+-- Migration: Payments ledger
+-- Run in Supabase SQL Editor or via: psql ... -f 010_payments.sql
+-- Records every amount received against a visit so split and partial payments,
+-- the outstanding balance and receipts come from what was actually paid.
+-- One receipt may carry several payment lines (e.g. part cash, part mobile money).
+
+-- =============================================================================
+-- 1. Payments
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number VARCHAR(50) NOT NULL, -- Shared by all lines tendered together
+  visit_id UUID NOT NULL REFERENCES visits(id) ON DELETE RESTRICT,
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+  method VARCHAR(20) NOT NULL CHECK (method IN ('CASH', 'CARD', 'MOBILE_MONEY', 'INSURANCE')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0), -- Amount applied to the bill
+  amount_tendered NUMERIC(12, 2) CHECK (amount_tendered >= amount), -- Cash handed over
+  change_given NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (change_given >= 0),
+  reference_number VARCHAR(100), -- Card slip, mobile money transaction ID or insurance authorization
+  notes TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  received_by UUID REFERENCES auth.users(id) -- Cashier
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_visit_id ON payments(visit_id);
+CREATE INDEX IF NOT EXISTS idx_payments_patient_id ON payments(patient_id);
+CREATE INDEX IF NOT EXISTS idx_payments_receipt_number ON payments(receipt_number);
+CREATE INDEX IF NOT EXISTS idx_payments_received_by_at ON payments(received_by, received_at);
+
+COMMENT ON TABLE payments IS 'Payments received against visits; outstanding balance = visit bill items total - payments';
+
+-- =============================================================================
+-- 2. RLS Policies
+-- =============================================================================
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY payments_billing_staff ON payments
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'billing_officer')
+    )
+  );
@@ -0,0 +1,55 @@
+-- Migration: Mobile money push payments (M-Pesa, Tigo Pesa, Airtel Money)
+-- Run in Supabase SQL Editor or via: psql ... -f 011_mobile_money.sql
+-- Each push request sent to a patient's phone is tracked until the gateway confirms
+-- or fails it; a confirmed request becomes a MOBILE_MONEY payment carrying the
+-- network's transaction ID.
+
+-- =============================================================================
+-- 1. Network on payments
+-- =============================================================================
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS provider VARCHAR(30);
+
+COMMENT ON COLUMN payments.provider IS 'Mobile money network (MPESA, TIGOPESA, AIRTELMONEY) for MOBILE_MONEY payments';
+
+-- =============================================================================
+-- 2. Mobile money requests
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS mobile_money_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  visit_id UUID NOT NULL REFERENCES visits(id) ON DELETE RESTRICT,
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+  gateway VARCHAR(30) NOT NULL, -- Gateway that carried the request (mock, ...)
+  network VARCHAR(30) NOT NULL CHECK (network IN ('MPESA', 'TIGOPESA', 'AIRTELMONEY')),
+  msisdn VARCHAR(20) NOT NULL, -- 255XXXXXXXXX
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SUCCESS', 'FAILED')),
+  gateway_request_id VARCHAR(100), -- Checkout / conversation ID returned by the gateway
+  transaction_id VARCHAR(100), -- Network transaction ID once confirmed
+  failure_reason TEXT,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  callback_payload JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  requested_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mobile_money_requests_visit_id ON mobile_money_requests(visit_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mobile_money_requests_gateway_request ON mobile_money_requests(gateway, gateway_request_id);
+CREATE INDEX IF NOT EXISTS idx_mobile_money_requests_status ON mobile_money_requests(status) WHERE status = 'PENDING';
+
+COMMENT ON TABLE mobile_money_requests IS 'Mobile money push payment requests and their gateway outcome';
+
+-- =============================================================================
+-- 3. RLS Policies
+-- =============================================================================
+ALTER TABLE mobile_money_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY mobile_money_requests_billing_staff ON mobile_money_requests
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'billing_officer')
+    )
+  );
@@ -0,0 +1,57 @@
+-- Migration: Cashier shifts and Z-reports
+-- Run in Supabase SQL Editor or via: psql ... -f 012_cashier_shifts.sql
+-- A billing officer opens a shift with a cash float, every payment they take is
+-- recorded against it, and closing the shift with a counted-cash declaration
+-- freezes the Z-report (takings by payment method and payer, with variances).
+
+-- =============================================================================
+-- 1. Cashier Shifts
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS cashier_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_number VARCHAR(50) NOT NULL UNIQUE,
+  cashier_id UUID NOT NULL REFERENCES auth.users(id),
+  cashier_name VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CLOSED')),
+  opening_float NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opening_notes TEXT,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  counted_cash NUMERIC(12, 2) CHECK (counted_cash >= 0), -- Cash in the drawer at close, including the float
+  declared_totals JSONB, -- Card / mobile money settlement totals declared at close
+  expected_cash NUMERIC(12, 2), -- Float + cash taken
+  cash_variance NUMERIC(12, 2), -- Counted - expected (negative = short)
+  z_report JSONB, -- Snapshot of the Z-report at close
+  closing_notes TEXT,
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES auth.users(id)
+);
+
+-- One open shift per cashier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cashier_shifts_one_open ON cashier_shifts(cashier_id) WHERE status = 'OPEN';
+CREATE INDEX IF NOT EXISTS idx_cashier_shifts_opened_at ON cashier_shifts(opened_at DESC);
+
+COMMENT ON TABLE cashier_shifts IS 'Cashier shifts: opening float, counted cash at close and the frozen Z-report';
+
+-- =============================================================================
+-- 2. Payments belong to the shift they were taken in
+-- =============================================================================
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES cashier_shifts(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_payments_shift_id ON payments(shift_id);
+
+COMMENT ON COLUMN payments.shift_id IS 'Cashier shift the payment was taken in; NULL for gateway payments settled after the shift closed';
+
+-- =============================================================================
+-- 3. RLS Policies
+-- =============================================================================
+ALTER TABLE cashier_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY cashier_shifts_billing_staff ON cashier_shifts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'billing_officer')
+    )
+  );
@@ -0,0 +1,62 @@
+-- Migration: Voids, credit notes and refunds
+-- Run in Supabase SQL Editor or via: psql ... -f 013_bill_adjustments.sql
+-- Bill items are never deleted to correct a mistake. A void (before any payment)
+-- or credit note (after payment, with any overpayment refunded) is requested with
+-- a reason and takes effect only once a second person, a clinic manager, approves it.
+
+-- =============================================================================
+-- 1. Bill Adjustments
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS bill_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  adjustment_number VARCHAR(50) NOT NULL UNIQUE, -- VD-YYYYMMDD-NNNN / CN-YYYYMMDD-NNNN
+  type VARCHAR(20) NOT NULL CHECK (type IN ('VOID', 'CREDIT_NOTE')),
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  visit_id UUID NOT NULL REFERENCES visits(id) ON DELETE RESTRICT,
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+  bill_item_ref VARCHAR(255) NOT NULL, -- bill_items.external_id (or id), stable across bill rewrites
+  description VARCHAR(255) NOT NULL, -- Snapshot of the bill item
+  category VARCHAR(20) NOT NULL,
+  item_amount NUMERIC(12, 2) NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0), -- Amount taken off the bill
+  refund_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (refund_amount >= 0), -- Money paid back to the patient
+  refund_method VARCHAR(20) CHECK (refund_method IN ('CASH', 'CARD', 'MOBILE_MONEY')),
+  reason TEXT NOT NULL,
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  decided_by UUID REFERENCES auth.users(id),
+  decided_at TIMESTAMPTZ,
+  decision_notes TEXT,
+  shift_id UUID REFERENCES cashier_shifts(id) ON DELETE RESTRICT, -- Shift the refund was paid out of
+  CONSTRAINT bill_adjustments_second_approver CHECK (decided_by IS NULL OR decided_by <> requested_by)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_adjustments_visit_id ON bill_adjustments(visit_id);
+CREATE INDEX IF NOT EXISTS idx_bill_adjustments_status ON bill_adjustments(status);
+CREATE INDEX IF NOT EXISTS idx_bill_adjustments_requested_at ON bill_adjustments(requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_adjustments_shift_id ON bill_adjustments(shift_id);
+
+COMMENT ON TABLE bill_adjustments IS 'Voids and credit notes against bill items, each approved by a clinic manager other than the requester';
+
+-- =============================================================================
+-- 2. Voided bill items stay on the bill, flagged
+-- =============================================================================
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS void_adjustment_id UUID REFERENCES bill_adjustments(id) ON DELETE RESTRICT;
+
+COMMENT ON COLUMN bill_items.voided_at IS 'Set when an approved void removes the item from the bill total; the row is kept for audit';
+
+-- =============================================================================
+-- 3. RLS Policies
+-- =============================================================================
+ALTER TABLE bill_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY bill_adjustments_billing_staff ON bill_adjustments
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'billing_officer', 'pharmacist', 'optical_dispenser')
+    )
+  );
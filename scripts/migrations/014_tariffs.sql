@@ -0,0 +1,162 @@
+-- Migration: Tariff master (price list)
+-- Run in Supabase SQL Editor or via: psql ... -f 014_tariffs.sql
+-- Services, optical components and NHIF limits with effective-dated prices per payer
+-- (CASH, NHIF or a private insurer). Replaces the price constants compiled into the
+-- frontend; a price change is now a new tariff_prices row, not a redeploy.
+
+-- =============================================================================
+-- 1. Tariff Items
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS tariff_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL UNIQUE, -- Service code, e.g. EYE_CONSULTATION, LENS_SV_DISTANCE
+  name VARCHAR(255) NOT NULL,
+  category VARCHAR(20) NOT NULL CHECK (category IN ('CLINICAL', 'PHARMACY', 'OPTICAL')),
+  service_group VARCHAR(30) NOT NULL CHECK (service_group IN (
+    'CONSULTATION', 'TEST', 'PROCEDURE', 'LENS_TYPE', 'LENS_INDEX', 'EDGE_COLOR', 'COATING', 'FRAME', 'LIMIT'
+  )),
+  nhif_item_code VARCHAR(50), -- NHIF tariff item code printed on claim forms
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tariff_items_group ON tariff_items(service_group);
+
+COMMENT ON TABLE tariff_items IS 'Tariff master: billable services, optical components and NHIF limits';
+
+-- =============================================================================
+-- 2. Tariff Prices (effective-dated, per payer)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS tariff_prices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tariff_item_id UUID NOT NULL REFERENCES tariff_items(id) ON DELETE CASCADE,
+  payer VARCHAR(50) NOT NULL, -- CASH, NHIF or the insurer name (Britam, Jubilee, ...)
+  price NUMERIC(12, 2) NOT NULL CHECK (price >= 0), -- For NHIF, the amount NHIF reimburses (cap)
+  effective_from DATE NOT NULL,
+  effective_to DATE, -- NULL while current
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT tariff_prices_valid_range CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tariff_prices_item_payer_from ON tariff_prices(tariff_item_id, payer, effective_from);
+CREATE INDEX IF NOT EXISTS idx_tariff_prices_item_id ON tariff_prices(tariff_item_id);
+
+COMMENT ON TABLE tariff_prices IS 'Price of a tariff item for one payer over a date range; private insurers without their own price pay the CASH price';
+
+-- =============================================================================
+-- 3. Seed with the price list previously hard-coded in the frontend
+-- =============================================================================
+INSERT INTO tariff_items (code, name, category, service_group) VALUES
+  ('EYE_CONSULTATION', 'Eye Consultation', 'CLINICAL', 'CONSULTATION'),
+  ('VISION_TEST', 'Vision Test', 'CLINICAL', 'CONSULTATION'),
+  ('OPTICAL_REVIEW', 'Optical Review', 'CLINICAL', 'CONSULTATION'),
+  ('SPECIALIST_CONSULTATION', 'Specialist Consultation', 'CLINICAL', 'CONSULTATION'),
+  ('COMPREHENSIVE_EXAMINATION', 'Comprehensive Eye Examination', 'CLINICAL', 'CONSULTATION'),
+  ('BASIC_EXAMINATION', 'Basic Eye Examination', 'CLINICAL', 'CONSULTATION'),
+  ('VISUAL_ACUITY_TEST', 'Visual Acuity Test', 'CLINICAL', 'TEST'),
+  ('REFRACTION_TEST', 'Refraction Test', 'CLINICAL', 'TEST'),
+  ('INTRAOCULAR_PRESSURE_TEST', 'Intraocular Pressure Test', 'CLINICAL', 'TEST'),
+  ('FUNDOSCOPY', 'Fundoscopy', 'CLINICAL', 'TEST'),
+  ('SLIT_LAMP_EXAMINATION', 'Slit Lamp Examination', 'CLINICAL', 'TEST'),
+  ('MINOR_PROCEDURE', 'Minor Procedure', 'CLINICAL', 'PROCEDURE'),
+  ('MAJOR_PROCEDURE', 'Major Procedure', 'CLINICAL', 'PROCEDURE'),
+  ('LENS_SV_DISTANCE', 'Single Vision - Distance', 'OPTICAL', 'LENS_TYPE'),
+  ('LENS_SV_READING', 'Single Vision - Reading', 'OPTICAL', 'LENS_TYPE'),
+  ('LENS_BIFOCAL_FLAT_TOP', 'Bifocal - Flat Top', 'OPTICAL', 'LENS_TYPE'),
+  ('LENS_BIFOCAL_ROUND_TOP', 'Bifocal - Round Top', 'OPTICAL', 'LENS_TYPE'),
+  ('LENS_PROGRESSIVE_STD', 'Progressive - Standard', 'OPTICAL', 'LENS_TYPE'),
+  ('LENS_INDEX_150', '1.50 (Standard)', 'OPTICAL', 'LENS_INDEX'),
+  ('LENS_INDEX_156', '1.56 (Mid-Index)', 'OPTICAL', 'LENS_INDEX'),
+  ('LENS_INDEX_161', '1.61 (High-Index)', 'OPTICAL', 'LENS_INDEX'),
+  ('EDGE_CLEAR', 'Clear', 'OPTICAL', 'EDGE_COLOR'),
+  ('EDGE_SKY_BLUE', 'Sky Blue', 'OPTICAL', 'EDGE_COLOR'),
+  ('EDGE_FOREST_GREEN', 'Forest Green', 'OPTICAL', 'EDGE_COLOR'),
+  ('COATING_HARD', 'Hard Coat', 'OPTICAL', 'COATING'),
+  ('COATING_ANTI_REFLECTIVE', 'Anti-Reflective', 'OPTICAL', 'COATING'),
+  ('COATING_BLUE_CUT', 'Blue Cut', 'OPTICAL', 'COATING'),
+  ('FRAME', 'Frame', 'OPTICAL', 'FRAME'),
+  ('NHIF_OPTICAL_CEILING', 'NHIF optical reimbursement ceiling', 'OPTICAL', 'LIMIT')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO tariff_prices (tariff_item_id, payer, price, effective_from)
+SELECT ti.id, v.payer, v.price, DATE '2024-01-01'
+FROM (VALUES
+  ('EYE_CONSULTATION', 'CASH', 25000),
+  ('VISION_TEST', 'CASH', 15000),
+  ('OPTICAL_REVIEW', 'CASH', 20000),
+  ('SPECIALIST_CONSULTATION', 'CASH', 50000),
+  ('COMPREHENSIVE_EXAMINATION', 'CASH', 30000),
+  ('COMPREHENSIVE_EXAMINATION', 'NHIF', 30000),
+  ('BASIC_EXAMINATION', 'CASH', 15000),
+  ('VISUAL_ACUITY_TEST', 'CASH', 10000),
+  ('REFRACTION_TEST', 'CASH', 15000),
+  ('INTRAOCULAR_PRESSURE_TEST', 'CASH', 12000),
+  ('FUNDOSCOPY', 'CASH', 18000),
+  ('SLIT_LAMP_EXAMINATION', 'CASH', 15000),
+  ('MINOR_PROCEDURE', 'CASH', 30000),
+  ('MAJOR_PROCEDURE', 'CASH', 100000),
+  ('LENS_SV_DISTANCE', 'CASH', 20000),
+  ('LENS_SV_DISTANCE', 'NHIF', 20000),
+  ('LENS_SV_READING', 'CASH', 20000),
+  ('LENS_SV_READING', 'NHIF', 20000),
+  ('LENS_BIFOCAL_FLAT_TOP', 'CASH', 45000),
+  ('LENS_BIFOCAL_FLAT_TOP', 'NHIF', 40000),
+  ('LENS_BIFOCAL_ROUND_TOP', 'CASH', 45000),
+  ('LENS_BIFOCAL_ROUND_TOP', 'NHIF', 40000),
+  ('LENS_PROGRESSIVE_STD', 'CASH', 85000),
+  ('LENS_INDEX_150', 'CASH', 0),
+  ('LENS_INDEX_150', 'NHIF', 0),
+  ('LENS_INDEX_156', 'CASH', 15000),
+  ('LENS_INDEX_156', 'NHIF', 15000),
+  ('LENS_INDEX_161', 'CASH', 35000),
+  ('EDGE_CLEAR', 'CASH', 0),
+  ('EDGE_SKY_BLUE', 'CASH', 5000),
+  ('EDGE_FOREST_GREEN', 'CASH', 5000),
+  ('COATING_HARD', 'CASH', 10000),
+  ('COATING_HARD', 'NHIF', 10000),
+  ('COATING_ANTI_REFLECTIVE', 'CASH', 25000),
+  ('COATING_BLUE_CUT', 'CASH', 40000),
+  ('FRAME', 'NHIF', 30000),
+  ('NHIF_OPTICAL_CEILING', 'NHIF', 80000)
+) AS v(code, payer, price)
+JOIN tariff_items ti ON ti.code = v.code
+WHERE NOT EXISTS (
+  SELECT 1 FROM tariff_prices tp WHERE tp.tariff_item_id = ti.id AND tp.payer = v.payer
+);
+
+-- =============================================================================
+-- 4. RLS Policies
+-- =============================================================================
+ALTER TABLE tariff_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tariff_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tariff_items_read ON tariff_items
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY tariff_items_admin ON tariff_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role = 'super_admin'
+    )
+  );
+
+CREATE POLICY tariff_prices_read ON tariff_prices
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY tariff_prices_admin ON tariff_prices
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role = 'super_admin'
+    )
+  );
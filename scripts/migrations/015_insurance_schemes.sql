@@ -0,0 +1,72 @@
+-- Migration: Private insurer benefit schemes
+-- Run in Supabase SQL Editor or via: psql ... -f 015_insurance_schemes.sql
+-- Per-insurer, per-scheme benefit rules (coverage by bill category, annual optical
+-- limit, frame/lens caps, excluded service codes, fixed co-pay) replacing the flat 90%
+-- private coverage. Patients are linked to their scheme; bill items record the tariff
+-- code they were priced from so exclusions and caps can be matched.
+
+-- =============================================================================
+-- 1. Insurance Schemes
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS insurance_schemes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  insurer VARCHAR(50) NOT NULL, -- InsuranceProvider value, e.g. Britam, Jubilee
+  scheme_code VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  coverage_clinical NUMERIC(5, 4) NOT NULL DEFAULT 0.9 CHECK (coverage_clinical BETWEEN 0 AND 1),
+  coverage_pharmacy NUMERIC(5, 4) NOT NULL DEFAULT 0.9 CHECK (coverage_pharmacy BETWEEN 0 AND 1),
+  coverage_optical NUMERIC(5, 4) NOT NULL DEFAULT 0.9 CHECK (coverage_optical BETWEEN 0 AND 1),
+  annual_optical_limit NUMERIC(12, 2) CHECK (annual_optical_limit >= 0), -- NULL = no limit; per calendar year
+  frame_cap NUMERIC(12, 2) CHECK (frame_cap >= 0), -- Most the insurer pays for a frame
+  lens_cap NUMERIC(12, 2) CHECK (lens_cap >= 0), -- Most the insurer pays for lenses
+  copay_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (copay_amount >= 0), -- Fixed amount the patient pays per visit
+  excluded_codes TEXT[] NOT NULL DEFAULT '{}', -- Tariff service codes the scheme never covers
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT insurance_schemes_insurer_code UNIQUE (insurer, scheme_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_insurance_schemes_insurer ON insurance_schemes(insurer);
+
+COMMENT ON TABLE insurance_schemes IS 'Benefit rules of a private insurer scheme, evaluated per bill line at billing and optical pricing';
+
+-- =============================================================================
+-- 2. Patient scheme and bill item tariff code
+-- =============================================================================
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS insurance_scheme_id UUID REFERENCES insurance_schemes(id);
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS tariff_code VARCHAR(50);
+
+COMMENT ON COLUMN patients.insurance_scheme_id IS 'Private insurer scheme; NULL falls back to the default private coverage';
+COMMENT ON COLUMN bill_items.tariff_code IS 'Tariff service code the item was priced from (matched against scheme exclusions and caps)';
+
+-- =============================================================================
+-- 3. Seed a standard scheme per private insurer (the former flat 90% coverage)
+-- =============================================================================
+INSERT INTO insurance_schemes (insurer, scheme_code, name) VALUES
+  ('Britam', 'STANDARD', 'Britam Standard'),
+  ('Jubilee', 'STANDARD', 'Jubilee Standard'),
+  ('Strategis', 'STANDARD', 'Strategis Standard'),
+  ('Sanlam', 'STANDARD', 'Sanlam Standard'),
+  ('AAR', 'STANDARD', 'AAR Standard')
+ON CONFLICT (insurer, scheme_code) DO NOTHING;
+
+-- =============================================================================
+-- 4. RLS Policies
+-- =============================================================================
+ALTER TABLE insurance_schemes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY insurance_schemes_read ON insurance_schemes
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY insurance_schemes_admin ON insurance_schemes
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role = 'super_admin'
+    )
+  );
@@ -0,0 +1,62 @@
+-- Migration: Private insurance pre-authorizations
+-- Run in Supabase SQL Editor or via: psql ... -f 016_preauthorizations.sql
+-- Tariff items flagged as needing pre-authorization (e.g. progressive lenses, major
+-- procedures) cannot be billed to a private insurer until the insurer approves them.
+-- Each request lists the items and the insurer share asked for; the insurer's reply
+-- (approved, partially approved or declined, with its approval reference) is recorded
+-- against the visit and caps what may be billed to the insurer.
+
+-- =============================================================================
+-- 1. Tariff items needing pre-authorization
+-- =============================================================================
+ALTER TABLE tariff_items ADD COLUMN IF NOT EXISTS requires_preauth BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN tariff_items.requires_preauth IS 'Private insurers must approve this item before their share of it is billed';
+
+UPDATE tariff_items SET requires_preauth = true
+WHERE code IN ('LENS_PROGRESSIVE_STD', 'MAJOR_PROCEDURE');
+
+-- =============================================================================
+-- 2. Pre-authorizations
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS preauthorizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  preauth_number VARCHAR(50) NOT NULL UNIQUE, -- PA-YYYYMMDD-NNNN
+  visit_id UUID NOT NULL REFERENCES visits(id) ON DELETE RESTRICT,
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+  insurer VARCHAR(50) NOT NULL,
+  insurance_scheme_id UUID REFERENCES insurance_schemes(id) ON DELETE SET NULL,
+  items JSONB NOT NULL, -- [{ billItemId, description, tariffCode, amount }] amount = insurer share asked for
+  requested_amount NUMERIC(12, 2) NOT NULL CHECK (requested_amount > 0),
+  approved_amount NUMERIC(12, 2) CHECK (approved_amount >= 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'REQUESTED' CHECK (status IN ('REQUESTED', 'APPROVED', 'PARTIALLY_APPROVED', 'DECLINED')),
+  approval_reference VARCHAR(100), -- Insurer's authorization number
+  notes TEXT,
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  decided_by UUID REFERENCES auth.users(id),
+  decided_at TIMESTAMPTZ,
+  decision_notes TEXT,
+  CONSTRAINT preauthorizations_approved_within_request CHECK (approved_amount IS NULL OR approved_amount <= requested_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_preauthorizations_visit_id ON preauthorizations(visit_id);
+CREATE INDEX IF NOT EXISTS idx_preauthorizations_status ON preauthorizations(status);
+CREATE INDEX IF NOT EXISTS idx_preauthorizations_requested_at ON preauthorizations(requested_at DESC);
+
+COMMENT ON TABLE preauthorizations IS 'Private insurer pre-authorization requests per visit and the insurer''s decision on each';
+
+-- =============================================================================
+-- 3. RLS Policies
+-- =============================================================================
+ALTER TABLE preauthorizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY preauthorizations_billing_staff ON preauthorizations
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'billing_officer', 'claim_officer', 'optical_dispenser')
+    )
+  );
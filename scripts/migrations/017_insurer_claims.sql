@@ -0,0 +1,95 @@
+-- Migration: Private insurer claim batches
+-- Run in Supabase SQL Editor or via: psql ... -f 017_insurer_claims.sql
+-- Completed private insurance visits are claimed from their insurer in batches per
+-- insurer and date range. Each claim is the insurer share billed on the visit (its
+-- INSURANCE payments) and is tracked from submission through queries to payment.
+
+-- =============================================================================
+-- 1. Claim Batches (one per insurer per period)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS insurer_claim_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_number VARCHAR(50) NOT NULL UNIQUE, -- IC-YYYYMMDD-NNNN
+  insurer VARCHAR(50) NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'SUBMITTED', 'CLOSED')),
+  claim_count INTEGER NOT NULL DEFAULT 0,
+  total_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  submission_reference VARCHAR(100), -- Insurer's acknowledgement or courier reference
+  submitted_at TIMESTAMPTZ,
+  submitted_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  CONSTRAINT insurer_claim_batches_period CHECK (period_end >= period_start),
+  UNIQUE (insurer, period_start, period_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_insurer_claim_batches_insurer ON insurer_claim_batches(insurer);
+CREATE INDEX IF NOT EXISTS idx_insurer_claim_batches_status ON insurer_claim_batches(status);
+
+COMMENT ON TABLE insurer_claim_batches IS 'Private insurer claim batches, one per insurer and claim period';
+
+-- =============================================================================
+-- 2. Claims (one per completed private insurance visit)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS insurer_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES insurer_claim_batches(id) ON DELETE CASCADE,
+  visit_id UUID NOT NULL UNIQUE REFERENCES visits(id) ON DELETE RESTRICT, -- A visit is claimed once
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+  claim_no INTEGER NOT NULL, -- Sequential within the batch
+  member_number VARCHAR(100),
+  member_name VARCHAR(255),
+  insurance_scheme_id UUID REFERENCES insurance_schemes(id) ON DELETE SET NULL,
+  visit_date DATE NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb, -- Snapshot of insurer-covered bill items at claim creation
+  preauth_references TEXT[] NOT NULL DEFAULT '{}', -- Insurer approval references for pre-authorized items
+  bill_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (bill_amount >= 0), -- Gross of the claimed items
+  total_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0), -- Insurer share claimed
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SUBMITTED', 'QUERIED', 'PAID', 'REJECTED')),
+  query_notes TEXT, -- Insurer's latest query on the claim
+  rejection_reason TEXT,
+  paid_amount NUMERIC(12, 2) CHECK (paid_amount >= 0),
+  paid_at TIMESTAMPTZ,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  UNIQUE (batch_id, claim_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_insurer_claims_batch_id ON insurer_claims(batch_id);
+CREATE INDEX IF NOT EXISTS idx_insurer_claims_patient_id ON insurer_claims(patient_id);
+CREATE INDEX IF NOT EXISTS idx_insurer_claims_status ON insurer_claims(status);
+
+COMMENT ON TABLE insurer_claims IS 'Private insurer claims - one per completed private insurance visit, tracked from submission to payment';
+
+-- =============================================================================
+-- 3. RLS Policies
+-- =============================================================================
+ALTER TABLE insurer_claim_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE insurer_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY insurer_claim_batches_claims_staff ON insurer_claim_batches
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'claim_officer')
+    )
+  );
+
+CREATE POLICY insurer_claims_claims_staff ON insurer_claims
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'claim_officer')
+    )
+  );
@@ -0,0 +1,49 @@
+-- Migration: Debt write-offs
+-- Run in Supabase SQL Editor or via: psql ... -f 018_ar_write_offs.sql
+-- Money owed to the clinic comes from the visit ledger: the patient owes the visit's
+-- outstanding balance, the insurer owes its recorded share until the claim is paid.
+-- Debt that will not be collected is written off with a reason, and only once a
+-- clinic manager other than the requester approves it.
+
+-- =============================================================================
+-- 1. Write-offs
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS ar_write_offs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  write_off_number VARCHAR(50) NOT NULL UNIQUE, -- WO-YYYYMMDD-NNNN
+  debtor_type VARCHAR(20) NOT NULL CHECK (debtor_type IN ('PATIENT', 'INSURER')),
+  insurer VARCHAR(100), -- Insurer whose debt is written off (INSURER write-offs)
+  visit_id UUID NOT NULL REFERENCES visits(id) ON DELETE RESTRICT,
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  decided_by UUID REFERENCES auth.users(id),
+  decided_at TIMESTAMPTZ,
+  decision_notes TEXT,
+  CONSTRAINT ar_write_offs_insurer CHECK (debtor_type = 'PATIENT' OR insurer IS NOT NULL),
+  CONSTRAINT ar_write_offs_second_approver CHECK (decided_by IS NULL OR decided_by <> requested_by)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ar_write_offs_visit_id ON ar_write_offs(visit_id);
+CREATE INDEX IF NOT EXISTS idx_ar_write_offs_status ON ar_write_offs(status);
+CREATE INDEX IF NOT EXISTS idx_ar_write_offs_requested_at ON ar_write_offs(requested_at DESC);
+
+COMMENT ON TABLE ar_write_offs IS 'Uncollectable patient or insurer debt on a visit, written off once a clinic manager other than the requester approves';
+
+-- =============================================================================
+-- 2. RLS Policies
+-- =============================================================================
+ALTER TABLE ar_write_offs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY ar_write_offs_finance_staff ON ar_write_offs
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'billing_officer', 'claim_officer')
+    )
+  );
@@ -0,0 +1,48 @@
+-- Migration: TRA fiscal receipts (EFD / VFD)
+-- Run in Supabase SQL Editor or via: psql ... -f 019_fiscal_receipts.sql
+-- Every receipt the patient paid on (cash, card or mobile money) is registered with
+-- the fiscal device or TRA VFD API. The verification code and URL it returns are
+-- printed on the receipt; receipts that could not be fiscalised wait in a retry queue.
+
+-- =============================================================================
+-- 1. Fiscal receipts (one per receipt number)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS fiscal_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number VARCHAR(50) NOT NULL UNIQUE, -- payments.receipt_number
+  visit_id UUID NOT NULL REFERENCES visits(id) ON DELETE RESTRICT,
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+  device VARCHAR(30) NOT NULL, -- Adapter that registered it (emulator, vfd, ...)
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0), -- Amount paid by the patient on the receipt
+  payload JSONB NOT NULL, -- Receipt as sent to the device
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'FISCALISED', 'FAILED')),
+  verification_code VARCHAR(100), -- RCTVNUM returned by the device
+  verification_url TEXT, -- Printed as a QR code on the receipt
+  z_number VARCHAR(30), -- Daily Z report the receipt falls in
+  fiscal_counter INTEGER, -- Device global counter
+  fiscalised_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ, -- When a FAILED receipt is next retried
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fiscal_receipts_visit_id ON fiscal_receipts(visit_id);
+CREATE INDEX IF NOT EXISTS idx_fiscal_receipts_retry ON fiscal_receipts(next_attempt_at) WHERE status = 'FAILED';
+
+COMMENT ON TABLE fiscal_receipts IS 'Receipts registered with the TRA fiscal device / VFD, with their verification code or retry state';
+
+-- =============================================================================
+-- 2. RLS Policies
+-- =============================================================================
+ALTER TABLE fiscal_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY fiscal_receipts_billing_staff ON fiscal_receipts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager', 'billing_officer')
+    )
+  );
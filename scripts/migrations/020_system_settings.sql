@@ -0,0 +1,36 @@
+-- Migration: System settings
+-- Run in Supabase SQL Editor or via: psql ... -f 020_system_settings.sql
+-- Clinic details printed on documents, working hours used for appointment times and
+-- system-wide toggles, saved from System Settings. One row per setting; settings
+-- without a row fall back to the defaults in server/settings.js.
+
+-- =============================================================================
+-- 1. System settings
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS system_settings (
+  key VARCHAR(50) PRIMARY KEY, -- e.g. clinic_name, working_hours_start, enable_audit_logging
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE system_settings IS 'System-wide settings (clinic details, working hours, toggles) as key / JSON value pairs';
+
+-- =============================================================================
+-- 2. RLS Policies
+-- =============================================================================
+ALTER TABLE system_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY system_settings_read ON system_settings
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY system_settings_admin ON system_settings
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role = 'super_admin'
+    )
+  );
@@ -0,0 +1,104 @@
+-- Migration: Appointment book
+-- Run in Supabase SQL Editor or via: psql ... -f 021_appointment_book.sql
+-- Appointments move off the single `appointment` JSON on patients into the
+-- `appointments` table, so a patient can hold any number of bookings. Each booking
+-- belongs to a provider and lasts the slot length for its appointment type; a
+-- provider's weekly working template sets when they can be booked, and the database
+-- refuses two live bookings for one provider that overlap. Every booking, reschedule,
+-- cancellation and status change is kept in appointment_history.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- =============================================================================
+-- 1. Appointments: provider, length and booking details
+-- =============================================================================
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS provider_id UUID REFERENCES providers(id) ON DELETE RESTRICT;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS duration_minutes INTEGER NOT NULL DEFAULT 30 CHECK (duration_minutes > 0);
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS cancel_reason TEXT;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id);
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_provider_date ON appointments(provider_id, appointment_date);
+
+COMMENT ON COLUMN appointments.provider_id IS 'Provider the appointment is booked with (providers.id)';
+COMMENT ON COLUMN appointments.duration_minutes IS 'Slot length, set from the appointment type when booked';
+
+-- A provider cannot hold two live appointments whose times overlap
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_no_double_booking;
+ALTER TABLE appointments ADD CONSTRAINT appointments_no_double_booking
+  EXCLUDE USING gist (
+    provider_id WITH =,
+    tsrange(
+      appointment_date + appointment_time,
+      appointment_date + appointment_time + make_interval(mins => duration_minutes)
+    ) WITH &&
+  )
+  WHERE (provider_id IS NOT NULL AND status <> 'CANCELLED');
+
+-- =============================================================================
+-- 2. Provider working templates
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS provider_schedule_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT provider_schedule_templates_valid_hours CHECK (end_time > start_time),
+  UNIQUE (provider_id, weekday, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_schedule_templates_provider ON provider_schedule_templates(provider_id);
+
+COMMENT ON TABLE provider_schedule_templates IS 'Weekly hours each provider can be booked; several blocks a day allow for breaks';
+
+-- =============================================================================
+-- 3. Appointment history
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS appointment_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('BOOKED', 'RESCHEDULED', 'CANCELLED', 'STATUS_CHANGED')),
+  from_date DATE,
+  from_time TIME,
+  from_provider_id UUID REFERENCES providers(id) ON DELETE SET NULL,
+  to_date DATE,
+  to_time TIME,
+  to_provider_id UUID REFERENCES providers(id) ON DELETE SET NULL,
+  from_status VARCHAR(50),
+  to_status VARCHAR(50),
+  reason TEXT,
+  changed_by UUID REFERENCES auth.users(id),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_history_appointment ON appointment_history(appointment_id, changed_at);
+
+COMMENT ON TABLE appointment_history IS 'Bookings, reschedules, cancellations and status changes of each appointment';
+
+-- =============================================================================
+-- 4. RLS Policies
+-- =============================================================================
+ALTER TABLE provider_schedule_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointment_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY provider_schedule_templates_read ON provider_schedule_templates
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY provider_schedule_templates_admin ON provider_schedule_templates
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('super_admin', 'clinic_manager')
+    )
+  );
+
+CREATE POLICY appointment_history_read ON appointment_history
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
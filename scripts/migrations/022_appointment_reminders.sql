@@ -0,0 +1,74 @@
+-- Migration: Appointment SMS reminders
+-- Run in Supabase SQL Editor or via: psql ... -f 022_appointment_reminders.sql
+-- Each booked appointment gets reminder texts 24 hours and 2 hours before it, in the
+-- language chosen at booking (English or Swahili), sent to the patient's phone through
+-- the SMS gateway. Delivery status is kept per reminder. Patients can reply CONFIRM or
+-- CANCEL; replies are logged and update the appointment.
+
+-- =============================================================================
+-- 1. Reminder language on appointments
+-- =============================================================================
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS reminder_language VARCHAR(2) NOT NULL DEFAULT 'sw'
+  CHECK (reminder_language IN ('en', 'sw'));
+
+COMMENT ON COLUMN appointments.reminder_language IS 'Language of SMS reminders for this appointment (en, sw)';
+
+-- =============================================================================
+-- 2. Appointment reminders
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('24H', '2H')), -- How long before the appointment it is sent
+  send_at TIMESTAMPTZ NOT NULL,
+  phone VARCHAR(20), -- 255XXXXXXXXX the reminder was (or will be) sent to
+  message TEXT, -- Text as sent
+  status VARCHAR(20) NOT NULL DEFAULT 'SCHEDULED'
+    CHECK (status IN ('SCHEDULED', 'SENDING', 'SENT', 'DELIVERED', 'FAILED', 'SKIPPED', 'CANCELLED')),
+  gateway VARCHAR(30),
+  gateway_message_id VARCHAR(100),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_appointment ON appointment_reminders(appointment_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_due ON appointment_reminders(send_at) WHERE status = 'SCHEDULED';
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_gateway_message ON appointment_reminders(gateway, gateway_message_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_phone ON appointment_reminders(phone, sent_at DESC);
+
+COMMENT ON TABLE appointment_reminders IS 'SMS reminders per appointment with their send and delivery status';
+
+-- =============================================================================
+-- 3. SMS replies
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS sms_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  gateway VARCHAR(30) NOT NULL,
+  phone VARCHAR(20) NOT NULL,
+  body TEXT NOT NULL,
+  keyword VARCHAR(20), -- CONFIRM, CANCEL or null when not recognised
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  outcome TEXT, -- What the reply did, e.g. "Appointment confirmed"
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_replies_appointment ON sms_replies(appointment_id);
+
+COMMENT ON TABLE sms_replies IS 'Inbound SMS replies to appointment reminders and what each one changed';
+
+-- =============================================================================
+-- 4. RLS Policies
+-- =============================================================================
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY appointment_reminders_read ON appointment_reminders
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY sms_replies_read ON sms_replies
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
@@ -0,0 +1,72 @@
+-- Migration: Appointment attendance and waitlist
+-- Run in Supabase SQL Editor or via: psql ... -f 023_appointment_attendance_waitlist.sql
+-- Appointments record when the patient checked in. One not checked in shortly after
+-- its start becomes LATE, and one whose slot has passed becomes NO_SHOW. Patients who
+-- want an earlier appointment wait on appointment_waitlist and are offered slots
+-- freed by cancellations, emergencies first and then in the order they asked.
+
+-- =============================================================================
+-- 1. Appointments: LATE / NO_SHOW and check-in time
+-- =============================================================================
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+ALTER TABLE appointments ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('SCHEDULED', 'CONFIRMED', 'LATE', 'COMPLETED', 'CANCELLED', 'NO_SHOW'));
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN appointments.checked_in_at IS 'When the patient was checked in at Registration for this appointment';
+
+-- A missed appointment no longer holds its slot
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_no_double_booking;
+ALTER TABLE appointments ADD CONSTRAINT appointments_no_double_booking
+  EXCLUDE USING gist (
+    provider_id WITH =,
+    tsrange(
+      appointment_date + appointment_time,
+      appointment_date + appointment_time + make_interval(mins => duration_minutes)
+    ) WITH &&
+  )
+  WHERE (provider_id IS NOT NULL AND status NOT IN ('CANCELLED', 'NO_SHOW'));
+
+-- Used by the no-show counts and report
+CREATE INDEX IF NOT EXISTS idx_appointments_patient_status ON appointments(patient_id, status);
+
+ALTER TABLE appointment_history DROP CONSTRAINT IF EXISTS appointment_history_action_check;
+ALTER TABLE appointment_history ADD CONSTRAINT appointment_history_action_check
+  CHECK (action IN ('BOOKED', 'RESCHEDULED', 'CANCELLED', 'STATUS_CHANGED', 'CHECKED_IN'));
+
+-- =============================================================================
+-- 2. Waitlist
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS appointment_waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  appointment_type VARCHAR(100) NOT NULL,
+  provider_id UUID REFERENCES providers(id) ON DELETE SET NULL, -- NULL = any provider
+  earliest_date DATE NOT NULL,
+  latest_date DATE,
+  priority VARCHAR(50) NOT NULL DEFAULT 'Normal' CHECK (priority IN ('Normal', 'Emergency')),
+  notes TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'WAITING' CHECK (status IN ('WAITING', 'BOOKED', 'REMOVED')),
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMPTZ,
+  CONSTRAINT appointment_waitlist_valid_dates CHECK (latest_date IS NULL OR latest_date >= earliest_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_waiting ON appointment_waitlist(created_at) WHERE status = 'WAITING';
+CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_patient ON appointment_waitlist(patient_id);
+
+COMMENT ON TABLE appointment_waitlist IS 'Patients waiting for an earlier appointment; offered freed slots in priority order';
+COMMENT ON COLUMN appointment_waitlist.appointment_id IS 'Appointment booked for the patient from the waitlist';
+
+-- =============================================================================
+-- 3. RLS Policies
+-- =============================================================================
+ALTER TABLE appointment_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY appointment_waitlist_read ON appointment_waitlist
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
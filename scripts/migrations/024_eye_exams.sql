@@ -0,0 +1,84 @@
+-- Migration: Structured eye examinations
+-- Run in Supabase SQL Editor or via: psql ... -f 024_eye_exams.sql
+-- One typed examination record per encounter, replacing the visual acuity, IOP, pupil,
+-- segment and refraction values that used to be folded into the consultation notes.
+-- Each measurement is kept per eye (OD / OS) in a fixed unit so it can be charted and
+-- reported across visits.
+
+-- =============================================================================
+-- 1. Eye examinations
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS eye_exams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  visit_id UUID NOT NULL UNIQUE REFERENCES visits(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  provider_id UUID REFERENCES providers(id) ON DELETE SET NULL,
+
+  -- Visual acuity as recorded: Snellen (6/9, 20/30) or CF / HM / PL / NPL; near in N-point (N6)
+  va_distance_od VARCHAR(10),
+  va_distance_os VARCHAR(10),
+  va_near_od VARCHAR(10),
+  va_near_os VARCHAR(10),
+  va_pinhole_od VARCHAR(10),
+  va_pinhole_os VARCHAR(10),
+
+  -- Intraocular pressure (mmHg)
+  iop_od NUMERIC(4,1) CHECK (iop_od BETWEEN 0 AND 80),
+  iop_os NUMERIC(4,1) CHECK (iop_os BETWEEN 0 AND 80),
+  tonometry_method VARCHAR(40) CHECK (tonometry_method IN (
+    'Goldmann Applanation', 'Non-Contact Tonometry (NCT)', 'Tono-Pen', 'iCare', 'Pneumatonometry'
+  )),
+  is_dilated BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Pupils (size in mm)
+  pupil_size_od NUMERIC(3,1) CHECK (pupil_size_od BETWEEN 1 AND 10),
+  pupil_size_os NUMERIC(3,1) CHECK (pupil_size_os BETWEEN 1 AND 10),
+  pupil_reaction_od VARCHAR(100),
+  pupil_reaction_os VARCHAR(100),
+  pupils TEXT,
+  extraocular_movements TEXT,
+
+  -- Segments
+  anterior_segment TEXT,
+  posterior_segment TEXT,
+  slit_lamp TEXT,
+  cup_disc_ratio_od NUMERIC(3,2) CHECK (cup_disc_ratio_od BETWEEN 0 AND 1),
+  cup_disc_ratio_os NUMERIC(3,2) CHECK (cup_disc_ratio_os BETWEEN 0 AND 1),
+
+  -- Refraction (dioptres, axis in degrees, prism in prism dioptres, PD in mm)
+  sphere_od NUMERIC(5,2) CHECK (sphere_od BETWEEN -30 AND 30),
+  sphere_os NUMERIC(5,2) CHECK (sphere_os BETWEEN -30 AND 30),
+  cylinder_od NUMERIC(5,2) CHECK (cylinder_od BETWEEN -10 AND 10),
+  cylinder_os NUMERIC(5,2) CHECK (cylinder_os BETWEEN -10 AND 10),
+  axis_od SMALLINT CHECK (axis_od BETWEEN 1 AND 180),
+  axis_os SMALLINT CHECK (axis_os BETWEEN 1 AND 180),
+  add_od NUMERIC(4,2) CHECK (add_od BETWEEN 0.25 AND 4),
+  add_os NUMERIC(4,2) CHECK (add_os BETWEEN 0.25 AND 4),
+  prism_od NUMERIC(4,2) CHECK (prism_od BETWEEN 0 AND 20),
+  prism_os NUMERIC(4,2) CHECK (prism_os BETWEEN 0 AND 20),
+  prism_base_od VARCHAR(2) CHECK (prism_base_od IN ('BI', 'BO', 'BU', 'BD')),
+  prism_base_os VARCHAR(2) CHECK (prism_base_os IN ('BI', 'BO', 'BU', 'BD')),
+  pupillary_distance_mm NUMERIC(4,1) CHECK (pupillary_distance_mm BETWEEN 40 AND 80),
+
+  created_by UUID REFERENCES auth.users(id),
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_eye_exams_patient_created ON eye_exams(patient_id, created_at DESC);
+
+COMMENT ON TABLE eye_exams IS 'Structured eye examination per encounter, values per eye in fixed units';
+COMMENT ON COLUMN eye_exams.iop_od IS 'Right eye intraocular pressure in mmHg';
+COMMENT ON COLUMN eye_exams.iop_os IS 'Left eye intraocular pressure in mmHg';
+COMMENT ON COLUMN eye_exams.cup_disc_ratio_od IS 'Right eye vertical cup-to-disc ratio (0 to 1)';
+COMMENT ON COLUMN eye_exams.cup_disc_ratio_os IS 'Left eye vertical cup-to-disc ratio (0 to 1)';
+
+-- =============================================================================
+-- 2. RLS Policies
+-- =============================================================================
+ALTER TABLE eye_exams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY eye_exams_read ON eye_exams
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
@@ -0,0 +1,40 @@
+-- Migration: Eye exam trends
+-- Run in Supabase SQL Editor or via: psql ... -f 025_eye_exam_trends.sql
+-- Best-corrected visual acuity on the structured eye exam, so vision can be charted in
+-- logMAR across visits, and a target IOP band per patient for glaucoma follow-up.
+
+-- =============================================================================
+-- 1. Best-corrected visual acuity
+-- =============================================================================
+ALTER TABLE eye_exams ADD COLUMN IF NOT EXISTS va_best_corrected_od VARCHAR(10);
+ALTER TABLE eye_exams ADD COLUMN IF NOT EXISTS va_best_corrected_os VARCHAR(10);
+
+COMMENT ON COLUMN eye_exams.va_best_corrected_od IS 'Right eye best-corrected distance acuity (Snellen or CF / HM / PL / NPL)';
+COMMENT ON COLUMN eye_exams.va_best_corrected_os IS 'Left eye best-corrected distance acuity (Snellen or CF / HM / PL / NPL)';
+
+-- =============================================================================
+-- 2. Target IOP per patient
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS iop_targets (
+  patient_id UUID PRIMARY KEY REFERENCES patients(id) ON DELETE CASCADE,
+  od_low NUMERIC(4,1) CHECK (od_low BETWEEN 0 AND 80),
+  od_high NUMERIC(4,1) CHECK (od_high BETWEEN 0 AND 80),
+  os_low NUMERIC(4,1) CHECK (os_low BETWEEN 0 AND 80),
+  os_high NUMERIC(4,1) CHECK (os_high BETWEEN 0 AND 80),
+  notes TEXT,
+  set_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (od_low IS NULL OR od_high IS NULL OR od_low < od_high),
+  CHECK (os_low IS NULL OR os_high IS NULL OR os_low < os_high)
+);
+
+COMMENT ON TABLE iop_targets IS 'Target intraocular pressure band (mmHg) per eye set by the treating clinician';
+
+-- =============================================================================
+-- 3. RLS Policies
+-- =============================================================================
+ALTER TABLE iop_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY iop_targets_read ON iop_targets
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
@@ -0,0 +1,26 @@
+-- Migration: Printed prescriptions
+-- Run in Supabase SQL Editor or via: psql ... -f 026_prescription_documents.sql
+-- The prescriber's council registration number, printed under their name, and a short
+-- verification code per prescription so an optical lab or pharmacy can scan the QR code
+-- on the printout and confirm the prescription was issued here.
+
+-- =============================================================================
+-- 1. Prescriber registration number
+-- =============================================================================
+ALTER TABLE providers ADD COLUMN IF NOT EXISTS registration_number VARCHAR(50);
+
+COMMENT ON COLUMN providers.registration_number IS 'Professional council registration number, printed on prescriptions';
+
+-- =============================================================================
+-- 2. Prescription verification code
+-- =============================================================================
+ALTER TABLE prescriptions ADD COLUMN IF NOT EXISTS verification_code VARCHAR(12)
+  DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 10));
+
+UPDATE prescriptions
+SET verification_code = upper(substr(md5(gen_random_uuid()::text), 1, 10))
+WHERE verification_code IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prescriptions_verification_code ON prescriptions(verification_code);
+
+COMMENT ON COLUMN prescriptions.verification_code IS 'Code encoded in the QR on printed prescriptions; looked up by the public verify endpoint';
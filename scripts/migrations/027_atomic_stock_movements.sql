@@ -0,0 +1,148 @@
+-- Migration: Atomic stock movements
+-- Run in Supabase SQL Editor or via: psql ... -f 027_atomic_stock_movements.sql
+-- Stock changes used to be read, changed in the API and written back, so two dispenses
+-- of the same medication at once lost one update and the ledger balance drifted from
+-- medications.stock. These functions move stock inside one transaction with the
+-- medication and batch rows locked; a dispense either moves every line or none.
+
+-- =============================================================================
+-- 1. Single movement (receipt, adjustment, one dispensed batch)
+-- =============================================================================
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_medication_id UUID,
+  p_batch_id UUID,
+  p_movement_type VARCHAR,
+  p_quantity INTEGER,
+  p_reason VARCHAR DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_grn_id UUID DEFAULT NULL,
+  p_patient_id UUID DEFAULT NULL,
+  p_visit_id UUID DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_stock INTEGER;
+  v_remaining INTEGER;
+  v_balance INTEGER;
+BEGIN
+  -- Medication first, then batch: every caller locks in this order
+  SELECT COALESCE(stock, 0) INTO v_stock FROM medications WHERE id = p_medication_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Medication not found';
+  END IF;
+
+  SELECT quantity_remaining INTO v_remaining
+  FROM medication_batches
+  WHERE id = p_batch_id AND medication_id = p_medication_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch not found';
+  END IF;
+
+  v_balance := v_stock + p_quantity;
+  IF v_balance < 0 OR v_remaining + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Stock cannot go below zero';
+  END IF;
+
+  UPDATE medication_batches
+  SET quantity_remaining = v_remaining + p_quantity, updated_at = NOW(), updated_by = p_user_id
+  WHERE id = p_batch_id;
+
+  UPDATE medications
+  SET stock = v_balance, updated_at = NOW(), updated_by = p_user_id
+  WHERE id = p_medication_id;
+
+  INSERT INTO stock_movements (
+    medication_id, batch_id, movement_type, quantity, balance_after,
+    reason, notes, grn_id, patient_id, visit_id, created_by
+  ) VALUES (
+    p_medication_id, p_batch_id, p_movement_type, p_quantity, v_balance,
+    p_reason, p_notes, p_grn_id, p_patient_id, p_visit_id, p_user_id
+  );
+
+  RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_stock_movement IS 'Apply one signed stock change to a batch, update medications.stock and write the ledger entry atomically; returns the new on-hand balance';
+
+-- =============================================================================
+-- 2. FEFO dispense of a whole prescription
+-- =============================================================================
+-- p_items: [{ "medicationId": "...", "quantity": 2 }, ...]; repeated medications are merged.
+-- p_today is the clinic-local date; batches expiring before it are never picked.
+CREATE OR REPLACE FUNCTION dispense_stock(
+  p_items JSONB,
+  p_today DATE,
+  p_patient_id UUID DEFAULT NULL,
+  p_visit_id UUID DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_item RECORD;
+  v_batch RECORD;
+  v_available INTEGER;
+  v_outstanding INTEGER;
+  v_take INTEGER;
+  v_balance INTEGER;
+  v_name VARCHAR;
+  v_allocations JSONB := '[]'::jsonb;
+BEGIN
+  -- Medications in id order so concurrent dispenses lock them in the same order
+  FOR v_item IN
+    SELECT (line->>'medicationId')::UUID AS medication_id, SUM((line->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT name INTO v_name FROM medications WHERE id = v_item.medication_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medication not found';
+    END IF;
+
+    SELECT COALESCE(SUM(quantity_remaining), 0) INTO v_available
+    FROM medication_batches
+    WHERE medication_id = v_item.medication_id
+      AND quantity_remaining > 0
+      AND (expiry_date IS NULL OR expiry_date >= p_today);
+
+    IF v_available < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient in-date stock for %: % available, % requested',
+        COALESCE(v_name, 'medication'), v_available, v_item.quantity;
+    END IF;
+
+    v_outstanding := v_item.quantity;
+    FOR v_batch IN
+      SELECT id, batch_no, expiry_date, quantity_remaining
+      FROM medication_batches
+      WHERE medication_id = v_item.medication_id
+        AND quantity_remaining > 0
+        AND (expiry_date IS NULL OR expiry_date >= p_today)
+      ORDER BY expiry_date ASC NULLS LAST, created_at ASC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_outstanding = 0;
+      v_take := LEAST(v_batch.quantity_remaining, v_outstanding);
+      v_balance := record_stock_movement(
+        v_item.medication_id, v_batch.id, 'DISPENSE', -v_take,
+        NULL, NULL, NULL, p_patient_id, p_visit_id, p_user_id
+      );
+      v_allocations := v_allocations || jsonb_build_object(
+        'medicationId', v_item.medication_id,
+        'batchId', v_batch.id,
+        'batchNo', v_batch.batch_no,
+        'expiryDate', v_batch.expiry_date,
+        'quantity', v_take,
+        'balanceAfter', v_balance
+      );
+      v_outstanding := v_outstanding - v_take;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_allocations;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION dispense_stock IS 'Dispense every line of a prescription first-expiry-first-out in one transaction; raises (moving nothing) when any line is short';
@@ -0,0 +1,43 @@
+-- Migration: Document number counters
+-- Run in Supabase SQL Editor or via: psql ... -f 028_document_counters.sql
+-- Receipt numbers used to be the day's highest number plus one, read and written in
+-- separate steps, so two cashiers paying at the same moment could print the same
+-- receipt number. Each numbering prefix now has a counter row that is incremented
+-- atomically, so every call gets a number nobody else has.
+
+-- =============================================================================
+-- 1. Counters
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS document_counters (
+  prefix VARCHAR(50) PRIMARY KEY, -- e.g. RCP-20261019-
+  last_value INTEGER NOT NULL DEFAULT 0
+);
+
+COMMENT ON TABLE document_counters IS 'Last number issued for each document number prefix';
+
+-- Carry on from the receipts already issued
+INSERT INTO document_counters (prefix, last_value)
+SELECT LEFT(receipt_number, 13), MAX(SUBSTRING(receipt_number FROM 14)::INTEGER)
+FROM payments
+WHERE receipt_number ~ '^RCP-[0-9]{8}-[0-9]+$'
+GROUP BY 1
+ON CONFLICT (prefix) DO UPDATE SET last_value = GREATEST(document_counters.last_value, EXCLUDED.last_value);
+
+-- =============================================================================
+-- 2. Next number
+-- =============================================================================
+CREATE OR REPLACE FUNCTION next_document_number(p_prefix VARCHAR)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_value INTEGER;
+BEGIN
+  INSERT INTO document_counters (prefix, last_value)
+  VALUES (p_prefix, 1)
+  ON CONFLICT (prefix) DO UPDATE SET last_value = document_counters.last_value + 1
+  RETURNING last_value INTO v_value;
+
+  RETURN p_prefix || LPAD(v_value::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION next_document_number IS 'Issue the next number for a prefix (prefix || NNNN); concurrent callers never get the same number';
@@ -0,0 +1,15 @@
+-- Migration: Longer prescription verification codes
+-- Run in Supabase SQL Editor or via: psql ... -f 029_prescription_verification_codes.sql
+-- The public verify endpoint looks prescriptions up by the code in the QR, so the code
+-- must not be guessable. New prescriptions get 32 random hex characters (a v4 UUID)
+-- instead of 10; codes already printed keep working.
+
+-- =============================================================================
+-- 1. Prescription verification code
+-- =============================================================================
+ALTER TABLE prescriptions ALTER COLUMN verification_code TYPE VARCHAR(32);
+
+ALTER TABLE prescriptions ALTER COLUMN verification_code
+  SET DEFAULT upper(replace(gen_random_uuid()::text, '-', ''));
+
+COMMENT ON COLUMN prescriptions.verification_code IS 'Code encoded in the QR on printed prescriptions (32 hex characters; 10 before migration 029); looked up by the public verify endpoint';
@@ -0,0 +1,14 @@
+-- Migration: Mobile money requests keep the cashier's shift
+-- Run in Supabase SQL Editor or via: psql ... -f 030_mobile_money_request_shift.sql
+-- A push payment can be confirmed after the cashier who sent it has closed their
+-- shift. The shift is now recorded when the request is sent, and the payment is
+-- taken into that shift whenever the network confirms it.
+
+-- =============================================================================
+-- 1. Shift on the request
+-- =============================================================================
+ALTER TABLE mobile_money_requests ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES cashier_shifts(id) ON DELETE RESTRICT;
+
+COMMENT ON COLUMN mobile_money_requests.shift_id IS 'Cashier shift open when the request was sent; the confirmed payment is recorded against it';
+
+COMMENT ON COLUMN payments.shift_id IS 'Cashier shift the payment was taken in; for mobile money, the shift the request was sent from';
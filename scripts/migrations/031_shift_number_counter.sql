@@ -0,0 +1,37 @@
+-- Migration: Shift numbers from the document counter
+-- Run in Supabase SQL Editor or via: psql ... -f 031_shift_number_counter.sql
+-- Shift numbers were the count of the day's shifts plus one, so two cashiers opening
+-- a shift at once got the same number and one of them failed on the unique index.
+-- They now come from next_document_number (migration 028), which takes the number
+-- of digits so shift numbers keep their two-digit suffix.
+
+-- =============================================================================
+-- 1. Counters carry on from the shifts already opened
+-- =============================================================================
+INSERT INTO document_counters (prefix, last_value)
+SELECT LEFT(shift_number, 13), MAX(SUBSTRING(shift_number FROM 14)::INTEGER)
+FROM cashier_shifts
+WHERE shift_number ~ '^SHF-[0-9]{8}-[0-9]+$'
+GROUP BY 1
+ON CONFLICT (prefix) DO UPDATE SET last_value = GREATEST(document_counters.last_value, EXCLUDED.last_value);
+
+-- =============================================================================
+-- 2. Next number, with the suffix width
+-- =============================================================================
+DROP FUNCTION IF EXISTS next_document_number(VARCHAR);
+
+CREATE OR REPLACE FUNCTION next_document_number(p_prefix VARCHAR, p_digits INTEGER DEFAULT 4)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_value INTEGER;
+BEGIN
+  INSERT INTO document_counters (prefix, last_value)
+  VALUES (p_prefix, 1)
+  ON CONFLICT (prefix) DO UPDATE SET last_value = document_counters.last_value + 1
+  RETURNING last_value INTO v_value;
+
+  RETURN p_prefix || LPAD(v_value::TEXT, p_digits, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION next_document_number IS 'Issue the next number for a prefix (prefix || number padded to p_digits); concurrent callers never get the same number';
@@ -0,0 +1,23 @@
+-- Migration: Document numbers wider than their padding
+-- Run in Supabase SQL Editor or via: psql ... -f 032_document_number_width.sql
+-- LPAD cuts a value down to the pad width, so the 100th shift of a day came out as
+-- SHF-...-10 again. Numbers are now padded to at least p_digits and never cut.
+
+-- =============================================================================
+-- 1. Next number
+-- =============================================================================
+CREATE OR REPLACE FUNCTION next_document_number(p_prefix VARCHAR, p_digits INTEGER DEFAULT 4)
+RETURNS VARCHAR AS $$
+DECLARE
+  v_value INTEGER;
+BEGIN
+  INSERT INTO document_counters (prefix, last_value)
+  VALUES (p_prefix, 1)
+  ON CONFLICT (prefix) DO UPDATE SET last_value = document_counters.last_value + 1
+  RETURNING last_value INTO v_value;
+
+  RETURN p_prefix || LPAD(v_value::TEXT, GREATEST(p_digits, LENGTH(v_value::TEXT)), '0');
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION next_document_number IS 'Issue the next number for a prefix (prefix || number padded to at least p_digits); concurrent callers never get the same number';
@@ -0,0 +1,15 @@
+-- Migration: Write-off numbers from the document counter
+-- Run in Supabase SQL Editor or via: psql ... -f 033_write_off_number_counter.sql
+-- Write-off numbers were the day's highest number plus one, so two requests at the
+-- same moment got the same number and one failed on the unique index. They now come
+-- from next_document_number (migration 028).
+
+-- =============================================================================
+-- 1. Counters carry on from the numbers already issued
+-- =============================================================================
+INSERT INTO document_counters (prefix, last_value)
+SELECT SUBSTRING(write_off_number FROM '^(WO-[0-9]{8}-)'), MAX(SUBSTRING(write_off_number FROM '([0-9]+)$')::INTEGER)
+FROM ar_write_offs
+WHERE write_off_number ~ '^WO-[0-9]{8}-[0-9]+$'
+GROUP BY 1
+ON CONFLICT (prefix) DO UPDATE SET last_value = GREATEST(document_counters.last_value, EXCLUDED.last_value);
@@ -0,0 +1,15 @@
+-- Migration: Pre-authorization numbers from the document counter
+-- Run in Supabase SQL Editor or via: psql ... -f 034_preauth_number_counter.sql
+-- Pre-authorization numbers were the day's highest number plus one, so two requests
+-- at the same moment got the same number and one failed on the unique index. They now
+-- come from next_document_number (migration 028).
+
+-- =============================================================================
+-- 1. Counters carry on from the numbers already issued
+-- =============================================================================
+INSERT INTO document_counters (prefix, last_value)
+SELECT SUBSTRING(preauth_number FROM '^(PA-[0-9]{8}-)'), MAX(SUBSTRING(preauth_number FROM '([0-9]+)$')::INTEGER)
+FROM preauthorizations
+WHERE preauth_number ~ '^PA-[0-9]{8}-[0-9]+$'
+GROUP BY 1
+ON CONFLICT (prefix) DO UPDATE SET last_value = GREATEST(document_counters.last_value, EXCLUDED.last_value);
@@ -0,0 +1,15 @@
+-- Migration: Insurer claim batch numbers from the document counter
+-- Run in Supabase SQL Editor or via: psql ... -f 035_insurer_claim_batch_number_counter.sql
+-- Claim batch numbers were the day's highest number plus one, so two batches created
+-- at the same moment got the same number and one failed on the unique index. They now
+-- come from next_document_number (migration 028).
+
+-- =============================================================================
+-- 1. Counters carry on from the numbers already issued
+-- =============================================================================
+INSERT INTO document_counters (prefix, last_value)
+SELECT SUBSTRING(batch_number FROM '^(IC-[0-9]{8}-)'), MAX(SUBSTRING(batch_number FROM '([0-9]+)$')::INTEGER)
+FROM insurer_claim_batches
+WHERE batch_number ~ '^IC-[0-9]{8}-[0-9]+$'
+GROUP BY 1
+ON CONFLICT (prefix) DO UPDATE SET last_value = GREATEST(document_counters.last_value, EXCLUDED.last_value);
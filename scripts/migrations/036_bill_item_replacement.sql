@@ -0,0 +1,63 @@
+-- Migration: Bill rewrites in one transaction and adjustment numbers from the document counter
+-- Run in Supabase SQL Editor or via: psql ... -f 036_bill_item_replacement.sql
+-- Saving a bill deleted the visit's items and inserted them again one row at a time, so
+-- a failed insert left the visit missing charges. replace_bill_items does both inside one
+-- transaction. Void and credit note numbers were the day's highest number plus one and
+-- now come from next_document_number (migration 028).
+
+-- =============================================================================
+-- 1. Counters carry on from the numbers already issued
+-- =============================================================================
+INSERT INTO document_counters (prefix, last_value)
+SELECT SUBSTRING(adjustment_number FROM '^((VD|CN)-[0-9]{8}-)'), MAX(SUBSTRING(adjustment_number FROM '([0-9]+)$')::INTEGER)
+FROM bill_adjustments
+WHERE adjustment_number ~ '^(VD|CN)-[0-9]{8}-[0-9]+$'
+GROUP BY 1
+ON CONFLICT (prefix) DO UPDATE SET last_value = GREATEST(document_counters.last_value, EXCLUDED.last_value);
+
+-- =============================================================================
+-- 2. Replace a bill's items atomically
+-- =============================================================================
+-- p_items: [{ "external_id": "...", "description": "...", "amount": 1000, "category": "CLINICAL",
+--             "is_covered_by_nhif": false, "is_covered_by_private": true,
+--             "nhif_item_code": null, "tariff_code": null }, ...]
+-- With a visit, its non-voided items are replaced and the patient's items not yet on a
+-- visit that the bill lists move onto it. Without one, the patient's non-voided items not
+-- on a visit are replaced. Voided items are never touched.
+CREATE OR REPLACE FUNCTION replace_bill_items(
+  p_patient_id UUID,
+  p_visit_id UUID,
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS SETOF bill_items AS $$
+BEGIN
+  DELETE FROM bill_items
+  WHERE patient_id = p_patient_id
+    AND voided_at IS NULL
+    AND (
+      (p_visit_id IS NOT NULL AND visit_id = p_visit_id)
+      OR (
+        visit_id IS NULL
+        AND (
+          p_visit_id IS NULL
+          OR COALESCE(external_id, id::TEXT) IN (SELECT line->>'external_id' FROM jsonb_array_elements(p_items) AS line)
+        )
+      )
+    );
+
+  RETURN QUERY
+  INSERT INTO bill_items (
+    patient_id, visit_id, external_id, description, amount, category,
+    is_covered_by_nhif, is_covered_by_private, nhif_item_code, tariff_code, created_by
+  )
+  SELECT
+    p_patient_id, p_visit_id, item.external_id, item.description, item.amount, item.category,
+    COALESCE(item.is_covered_by_nhif, FALSE), COALESCE(item.is_covered_by_private, TRUE),
+    item.nhif_item_code, item.tariff_code, p_user_id
+  FROM jsonb_populate_recordset(NULL::bill_items, p_items) AS item
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION replace_bill_items IS 'Replace the non-voided items of a visit (or of a patient''s unassigned bill) in one transaction; returns the inserted rows';
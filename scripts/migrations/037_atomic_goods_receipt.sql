@@ -0,0 +1,96 @@
+-- Migration: Atomic goods receipt and GRN numbers from the document counter
+-- Run in Supabase SQL Editor or via: psql ... -f 037_atomic_goods_receipt.sql
+-- Receiving goods wrote the GRN, each batch and each ledger entry as separate requests
+-- and topped batches up by reading quantity_received and writing it back, so a failed
+-- line left a partial GRN and two deliveries of one batch lost an update. receive_goods
+-- does the whole delivery in one transaction. GRN numbers were the day's count plus one
+-- and now come from next_document_number (migration 028).
+
+-- =============================================================================
+-- 1. Counters carry on from the numbers already issued
+-- =============================================================================
+INSERT INTO document_counters (prefix, last_value)
+SELECT SUBSTRING(grn_number FROM '^(GRN-[0-9]{8}-)'), MAX(SUBSTRING(grn_number FROM '([0-9]+)$')::INTEGER)
+FROM goods_received_notes
+WHERE grn_number ~ '^GRN-[0-9]{8}-[0-9]+$'
+GROUP BY 1
+ON CONFLICT (prefix) DO UPDATE SET last_value = GREATEST(document_counters.last_value, EXCLUDED.last_value);
+
+-- =============================================================================
+-- 2. Receive a delivery
+-- =============================================================================
+-- p_items: [{ "medicationId": "...", "batchNo": "...", "expiryDate": "YYYY-MM-DD",
+--             "quantity": 100, "unitCost": 250 }, ...]
+-- A batch number already on record for the medication is topped up, and must carry
+-- the same expiry date.
+CREATE OR REPLACE FUNCTION receive_goods(
+  p_grn_number VARCHAR,
+  p_supplier_name VARCHAR,
+  p_supplier_invoice_no VARCHAR,
+  p_received_date DATE,
+  p_notes TEXT,
+  p_items JSONB,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS goods_received_notes AS $$
+DECLARE
+  v_note goods_received_notes;
+  v_item RECORD;
+  v_batch medication_batches;
+BEGIN
+  INSERT INTO goods_received_notes (
+    grn_number, supplier_name, supplier_invoice_no, received_date, notes, total_cost, created_by
+  )
+  SELECT
+    p_grn_number, p_supplier_name, p_supplier_invoice_no, p_received_date, p_notes,
+    COALESCE(SUM(COALESCE((line->>'unitCost')::NUMERIC, 0) * (line->>'quantity')::INTEGER), 0), p_user_id
+  FROM jsonb_array_elements(p_items) AS line
+  RETURNING * INTO v_note;
+
+  -- Medications in id order so concurrent receipts and dispenses lock them in the same order
+  FOR v_item IN
+    SELECT
+      (line->>'medicationId')::UUID AS medication_id,
+      line->>'batchNo' AS batch_no,
+      (line->>'expiryDate')::DATE AS expiry_date,
+      (line->>'quantity')::INTEGER AS quantity,
+      (line->>'unitCost')::NUMERIC AS unit_cost
+    FROM jsonb_array_elements(p_items) AS line
+    ORDER BY 1
+  LOOP
+    PERFORM 1 FROM medications WHERE id = v_item.medication_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medication not found';
+    END IF;
+
+    INSERT INTO medication_batches (
+      medication_id, batch_no, expiry_date, quantity_received, quantity_remaining, unit_cost, grn_id, created_by
+    ) VALUES (
+      v_item.medication_id, v_item.batch_no, v_item.expiry_date, 0, 0, v_item.unit_cost, v_note.id, p_user_id
+    )
+    ON CONFLICT (medication_id, batch_no) DO NOTHING;
+
+    SELECT * INTO v_batch
+    FROM medication_batches
+    WHERE medication_id = v_item.medication_id AND batch_no = v_item.batch_no
+    FOR UPDATE;
+
+    IF v_batch.expiry_date IS NOT NULL AND v_batch.expiry_date IS DISTINCT FROM v_item.expiry_date THEN
+      RAISE EXCEPTION 'Batch % is already recorded with expiry %', v_item.batch_no, v_batch.expiry_date;
+    END IF;
+
+    UPDATE medication_batches
+    SET quantity_received = quantity_received + v_item.quantity, updated_at = NOW(), updated_by = p_user_id
+    WHERE id = v_batch.id;
+
+    PERFORM record_stock_movement(
+      v_item.medication_id, v_batch.id, 'RECEIPT', v_item.quantity,
+      NULL, NULL, v_note.id, NULL, NULL, p_user_id
+    );
+  END LOOP;
+
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION receive_goods IS 'Record a goods received note with its batches and RECEIPT ledger entries in one transaction; raises (recording nothing) when any line is rejected';
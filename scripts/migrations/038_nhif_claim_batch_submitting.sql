@@ -0,0 +1,14 @@
+-- Migration: NHIF claim batches claimed while they are submitted
+-- Run in Supabase SQL Editor or via: psql ... -f 038_nhif_claim_batch_submitting.sql
+-- A batch was checked for DRAFT and then sent to NHIF, so two submissions at once both
+-- sent its folios. It is now moved to SUBMITTING before NHIF is called, and back to
+-- DRAFT if NHIF does not take it.
+
+-- =============================================================================
+-- 1. Claim batches: SUBMITTING
+-- =============================================================================
+ALTER TABLE nhif_claim_batches DROP CONSTRAINT IF EXISTS nhif_claim_batches_status_check;
+ALTER TABLE nhif_claim_batches ADD CONSTRAINT nhif_claim_batches_status_check
+  CHECK (status IN ('DRAFT', 'SUBMITTING', 'SUBMITTED', 'CLOSED'));
+
+COMMENT ON COLUMN nhif_claim_batches.status IS 'DRAFT, SUBMITTING while it is being sent to NHIF, SUBMITTED, CLOSED';
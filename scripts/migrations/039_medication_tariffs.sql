@@ -0,0 +1,45 @@
+-- Migration: Medications priced from the tariff master
+-- Run in Supabase SQL Editor or via: psql ... -f 039_medication_tariffs.sql
+-- Pharmacy billed dispensed medications at medications.price, outside the tariff master,
+-- so medication prices had no effective dates or per-payer prices. Each medication now
+-- links to a MEDICATION tariff item, seeded with its current price as the CASH price
+-- (and the NHIF price where NHIF covers it).
+
+-- =============================================================================
+-- 1. Tariff items: MEDICATION group
+-- =============================================================================
+ALTER TABLE tariff_items DROP CONSTRAINT IF EXISTS tariff_items_service_group_check;
+ALTER TABLE tariff_items ADD CONSTRAINT tariff_items_service_group_check
+  CHECK (service_group IN (
+    'CONSULTATION', 'TEST', 'PROCEDURE', 'LENS_TYPE', 'LENS_INDEX', 'EDGE_COLOR', 'COATING', 'FRAME', 'LIMIT', 'MEDICATION'
+  ));
+
+-- =============================================================================
+-- 2. Medications: tariff code
+-- =============================================================================
+ALTER TABLE medications ADD COLUMN IF NOT EXISTS tariff_code VARCHAR(50) REFERENCES tariff_items(code) ON UPDATE CASCADE;
+
+COMMENT ON COLUMN medications.tariff_code IS 'Tariff item the medication is priced from when dispensed; medications.price is no longer billed';
+
+-- =============================================================================
+-- 3. Seed a tariff item per medication from its current price
+-- =============================================================================
+INSERT INTO tariff_items (code, name, category, service_group)
+SELECT 'MED_' || UPPER(REPLACE(m.id::TEXT, '-', '')), TRIM(m.name || ' ' || COALESCE(m.dosage, '')), 'PHARMACY', 'MEDICATION'
+FROM medications m
+WHERE m.tariff_code IS NULL
+ON CONFLICT (code) DO NOTHING;
+
+UPDATE medications
+SET tariff_code = 'MED_' || UPPER(REPLACE(id::TEXT, '-', ''))
+WHERE tariff_code IS NULL;
+
+INSERT INTO tariff_prices (tariff_item_id, payer, price, effective_from)
+SELECT ti.id, v.payer, m.price, DATE '2024-01-01'
+FROM medications m
+JOIN tariff_items ti ON ti.code = m.tariff_code
+CROSS JOIN (VALUES ('CASH'), ('NHIF')) AS v(payer)
+WHERE (v.payer = 'CASH' OR m.is_covered_by_nhif)
+  AND NOT EXISTS (
+    SELECT 1 FROM tariff_prices tp WHERE tp.tariff_item_id = ti.id AND tp.payer = v.payer
+  );
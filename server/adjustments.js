@@ -0,0 +1,328 @@
+/**
+ * Bill Adjustments Module
+ * Voids (before payment) and credit notes (after payment) against bill items.
+ * Each is requested with a reason and applied only when a clinic manager other
+ * than the requester approves it; a credit note that leaves the visit overpaid
+ * refunds the difference to the patient.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getVisitBalance, findOpenShiftId } from './payments.js';
+import { nextDocumentNumber } from './documentNumbers.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const ADJUSTMENT_TYPES = ['VOID', 'CREDIT_NOTE'];
+
+/**
+ * Methods a refund can be paid back by
+ */
+export const REFUND_METHODS = ['CASH', 'CARD', 'MOBILE_MONEY'];
+
+const NUMBER_PREFIXES = { VOID: 'VD', CREDIT_NOTE: 'CN' };
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Generate the next adjustment number for today (VD-YYYYMMDD-NNNN / CN-YYYYMMDD-NNNN)
+ */
+const generateAdjustmentNumber = (type) => nextDocumentNumber(NUMBER_PREFIXES[type]);
+
+/**
+ * Find a visit's bill item by its client id (external_id) or row id
+ */
+const findBillItem = async (visitId, billItemRef) => {
+  const { data } = await supabase
+    .from('bill_items')
+    .select('*')
+    .eq('visit_id', visitId);
+  return (data || []).find((b) => b.external_id === billItemRef || b.id === billItemRef) || null;
+};
+
+/**
+ * Payments actually received for a visit (anything not yet refunded counts)
+ */
+const hasPayments = async (visitId) => {
+  const { count } = await supabase
+    .from('payments')
+    .select('id', { count: 'exact', head: true })
+    .eq('visit_id', visitId);
+  return (count || 0) > 0;
+};
+
+/**
+ * Adjustments (all statuses) recorded against a visit, oldest first
+ */
+export const getVisitAdjustments = async (visitId) => {
+  try {
+    const { data, error } = await supabase
+      .from('bill_adjustments')
+      .select('*')
+      .eq('visit_id', visitId)
+      .order('requested_at', { ascending: true });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, adjustments: data || [] };
+  } catch (error) {
+    console.error('Error getting visit adjustments:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Request a void or credit note for a bill item. Nothing changes on the bill until approved.
+ */
+export const requestAdjustment = async (visitId, { billItemId, type, amount, reason, refundMethod }, userId) => {
+  try {
+    const { data: visit, error: visitError } = await supabase
+      .from('visits')
+      .select('id, patient_id')
+      .eq('id', visitId)
+      .maybeSingle();
+
+    if (visitError || !visit) {
+      return { success: false, error: 'Visit not found' };
+    }
+
+    const item = await findBillItem(visitId, billItemId);
+    if (!item) {
+      return { success: false, error: 'Bill item not found on this visit' };
+    }
+    if (item.voided_at) {
+      return { success: false, error: 'Bill item has already been voided' };
+    }
+
+    const paid = await hasPayments(visitId);
+    if (type === 'VOID' && paid) {
+      return { success: false, error: 'Payments have been recorded for this bill; issue a credit note instead of a void' };
+    }
+    if (type === 'CREDIT_NOTE' && !paid) {
+      return { success: false, error: 'Nothing has been paid on this bill yet; void the item instead' };
+    }
+
+    const existing = await getVisitAdjustments(visitId);
+    if (!existing.success) {
+      return existing;
+    }
+    const itemRef = item.external_id || item.id;
+    const itemAdjustments = existing.adjustments.filter((a) => a.bill_item_ref === itemRef && a.status !== 'REJECTED');
+    if (itemAdjustments.some((a) => a.status === 'PENDING')) {
+      return { success: false, error: 'This item already has an adjustment awaiting approval' };
+    }
+
+    const itemAmount = parseFloat(item.amount) || 0;
+    let adjustmentAmount = itemAmount;
+    if (type === 'CREDIT_NOTE') {
+      const alreadyCredited = itemAdjustments.reduce((sum, a) => sum + (parseFloat(a.amount) || 0), 0);
+      const creditable = roundAmount(itemAmount - alreadyCredited);
+      adjustmentAmount = amount != null ? roundAmount(amount) : creditable;
+      if (adjustmentAmount > creditable) {
+        return { success: false, error: `Credit of TZS ${adjustmentAmount.toLocaleString()} exceeds the TZS ${creditable.toLocaleString()} left on this item` };
+      }
+    }
+
+    const { data: adjustment, error } = await supabase
+      .from('bill_adjustments')
+      .insert({
+        adjustment_number: await generateAdjustmentNumber(type),
+        type,
+        status: 'PENDING',
+        visit_id: visitId,
+        patient_id: visit.patient_id,
+        bill_item_ref: itemRef,
+        description: item.description,
+        category: item.category,
+        item_amount: itemAmount,
+        amount: adjustmentAmount,
+        refund_method: type === 'CREDIT_NOTE' ? refundMethod || 'CASH' : null,
+        reason,
+        requested_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, adjustment };
+  } catch (error) {
+    console.error('Error requesting bill adjustment:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Approve or reject a pending adjustment. The approver must not be the requester.
+ * Approving a void flags the bill item; approving a credit note refunds whatever
+ * the visit is left overpaid by, up to the credit amount. The refund is paid out of
+ * the approver's open shift so it appears on that shift's Z-report.
+ */
+export const decideAdjustment = async (adjustmentId, { approve, notes }, userId) => {
+  try {
+    const { data: adjustment, error: fetchError } = await supabase
+      .from('bill_adjustments')
+      .select('*')
+      .eq('id', adjustmentId)
+      .maybeSingle();
+
+    if (fetchError || !adjustment) {
+      return { success: false, error: 'Adjustment not found' };
+    }
+    if (adjustment.status !== 'PENDING') {
+      return { success: false, error: `${adjustment.adjustment_number} has already been ${adjustment.status.toLowerCase()}` };
+    }
+    if (adjustment.requested_by === userId) {
+      return { success: false, error: 'A second person must approve an adjustment you requested' };
+    }
+
+    const decision = {
+      status: approve ? 'APPROVED' : 'REJECTED',
+      decided_by: userId,
+      decided_at: new Date().toISOString(),
+      decision_notes: notes || null,
+    };
+
+    if (approve && adjustment.type === 'VOID') {
+      if (await hasPayments(adjustment.visit_id)) {
+        return { success: false, error: 'Payments have been recorded since the void was requested; issue a credit note instead' };
+      }
+    }
+
+    if (approve && adjustment.type === 'CREDIT_NOTE') {
+      const current = await getVisitBalance(adjustment.visit_id);
+      if (!current.success) {
+        return current;
+      }
+      const amount = parseFloat(adjustment.amount) || 0;
+      const overpaid = current.balance.amountPaid - (current.balance.billTotal - amount);
+      decision.refund_amount = roundAmount(Math.min(Math.max(overpaid, 0), amount));
+      if (decision.refund_amount > 0) {
+        decision.shift_id = await findOpenShiftId(userId);
+        if (!decision.shift_id) {
+          return {
+            success: false,
+            error: `This credit note refunds TZS ${decision.refund_amount.toLocaleString()}; open a cashier shift before approving it`,
+          };
+        }
+      }
+    }
+
+    const { data: decided, error } = await supabase
+      .from('bill_adjustments')
+      .update(decision)
+      .eq('id', adjustmentId)
+      .eq('status', 'PENDING')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!decided) {
+      return { success: false, error: `${adjustment.adjustment_number} has already been decided` };
+    }
+
+    if (approve && adjustment.type === 'VOID') {
+      const item = await findBillItem(adjustment.visit_id, adjustment.bill_item_ref);
+      if (item) {
+        const { error: voidError } = await supabase
+          .from('bill_items')
+          .update({ voided_at: decided.decided_at, void_adjustment_id: adjustmentId })
+          .eq('id', item.id);
+        if (voidError) {
+          console.error('Error flagging voided bill item:', voidError);
+        }
+      }
+    }
+
+    return { success: true, adjustment: decided };
+  } catch (error) {
+    console.error('Error deciding bill adjustment:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Adjustments requested within a date range (YYYY-MM-DD, inclusive), newest first
+ */
+export const getAdjustments = async ({ status, from, to } = {}) => {
+  try {
+    let query = supabase
+      .from('bill_adjustments')
+      .select('*, patients(name)')
+      .order('requested_at', { ascending: false });
+
+    if (status) query = query.eq('status', status);
+    if (from) query = query.gte('requested_at', `${from}T00:00:00`);
+    if (to) query = query.lte('requested_at', `${to}T23:59:59.999`);
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, adjustments: data || [] };
+  } catch (error) {
+    console.error('Error listing bill adjustments:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * External ids of a visit's voided bill items, so bill rewrites keep them as they are
+ */
+export const getVoidedItemRefs = async (visitId) => {
+  const { data } = await supabase
+    .from('bill_items')
+    .select('id, external_id')
+    .eq('visit_id', visitId)
+    .not('voided_at', 'is', null);
+  return (data || []).map((b) => b.external_id || b.id);
+};
+
+/**
+ * Whether an incoming bill line charges differently from the stored row it replaces
+ */
+const chargeDiffers = (row, item) =>
+  roundAmount(parseFloat(row.amount) || 0) !== roundAmount(parseFloat(item.amount) || 0)
+  || row.category !== item.category
+  || !!row.is_covered_by_nhif !== !!item.isCoveredByNHIF
+  || (row.is_covered_by_private !== false) !== (item.isCoveredByPrivate !== false);
+
+/**
+ * What a rewritten bill would do to charges that only an approved adjustment may touch:
+ * non-voided items it leaves out (dropped) and, once the visit has a payment, items it
+ * keeps but charges differently (changed). Either is rejected; charges come off through
+ * a void and are reduced through a credit note. With no visit, the patient's items not
+ * yet tied to a visit are checked, and those cannot have been paid.
+ */
+export const findBillRewriteConflicts = async (patientId, visitId, incomingItems) => {
+  let query = supabase
+    .from('bill_items')
+    .select('id, external_id, description, amount, category, is_covered_by_nhif, is_covered_by_private')
+    .eq('patient_id', patientId)
+    .is('voided_at', null);
+  query = visitId ? query.eq('visit_id', visitId) : query.is('visit_id', null);
+
+  const [{ data, error }, paymentRes] = await Promise.all([
+    query,
+    visitId
+      ? supabase.from('payments').select('id', { count: 'exact', head: true }).eq('visit_id', visitId)
+      : Promise.resolve({ count: 0, error: null }),
+  ]);
+  if (error || paymentRes.error) {
+    throw new Error((error || paymentRes.error).message);
+  }
+
+  const incoming = new Map(incomingItems.filter((it) => it?.id).map((it) => [it.id, it]));
+  const rows = data || [];
+  const dropped = rows.filter((row) => !incoming.has(row.external_id || row.id));
+  const changed = paymentRes.count > 0
+    ? rows.filter((row) => incoming.has(row.external_id || row.id) && chargeDiffers(row, incoming.get(row.external_id || row.id)))
+    : [];
+  return { dropped, changed };
+};
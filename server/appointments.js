@@ -0,0 +1,678 @@
+/**
+ * Appointments Module
+ * The clinic's appointment book. Each appointment is booked with a provider for the
+ * slot length of its appointment type, inside the provider's weekly working template.
+ * Overlapping bookings for one provider are refused here and by the database's
+ * exclusion constraint; every change is written to appointment_history. Patients are
+ * checked in against their appointment, and one not checked in turns LATE and then
+ * NO_SHOW as its slot passes.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { clinicDate, clinicUtcOffset } from './clinicCalendar.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+// Slot length in minutes for each AppointmentType
+export const APPOINTMENT_DURATIONS = {
+  'Eye Consultation': 30,
+  'Vision Test': 20,
+  'Optical Review': 15,
+  'Specialist Consultation': 45,
+};
+
+export const APPOINTMENT_STATUSES = ['SCHEDULED', 'CONFIRMED', 'LATE', 'COMPLETED', 'CANCELLED', 'NO_SHOW'];
+
+// Statuses that hold the slot and may still be moved or cancelled
+const ACTIVE_STATUSES = ['SCHEDULED', 'CONFIRMED', 'LATE'];
+
+// Minutes after the start before a patient who has not checked in is LATE
+const LATE_AFTER_MINUTES = 10;
+
+const APPOINTMENT_SELECT =
+  '*, patients(name, phone), providers(name, role), appointment_reminders(id, kind, status, send_at, sent_at, delivered_at, last_error)';
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const weekdayOf = (date) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/**
+ * Start of an appointment as an instant (appointment dates and times are clinic local time)
+ */
+export const appointmentStartsAt = (appointment) =>
+  new Date(`${appointment.appointment_date}T${appointment.appointment_time.slice(0, 5)}:00${clinicUtcOffset()}`);
+
+const appointmentEndsAt = (appointment) =>
+  new Date(appointmentStartsAt(appointment).getTime() + appointment.duration_minutes * 60000);
+
+const recordHistory = async (entry) => {
+  const { error } = await supabase.from('appointment_history').insert(entry);
+  if (error) {
+    console.error('Error recording appointment history:', error);
+  }
+};
+
+/**
+ * Working template blocks, for one provider or all of them
+ */
+export const getProviderTemplates = async (providerId) => {
+  try {
+    let query = supabase
+      .from('provider_schedule_templates')
+      .select('*')
+      .order('weekday', { ascending: true })
+      .order('start_time', { ascending: true });
+    if (providerId) {
+      query = query.eq('provider_id', providerId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, templates: data || [] };
+  } catch (error) {
+    console.error('Error getting provider templates:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Replace a provider's weekly template with the given blocks ({ weekday, startTime, endTime })
+ */
+export const saveProviderTemplates = async (providerId, blocks, userId) => {
+  try {
+    const sorted = [...blocks].sort((a, b) => a.weekday - b.weekday || toMinutes(a.startTime) - toMinutes(b.startTime));
+    for (let i = 0; i < sorted.length; i++) {
+      const block = sorted[i];
+      if (toMinutes(block.endTime) <= toMinutes(block.startTime)) {
+        return { success: false, error: `Hours starting ${block.startTime} must end after they start` };
+      }
+      const next = sorted[i + 1];
+      if (next && next.weekday === block.weekday && toMinutes(next.startTime) < toMinutes(block.endTime)) {
+        return { success: false, error: `Hours ${block.startTime}–${block.endTime} and ${next.startTime}–${next.endTime} overlap` };
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('provider_schedule_templates')
+      .delete()
+      .eq('provider_id', providerId);
+    if (deleteError) {
+      return { success: false, error: deleteError.message };
+    }
+
+    if (sorted.length > 0) {
+      const { error } = await supabase.from('provider_schedule_templates').insert(
+        sorted.map((block) => ({
+          provider_id: providerId,
+          weekday: block.weekday,
+          start_time: block.startTime,
+          end_time: block.endTime,
+          created_by: userId,
+        }))
+      );
+      if (error) {
+        return { success: false, error: error.message };
+      }
+    }
+
+    return getProviderTemplates(providerId);
+  } catch (error) {
+    console.error('Error saving provider templates:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Appointments between two dates (inclusive), optionally for one provider, patient or status
+ */
+export const getAppointments = async ({ from, to, providerId, patientId, status }) => {
+  try {
+    let query = supabase
+      .from('appointments')
+      .select(APPOINTMENT_SELECT)
+      .order('appointment_date', { ascending: true })
+      .order('appointment_time', { ascending: true });
+    if (from) query = query.gte('appointment_date', from);
+    if (to) query = query.lte('appointment_date', to);
+    if (providerId) query = query.eq('provider_id', providerId);
+    if (patientId) query = query.eq('patient_id', patientId);
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, appointments: data || [] };
+  } catch (error) {
+    console.error('Error getting appointments:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Check a provider can take a booking at date/time for the given length: inside their
+ * working template and clear of their other live appointments. Returns an error message or null.
+ */
+const checkSlot = async (providerId, date, time, duration, ignoreAppointmentId) => {
+  const start = toMinutes(time);
+  const end = start + duration;
+
+  const templates = await getProviderTemplates(providerId);
+  if (!templates.success) {
+    return templates.error;
+  }
+  const blocks = templates.templates.filter((block) => block.weekday === weekdayOf(date));
+  if (blocks.length === 0) {
+    return 'The provider does not work on this day';
+  }
+  const withinHours = blocks.some((block) => start >= toMinutes(block.start_time) && end <= toMinutes(block.end_time));
+  if (!withinHours) {
+    return `${time}–${toTime(end)} is outside the provider's working hours`;
+  }
+
+  const { data: booked, error } = await supabase
+    .from('appointments')
+    .select('id, appointment_time, duration_minutes')
+    .eq('provider_id', providerId)
+    .eq('appointment_date', date)
+    .in('status', ACTIVE_STATUSES);
+  if (error) {
+    return error.message;
+  }
+  const clash = (booked || []).find((appointment) => {
+    if (appointment.id === ignoreAppointmentId) return false;
+    const bookedStart = toMinutes(appointment.appointment_time);
+    return start < bookedStart + appointment.duration_minutes && bookedStart < end;
+  });
+  if (clash) {
+    return `The provider already has an appointment at ${clash.appointment_time.slice(0, 5)}`;
+  }
+  return null;
+};
+
+// The exclusion constraint catches a booking that raced past checkSlot
+const bookingError = (error) =>
+  error.code === '23P01' ? 'That time has just been booked; choose another slot' : error.message;
+
+/**
+ * Free start times for an appointment type with a provider on a date, stepped by the slot length
+ */
+export const getAvailableSlots = async ({ providerId, date, appointmentType }) => {
+  try {
+    const duration = APPOINTMENT_DURATIONS[appointmentType];
+    if (!duration) {
+      return { success: false, error: 'Unknown appointment type' };
+    }
+
+    const templates = await getProviderTemplates(providerId);
+    if (!templates.success) {
+      return templates;
+    }
+    const blocks = templates.templates.filter((block) => block.weekday === weekdayOf(date));
+
+    const { data: booked, error } = await supabase
+      .from('appointments')
+      .select('appointment_time, duration_minutes')
+      .eq('provider_id', providerId)
+      .eq('appointment_date', date)
+      .in('status', ACTIVE_STATUSES);
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    const busy = (booked || []).map((appointment) => {
+      const start = toMinutes(appointment.appointment_time);
+      return [start, start + appointment.duration_minutes];
+    });
+
+    const slots = [];
+    for (const block of blocks) {
+      const blockEnd = toMinutes(block.end_time);
+      for (let start = toMinutes(block.start_time); start + duration <= blockEnd; start += duration) {
+        const end = start + duration;
+        if (!busy.some(([busyStart, busyEnd]) => start < busyEnd && busyStart < end)) {
+          slots.push({ time: toTime(start), end_time: toTime(end) });
+        }
+      }
+    }
+
+    return { success: true, slots, duration_minutes: duration };
+  } catch (error) {
+    console.error('Error getting available slots:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Book an appointment with a provider
+ */
+export const createAppointment = async ({ patientId, providerId, appointmentType, date, time, priority, notes, reminderLanguage }, userId) => {
+  try {
+    const duration = APPOINTMENT_DURATIONS[appointmentType];
+    if (!duration) {
+      return { success: false, error: 'Unknown appointment type' };
+    }
+
+    const { data: provider } = await supabase
+      .from('providers')
+      .select('id, user_id, is_active')
+      .eq('id', providerId)
+      .maybeSingle();
+    if (!provider || !provider.is_active) {
+      return { success: false, error: 'Provider not found' };
+    }
+
+    const slotError = await checkSlot(providerId, date, time, duration);
+    if (slotError) {
+      return { success: false, error: slotError };
+    }
+
+    const { data: appointment, error } = await supabase
+      .from('appointments')
+      .insert({
+        patient_id: patientId,
+        provider_id: providerId,
+        assigned_doctor_id: provider.user_id,
+        appointment_type: appointmentType,
+        appointment_date: date,
+        appointment_time: time,
+        duration_minutes: duration,
+        priority: priority || 'Normal',
+        notes: notes || null,
+        reminder_language: reminderLanguage || 'sw',
+        status: 'SCHEDULED',
+        created_by: userId,
+        updated_by: userId,
+      })
+      .select(APPOINTMENT_SELECT)
+      .single();
+
+    if (error) {
+      return { success: false, error: bookingError(error) };
+    }
+
+    await recordHistory({
+      appointment_id: appointment.id,
+      action: 'BOOKED',
+      to_date: date,
+      to_time: time,
+      to_provider_id: providerId,
+      to_status: 'SCHEDULED',
+      changed_by: userId,
+    });
+    return { success: true, appointment };
+  } catch (error) {
+    console.error('Error creating appointment:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+const getActiveAppointment = async (appointmentId) => {
+  const { data: appointment, error } = await supabase
+    .from('appointments')
+    .select('*')
+    .eq('id', appointmentId)
+    .maybeSingle();
+  if (error || !appointment) {
+    return { error: 'Appointment not found' };
+  }
+  if (!ACTIVE_STATUSES.includes(appointment.status)) {
+    return { error: `This appointment is already ${appointment.status.toLowerCase()}` };
+  }
+  return { appointment };
+};
+
+/**
+ * Move an appointment to a new date, time and (optionally) provider
+ */
+export const rescheduleAppointment = async (appointmentId, { date, time, providerId, reason }, userId) => {
+  try {
+    const { appointment, error: findError } = await getActiveAppointment(appointmentId);
+    if (findError) {
+      return { success: false, error: findError };
+    }
+
+    const newProviderId = providerId || appointment.provider_id;
+    if (!newProviderId) {
+      return { success: false, error: 'Choose a provider for this appointment' };
+    }
+    const { data: provider } = await supabase
+      .from('providers')
+      .select('id, user_id, is_active')
+      .eq('id', newProviderId)
+      .maybeSingle();
+    if (!provider || !provider.is_active) {
+      return { success: false, error: 'Provider not found' };
+    }
+
+    const slotError = await checkSlot(newProviderId, date, time, appointment.duration_minutes, appointment.id);
+    if (slotError) {
+      return { success: false, error: slotError };
+    }
+
+    const { data: updated, error } = await supabase
+      .from('appointments')
+      .update({
+        appointment_date: date,
+        appointment_time: time,
+        provider_id: newProviderId,
+        assigned_doctor_id: provider.user_id,
+        // A moved appointment needs confirming again
+        status: 'SCHEDULED',
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', appointmentId)
+      .select(APPOINTMENT_SELECT)
+      .single();
+
+    if (error) {
+      return { success: false, error: bookingError(error) };
+    }
+
+    await recordHistory({
+      appointment_id: appointmentId,
+      action: 'RESCHEDULED',
+      from_date: appointment.appointment_date,
+      from_time: appointment.appointment_time,
+      from_provider_id: appointment.provider_id,
+      to_date: date,
+      to_time: time,
+      to_provider_id: newProviderId,
+      from_status: appointment.status,
+      to_status: 'SCHEDULED',
+      reason: reason || null,
+      changed_by: userId,
+    });
+    return { success: true, appointment: updated };
+  } catch (error) {
+    console.error('Error rescheduling appointment:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Cancel an appointment, freeing its slot
+ */
+export const cancelAppointment = async (appointmentId, reason, userId) => {
+  try {
+    const { appointment, error: findError } = await getActiveAppointment(appointmentId);
+    if (findError) {
+      return { success: false, error: findError };
+    }
+
+    const { data: updated, error } = await supabase
+      .from('appointments')
+      .update({
+        status: 'CANCELLED',
+        cancel_reason: reason,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', appointmentId)
+      .select(APPOINTMENT_SELECT)
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    await recordHistory({
+      appointment_id: appointmentId,
+      action: 'CANCELLED',
+      from_date: appointment.appointment_date,
+      from_time: appointment.appointment_time,
+      from_provider_id: appointment.provider_id,
+      from_status: appointment.status,
+      to_status: 'CANCELLED',
+      reason,
+      changed_by: userId,
+    });
+    return { success: true, appointment: updated };
+  } catch (error) {
+    console.error('Error cancelling appointment:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Mark an appointment confirmed or completed
+ */
+export const updateAppointmentStatus = async (appointmentId, status, userId) => {
+  try {
+    const { appointment, error: findError } = await getActiveAppointment(appointmentId);
+    if (findError) {
+      return { success: false, error: findError };
+    }
+    if (appointment.status === status) {
+      return { success: false, error: `This appointment is already ${status.toLowerCase()}` };
+    }
+    if (appointment.status === 'LATE' && status === 'CONFIRMED') {
+      return { success: false, error: 'The patient is already late for this appointment' };
+    }
+
+    const { data: updated, error } = await supabase
+      .from('appointments')
+      .update({ status, updated_by: userId, updated_at: new Date().toISOString() })
+      .eq('id', appointmentId)
+      .select(APPOINTMENT_SELECT)
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    await recordHistory({
+      appointment_id: appointmentId,
+      action: 'STATUS_CHANGED',
+      from_status: appointment.status,
+      to_status: status,
+      changed_by: userId,
+    });
+    return { success: true, appointment: updated };
+  } catch (error) {
+    console.error('Error updating appointment status:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Check the patient in for today's appointment. Arriving after the start plus the grace
+ * minutes (or after being marked a no-show) leaves the appointment LATE.
+ */
+export const checkInAppointment = async (appointmentId, userId) => {
+  try {
+    const { data: appointment, error: findError } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('id', appointmentId)
+      .maybeSingle();
+    if (findError || !appointment) {
+      return { success: false, error: 'Appointment not found' };
+    }
+    if (appointment.checked_in_at) {
+      return { success: false, error: 'The patient is already checked in for this appointment' };
+    }
+    if (![...ACTIVE_STATUSES, 'NO_SHOW'].includes(appointment.status)) {
+      return { success: false, error: `This appointment is ${appointment.status.toLowerCase()}` };
+    }
+    if (appointment.appointment_date !== clinicDate()) {
+      return { success: false, error: 'Patients can only be checked in on the day of their appointment' };
+    }
+
+    const lateFrom = appointmentStartsAt(appointment).getTime() + LATE_AFTER_MINUTES * 60000;
+    const status = Date.now() > lateFrom ? 'LATE' : appointment.status;
+
+    const { data: updated, error } = await supabase
+      .from('appointments')
+      .update({
+        status,
+        checked_in_at: new Date().toISOString(),
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', appointmentId)
+      .select(APPOINTMENT_SELECT)
+      .single();
+
+    if (error) {
+      return { success: false, error: bookingError(error) };
+    }
+
+    await recordHistory({
+      appointment_id: appointmentId,
+      action: 'CHECKED_IN',
+      from_status: appointment.status,
+      to_status: status,
+      changed_by: userId,
+    });
+    return { success: true, appointment: updated };
+  } catch (error) {
+    console.error('Error checking in appointment:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Mark today's and yesterday's appointments the patient has not checked in for: LATE
+ * once the grace minutes after the start have passed, NO_SHOW once the slot has ended.
+ * Run on a timer by the API server.
+ */
+export const markMissedAppointments = async () => {
+  try {
+    const { data: candidates, error } = await supabase
+      .from('appointments')
+      .select('id, status, appointment_date, appointment_time, duration_minutes')
+      .in('status', ACTIVE_STATUSES)
+      .is('checked_in_at', null)
+      .gte('appointment_date', clinicDate(-1))
+      .lte('appointment_date', clinicDate());
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    const now = Date.now();
+    let late = 0;
+    let noShows = 0;
+    for (const appointment of candidates || []) {
+      let status = null;
+      let reason = null;
+      if (appointmentEndsAt(appointment).getTime() <= now) {
+        status = 'NO_SHOW';
+        reason = 'Not checked in before the slot ended';
+      } else if (appointment.status !== 'LATE' && appointmentStartsAt(appointment).getTime() + LATE_AFTER_MINUTES * 60000 <= now) {
+        status = 'LATE';
+        reason = `Not checked in ${LATE_AFTER_MINUTES} minutes after the start`;
+      }
+      if (!status) continue;
+
+      // Only if nobody checked the patient in or changed the appointment meanwhile
+      const { data: changed } = await supabase
+        .from('appointments')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', appointment.id)
+        .eq('status', appointment.status)
+        .is('checked_in_at', null)
+        .select('id')
+        .maybeSingle();
+      if (!changed) continue;
+
+      await recordHistory({
+        appointment_id: appointment.id,
+        action: 'STATUS_CHANGED',
+        from_status: appointment.status,
+        to_status: status,
+        reason,
+        changed_by: null,
+      });
+      if (status === 'NO_SHOW') noShows += 1;
+      else late += 1;
+    }
+    return { success: true, late, noShows };
+  } catch (error) {
+    console.error('Error marking missed appointments:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * No-show rate by provider and by appointment type for appointments whose slot ended
+ * between two dates (inclusive). Cancelled appointments are left out.
+ */
+export const getNoShowReport = async ({ from, to }) => {
+  try {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('status, checked_in_at, appointment_type, appointment_date, appointment_time, duration_minutes, provider_id, providers(name)')
+      .gte('appointment_date', from)
+      .lte('appointment_date', to)
+      .neq('status', 'CANCELLED');
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    const now = Date.now();
+    const due = (data || []).filter((appointment) => appointmentEndsAt(appointment).getTime() <= now);
+
+    const summarise = (keyOf, labelOf) => {
+      const groups = new Map();
+      for (const appointment of due) {
+        const key = keyOf(appointment);
+        const group = groups.get(key) || { key, label: labelOf(appointment), due: 0, attended: 0, late: 0, no_shows: 0 };
+        group.due += 1;
+        if (appointment.checked_in_at || appointment.status === 'COMPLETED') group.attended += 1;
+        if (appointment.status === 'LATE') group.late += 1;
+        if (appointment.status === 'NO_SHOW') group.no_shows += 1;
+        groups.set(key, group);
+      }
+      return [...groups.values()]
+        .map((group) => ({ ...group, no_show_rate: group.due > 0 ? group.no_shows / group.due : 0 }))
+        .sort((a, b) => b.no_show_rate - a.no_show_rate || b.due - a.due);
+    };
+
+    const [totals] = summarise(() => 'all', () => 'All appointments');
+    return {
+      success: true,
+      report: {
+        from,
+        to,
+        totals: totals || { key: 'all', label: 'All appointments', due: 0, attended: 0, late: 0, no_shows: 0, no_show_rate: 0 },
+        by_provider: summarise((a) => a.provider_id || 'none', (a) => a.providers?.name || 'No provider'),
+        by_type: summarise((a) => a.appointment_type, (a) => a.appointment_type),
+      },
+    };
+  } catch (error) {
+    console.error('Error building no-show report:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * History of an appointment, oldest first
+ */
+export const getAppointmentHistory = async (appointmentId) => {
+  try {
+    const { data, error } = await supabase
+      .from('appointment_history')
+      .select('*')
+      .eq('appointment_id', appointmentId)
+      .order('changed_at', { ascending: true });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, history: data || [] };
+  } catch (error) {
+    console.error('Error getting appointment history:', error);
+    return { success: false, error: error.message };
+  }
+};
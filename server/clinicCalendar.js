@@ -0,0 +1,19 @@
+/**
+ * Clinic Calendar Module
+ * The clinic's local day. Dates the clinic works by (appointment days, document
+ * numbers, expiry checks) turn over at midnight clinic time, not UTC.
+ */
+
+/**
+ * Clinic offset from UTC (East Africa Time by default)
+ */
+export const clinicUtcOffset = () => process.env.CLINIC_UTC_OFFSET || '+03:00';
+
+/**
+ * Today's date at the clinic (YYYY-MM-DD), shifted by a number of days
+ */
+export const clinicDate = (offsetDays = 0) => {
+  const [, sign, hours, minutes] = clinicUtcOffset().match(/^([+-])(\d{2}):(\d{2})$/) || [null, '+', '03', '00'];
+  const offsetMinutes = (sign === '-' ? -1 : 1) * (parseInt(hours, 10) * 60 + parseInt(minutes, 10));
+  return new Date(Date.now() + offsetMinutes * 60000 + offsetDays * 86400000).toISOString().slice(0, 10);
+};
@@ -0,0 +1,26 @@
+/**
+ * Document Numbers Module
+ * Day-based document numbers (RCP-YYYYMMDD-NNNN, SHF-YYYYMMDD-NN, ...) dated by the
+ * clinic's day. Each comes from the database counter (next_document_number), so two
+ * requests at the same moment never get the same number.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { clinicDate } from './clinicCalendar.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+/**
+ * Next number for today under a document code, e.g. nextDocumentNumber('RCP') -> RCP-20261019-0007
+ */
+export const nextDocumentNumber = async (code, digits = 4) => {
+  const prefix = `${code}-${clinicDate().replace(/-/g, '')}-`;
+  const { data, error } = await supabase.rpc('next_document_number', { p_prefix: prefix, p_digits: digits });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+};
@@ -25,19 +25,21 @@ import {
   validatePatient,
   validatePatientPartial,
   validatePrescription,
-  validateBillItem,
+  validateBillItems,
   validateAppointment,
   sanitizeString,
   sanitizeEmail,
   sanitizePhone,
   getValidationRules,
   validateWithRules,
+  isUuid,
 } from './validation.js';
 import {
   securityHeaders,
   apiRateLimiter,
   authRateLimiter,
   writeRateLimiter,
+  lookupRateLimiter,
   ipBlockingMiddleware,
   validateRequestSize,
   validateContentType,
@@ -53,7 +55,127 @@ import {
   verifyNHIFCard,
   storeNHIFVerification,
   getActiveNHIFVerification,
+  getClaimableNHIFVisits,
+  createNHIFClaimBatch,
+  submitNHIFClaimBatch,
+  updateNHIFClaimFolioStatus,
+  getNHIFClaimBatches,
+  getNHIFClaimFormData,
 } from './nhif.js';
+import {
+  STOCK_ADJUSTMENT_REASONS,
+  receiveGoods,
+  dispenseStock,
+  adjustStock,
+  getMedicationBatches,
+  getStockLedger,
+  getGoodsReceivedNotes,
+  getStockAlerts,
+  setReorderLevel,
+} from './inventory.js';
+import {
+  PAYMENT_METHODS,
+  getVisitBalance,
+  recordPayments,
+} from './payments.js';
+import {
+  MOBILE_MONEY_NETWORKS,
+  initiateMobileMoneyPayment,
+  checkMobileMoneyPayment,
+  handleMobileMoneyCallback,
+} from './mobileMoney.js';
+import {
+  DECLARABLE_METHODS,
+  getOpenShift,
+  openShift,
+  closeShift,
+  getShiftReport,
+  getShifts,
+} from './shifts.js';
+import {
+  ADJUSTMENT_TYPES,
+  REFUND_METHODS,
+  getVisitAdjustments,
+  requestAdjustment,
+  decideAdjustment,
+  getAdjustments,
+  getVoidedItemRefs,
+  findBillRewriteConflicts,
+} from './adjustments.js';
+import {
+  TARIFF_CATEGORIES,
+  TARIFF_GROUPS,
+  getTariffs,
+  createTariffItem,
+  updateTariffItem,
+  addTariffPrice,
+} from './tariffs.js';
+import {
+  getSchemes,
+  createScheme,
+  updateScheme,
+} from './insuranceSchemes.js';
+import {
+  PREAUTH_DECISIONS,
+  getVisitPreauthorizations,
+  requestPreauthorization,
+  recordPreauthorizationDecision,
+} from './preauthorizations.js';
+import {
+  getClaimableInsurerVisits,
+  createInsurerClaimBatch,
+  submitInsurerClaimBatch,
+  updateInsurerClaimStatus,
+  getInsurerClaimBatches,
+} from './insurerClaims.js';
+import {
+  DEBTOR_TYPES,
+  getReceivables,
+  requestWriteOff,
+  decideWriteOff,
+  getWriteOffs,
+} from './receivables.js';
+import {
+  fiscaliseReceipt,
+  retryFailedFiscalReceipts,
+  getVisitFiscalReceipts,
+  getFiscalReceipts,
+} from './fiscal.js';
+import { getThermalPrinters, sendToThermalPrinter } from './printing.js';
+import { getSettings, updateSettings, isAuditLoggingEnabled } from './settings.js';
+import {
+  APPOINTMENT_DURATIONS,
+  APPOINTMENT_STATUSES,
+  getAppointments,
+  getAvailableSlots,
+  createAppointment,
+  rescheduleAppointment,
+  cancelAppointment,
+  updateAppointmentStatus,
+  getAppointmentHistory,
+  getProviderTemplates,
+  saveProviderTemplates,
+  checkInAppointment,
+  markMissedAppointments,
+  getNoShowReport,
+} from './appointments.js';
+import {
+  getWaitlist,
+  addToWaitlist,
+  removeFromWaitlist,
+  getWaitlistOffers,
+  bookFromWaitlist,
+} from './waitlist.js';
+import { getEyeExam, getPatientEyeExams, saveEyeExam, getIopTarget, setIopTarget } from './eyeExams.js';
+import {
+  REMINDER_LANGUAGES,
+  scheduleReminders,
+  cancelReminders,
+  getReminders,
+  sendDueReminders,
+  handleSmsDeliveryReport,
+  handleInboundSms,
+} from './reminders.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -411,6 +533,7 @@ app.post('/api/patients', authMiddleware, writeRateLimiter, csrfProtection, role
       address: sanitizeString(req.body.address || ''),
       insuranceType: req.body.insuranceType,
       insuranceProvider: req.body.insuranceProvider,
+      insuranceSchemeId: req.body.insuranceSchemeId || null,
       insuranceNumber: sanitizeString(req.body.insuranceNumber || ''),
       nhifAuthNumber: sanitizeString(req.body.nhifAuthNumber || ''),
     };
@@ -455,6 +578,7 @@ app.post('/api/patients', authMiddleware, writeRateLimiter, csrfProtection, role
         address: patientData.address,
         insurance_type: patientData.insuranceType,
         insurance_provider: patientData.insuranceProvider,
+        insurance_scheme_id: patientData.insuranceSchemeId,
         insurance_policy_number: patientData.insuranceNumber,
         insurance_member_number: patientData.insuranceNumber,
         created_by: req.user.sub,
@@ -509,17 +633,25 @@ app.get('/api/patients/:id', authMiddleware, async (req, res) => {
 
     let prescriptions = [];
     let billItems = [];
+    let activeVisit = null;
     try {
-      const [rxRes, biRes] = await Promise.all([
+      const [rxRes, biRes, visitRes] = await Promise.all([
         supabase.from('prescriptions').select('*').eq('patient_id', patientId).order('created_at', { ascending: false }),
         supabase.from('bill_items').select('*').eq('patient_id', patientId),
+        supabase.from('visits').select('id').eq('patient_id', patientId).in('status', ['REGISTERED', 'IN_PROGRESS']).order('created_at', { ascending: false }).limit(1),
       ]);
       if (!rxRes.error) prescriptions = rxRes.data || [];
       if (!biRes.error) billItems = biRes.data || [];
+      if (!visitRes.error && visitRes.data && visitRes.data.length > 0) activeVisit = visitRes.data[0];
     } catch (_) {
       // tables may not exist yet; return patient without rx/bill
     }
 
+    // Bill items from earlier encounters belong to those visits, not the current bill
+    if (activeVisit) {
+      billItems = billItems.filter((b) => !b.visit_id || b.visit_id === activeVisit.id);
+    }
+
     const latestRx = prescriptions[0];
     const prescription = latestRx ? {
       od: latestRx.od,
@@ -538,9 +670,13 @@ app.get('/api/patients/:id', authMiddleware, async (req, res) => {
       category: b.category,
       isCoveredByNHIF: !!b.is_covered_by_nhif,
       isCoveredByPrivate: b.is_covered_by_private !== false,
+      nhifItemCode: b.nhif_item_code || undefined,
+      tariffCode: b.tariff_code || undefined,
+      voidedAt: b.voided_at || undefined,
     }));
 
     const patientOut = mapPatientToFrontend(patient);
+    patientOut.visitId = activeVisit ? activeVisit.id : undefined;
     patientOut.prescription = prescription;
     patientOut.billItems = billItemsMapped;
     patientOut.prescriptionHistory = prescriptions.slice(1).map((p) => ({
@@ -583,6 +719,60 @@ app.put('/api/patients/:id', authMiddleware, writeRateLimiter, csrfProtection, r
       return res.status(400).json({ error: 'Validation failed', errors: validation.errors });
     }
 
+    // The visit, prescription and bill are all checked before the patient row is written
+    const visitId = req.body.visitId || null;
+    if (visitId) {
+      if (!isUuid(visitId)) {
+        return res.status(400).json({ error: 'Invalid visit id' });
+      }
+      const { data: ownVisit } = await supabase
+        .from('visits')
+        .select('id')
+        .eq('id', visitId)
+        .eq('patient_id', patientId)
+        .maybeSingle();
+      if (!ownVisit) {
+        return res.status(400).json({ error: 'Visit does not belong to this patient' });
+      }
+    }
+
+    const prescription = req.body.prescription && typeof req.body.prescription === 'object' ? req.body.prescription : null;
+    if (prescription) {
+      const rxVal = validatePrescription({
+        od: prescription.od,
+        os: prescription.os,
+        addOd: prescription.addOd,
+        addOs: prescription.addOs,
+        add: prescription.add,
+      });
+      if (!rxVal.isValid) {
+        return res.status(400).json({ error: 'Validation failed', errors: rxVal.errors });
+      }
+    }
+
+    let newBillItems = null;
+    if (Array.isArray(req.body.billItems) && req.body.billItems.length > 0) {
+      const voidedRefs = visitId ? await getVoidedItemRefs(visitId) : [];
+      newBillItems = req.body.billItems.filter((it) => !(it?.voidedAt || voidedRefs.includes(it?.id)));
+      const biVal = validateBillItems(newBillItems);
+      if (!biVal.isValid) {
+        return res.status(400).json({ error: 'Invalid bill items', invalidItems: biVal.invalidItems });
+      }
+      const { dropped, changed } = await findBillRewriteConflicts(patientId, visitId, newBillItems);
+      if (dropped.length > 0) {
+        return res.status(400).json({
+          error: 'Bill items can only be removed through a void request',
+          droppedItems: dropped.map((row) => ({ id: row.external_id || row.id, description: row.description })),
+        });
+      }
+      if (changed.length > 0) {
+        return res.status(400).json({
+          error: 'Charges on a paid visit can only be changed through a void or credit note',
+          changedItems: changed.map((row) => ({ id: row.external_id || row.id, description: row.description })),
+        });
+      }
+    }
+
     const u = {};
     if (req.body.name !== undefined) u.name = sanitizeString(req.body.name);
     if (req.body.phone !== undefined) u.phone = sanitizePhone(req.body.phone);
@@ -591,6 +781,7 @@ app.put('/api/patients/:id', authMiddleware, writeRateLimiter, csrfProtection, r
     if (req.body.address !== undefined) u.address = sanitizeString(req.body.address || '');
     if (req.body.insuranceType !== undefined) u.insurance_type = req.body.insuranceType;
     if (req.body.insuranceProvider !== undefined) u.insurance_provider = req.body.insuranceProvider;
+    if (req.body.insuranceSchemeId !== undefined) u.insurance_scheme_id = req.body.insuranceSchemeId || null;
     if (req.body.insuranceNumber !== undefined) u.insurance_policy_number = req.body.insuranceNumber;
     if (req.body.nhifAuthNumber !== undefined) u.nhif_auth_number = sanitizeString(req.body.nhifAuthNumber || '');
     if (req.body.status !== undefined) u.status = req.body.status;
@@ -615,62 +806,24 @@ app.put('/api/patients/:id', authMiddleware, writeRateLimiter, csrfProtection, r
       return res.status(400).json({ error: error.message });
     }
 
-    const prescription = req.body.prescription;
-    if (prescription && typeof prescription === 'object') {
-      const rxVal = validatePrescription({
-        od: prescription.od,
-        os: prescription.os,
-        add: prescription.addOd || prescription.addOs || prescription.add,
-      });
-      if (rxVal.isValid) {
-        await supabase.from('prescriptions').insert({
-          patient_id: patientId,
-          od: prescription.od,
-          os: prescription.os,
-          add_od: prescription.addOd,
-          add_os: prescription.addOs,
-          edge_color: prescription.edgeColor,
-          sphere_od: prescription.sphereOD,
-          sphere_os: prescription.sphereOS,
-          cylinder_od: prescription.cylinderOD,
-          cylinder_os: prescription.cylinderOS,
-          axis_od: prescription.axisOD,
-          axis_os: prescription.axisOS,
-          prism_od: prescription.prismOD,
-          prism_os: prescription.prismOS,
-          base_od: prescription.baseOD,
-          base_os: prescription.baseOS,
-          pupillary_distance: prescription.pupillaryDistance,
-          segment_height: prescription.segmentHeight,
-          lens_type: prescription.lensType,
-          medications: prescription.medications || [],
-          created_by: req.user.sub,
-        });
+    if (prescription) {
+      const { error: rxError } = await saveVisitPrescription(patientId, visitId, prescription, req.user.sub);
+      if (rxError) {
+        return res.status(400).json({ error: rxError.message });
       }
     }
 
-    const billItems = req.body.billItems;
-    if (Array.isArray(billItems) && billItems.length > 0) {
-      await supabase.from('bill_items').delete().eq('patient_id', patientId);
-      for (const it of billItems) {
-        const biVal = validateBillItem(it);
-        if (!biVal.isValid) continue;
-        await supabase.from('bill_items').insert({
-          patient_id: patientId,
-          external_id: it.id,
-          description: sanitizeString(it.description),
-          amount: parseFloat(it.amount),
-          category: it.category,
-          is_covered_by_nhif: !!it.isCoveredByNHIF,
-          is_covered_by_private: it.isCoveredByPrivate !== false,
-          created_by: req.user.sub,
-        });
+    if (newBillItems) {
+      const { error: biError } = await replaceBillItems(patientId, visitId, newBillItems, req.user.sub);
+      if (biError) {
+        return res.status(400).json({ error: biError.message || 'Failed to save bill items' });
       }
     }
 
     await logAuthAction(req.user.sub, 'UPDATE_PATIENT', req.ip);
 
     const patientOut = mapPatientToFrontend(updated[0]);
+    if (visitId) patientOut.visitId = visitId;
     res.json({ success: true, patient: patientOut, message: 'Patient updated successfully' });
   } catch (error) {
     console.error('Patient update error:', error);
@@ -694,7 +847,9 @@ app.post('/api/patients/:id/prescriptions', authMiddleware, roleMiddleware(PATIE
     const rxVal = validatePrescription({
       od: body.od,
       os: body.os,
-      add: body.addOd || body.addOs || body.add,
+      addOd: body.addOd,
+      addOs: body.addOs,
+      add: body.add,
       clinicalNotes: body.clinicalNotes,
       diagnosis: body.diagnosis,
     });
@@ -706,6 +861,7 @@ app.post('/api/patients/:id/prescriptions', authMiddleware, roleMiddleware(PATIE
       .from('prescriptions')
       .insert({
         patient_id: patientId,
+        visit_id: body.visitId || null,
         od: body.od,
         os: body.os,
         add_od: body.addOd,
@@ -780,7 +936,8 @@ app.get('/api/patients/:id/prescriptions', authMiddleware, async (req, res) => {
 
 /**
  * GET /api/patients/:id/prescriptions/history
- * Alias for prescription history (same as GET /prescriptions).
+ * Prescription history for comparing refractions between visits: as GET /prescriptions,
+ * plus the visit, its provider and the optical items dispensed on it.
  */
 app.get('/api/patients/:id/prescriptions/history', authMiddleware, async (req, res) => {
   try {
@@ -791,19 +948,36 @@ app.get('/api/patients/:id/prescriptions/history', authMiddleware, async (req, r
 
     const { data: rows, error } = await supabase
       .from('prescriptions')
-      .select('*')
+      .select('*, visits(providers(name))')
       .eq('patient_id', patientId)
       .order('created_at', { ascending: false });
 
     if (error) return res.status(400).json({ error: error.message });
 
+    const visitIds = [...new Set((rows || []).map((p) => p.visit_id).filter(Boolean))];
+    const dispensedByVisit = {};
+    if (visitIds.length > 0) {
+      const { data: items } = await supabase
+        .from('bill_items')
+        .select('visit_id, description')
+        .in('visit_id', visitIds)
+        .eq('category', 'OPTICAL')
+        .is('voided_at', null);
+      for (const item of items || []) {
+        (dispensedByVisit[item.visit_id] = dispensedByVisit[item.visit_id] || []).push(item.description);
+      }
+    }
+
     const history = (rows || []).map((p) => ({
       id: p.id,
+      visitId: p.visit_id,
       date: p.created_at,
       od: p.od,
       os: p.os,
       addOd: p.add_od,
       addOs: p.add_os,
+      providerName: p.visits?.providers?.name || null,
+      dispensedItems: (p.visit_id && dispensedByVisit[p.visit_id]) || [],
       medications: p.medications || [],
     }));
 
@@ -814,6 +988,102 @@ app.get('/api/patients/:id/prescriptions/history', authMiddleware, async (req, r
   }
 });
 
+/**
+ * Verification codes: 32 characters, or the 10 printed before migration 029
+ */
+const PRESCRIPTION_CODE_PATTERN = /^([A-F0-9]{10}|[A-F0-9]{32})$/;
+
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, (ch) => (
+  { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]
+));
+
+/**
+ * The page a phone shows after scanning the QR code on a printed prescription
+ */
+function renderPrescriptionVerificationPage(result) {
+  const rx = result.prescription;
+  const rows = rx ? [
+    ['Issued', String(rx.issuedAt).slice(0, 10)],
+    ['Patient initials', rx.patientInitials || '-'],
+    ['Prescriber', rx.prescriberName || '-'],
+    ['Registration No', rx.prescriberRegistrationNumber || '-'],
+    ['Spectacle prescription', rx.hasSpectacleRx ? 'Yes' : 'No'],
+    ['Medications', String(rx.medicationCount)],
+  ] : [];
+  const heading = result.valid ? 'Prescription verified' : 'Prescription not found';
+  const colour = result.valid ? '#006633' : '#b91c1c';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(heading)}</title>
+</head>
+<body style="font-family: sans-serif; max-width: 28rem; margin: 2rem auto; padding: 0 1rem; color: #111;">
+<h1 style="color: ${colour}; font-size: 1.4rem;">${escapeHtml(heading)}</h1>
+${result.valid
+    ? `<p>This prescription was issued by the clinic. Check the details below match the paper.</p>
+<table style="border-collapse: collapse; width: 100%;">
+${rows.map(([label, value]) => `<tr><th style="text-align: left; padding: 0.4rem 0; color: #555; font-weight: normal;">${escapeHtml(label)}</th><td style="padding: 0.4rem 0; font-weight: bold;">${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>`
+    : `<p>${escapeHtml(result.error)}. Do not dispense against this prescription without contacting the clinic.</p>`}
+</body>
+</html>`;
+}
+
+/**
+ * GET /api/prescriptions/verify/:code
+ * Public lookup behind the QR code on printed prescriptions. Lets an optical lab or
+ * pharmacy confirm the prescription was issued here and by whom; returns patient
+ * initials only and no lens powers or drugs, so the code alone discloses nothing clinical.
+ * A browser (the phone that scanned the QR) gets a readable page; API clients get JSON.
+ * Failed lookups are rate limited so codes cannot be guessed.
+ */
+app.get('/api/prescriptions/verify/:code', lookupRateLimiter, async (req, res) => {
+  const wantsPage = req.accepts(['json', 'html']) === 'html';
+  const reply = (status, body) => (wantsPage
+    ? res.status(status).type('html').send(renderPrescriptionVerificationPage(body))
+    : res.status(status).json(body));
+
+  try {
+    const code = String(req.params.code || '').trim().toUpperCase();
+    if (!PRESCRIPTION_CODE_PATTERN.test(code)) {
+      return reply(400, { success: false, valid: false, error: 'Invalid verification code' });
+    }
+
+    const { data: rx, error } = await supabase
+      .from('prescriptions')
+      .select('created_at, od, os, medications, patients(name), visits(providers(name, registration_number))')
+      .eq('verification_code', code)
+      .maybeSingle();
+
+    if (error) return reply(400, { success: false, valid: false, error: error.message });
+    if (!rx) return reply(404, { success: false, valid: false, error: 'Prescription not found' });
+
+    const initials = String(rx.patients?.name || '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase())
+      .join('');
+
+    reply(200, {
+      success: true,
+      valid: true,
+      prescription: {
+        issuedAt: rx.created_at,
+        patientInitials: initials || null,
+        prescriberName: rx.visits?.providers?.name || null,
+        prescriberRegistrationNumber: rx.visits?.providers?.registration_number || null,
+        hasSpectacleRx: !!(rx.od || rx.os),
+        medicationCount: Array.isArray(rx.medications) ? rx.medications.length : 0,
+      },
+    });
+  } catch (err) {
+    console.error('Verify prescription error:', err);
+    reply(500, { success: false, valid: false, error: 'Failed to verify prescription' });
+  }
+});
+
 /**
  * POST /api/patients/:id/bill-items
  * Add bill item(s) for patient
@@ -827,10 +1097,13 @@ app.post('/api/patients/:id/bill-items', authMiddleware, roleMiddleware(PATIENT_
     if (pe || !patient) return res.status(404).json({ error: 'Patient not found' });
     if (!checkPatientAccess(req.user, patient)) return res.status(403).json({ error: 'Access denied' });
 
+    const biVal = validateBillItems(items);
+    if (!biVal.isValid) {
+      return res.status(400).json({ error: 'Invalid bill items', invalidItems: biVal.invalidItems });
+    }
+
     const inserted = [];
     for (const it of items) {
-      const biVal = validateBillItem(it);
-      if (!biVal.isValid) continue;
       const { data: bi, error } = await supabase
         .from('bill_items')
         .insert({
@@ -841,6 +1114,8 @@ app.post('/api/patients/:id/bill-items', authMiddleware, roleMiddleware(PATIENT_
           category: it.category,
           is_covered_by_nhif: !!it.isCoveredByNHIF,
           is_covered_by_private: it.isCoveredByPrivate !== false,
+          nhif_item_code: it.nhifItemCode || null,
+          tariff_code: it.tariffCode || null,
           created_by: req.user.sub,
         })
         .select('*');
@@ -883,6 +1158,9 @@ app.get('/api/patients/:id/billing', authMiddleware, async (req, res) => {
       category: b.category,
       isCoveredByNHIF: !!b.is_covered_by_nhif,
       isCoveredByPrivate: b.is_covered_by_private !== false,
+      nhifItemCode: b.nhif_item_code || undefined,
+      tariffCode: b.tariff_code || undefined,
+      voidedAt: b.voided_at || undefined,
     }));
 
     const total = billItems.reduce((s, b) => s + b.amount, 0);
@@ -979,6 +1257,7 @@ function mapPatientToFrontend(row) {
     gender: row.gender,
     insuranceType: row.insurance_type,
     insuranceProvider: row.insurance_provider,
+    insuranceSchemeId: row.insurance_scheme_id || undefined,
     insuranceNumber: row.insurance_policy_number || row.insurance_member_number,
     nhifAuthNumber: row.nhif_auth_number,
     status: row.status || 'WAITING',
@@ -993,6 +1272,152 @@ function mapPatientToFrontend(row) {
   };
 }
 
+/**
+ * Prescription columns from the refraction fields sent by the frontend
+ */
+function mapPrescriptionToDb(rx) {
+  return {
+    od: rx.od,
+    os: rx.os,
+    add_od: rx.addOd,
+    add_os: rx.addOs,
+    edge_color: rx.edgeColor,
+    sphere_od: rx.sphereOD,
+    sphere_os: rx.sphereOS,
+    cylinder_od: rx.cylinderOD,
+    cylinder_os: rx.cylinderOS,
+    axis_od: rx.axisOD,
+    axis_os: rx.axisOS,
+    prism_od: rx.prismOD,
+    prism_os: rx.prismOS,
+    base_od: rx.baseOD,
+    base_os: rx.baseOS,
+    pupillary_distance: rx.pupillaryDistance,
+    segment_height: rx.segmentHeight,
+    lens_type: rx.lensType,
+    medications: rx.medications || [],
+  };
+}
+
+/**
+ * Store a patient's prescription. A visit keeps one prescription, updated in place so
+ * its verification code (and any printout carrying it) stays valid across saves;
+ * without a visit a new prescription is added to the history.
+ */
+async function saveVisitPrescription(patientId, visitId, rx, userId) {
+  if (visitId) {
+    const { data: existing, error: lookupError } = await supabase
+      .from('prescriptions')
+      .select('id')
+      .eq('visit_id', visitId)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    if (lookupError) {
+      return { prescription: null, error: lookupError };
+    }
+    if (existing) {
+      const { data, error } = await supabase
+        .from('prescriptions')
+        .update({ ...mapPrescriptionToDb(rx), updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select('*')
+        .single();
+      return { prescription: data, error };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('prescriptions')
+    .insert({ patient_id: patientId, visit_id: visitId || null, ...mapPrescriptionToDb(rx), created_by: userId })
+    .select('*')
+    .single();
+  return { prescription: data, error };
+}
+
+/**
+ * Replace a visit's bill (or, without a visit, the patient's items not yet on one) in
+ * one transaction: every line is written or none is. Voided items stay as they are
+ * for the audit trail, and unassigned items the bill lists move onto the visit.
+ */
+async function replaceBillItems(patientId, visitId, items, userId) {
+  const { data, error } = await supabase.rpc('replace_bill_items', {
+    p_patient_id: patientId,
+    p_visit_id: visitId || null,
+    p_items: items.map((it) => ({
+      external_id: it.id,
+      description: sanitizeString(it.description),
+      amount: parseFloat(it.amount),
+      category: it.category,
+      is_covered_by_nhif: !!it.isCoveredByNHIF,
+      is_covered_by_private: it.isCoveredByPrivate !== false,
+      nhif_item_code: it.nhifItemCode || null,
+      tariff_code: it.tariffCode || null,
+    })),
+    p_user_id: userId,
+  });
+  return { billItems: data || [], error };
+}
+
+/**
+ * Public link opened by the QR code on a printed prescription. Needs the address this
+ * API is reachable at from outside the clinic; without it the QR carries text instead.
+ */
+function prescriptionVerificationUrl(verificationCode) {
+  const baseUrl = process.env.PRESCRIPTION_VERIFY_BASE_URL;
+  if (!baseUrl || !verificationCode) return undefined;
+  return `${baseUrl.replace(/\/$/, '')}/api/prescriptions/verify/${encodeURIComponent(verificationCode)}`;
+}
+
+/**
+ * Map a visit row plus its prescription and bill items to a frontend Encounter
+ */
+function mapEncounterToFrontend(visit, prescription, billItems = [], provider = null) {
+  return {
+    id: visit.id,
+    patientId: visit.patient_id,
+    visitDate: visit.visit_date,
+    visitTime: visit.visit_time,
+    department: visit.department,
+    payerType: visit.payer_type,
+    insuranceProvider: visit.insurance_provider || undefined,
+    status: visit.status,
+    createdAt: visit.created_at,
+    updatedAt: visit.updated_at,
+    createdBy: visit.created_by || undefined,
+    updatedBy: visit.updated_by || undefined,
+    providerId: visit.provider_id || undefined,
+    providerName: provider ? provider.name : undefined,
+    chiefComplaint: visit.chief_complaint || undefined,
+    clinicalNotes: visit.clinical_notes || undefined,
+    consultationNotes: visit.consultation_notes || undefined,
+    diagnoses: Array.isArray(visit.diagnoses) ? visit.diagnoses : [],
+    refraction: prescription ? {
+      od: prescription.od,
+      os: prescription.os,
+      add: prescription.add_od || prescription.add_os,
+      addOd: prescription.add_od,
+      addOs: prescription.add_os,
+      edgeColor: prescription.edge_color,
+      medications: prescription.medications || [],
+      verificationCode: prescription.verification_code,
+      verificationUrl: prescriptionVerificationUrl(prescription.verification_code),
+    } : undefined,
+    billItems: billItems.map((b) => ({
+      id: b.external_id || b.id,
+      description: b.description,
+      amount: parseFloat(b.amount),
+      category: b.category,
+      isCoveredByNHIF: !!b.is_covered_by_nhif,
+      isCoveredByPrivate: b.is_covered_by_private !== false,
+      nhifItemCode: b.nhif_item_code || undefined,
+      tariffCode: b.tariff_code || undefined,
+      voidedAt: b.voided_at || undefined,
+    })),
+    completedAt: visit.completed_at || undefined,
+  };
+}
+
 /**
  * Check if user can access patient based on role
  */
@@ -1168,6 +1593,169 @@ app.get('/api/nhif/verification/:visitId', authMiddleware, async (req, res) => {
   }
 });
 
+const CLAIM_ROLES = ['claim_officer', 'super_admin', 'clinic_manager'];
+const CLAIM_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/nhif/claims/claimable?month=YYYY-MM
+ * Completed, verified NHIF visits in the month that have no claim folio yet
+ */
+app.get('/api/nhif/claims/claimable', authMiddleware, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const { month } = req.query;
+    if (!month || !CLAIM_MONTH_PATTERN.test(month)) {
+      return res.status(400).json({ error: 'Claim month (YYYY-MM) is required' });
+    }
+
+    const result = await getClaimableNHIFVisits(month);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch claimable visits' });
+    }
+
+    res.json({ success: true, visits: result.visits });
+  } catch (err) {
+    console.error('Get claimable NHIF visits error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/nhif/claims/batches
+ * List claim batches with their folios
+ */
+app.get('/api/nhif/claims/batches', authMiddleware, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const result = await getNHIFClaimBatches();
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch claim batches' });
+    }
+
+    res.json({ success: true, batches: result.batches });
+  } catch (err) {
+    console.error('Get NHIF claim batches error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/nhif/claims/batches
+ * Build (or extend) the draft batch for a month from claimable visits
+ */
+app.post('/api/nhif/claims/batches', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const { month } = req.body;
+    if (!month || !CLAIM_MONTH_PATTERN.test(month)) {
+      return res.status(400).json({ error: 'Claim month (YYYY-MM) is required' });
+    }
+
+    const result = await createNHIFClaimBatch(month, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to create claim batch' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'NHIF_CLAIM_BATCH_CREATE', 'NHIF_CLAIM_BATCH', result.batch.id, req.ip, {
+      month,
+      addedFolios: result.addedFolios,
+      totalAmount: result.batch.total_amount,
+    });
+
+    res.status(201).json({ success: true, batch: result.batch, addedFolios: result.addedFolios });
+  } catch (err) {
+    console.error('Create NHIF claim batch error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/nhif/claims/batches/:id/submit
+ * Submit a draft batch to NHIF
+ */
+app.post('/api/nhif/claims/batches/:id/submit', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await submitNHIFClaimBatch(id, req.user.sub);
+
+    await logCriticalOperation(req.user.sub, 'NHIF_CLAIM_SUBMIT', 'NHIF_CLAIM_BATCH', id, req.ip, {
+      success: result.success,
+      submissionReference: result.submissionReference,
+      submittedFolios: result.submittedFolios,
+      error: result.error,
+    });
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to submit claim batch' });
+    }
+
+    res.json({
+      success: true,
+      submissionReference: result.submissionReference,
+      submittedFolios: result.submittedFolios,
+    });
+  } catch (err) {
+    console.error('Submit NHIF claim batch error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/nhif/claims/folios/:id/status
+ * Record NHIF's outcome for a folio (ACCEPTED, REJECTED with reason, PAID)
+ */
+app.put('/api/nhif/claims/folios/:id/status', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status, rejectionReason, paidAmount } = req.body;
+
+    if (!['ACCEPTED', 'REJECTED', 'PAID'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be ACCEPTED, REJECTED or PAID' });
+    }
+    if (paidAmount !== undefined && (isNaN(parseFloat(paidAmount)) || parseFloat(paidAmount) < 0)) {
+      return res.status(400).json({ error: 'Paid amount must be a positive number' });
+    }
+
+    const result = await updateNHIFClaimFolioStatus(id, {
+      status,
+      rejectionReason: rejectionReason ? sanitizeString(rejectionReason) : undefined,
+      paidAmount: paidAmount !== undefined ? parseFloat(paidAmount) : undefined,
+    }, req.user.sub);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to update claim folio' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'NHIF_CLAIM_FOLIO_UPDATE', 'NHIF_CLAIM_FOLIO', id, req.ip, {
+      status,
+      rejectionReason,
+      paidAmount,
+    });
+
+    res.json({ success: true, folio: result.folio });
+  } catch (err) {
+    console.error('Update NHIF claim folio error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/nhif/claims/visits/:visitId/form
+ * Data for the NHIF claim form (Form 2A/2B) of a verified NHIF visit
+ */
+app.get('/api/nhif/claims/visits/:visitId/form', authMiddleware, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const result = await getNHIFClaimFormData(req.params.visitId);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to load claim form data' });
+    }
+
+    res.json({ success: true, form: result.form });
+  } catch (err) {
+    console.error('Get NHIF claim form error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * POST /api/visits
  * Create a new visit
@@ -1271,50 +1859,2228 @@ app.get('/api/visits/patient/:patientId', authMiddleware, async (req, res) => {
 });
 
 /**
- * GET /api/nhif/config
- * Get NHIF facility configuration (admin only)
+ * GET /api/visits/patient/:patientId/history
+ * List all encounters for a patient (newest first) with their refraction and bill items
  */
-app.get('/api/nhif/config', authMiddleware, roleMiddleware(['super_admin']), async (req, res) => {
+app.get('/api/visits/patient/:patientId/history', authMiddleware, async (req, res) => {
   try {
-    const { data: config, error } = await supabase
-      .from('nhif_facility_config')
+    const { patientId } = req.params;
+
+    const { data: patient, error: pe } = await supabase.from('patients').select('*').eq('id', patientId).single();
+    if (pe || !patient) return res.status(404).json({ error: 'Patient not found' });
+    if (!checkPatientAccess(req.user, patient)) return res.status(403).json({ error: 'Access denied' });
+
+    const { data: visits, error } = await supabase
+      .from('visits')
       .select('*')
-      .eq('is_active', true)
-      .order('updated_at', { ascending: false })
-      .limit(1)
-      .single();
+      .eq('patient_id', patientId)
+      .order('created_at', { ascending: false });
 
-    if (error && error.code !== 'PGRST116') {
-      return res.status(400).json({ error: error.message || 'Failed to fetch NHIF config' });
+    if (error) {
+      return res.status(400).json({ error: error.message || 'Failed to fetch visit history' });
     }
 
-    // Mask password for security
-    if (config && config.nhif_password) {
-      config.nhif_password = '••••••••';
+    const visitIds = (visits || []).map((v) => v.id);
+    let prescriptions = [];
+    let billItems = [];
+    let providers = [];
+    if (visitIds.length > 0) {
+      const providerIds = [...new Set((visits || []).map((v) => v.provider_id).filter(Boolean))];
+      const [rxRes, biRes, provRes] = await Promise.all([
+        supabase.from('prescriptions').select('*').in('visit_id', visitIds).order('created_at', { ascending: false }),
+        supabase.from('bill_items').select('*').in('visit_id', visitIds),
+        providerIds.length > 0
+          ? supabase.from('providers').select('id, name').in('id', providerIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+      if (!rxRes.error) prescriptions = rxRes.data || [];
+      if (!biRes.error) billItems = biRes.data || [];
+      if (!provRes.error) providers = provRes.data || [];
     }
 
-    res.json({ config: config || null });
+    const encounters = (visits || []).map((v) => mapEncounterToFrontend(
+      v,
+      prescriptions.find((p) => p.visit_id === v.id),
+      billItems.filter((b) => b.visit_id === v.id),
+      providers.find((p) => p.id === v.provider_id)
+    ));
+
+    res.json({ success: true, encounters });
   } catch (err) {
-    console.error('Get NHIF config error:', err);
-    res.status(500).json({ error: 'Internal server error' });
+    console.error('Get visit history error:', err);
+    res.status(500).json({ error: 'Failed to fetch visit history' });
   }
 });
 
 /**
- * POST /api/nhif/config
- * Update NHIF facility configuration (admin only)
+ * PUT /api/visits/:id/encounter
+ * Record clinical data (notes, diagnoses, refraction, bill items, status) against a visit.
+ * Closed visits (COMPLETED/CANCELLED) are read-only.
  */
-app.post('/api/nhif/config', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(['super_admin']), async (req, res) => {
+app.put('/api/visits/:id/encounter', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PATIENT_UPDATE_ROLES), async (req, res) => {
   try {
-    const { facilityCode, facilityName, nhifApiUrl, nhifUsername, nhifPassword } = req.body;
+    const { id } = req.params;
+    const body = req.body || {};
 
-    if (!facilityCode || !facilityCode.trim()) {
-      return res.status(400).json({ error: 'Facility code is required' });
+    const { data: visit, error: ve } = await supabase.from('visits').select('*').eq('id', id).single();
+    if (ve || !visit) {
+      return res.status(404).json({ error: 'Visit not found' });
     }
-    if (!nhifUsername || !nhifUsername.trim()) {
-      return res.status(400).json({ error: 'NHIF username is required' });
+    if (visit.status === 'COMPLETED' || visit.status === 'CANCELLED') {
+      return res.status(400).json({ error: 'Visit is closed and can no longer be modified' });
     }
-    if (!nhifPassword || nhifPassword === '••••••••') {
+    if (body.status !== undefined && !['REGISTERED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'].includes(body.status)) {
+      return res.status(400).json({ error: 'Invalid visit status' });
+    }
+    if (body.diagnoses !== undefined && !Array.isArray(body.diagnoses)) {
+      return res.status(400).json({ error: 'Diagnoses must be an array' });
+    }
+
+    const { data: patient, error: pe } = await supabase.from('patients').select('*').eq('id', visit.patient_id).single();
+    if (pe || !patient) return res.status(404).json({ error: 'Patient not found' });
+    if (!checkPatientAccess(req.user, patient)) return res.status(403).json({ error: 'Access denied' });
+
+    // Everything is validated before anything is written
+    const refraction = body.refraction && typeof body.refraction === 'object' ? body.refraction : null;
+    if (refraction) {
+      const rxVal = validatePrescription({
+        od: refraction.od,
+        os: refraction.os,
+        addOd: refraction.addOd,
+        addOs: refraction.addOs,
+        add: refraction.add,
+      });
+      if (!rxVal.isValid) {
+        return res.status(400).json({ error: 'Validation failed', errors: rxVal.errors });
+      }
+    }
+
+    let newBillItems = null;
+    if (Array.isArray(body.billItems)) {
+      const voidedRefs = await getVoidedItemRefs(id);
+      newBillItems = body.billItems.filter((it) => !(it?.voidedAt || voidedRefs.includes(it?.id)));
+      const biVal = validateBillItems(newBillItems);
+      if (!biVal.isValid) {
+        return res.status(400).json({ error: 'Invalid bill items', invalidItems: biVal.invalidItems });
+      }
+      const { dropped, changed } = await findBillRewriteConflicts(visit.patient_id, id, newBillItems);
+      if (dropped.length > 0) {
+        return res.status(400).json({
+          error: 'Bill items can only be removed through a void request',
+          droppedItems: dropped.map((row) => ({ id: row.external_id || row.id, description: row.description })),
+        });
+      }
+      if (changed.length > 0) {
+        return res.status(400).json({
+          error: 'Charges on a paid visit can only be changed through a void or credit note',
+          changedItems: changed.map((row) => ({ id: row.external_id || row.id, description: row.description })),
+        });
+      }
+    }
+
+    // Prescription and bill first, the visit row last, so a failed write never leaves
+    // the visit closed against a retry
+    let prescription = null;
+    if (refraction) {
+      const { prescription: rx, error: rxError } = await saveVisitPrescription(visit.patient_id, id, refraction, req.user.sub);
+      if (rxError || !rx) {
+        return res.status(400).json({ error: rxError?.message || 'Failed to save prescription' });
+      }
+      prescription = rx;
+    }
+
+    let billItems = null;
+    if (newBillItems) {
+      const replaced = await replaceBillItems(visit.patient_id, id, newBillItems, req.user.sub);
+      if (replaced.error) {
+        return res.status(400).json({ error: replaced.error.message || 'Failed to save bill items' });
+      }
+      billItems = replaced.billItems;
+    }
+
+    const u = { updated_by: req.user.sub, updated_at: new Date().toISOString() };
+    if (body.providerId !== undefined) u.provider_id = body.providerId || null;
+    if (body.chiefComplaint !== undefined) u.chief_complaint = sanitizeString(body.chiefComplaint || '');
+    if (body.clinicalNotes !== undefined) u.clinical_notes = sanitizeString(body.clinicalNotes || '');
+    if (body.consultationNotes !== undefined) u.consultation_notes = sanitizeString(body.consultationNotes || '');
+    if (body.diagnoses !== undefined) u.diagnoses = body.diagnoses.map((d) => sanitizeString(String(d))).filter(Boolean);
+    if (body.status !== undefined) {
+      u.status = body.status;
+      if (body.status === 'COMPLETED') u.completed_at = new Date().toISOString();
+    }
+
+    const { data: updated, error } = await supabase
+      .from('visits')
+      .update(u)
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    await logCriticalOperation(req.user.sub, 'UPDATE_ENCOUNTER', 'VISIT', id, req.ip, {
+      patientId: visit.patient_id,
+      status: updated.status,
+      hasRefraction: !!prescription,
+      billItemCount: billItems ? billItems.length : undefined,
+    });
+
+    if (!prescription) {
+      const { data: rxRows } = await supabase.from('prescriptions').select('*').eq('visit_id', id).limit(1);
+      prescription = rxRows && rxRows[0] ? rxRows[0] : null;
+    }
+    // Re-read so voided items kept through a bill rewrite are returned too
+    const { data: biRows } = await supabase.from('bill_items').select('*').eq('visit_id', id);
+    billItems = biRows || billItems || [];
+
+    res.json({ success: true, encounter: mapEncounterToFrontend(updated, prescription, billItems) });
+  } catch (err) {
+    console.error('Update encounter error:', err);
+    res.status(500).json({ error: 'Failed to update encounter' });
+  }
+});
+
+const EYE_EXAM_ROLES = ['optometrist', 'super_admin', 'clinic_manager'];
+
+/**
+ * GET /api/visits/:id/eye-exam
+ * Structured eye exam recorded at a visit (null when none yet)
+ */
+app.get('/api/visits/:id/eye-exam', authMiddleware, async (req, res) => {
+  try {
+    const result = await getEyeExam(req.params.id);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch eye exam' });
+    }
+    res.json({ success: true, exam: result.exam });
+  } catch (err) {
+    console.error('Get eye exam error:', err);
+    res.status(500).json({ error: 'Failed to fetch eye exam' });
+  }
+});
+
+/**
+ * PUT /api/visits/:id/eye-exam
+ * Record or replace the structured eye exam for a visit. Values are checked per eye
+ * against their unit's range; closed visits are read-only.
+ */
+app.put('/api/visits/:id/eye-exam', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(EYE_EXAM_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await saveEyeExam(id, req.body || {}, req.user.sub);
+    if (!result.success) {
+      const status = result.error === 'Visit not found' ? 404 : 400;
+      return res.status(status).json({ error: result.error, errors: result.errors });
+    }
+
+    await logCriticalOperation(req.user.sub, 'RECORD_EYE_EXAM', 'VISIT', id, req.ip, {
+      patientId: result.exam.patient_id,
+      iopOd: result.exam.iop_od,
+      iopOs: result.exam.iop_os,
+    });
+
+    res.json({ success: true, exam: result.exam });
+  } catch (err) {
+    console.error('Save eye exam error:', err);
+    res.status(500).json({ error: 'Failed to save eye exam' });
+  }
+});
+
+/**
+ * GET /api/patients/:id/eye-exams
+ * Every structured eye exam for a patient, oldest first
+ */
+app.get('/api/patients/:id/eye-exams', authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { data: patient, error: pe } = await supabase.from('patients').select('*').eq('id', id).single();
+    if (pe || !patient) return res.status(404).json({ error: 'Patient not found' });
+    if (!checkPatientAccess(req.user, patient)) return res.status(403).json({ error: 'Access denied' });
+
+    const result = await getPatientEyeExams(id);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch eye exams' });
+    }
+    res.json({ success: true, exams: result.exams });
+  } catch (err) {
+    console.error('Get patient eye exams error:', err);
+    res.status(500).json({ error: 'Failed to fetch eye exams' });
+  }
+});
+
+/**
+ * GET /api/patients/:id/iop-target
+ * Target IOP band for a patient (null when none has been set)
+ */
+app.get('/api/patients/:id/iop-target', authMiddleware, async (req, res) => {
+  try {
+    const result = await getIopTarget(req.params.id);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch IOP target' });
+    }
+    res.json({ success: true, target: result.target });
+  } catch (err) {
+    console.error('Get IOP target error:', err);
+    res.status(500).json({ error: 'Failed to fetch IOP target' });
+  }
+});
+
+/**
+ * PUT /api/patients/:id/iop-target
+ * Set the target IOP band per eye for a patient
+ */
+app.put('/api/patients/:id/iop-target', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(EYE_EXAM_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await setIopTarget(id, req.body || {}, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    await logCriticalOperation(req.user.sub, 'SET_IOP_TARGET', 'PATIENT', id, req.ip, {
+      od: [result.target.od_low, result.target.od_high],
+      os: [result.target.os_low, result.target.os_high],
+    });
+
+    res.json({ success: true, target: result.target });
+  } catch (err) {
+    console.error('Set IOP target error:', err);
+    res.status(500).json({ error: 'Failed to set IOP target' });
+  }
+});
+
+const PAYMENT_ROLES = ['billing_officer', 'super_admin', 'clinic_manager'];
+const SHIFT_SUPERVISOR_ROLES = ['super_admin', 'clinic_manager'];
+
+/**
+ * Reject the request unless the user has an open cashier shift
+ */
+const requireOpenShift = async (req, res, next) => {
+  const result = await getOpenShift(req.user.sub);
+  if (!result.success) {
+    return res.status(500).json({ error: 'Failed to check cashier shift' });
+  }
+  if (!result.shift) {
+    return res.status(409).json({ error: 'Open a cashier shift before taking payments' });
+  }
+  req.shift = result.shift;
+  next();
+};
+
+/**
+ * GET /api/visits/:id/payments
+ * Payments recorded against a visit with the bill total and outstanding balance
+ */
+app.get('/api/visits/:id/payments', authMiddleware, roleMiddleware(PAYMENT_ROLES), async (req, res) => {
+  try {
+    const result = await getVisitBalance(req.params.id);
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch payments' });
+    }
+    const fiscalReceipts = await getVisitFiscalReceipts(req.params.id);
+    res.json({ success: true, balance: result.balance, payments: result.payments, fiscalReceipts });
+  } catch (err) {
+    console.error('Get visit payments error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/visits/:id/payments
+ * Record one or more payment lines (split tender) against a visit under one receipt
+ */
+app.post('/api/visits/:id/payments', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PAYMENT_ROLES), requireOpenShift, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { payments } = req.body;
+
+    if (!Array.isArray(payments) || payments.length === 0) {
+      return res.status(400).json({ error: 'At least one payment line is required' });
+    }
+    if (payments.some((p) => !PAYMENT_METHODS.includes(p.method))) {
+      return res.status(400).json({ error: `Payment method must be one of ${PAYMENT_METHODS.join(', ')}` });
+    }
+    if (payments.some((p) => typeof p.amount !== 'number' || !(p.amount > 0))) {
+      return res.status(400).json({ error: 'Each payment line needs an amount greater than zero' });
+    }
+
+    const lines = payments.map((p) => ({
+      method: p.method,
+      amount: p.amount,
+      amountTendered: typeof p.amountTendered === 'number' ? p.amountTendered : undefined,
+      referenceNumber: p.referenceNumber ? sanitizeString(String(p.referenceNumber)) : undefined,
+      notes: p.notes ? sanitizeString(String(p.notes)) : undefined,
+    }));
+
+    const result = await recordPayments(id, lines, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to record payment' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'RECORD_PAYMENT', 'VISIT', id, req.ip, {
+      receiptNumber: result.receiptNumber,
+      shiftNumber: req.shift.shift_number,
+      lines: lines.map((l) => ({ method: l.method, amount: l.amount })),
+      outstanding: result.balance.outstanding,
+    });
+
+    res.json({
+      success: true,
+      receiptNumber: result.receiptNumber,
+      payments: result.payments,
+      balance: result.balance,
+      fiscalReceipt: result.fiscalReceipt,
+    });
+  } catch (err) {
+    console.error('Record payment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/visits/:id/mobile-money
+ * Push a mobile money payment request to the patient's phone
+ */
+app.post('/api/visits/:id/mobile-money', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PAYMENT_ROLES), requireOpenShift, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { network, phone, amount } = req.body;
+
+    if (network && !MOBILE_MONEY_NETWORKS.includes(network)) {
+      return res.status(400).json({ error: `Network must be one of ${MOBILE_MONEY_NETWORKS.join(', ')}` });
+    }
+    if (!phone) {
+      return res.status(400).json({ error: 'Phone number is required' });
+    }
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return res.status(400).json({ error: 'Amount must be greater than zero' });
+    }
+
+    const result = await initiateMobileMoneyPayment(
+      id,
+      { network, phone: sanitizeString(String(phone)), amount },
+      req.user.sub,
+      process.env.MOBILE_MONEY_CALLBACK_BASE_URL
+    );
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to send payment request' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'MOBILE_MONEY_REQUEST', 'VISIT', id, req.ip, {
+      requestId: result.request.id,
+      network: result.request.network,
+      amount,
+    });
+
+    res.json({ success: true, request: result.request });
+  } catch (err) {
+    console.error('Mobile money request error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/mobile-money/requests/:id
+ * Status of a mobile money request (checks the gateway while pending)
+ */
+app.get('/api/mobile-money/requests/:id', authMiddleware, roleMiddleware(PAYMENT_ROLES), async (req, res) => {
+  try {
+    const result = await checkMobileMoneyPayment(req.params.id);
+    if (!result.success) {
+      return res.status(404).json({ error: result.error || 'Mobile money request not found' });
+    }
+    res.json({ success: true, request: result.request });
+  } catch (err) {
+    console.error('Mobile money status error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/shifts/current
+ * The current user's open cashier shift (null if none) with its running takings
+ */
+app.get('/api/shifts/current', authMiddleware, roleMiddleware(PAYMENT_ROLES), async (req, res) => {
+  try {
+    const result = await getOpenShift(req.user.sub);
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch shift' });
+    }
+    if (!result.shift) {
+      return res.json({ success: true, shift: null });
+    }
+    const report = await getShiftReport(result.shift.id);
+    res.json({ success: true, shift: result.shift, report: report.success ? report.report : null });
+  } catch (err) {
+    console.error('Get current shift error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/shifts
+ * Open a cashier shift with the opening float
+ */
+app.post('/api/shifts', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PAYMENT_ROLES), async (req, res) => {
+  try {
+    const { openingFloat, notes } = req.body;
+
+    if (typeof openingFloat !== 'number' || openingFloat < 0) {
+      return res.status(400).json({ error: 'Opening float must be zero or more' });
+    }
+
+    const result = await openShift(req.user.sub, {
+      openingFloat,
+      notes: notes ? sanitizeString(String(notes)) : undefined,
+    });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to open shift' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'OPEN_SHIFT', 'CASHIER_SHIFT', result.shift.id, req.ip, {
+      shiftNumber: result.shift.shift_number,
+      openingFloat,
+    });
+
+    res.json({ success: true, shift: result.shift });
+  } catch (err) {
+    console.error('Open shift error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/shifts/:id/close
+ * Close a shift with the counted cash declaration and freeze its Z-report
+ */
+app.post('/api/shifts/:id/close', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PAYMENT_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { countedCash, declaredTotals, notes } = req.body;
+
+    if (typeof countedCash !== 'number' || countedCash < 0) {
+      return res.status(400).json({ error: 'Counted cash must be zero or more' });
+    }
+    const declared = {};
+    for (const method of DECLARABLE_METHODS) {
+      const value = declaredTotals?.[method];
+      if (value == null || value === '') continue;
+      if (typeof value !== 'number' || value < 0) {
+        return res.status(400).json({ error: `Declared ${method} total must be zero or more` });
+      }
+      declared[method] = value;
+    }
+
+    const current = await getShiftReport(id);
+    if (!current.success) {
+      return res.status(404).json({ error: current.error || 'Shift not found' });
+    }
+    if (current.shift.cashier_id !== req.user.sub && !SHIFT_SUPERVISOR_ROLES.includes(req.user.role)) {
+      return res.status(403).json({ error: 'Only the cashier or a manager can close this shift' });
+    }
+
+    const result = await closeShift(id, {
+      countedCash,
+      declaredTotals: Object.keys(declared).length > 0 ? declared : null,
+      notes: notes ? sanitizeString(String(notes)) : undefined,
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to close shift' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'CLOSE_SHIFT', 'CASHIER_SHIFT', id, req.ip, {
+      shiftNumber: result.shift.shift_number,
+      expectedCash: result.report.expectedCash,
+      countedCash,
+      cashVariance: result.report.cashVariance,
+    });
+
+    res.json({ success: true, shift: result.shift, report: result.report });
+  } catch (err) {
+    console.error('Close shift error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/shifts/:id/report
+ * Z-report for a closed shift, or the running (X) report for an open one
+ */
+app.get('/api/shifts/:id/report', authMiddleware, roleMiddleware(PAYMENT_ROLES), async (req, res) => {
+  try {
+    const result = await getShiftReport(req.params.id);
+    if (!result.success) {
+      return res.status(404).json({ error: result.error || 'Shift not found' });
+    }
+    if (result.shift.cashier_id !== req.user.sub && !SHIFT_SUPERVISOR_ROLES.includes(req.user.role)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    res.json({ success: true, shift: result.shift, report: result.report });
+  } catch (err) {
+    console.error('Get shift report error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/shifts
+ * Cashier shifts opened in a date range (managers)
+ */
+app.get('/api/shifts', authMiddleware, roleMiddleware(SHIFT_SUPERVISOR_ROLES), async (req, res) => {
+  try {
+    const { from, to } = req.query;
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return res.status(400).json({ error: 'Dates must be YYYY-MM-DD' });
+    }
+
+    const result = await getShifts({ from, to });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch shifts' });
+    }
+    res.json({ success: true, shifts: result.shifts });
+  } catch (err) {
+    console.error('List shifts error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const ADJUSTMENT_REQUEST_ROLES = ['billing_officer', 'pharmacist', 'optical_dispenser', 'clinic_manager', 'super_admin'];
+const ADJUSTMENT_APPROVER_ROLES = ['clinic_manager'];
+
+/**
+ * GET /api/visits/:id/adjustments
+ * Voids and credit notes requested against a visit's bill
+ */
+app.get('/api/visits/:id/adjustments', authMiddleware, roleMiddleware(ADJUSTMENT_REQUEST_ROLES), async (req, res) => {
+  try {
+    const result = await getVisitAdjustments(req.params.id);
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch adjustments' });
+    }
+    res.json({ success: true, adjustments: result.adjustments });
+  } catch (err) {
+    console.error('Get visit adjustments error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/visits/:id/adjustments
+ * Request a void (before payment) or credit note (after payment) for a bill item; applied once a manager approves
+ */
+app.post('/api/visits/:id/adjustments', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(ADJUSTMENT_REQUEST_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { billItemId, type, amount, reason, refundMethod } = req.body;
+
+    if (!ADJUSTMENT_TYPES.includes(type)) {
+      return res.status(400).json({ error: `Adjustment type must be one of ${ADJUSTMENT_TYPES.join(', ')}` });
+    }
+    if (!billItemId) {
+      return res.status(400).json({ error: 'billItemId is required' });
+    }
+    if (!reason || !String(reason).trim()) {
+      return res.status(400).json({ error: 'A reason is required' });
+    }
+    if (amount != null && (typeof amount !== 'number' || !(amount > 0))) {
+      return res.status(400).json({ error: 'Amount must be greater than zero' });
+    }
+    if (refundMethod && !REFUND_METHODS.includes(refundMethod)) {
+      return res.status(400).json({ error: `Refund method must be one of ${REFUND_METHODS.join(', ')}` });
+    }
+
+    const result = await requestAdjustment(id, {
+      billItemId: String(billItemId),
+      type,
+      amount,
+      reason: sanitizeString(String(reason)),
+      refundMethod,
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to request adjustment' });
+    }
+
+    await logCriticalOperation(req.user.sub, `REQUEST_${type}`, 'BILL_ADJUSTMENT', result.adjustment.id, req.ip, {
+      adjustmentNumber: result.adjustment.adjustment_number,
+      visitId: id,
+      billItem: result.adjustment.description,
+      amount: result.adjustment.amount,
+      reason: result.adjustment.reason,
+    });
+
+    res.status(201).json({ success: true, adjustment: result.adjustment });
+  } catch (err) {
+    console.error('Request adjustment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/bill-adjustments
+ * Voids and credit notes across visits, filtered by status and request date (managers)
+ */
+app.get('/api/bill-adjustments', authMiddleware, roleMiddleware(SHIFT_SUPERVISOR_ROLES), async (req, res) => {
+  try {
+    const { status, from, to } = req.query;
+
+    if (status && !['PENDING', 'APPROVED', 'REJECTED'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be PENDING, APPROVED or REJECTED' });
+    }
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return res.status(400).json({ error: 'Dates must be YYYY-MM-DD' });
+    }
+
+    const result = await getAdjustments({ status, from, to });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch adjustments' });
+    }
+    res.json({ success: true, adjustments: result.adjustments });
+  } catch (err) {
+    console.error('List adjustments error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/bill-adjustments/:id/approve
+ * Approve a void or credit note (clinic manager other than the requester)
+ */
+app.post('/api/bill-adjustments/:id/approve', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(ADJUSTMENT_APPROVER_ROLES), async (req, res) => {
+  try {
+    const notes = req.body?.notes ? sanitizeString(String(req.body.notes)) : undefined;
+    const result = await decideAdjustment(req.params.id, { approve: true, notes }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to approve adjustment' });
+    }
+
+    await logCriticalOperation(req.user.sub, `APPROVE_${result.adjustment.type}`, 'BILL_ADJUSTMENT', req.params.id, req.ip, {
+      adjustmentNumber: result.adjustment.adjustment_number,
+      visitId: result.adjustment.visit_id,
+      requestedBy: result.adjustment.requested_by,
+      amount: result.adjustment.amount,
+      refundAmount: result.adjustment.refund_amount,
+    });
+
+    res.json({ success: true, adjustment: result.adjustment });
+  } catch (err) {
+    console.error('Approve adjustment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/bill-adjustments/:id/reject
+ * Reject a void or credit note request (clinic manager other than the requester)
+ */
+app.post('/api/bill-adjustments/:id/reject', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(ADJUSTMENT_APPROVER_ROLES), async (req, res) => {
+  try {
+    const notes = req.body?.notes ? sanitizeString(String(req.body.notes)) : '';
+    if (!notes.trim()) {
+      return res.status(400).json({ error: 'A reason for rejecting is required' });
+    }
+
+    const result = await decideAdjustment(req.params.id, { approve: false, notes }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to reject adjustment' });
+    }
+
+    await logCriticalOperation(req.user.sub, `REJECT_${result.adjustment.type}`, 'BILL_ADJUSTMENT', req.params.id, req.ip, {
+      adjustmentNumber: result.adjustment.adjustment_number,
+      visitId: result.adjustment.visit_id,
+      requestedBy: result.adjustment.requested_by,
+      notes,
+    });
+
+    res.json({ success: true, adjustment: result.adjustment });
+  } catch (err) {
+    console.error('Reject adjustment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const TARIFF_ADMIN_ROLES = ['super_admin'];
+const TARIFF_CODE_PATTERN = /^[A-Z0-9_]{2,50}$/;
+
+/**
+ * GET /api/tariffs
+ * Tariff master with price history (every role prices bills from it); ?includeInactive=true for admins
+ */
+app.get('/api/tariffs', authMiddleware, async (req, res) => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true' && TARIFF_ADMIN_ROLES.includes(req.user.role);
+    const result = await getTariffs({ includeInactive });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch tariffs' });
+    }
+    res.json({ success: true, tariffs: result.tariffs });
+  } catch (err) {
+    console.error('Get tariffs error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/tariffs
+ * Add a tariff item (service code)
+ */
+app.post('/api/tariffs', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(TARIFF_ADMIN_ROLES), async (req, res) => {
+  try {
+    const { code, name, category, serviceGroup, nhifItemCode } = req.body || {};
+
+    if (!code || !TARIFF_CODE_PATTERN.test(code)) {
+      return res.status(400).json({ error: 'Service code must be 2-50 characters of A-Z, 0-9 or _' });
+    }
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+    if (!TARIFF_CATEGORIES.includes(category)) {
+      return res.status(400).json({ error: `category must be one of ${TARIFF_CATEGORIES.join(', ')}` });
+    }
+    if (!TARIFF_GROUPS.includes(serviceGroup)) {
+      return res.status(400).json({ error: `serviceGroup must be one of ${TARIFF_GROUPS.join(', ')}` });
+    }
+
+    const result = await createTariffItem({
+      code,
+      name: sanitizeString(String(name)),
+      category,
+      serviceGroup,
+      nhifItemCode: nhifItemCode ? sanitizeString(String(nhifItemCode)) : null,
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to create tariff item' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'CREATE_TARIFF_ITEM', 'TARIFF_ITEM', result.item.id, req.ip, {
+      code,
+      category,
+      serviceGroup,
+    });
+
+    res.status(201).json({ success: true, item: result.item });
+  } catch (err) {
+    console.error('Create tariff item error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/tariffs/:id
+ * Rename, set the NHIF item code or pre-authorization flag of, or (de)activate a tariff item
+ */
+app.put('/api/tariffs/:id', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(TARIFF_ADMIN_ROLES), async (req, res) => {
+  try {
+    const { name, nhifItemCode, requiresPreauth, isActive } = req.body || {};
+
+    if (name !== undefined && !String(name).trim()) {
+      return res.status(400).json({ error: 'Name cannot be empty' });
+    }
+    if (requiresPreauth !== undefined && typeof requiresPreauth !== 'boolean') {
+      return res.status(400).json({ error: 'requiresPreauth must be true or false' });
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return res.status(400).json({ error: 'isActive must be true or false' });
+    }
+
+    const result = await updateTariffItem(req.params.id, {
+      name: name !== undefined ? sanitizeString(String(name)) : undefined,
+      nhifItemCode: nhifItemCode !== undefined ? sanitizeString(String(nhifItemCode || '')) : undefined,
+      requiresPreauth,
+      isActive,
+    });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to update tariff item' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'UPDATE_TARIFF_ITEM', 'TARIFF_ITEM', req.params.id, req.ip, {
+      code: result.item.code,
+      name,
+      nhifItemCode,
+      requiresPreauth,
+      isActive,
+    });
+
+    res.json({ success: true, item: result.item });
+  } catch (err) {
+    console.error('Update tariff item error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/tariffs/:id/prices
+ * Set a payer's price (CASH, NHIF or an insurer) from an effective date
+ */
+app.post('/api/tariffs/:id/prices', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(TARIFF_ADMIN_ROLES), async (req, res) => {
+  try {
+    const { payer, price, effectiveFrom } = req.body || {};
+    const amount = parseFloat(price);
+
+    if (!payer || !String(payer).trim() || String(payer).length > 50) {
+      return res.status(400).json({ error: 'Payer is required' });
+    }
+    if (isNaN(amount) || amount < 0) {
+      return res.status(400).json({ error: 'Price must be zero or more' });
+    }
+    if (!effectiveFrom || !DATE_PATTERN.test(effectiveFrom)) {
+      return res.status(400).json({ error: 'effectiveFrom must be YYYY-MM-DD' });
+    }
+
+    const payerName = sanitizeString(String(payer).trim());
+    const result = await addTariffPrice(req.params.id, { payer: payerName, price: amount, effectiveFrom }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to set price' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'SET_TARIFF_PRICE', 'TARIFF_ITEM', req.params.id, req.ip, {
+      payer: payerName,
+      price: amount,
+      effectiveFrom,
+      previousPrice: result.previousPrice ? parseFloat(result.previousPrice.price) : null,
+    });
+
+    res.status(201).json({ success: true, price: result.price });
+  } catch (err) {
+    console.error('Set tariff price error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const SCHEME_ADMIN_ROLES = ['super_admin'];
+const PRIVATE_INSURERS = ['Britam', 'Jubilee', 'Strategis', 'Sanlam', 'AAR'];
+
+/**
+ * Validate and normalise scheme rules from a request body; returns { rules } or { error }
+ */
+const parseSchemeRules = (body) => {
+  const rules = {};
+  if (body.name !== undefined) {
+    if (!String(body.name).trim()) return { error: 'Scheme name is required' };
+    rules.name = sanitizeString(String(body.name));
+  }
+  if (body.coverage !== undefined) {
+    rules.coverage = {};
+    for (const category of ['CLINICAL', 'PHARMACY', 'OPTICAL']) {
+      if (body.coverage[category] === undefined) continue;
+      const share = parseFloat(body.coverage[category]);
+      if (isNaN(share) || share < 0 || share > 1) {
+        return { error: `${category} coverage must be between 0 and 1` };
+      }
+      rules.coverage[category] = share;
+    }
+  }
+  for (const field of ['annualOpticalLimit', 'frameCap', 'lensCap']) {
+    if (body[field] === undefined) continue;
+    if (body[field] === null || body[field] === '') {
+      rules[field] = null;
+      continue;
+    }
+    const amount = parseFloat(body[field]);
+    if (isNaN(amount) || amount < 0) return { error: `${field} must be zero or more` };
+    rules[field] = amount;
+  }
+  if (body.copayAmount !== undefined) {
+    const copay = parseFloat(body.copayAmount);
+    if (isNaN(copay) || copay < 0) return { error: 'copayAmount must be zero or more' };
+    rules.copayAmount = copay;
+  }
+  if (body.excludedCodes !== undefined) {
+    if (!Array.isArray(body.excludedCodes) || body.excludedCodes.some((c) => !TARIFF_CODE_PATTERN.test(c))) {
+      return { error: 'excludedCodes must be a list of tariff service codes' };
+    }
+    rules.excludedCodes = body.excludedCodes;
+  }
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') return { error: 'isActive must be true or false' };
+    rules.isActive = body.isActive;
+  }
+  return { rules };
+};
+
+/**
+ * GET /api/insurance-schemes
+ * Private insurer benefit schemes (every billing role evaluates them); ?includeInactive=true for admins
+ */
+app.get('/api/insurance-schemes', authMiddleware, async (req, res) => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true' && SCHEME_ADMIN_ROLES.includes(req.user.role);
+    const result = await getSchemes({ includeInactive });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch schemes' });
+    }
+    res.json({ success: true, schemes: result.schemes });
+  } catch (err) {
+    console.error('Get insurance schemes error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/insurance-schemes
+ * Add a benefit scheme for a private insurer
+ */
+app.post('/api/insurance-schemes', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(SCHEME_ADMIN_ROLES), async (req, res) => {
+  try {
+    const { insurer, code } = req.body || {};
+    if (!PRIVATE_INSURERS.includes(insurer)) {
+      return res.status(400).json({ error: `insurer must be one of ${PRIVATE_INSURERS.join(', ')}` });
+    }
+    if (!code || !TARIFF_CODE_PATTERN.test(code)) {
+      return res.status(400).json({ error: 'Scheme code must be 2-50 characters of A-Z, 0-9 or _' });
+    }
+    if (!req.body.name) {
+      return res.status(400).json({ error: 'Scheme name is required' });
+    }
+
+    const parsed = parseSchemeRules(req.body);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const result = await createScheme({ ...parsed.rules, insurer, code }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to create scheme' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'CREATE_INSURANCE_SCHEME', 'INSURANCE_SCHEME', result.scheme.id, req.ip, {
+      insurer,
+      code,
+      rules: parsed.rules,
+    });
+
+    res.status(201).json({ success: true, scheme: result.scheme });
+  } catch (err) {
+    console.error('Create insurance scheme error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/insurance-schemes/:id
+ * Change a scheme's benefit rules
+ */
+app.put('/api/insurance-schemes/:id', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(SCHEME_ADMIN_ROLES), async (req, res) => {
+  try {
+    const parsed = parseSchemeRules(req.body || {});
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const result = await updateScheme(req.params.id, parsed.rules);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to update scheme' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'UPDATE_INSURANCE_SCHEME', 'INSURANCE_SCHEME', req.params.id, req.ip, {
+      insurer: result.scheme.insurer,
+      code: result.scheme.scheme_code,
+      rules: parsed.rules,
+    });
+
+    res.json({ success: true, scheme: result.scheme });
+  } catch (err) {
+    console.error('Update insurance scheme error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const PREAUTH_ROLES = ['billing_officer', 'optical_dispenser', 'claim_officer', 'clinic_manager', 'super_admin'];
+const PREAUTH_DECISION_ROLES = ['billing_officer', 'claim_officer', 'clinic_manager', 'super_admin'];
+
+/**
+ * GET /api/visits/:id/preauthorizations
+ * Insurer pre-authorization requests and decisions for a visit
+ */
+app.get('/api/visits/:id/preauthorizations', authMiddleware, roleMiddleware(PREAUTH_ROLES), async (req, res) => {
+  try {
+    const result = await getVisitPreauthorizations(req.params.id);
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch pre-authorizations' });
+    }
+    res.json({ success: true, preauthorizations: result.preauthorizations });
+  } catch (err) {
+    console.error('Get visit pre-authorizations error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/visits/:id/preauthorizations
+ * Request private insurer pre-authorization for items (amount = insurer share asked for)
+ */
+app.post('/api/visits/:id/preauthorizations', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PREAUTH_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { items, notes } = req.body || {};
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'At least one item is required' });
+    }
+    for (const item of items) {
+      if (!item || !item.description || typeof item.amount !== 'number' || !(item.amount > 0)) {
+        return res.status(400).json({ error: 'Each item needs a description and an amount greater than zero' });
+      }
+    }
+
+    const result = await requestPreauthorization(id, {
+      items: items.map((item) => ({
+        billItemId: item.billItemId ? String(item.billItemId) : null,
+        description: sanitizeString(String(item.description)),
+        tariffCode: item.tariffCode ? String(item.tariffCode) : null,
+        amount: item.amount,
+      })),
+      notes: notes ? sanitizeString(String(notes)) : null,
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to request pre-authorization' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'REQUEST_PREAUTHORIZATION', 'PREAUTHORIZATION', result.preauthorization.id, req.ip, {
+      preauthNumber: result.preauthorization.preauth_number,
+      visitId: id,
+      insurer: result.preauthorization.insurer,
+      requestedAmount: result.preauthorization.requested_amount,
+    });
+
+    res.status(201).json({ success: true, preauthorization: result.preauthorization });
+  } catch (err) {
+    console.error('Request pre-authorization error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/preauthorizations/:id/decision
+ * Record the insurer's reply: approved, partially approved (with amount) or declined
+ */
+app.post('/api/preauthorizations/:id/decision', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PREAUTH_DECISION_ROLES), async (req, res) => {
+  try {
+    const { status, approvedAmount, approvalReference, notes } = req.body || {};
+
+    if (!PREAUTH_DECISIONS.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${PREAUTH_DECISIONS.join(', ')}` });
+    }
+    if (status === 'PARTIALLY_APPROVED' && (typeof approvedAmount !== 'number' || !(approvedAmount > 0))) {
+      return res.status(400).json({ error: 'approvedAmount is required for a partial approval' });
+    }
+
+    const result = await recordPreauthorizationDecision(req.params.id, {
+      status,
+      approvedAmount,
+      approvalReference: approvalReference ? sanitizeString(String(approvalReference)).trim() : null,
+      notes: notes ? sanitizeString(String(notes)) : null,
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to record decision' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'RECORD_PREAUTHORIZATION_DECISION', 'PREAUTHORIZATION', req.params.id, req.ip, {
+      preauthNumber: result.preauthorization.preauth_number,
+      visitId: result.preauthorization.visit_id,
+      status,
+      requestedAmount: result.preauthorization.requested_amount,
+      approvedAmount: result.preauthorization.approved_amount,
+      approvalReference: result.preauthorization.approval_reference,
+    });
+
+    res.json({ success: true, preauthorization: result.preauthorization });
+  } catch (err) {
+    console.error('Record pre-authorization decision error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Validate a private insurer claim period (insurer, from, to as YYYY-MM-DD)
+ */
+const parseClaimPeriod = ({ insurer, from, to }) => {
+  if (!PRIVATE_INSURERS.includes(insurer)) {
+    return { error: `insurer must be one of ${PRIVATE_INSURERS.join(', ')}` };
+  }
+  if (!from || !to || !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    return { error: 'Claim period from and to dates (YYYY-MM-DD) are required' };
+  }
+  if (from > to) {
+    return { error: 'Claim period start must be on or before its end' };
+  }
+  return { insurer, from, to };
+};
+
+/**
+ * GET /api/insurer-claims/claimable?insurer=&from=&to=
+ * Completed visits billed to a private insurer in the period that have no claim yet
+ */
+app.get('/api/insurer-claims/claimable', authMiddleware, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const period = parseClaimPeriod(req.query);
+    if (period.error) {
+      return res.status(400).json({ error: period.error });
+    }
+
+    const result = await getClaimableInsurerVisits(period.insurer, period.from, period.to);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch claimable visits' });
+    }
+    res.json({ success: true, visits: result.visits });
+  } catch (err) {
+    console.error('Get claimable insurer visits error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/insurer-claims/batches
+ * List private insurer claim batches with their claims (?insurer= to filter)
+ */
+app.get('/api/insurer-claims/batches', authMiddleware, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const { insurer } = req.query;
+    if (insurer && !PRIVATE_INSURERS.includes(insurer)) {
+      return res.status(400).json({ error: `insurer must be one of ${PRIVATE_INSURERS.join(', ')}` });
+    }
+
+    const result = await getInsurerClaimBatches({ insurer });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch claim batches' });
+    }
+    res.json({ success: true, batches: result.batches });
+  } catch (err) {
+    console.error('Get insurer claim batches error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/insurer-claims/batches
+ * Build (or extend) the draft batch for an insurer and period from claimable visits
+ */
+app.post('/api/insurer-claims/batches', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const period = parseClaimPeriod(req.body || {});
+    if (period.error) {
+      return res.status(400).json({ error: period.error });
+    }
+
+    const result = await createInsurerClaimBatch(period.insurer, period.from, period.to, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to create claim batch' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'INSURER_CLAIM_BATCH_CREATE', 'INSURER_CLAIM_BATCH', result.batch.id, req.ip, {
+      batchNumber: result.batch.batch_number,
+      insurer: period.insurer,
+      from: period.from,
+      to: period.to,
+      addedClaims: result.addedClaims,
+      totalAmount: result.batch.total_amount,
+    });
+
+    res.json({ success: true, batch: result.batch, addedClaims: result.addedClaims });
+  } catch (err) {
+    console.error('Create insurer claim batch error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/insurer-claims/batches/:id/submit
+ * Mark a draft batch as sent to the insurer
+ */
+app.post('/api/insurer-claims/batches/:id/submit', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { submissionReference } = req.body || {};
+
+    const result = await submitInsurerClaimBatch(
+      id,
+      submissionReference ? sanitizeString(String(submissionReference)).trim() : null,
+      req.user.sub
+    );
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to submit claim batch' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'INSURER_CLAIM_SUBMIT', 'INSURER_CLAIM_BATCH', id, req.ip, {
+      batchNumber: result.batch.batch_number,
+      insurer: result.batch.insurer,
+      submissionReference: result.batch.submission_reference,
+      submittedClaims: result.submittedClaims,
+    });
+
+    res.json({ success: true, batch: result.batch, submittedClaims: result.submittedClaims });
+  } catch (err) {
+    console.error('Submit insurer claim batch error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/insurer-claims/:id/status
+ * Record the insurer's response on a claim: queried, paid or rejected, or resubmitted after a query
+ */
+app.put('/api/insurer-claims/:id/status', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(CLAIM_ROLES), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status, reason, paidAmount } = req.body || {};
+
+    if (!['SUBMITTED', 'QUERIED', 'PAID', 'REJECTED'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be SUBMITTED, QUERIED, PAID or REJECTED' });
+    }
+    if (paidAmount !== undefined && (isNaN(parseFloat(paidAmount)) || parseFloat(paidAmount) < 0)) {
+      return res.status(400).json({ error: 'Paid amount must be a positive number' });
+    }
+
+    const result = await updateInsurerClaimStatus(id, {
+      status,
+      reason: reason ? sanitizeString(String(reason)) : undefined,
+      paidAmount: paidAmount !== undefined ? parseFloat(paidAmount) : undefined,
+    }, req.user.sub);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to update claim' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'INSURER_CLAIM_UPDATE', 'INSURER_CLAIM', id, req.ip, {
+      status,
+      reason,
+      paidAmount,
+    });
+
+    res.json({ success: true, claim: result.claim });
+  } catch (err) {
+    console.error('Update insurer claim error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const RECEIVABLES_ROLES = ['super_admin', 'clinic_manager', 'billing_officer', 'claim_officer'];
+const WRITE_OFF_APPROVER_ROLES = ['clinic_manager'];
+
+/**
+ * GET /api/receivables
+ * Open patient and insurer balances per visit (debtors ledger)
+ */
+app.get('/api/receivables', authMiddleware, roleMiddleware(RECEIVABLES_ROLES), async (req, res) => {
+  try {
+    const result = await getReceivables();
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch receivables' });
+    }
+    res.json({ success: true, receivables: result.receivables });
+  } catch (err) {
+    console.error('Get receivables error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/write-offs
+ * Debt write-offs, filtered by status
+ */
+app.get('/api/write-offs', authMiddleware, roleMiddleware(RECEIVABLES_ROLES), async (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status && !['PENDING', 'APPROVED', 'REJECTED'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be PENDING, APPROVED or REJECTED' });
+    }
+
+    const result = await getWriteOffs({ status });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch write-offs' });
+    }
+    res.json({ success: true, writeOffs: result.writeOffs });
+  } catch (err) {
+    console.error('List write-offs error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/write-offs
+ * Request a write-off of a visit's patient or insurer debt; applied once a manager approves
+ */
+app.post('/api/write-offs', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(RECEIVABLES_ROLES), async (req, res) => {
+  try {
+    const { visitId, debtorType, amount, reason } = req.body || {};
+
+    if (!visitId) {
+      return res.status(400).json({ error: 'visitId is required' });
+    }
+    if (!DEBTOR_TYPES.includes(debtorType)) {
+      return res.status(400).json({ error: `Debtor type must be one of ${DEBTOR_TYPES.join(', ')}` });
+    }
+    if (!reason || !String(reason).trim()) {
+      return res.status(400).json({ error: 'A reason is required' });
+    }
+    if (amount != null && (typeof amount !== 'number' || !(amount > 0))) {
+      return res.status(400).json({ error: 'Amount must be greater than zero' });
+    }
+
+    const result = await requestWriteOff({
+      visitId: String(visitId),
+      debtorType,
+      amount,
+      reason: sanitizeString(String(reason)),
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to request write-off' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'REQUEST_WRITE_OFF', 'AR_WRITE_OFF', result.writeOff.id, req.ip, {
+      writeOffNumber: result.writeOff.write_off_number,
+      visitId,
+      debtorType,
+      insurer: result.writeOff.insurer,
+      amount: result.writeOff.amount,
+      reason: result.writeOff.reason,
+    });
+
+    res.status(201).json({ success: true, writeOff: result.writeOff });
+  } catch (err) {
+    console.error('Request write-off error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/write-offs/:id/approve
+ * Approve a write-off (clinic manager other than the requester)
+ */
+app.post('/api/write-offs/:id/approve', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(WRITE_OFF_APPROVER_ROLES), async (req, res) => {
+  try {
+    const notes = req.body?.notes ? sanitizeString(String(req.body.notes)) : undefined;
+    const result = await decideWriteOff(req.params.id, { approve: true, notes }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to approve write-off' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'APPROVE_WRITE_OFF', 'AR_WRITE_OFF', req.params.id, req.ip, {
+      writeOffNumber: result.writeOff.write_off_number,
+      visitId: result.writeOff.visit_id,
+      requestedBy: result.writeOff.requested_by,
+      debtorType: result.writeOff.debtor_type,
+      amount: result.writeOff.amount,
+    });
+
+    res.json({ success: true, writeOff: result.writeOff });
+  } catch (err) {
+    console.error('Approve write-off error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/write-offs/:id/reject
+ * Reject a write-off request (clinic manager other than the requester)
+ */
+app.post('/api/write-offs/:id/reject', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(WRITE_OFF_APPROVER_ROLES), async (req, res) => {
+  try {
+    const notes = req.body?.notes ? sanitizeString(String(req.body.notes)) : '';
+    if (!notes.trim()) {
+      return res.status(400).json({ error: 'A reason for rejecting is required' });
+    }
+
+    const result = await decideWriteOff(req.params.id, { approve: false, notes }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to reject write-off' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'REJECT_WRITE_OFF', 'AR_WRITE_OFF', req.params.id, req.ip, {
+      writeOffNumber: result.writeOff.write_off_number,
+      visitId: result.writeOff.visit_id,
+      requestedBy: result.writeOff.requested_by,
+      notes,
+    });
+
+    res.json({ success: true, writeOff: result.writeOff });
+  } catch (err) {
+    console.error('Reject write-off error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const RECEIPT_NUMBER_PATTERN = /^RCP-\d{8}-\d{4}$/;
+
+/**
+ * GET /api/fiscal-receipts
+ * Fiscal receipts by status; ?status=FAILED is the retry queue (managers)
+ */
+app.get('/api/fiscal-receipts', authMiddleware, roleMiddleware(SHIFT_SUPERVISOR_ROLES), async (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status && !['PENDING', 'FISCALISED', 'FAILED'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be PENDING, FISCALISED or FAILED' });
+    }
+
+    const result = await getFiscalReceipts({ status });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch fiscal receipts' });
+    }
+    res.json({ success: true, fiscalReceipts: result.fiscalReceipts });
+  } catch (err) {
+    console.error('List fiscal receipts error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/fiscal-receipts/retry
+ * Retry every receipt in the queue now instead of waiting for its next attempt (managers)
+ */
+app.post('/api/fiscal-receipts/retry', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(SHIFT_SUPERVISOR_ROLES), async (req, res) => {
+  try {
+    const result = await retryFailedFiscalReceipts({ force: true });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to retry fiscal receipts' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'RETRY_FISCAL_RECEIPTS', 'FISCAL_RECEIPT', null, req.ip, {
+      attempted: result.attempted,
+      fiscalised: result.fiscalised,
+    });
+
+    res.json({ success: true, attempted: result.attempted, fiscalised: result.fiscalised });
+  } catch (err) {
+    console.error('Retry fiscal receipts error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/fiscal-receipts/:receiptNumber/fiscalise
+ * Register a receipt with the fiscal device now (e.g. before reprinting one still in the queue)
+ */
+app.post('/api/fiscal-receipts/:receiptNumber/fiscalise', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PAYMENT_ROLES), async (req, res) => {
+  try {
+    const { receiptNumber } = req.params;
+    if (!RECEIPT_NUMBER_PATTERN.test(receiptNumber)) {
+      return res.status(400).json({ error: 'Invalid receipt number' });
+    }
+
+    const result = await fiscaliseReceipt(receiptNumber);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fiscalise receipt' });
+    }
+    res.json({ success: true, fiscalReceipt: result.fiscalReceipt });
+  } catch (err) {
+    console.error('Fiscalise receipt error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// =============================================================================
+// THERMAL PRINTING (ESC/POS)
+// =============================================================================
+
+const PRINT_ROLES = ['receptionist', 'billing_officer', 'optical_dispenser', 'clinic_manager', 'super_admin'];
+const MAX_PRINT_JOB_BYTES = 64 * 1024;
+
+/**
+ * GET /api/printers
+ * Thermal printers configured on the server, for the workstation printer setting
+ */
+app.get('/api/printers', authMiddleware, roleMiddleware(PRINT_ROLES), (req, res) => {
+  res.json({ success: true, printers: getThermalPrinters() });
+});
+
+/**
+ * POST /api/printers/:name/print
+ * Send an ESC/POS job (base64 in body.data) to a configured thermal printer
+ */
+app.post('/api/printers/:name/print', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(PRINT_ROLES), async (req, res) => {
+  try {
+    const { data } = req.body || {};
+    if (!data || typeof data !== 'string') {
+      return res.status(400).json({ error: 'Print data is required' });
+    }
+
+    const bytes = Buffer.from(data, 'base64');
+    if (bytes.length === 0 || bytes.length > MAX_PRINT_JOB_BYTES) {
+      return res.status(400).json({ error: `Print job must be between 1 and ${MAX_PRINT_JOB_BYTES} bytes` });
+    }
+
+    const result = await sendToThermalPrinter(req.params.name, bytes);
+    if (!result.success) {
+      return res.status(502).json({ error: result.error || 'Failed to print' });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Thermal print error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// =============================================================================
+// SYSTEM SETTINGS
+// =============================================================================
+
+const SETTINGS_ADMIN_ROLES = ['super_admin'];
+
+// Request body field -> settings key
+const SETTING_FIELDS = {
+  clinicName: 'clinic_name',
+  clinicTagline: 'clinic_tagline',
+  clinicAddress: 'clinic_address',
+  clinicPhone: 'clinic_phone',
+  clinicEmail: 'clinic_email',
+  workingHoursStart: 'working_hours_start',
+  workingHoursEnd: 'working_hours_end',
+  enableNotifications: 'enable_notifications',
+  enableAuditLogging: 'enable_audit_logging',
+};
+
+/**
+ * GET /api/settings
+ * Clinic details, working hours and system toggles (every signed-in user; documents print them)
+ */
+app.get('/api/settings', authMiddleware, async (req, res) => {
+  try {
+    const result = await getSettings();
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch settings' });
+    }
+    res.json({ success: true, settings: result.settings });
+  } catch (err) {
+    console.error('Get settings error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/settings
+ * Save any of the settings fields; fields left out keep their value (admin only)
+ */
+app.put('/api/settings', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(SETTINGS_ADMIN_ROLES), async (req, res) => {
+  try {
+    const changes = {};
+    for (const [field, key] of Object.entries(SETTING_FIELDS)) {
+      if (req.body?.[field] === undefined) continue;
+      changes[key] = typeof req.body[field] === 'string' ? sanitizeString(req.body[field]) : req.body[field];
+    }
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'No settings to save' });
+    }
+
+    const result = await updateSettings(changes, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to save settings' });
+    }
+
+    // Always recorded, including switching audit logging off
+    if (result.changed.length > 0) {
+      await logCriticalOperation(req.user.sub, 'UPDATE_SETTINGS', 'SYSTEM_SETTINGS', null, req.ip, {
+        changed: Object.fromEntries(result.changed.map((key) => [key, changes[key]])),
+      });
+    }
+
+    res.json({ success: true, settings: result.settings });
+  } catch (err) {
+    console.error('Update settings error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// =============================================================================
+// APPOINTMENT BOOK
+// =============================================================================
+
+const APPOINTMENT_ROLES = ['receptionist', 'optometrist', 'clinic_manager', 'super_admin'];
+const SCHEDULE_ADMIN_ROLES = ['super_admin', 'clinic_manager'];
+const APPOINTMENT_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_APPOINTMENT_RANGE_DAYS = 62;
+
+/**
+ * Validate the date and time of a booking or reschedule; returns an error message or null
+ */
+const validateAppointmentSlot = (date, time) => {
+  if (!DATE_PATTERN.test(date || '')) {
+    return 'date must be YYYY-MM-DD';
+  }
+  if (!APPOINTMENT_TIME_PATTERN.test(time || '')) {
+    return 'time must be HH:MM';
+  }
+  if (date < new Date().toISOString().split('T')[0]) {
+    return 'Appointments cannot be booked in the past';
+  }
+  return null;
+};
+
+/**
+ * GET /api/appointments?from=YYYY-MM-DD&to=YYYY-MM-DD&providerId=&patientId=&status=
+ * Appointments in a date range (or all of one patient's), with patient and provider names
+ */
+app.get('/api/appointments', authMiddleware, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const { from, to, providerId, patientId, status } = req.query;
+
+    if (!patientId) {
+      if (!DATE_PATTERN.test(from || '') || !DATE_PATTERN.test(to || '')) {
+        return res.status(400).json({ error: 'from and to dates (YYYY-MM-DD) are required' });
+      }
+      const days = (new Date(to) - new Date(from)) / 86400000;
+      if (days < 0 || days > MAX_APPOINTMENT_RANGE_DAYS) {
+        return res.status(400).json({ error: `Date range must run forwards and cover at most ${MAX_APPOINTMENT_RANGE_DAYS} days` });
+      }
+    }
+    if (status && !APPOINTMENT_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${APPOINTMENT_STATUSES.join(', ')}` });
+    }
+
+    const result = await getAppointments({ from, to, providerId, patientId, status });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch appointments' });
+    }
+    res.json({ success: true, appointments: result.appointments });
+  } catch (err) {
+    console.error('Get appointments error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/appointments/slots?providerId=&date=YYYY-MM-DD&appointmentType=
+ * Free start times with a provider on a date for an appointment type
+ */
+app.get('/api/appointments/slots', authMiddleware, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const { providerId, date, appointmentType } = req.query;
+    if (!providerId || !DATE_PATTERN.test(date || '') || !appointmentType) {
+      return res.status(400).json({ error: 'providerId, date (YYYY-MM-DD) and appointmentType are required' });
+    }
+
+    const result = await getAvailableSlots({ providerId, date, appointmentType });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch slots' });
+    }
+    res.json({ success: true, slots: result.slots, durationMinutes: result.duration_minutes });
+  } catch (err) {
+    console.error('Get appointment slots error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/appointments
+ * Book an appointment with a provider
+ */
+app.post('/api/appointments', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const { patientId, providerId, appointmentType, date, time, priority, notes, reminderLanguage } = req.body || {};
+
+    if (!patientId || !providerId) {
+      return res.status(400).json({ error: 'patientId and providerId are required' });
+    }
+    if (!APPOINTMENT_DURATIONS[appointmentType]) {
+      return res.status(400).json({ error: `appointmentType must be one of ${Object.keys(APPOINTMENT_DURATIONS).join(', ')}` });
+    }
+    const slotError = validateAppointmentSlot(date, time);
+    if (slotError) {
+      return res.status(400).json({ error: slotError });
+    }
+    if (priority && !['Normal', 'Emergency'].includes(priority)) {
+      return res.status(400).json({ error: 'priority must be Normal or Emergency' });
+    }
+    if (reminderLanguage && !REMINDER_LANGUAGES.includes(reminderLanguage)) {
+      return res.status(400).json({ error: `reminderLanguage must be one of ${REMINDER_LANGUAGES.join(', ')}` });
+    }
+
+    const result = await createAppointment({
+      patientId,
+      providerId,
+      appointmentType,
+      date,
+      time,
+      priority,
+      notes: notes ? sanitizeString(String(notes)) : null,
+      reminderLanguage,
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(409).json({ error: result.error || 'Failed to book appointment' });
+    }
+
+    await scheduleReminders(result.appointment.id);
+    const appointment = { ...result.appointment, appointment_reminders: await getReminders(result.appointment.id) };
+
+    await logCriticalOperation(req.user.sub, 'BOOK_APPOINTMENT', 'APPOINTMENT', result.appointment.id, req.ip, {
+      patientId,
+      providerId,
+      date,
+      time,
+    });
+
+    res.status(201).json({ success: true, appointment });
+  } catch (err) {
+    console.error('Book appointment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/appointments/:id/reschedule
+ * Move an appointment to another date, time or provider (kept in its history)
+ */
+app.post('/api/appointments/:id/reschedule', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const { date, time, providerId, reason } = req.body || {};
+    const slotError = validateAppointmentSlot(date, time);
+    if (slotError) {
+      return res.status(400).json({ error: slotError });
+    }
+
+    const result = await rescheduleAppointment(req.params.id, {
+      date,
+      time,
+      providerId,
+      reason: reason ? sanitizeString(String(reason)) : null,
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(409).json({ error: result.error || 'Failed to reschedule appointment' });
+    }
+
+    await scheduleReminders(req.params.id);
+    const appointment = { ...result.appointment, appointment_reminders: await getReminders(req.params.id) };
+
+    await logCriticalOperation(req.user.sub, 'RESCHEDULE_APPOINTMENT', 'APPOINTMENT', req.params.id, req.ip, {
+      date,
+      time,
+      providerId: result.appointment.provider_id,
+    });
+
+    res.json({ success: true, appointment });
+  } catch (err) {
+    console.error('Reschedule appointment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/appointments/:id/cancel
+ * Cancel an appointment (reason required)
+ */
+app.post('/api/appointments/:id/cancel', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const reason = req.body?.reason ? sanitizeString(String(req.body.reason)).trim() : '';
+    if (!reason) {
+      return res.status(400).json({ error: 'A reason is required to cancel an appointment' });
+    }
+
+    const result = await cancelAppointment(req.params.id, reason, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to cancel appointment' });
+    }
+
+    await cancelReminders(req.params.id);
+    const appointment = { ...result.appointment, appointment_reminders: await getReminders(req.params.id) };
+
+    await logCriticalOperation(req.user.sub, 'CANCEL_APPOINTMENT', 'APPOINTMENT', req.params.id, req.ip, { reason });
+
+    res.json({ success: true, appointment });
+  } catch (err) {
+    console.error('Cancel appointment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/appointments/:id/status
+ * Mark an appointment confirmed or completed
+ */
+app.post('/api/appointments/:id/status', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const { status } = req.body || {};
+    if (!['CONFIRMED', 'COMPLETED'].includes(status)) {
+      return res.status(400).json({ error: 'status must be CONFIRMED or COMPLETED' });
+    }
+
+    const result = await updateAppointmentStatus(req.params.id, status, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to update appointment' });
+    }
+
+    // Nothing left to remind the patient of once they have been seen
+    if (status === 'COMPLETED') {
+      await cancelReminders(req.params.id);
+      return res.json({
+        success: true,
+        appointment: { ...result.appointment, appointment_reminders: await getReminders(req.params.id) },
+      });
+    }
+    res.json({ success: true, appointment: result.appointment });
+  } catch (err) {
+    console.error('Update appointment status error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/appointments/:id/history
+ * Bookings, reschedules, cancellations and status changes of an appointment
+ */
+app.get('/api/appointments/:id/history', authMiddleware, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const result = await getAppointmentHistory(req.params.id);
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch appointment history' });
+    }
+    res.json({ success: true, history: result.history });
+  } catch (err) {
+    console.error('Get appointment history error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/appointments/:id/check-in
+ * Check the patient in for today's appointment at Registration
+ */
+app.post('/api/appointments/:id/check-in', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const result = await checkInAppointment(req.params.id, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to check in appointment' });
+    }
+
+    await cancelReminders(req.params.id);
+    res.json({
+      success: true,
+      appointment: { ...result.appointment, appointment_reminders: await getReminders(req.params.id) },
+    });
+  } catch (err) {
+    console.error('Check in appointment error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/appointments/no-show-report?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * No-show rate by provider and appointment type (managers)
+ */
+app.get('/api/appointments/no-show-report', authMiddleware, roleMiddleware(SCHEDULE_ADMIN_ROLES), async (req, res) => {
+  try {
+    const { from, to } = req.query;
+    if (!DATE_PATTERN.test(from || '') || !DATE_PATTERN.test(to || '') || from > to) {
+      return res.status(400).json({ error: 'from and to dates (YYYY-MM-DD) are required' });
+    }
+
+    const result = await getNoShowReport({ from, to });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to build no-show report' });
+    }
+    res.json({ success: true, report: result.report });
+  } catch (err) {
+    console.error('No-show report error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/provider-schedules?providerId=
+ * Weekly working templates (all providers, or one)
+ */
+app.get('/api/provider-schedules', authMiddleware, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const result = await getProviderTemplates(req.query.providerId);
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch provider schedules' });
+    }
+    res.json({ success: true, templates: result.templates });
+  } catch (err) {
+    console.error('Get provider schedules error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/provider-schedules/:providerId
+ * Replace a provider's weekly working template (blocks of { weekday, startTime, endTime })
+ */
+app.put('/api/provider-schedules/:providerId', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(SCHEDULE_ADMIN_ROLES), async (req, res) => {
+  try {
+    const { blocks } = req.body || {};
+    if (!Array.isArray(blocks)) {
+      return res.status(400).json({ error: 'blocks must be a list' });
+    }
+    for (const block of blocks) {
+      if (!block || !Number.isInteger(block.weekday) || block.weekday < 0 || block.weekday > 6
+        || !APPOINTMENT_TIME_PATTERN.test(block.startTime || '') || !APPOINTMENT_TIME_PATTERN.test(block.endTime || '')) {
+        return res.status(400).json({ error: 'Each block needs a weekday (0-6) and start and end times (HH:MM)' });
+      }
+    }
+
+    const result = await saveProviderTemplates(req.params.providerId, blocks, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to save provider schedule' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'UPDATE_PROVIDER_SCHEDULE', 'PROVIDER', req.params.providerId, req.ip, {
+      blocks: blocks.length,
+    });
+
+    res.json({ success: true, templates: result.templates });
+  } catch (err) {
+    console.error('Save provider schedule error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/sms/delivery/:gateway
+ * Delivery report for an SMS reminder (authenticated by the gateway's signature, not a user session)
+ */
+app.post('/api/sms/delivery/:gateway', async (req, res) => {
+  try {
+    const result = await handleSmsDeliveryReport(req.params.gateway, req.headers, req.body);
+    if (!result.success) {
+      logSecurityEvent('SMS_DELIVERY_REPORT_REJECTED', {
+        gateway: req.params.gateway,
+        ip: req.ip,
+        reason: result.error,
+      });
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error('SMS delivery report error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/sms/inbound/:gateway
+ * Patient reply to an SMS reminder; CONFIRM or CANCEL updates the appointment
+ */
+app.post('/api/sms/inbound/:gateway', async (req, res) => {
+  try {
+    const result = await handleInboundSms(req.params.gateway, req.headers, req.body);
+    if (!result.success) {
+      logSecurityEvent('SMS_INBOUND_REJECTED', {
+        gateway: req.params.gateway,
+        ip: req.ip,
+        reason: result.error,
+      });
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({ success: true, outcome: result.outcome });
+  } catch (err) {
+    console.error('Inbound SMS error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// =============================================================================
+// APPOINTMENT WAITLIST
+// =============================================================================
+
+/**
+ * GET /api/appointment-waitlist
+ * Patients waiting for an earlier appointment, in the order they are offered slots
+ */
+app.get('/api/appointment-waitlist', authMiddleware, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const result = await getWaitlist();
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch waitlist' });
+    }
+    res.json({ success: true, entries: result.entries });
+  } catch (err) {
+    console.error('Get waitlist error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/appointment-waitlist/offers?providerId=&date=YYYY-MM-DD&durationMinutes=
+ * Waiting patients a freed slot suits, in priority order
+ */
+app.get('/api/appointment-waitlist/offers', authMiddleware, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const { providerId, date } = req.query;
+    const durationMinutes = parseInt(req.query.durationMinutes, 10);
+    if (!providerId || !DATE_PATTERN.test(date || '') || !(durationMinutes > 0)) {
+      return res.status(400).json({ error: 'providerId, date (YYYY-MM-DD) and durationMinutes are required' });
+    }
+
+    const result = await getWaitlistOffers({ providerId, date, durationMinutes });
+    if (!result.success) {
+      return res.status(500).json({ error: result.error || 'Failed to fetch waitlist offers' });
+    }
+    res.json({ success: true, offers: result.offers });
+  } catch (err) {
+    console.error('Get waitlist offers error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/appointment-waitlist
+ * Put a patient on the waitlist
+ */
+app.post('/api/appointment-waitlist', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const { patientId, appointmentType, providerId, earliestDate, latestDate, priority, notes } = req.body || {};
+
+    if (!patientId) {
+      return res.status(400).json({ error: 'patientId is required' });
+    }
+    if (!APPOINTMENT_DURATIONS[appointmentType]) {
+      return res.status(400).json({ error: `appointmentType must be one of ${Object.keys(APPOINTMENT_DURATIONS).join(', ')}` });
+    }
+    if (!DATE_PATTERN.test(earliestDate || '') || (latestDate && !DATE_PATTERN.test(latestDate))) {
+      return res.status(400).json({ error: 'earliestDate and latestDate must be YYYY-MM-DD' });
+    }
+    if (latestDate && latestDate < earliestDate) {
+      return res.status(400).json({ error: 'latestDate cannot be before earliestDate' });
+    }
+    if (priority && !['Normal', 'Emergency'].includes(priority)) {
+      return res.status(400).json({ error: 'priority must be Normal or Emergency' });
+    }
+
+    const result = await addToWaitlist({
+      patientId,
+      appointmentType,
+      providerId,
+      earliestDate,
+      latestDate,
+      priority,
+      notes: notes ? sanitizeString(String(notes)) : null,
+    }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to add to waitlist' });
+    }
+
+    res.status(201).json({ success: true, entry: result.entry });
+  } catch (err) {
+    console.error('Add to waitlist error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/appointment-waitlist/:id/remove
+ * Take a patient off the waitlist
+ */
+app.post('/api/appointment-waitlist/:id/remove', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const result = await removeFromWaitlist(req.params.id, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to remove from waitlist' });
+    }
+    res.json({ success: true, entry: result.entry });
+  } catch (err) {
+    console.error('Remove from waitlist error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/appointment-waitlist/:id/book
+ * Book a waiting patient into a slot (e.g. one freed by a cancellation)
+ */
+app.post('/api/appointment-waitlist/:id/book', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(APPOINTMENT_ROLES), async (req, res) => {
+  try {
+    const { providerId, date, time, reminderLanguage } = req.body || {};
+    const slotError = validateAppointmentSlot(date, time);
+    if (slotError) {
+      return res.status(400).json({ error: slotError });
+    }
+    if (reminderLanguage && !REMINDER_LANGUAGES.includes(reminderLanguage)) {
+      return res.status(400).json({ error: `reminderLanguage must be one of ${REMINDER_LANGUAGES.join(', ')}` });
+    }
+
+    const result = await bookFromWaitlist(req.params.id, { providerId, date, time, reminderLanguage }, req.user.sub);
+    if (!result.success) {
+      return res.status(409).json({ error: result.error || 'Failed to book from waitlist' });
+    }
+
+    await scheduleReminders(result.appointment.id);
+    const appointment = { ...result.appointment, appointment_reminders: await getReminders(result.appointment.id) };
+
+    await logCriticalOperation(req.user.sub, 'BOOK_APPOINTMENT', 'APPOINTMENT', appointment.id, req.ip, {
+      patientId: appointment.patient_id,
+      providerId: appointment.provider_id,
+      date,
+      time,
+      waitlistEntryId: req.params.id,
+    });
+
+    res.status(201).json({ success: true, appointment });
+  } catch (err) {
+    console.error('Book from waitlist error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/mobile-money/callback/:gateway
+ * Result callback from the mobile money gateway (authenticated by the gateway's signature, not a user session)
+ */
+app.post('/api/mobile-money/callback/:gateway', async (req, res) => {
+  try {
+    const result = await handleMobileMoneyCallback(req.params.gateway, req.headers, req.body);
+    if (!result.success) {
+      logSecurityEvent('MOBILE_MONEY_CALLBACK_REJECTED', {
+        gateway: req.params.gateway,
+        ip: req.ip,
+        reason: result.error,
+      });
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Mobile money callback error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/nhif/config
+ * Get NHIF facility configuration (admin only)
+ */
+app.get('/api/nhif/config', authMiddleware, roleMiddleware(['super_admin']), async (req, res) => {
+  try {
+    const { data: config, error } = await supabase
+      .from('nhif_facility_config')
+      .select('*')
+      .eq('is_active', true)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      return res.status(400).json({ error: error.message || 'Failed to fetch NHIF config' });
+    }
+
+    // Mask password for security
+    if (config && config.nhif_password) {
+      config.nhif_password = '••••••••';
+    }
+
+    res.json({ config: config || null });
+  } catch (err) {
+    console.error('Get NHIF config error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/nhif/config
+ * Update NHIF facility configuration (admin only)
+ */
+app.post('/api/nhif/config', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(['super_admin']), async (req, res) => {
+  try {
+    const { facilityCode, facilityName, nhifApiUrl, nhifUsername, nhifPassword } = req.body;
+
+    if (!facilityCode || !facilityCode.trim()) {
+      return res.status(400).json({ error: 'Facility code is required' });
+    }
+    if (!nhifUsername || !nhifUsername.trim()) {
+      return res.status(400).json({ error: 'NHIF username is required' });
+    }
+    if (!nhifPassword || nhifPassword === '••••••••') {
       return res.status(400).json({ error: 'NHIF password is required' });
     }
 
@@ -1557,6 +4323,11 @@ app.post('/api/audit-logs/log', authMiddleware, writeRateLimiter, async (req, re
       return res.status(400).json({ error: 'Missing required fields: action, entityType, entityId' });
     }
 
+    // Activity reported by the frontend follows the audit logging setting
+    if (!(await isAuditLoggingEnabled())) {
+      return res.json({ success: true, logged: false });
+    }
+
     const { error } = await supabase.from('audit_logs').insert({
       user_id: req.user.sub,
       action: action,
@@ -1667,6 +4438,7 @@ app.get('/api/providers', authMiddleware, async (req, res) => {
         name: provider.name,
         role: provider.role,
         specialization: provider.specialization,
+        registrationNumber: provider.registration_number,
         isNHIFVerified: provider.is_nhif_verified,
         status: provider.status,
         queue: [], // Can be calculated from patients table if needed
@@ -1721,8 +4493,10 @@ app.get('/api/medications', authMiddleware, async (req, res) => {
       form: med.form,
       price: parseFloat(med.price),
       stock: med.stock,
+      reorderLevel: med.reorder_level,
       isCoveredByNHIF: med.is_covered_by_nhif,
       isCoveredByPrivate: med.is_covered_by_private,
+      tariffCode: med.tariff_code || undefined,
     }));
 
     res.json({ success: true, medications: formattedMedications });
@@ -1732,6 +4506,263 @@ app.get('/api/medications', authMiddleware, async (req, res) => {
   }
 });
 
+const INVENTORY_ROLES = ['pharmacist', 'super_admin', 'clinic_manager'];
+
+/**
+ * GET /api/medications/:id/batches
+ * Batches of a medication in FEFO order (?includeEmpty=true for depleted batches)
+ */
+app.get('/api/medications/:id/batches', authMiddleware, roleMiddleware(INVENTORY_ROLES), async (req, res) => {
+  try {
+    const result = await getMedicationBatches(req.params.id, req.query.includeEmpty === 'true');
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch batches' });
+    }
+
+    res.json({ success: true, batches: result.batches });
+  } catch (err) {
+    console.error('Get medication batches error:', err);
+    res.status(500).json({ error: 'Failed to fetch batches' });
+  }
+});
+
+/**
+ * GET /api/medications/:id/ledger?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Stock movements for a medication with running balance
+ */
+app.get('/api/medications/:id/ledger', authMiddleware, roleMiddleware(INVENTORY_ROLES), async (req, res) => {
+  try {
+    const { from, to } = req.query;
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return res.status(400).json({ error: 'Dates must be YYYY-MM-DD' });
+    }
+
+    const result = await getStockLedger(req.params.id, { from, to });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch stock ledger' });
+    }
+
+    res.json({ success: true, movements: result.movements });
+  } catch (err) {
+    console.error('Get stock ledger error:', err);
+    res.status(500).json({ error: 'Failed to fetch stock ledger' });
+  }
+});
+
+/**
+ * PUT /api/medications/:id/reorder-level
+ * Set the stock level at which a medication is flagged for reordering
+ */
+app.put('/api/medications/:id/reorder-level', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(INVENTORY_ROLES), async (req, res) => {
+  try {
+    const { reorderLevel } = req.body;
+    if (!Number.isInteger(reorderLevel) || reorderLevel < 0) {
+      return res.status(400).json({ error: 'Reorder level must be a whole number of zero or more' });
+    }
+
+    const result = await setReorderLevel(req.params.id, reorderLevel, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to update reorder level' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'UPDATE_REORDER_LEVEL', 'MEDICATION', req.params.id, req.ip, { reorderLevel });
+
+    res.json({ success: true, reorderLevel: result.reorderLevel });
+  } catch (err) {
+    console.error('Update reorder level error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/inventory/alerts?expiryWithinDays=90
+ * Medications at or below reorder level and batches expiring within the window
+ */
+app.get('/api/inventory/alerts', authMiddleware, roleMiddleware(INVENTORY_ROLES), async (req, res) => {
+  try {
+    const expiryWithinDays = req.query.expiryWithinDays !== undefined ? parseInt(req.query.expiryWithinDays, 10) : 90;
+    if (isNaN(expiryWithinDays) || expiryWithinDays < 0 || expiryWithinDays > 730) {
+      return res.status(400).json({ error: 'Expiry window must be between 0 and 730 days' });
+    }
+
+    const result = await getStockAlerts(expiryWithinDays);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch stock alerts' });
+    }
+
+    res.json({ success: true, lowStock: result.lowStock, nearExpiry: result.nearExpiry });
+  } catch (err) {
+    console.error('Get stock alerts error:', err);
+    res.status(500).json({ error: 'Failed to fetch stock alerts' });
+  }
+});
+
+/**
+ * GET /api/inventory/grns
+ * Recent goods received notes with their lines
+ */
+app.get('/api/inventory/grns', authMiddleware, roleMiddleware(INVENTORY_ROLES), async (req, res) => {
+  try {
+    const result = await getGoodsReceivedNotes();
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to fetch goods received notes' });
+    }
+
+    res.json({ success: true, grns: result.grns });
+  } catch (err) {
+    console.error('Get goods received notes error:', err);
+    res.status(500).json({ error: 'Failed to fetch goods received notes' });
+  }
+});
+
+/**
+ * POST /api/inventory/grns
+ * Receive stock from a supplier into expiry-dated batches
+ */
+app.post('/api/inventory/grns', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(INVENTORY_ROLES), async (req, res) => {
+  try {
+    const { supplierName, supplierInvoiceNo, receivedDate, notes, items } = req.body;
+
+    if (!supplierName || !String(supplierName).trim()) {
+      return res.status(400).json({ error: 'Supplier name is required' });
+    }
+    if (receivedDate && !DATE_PATTERN.test(receivedDate)) {
+      return res.status(400).json({ error: 'Received date must be YYYY-MM-DD' });
+    }
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'At least one item is required' });
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    for (const it of items) {
+      if (!it.medicationId || !it.batchNo || !String(it.batchNo).trim()) {
+        return res.status(400).json({ error: 'Each item needs a medication and batch number' });
+      }
+      if (!it.expiryDate || !DATE_PATTERN.test(it.expiryDate)) {
+        return res.status(400).json({ error: `Expiry date (YYYY-MM-DD) is required for batch ${it.batchNo}` });
+      }
+      if (it.expiryDate < today) {
+        return res.status(400).json({ error: `Batch ${it.batchNo} has already expired` });
+      }
+      if (!Number.isInteger(it.quantity) || it.quantity <= 0) {
+        return res.status(400).json({ error: `Quantity for batch ${it.batchNo} must be a positive whole number` });
+      }
+      if (it.unitCost !== undefined && it.unitCost !== null && (isNaN(parseFloat(it.unitCost)) || parseFloat(it.unitCost) < 0)) {
+        return res.status(400).json({ error: `Unit cost for batch ${it.batchNo} must be a positive number` });
+      }
+    }
+
+    const result = await receiveGoods({
+      supplierName: sanitizeString(supplierName),
+      supplierInvoiceNo: supplierInvoiceNo ? sanitizeString(supplierInvoiceNo) : null,
+      receivedDate,
+      notes: notes ? sanitizeString(notes) : null,
+      items: items.map((it) => ({
+        medicationId: it.medicationId,
+        batchNo: sanitizeString(String(it.batchNo).trim()),
+        expiryDate: it.expiryDate,
+        quantity: it.quantity,
+        unitCost: it.unitCost !== undefined && it.unitCost !== null ? parseFloat(it.unitCost) : undefined,
+      })),
+    }, req.user.sub);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to receive goods' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'STOCK_RECEIVE', 'GOODS_RECEIVED_NOTE', result.grn.id, req.ip, {
+      grnNumber: result.grn.grn_number,
+      supplierName,
+      itemCount: items.length,
+    });
+
+    res.status(201).json({ success: true, grn: result.grn });
+  } catch (err) {
+    console.error('Receive goods error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/inventory/adjustments
+ * Adjust a batch with a reason (positive adds stock, negative removes it)
+ */
+app.post('/api/inventory/adjustments', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(INVENTORY_ROLES), async (req, res) => {
+  try {
+    const { batchId, quantity, reason, notes } = req.body;
+
+    if (!batchId) {
+      return res.status(400).json({ error: 'Batch is required' });
+    }
+    if (!Number.isInteger(quantity) || quantity === 0) {
+      return res.status(400).json({ error: 'Quantity must be a non-zero whole number' });
+    }
+    if (!STOCK_ADJUSTMENT_REASONS.includes(reason)) {
+      return res.status(400).json({ error: `Reason must be one of: ${STOCK_ADJUSTMENT_REASONS.join(', ')}` });
+    }
+    if (reason === 'OTHER' && (!notes || !String(notes).trim())) {
+      return res.status(400).json({ error: 'Notes are required when the reason is OTHER' });
+    }
+
+    const result = await adjustStock({
+      batchId,
+      quantity,
+      reason,
+      notes: notes ? sanitizeString(notes) : null,
+    }, req.user.sub);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to adjust stock' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'STOCK_ADJUST', 'MEDICATION_BATCH', batchId, req.ip, {
+      quantity,
+      reason,
+      notes,
+    });
+
+    res.json({ success: true, balanceAfter: result.balanceAfter });
+  } catch (err) {
+    console.error('Adjust stock error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/inventory/dispense
+ * Deduct dispensed medications from stock, first expiry first out
+ */
+app.post('/api/inventory/dispense', authMiddleware, writeRateLimiter, csrfProtection, roleMiddleware(INVENTORY_ROLES), async (req, res) => {
+  try {
+    const { patientId, visitId, items } = req.body;
+
+    if (!patientId) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'At least one item is required' });
+    }
+    if (items.some((it) => !it.medicationId || !Number.isInteger(it.quantity) || it.quantity <= 0)) {
+      return res.status(400).json({ error: 'Each item needs a medication and a positive whole quantity' });
+    }
+
+    const result = await dispenseStock(items, { patientId, visitId }, req.user.sub);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error || 'Failed to dispense stock' });
+    }
+
+    await logCriticalOperation(req.user.sub, 'STOCK_DISPENSE', 'PATIENT', patientId, req.ip, {
+      visitId,
+      allocations: result.allocations,
+    });
+
+    res.json({ success: true, allocations: result.allocations });
+  } catch (err) {
+    console.error('Dispense stock error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/icd10-codes
  * Get ICD-10 codes (with optional search)
@@ -1797,6 +4828,21 @@ app.listen(PORT, () => {
   console.log(`✔️  Input validation enabled`);
   console.log(`🛡️  Enterprise security features active`);
   console.log(`\n🚀 Server ready to accept connections\n`);
+
+  // Receipts the fiscal device could not take are retried in the background
+  setInterval(() => {
+    retryFailedFiscalReceipts().catch((error) => console.error('Fiscal retry run failed:', error));
+  }, parseInt(process.env.FISCAL_RETRY_INTERVAL_MS || '300000', 10));
+
+  // Appointments the patient has not checked in for turn LATE, then NO_SHOW
+  setInterval(() => {
+    markMissedAppointments().catch((error) => console.error('Missed appointment run failed:', error));
+  }, parseInt(process.env.APPOINTMENT_ATTENDANCE_INTERVAL_MS || '60000', 10));
+
+  // Appointment reminders are sent by SMS as they fall due
+  setInterval(() => {
+    sendDueReminders().catch((error) => console.error('Appointment reminder run failed:', error));
+  }, parseInt(process.env.SMS_REMINDER_INTERVAL_MS || '60000', 10));
 });
 
 export default app;
@@ -0,0 +1,279 @@
+/**
+ * Eye Exams Module
+ * The structured examination recorded at each encounter: visual acuity, IOP, pupils,
+ * segments, cup-to-disc ratio and refraction, per eye and in fixed units. One record per
+ * visit; it can be edited until the visit is closed. Also each patient's target IOP band.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { sanitizeString } from './validation.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const TONOMETRY_METHODS = ['Goldmann Applanation', 'Non-Contact Tonometry (NCT)', 'Tono-Pen', 'iCare', 'Pneumatonometry'];
+
+export const PRISM_BASES = ['BI', 'BO', 'BU', 'BD'];
+
+// Snellen fraction (6/9, 20/30) or a low-vision grade
+const DISTANCE_VA_PATTERN = /^(\d{1,2}(\.\d)?\/\d{1,3}(\.\d)?|CF|HM|PL|NPL)$/i;
+// N-point near acuity (N6), or a Snellen value when near was measured that way
+const NEAR_VA_PATTERN = /^(N\d{1,2}(\.\d)?|\d{1,2}(\.\d)?\/\d{1,3}(\.\d)?)$/i;
+
+// Numeric per-eye measurements: column prefix, label, unit, range and step
+const MEASUREMENTS = {
+  iopMmHg: { column: 'iop', label: 'IOP', unit: 'mmHg', min: 0, max: 80, step: 0.5 },
+  pupilSizeMm: { column: 'pupil_size', label: 'Pupil size', unit: 'mm', min: 1, max: 10, step: 0.5 },
+  cupDiscRatio: { column: 'cup_disc_ratio', label: 'Cup-to-disc ratio', unit: '', min: 0, max: 1, step: 0.05 },
+  sphere: { column: 'sphere', label: 'Sphere', unit: 'D', min: -30, max: 30, step: 0.25 },
+  cylinder: { column: 'cylinder', label: 'Cylinder', unit: 'D', min: -10, max: 10, step: 0.25 },
+  axis: { column: 'axis', label: 'Axis', unit: '°', min: 1, max: 180, step: 1 },
+  add: { column: 'add', label: 'Add', unit: 'D', min: 0.25, max: 4, step: 0.25 },
+  prism: { column: 'prism', label: 'Prism', unit: 'Δ', min: 0, max: 20, step: 0.5 },
+};
+
+const ACUITIES = {
+  vaDistance: { column: 'va_distance', label: 'Distance VA', pattern: DISTANCE_VA_PATTERN },
+  vaNear: { column: 'va_near', label: 'Near VA', pattern: NEAR_VA_PATTERN },
+  vaPinhole: { column: 'va_pinhole', label: 'Pinhole VA', pattern: DISTANCE_VA_PATTERN },
+  vaBestCorrected: { column: 'va_best_corrected', label: 'Best-corrected VA', pattern: DISTANCE_VA_PATTERN },
+};
+
+const isBlank = (value) => value === undefined || value === null || String(value).trim() === '';
+
+const onStep = (value, step) => Math.abs(value / step - Math.round(value / step)) < 1e-6;
+
+const textOrNull = (value) => (isBlank(value) ? null : sanitizeString(String(value)));
+
+/**
+ * Check an exam from the client and build the eye_exams row for it. Errors are keyed
+ * by field, e.g. od.iopMmHg, so the form can show them next to the input.
+ */
+export const validateEyeExam = (exam) => {
+  const errors = {};
+  const row = {};
+
+  for (const eye of ['od', 'os']) {
+    const values = (exam && exam[eye]) || {};
+    const side = eye.toUpperCase();
+
+    for (const [field, spec] of Object.entries(ACUITIES)) {
+      const value = values[field];
+      if (isBlank(value)) {
+        row[`${spec.column}_${eye}`] = null;
+      } else if (!spec.pattern.test(String(value).trim())) {
+        errors[`${eye}.${field}`] = `${spec.label} ${side} is not a recognised acuity`;
+      } else {
+        row[`${spec.column}_${eye}`] = String(value).trim().toUpperCase();
+      }
+    }
+
+    for (const [field, spec] of Object.entries(MEASUREMENTS)) {
+      const value = values[field];
+      if (isBlank(value)) {
+        row[`${spec.column}_${eye}`] = null;
+        continue;
+      }
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < spec.min || number > spec.max) {
+        errors[`${eye}.${field}`] = `${spec.label} ${side} must be between ${spec.min} and ${spec.max}${spec.unit}`;
+      } else if (!onStep(number, spec.step)) {
+        errors[`${eye}.${field}`] = `${spec.label} ${side} must be in steps of ${spec.step}${spec.unit}`;
+      } else {
+        row[`${spec.column}_${eye}`] = number;
+      }
+    }
+
+    if (!isBlank(values.cylinder) && Number(values.cylinder) !== 0 && isBlank(values.axis)) {
+      errors[`${eye}.axis`] = `Axis ${side} is required with a cylinder`;
+    }
+
+    const base = isBlank(values.prismBase) ? null : String(values.prismBase).toUpperCase();
+    if (base && !PRISM_BASES.includes(base)) {
+      errors[`${eye}.prismBase`] = `Prism base ${side} must be one of ${PRISM_BASES.join(', ')}`;
+    } else if (!base && Number(values.prism) > 0) {
+      errors[`${eye}.prismBase`] = `Prism base ${side} is required with a prism`;
+    }
+    row[`prism_base_${eye}`] = base;
+    row[`pupil_reaction_${eye}`] = textOrNull(values.pupilReaction);
+  }
+
+  const pd = exam?.pupillaryDistanceMm;
+  if (isBlank(pd)) {
+    row.pupillary_distance_mm = null;
+  } else if (!Number.isFinite(Number(pd)) || Number(pd) < 40 || Number(pd) > 80) {
+    errors.pupillaryDistanceMm = 'PD must be between 40 and 80mm';
+  } else {
+    row.pupillary_distance_mm = Number(pd);
+  }
+
+  if (!isBlank(exam?.tonometryMethod) && !TONOMETRY_METHODS.includes(exam.tonometryMethod)) {
+    errors.tonometryMethod = 'Unknown tonometry method';
+  }
+  row.tonometry_method = isBlank(exam?.tonometryMethod) ? null : exam.tonometryMethod;
+  row.is_dilated = !!exam?.isDilated;
+  row.pupils = textOrNull(exam?.pupils);
+  row.extraocular_movements = textOrNull(exam?.extraocularMovements);
+  row.anterior_segment = textOrNull(exam?.anteriorSegment);
+  row.posterior_segment = textOrNull(exam?.posteriorSegment);
+  row.slit_lamp = textOrNull(exam?.slitLamp);
+
+  return { isValid: Object.keys(errors).length === 0, errors, row };
+};
+
+/**
+ * The exam recorded at a visit, or null when none has been saved yet
+ */
+export const getEyeExam = async (visitId) => {
+  try {
+    const { data, error } = await supabase
+      .from('eye_exams')
+      .select('*')
+      .eq('visit_id', visitId)
+      .maybeSingle();
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, exam: data };
+  } catch (error) {
+    console.error('Error getting eye exam:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * All of a patient's exams, oldest first, for trends across visits
+ */
+export const getPatientEyeExams = async (patientId) => {
+  try {
+    const { data, error } = await supabase
+      .from('eye_exams')
+      .select('*, visits(visit_date)')
+      .eq('patient_id', patientId)
+      .order('created_at', { ascending: true });
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, exams: data || [] };
+  } catch (error) {
+    console.error('Error getting patient eye exams:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Create or replace the exam for a visit. Closed visits are read-only.
+ */
+export const saveEyeExam = async (visitId, exam, userId) => {
+  try {
+    const { data: visit } = await supabase
+      .from('visits')
+      .select('id, patient_id, status')
+      .eq('id', visitId)
+      .maybeSingle();
+    if (!visit) {
+      return { success: false, error: 'Visit not found' };
+    }
+    if (visit.status === 'COMPLETED' || visit.status === 'CANCELLED') {
+      return { success: false, error: 'Visit is closed and can no longer be modified' };
+    }
+
+    const validation = validateEyeExam(exam);
+    if (!validation.isValid) {
+      return { success: false, error: 'Validation failed', errors: validation.errors };
+    }
+
+    const row = {
+      ...validation.row,
+      provider_id: exam.providerId || null,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    };
+    const { data: existing } = await supabase
+      .from('eye_exams')
+      .select('id')
+      .eq('visit_id', visitId)
+      .maybeSingle();
+
+    const { data, error } = existing
+      ? await supabase.from('eye_exams').update(row).eq('id', existing.id).select('*').single()
+      : await supabase
+        .from('eye_exams')
+        .insert({ ...row, visit_id: visitId, patient_id: visit.patient_id, created_by: userId })
+        .select('*')
+        .single();
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, exam: data };
+  } catch (error) {
+    console.error('Error saving eye exam:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * A patient's target IOP band, or null when none has been set
+ */
+export const getIopTarget = async (patientId) => {
+  try {
+    const { data, error } = await supabase
+      .from('iop_targets')
+      .select('*')
+      .eq('patient_id', patientId)
+      .maybeSingle();
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, target: data };
+  } catch (error) {
+    console.error('Error getting IOP target:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Set a patient's target IOP band (mmHg per eye; either end may be left open)
+ */
+export const setIopTarget = async (patientId, { od, os, notes }, userId) => {
+  try {
+    const row = { patient_id: patientId };
+    for (const [eye, band] of [['od', od || {}], ['os', os || {}]]) {
+      for (const end of ['low', 'high']) {
+        const value = band[end];
+        if (isBlank(value)) {
+          row[`${eye}_${end}`] = null;
+          continue;
+        }
+        const number = Number(value);
+        if (!Number.isFinite(number) || number < 0 || number > 80) {
+          return { success: false, error: `Target IOP ${eye.toUpperCase()} must be between 0 and 80mmHg` };
+        }
+        row[`${eye}_${end}`] = number;
+      }
+      if (row[`${eye}_low`] !== null && row[`${eye}_high`] !== null && row[`${eye}_low`] >= row[`${eye}_high`]) {
+        return { success: false, error: `Target IOP ${eye.toUpperCase()}: the lower limit must be below the upper limit` };
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('iop_targets')
+      .upsert({
+        ...row,
+        notes: textOrNull(notes),
+        set_by: userId,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'patient_id' })
+      .select('*')
+      .single();
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, target: data };
+  } catch (error) {
+    console.error('Error setting IOP target:', error);
+    return { success: false, error: error.message };
+  }
+};
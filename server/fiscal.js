@@ -0,0 +1,324 @@
+/**
+ * Fiscal Receipts Module
+ * Registers each receipt the patient paid on with the TRA fiscal device (EFD) or
+ * VFD API through a pluggable adapter. Insurance lines are invoiced to the insurer
+ * and are not part of the fiscal receipt. Receipts the device could not take are
+ * kept as FAILED and retried with backoff until they are fiscalised; a receipt left
+ * PENDING by a send that never finished is retried once its claim has gone stale.
+ *
+ * Devices implement:
+ *   registerReceipt({ receiptNumber, issuedAt, tin, customer, items, payments, total })
+ *     -> { verificationCode, verificationUrl, zNumber, fiscalCounter, fiscalisedAt }
+ *   and throw when the receipt could not be registered.
+ *
+ * The emulator is used unless FISCAL_DEVICE names another registered device. Its
+ * receipts are not valid fiscal receipts, so it is refused when NODE_ENV is production.
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+/**
+ * TRA tax codes per bill category: optical goods carry standard-rate VAT (A),
+ * medical services and medicines are exempt (E)
+ */
+const TAX_CODES = { OPTICAL: 'A', CLINICAL: 'E', PHARMACY: 'E' };
+
+const CATEGORY_LABELS = { CLINICAL: 'Clinical services', PHARMACY: 'Pharmacy', OPTICAL: 'Optical' };
+
+const MAX_RETRY_DELAY_MINUTES = 60;
+
+// A send holds its PENDING claim this long; past it the send is taken to have died
+const SEND_CLAIM_MINUTES = 10;
+
+const claimExpiry = () => new Date(Date.now() + SEND_CLAIM_MINUTES * 60000).toISOString();
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+// =============================================================================
+// Emulator (local development and testing, no TRA connection)
+// =============================================================================
+
+let emulatorCounter = 0;
+
+const emulatorDevice = {
+  registerReceipt: async ({ issuedAt }) => {
+    if (process.env.FISCAL_EMULATOR_OFFLINE === 'true') {
+      throw new Error('Fiscal device unreachable (emulator offline)');
+    }
+    emulatorCounter += 1;
+    const issued = new Date(issuedAt);
+    const verificationCode = `EMU${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+    const time = issued.toISOString().slice(11, 19).replace(/:/g, '');
+    return {
+      verificationCode,
+      // Never a TRA address: an emulator receipt must not look verifiable
+      verificationUrl: `https://fiscal-emulator.invalid/not-a-fiscal-receipt/${verificationCode}_${time}`,
+      zNumber: issued.toISOString().slice(0, 10).replace(/-/g, ''),
+      fiscalCounter: emulatorCounter,
+      fiscalisedAt: new Date().toISOString(),
+    };
+  },
+};
+
+const devices = { emulator: emulatorDevice };
+
+/**
+ * Register a fiscal device implementation (e.g. a VFD API client)
+ */
+export const registerFiscalDevice = (name, device) => {
+  devices[name] = device;
+};
+
+const activeDeviceName = () => process.env.FISCAL_DEVICE || 'emulator';
+
+/**
+ * A registered device by name; the emulator is never used in production
+ */
+const usableDevice = (deviceName) =>
+  deviceName === 'emulator' && process.env.NODE_ENV === 'production' ? undefined : devices[deviceName];
+
+// =============================================================================
+// Receipts
+// =============================================================================
+
+/**
+ * Split the receipt total across the bill's categories in proportion to the bill,
+ * so each line carries the right tax code
+ */
+const buildReceiptItems = (billItems, total) => {
+  const byCategory = {};
+  for (const item of billItems) {
+    byCategory[item.category] = (byCategory[item.category] || 0) + (parseFloat(item.amount) || 0);
+  }
+  const categories = Object.keys(byCategory).filter((c) => byCategory[c] > 0);
+  const billTotal = categories.reduce((sum, c) => sum + byCategory[c], 0);
+  if (billTotal <= 0) {
+    return [{ description: 'Medical services', taxCode: 'E', quantity: 1, amount: total }];
+  }
+
+  let allocated = 0;
+  return categories.map((category, index) => {
+    const amount = index === categories.length - 1
+      ? roundAmount(total - allocated)
+      : roundAmount((total * byCategory[category]) / billTotal);
+    allocated = roundAmount(allocated + amount);
+    return { description: CATEGORY_LABELS[category] || category, taxCode: TAX_CODES[category] || 'E', quantity: 1, amount };
+  });
+};
+
+/**
+ * Send a receipt row to its device and record the outcome. The row must already be
+ * claimed (PENDING) by the caller so two senders never register the same receipt.
+ */
+const sendToDevice = async (row) => {
+  const device = usableDevice(row.device);
+  const attempts = (row.attempts || 0) + 1;
+  try {
+    if (!device) {
+      throw new Error(`Fiscal device "${row.device}" is not configured`);
+    }
+    const result = await device.registerReceipt(row.payload);
+    const { data } = await supabase
+      .from('fiscal_receipts')
+      .update({
+        status: 'FISCALISED',
+        verification_code: result.verificationCode,
+        verification_url: result.verificationUrl,
+        z_number: result.zNumber || null,
+        fiscal_counter: result.fiscalCounter ?? null,
+        fiscalised_at: result.fiscalisedAt || new Date().toISOString(),
+        attempts,
+        last_error: null,
+        next_attempt_at: null,
+      })
+      .eq('id', row.id)
+      .select()
+      .single();
+    return data;
+  } catch (error) {
+    const delayMinutes = Math.min(2 ** (attempts - 1), MAX_RETRY_DELAY_MINUTES);
+    console.warn(`Fiscalising ${row.receipt_number} failed (attempt ${attempts}):`, error.message);
+    const { data } = await supabase
+      .from('fiscal_receipts')
+      .update({
+        status: 'FAILED',
+        attempts,
+        last_error: error.message,
+        next_attempt_at: new Date(Date.now() + delayMinutes * 60000).toISOString(),
+      })
+      .eq('id', row.id)
+      .select()
+      .single();
+    return data;
+  }
+};
+
+/**
+ * Whether a receipt can be sent again: it failed, or its send claim has gone stale
+ */
+const isRetryable = (row) =>
+  row.status === 'FAILED'
+  || (row.status === 'PENDING' && (!row.next_attempt_at || new Date(row.next_attempt_at) <= new Date()));
+
+/**
+ * Claim a FAILED (or stale PENDING) receipt and send it again; returns the row as it now stands
+ */
+const retryFiscalReceipt = async (row) => {
+  const { data: claimed } = await supabase
+    .from('fiscal_receipts')
+    .update({ status: 'PENDING', next_attempt_at: claimExpiry() })
+    .eq('id', row.id)
+    .or(`status.eq.FAILED,and(status.eq.PENDING,or(next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}))`)
+    .select()
+    .maybeSingle();
+
+  if (!claimed) {
+    // Retried by someone else in the meantime
+    const { data: current } = await supabase.from('fiscal_receipts').select('*').eq('id', row.id).single();
+    return current || row;
+  }
+  return sendToDevice(claimed);
+};
+
+/**
+ * Register a receipt with the fiscal device. Returns the fiscal receipt row (FISCALISED
+ * or FAILED and queued for retry), or null when nothing on the receipt was paid by the patient.
+ * A receipt already registered is returned as it is.
+ */
+export const fiscaliseReceipt = async (receiptNumber) => {
+  try {
+    const { data: existing } = await supabase
+      .from('fiscal_receipts')
+      .select('*')
+      .eq('receipt_number', receiptNumber)
+      .maybeSingle();
+    if (existing) {
+      const fiscalReceipt = isRetryable(existing) ? await retryFiscalReceipt(existing) : existing;
+      return { success: true, fiscalReceipt };
+    }
+
+    const { data: payments, error: paymentsError } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('receipt_number', receiptNumber);
+    if (paymentsError || !payments || payments.length === 0) {
+      return { success: false, error: 'Receipt not found' };
+    }
+
+    const paid = payments.filter((p) => p.method !== 'INSURANCE');
+    const total = roundAmount(paid.reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0));
+    if (total <= 0) {
+      return { success: true, fiscalReceipt: null };
+    }
+
+    const { visit_id: visitId, patient_id: patientId, received_at: issuedAt } = payments[0];
+    const [{ data: patient }, { data: billItems }] = await Promise.all([
+      supabase.from('patients').select('name, phone').eq('id', patientId).maybeSingle(),
+      supabase.from('bill_items').select('category, amount').eq('visit_id', visitId).is('voided_at', null),
+    ]);
+
+    const payload = {
+      receiptNumber,
+      issuedAt,
+      tin: process.env.FISCAL_TIN || null,
+      customer: { name: patient?.name || 'Walk-in customer', phone: patient?.phone || null },
+      items: buildReceiptItems(billItems || [], total),
+      payments: paid.map((p) => ({ method: p.method, amount: parseFloat(p.amount) })),
+      total,
+    };
+
+    const { data: row, error } = await supabase
+      .from('fiscal_receipts')
+      .insert({
+        receipt_number: receiptNumber,
+        visit_id: visitId,
+        patient_id: patientId,
+        device: activeDeviceName(),
+        amount: total,
+        payload,
+        status: 'PENDING',
+        next_attempt_at: claimExpiry(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, fiscalReceipt: await sendToDevice(row) };
+  } catch (error) {
+    console.error('Error fiscalising receipt:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Retry FAILED receipts that are due (or all of them when force is set), and PENDING
+ * receipts whose send never finished
+ */
+export const retryFailedFiscalReceipts = async ({ force = false, limit = 20 } = {}) => {
+  try {
+    const now = new Date().toISOString();
+    const stalePending = `and(status.eq.PENDING,or(next_attempt_at.is.null,next_attempt_at.lte.${now}))`;
+    const { data: due, error } = await supabase
+      .from('fiscal_receipts')
+      .select('*')
+      .or(force ? `status.eq.FAILED,${stalePending}` : `and(status.eq.FAILED,next_attempt_at.lte.${now}),${stalePending}`)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    let fiscalised = 0;
+    for (const row of due || []) {
+      const result = await retryFiscalReceipt(row);
+      if (result?.status === 'FISCALISED') fiscalised += 1;
+    }
+    return { success: true, attempted: (due || []).length, fiscalised };
+  } catch (error) {
+    console.error('Error retrying fiscal receipts:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Fiscal receipts for a visit's receipts
+ */
+export const getVisitFiscalReceipts = async (visitId) => {
+  const { data } = await supabase
+    .from('fiscal_receipts')
+    .select('*')
+    .eq('visit_id', visitId);
+  return data || [];
+};
+
+/**
+ * Fiscal receipts by status, newest first (the retry queue is status FAILED)
+ */
+export const getFiscalReceipts = async ({ status } = {}) => {
+  try {
+    let query = supabase
+      .from('fiscal_receipts')
+      .select('*, patients(name)')
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, fiscalReceipts: data || [] };
+  } catch (error) {
+    console.error('Error listing fiscal receipts:', error);
+    return { success: false, error: error.message };
+  }
+};
@@ -0,0 +1,117 @@
+/**
+ * Insurance Schemes Module
+ * Benefit rules per private insurer scheme: coverage by bill category, annual
+ * optical limit, frame/lens caps, excluded service codes and a fixed co-pay.
+ * The rules are evaluated per bill line by the billing and optical screens.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+/**
+ * Map API body (camelCase) to scheme columns; only fields present are included
+ */
+const toSchemeRow = (scheme) => {
+  const row = {};
+  if (scheme.name !== undefined) row.name = scheme.name;
+  if (scheme.coverage?.CLINICAL !== undefined) row.coverage_clinical = scheme.coverage.CLINICAL;
+  if (scheme.coverage?.PHARMACY !== undefined) row.coverage_pharmacy = scheme.coverage.PHARMACY;
+  if (scheme.coverage?.OPTICAL !== undefined) row.coverage_optical = scheme.coverage.OPTICAL;
+  if (scheme.annualOpticalLimit !== undefined) row.annual_optical_limit = scheme.annualOpticalLimit;
+  if (scheme.frameCap !== undefined) row.frame_cap = scheme.frameCap;
+  if (scheme.lensCap !== undefined) row.lens_cap = scheme.lensCap;
+  if (scheme.copayAmount !== undefined) row.copay_amount = scheme.copayAmount;
+  if (scheme.excludedCodes !== undefined) row.excluded_codes = scheme.excludedCodes;
+  if (scheme.isActive !== undefined) row.is_active = scheme.isActive;
+  return row;
+};
+
+/**
+ * Schemes ordered by insurer and code
+ */
+export const getSchemes = async ({ includeInactive = false } = {}) => {
+  try {
+    let query = supabase
+      .from('insurance_schemes')
+      .select('*')
+      .order('insurer', { ascending: true })
+      .order('scheme_code', { ascending: true });
+
+    if (!includeInactive) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, schemes: data || [] };
+  } catch (error) {
+    console.error('Error getting insurance schemes:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Add a scheme for an insurer
+ */
+export const createScheme = async (scheme, userId) => {
+  try {
+    const { data: existing } = await supabase
+      .from('insurance_schemes')
+      .select('id')
+      .eq('insurer', scheme.insurer)
+      .eq('scheme_code', scheme.code)
+      .maybeSingle();
+
+    if (existing) {
+      return { success: false, error: `${scheme.insurer} already has a scheme ${scheme.code}` };
+    }
+
+    const { data: created, error } = await supabase
+      .from('insurance_schemes')
+      .insert({
+        ...toSchemeRow(scheme),
+        insurer: scheme.insurer,
+        scheme_code: scheme.code,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, scheme: created };
+  } catch (error) {
+    console.error('Error creating insurance scheme:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Change a scheme's rules (insurer and code are permanent)
+ */
+export const updateScheme = async (schemeId, scheme) => {
+  try {
+    const { data: updated, error } = await supabase
+      .from('insurance_schemes')
+      .update({ ...toSchemeRow(scheme), updated_at: new Date().toISOString() })
+      .eq('id', schemeId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!updated) {
+      return { success: false, error: 'Scheme not found' };
+    }
+    return { success: true, scheme: updated };
+  } catch (error) {
+    console.error('Error updating insurance scheme:', error);
+    return { success: false, error: error.message };
+  }
+};
@@ -0,0 +1,366 @@
+/**
+ * Insurer Claims Module
+ * Claim batches for the private insurers: completed private insurance visits are
+ * grouped by insurer and date range, submitted (on paper or the insurer's portal)
+ * and each claim is tracked through queries to payment or rejection.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { nextDocumentNumber } from './documentNumbers.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Generate the next claim batch number for today (IC-YYYYMMDD-NNNN)
+ */
+const generateBatchNumber = () => nextDocumentNumber('IC');
+
+/**
+ * Get completed visits billed to an insurer between two dates (YYYY-MM-DD) that are
+ * ready to be claimed: an INSURANCE payment recorded for the insurer share and no claim yet
+ */
+export const getClaimableInsurerVisits = async (insurer, from, to) => {
+  try {
+    const { data: visits, error: visitsError } = await supabase
+      .from('visits')
+      .select('id, patient_id, visit_date')
+      .eq('payer_type', 'INSURANCE')
+      .eq('insurance_provider', insurer)
+      .eq('status', 'COMPLETED')
+      .gte('visit_date', from)
+      .lte('visit_date', to)
+      .order('visit_date', { ascending: true });
+
+    if (visitsError) {
+      return { success: false, error: visitsError.message };
+    }
+    if (!visits || visits.length === 0) {
+      return { success: true, visits: [] };
+    }
+
+    const visitIds = visits.map((v) => v.id);
+    const patientIds = [...new Set(visits.map((v) => v.patient_id))];
+    const [claimRes, itemRes, paymentRes, preauthRes, patientRes] = await Promise.all([
+      supabase.from('insurer_claims').select('visit_id').in('visit_id', visitIds),
+      supabase.from('bill_items').select('*').in('visit_id', visitIds).eq('is_covered_by_private', true).is('voided_at', null),
+      supabase.from('payments').select('visit_id, amount, reference_number').in('visit_id', visitIds).eq('method', 'INSURANCE'),
+      supabase.from('preauthorizations').select('visit_id, approval_reference').in('visit_id', visitIds).in('status', ['APPROVED', 'PARTIALLY_APPROVED']),
+      supabase.from('patients').select('id, name, insurance_member_number, insurance_scheme_id').in('id', patientIds),
+    ]);
+
+    const queryError = claimRes.error || itemRes.error || paymentRes.error || preauthRes.error;
+    if (queryError) {
+      return { success: false, error: queryError.message };
+    }
+
+    const claimedVisitIds = new Set((claimRes.data || []).map((c) => c.visit_id));
+    const patients = patientRes.data || [];
+
+    const claimable = visits
+      .filter((v) => !claimedVisitIds.has(v.id))
+      .map((v) => {
+        const patient = patients.find((p) => p.id === v.patient_id);
+        const insurerPayments = (paymentRes.data || []).filter((p) => p.visit_id === v.id);
+        const items = (itemRes.data || [])
+          .filter((b) => b.visit_id === v.id)
+          .map((b) => ({
+            id: b.external_id || b.id,
+            description: b.description,
+            category: b.category,
+            amount: parseFloat(b.amount),
+            tariffCode: b.tariff_code || undefined,
+          }));
+        return {
+          visitId: v.id,
+          patientId: v.patient_id,
+          patientName: patient?.name || '',
+          memberNumber: patient?.insurance_member_number || insurerPayments.find((p) => p.reference_number)?.reference_number || undefined,
+          insuranceSchemeId: patient?.insurance_scheme_id || undefined,
+          visitDate: v.visit_date,
+          items,
+          preauthReferences: (preauthRes.data || [])
+            .filter((p) => p.visit_id === v.id && p.approval_reference)
+            .map((p) => p.approval_reference),
+          billAmount: roundAmount(items.reduce((sum, it) => sum + it.amount, 0)),
+          totalAmount: roundAmount(insurerPayments.reduce((sum, p) => sum + parseFloat(p.amount), 0)),
+        };
+      })
+      .filter((v) => v.totalAmount > 0);
+
+    return { success: true, visits: claimable };
+  } catch (error) {
+    console.error('Error fetching claimable insurer visits:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Recalculate claim count and total for a batch
+ */
+const refreshBatchTotals = async (batchId, userId) => {
+  const { data: claims } = await supabase
+    .from('insurer_claims')
+    .select('total_amount')
+    .eq('batch_id', batchId);
+
+  const totals = {
+    claim_count: (claims || []).length,
+    total_amount: roundAmount((claims || []).reduce((sum, c) => sum + parseFloat(c.total_amount), 0)),
+  };
+
+  await supabase
+    .from('insurer_claim_batches')
+    .update({ ...totals, updated_by: userId, updated_at: new Date().toISOString() })
+    .eq('id', batchId);
+
+  return totals;
+};
+
+/**
+ * Create (or extend) the draft batch for an insurer and period with claims for all claimable visits
+ */
+export const createInsurerClaimBatch = async (insurer, from, to, userId) => {
+  try {
+    const { data: existing } = await supabase
+      .from('insurer_claim_batches')
+      .select('*')
+      .eq('insurer', insurer)
+      .eq('period_start', from)
+      .eq('period_end', to)
+      .maybeSingle();
+
+    if (existing && existing.status !== 'DRAFT') {
+      return { success: false, error: `The ${insurer} batch for this period has already been submitted` };
+    }
+
+    const claimableResult = await getClaimableInsurerVisits(insurer, from, to);
+    if (!claimableResult.success) {
+      return claimableResult;
+    }
+    if (claimableResult.visits.length === 0) {
+      return { success: false, error: `No claimable ${insurer} visits in this period` };
+    }
+
+    let batch = existing;
+    if (!batch) {
+      const { data: created, error: createError } = await supabase
+        .from('insurer_claim_batches')
+        .insert({
+          batch_number: await generateBatchNumber(),
+          insurer,
+          period_start: from,
+          period_end: to,
+          status: 'DRAFT',
+          created_by: userId,
+        })
+        .select()
+        .single();
+      if (createError) {
+        return { success: false, error: createError.message };
+      }
+      batch = created;
+    }
+
+    const { data: lastClaim } = await supabase
+      .from('insurer_claims')
+      .select('claim_no')
+      .eq('batch_id', batch.id)
+      .order('claim_no', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    let nextClaimNo = (lastClaim?.claim_no || 0) + 1;
+
+    const claimRows = claimableResult.visits.map((v) => ({
+      batch_id: batch.id,
+      visit_id: v.visitId,
+      patient_id: v.patientId,
+      claim_no: nextClaimNo++,
+      member_number: v.memberNumber || null,
+      member_name: v.patientName || null,
+      insurance_scheme_id: v.insuranceSchemeId || null,
+      visit_date: v.visitDate,
+      items: v.items,
+      preauth_references: v.preauthReferences,
+      bill_amount: v.billAmount,
+      total_amount: v.totalAmount,
+      status: 'PENDING',
+      created_by: userId,
+    }));
+
+    const { error: claimError } = await supabase.from('insurer_claims').insert(claimRows);
+    if (claimError) {
+      return { success: false, error: claimError.message };
+    }
+
+    const totals = await refreshBatchTotals(batch.id, userId);
+    return { success: true, batch: { ...batch, ...totals }, addedClaims: claimRows.length };
+  } catch (error) {
+    console.error('Error creating insurer claim batch:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Mark a draft batch as submitted to the insurer; its claims move to SUBMITTED
+ */
+export const submitInsurerClaimBatch = async (batchId, submissionReference, userId) => {
+  try {
+    const { data: batch, error: batchError } = await supabase
+      .from('insurer_claim_batches')
+      .select('*')
+      .eq('id', batchId)
+      .maybeSingle();
+
+    if (batchError || !batch) {
+      return { success: false, error: 'Claim batch not found' };
+    }
+    if (batch.status !== 'DRAFT') {
+      return { success: false, error: 'Claim batch has already been submitted' };
+    }
+
+    const submittedAt = new Date().toISOString();
+    const { data: claims, error: claimError } = await supabase
+      .from('insurer_claims')
+      .update({ status: 'SUBMITTED', submitted_at: submittedAt, updated_by: userId, updated_at: submittedAt })
+      .eq('batch_id', batchId)
+      .eq('status', 'PENDING')
+      .select('id');
+
+    if (claimError) {
+      return { success: false, error: claimError.message };
+    }
+    if (!claims || claims.length === 0) {
+      return { success: false, error: 'Claim batch has no pending claims' };
+    }
+
+    const { data: updated, error } = await supabase
+      .from('insurer_claim_batches')
+      .update({
+        status: 'SUBMITTED',
+        submission_reference: submissionReference || null,
+        submitted_at: submittedAt,
+        submitted_by: userId,
+        updated_by: userId,
+        updated_at: submittedAt,
+      })
+      .eq('id', batchId)
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, batch: updated, submittedClaims: claims.length };
+  } catch (error) {
+    console.error('Error submitting insurer claim batch:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Allowed claim status transitions after submission (a queried claim is
+ * resubmitted once the query is answered)
+ */
+const CLAIM_STATUS_TRANSITIONS = {
+  PENDING: [],
+  SUBMITTED: ['QUERIED', 'PAID', 'REJECTED'],
+  QUERIED: ['SUBMITTED', 'PAID', 'REJECTED'],
+  PAID: [],
+  REJECTED: [],
+};
+
+/**
+ * Record the insurer's response on a claim (queried, paid, rejected) or a resubmission
+ */
+export const updateInsurerClaimStatus = async (claimId, update, userId) => {
+  try {
+    const { data: claim, error: claimError } = await supabase
+      .from('insurer_claims')
+      .select('*')
+      .eq('id', claimId)
+      .maybeSingle();
+
+    if (claimError || !claim) {
+      return { success: false, error: 'Claim not found' };
+    }
+
+    const allowed = CLAIM_STATUS_TRANSITIONS[claim.status] || [];
+    if (!allowed.includes(update.status)) {
+      return { success: false, error: `Cannot change claim from ${claim.status} to ${update.status}` };
+    }
+    if (update.status === 'REJECTED' && !update.reason) {
+      return { success: false, error: 'Rejection reason is required' };
+    }
+    if (update.status === 'QUERIED' && !update.reason) {
+      return { success: false, error: 'The insurer query is required' };
+    }
+
+    const now = new Date().toISOString();
+    const u = { status: update.status, updated_by: userId, updated_at: now };
+    if (update.status === 'QUERIED') u.query_notes = update.reason;
+    if (update.status === 'SUBMITTED') u.submitted_at = now;
+    if (update.status === 'REJECTED') u.rejection_reason = update.reason;
+    if (update.status === 'PAID') {
+      u.paid_amount = update.paidAmount !== undefined ? update.paidAmount : claim.total_amount;
+      u.paid_at = now;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('insurer_claims')
+      .update(u)
+      .eq('id', claimId)
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    // Close the batch once every claim has a final outcome
+    const { data: open } = await supabase
+      .from('insurer_claims')
+      .select('id')
+      .eq('batch_id', claim.batch_id)
+      .in('status', ['PENDING', 'SUBMITTED', 'QUERIED']);
+    if (!open || open.length === 0) {
+      await supabase
+        .from('insurer_claim_batches')
+        .update({ status: 'CLOSED', updated_by: userId, updated_at: now })
+        .eq('id', claim.batch_id);
+    }
+
+    return { success: true, claim: updated };
+  } catch (error) {
+    console.error('Error updating insurer claim:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * List claim batches (newest period first) with their claims, optionally for one insurer
+ */
+export const getInsurerClaimBatches = async ({ insurer } = {}) => {
+  try {
+    let query = supabase
+      .from('insurer_claim_batches')
+      .select('*, insurer_claims(*)')
+      .order('period_start', { ascending: false })
+      .order('insurer', { ascending: true });
+
+    if (insurer) query = query.eq('insurer', insurer);
+
+    const { data: batches, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, batches: batches || [] };
+  } catch (error) {
+    console.error('Error fetching insurer claim batches:', error);
+    return { success: false, error: error.message };
+  }
+};
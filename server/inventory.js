@@ -0,0 +1,321 @@
+/**
+ * Pharmacy Inventory Module
+ * Goods received notes, expiry-dated batches, FEFO dispensing, stock adjustments
+ * and the stock movement ledger. medications.stock is kept as the cached on-hand total.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { clinicDate } from './clinicCalendar.js';
+import { nextDocumentNumber } from './documentNumbers.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const STOCK_ADJUSTMENT_REASONS = [
+  'DAMAGED',
+  'EXPIRED',
+  'LOST',
+  'COUNT_CORRECTION',
+  'RETURNED_TO_SUPPLIER',
+  'OTHER',
+];
+
+/**
+ * Today's date at the clinic as YYYY-MM-DD
+ */
+const today = () => clinicDate();
+
+/**
+ * Apply a signed quantity change to one batch and write the ledger entry.
+ * Runs in the database (record_stock_movement) with the medication and batch rows
+ * locked, so concurrent movements cannot overwrite each other's balance.
+ * Returns the medication's new on-hand balance.
+ */
+const recordMovement = async ({
+  medicationId,
+  batch,
+  movementType,
+  quantity,
+  reason = null,
+  notes = null,
+  grnId = null,
+  patientId = null,
+  visitId = null,
+  userId,
+}) => {
+  const { data: balanceAfter, error } = await supabase.rpc('record_stock_movement', {
+    p_medication_id: medicationId,
+    p_batch_id: batch.id,
+    p_movement_type: movementType,
+    p_quantity: quantity,
+    p_reason: reason,
+    p_notes: notes,
+    p_grn_id: grnId,
+    p_patient_id: patientId,
+    p_visit_id: visitId,
+    p_user_id: userId,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return balanceAfter;
+};
+
+/**
+ * Receive stock from a supplier: creates the GRN (GRN-YYYYMMDD-NNN), the batches (or
+ * tops up an existing batch with the same number) and a RECEIPT ledger entry per line.
+ * Runs in one database transaction (receive_goods), so a rejected line records nothing.
+ */
+export const receiveGoods = async (grn, userId) => {
+  try {
+    const { data: note, error } = await supabase.rpc('receive_goods', {
+      p_grn_number: await nextDocumentNumber('GRN', 3),
+      p_supplier_name: grn.supplierName,
+      p_supplier_invoice_no: grn.supplierInvoiceNo || null,
+      p_received_date: grn.receivedDate || today(),
+      p_notes: grn.notes || null,
+      p_items: grn.items.map((it) => ({
+        medicationId: it.medicationId,
+        batchNo: it.batchNo,
+        expiryDate: it.expiryDate,
+        quantity: it.quantity,
+        unitCost: it.unitCost ?? null,
+      })),
+      p_user_id: userId,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, grn: note };
+  } catch (error) {
+    console.error('Error receiving goods:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Dispense medications first-expiry-first-out. Expired batches are never picked.
+ * The whole dispense runs in one database transaction (dispense_stock), so a short
+ * line dispenses nothing and concurrent dispenses cannot oversell a batch.
+ */
+export const dispenseStock = async (items, { patientId, visitId }, userId) => {
+  try {
+    const { data: allocations, error } = await supabase.rpc('dispense_stock', {
+      p_items: items.map((it) => ({ medicationId: it.medicationId, quantity: it.quantity })),
+      p_today: today(),
+      p_patient_id: patientId || null,
+      p_visit_id: visitId || null,
+      p_user_id: userId,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, allocations: allocations || [] };
+  } catch (error) {
+    console.error('Error dispensing stock:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Adjust a batch up or down with a reason (damage, expiry write-off, stock count, ...)
+ */
+export const adjustStock = async ({ batchId, quantity, reason, notes }, userId) => {
+  try {
+    const { data: batch, error } = await supabase
+      .from('medication_batches')
+      .select('*')
+      .eq('id', batchId)
+      .single();
+
+    if (error || !batch) {
+      return { success: false, error: 'Batch not found' };
+    }
+    if (batch.quantity_remaining + quantity < 0) {
+      return { success: false, error: `Only ${batch.quantity_remaining} units left in batch ${batch.batch_no}` };
+    }
+
+    const balanceAfter = await recordMovement({
+      medicationId: batch.medication_id,
+      batch,
+      movementType: 'ADJUSTMENT',
+      quantity,
+      reason,
+      notes: notes || null,
+      userId,
+    });
+
+    return { success: true, balanceAfter };
+  } catch (error) {
+    console.error('Error adjusting stock:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Batches of a medication (on-hand first, then depleted) in FEFO order
+ */
+export const getMedicationBatches = async (medicationId, includeEmpty = false) => {
+  try {
+    let query = supabase
+      .from('medication_batches')
+      .select('*')
+      .eq('medication_id', medicationId)
+      .order('expiry_date', { ascending: true, nullsFirst: false });
+
+    if (!includeEmpty) {
+      query = query.gt('quantity_remaining', 0);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, batches: data || [] };
+  } catch (error) {
+    console.error('Error fetching medication batches:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Stock ledger for a medication, oldest first, optionally limited to a date range
+ */
+export const getStockLedger = async (medicationId, { from, to } = {}) => {
+  try {
+    let query = supabase
+      .from('stock_movements')
+      .select('*, medication_batches(batch_no, expiry_date), goods_received_notes(grn_number, supplier_name)')
+      .eq('medication_id', medicationId)
+      .order('created_at', { ascending: true });
+
+    if (from) {
+      query = query.gte('created_at', `${from}T00:00:00`);
+    }
+    if (to) {
+      query = query.lte('created_at', `${to}T23:59:59`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, movements: data || [] };
+  } catch (error) {
+    console.error('Error fetching stock ledger:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Goods received notes, newest first
+ */
+export const getGoodsReceivedNotes = async () => {
+  try {
+    const { data, error } = await supabase
+      .from('goods_received_notes')
+      .select('*, stock_movements(medication_id, quantity, medications(name), medication_batches(batch_no, expiry_date, unit_cost))')
+      .order('received_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, grns: data || [] };
+  } catch (error) {
+    console.error('Error fetching goods received notes:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Stock alerts: active medications at or below their reorder level, and batches
+ * with stock that expire within the given number of days (including already expired)
+ */
+export const getStockAlerts = async (expiryWithinDays) => {
+  try {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() + expiryWithinDays);
+    const cutoffDate = cutoff.toISOString().split('T')[0];
+
+    const [medRes, batchRes] = await Promise.all([
+      supabase
+        .from('medications')
+        .select('id, name, dosage, form, stock, reorder_level')
+        .eq('is_active', true)
+        .order('stock', { ascending: true }),
+      supabase
+        .from('medication_batches')
+        .select('id, medication_id, batch_no, expiry_date, quantity_remaining, medications(name, is_active)')
+        .gt('quantity_remaining', 0)
+        .not('expiry_date', 'is', null)
+        .lte('expiry_date', cutoffDate)
+        .order('expiry_date', { ascending: true }),
+    ]);
+
+    if (medRes.error || batchRes.error) {
+      return { success: false, error: (medRes.error || batchRes.error).message };
+    }
+
+    const todayTime = new Date(today()).getTime();
+    const lowStock = (medRes.data || [])
+      .filter((m) => m.stock <= (m.reorder_level ?? 0))
+      .map((m) => ({
+        medicationId: m.id,
+        name: m.name,
+        dosage: m.dosage || undefined,
+        form: m.form,
+        stock: m.stock,
+        reorderLevel: m.reorder_level,
+      }));
+
+    const nearExpiry = (batchRes.data || [])
+      .filter((b) => b.medications?.is_active !== false)
+      .map((b) => ({
+        batchId: b.id,
+        medicationId: b.medication_id,
+        name: b.medications?.name || '',
+        batchNo: b.batch_no,
+        expiryDate: b.expiry_date,
+        quantityRemaining: b.quantity_remaining,
+        daysToExpiry: Math.floor((new Date(b.expiry_date).getTime() - todayTime) / (1000 * 60 * 60 * 24)),
+      }));
+
+    return { success: true, lowStock, nearExpiry };
+  } catch (error) {
+    console.error('Error fetching stock alerts:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Set the reorder level for a medication
+ */
+export const setReorderLevel = async (medicationId, reorderLevel, userId) => {
+  try {
+    const { data, error } = await supabase
+      .from('medications')
+      .update({ reorder_level: reorderLevel, updated_at: new Date().toISOString(), updated_by: userId })
+      .eq('id', medicationId)
+      .select('id, reorder_level')
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, reorderLevel: data.reorder_level };
+  } catch (error) {
+    console.error('Error setting reorder level:', error);
+    return { success: false, error: error.message };
+  }
+};
@@ -0,0 +1,419 @@
+/**
+ * Mobile Money Module
+ * Push payment requests (M-Pesa, Tigo Pesa, Airtel Money) to a patient's phone
+ * through a pluggable gateway, then settle them into the payments ledger once the
+ * gateway confirms - by polling or by callback.
+ *
+ * Gateways implement:
+ *   initiatePush({ network, msisdn, amount, reference, callbackUrl }) -> { gatewayRequestId }
+ *   queryStatus(gatewayRequestId) -> { status: 'PENDING' | 'SUCCESS' | 'FAILED', transactionId?, reason? }
+ *   parseCallback(headers, body) -> { gatewayRequestId, status, transactionId?, reason? } | null (rejected)
+ *
+ * The mock gateway is used unless MOBILE_MONEY_GATEWAY names another registered gateway.
+ * It approves payments nobody made, so it is refused when NODE_ENV is production.
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { findOpenShiftId, getVisitBalance, recordPayments } from './payments.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const MOBILE_MONEY_NETWORKS = ['MPESA', 'TIGOPESA', 'AIRTELMONEY'];
+
+/**
+ * Mobile number prefixes (after 255) per network
+ */
+const NETWORK_PREFIXES = {
+  MPESA: ['74', '75', '76'],
+  TIGOPESA: ['65', '67', '71', '77'],
+  AIRTELMONEY: ['68', '69', '78'],
+};
+
+/**
+ * Normalise a Tanzanian mobile number to 255XXXXXXXXX, or null if it is not one
+ */
+export const normalizeMsisdn = (phone) => {
+  const digits = String(phone || '').replace(/\D/g, '');
+  let msisdn = digits;
+  if (digits.length === 10 && digits.startsWith('0')) {
+    msisdn = `255${digits.slice(1)}`;
+  } else if (digits.length === 9) {
+    msisdn = `255${digits}`;
+  }
+  return /^255[67]\d{8}$/.test(msisdn) ? msisdn : null;
+};
+
+/**
+ * Network a number belongs to, from its prefix
+ */
+export const detectNetwork = (msisdn) => {
+  const prefix = msisdn ? msisdn.slice(3, 5) : '';
+  return MOBILE_MONEY_NETWORKS.find((network) => NETWORK_PREFIXES[network].includes(prefix)) || null;
+};
+
+// =============================================================================
+// Mock gateway (local development and testing)
+// =============================================================================
+
+const MOCK_DELAY_MS = parseInt(process.env.MOBILE_MONEY_MOCK_DELAY_MS || '5000', 10);
+const MOCK_REQUEST_TTL_MS = 60 * 60 * 1000;
+const MOCK_MAX_REQUESTS = 1000;
+const mockRequests = new Map();
+
+/**
+ * Forget mock requests older than an hour, and the oldest once there are too many.
+ * The map is in insertion order, so the oldest entries come first.
+ */
+const pruneMockRequests = () => {
+  const cutoff = Date.now() - MOCK_REQUEST_TTL_MS;
+  for (const [id, request] of mockRequests) {
+    if (request.createdAt >= cutoff && mockRequests.size < MOCK_MAX_REQUESTS) break;
+    mockRequests.delete(id);
+  }
+};
+
+/**
+ * Mock outcome by the last digits of the number:
+ *   ...000 - patient has insufficient funds (FAILED)
+ *   ...111 - patient never answers (stays PENDING)
+ *   anything else - approved after MOBILE_MONEY_MOCK_DELAY_MS
+ */
+const mockOutcome = (request) => {
+  if (Date.now() - request.createdAt < MOCK_DELAY_MS || request.msisdn.endsWith('111')) {
+    return { status: 'PENDING' };
+  }
+  if (request.msisdn.endsWith('000')) {
+    return { status: 'FAILED', reason: 'Insufficient funds' };
+  }
+  return { status: 'SUCCESS', transactionId: request.transactionId };
+};
+
+const mockGateway = {
+  initiatePush: async ({ network, msisdn, amount, callbackUrl }) => {
+    pruneMockRequests();
+    const gatewayRequestId = `MOCK-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+    const request = {
+      network,
+      msisdn,
+      amount,
+      createdAt: Date.now(),
+      transactionId: `${network.slice(0, 2)}${Math.random().toString(36).slice(2, 12).toUpperCase()}`,
+    };
+    mockRequests.set(gatewayRequestId, request);
+
+    // Behave like a real network: call back once the patient has responded
+    if (callbackUrl) {
+      setTimeout(() => {
+        const outcome = mockOutcome(request);
+        if (outcome.status === 'PENDING') return;
+        fetch(callbackUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Mock-Signature': process.env.MOBILE_MONEY_CALLBACK_SECRET || '',
+          },
+          body: JSON.stringify({ gatewayRequestId, ...outcome }),
+        }).catch((error) => console.warn('Mock mobile money callback failed:', error.message));
+      }, MOCK_DELAY_MS + 100);
+    }
+
+    return { gatewayRequestId };
+  },
+
+  queryStatus: async (gatewayRequestId) => {
+    const request = mockRequests.get(gatewayRequestId);
+    if (!request) {
+      return { status: 'FAILED', reason: 'Unknown request (expired or mock gateway restarted)' };
+    }
+    return mockOutcome(request);
+  },
+
+  parseCallback: (headers, body) => {
+    // Without a shared secret nothing proves the callback came from the gateway
+    const secret = process.env.MOBILE_MONEY_CALLBACK_SECRET;
+    const signature = headers['x-mock-signature'];
+    if (!secret || typeof signature !== 'string') {
+      return null;
+    }
+    const expected = Buffer.from(secret);
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return null;
+    }
+    if (!body?.gatewayRequestId || !['SUCCESS', 'FAILED'].includes(body.status)) {
+      return null;
+    }
+    return {
+      gatewayRequestId: body.gatewayRequestId,
+      status: body.status,
+      transactionId: body.transactionId,
+      reason: body.reason,
+    };
+  },
+};
+
+const gateways = { mock: mockGateway };
+
+/**
+ * Register a gateway implementation (e.g. an aggregator's API client)
+ */
+export const registerMobileMoneyGateway = (name, gateway) => {
+  gateways[name] = gateway;
+};
+
+const activeGatewayName = () => process.env.MOBILE_MONEY_GATEWAY || 'mock';
+
+/**
+ * A registered gateway by name; the mock is never used in production
+ */
+const usableGateway = (gatewayName) =>
+  gatewayName === 'mock' && process.env.NODE_ENV === 'production' ? undefined : gateways[gatewayName];
+
+// Only the gateway payments are pushed through may post back; a registered but inactive
+// gateway must not become a way to settle requests
+const activeGateway = (gatewayName) =>
+  gatewayName === activeGatewayName() ? usableGateway(gatewayName) : undefined;
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/**
+ * Shift a confirmed request is recorded in: the one it was sent from while that is still
+ * open, otherwise the requester's current open shift (null when they have none)
+ */
+const settlementShiftId = async (request) => {
+  if (request.shift_id) {
+    const { data: shift } = await supabase
+      .from('cashier_shifts')
+      .select('status')
+      .eq('id', request.shift_id)
+      .maybeSingle();
+    if (shift?.status === 'OPEN') {
+      return request.shift_id;
+    }
+  }
+  return findOpenShiftId(request.requested_by);
+};
+
+/**
+ * Apply a gateway outcome to a pending request. A confirmed request is recorded
+ * as a MOBILE_MONEY payment under its own receipt, in the shift the request was
+ * sent from, or the requester's open shift if that one has been closed; with no
+ * open shift the payment is flagged for reconciliation. Settling is idempotent so
+ * a callback and a poll racing each other record the payment once.
+ */
+const settleRequest = async (request, outcome, callbackPayload) => {
+  if (outcome.status === 'PENDING' || request.status !== 'PENDING') {
+    return request;
+  }
+
+  const { data: claimed } = await supabase
+    .from('mobile_money_requests')
+    .update({
+      status: outcome.status,
+      transaction_id: outcome.transactionId || null,
+      failure_reason: outcome.status === 'FAILED' ? outcome.reason || 'Declined' : null,
+      callback_payload: callbackPayload || null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', request.id)
+    .eq('status', 'PENDING')
+    .select()
+    .maybeSingle();
+
+  if (!claimed) {
+    // Settled by someone else in the meantime
+    const { data: current } = await supabase.from('mobile_money_requests').select('*').eq('id', request.id).single();
+    return current || request;
+  }
+
+  if (claimed.status !== 'SUCCESS') {
+    return claimed;
+  }
+
+  const shiftId = await settlementShiftId(claimed);
+  const payment = await recordPayments(claimed.visit_id, [{
+    method: 'MOBILE_MONEY',
+    amount: parseFloat(claimed.amount),
+    referenceNumber: claimed.transaction_id,
+    provider: claimed.network,
+  }], claimed.requested_by, { shiftId });
+
+  if (!payment.success) {
+    // Money was taken but could not be applied (e.g. settled in cash meanwhile) - flag for reconciliation
+    const { data: flagged } = await supabase
+      .from('mobile_money_requests')
+      .update({ failure_reason: `Confirmed by network but not applied to the bill: ${payment.error}` })
+      .eq('id', claimed.id)
+      .select()
+      .single();
+    return flagged || claimed;
+  }
+
+  const { data: linked } = await supabase
+    .from('mobile_money_requests')
+    .update({
+      payment_id: payment.payments[0].id,
+      failure_reason: shiftId ? null : 'Confirmed after the shift closed and recorded outside any cashier shift; reconcile manually',
+    })
+    .eq('id', claimed.id)
+    .select()
+    .single();
+
+  return { ...(linked || claimed), receipt_number: payment.receiptNumber };
+};
+
+/**
+ * Push a payment request for part or all of a visit's outstanding balance to the patient's phone
+ */
+export const initiateMobileMoneyPayment = async (visitId, { network, phone, amount }, userId, callbackBaseUrl) => {
+  try {
+    const msisdn = normalizeMsisdn(phone);
+    if (!msisdn) {
+      return { success: false, error: 'Enter a valid Tanzanian mobile number' };
+    }
+    const resolvedNetwork = network || detectNetwork(msisdn);
+    if (!resolvedNetwork) {
+      return { success: false, error: 'Select the mobile money network for this number' };
+    }
+
+    const { data: visit } = await supabase
+      .from('visits')
+      .select('id, patient_id')
+      .eq('id', visitId)
+      .maybeSingle();
+    if (!visit) {
+      return { success: false, error: 'Visit not found' };
+    }
+
+    const balance = await getVisitBalance(visitId);
+    if (!balance.success) {
+      return balance;
+    }
+    if (amount > balance.balance.outstanding) {
+      return { success: false, error: `Amount exceeds the outstanding balance of TZS ${balance.balance.outstanding.toLocaleString()}` };
+    }
+
+    const gatewayName = activeGatewayName();
+    const gateway = usableGateway(gatewayName);
+    if (!gateway) {
+      return { success: false, error: `Mobile money gateway "${gatewayName}" is not configured` };
+    }
+
+    const push = await gateway.initiatePush({
+      network: resolvedNetwork,
+      msisdn,
+      amount,
+      reference: visitId,
+      callbackUrl: callbackBaseUrl ? `${callbackBaseUrl}/api/mobile-money/callback/${gatewayName}` : undefined,
+    });
+
+    const { data: request, error } = await supabase
+      .from('mobile_money_requests')
+      .insert({
+        visit_id: visitId,
+        patient_id: visit.patient_id,
+        gateway: gatewayName,
+        network: resolvedNetwork,
+        msisdn,
+        amount,
+        status: 'PENDING',
+        gateway_request_id: push.gatewayRequestId,
+        requested_by: userId,
+        shift_id: await findOpenShiftId(userId),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, request };
+  } catch (error) {
+    console.error('Error initiating mobile money payment:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Attach the receipt number of the payment a confirmed request created
+ */
+const withReceiptNumber = async (request) => {
+  if (!request.payment_id || request.receipt_number) {
+    return request;
+  }
+  const { data: payment } = await supabase
+    .from('payments')
+    .select('receipt_number')
+    .eq('id', request.payment_id)
+    .maybeSingle();
+  return { ...request, receipt_number: payment?.receipt_number };
+};
+
+/**
+ * Current state of a request, asking the gateway if it is still pending
+ */
+export const checkMobileMoneyPayment = async (requestId) => {
+  try {
+    const { data: request, error } = await supabase
+      .from('mobile_money_requests')
+      .select('*')
+      .eq('id', requestId)
+      .maybeSingle();
+
+    if (error || !request) {
+      return { success: false, error: 'Mobile money request not found' };
+    }
+    if (request.status !== 'PENDING') {
+      return { success: true, request: await withReceiptNumber(request) };
+    }
+
+    const gateway = usableGateway(request.gateway);
+    if (!gateway) {
+      return { success: false, error: `Mobile money gateway "${request.gateway}" is not configured` };
+    }
+
+    const outcome = await gateway.queryStatus(request.gateway_request_id);
+    const settled = await settleRequest(request, outcome);
+    return { success: true, request: await withReceiptNumber(settled) };
+  } catch (error) {
+    console.error('Error checking mobile money payment:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Gateway callback: settle the matching request. Only the active gateway is heard.
+ */
+export const handleMobileMoneyCallback = async (gatewayName, headers, body) => {
+  try {
+    const gateway = activeGateway(gatewayName);
+    const outcome = gateway ? gateway.parseCallback(headers, body) : null;
+    if (!outcome) {
+      return { success: false, error: 'Invalid callback' };
+    }
+
+    const { data: request } = await supabase
+      .from('mobile_money_requests')
+      .select('*')
+      .eq('gateway', gatewayName)
+      .eq('gateway_request_id', outcome.gatewayRequestId)
+      .maybeSingle();
+
+    if (!request) {
+      return { success: false, error: 'Unknown request' };
+    }
+
+    const settled = await settleRequest(request, outcome, body);
+    return { success: true, request: settled };
+  } catch (error) {
+    console.error('Error handling mobile money callback:', error);
+    return { success: false, error: error.message };
+  }
+};
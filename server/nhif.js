@@ -1,6 +1,6 @@
 /**
  * NHIF API Integration Module
- * Handles NHIF token management and card verification
+ * Handles NHIF token management, card verification and claim submission
  * NOTE: In production, NHIF credentials should be stored in secure vault (not in code)
  */
 
@@ -75,6 +75,7 @@ export const getNHIFToken = async () => {
     }
 
     // Fetch new token from NHIF API
+    const NHIF_CONFIG = await getNHIFConfig();
     const tokenResponse = await fetch(`${NHIF_CONFIG.apiUrl}/Token`, {
       method: 'POST',
       headers: {
@@ -327,3 +328,535 @@ export const getActiveNHIFVerification = async (visitId) => {
     return { success: false, error: error.message };
   }
 };
+
+// ==================== CLAIMS ====================
+
+/**
+ * Get first and last day (YYYY-MM-DD) of a claim month given as YYYY-MM
+ */
+const getClaimMonthRange = (claimMonth) => {
+  const [year, month] = claimMonth.split('-').map((n) => parseInt(n, 10));
+  const lastDay = new Date(year, month, 0).getDate();
+  const mm = String(month).padStart(2, '0');
+  return {
+    start: `${year}-${mm}-01`,
+    end: `${year}-${mm}-${String(lastDay).padStart(2, '0')}`,
+  };
+};
+
+/**
+ * Get completed NHIF visits in a claim month that are ready to be claimed:
+ * an ACCEPTED active verification, at least one NHIF-covered bill item, and no folio yet
+ */
+export const getClaimableNHIFVisits = async (claimMonth) => {
+  try {
+    const { start, end } = getClaimMonthRange(claimMonth);
+
+    const { data: visits, error: visitsError } = await supabase
+      .from('visits')
+      .select('id, patient_id, visit_date, status, insurance_provider')
+      .eq('payer_type', 'INSURANCE')
+      .eq('insurance_provider', 'NHIF')
+      .eq('status', 'COMPLETED')
+      .gte('visit_date', start)
+      .lte('visit_date', end)
+      .order('visit_date', { ascending: true });
+
+    if (visitsError) {
+      return { success: false, error: visitsError.message };
+    }
+    if (!visits || visits.length === 0) {
+      return { success: true, visits: [] };
+    }
+
+    const visitIds = visits.map((v) => v.id);
+    const patientIds = [...new Set(visits.map((v) => v.patient_id))];
+    const [verRes, folioRes, itemRes, patientRes] = await Promise.all([
+      supabase
+        .from('nhif_verifications')
+        .select('*')
+        .in('visit_id', visitIds)
+        .eq('is_active', true)
+        .eq('authorization_status', 'ACCEPTED'),
+      supabase.from('nhif_claim_folios').select('visit_id').in('visit_id', visitIds),
+      supabase.from('bill_items').select('*').in('visit_id', visitIds).eq('is_covered_by_nhif', true).is('voided_at', null),
+      supabase.from('patients').select('id, name').in('id', patientIds),
+    ]);
+
+    if (verRes.error || folioRes.error || itemRes.error) {
+      return { success: false, error: (verRes.error || folioRes.error || itemRes.error).message };
+    }
+
+    const claimedVisitIds = new Set((folioRes.data || []).map((f) => f.visit_id));
+    const patients = patientRes.data || [];
+
+    const claimable = visits
+      .filter((v) => !claimedVisitIds.has(v.id))
+      .map((v) => {
+        const verification = (verRes.data || []).find((ver) => ver.visit_id === v.id);
+        const items = (itemRes.data || [])
+          .filter((b) => b.visit_id === v.id)
+          .map((b) => ({
+            id: b.external_id || b.id,
+            description: b.description,
+            category: b.category,
+            amount: parseFloat(b.amount),
+            itemCode: b.nhif_item_code || undefined,
+          }));
+        return {
+          visitId: v.id,
+          patientId: v.patient_id,
+          patientName: patients.find((p) => p.id === v.patient_id)?.name || '',
+          visitDate: v.visit_date,
+          verificationId: verification?.id,
+          cardNo: verification?.card_no,
+          authorizationNo: verification?.authorization_no,
+          memberName: verification?.member_name,
+          visitTypeId: verification?.visit_type_id,
+          items,
+          totalAmount: items.reduce((sum, it) => sum + it.amount, 0),
+        };
+      })
+      .filter((v) => v.verificationId && v.items.length > 0);
+
+    return { success: true, visits: claimable };
+  } catch (error) {
+    console.error('Error fetching claimable NHIF visits:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Create (or extend) the draft claim batch for a month with folios for all claimable visits
+ */
+export const createNHIFClaimBatch = async (claimMonth, userId) => {
+  try {
+    const { start } = getClaimMonthRange(claimMonth);
+
+    const { data: existing } = await supabase
+      .from('nhif_claim_batches')
+      .select('*')
+      .eq('claim_month', start)
+      .maybeSingle();
+
+    if (existing && existing.status !== 'DRAFT') {
+      return { success: false, error: 'Claims for this month have already been submitted' };
+    }
+
+    const claimableResult = await getClaimableNHIFVisits(claimMonth);
+    if (!claimableResult.success) {
+      return claimableResult;
+    }
+    if (claimableResult.visits.length === 0) {
+      return { success: false, error: 'No claimable NHIF visits for this month' };
+    }
+
+    let batch = existing;
+    if (!batch) {
+      const NHIF_CONFIG = await getNHIFConfig();
+      const { data: created, error: createError } = await supabase
+        .from('nhif_claim_batches')
+        .insert({
+          claim_month: start,
+          facility_code: NHIF_CONFIG.facilityCode || null,
+          status: 'DRAFT',
+          created_by: userId,
+        })
+        .select()
+        .single();
+      if (createError) {
+        return { success: false, error: createError.message };
+      }
+      batch = created;
+    }
+
+    const { data: lastFolio } = await supabase
+      .from('nhif_claim_folios')
+      .select('folio_no')
+      .eq('batch_id', batch.id)
+      .order('folio_no', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    let nextFolioNo = (lastFolio?.folio_no || 0) + 1;
+
+    const folioRows = claimableResult.visits.map((v) => ({
+      batch_id: batch.id,
+      visit_id: v.visitId,
+      patient_id: v.patientId,
+      verification_id: v.verificationId,
+      folio_no: nextFolioNo++,
+      card_no: v.cardNo,
+      authorization_no: v.authorizationNo || null,
+      member_name: v.memberName || v.patientName || null,
+      visit_date: v.visitDate,
+      items: v.items,
+      total_amount: v.totalAmount,
+      status: 'PENDING',
+      created_by: userId,
+    }));
+
+    const { error: folioError } = await supabase.from('nhif_claim_folios').insert(folioRows);
+    if (folioError) {
+      return { success: false, error: folioError.message };
+    }
+
+    const totals = await refreshClaimBatchTotals(batch.id, userId);
+    return { success: true, batch: { ...batch, ...totals }, addedFolios: folioRows.length };
+  } catch (error) {
+    console.error('Error creating NHIF claim batch:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Recalculate folio count and total for a batch
+ */
+const refreshClaimBatchTotals = async (batchId, userId) => {
+  const { data: folios } = await supabase
+    .from('nhif_claim_folios')
+    .select('total_amount')
+    .eq('batch_id', batchId);
+
+  const totals = {
+    folio_count: (folios || []).length,
+    total_amount: (folios || []).reduce((sum, f) => sum + parseFloat(f.total_amount), 0),
+  };
+
+  await supabase
+    .from('nhif_claim_batches')
+    .update({ ...totals, updated_by: userId, updated_at: new Date().toISOString() })
+    .eq('id', batchId);
+
+  return totals;
+};
+
+/**
+ * Put a claim batch claimed for submission back to DRAFT after NHIF did not take it
+ */
+const releaseNHIFClaimBatch = async (batchId, userId) => {
+  await supabase
+    .from('nhif_claim_batches')
+    .update({ status: 'DRAFT', updated_by: userId, updated_at: new Date().toISOString() })
+    .eq('id', batchId)
+    .eq('status', 'SUBMITTING');
+};
+
+/**
+ * Submit a draft claim batch to NHIF. The batch is claimed (DRAFT -> SUBMITTING) before
+ * NHIF is called, so two submissions at once cannot send the same folios twice, and is
+ * put back to DRAFT if NHIF does not take it.
+ */
+export const submitNHIFClaimBatch = async (batchId, userId) => {
+  let claimed = false;
+  let accepted = false;
+  try {
+    const { data: batch, error: batchError } = await supabase
+      .from('nhif_claim_batches')
+      .update({ status: 'SUBMITTING', updated_by: userId, updated_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .eq('status', 'DRAFT')
+      .select()
+      .maybeSingle();
+
+    if (batchError) {
+      return { success: false, error: batchError.message };
+    }
+    if (!batch) {
+      const { data: current } = await supabase
+        .from('nhif_claim_batches')
+        .select('status')
+        .eq('id', batchId)
+        .maybeSingle();
+      if (!current) {
+        return { success: false, error: 'Claim batch not found' };
+      }
+      return {
+        success: false,
+        error: current.status === 'SUBMITTING' ? 'Claim batch is already being submitted' : 'Claim batch has already been submitted',
+      };
+    }
+    claimed = true;
+
+    const { data: folios, error: folioError } = await supabase
+      .from('nhif_claim_folios')
+      .select('*')
+      .eq('batch_id', batchId)
+      .eq('status', 'PENDING')
+      .order('folio_no', { ascending: true });
+
+    if (folioError) {
+      await releaseNHIFClaimBatch(batchId, userId);
+      return { success: false, error: folioError.message };
+    }
+    if (!folios || folios.length === 0) {
+      await releaseNHIFClaimBatch(batchId, userId);
+      return { success: false, error: 'Claim batch has no pending folios' };
+    }
+
+    const NHIF_CONFIG = await getNHIFConfig();
+    const tokenResult = await getNHIFToken();
+    if (!tokenResult.success) {
+      await releaseNHIFClaimBatch(batchId, userId);
+      return { success: false, error: tokenResult.error || 'Failed to get NHIF token' };
+    }
+
+    const claimDate = new Date(batch.claim_month);
+    const payload = {
+      FacilityCode: batch.facility_code || NHIF_CONFIG.facilityCode,
+      ClaimYear: claimDate.getFullYear(),
+      ClaimMonth: claimDate.getMonth() + 1,
+      Folios: folios.map((f) => ({
+        FolioNo: f.folio_no,
+        CardNo: f.card_no,
+        AuthorizationNo: f.authorization_no,
+        PatientFileNo: f.patient_id,
+        FirstName: f.member_name,
+        AttendanceDate: f.visit_date,
+        AmountClaimed: parseFloat(f.total_amount),
+        FolioItems: (f.items || []).map((it) => ({
+          ItemCode: it.itemCode || null,
+          ItemName: it.description,
+          ItemQuantity: 1,
+          UnitPrice: it.amount,
+          AmountClaimed: it.amount,
+        })),
+      })),
+    };
+
+    const submitResponse = await fetch(`${NHIF_CONFIG.apiUrl}/claimsserver/api/v1/Claims/SubmitFolios`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `${tokenResult.tokenType} ${tokenResult.token}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!submitResponse.ok) {
+      const errorText = await submitResponse.text();
+      await releaseNHIFClaimBatch(batchId, userId);
+      return {
+        success: false,
+        error: `NHIF API error: ${submitResponse.status} - ${errorText}`,
+      };
+    }
+    accepted = true;
+
+    const responseData = await submitResponse.json().catch(() => ({}));
+    const submissionReference = responseData.SubmissionID || responseData.submissionId || responseData.ReferenceNo || null;
+    const folioResults = responseData.Folios || responseData.folios || [];
+    const submittedAt = new Date().toISOString();
+
+    for (const folio of folios) {
+      const result = folioResults.find((r) => (r.FolioNo || r.folioNo) === folio.folio_no);
+      await supabase
+        .from('nhif_claim_folios')
+        .update({
+          status: 'SUBMITTED',
+          submitted_at: submittedAt,
+          nhif_response: result || null,
+          updated_by: userId,
+          updated_at: submittedAt,
+        })
+        .eq('id', folio.id);
+    }
+
+    await supabase
+      .from('nhif_claim_batches')
+      .update({
+        status: 'SUBMITTED',
+        submission_reference: submissionReference,
+        submitted_at: submittedAt,
+        submitted_by: userId,
+        updated_by: userId,
+        updated_at: submittedAt,
+      })
+      .eq('id', batchId);
+
+    return { success: true, submissionReference, submittedFolios: folios.length, responsePayload: responseData };
+  } catch (error) {
+    console.error('NHIF claim submission error:', error);
+    // Once NHIF has taken the folios the batch must not go back to DRAFT and be sent again
+    if (claimed && !accepted) {
+      await releaseNHIFClaimBatch(batchId, userId).catch(() => {});
+    }
+    return { success: false, error: error.message || 'Network error during NHIF claim submission' };
+  }
+};
+
+/**
+ * Allowed folio status transitions after submission
+ */
+const FOLIO_STATUS_TRANSITIONS = {
+  PENDING: [],
+  SUBMITTED: ['ACCEPTED', 'REJECTED'],
+  ACCEPTED: ['PAID', 'REJECTED'],
+  REJECTED: [],
+  PAID: [],
+};
+
+/**
+ * Record NHIF's decision on a folio (accepted, rejected, paid)
+ */
+export const updateNHIFClaimFolioStatus = async (folioId, update, userId) => {
+  try {
+    const { data: folio, error: folioError } = await supabase
+      .from('nhif_claim_folios')
+      .select('*')
+      .eq('id', folioId)
+      .single();
+
+    if (folioError || !folio) {
+      return { success: false, error: 'Claim folio not found' };
+    }
+
+    const allowed = FOLIO_STATUS_TRANSITIONS[folio.status] || [];
+    if (!allowed.includes(update.status)) {
+      return { success: false, error: `Cannot change folio from ${folio.status} to ${update.status}` };
+    }
+    if (update.status === 'REJECTED' && !update.rejectionReason) {
+      return { success: false, error: 'Rejection reason is required' };
+    }
+
+    const now = new Date().toISOString();
+    const u = { status: update.status, updated_by: userId, updated_at: now };
+    if (update.status === 'REJECTED') u.rejection_reason = update.rejectionReason;
+    if (update.status === 'PAID') {
+      u.paid_amount = update.paidAmount !== undefined ? update.paidAmount : folio.total_amount;
+      u.paid_at = now;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('nhif_claim_folios')
+      .update(u)
+      .eq('id', folioId)
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    // Close the batch once every folio has a final outcome
+    const { data: open } = await supabase
+      .from('nhif_claim_folios')
+      .select('id')
+      .eq('batch_id', folio.batch_id)
+      .in('status', ['PENDING', 'SUBMITTED', 'ACCEPTED']);
+    if (!open || open.length === 0) {
+      await supabase
+        .from('nhif_claim_batches')
+        .update({ status: 'CLOSED', updated_by: userId, updated_at: now })
+        .eq('id', folio.batch_id);
+    }
+
+    return { success: true, folio: updated };
+  } catch (error) {
+    console.error('Error updating NHIF claim folio:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * List claim batches (newest month first) with their folios
+ */
+export const getNHIFClaimBatches = async () => {
+  try {
+    const { data: batches, error } = await supabase
+      .from('nhif_claim_batches')
+      .select('*, nhif_claim_folios(*)')
+      .order('claim_month', { ascending: false });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, batches: batches || [] };
+  } catch (error) {
+    console.error('Error fetching NHIF claim batches:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Collect everything printed on the NHIF claim form (Form 2A/2B) for one visit:
+ * member and authorization details, encounter diagnoses and NHIF-covered items.
+ * Items come from the claim folio snapshot when the visit has already been claimed.
+ */
+export const getNHIFClaimFormData = async (visitId) => {
+  try {
+    const { data: visit, error: visitError } = await supabase
+      .from('visits')
+      .select('*')
+      .eq('id', visitId)
+      .single();
+
+    if (visitError || !visit) {
+      return { success: false, error: 'Visit not found' };
+    }
+    if (visit.insurance_provider !== 'NHIF') {
+      return { success: false, error: 'Claim forms are only available for NHIF visits' };
+    }
+
+    const [patientRes, verificationResult, folioRes, itemRes, providerRes] = await Promise.all([
+      supabase.from('patients').select('id, name, dob, gender, phone, address').eq('id', visit.patient_id).single(),
+      getActiveNHIFVerification(visitId),
+      supabase.from('nhif_claim_folios').select('*').eq('visit_id', visitId).maybeSingle(),
+      supabase.from('bill_items').select('*').eq('visit_id', visitId).eq('is_covered_by_nhif', true).is('voided_at', null),
+      visit.provider_id
+        ? supabase.from('providers').select('id, name').eq('id', visit.provider_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    const verification = verificationResult.verification;
+    if (!verification || verification.authorization_status !== 'ACCEPTED') {
+      return { success: false, error: 'Visit has no accepted NHIF verification' };
+    }
+
+    const folio = folioRes.data;
+    const items = folio
+      ? folio.items || []
+      : (itemRes.data || []).map((b) => ({
+          id: b.external_id || b.id,
+          description: b.description,
+          category: b.category,
+          amount: parseFloat(b.amount),
+          itemCode: b.nhif_item_code || undefined,
+        }));
+
+    const NHIF_CONFIG = await getNHIFConfig();
+    const patient = patientRes.data;
+
+    return {
+      success: true,
+      form: {
+        visitId: visit.id,
+        visitDate: visit.visit_date,
+        facilityCode: NHIF_CONFIG.facilityCode || null,
+        folioNo: folio?.folio_no ?? null,
+        patient: {
+          id: visit.patient_id,
+          name: patient?.name || verification.member_name || '',
+          dob: patient?.dob || null,
+          gender: patient?.gender || null,
+          phone: patient?.phone || null,
+          address: patient?.address || null,
+        },
+        cardNo: verification.card_no,
+        authorizationNo: verification.authorization_no,
+        memberName: verification.member_name,
+        visitTypeId: verification.visit_type_id,
+        referralNo: verification.referral_no || null,
+        chiefComplaint: visit.chief_complaint || null,
+        diagnoses: Array.isArray(visit.diagnoses) ? visit.diagnoses : [],
+        practitionerName: providerRes.data?.name || null,
+        items,
+        totalAmount: items.reduce((sum, it) => sum + (parseFloat(it.amount) || 0), 0),
+      },
+    };
+  } catch (error) {
+    console.error('Error building NHIF claim form data:', error);
+    return { success: false, error: error.message };
+  }
+};
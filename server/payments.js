@@ -0,0 +1,192 @@
+/**
+ * Payments Module
+ * Payments received against a visit: split and partial payments, cash change,
+ * receipt numbering and the outstanding balance per visit. Each payment is
+ * recorded against the receiving cashier's open shift and each receipt is
+ * registered with the TRA fiscal device.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { fiscaliseReceipt } from './fiscal.js';
+import { nextDocumentNumber } from './documentNumbers.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const PAYMENT_METHODS = ['CASH', 'CARD', 'MOBILE_MONEY', 'INSURANCE'];
+
+/**
+ * Methods that need a reference number (card slip, transaction ID, authorization)
+ */
+const REFERENCE_REQUIRED = ['CARD', 'MOBILE_MONEY', 'INSURANCE'];
+
+/**
+ * Round to whole cents so float sums compare cleanly
+ */
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Generate the next receipt number for today (RCP-YYYYMMDD-NNNN)
+ */
+const generateReceiptNumber = () => nextDocumentNumber('RCP');
+
+/**
+ * The cashier's open shift, if any
+ */
+export const findOpenShiftId = async (userId) => {
+  if (!userId) return null;
+  const { data } = await supabase
+    .from('cashier_shifts')
+    .select('id')
+    .eq('cashier_id', userId)
+    .eq('status', 'OPEN')
+    .maybeSingle();
+  return data?.id || null;
+};
+
+/**
+ * Bill total, payments and outstanding balance for a visit.
+ * Voided items are left out of the bill; approved credit notes reduce the bill
+ * and any refund paid back reduces the amount paid. Approved patient write-offs
+ * come off what is outstanding.
+ */
+export const getVisitBalance = async (visitId) => {
+  try {
+    const [
+      { data: items, error: itemsError },
+      { data: payments, error: paymentsError },
+      { data: credits, error: creditsError },
+      { data: writeOffs, error: writeOffsError },
+    ] = await Promise.all([
+      supabase.from('bill_items').select('amount').eq('visit_id', visitId).is('voided_at', null),
+      supabase.from('payments').select('*').eq('visit_id', visitId).order('received_at', { ascending: true }),
+      supabase.from('bill_adjustments').select('amount, refund_amount').eq('visit_id', visitId).eq('type', 'CREDIT_NOTE').eq('status', 'APPROVED'),
+      supabase.from('ar_write_offs').select('amount').eq('visit_id', visitId).eq('debtor_type', 'PATIENT').eq('status', 'APPROVED'),
+    ]);
+
+    const queryError = itemsError || paymentsError || creditsError || writeOffsError;
+    if (queryError) {
+      return { success: false, error: queryError.message };
+    }
+
+    const credited = roundAmount((credits || []).reduce((sum, c) => sum + (parseFloat(c.amount) || 0), 0));
+    const refunded = roundAmount((credits || []).reduce((sum, c) => sum + (parseFloat(c.refund_amount) || 0), 0));
+    const billTotal = roundAmount((items || []).reduce((sum, it) => sum + (parseFloat(it.amount) || 0), 0) - credited);
+    const amountPaid = roundAmount((payments || []).reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0) - refunded);
+    // An approved patient write-off is debt the clinic has stopped collecting
+    const writtenOff = roundAmount((writeOffs || []).reduce((sum, w) => sum + (parseFloat(w.amount) || 0), 0));
+
+    return {
+      success: true,
+      balance: {
+        billTotal,
+        amountPaid,
+        credited,
+        refunded,
+        writtenOff,
+        outstanding: roundAmount(Math.max(billTotal - amountPaid - writtenOff, 0)),
+      },
+      payments: payments || [],
+    };
+  } catch (error) {
+    console.error('Error getting visit balance:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Record one or more payment lines against a visit under a single receipt.
+ * Lines may not take the visit past its bill total; cash lines may be
+ * over-tendered and the change is recorded. The payment goes to the cashier's open
+ * shift unless a shift is given (a gateway payment settling after the request).
+ */
+export const recordPayments = async (visitId, lines, userId, { shiftId: requestShiftId } = {}) => {
+  try {
+    const { data: visit, error: visitError } = await supabase
+      .from('visits')
+      .select('id, patient_id')
+      .eq('id', visitId)
+      .maybeSingle();
+
+    if (visitError || !visit) {
+      return { success: false, error: 'Visit not found' };
+    }
+
+    for (const line of lines) {
+      if (!PAYMENT_METHODS.includes(line.method)) {
+        return { success: false, error: `Unknown payment method ${line.method}` };
+      }
+      if (REFERENCE_REQUIRED.includes(line.method) && !line.referenceNumber) {
+        return { success: false, error: `A reference number is required for ${line.method.replace('_', ' ').toLowerCase()} payments` };
+      }
+      if (line.amountTendered != null && line.method !== 'CASH') {
+        return { success: false, error: 'Only cash payments can be over-tendered' };
+      }
+      if (line.amountTendered != null && line.amountTendered < line.amount) {
+        return { success: false, error: 'Cash tendered is less than the amount being paid' };
+      }
+    }
+
+    const current = await getVisitBalance(visitId);
+    if (!current.success) {
+      return current;
+    }
+
+    const total = roundAmount(lines.reduce((sum, l) => sum + l.amount, 0));
+    if (total > current.balance.outstanding) {
+      return {
+        success: false,
+        error: `Payment of TZS ${total.toLocaleString()} exceeds the outstanding balance of TZS ${current.balance.outstanding.toLocaleString()}`,
+      };
+    }
+
+    const receiptNumber = await generateReceiptNumber();
+    const receivedAt = new Date().toISOString();
+    const shiftId = requestShiftId || await findOpenShiftId(userId);
+
+    const { data: payments, error } = await supabase
+      .from('payments')
+      .insert(lines.map((line) => ({
+        receipt_number: receiptNumber,
+        visit_id: visitId,
+        patient_id: visit.patient_id,
+        method: line.method,
+        amount: line.amount,
+        amount_tendered: line.amountTendered ?? null,
+        change_given: line.amountTendered != null ? roundAmount(line.amountTendered - line.amount) : 0,
+        reference_number: line.referenceNumber || null,
+        provider: line.provider || null,
+        notes: line.notes || null,
+        received_at: receivedAt,
+        received_by: userId,
+        shift_id: shiftId,
+      })))
+      .select();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    // A receipt the fiscal device cannot take now stays queued for retry; the payment stands
+    const fiscal = await fiscaliseReceipt(receiptNumber);
+
+    const amountPaid = roundAmount(current.balance.amountPaid + total);
+    return {
+      success: true,
+      receiptNumber,
+      payments,
+      fiscalReceipt: fiscal.success ? fiscal.fiscalReceipt : null,
+      balance: {
+        billTotal: current.balance.billTotal,
+        amountPaid,
+        writtenOff: current.balance.writtenOff,
+        outstanding: roundAmount(Math.max(current.balance.billTotal - amountPaid - current.balance.writtenOff, 0)),
+      },
+    };
+  } catch (error) {
+    console.error('Error recording payments:', error);
+    return { success: false, error: error.message };
+  }
+};
@@ -0,0 +1,166 @@
+/**
+ * Pre-authorizations Module
+ * Private insurer pre-approval of expensive items (tariff items flagged
+ * requires_preauth). A request lists the items and the insurer share asked for;
+ * staff record the insurer's reply, and the approved amount caps what may be
+ * billed to the insurer for those items.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { nextDocumentNumber } from './documentNumbers.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const PREAUTH_DECISIONS = ['APPROVED', 'PARTIALLY_APPROVED', 'DECLINED'];
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Generate the next pre-authorization number for today (PA-YYYYMMDD-NNNN)
+ */
+const generatePreauthNumber = () => nextDocumentNumber('PA');
+
+/**
+ * Pre-authorizations requested for a visit, oldest first
+ */
+export const getVisitPreauthorizations = async (visitId) => {
+  try {
+    const { data, error } = await supabase
+      .from('preauthorizations')
+      .select('*')
+      .eq('visit_id', visitId)
+      .order('requested_at', { ascending: true });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, preauthorizations: data || [] };
+  } catch (error) {
+    console.error('Error getting visit pre-authorizations:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Request insurer pre-authorization for items on a private patient's visit.
+ * Only one request per visit may await the insurer at a time.
+ */
+export const requestPreauthorization = async (visitId, { items, notes }, userId) => {
+  try {
+    const { data: visit, error: visitError } = await supabase
+      .from('visits')
+      .select('id, patient_id, patients(insurance_type, insurance_provider, insurance_scheme_id)')
+      .eq('id', visitId)
+      .maybeSingle();
+
+    if (visitError || !visit) {
+      return { success: false, error: 'Visit not found' };
+    }
+    if (visit.patients?.insurance_type !== 'PRIVATE') {
+      return { success: false, error: 'Pre-authorization applies to private insurance patients only' };
+    }
+
+    const existing = await getVisitPreauthorizations(visitId);
+    if (!existing.success) {
+      return existing;
+    }
+    const pending = existing.preauthorizations.find((p) => p.status === 'REQUESTED');
+    if (pending) {
+      return { success: false, error: `${pending.preauth_number} is still awaiting the insurer's decision` };
+    }
+
+    const requestedAmount = roundAmount(items.reduce((sum, item) => sum + item.amount, 0));
+    if (!(requestedAmount > 0)) {
+      return { success: false, error: 'Nothing to pre-authorize: the insurer share of these items is zero' };
+    }
+
+    const { data: preauthorization, error } = await supabase
+      .from('preauthorizations')
+      .insert({
+        preauth_number: await generatePreauthNumber(),
+        visit_id: visitId,
+        patient_id: visit.patient_id,
+        insurer: visit.patients.insurance_provider,
+        insurance_scheme_id: visit.patients.insurance_scheme_id || null,
+        items,
+        requested_amount: requestedAmount,
+        status: 'REQUESTED',
+        notes: notes || null,
+        requested_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, preauthorization };
+  } catch (error) {
+    console.error('Error requesting pre-authorization:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Record the insurer's decision on a pending request. A full approval grants the
+ * requested amount; a partial approval grants less; a decline grants nothing.
+ */
+export const recordPreauthorizationDecision = async (preauthId, { status, approvedAmount, approvalReference, notes }, userId) => {
+  try {
+    const { data: preauthorization, error: fetchError } = await supabase
+      .from('preauthorizations')
+      .select('*')
+      .eq('id', preauthId)
+      .maybeSingle();
+
+    if (fetchError || !preauthorization) {
+      return { success: false, error: 'Pre-authorization not found' };
+    }
+    if (preauthorization.status !== 'REQUESTED') {
+      return { success: false, error: `${preauthorization.preauth_number} has already been ${preauthorization.status.toLowerCase().replace('_', ' ')}` };
+    }
+
+    const requested = parseFloat(preauthorization.requested_amount) || 0;
+    let approved = 0;
+    if (status === 'APPROVED') {
+      approved = requested;
+    } else if (status === 'PARTIALLY_APPROVED') {
+      approved = roundAmount(approvedAmount);
+      if (!(approved > 0) || approved >= requested) {
+        return { success: false, error: `A partial approval must be more than zero and less than the TZS ${requested.toLocaleString()} requested` };
+      }
+    }
+    if (status !== 'DECLINED' && !approvalReference) {
+      return { success: false, error: 'The insurer approval reference is required' };
+    }
+
+    const { data: decided, error } = await supabase
+      .from('preauthorizations')
+      .update({
+        status,
+        approved_amount: approved,
+        approval_reference: approvalReference || null,
+        decided_by: userId,
+        decided_at: new Date().toISOString(),
+        decision_notes: notes || null,
+      })
+      .eq('id', preauthId)
+      .eq('status', 'REQUESTED')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!decided) {
+      return { success: false, error: 'Pre-authorization was decided by someone else; refresh and try again' };
+    }
+    return { success: true, preauthorization: decided };
+  } catch (error) {
+    console.error('Error recording pre-authorization decision:', error);
+    return { success: false, error: error.message };
+  }
+};
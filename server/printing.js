@@ -0,0 +1,63 @@
+/**
+ * Thermal Printing Module
+ * Relays ESC/POS byte streams built in the browser to the clinic's network thermal
+ * printers over raw TCP (port 9100). Printers are configured on the server in
+ * THERMAL_PRINTERS so a workstation can only print to a named printer, never to an
+ * arbitrary host:
+ *   THERMAL_PRINTERS=front-desk=192.168.1.50,cashier=192.168.1.51:9100
+ */
+
+import net from 'net';
+
+const DEFAULT_PORT = 9100;
+const SEND_TIMEOUT_MS = 10000;
+
+/**
+ * Configured printers: [{ name, host, port }]
+ */
+const loadPrinters = () =>
+  (process.env.THERMAL_PRINTERS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, address = ''] = entry.split('=');
+      const [host, port] = address.split(':');
+      return { name: name.trim(), host: host?.trim(), port: parseInt(port, 10) || DEFAULT_PORT };
+    })
+    .filter((printer) => printer.name && printer.host);
+
+/**
+ * Printer names workstations can choose from (addresses stay on the server)
+ */
+export const getThermalPrinters = () => loadPrinters().map(({ name }) => ({ name }));
+
+/**
+ * Send an ESC/POS byte stream to a configured printer
+ */
+export const sendToThermalPrinter = (printerName, data) => {
+  const printer = loadPrinters().find((p) => p.name === printerName);
+  if (!printer) {
+    return Promise.resolve({ success: false, error: `Printer "${printerName}" is not configured` });
+  }
+
+  return new Promise((resolve) => {
+    const socket = net.createConnection({ host: printer.host, port: printer.port });
+    let settled = false;
+    const finish = (result) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      resolve(result);
+    };
+
+    socket.setTimeout(SEND_TIMEOUT_MS, () => finish({ success: false, error: `Printer "${printerName}" did not respond` }));
+    socket.on('error', (error) => {
+      console.error(`Thermal printer ${printerName} error:`, error.message);
+      finish({ success: false, error: `Printer "${printerName}" is unreachable` });
+    });
+    socket.on('connect', () => {
+      socket.end(data, () => finish({ success: true }));
+    });
+  });
+};
@@ -0,0 +1,300 @@
+/**
+ * Receivables Module
+ * Who owes the clinic money, visit by visit. A patient owes the visit's outstanding
+ * balance; NHIF or the private insurer owes the share recorded as an insurance
+ * payment until its claim is paid. Uncollectable debt is written off once a clinic
+ * manager other than the requester approves it.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { clinicDate } from './clinicCalendar.js';
+import { nextDocumentNumber } from './documentNumbers.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const DEBTOR_TYPES = ['PATIENT', 'INSURER'];
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+const sumAmounts = (rows, field = 'amount') =>
+  roundAmount(rows.reduce((sum, row) => sum + (parseFloat(row[field]) || 0), 0));
+
+/**
+ * Generate the next write-off number for today (WO-YYYYMMDD-NNNN)
+ */
+const generateWriteOffNumber = () => nextDocumentNumber('WO');
+
+// PostgREST returns at most 1000 rows per request, so larger reads are paged
+const PAGE_SIZE = 1000;
+// Visits are looked up in batches so each IN (...) list stays short
+const VISIT_BATCH_SIZE = 100;
+
+/**
+ * Read every row a query matches, one page at a time in a stable order
+ */
+const fetchAllRows = async (buildQuery) => {
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().order('id', { ascending: true }).range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+};
+
+/**
+ * Receivables for one batch of open visits
+ */
+const buildBatchReceivables = async (open) => {
+  const visitIds = open.map((v) => v.id);
+  const patientIds = [...new Set(open.map((v) => v.patient_id))];
+
+  const [items, paymentRows, creditRows, folios, claims, writeOffRows, patients] = await Promise.all([
+    fetchAllRows(() => supabase.from('bill_items').select('visit_id, amount').in('visit_id', visitIds).is('voided_at', null)),
+    fetchAllRows(() => supabase.from('payments').select('visit_id, method, amount').in('visit_id', visitIds)),
+    fetchAllRows(() => supabase.from('bill_adjustments').select('visit_id, amount, refund_amount').in('visit_id', visitIds).eq('type', 'CREDIT_NOTE').eq('status', 'APPROVED')),
+    fetchAllRows(() => supabase.from('nhif_claim_folios').select('visit_id, folio_no, status, paid_amount, nhif_claim_batches(claim_month)').in('visit_id', visitIds)),
+    fetchAllRows(() => supabase.from('insurer_claims').select('visit_id, claim_no, status, paid_amount, insurer_claim_batches(batch_number)').in('visit_id', visitIds)),
+    fetchAllRows(() => supabase.from('ar_write_offs').select('visit_id, debtor_type, amount, status').in('visit_id', visitIds).in('status', ['PENDING', 'APPROVED'])),
+    fetchAllRows(() => supabase.from('patients').select('id, name, phone').in('id', patientIds)),
+  ]);
+
+  const byVisit = (rows, visitId) => rows.filter((r) => r.visit_id === visitId);
+  const receivables = [];
+
+  for (const visit of open) {
+    const patient = patients.find((p) => p.id === visit.patient_id);
+    const payments = byVisit(paymentRows, visit.id);
+    const credits = byVisit(creditRows, visit.id);
+    const writeOffs = byVisit(writeOffRows, visit.id);
+    const writtenOff = (debtorType, status) =>
+      sumAmounts(writeOffs.filter((w) => w.debtor_type === debtorType && w.status === status));
+    const base = {
+      visitId: visit.id,
+      patientId: visit.patient_id,
+      patientName: patient?.name || '',
+      patientPhone: patient?.phone || undefined,
+      visitDate: visit.visit_date,
+    };
+
+    // Insurer: the share billed to it as an insurance payment, less what its claim has paid
+    const insuranceBilled = sumAmounts(payments.filter((p) => p.method === 'INSURANCE'));
+    if (insuranceBilled > 0 && visit.insurance_provider) {
+      const folio = byVisit(folios, visit.id)[0];
+      const claim = byVisit(claims, visit.id)[0];
+      let claimReference;
+      let claimStatus;
+      let insurerPaid = 0;
+      if (folio) {
+        const claimMonth = folio.nhif_claim_batches?.claim_month?.slice(0, 7);
+        claimReference = `NHIF ${claimMonth ? `${claimMonth} ` : ''}#${folio.folio_no}`;
+        claimStatus = folio.status;
+        insurerPaid = folio.status === 'PAID' ? parseFloat(folio.paid_amount ?? insuranceBilled) || 0 : 0;
+      } else if (claim) {
+        claimReference = `${claim.insurer_claim_batches?.batch_number || ''} #${claim.claim_no}`.trim();
+        claimStatus = claim.status;
+        insurerPaid = claim.status === 'PAID' ? parseFloat(claim.paid_amount ?? insuranceBilled) || 0 : 0;
+      }
+      const approved = writtenOff('INSURER', 'APPROVED');
+      const balance = roundAmount(insuranceBilled - insurerPaid - approved);
+      if (balance > 0) {
+        receivables.push({
+          ...base,
+          debtorType: 'INSURER',
+          insurer: visit.insurance_provider,
+          claimReference,
+          claimStatus,
+          billed: insuranceBilled,
+          paid: roundAmount(insurerPaid),
+          writtenOff: approved,
+          pendingWriteOff: writtenOff('INSURER', 'PENDING'),
+          balance,
+        });
+      }
+    }
+
+    // Patient: whatever of the bill is not yet paid by anyone
+    const billTotal = roundAmount(sumAmounts(byVisit(items, visit.id)) - sumAmounts(credits));
+    const patientPaid = roundAmount(
+      sumAmounts(payments.filter((p) => p.method !== 'INSURANCE')) - sumAmounts(credits, 'refund_amount')
+    );
+    const approved = writtenOff('PATIENT', 'APPROVED');
+    const balance = roundAmount(billTotal - insuranceBilled - patientPaid - approved);
+    if (balance > 0) {
+      receivables.push({
+        ...base,
+        debtorType: 'PATIENT',
+        billed: roundAmount(billTotal - insuranceBilled),
+        paid: patientPaid,
+        writtenOff: approved,
+        pendingWriteOff: writtenOff('PATIENT', 'PENDING'),
+        balance,
+      });
+    }
+  }
+
+  return receivables;
+};
+
+/**
+ * Open patient and insurer balances for a set of visits.
+ * Visits still in the clinic today are not debts yet; cancelled visits never are.
+ */
+const buildReceivables = async (visits) => {
+  const today = clinicDate();
+  const open = visits.filter((v) => v.status !== 'CANCELLED' && (v.status === 'COMPLETED' || v.visit_date < today));
+  const receivables = [];
+  for (let start = 0; start < open.length; start += VISIT_BATCH_SIZE) {
+    receivables.push(...await buildBatchReceivables(open.slice(start, start + VISIT_BATCH_SIZE)));
+  }
+  return receivables;
+};
+
+/**
+ * Every open patient and insurer balance, oldest visit first
+ */
+export const getReceivables = async () => {
+  try {
+    const visits = await fetchAllRows(() => supabase
+      .from('visits')
+      .select('id, patient_id, visit_date, status, insurance_provider')
+      .neq('status', 'CANCELLED')
+      .order('visit_date', { ascending: true }));
+
+    return { success: true, receivables: await buildReceivables(visits) };
+  } catch (error) {
+    console.error('Error getting receivables:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Request a write-off of a visit's patient or insurer debt. Nothing changes until approved.
+ */
+export const requestWriteOff = async ({ visitId, debtorType, amount, reason }, userId) => {
+  try {
+    const { data: visit, error: visitError } = await supabase
+      .from('visits')
+      .select('id, patient_id, visit_date, status, insurance_provider')
+      .eq('id', visitId)
+      .maybeSingle();
+
+    if (visitError || !visit) {
+      return { success: false, error: 'Visit not found' };
+    }
+
+    const receivable = (await buildReceivables([visit])).find((r) => r.debtorType === debtorType);
+    if (!receivable) {
+      return { success: false, error: `Nothing is owed by the ${debtorType === 'INSURER' ? 'insurer' : 'patient'} on this visit` };
+    }
+    if (receivable.pendingWriteOff > 0) {
+      return { success: false, error: 'This debt already has a write-off awaiting approval' };
+    }
+
+    const writeOffAmount = amount != null ? roundAmount(amount) : receivable.balance;
+    if (writeOffAmount > receivable.balance) {
+      return { success: false, error: `Write-off of TZS ${writeOffAmount.toLocaleString()} exceeds the TZS ${receivable.balance.toLocaleString()} owed` };
+    }
+
+    const { data: writeOff, error } = await supabase
+      .from('ar_write_offs')
+      .insert({
+        write_off_number: await generateWriteOffNumber(),
+        debtor_type: debtorType,
+        insurer: debtorType === 'INSURER' ? visit.insurance_provider : null,
+        visit_id: visitId,
+        patient_id: visit.patient_id,
+        amount: writeOffAmount,
+        reason,
+        status: 'PENDING',
+        requested_by: userId,
+      })
+      .select('*, patients(name)')
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, writeOff };
+  } catch (error) {
+    console.error('Error requesting write-off:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Approve or reject a pending write-off. The approver must not be the requester.
+ */
+export const decideWriteOff = async (writeOffId, { approve, notes }, userId) => {
+  try {
+    const { data: writeOff, error: fetchError } = await supabase
+      .from('ar_write_offs')
+      .select('*')
+      .eq('id', writeOffId)
+      .maybeSingle();
+
+    if (fetchError || !writeOff) {
+      return { success: false, error: 'Write-off not found' };
+    }
+    if (writeOff.status !== 'PENDING') {
+      return { success: false, error: `${writeOff.write_off_number} has already been ${writeOff.status.toLowerCase()}` };
+    }
+    if (writeOff.requested_by === userId) {
+      return { success: false, error: 'A second person must approve a write-off you requested' };
+    }
+
+    const { data: decided, error } = await supabase
+      .from('ar_write_offs')
+      .update({
+        status: approve ? 'APPROVED' : 'REJECTED',
+        decided_by: userId,
+        decided_at: new Date().toISOString(),
+        decision_notes: notes || null,
+      })
+      .eq('id', writeOffId)
+      .eq('status', 'PENDING')
+      .select('*, patients(name)')
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!decided) {
+      return { success: false, error: `${writeOff.write_off_number} has already been decided` };
+    }
+    return { success: true, writeOff: decided };
+  } catch (error) {
+    console.error('Error deciding write-off:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Write-offs, optionally by status, newest first
+ */
+export const getWriteOffs = async ({ status } = {}) => {
+  try {
+    let query = supabase
+      .from('ar_write_offs')
+      .select('*, patients(name)')
+      .order('requested_at', { ascending: false });
+
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, writeOffs: data || [] };
+  } catch (error) {
+    console.error('Error listing write-offs:', error);
+    return { success: false, error: error.message };
+  }
+};
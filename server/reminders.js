@@ -0,0 +1,372 @@
+/**
+ * Appointment Reminders Module
+ * Schedules SMS reminders 24 hours and 2 hours before each appointment, sends them
+ * when due through the SMS gateway, records delivery reports and acts on patients'
+ * CONFIRM / CANCEL replies. Messages are worded at send time from the appointment
+ * as it then stands, in the language chosen when it was booked.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { sendSms, parseSmsDeliveryReport, parseInboundSms } from './sms.js';
+import { normalizeMsisdn } from './mobileMoney.js';
+import { getSettings } from './settings.js';
+import { updateAppointmentStatus, cancelAppointment, appointmentStartsAt } from './appointments.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+// Minutes before the appointment each reminder goes out
+export const REMINDER_OFFSETS = { '24H': 24 * 60, '2H': 2 * 60 };
+
+export const REMINDER_LANGUAGES = ['en', 'sw'];
+
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MINUTES = 5;
+
+// =============================================================================
+// Message templates
+// =============================================================================
+
+const TYPE_NAMES = {
+  sw: {
+    'Eye Consultation': 'ushauri wa macho',
+    'Vision Test': 'kupima uwezo wa kuona',
+    'Optical Review': 'mapitio ya miwani',
+    'Specialist Consultation': 'ushauri wa daktari bingwa',
+  },
+};
+
+const TEMPLATES = {
+  en: {
+    '24H': 'Hello {patient}, a reminder of your {type} at {clinic} tomorrow, {date} at {time} with {provider}. Reply CONFIRM to confirm or CANCEL to cancel.',
+    '2H': 'Hello {patient}, your {type} at {clinic} is today at {time}. Reply CONFIRM to confirm or CANCEL to cancel.',
+    CONFIRMED: 'Thank you. Your appointment at {clinic} on {date} at {time} is confirmed.',
+    CANCELLED: 'Your appointment at {clinic} on {date} at {time} has been cancelled. Please call us to book another time.',
+    NOT_FOUND: 'We could not find an upcoming appointment for this number. Please call {clinic}.',
+  },
+  sw: {
+    '24H': 'Habari {patient}, tunakukumbusha miadi yako ya {type} katika {clinic} kesho, {date} saa {time} na {provider}. Jibu CONFIRM kuthibitisha au CANCEL kusitisha.',
+    '2H': 'Habari {patient}, miadi yako ya {type} katika {clinic} ni leo saa {time}. Jibu CONFIRM kuthibitisha au CANCEL kusitisha.',
+    CONFIRMED: 'Asante. Miadi yako katika {clinic} tarehe {date} saa {time} imethibitishwa.',
+    CANCELLED: 'Miadi yako katika {clinic} tarehe {date} saa {time} imesitishwa. Tafadhali tupigie simu kupanga muda mwingine.',
+    NOT_FOUND: 'Hatukupata miadi ijayo kwa namba hii. Tafadhali wasiliana na {clinic}.',
+  },
+};
+
+// Reply keywords, English and Swahili
+const REPLY_KEYWORDS = {
+  CONFIRM: 'CONFIRM',
+  THIBITISHA: 'CONFIRM',
+  CANCEL: 'CANCEL',
+  SITISHA: 'CANCEL',
+};
+
+const renderTemplate = (language, key, appointment, clinicName) => {
+  const lang = TEMPLATES[language] ? language : 'en';
+  const [year, month, day] = (appointment?.appointment_date || '').split('-');
+  const values = {
+    patient: appointment?.patients?.name?.split(' ')[0] || '',
+    type: TYPE_NAMES[lang]?.[appointment?.appointment_type] || (appointment?.appointment_type || '').toLowerCase(),
+    clinic: clinicName,
+    date: appointment ? `${day}/${month}/${year}` : '',
+    time: appointment?.appointment_time?.slice(0, 5) || '',
+    provider: appointment?.providers?.name || '',
+  };
+  return TEMPLATES[lang][key].replace(/\{(\w+)\}/g, (_, name) => values[name] ?? '');
+};
+
+const getClinicName = async () => {
+  const result = await getSettings();
+  return result.success ? result.settings.clinic_name : 'the clinic';
+};
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/**
+ * Stop reminders that have not gone out yet for an appointment
+ */
+export const cancelReminders = async (appointmentId) => {
+  const { error } = await supabase
+    .from('appointment_reminders')
+    .update({ status: 'CANCELLED' })
+    .eq('appointment_id', appointmentId)
+    .eq('status', 'SCHEDULED');
+  if (error) {
+    console.error('Error cancelling appointment reminders:', error);
+  }
+};
+
+/**
+ * (Re)schedule the reminders for an appointment after it is booked or moved. Reminders
+ * whose time has already passed are not created; a patient without a usable mobile
+ * number gets SKIPPED reminders so staff can see why none were sent.
+ */
+export const scheduleReminders = async (appointmentId) => {
+  try {
+    await cancelReminders(appointmentId);
+
+    const { data: appointment } = await supabase
+      .from('appointments')
+      .select('*, patients(phone)')
+      .eq('id', appointmentId)
+      .maybeSingle();
+    if (!appointment || !['SCHEDULED', 'CONFIRMED'].includes(appointment.status)) {
+      return { success: true, reminders: [] };
+    }
+
+    const phone = normalizeMsisdn(appointment.patients?.phone);
+    const start = appointmentStartsAt(appointment).getTime();
+    const rows = Object.entries(REMINDER_OFFSETS)
+      .map(([kind, minutes]) => ({ kind, sendAt: new Date(start - minutes * 60000) }))
+      .filter(({ sendAt }) => sendAt.getTime() > Date.now())
+      .map(({ kind, sendAt }) => ({
+        appointment_id: appointmentId,
+        kind,
+        send_at: sendAt.toISOString(),
+        phone,
+        status: phone ? 'SCHEDULED' : 'SKIPPED',
+        last_error: phone ? null : 'No valid mobile number for the patient',
+      }));
+
+    if (rows.length === 0) {
+      return { success: true, reminders: [] };
+    }
+    const { data, error } = await supabase.from('appointment_reminders').insert(rows).select();
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, reminders: data || [] };
+  } catch (error) {
+    console.error('Error scheduling appointment reminders:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Reminders of an appointment, in the shape the appointment book embeds them
+ */
+export const getReminders = async (appointmentId) => {
+  const { data } = await supabase
+    .from('appointment_reminders')
+    .select('id, kind, status, send_at, sent_at, delivered_at, last_error')
+    .eq('appointment_id', appointmentId)
+    .order('send_at', { ascending: true });
+  return data || [];
+};
+
+// =============================================================================
+// Sending
+// =============================================================================
+
+/**
+ * Send one claimed (SENDING) reminder and record the outcome
+ */
+const sendReminder = async (reminder, clinicName, notificationsEnabled) => {
+  const finish = (changes) =>
+    supabase.from('appointment_reminders').update(changes).eq('id', reminder.id);
+
+  if (!notificationsEnabled) {
+    return finish({ status: 'SKIPPED', last_error: 'SMS notifications are switched off in System Settings' });
+  }
+
+  const { data: appointment } = await supabase
+    .from('appointments')
+    .select('*, patients(name), providers(name)')
+    .eq('id', reminder.appointment_id)
+    .maybeSingle();
+  if (!appointment || !['SCHEDULED', 'CONFIRMED'].includes(appointment.status)) {
+    return finish({ status: 'CANCELLED' });
+  }
+  if (appointmentStartsAt(appointment).getTime() <= Date.now()) {
+    return finish({ status: 'SKIPPED', last_error: 'The appointment time had passed' });
+  }
+
+  const message = renderTemplate(appointment.reminder_language, reminder.kind, appointment, clinicName);
+  const attempts = (reminder.attempts || 0) + 1;
+  const result = await sendSms({ to: reminder.phone, message, reference: reminder.id });
+
+  if (result.success) {
+    const now = new Date().toISOString();
+    return finish({
+      status: result.status === 'DELIVERED' ? 'DELIVERED' : 'SENT',
+      message,
+      gateway: result.gateway,
+      gateway_message_id: result.messageId,
+      attempts,
+      last_error: null,
+      sent_at: now,
+      delivered_at: result.status === 'DELIVERED' ? now : null,
+    });
+  }
+
+  const retryAt = Date.now() + RETRY_DELAY_MINUTES * attempts * 60000;
+  const canRetry = attempts < MAX_SEND_ATTEMPTS && retryAt < appointmentStartsAt(appointment).getTime();
+  return finish({
+    status: canRetry ? 'SCHEDULED' : 'FAILED',
+    message,
+    gateway: result.gateway,
+    attempts,
+    last_error: result.error,
+    send_at: canRetry ? new Date(retryAt).toISOString() : reminder.send_at,
+  });
+};
+
+/**
+ * Send every reminder that is due; run on a timer by the API server
+ */
+export const sendDueReminders = async ({ limit = 50 } = {}) => {
+  try {
+    const { data: due, error } = await supabase
+      .from('appointment_reminders')
+      .select('*')
+      .eq('status', 'SCHEDULED')
+      .lte('send_at', new Date().toISOString())
+      .order('send_at', { ascending: true })
+      .limit(limit);
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!due || due.length === 0) {
+      return { success: true, sent: 0 };
+    }
+
+    const settings = await getSettings();
+    const clinicName = settings.success ? settings.settings.clinic_name : 'the clinic';
+    const notificationsEnabled = !settings.success || settings.settings.enable_notifications !== false;
+
+    let sent = 0;
+    for (const reminder of due) {
+      // Claim the row so two servers never send the same reminder
+      const { data: claimed } = await supabase
+        .from('appointment_reminders')
+        .update({ status: 'SENDING' })
+        .eq('id', reminder.id)
+        .eq('status', 'SCHEDULED')
+        .select()
+        .maybeSingle();
+      if (!claimed) continue;
+
+      await sendReminder(claimed, clinicName, notificationsEnabled);
+      sent += 1;
+    }
+    return { success: true, sent };
+  } catch (error) {
+    console.error('Error sending appointment reminders:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+// =============================================================================
+// Gateway callbacks
+// =============================================================================
+
+/**
+ * Delivery report from the gateway: mark the reminder delivered or failed
+ */
+export const handleSmsDeliveryReport = async (gatewayName, headers, body) => {
+  try {
+    const report = parseSmsDeliveryReport(gatewayName, headers, body);
+    if (!report) {
+      return { success: false, error: 'Invalid delivery report' };
+    }
+
+    const { data, error } = await supabase
+      .from('appointment_reminders')
+      .update(report.status === 'DELIVERED'
+        ? { status: 'DELIVERED', delivered_at: new Date().toISOString() }
+        : { status: 'FAILED', last_error: report.reason || 'Not delivered' })
+      .eq('gateway', gatewayName)
+      .eq('gateway_message_id', report.messageId)
+      .in('status', ['SENT', 'DELIVERED'])
+      .select('id');
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, updated: (data || []).length };
+  } catch (error) {
+    console.error('Error handling SMS delivery report:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Appointment a reply from this number is about: the one most recently reminded
+ * that is still upcoming
+ */
+const findRepliedAppointment = async (phone) => {
+  const { data: reminders } = await supabase
+    .from('appointment_reminders')
+    .select('appointment_id, appointments(*, patients(name), providers(name))')
+    .eq('phone', phone)
+    .in('status', ['SENT', 'DELIVERED'])
+    .order('sent_at', { ascending: false })
+    .limit(10);
+
+  const upcoming = (reminders || [])
+    .map((r) => r.appointments)
+    .find((a) => a && ['SCHEDULED', 'CONFIRMED'].includes(a.status) && appointmentStartsAt(a).getTime() > Date.now());
+  return upcoming || null;
+};
+
+/**
+ * Inbound SMS: CONFIRM confirms and CANCEL cancels the appointment the patient was
+ * last reminded of. Every reply is logged and answered.
+ */
+export const handleInboundSms = async (gatewayName, headers, body) => {
+  try {
+    const inbound = parseInboundSms(gatewayName, headers, body);
+    if (!inbound) {
+      return { success: false, error: 'Invalid message' };
+    }
+
+    const phone = normalizeMsisdn(inbound.from) || inbound.from;
+    const keyword = REPLY_KEYWORDS[inbound.text.trim().split(/\s+/)[0]?.toUpperCase()] || null;
+    const appointment = keyword ? await findRepliedAppointment(phone) : null;
+    const clinicName = await getClinicName();
+
+    let outcome = 'Reply not recognised';
+    let answer = null;
+    if (keyword && !appointment) {
+      outcome = 'No upcoming reminded appointment for this number';
+      answer = renderTemplate('en', 'NOT_FOUND', null, clinicName);
+    } else if (keyword === 'CONFIRM') {
+      if (appointment.status === 'CONFIRMED') {
+        outcome = 'Appointment already confirmed';
+      } else {
+        const result = await updateAppointmentStatus(appointment.id, 'CONFIRMED', null);
+        outcome = result.success ? 'Appointment confirmed' : `Could not confirm: ${result.error}`;
+      }
+      answer = renderTemplate(appointment.reminder_language, 'CONFIRMED', appointment, clinicName);
+    } else if (keyword === 'CANCEL') {
+      const result = await cancelAppointment(appointment.id, 'Cancelled by the patient by SMS reply', null);
+      if (result.success) {
+        await cancelReminders(appointment.id);
+        outcome = 'Appointment cancelled';
+        answer = renderTemplate(appointment.reminder_language, 'CANCELLED', appointment, clinicName);
+      } else {
+        outcome = `Could not cancel: ${result.error}`;
+      }
+    }
+
+    await supabase.from('sms_replies').insert({
+      gateway: gatewayName,
+      phone,
+      body: inbound.text.slice(0, 1000),
+      keyword,
+      appointment_id: appointment?.id || null,
+      outcome,
+    });
+
+    if (answer) {
+      await sendSms({ to: phone, message: answer, reference: `reply-${appointment?.id || 'none'}` });
+    }
+    return { success: true, keyword, appointmentId: appointment?.id || null, outcome };
+  } catch (error) {
+    console.error('Error handling inbound SMS:', error);
+    return { success: false, error: error.message };
+  }
+};
@@ -21,6 +21,7 @@ export const SECURITY_CONFIG = {
   RATE_LIMIT_MAX_REQUESTS: 100, // per window
   RATE_LIMIT_LOGIN_MAX: 5, // login attempts per window
   RATE_LIMIT_STRICT_MAX: 20, // strict endpoints (create/update/delete)
+  RATE_LIMIT_LOOKUP_MAX: 20, // failed public lookups (prescription verification)
   
   // Password Policy
   PASSWORD_MIN_LENGTH: 12,
@@ -164,6 +165,33 @@ export const writeRateLimiter = rateLimit({
   },
 });
 
+/**
+ * Rate limiter for public lookups by code (prescription verification).
+ * Only failed lookups count, so a pharmacy checking many real prescriptions is never
+ * held up while guessing codes is.
+ */
+export const lookupRateLimiter = rateLimit({
+  windowMs: SECURITY_CONFIG.RATE_LIMIT_WINDOW_MS,
+  max: SECURITY_CONFIG.RATE_LIMIT_LOOKUP_MAX,
+  message: {
+    error: 'Too many failed lookups, please try again later.',
+    retryAfter: SECURITY_CONFIG.RATE_LIMIT_WINDOW_MS / 1000,
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  handler: (req, res) => {
+    logSecurityEvent('LOOKUP_RATE_LIMIT_EXCEEDED', {
+      ip: req.ip,
+      path: req.path,
+    });
+    res.status(429).json({
+      error: 'Too many failed lookups, please try again later.',
+      retryAfter: SECURITY_CONFIG.RATE_LIMIT_WINDOW_MS / 1000,
+    });
+  },
+});
+
 // ==================== IP SECURITY ====================
 
 /**
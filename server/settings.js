@@ -0,0 +1,136 @@
+/**
+ * System Settings Module
+ * Clinic details, working hours and system-wide toggles saved from System Settings.
+ * Stored as key / value rows; a setting without a row takes its default below.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const DEFAULT_SETTINGS = {
+  clinic_name: 'Msimbazi Eye Care',
+  clinic_tagline: 'Professional Eye Care Services',
+  clinic_address: '',
+  clinic_phone: '',
+  clinic_email: '',
+  working_hours_start: '08:00',
+  working_hours_end: '17:00',
+  enable_notifications: true,
+  enable_audit_logging: true,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_TEXT_LENGTH = 200;
+
+// Settings are read on most requests that print or audit; cache until the next save
+let cachedSettings = null;
+
+/**
+ * Current settings, defaults filled in for anything not yet saved
+ */
+export const getSettings = async () => {
+  if (cachedSettings) {
+    return { success: true, settings: cachedSettings };
+  }
+  try {
+    const { data, error } = await supabase.from('system_settings').select('key, value, updated_at');
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    const settings = { ...DEFAULT_SETTINGS, updated_at: null };
+    for (const row of data || []) {
+      if (row.key in DEFAULT_SETTINGS) {
+        settings[row.key] = row.value;
+        if (!settings.updated_at || row.updated_at > settings.updated_at) settings.updated_at = row.updated_at;
+      }
+    }
+    cachedSettings = settings;
+    return { success: true, settings };
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Check a set of changes against the setting types; returns an error message or null
+ */
+const validateChanges = (changes, current) => {
+  for (const [key, value] of Object.entries(changes)) {
+    if (!(key in DEFAULT_SETTINGS)) {
+      return `Unknown setting: ${key}`;
+    }
+    if (typeof value !== typeof DEFAULT_SETTINGS[key]) {
+      return `${key} must be a ${typeof DEFAULT_SETTINGS[key]}`;
+    }
+    if (typeof value === 'string' && value.length > MAX_TEXT_LENGTH) {
+      return `${key} must be at most ${MAX_TEXT_LENGTH} characters`;
+    }
+  }
+
+  const merged = { ...current, ...changes };
+  if (!merged.clinic_name.trim()) {
+    return 'Clinic name is required';
+  }
+  if (merged.clinic_email && !EMAIL_PATTERN.test(merged.clinic_email)) {
+    return 'Clinic email is not a valid email address';
+  }
+  if (!TIME_PATTERN.test(merged.working_hours_start) || !TIME_PATTERN.test(merged.working_hours_end)) {
+    return 'Working hours must be times in HH:MM format';
+  }
+  if (merged.working_hours_start >= merged.working_hours_end) {
+    return 'Working hours must end after they start';
+  }
+  return null;
+};
+
+/**
+ * Save changed settings (snake_case keys); returns the full settings and the keys that changed
+ */
+export const updateSettings = async (changes, userId) => {
+  try {
+    const current = await getSettings();
+    if (!current.success) {
+      return current;
+    }
+
+    const validationError = validateChanges(changes, current.settings);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const changed = Object.keys(changes).filter((key) => changes[key] !== current.settings[key]);
+    if (changed.length === 0) {
+      return { success: true, settings: current.settings, changed };
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('system_settings')
+      .upsert(changed.map((key) => ({ key, value: changes[key], updated_by: userId, updated_at: now })));
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    cachedSettings = null;
+    const updated = await getSettings();
+    return { ...updated, changed };
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Whether user activity logged from the frontend is recorded (on unless switched off)
+ */
+export const isAuditLoggingEnabled = async () => {
+  const result = await getSettings();
+  return !result.success || result.settings.enable_audit_logging !== false;
+};
@@ -0,0 +1,286 @@
+/**
+ * Cashier Shifts Module
+ * Opening a shift with a float, closing it with a counted-cash declaration and
+ * the Z-report of takings by payment method and payer.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { PAYMENT_METHODS } from './payments.js';
+import { nextDocumentNumber } from './documentNumbers.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+const PAYER_TYPES = ['CASH', 'NHIF', 'PRIVATE'];
+
+/**
+ * Methods whose settlement total can be declared at close (card terminal batch, mobile money statement)
+ */
+export const DECLARABLE_METHODS = ['CARD', 'MOBILE_MONEY'];
+
+const roundAmount = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Generate the next shift number for today (SHF-YYYYMMDD-NN)
+ */
+const generateShiftNumber = () => nextDocumentNumber('SHF', 2);
+
+/**
+ * Payer the visit was billed to (CASH, NHIF or PRIVATE), not the patient's current cover
+ */
+const visitPayer = (visit) => {
+  if (!visit || visit.payer_type !== 'INSURANCE') return 'CASH';
+  return visit.insurance_provider === 'NHIF' ? 'NHIF' : 'PRIVATE';
+};
+
+/**
+ * The cashier's open shift, or null
+ */
+export const getOpenShift = async (userId) => {
+  try {
+    const { data, error } = await supabase
+      .from('cashier_shifts')
+      .select('*')
+      .eq('cashier_id', userId)
+      .eq('status', 'OPEN')
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, shift: data || null };
+  } catch (error) {
+    console.error('Error getting open shift:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Open a shift for the cashier with the cash float in the drawer
+ */
+export const openShift = async (userId, { openingFloat, notes }) => {
+  try {
+    const existing = await getOpenShift(userId);
+    if (!existing.success) {
+      return existing;
+    }
+    if (existing.shift) {
+      return { success: false, error: `Shift ${existing.shift.shift_number} is still open` };
+    }
+
+    let cashierName = null;
+    try {
+      const { data: userData } = await supabase.auth.admin.getUserById(userId);
+      cashierName = userData?.user?.user_metadata?.name || userData?.user?.email || null;
+    } catch {
+      // Name is informational only
+    }
+
+    const { data: shift, error } = await supabase
+      .from('cashier_shifts')
+      .insert({
+        shift_number: await generateShiftNumber(),
+        cashier_id: userId,
+        cashier_name: cashierName,
+        status: 'OPEN',
+        opening_float: openingFloat,
+        opening_notes: notes || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, shift };
+  } catch (error) {
+    console.error('Error opening shift:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Build the Z-report for a shift from the payments recorded against it, split by the
+ * payer each visit was billed to. Expected cash is the float plus cash applied to bills (change already given back),
+ * less cash refunded on credit notes.
+ */
+const buildZReport = async (shift, countedCash, declaredTotals = {}) => {
+  const [{ data: payments, error }, { data: refunds, error: refundsError }] = await Promise.all([
+    supabase
+      .from('payments')
+      .select('method, amount, amount_tendered, change_given, receipt_number, visits(payer_type, insurance_provider)')
+      .eq('shift_id', shift.id),
+    supabase
+      .from('bill_adjustments')
+      .select('refund_amount, refund_method')
+      .eq('shift_id', shift.id)
+      .eq('status', 'APPROVED'),
+  ]);
+
+  if (error || refundsError) {
+    throw new Error((error || refundsError).message);
+  }
+
+  const rows = payments || [];
+  const byMethod = PAYMENT_METHODS.map((method) => {
+    const lines = rows.filter((p) => p.method === method);
+    const amount = roundAmount(lines.reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0));
+    const declared = DECLARABLE_METHODS.includes(method) && declaredTotals[method] != null
+      ? roundAmount(declaredTotals[method])
+      : null;
+    return {
+      method,
+      count: lines.length,
+      amount,
+      declared,
+      variance: declared != null ? roundAmount(declared - amount) : null,
+    };
+  });
+
+  const byPayer = PAYER_TYPES.map((payer) => {
+    const lines = rows.filter((p) => visitPayer(p.visits) === payer);
+    const methods = {};
+    for (const method of PAYMENT_METHODS) {
+      methods[method] = roundAmount(lines.filter((p) => p.method === method).reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0));
+    }
+    return {
+      payer,
+      count: lines.length,
+      amount: roundAmount(lines.reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0)),
+      methods,
+    };
+  });
+
+  const refundsPaid = roundAmount((refunds || []).reduce((sum, r) => sum + (parseFloat(r.refund_amount) || 0), 0));
+  const cashRefunds = roundAmount((refunds || [])
+    .filter((r) => r.refund_method === 'CASH')
+    .reduce((sum, r) => sum + (parseFloat(r.refund_amount) || 0), 0));
+
+  const cashTaken = byMethod.find((m) => m.method === 'CASH')?.amount || 0;
+  const openingFloat = parseFloat(shift.opening_float) || 0;
+  const expectedCash = roundAmount(openingFloat + cashTaken - cashRefunds);
+
+  return {
+    shiftNumber: shift.shift_number,
+    cashierName: shift.cashier_name,
+    openedAt: shift.opened_at,
+    closedAt: shift.closed_at || null,
+    openingFloat,
+    receiptCount: new Set(rows.map((p) => p.receipt_number)).size,
+    totalTaken: roundAmount(rows.reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0)),
+    changeGiven: roundAmount(rows.reduce((sum, p) => sum + (parseFloat(p.change_given) || 0), 0)),
+    refundsPaid,
+    cashRefunds,
+    byMethod,
+    byPayer,
+    expectedCash,
+    countedCash: countedCash != null ? roundAmount(countedCash) : null,
+    cashVariance: countedCash != null ? roundAmount(countedCash - expectedCash) : null,
+  };
+};
+
+/**
+ * Z-report for a shift: the frozen snapshot once closed, a running (X) report while open
+ */
+export const getShiftReport = async (shiftId) => {
+  try {
+    const { data: shift, error } = await supabase
+      .from('cashier_shifts')
+      .select('*')
+      .eq('id', shiftId)
+      .maybeSingle();
+
+    if (error || !shift) {
+      return { success: false, error: 'Shift not found' };
+    }
+
+    const report = shift.status === 'CLOSED' && shift.z_report
+      ? shift.z_report
+      : await buildZReport(shift, null);
+
+    return { success: true, shift, report };
+  } catch (error) {
+    console.error('Error getting shift report:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Close a shift with the counted cash (and optional card / mobile money declarations),
+ * freezing its Z-report
+ */
+export const closeShift = async (shiftId, { countedCash, declaredTotals, notes }, userId) => {
+  try {
+    const { data: shift, error: shiftError } = await supabase
+      .from('cashier_shifts')
+      .select('*')
+      .eq('id', shiftId)
+      .maybeSingle();
+
+    if (shiftError || !shift) {
+      return { success: false, error: 'Shift not found' };
+    }
+    if (shift.status !== 'OPEN') {
+      return { success: false, error: `Shift ${shift.shift_number} is already closed` };
+    }
+
+    const closedAt = new Date().toISOString();
+    const report = await buildZReport({ ...shift, closed_at: closedAt }, countedCash, declaredTotals || {});
+
+    const { data: closed, error } = await supabase
+      .from('cashier_shifts')
+      .update({
+        status: 'CLOSED',
+        counted_cash: countedCash,
+        declared_totals: declaredTotals || null,
+        expected_cash: report.expectedCash,
+        cash_variance: report.cashVariance,
+        z_report: report,
+        closing_notes: notes || null,
+        closed_at: closedAt,
+        closed_by: userId,
+      })
+      .eq('id', shiftId)
+      .eq('status', 'OPEN')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!closed) {
+      return { success: false, error: `Shift ${shift.shift_number} is already closed` };
+    }
+
+    return { success: true, shift: closed, report };
+  } catch (error) {
+    console.error('Error closing shift:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Shifts opened within a date range (YYYY-MM-DD, inclusive), newest first
+ */
+export const getShifts = async ({ from, to } = {}) => {
+  try {
+    let query = supabase
+      .from('cashier_shifts')
+      .select('*')
+      .order('opened_at', { ascending: false });
+
+    if (from) query = query.gte('opened_at', `${from}T00:00:00`);
+    if (to) query = query.lte('opened_at', `${to}T23:59:59.999`);
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, shifts: data || [] };
+  } catch (error) {
+    console.error('Error listing shifts:', error);
+    return { success: false, error: error.message };
+  }
+};
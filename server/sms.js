@@ -0,0 +1,116 @@
+/**
+ * SMS Gateway Module
+ * Sends text messages through a pluggable gateway and reads the gateway's delivery
+ * reports and inbound messages.
+ *
+ * Gateways implement:
+ *   send({ to, message, reference }) -> { messageId, status: 'SENT' | 'DELIVERED' }
+ *   parseDeliveryReport(headers, body) -> { messageId, status: 'DELIVERED' | 'FAILED', reason? } | null (rejected)
+ *   parseInbound(headers, body) -> { from, text } | null (rejected)
+ *   and throw from send() when the message was not accepted.
+ *
+ * The console gateway is used unless SMS_GATEWAY names another registered gateway.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// =============================================================================
+// Console gateway (local development and testing, nothing leaves the server)
+// =============================================================================
+
+// Webhooks are refused outright until SMS_WEBHOOK_SECRET is set
+const hasValidSignature = (headers) => {
+  const secret = process.env.SMS_WEBHOOK_SECRET;
+  const signature = headers['x-sms-signature'];
+  if (!secret || typeof signature !== 'string') return false;
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+/**
+ * Messages are printed to the console and, when SMS_OUTBOX_FILE is set, appended to
+ * that file one JSON object per line. They count as delivered straight away. Inbound
+ * replies and delivery reports can be posted by hand with the X-SMS-Signature header
+ * set to SMS_WEBHOOK_SECRET.
+ */
+const consoleGateway = {
+  send: async ({ to, message, reference }) => {
+    const messageId = `CONSOLE-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+    console.log(`📱 SMS to ${to} [${reference || messageId}]: ${message}`);
+
+    const outbox = process.env.SMS_OUTBOX_FILE;
+    if (outbox) {
+      await fs.promises.mkdir(path.dirname(outbox), { recursive: true });
+      await fs.promises.appendFile(
+        outbox,
+        `${JSON.stringify({ messageId, to, reference, message, sentAt: new Date().toISOString() })}\n`
+      );
+    }
+    return { messageId, status: 'DELIVERED' };
+  },
+
+  parseDeliveryReport: (headers, body) => {
+    if (!hasValidSignature(headers)) return null;
+    if (!body?.messageId || !['DELIVERED', 'FAILED'].includes(body.status)) return null;
+    return { messageId: body.messageId, status: body.status, reason: body.reason };
+  },
+
+  parseInbound: (headers, body) => {
+    if (!hasValidSignature(headers)) return null;
+    if (!body?.from || typeof body.text !== 'string') return null;
+    return { from: String(body.from), text: body.text };
+  },
+};
+
+const gateways = { console: consoleGateway };
+
+/**
+ * Register a gateway implementation (e.g. a bulk SMS provider's API client)
+ */
+export const registerSmsGateway = (name, gateway) => {
+  gateways[name] = gateway;
+};
+
+export const activeSmsGatewayName = () => process.env.SMS_GATEWAY || 'console';
+
+/**
+ * Send a message through the active gateway
+ */
+export const sendSms = async ({ to, message, reference }) => {
+  const gatewayName = activeSmsGatewayName();
+  const gateway = gateways[gatewayName];
+  if (!gateway) {
+    return { success: false, gateway: gatewayName, error: `SMS gateway "${gatewayName}" is not configured` };
+  }
+  try {
+    const result = await gateway.send({ to, message, reference });
+    return { success: true, gateway: gatewayName, messageId: result.messageId, status: result.status || 'SENT' };
+  } catch (error) {
+    console.warn(`SMS to ${to} failed:`, error.message);
+    return { success: false, gateway: gatewayName, error: error.message };
+  }
+};
+
+// Only the gateway messages are sent through may post back; a registered but inactive
+// gateway (e.g. console in production) must not become an unauthenticated way in
+const activeGateway = (gatewayName) =>
+  gatewayName === activeSmsGatewayName() ? gateways[gatewayName] : undefined;
+
+/**
+ * Read a delivery report posted by the active gateway; null when it is not a valid report
+ */
+export const parseSmsDeliveryReport = (gatewayName, headers, body) => {
+  const gateway = activeGateway(gatewayName);
+  return gateway ? gateway.parseDeliveryReport(headers, body) : null;
+};
+
+/**
+ * Read an inbound message posted by the active gateway; null when it is not a valid message
+ */
+export const parseInboundSms = (gatewayName, headers, body) => {
+  const gateway = activeGateway(gatewayName);
+  return gateway ? gateway.parseInbound(headers, body) : null;
+};
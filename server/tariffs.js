@@ -0,0 +1,188 @@
+/**
+ * Tariffs Module
+ * Tariff master (price list): service codes and optical components with
+ * effective-dated prices per payer. A new price closes the payer's current
+ * price the day before it takes effect, so history is never overwritten.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+export const TARIFF_CATEGORIES = ['CLINICAL', 'PHARMACY', 'OPTICAL'];
+
+export const TARIFF_GROUPS = [
+  'CONSULTATION', 'TEST', 'PROCEDURE', 'LENS_TYPE', 'LENS_INDEX', 'EDGE_COLOR', 'COATING', 'FRAME', 'LIMIT', 'MEDICATION',
+];
+
+/**
+ * Day before a YYYY-MM-DD date
+ */
+const previousDay = (date) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().split('T')[0];
+};
+
+/**
+ * All tariff items with their full price history, ordered by group and code
+ */
+export const getTariffs = async ({ includeInactive = false } = {}) => {
+  try {
+    let query = supabase
+      .from('tariff_items')
+      .select('*, tariff_prices(*)')
+      .order('service_group', { ascending: true })
+      .order('code', { ascending: true });
+
+    if (!includeInactive) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, tariffs: data || [] };
+  } catch (error) {
+    console.error('Error getting tariffs:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Add a tariff item (prices are added separately)
+ */
+export const createTariffItem = async ({ code, name, category, serviceGroup, nhifItemCode }, userId) => {
+  try {
+    const { data: existing } = await supabase
+      .from('tariff_items')
+      .select('id')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (existing) {
+      return { success: false, error: `Service code ${code} already exists` };
+    }
+
+    const { data: item, error } = await supabase
+      .from('tariff_items')
+      .insert({
+        code,
+        name,
+        category,
+        service_group: serviceGroup,
+        nhif_item_code: nhifItemCode || null,
+        created_by: userId,
+      })
+      .select('*, tariff_prices(*)')
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, item };
+  } catch (error) {
+    console.error('Error creating tariff item:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Update a tariff item's name, NHIF item code, pre-authorization or active flag (the code is permanent)
+ */
+export const updateTariffItem = async (itemId, { name, nhifItemCode, requiresPreauth, isActive }) => {
+  try {
+    const updates = { updated_at: new Date().toISOString() };
+    if (name !== undefined) updates.name = name;
+    if (nhifItemCode !== undefined) updates.nhif_item_code = nhifItemCode || null;
+    if (requiresPreauth !== undefined) updates.requires_preauth = requiresPreauth;
+    if (isActive !== undefined) updates.is_active = isActive;
+
+    const { data: item, error } = await supabase
+      .from('tariff_items')
+      .update(updates)
+      .eq('id', itemId)
+      .select('*, tariff_prices(*)')
+      .maybeSingle();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!item) {
+      return { success: false, error: 'Tariff item not found' };
+    }
+    return { success: true, item };
+  } catch (error) {
+    console.error('Error updating tariff item:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Set a payer's price from a date (YYYY-MM-DD). The payer's current price ends the
+ * day before; a price cannot be back-dated before one that is already recorded.
+ */
+export const addTariffPrice = async (itemId, { payer, price, effectiveFrom }, userId) => {
+  try {
+    const { data: item, error: itemError } = await supabase
+      .from('tariff_items')
+      .select('id, code')
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (itemError || !item) {
+      return { success: false, error: 'Tariff item not found' };
+    }
+
+    const { data: prices, error: pricesError } = await supabase
+      .from('tariff_prices')
+      .select('*')
+      .eq('tariff_item_id', itemId)
+      .eq('payer', payer);
+
+    if (pricesError) {
+      return { success: false, error: pricesError.message };
+    }
+
+    const later = (prices || []).find((p) => p.effective_from >= effectiveFrom);
+    if (later) {
+      return {
+        success: false,
+        error: `A ${payer} price for ${item.code} already takes effect on ${later.effective_from}; choose a date after it`,
+      };
+    }
+
+    const open = (prices || []).find((p) => !p.effective_to || p.effective_to >= effectiveFrom);
+    if (open) {
+      const { error: closeError } = await supabase
+        .from('tariff_prices')
+        .update({ effective_to: previousDay(effectiveFrom) })
+        .eq('id', open.id);
+      if (closeError) {
+        return { success: false, error: closeError.message };
+      }
+    }
+
+    const { data: created, error } = await supabase
+      .from('tariff_prices')
+      .insert({
+        tariff_item_id: itemId,
+        payer,
+        price,
+        effective_from: effectiveFrom,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, price: created, previousPrice: open || null };
+  } catch (error) {
+    console.error('Error adding tariff price:', error);
+    return { success: false, error: error.message };
+  }
+};
@@ -13,12 +13,17 @@ const supabase = createClient(
 const VALIDATION_PATTERNS = {
   phone: /^07\d{8}$/,
   email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-  prescription: /^[+-]?\d+\.?\d*\s*(DS|DC|SPH|CYL|AXIS)?$/i,
   insuranceNumber: /^[A-Z0-9\-]+$/,
   nhifNumber: /^[0-9]{10,}$/,
   name: /^[a-zA-Z\s'-]{2,255}$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
 };
 
+/**
+ * Whether a value is a UUID (safe to use as a row id in a query)
+ */
+export const isUuid = (value) => typeof value === 'string' && VALIDATION_PATTERNS.uuid.test(value);
+
 /**
  * Validate patient data
  */
@@ -199,30 +204,109 @@ export const validatePatientPartial = async (patientData, options = {}) => {
   return { isValid: Object.keys(errors).length === 0, errors };
 };
 
+// Spectacle Rx limits, matching the eye exam refraction fields
+const RX_LIMITS = {
+  sphere: { label: 'Sphere', unit: 'D', min: -30, max: 30, step: 0.25 },
+  cylinder: { label: 'Cylinder', unit: 'D', min: -10, max: 10, step: 0.25 },
+  axis: { label: 'Axis', unit: '°', min: 1, max: 180, step: 1 },
+  add: { label: 'Add', unit: 'D', min: 0.25, max: 4, step: 0.25 },
+  prism: { label: 'Prism', unit: 'Δ', min: 0, max: 20, step: 0.5 },
+};
+
+const RX_POWER = '[+-]?(?:\\d+(?:\\.\\d*)?|\\.\\d+)';
+const RX_ADD_PATTERN = new RegExp(`[\\s,;]*ADD\\s*:?\\s*(${RX_POWER})\\s*D?`);
+const RX_PRISM_PATTERN = /(^|[\s,;])(?:PRISM\s*)?(\d+(?:\.\d+)?|\.\d+)\s*(?:Δ|\^|PD)?\s*B(?:ASE\s*)?(I|O|U|D)(?:N|UT|P|OWN)?\b/;
+const RX_DISTANCE_PATTERN = new RegExp(
+  `^(PLANO|PL|${RX_POWER}(?![\\d.]))\\s*(?:DS|SPH|D)?` +
+  `(?:\\s*\\/?\\s*(${RX_POWER}(?![\\d.]))\\s*(?:DC|CYL|D)?(?:\\s*(?:X|AXIS|@)\\s*(\\d+(?:\\.\\d+)?))?)?$`
+);
+
+const checkRxLimit = (field, value) => {
+  const { label, unit, min, max, step } = RX_LIMITS[field];
+  if (!Number.isFinite(value) || value < min || value > max) {
+    return `${label} must be between ${min} and ${max}${unit}`;
+  }
+  if (Math.abs(value / step - Math.round(value / step)) > 1e-6) {
+    return `${label} must be in steps of ${step}${unit}`;
+  }
+  return null;
+};
+
+/**
+ * Problem with a written spectacle Rx for one eye ("-2.50/-0.75x180", "+1.00 DS",
+ * "Plano", optionally with "Add +2.00" and "2Δ BI"), or null when it can be dispensed.
+ * Same reading as utils/rxUtils.ts on the client.
+ */
+const checkRx = (text) => {
+  let rest = String(text).trim().toUpperCase()
+    .replace(/[−–]/g, '-')
+    .replace(/×/g, 'X')
+    .replace(/[°º]/g, '')
+    .replace(/\s+/g, ' ');
+
+  const addMatch = rest.match(RX_ADD_PATTERN);
+  if (addMatch) {
+    const addError = checkRxLimit('add', Number(addMatch[1]));
+    if (addError) return addError;
+    rest = rest.replace(addMatch[0], ' ');
+  }
+
+  const prismMatch = rest.match(RX_PRISM_PATTERN);
+  if (prismMatch) {
+    const prismError = checkRxLimit('prism', Number(prismMatch[2]));
+    if (prismError) return prismError;
+    rest = rest.replace(prismMatch[0], prismMatch[1]);
+  }
+
+  const match = rest.replace(/[\s,;]+$/, '').trim().match(RX_DISTANCE_PATTERN);
+  if (!match) return 'Could not read the prescription; use a form like -2.50/-0.75x180, +1.00 DS or Plano';
+  const [, sphereText, cylinderText, axisText] = match;
+
+  const sphere = sphereText.startsWith('PL') ? 0 : Number(sphereText);
+  if (sphere !== 0 && !/^[+-]/.test(sphereText)) return 'Sphere needs a + or - sign';
+  const sphereError = checkRxLimit('sphere', sphere);
+  if (sphereError) return sphereError;
+
+  const cylinder = cylinderText ? Number(cylinderText) : 0;
+  if (cylinder === 0) return null;
+  if (!/^[+-]/.test(cylinderText)) return 'Cylinder needs a + or - sign';
+  const cylinderError = checkRxLimit('cylinder', cylinder);
+  if (cylinderError) return cylinderError;
+  if (axisText === undefined) return 'Axis is required with a cylinder';
+  // Axis 0 is written for 180
+  return Number(axisText) === 0 ? null : checkRxLimit('axis', Number(axisText));
+};
+
+/**
+ * Problem with a reading addition ("+2.00", "2.00", "Add +2.00"), or null
+ */
+const checkAdd = (text) => {
+  const value = String(text).trim().toUpperCase().replace(/^ADD\s*:?\s*/, '').replace(/\s*D$/, '');
+  if (!new RegExp(`^${RX_POWER}$`).test(value)) return 'Could not read the add; use a form like +2.00';
+  return checkRxLimit('add', Number(value));
+};
+
+const hasText = (value) => typeof value === 'string' && value.trim().length > 0;
+
 /**
  * Validate prescription data
  */
 export const validatePrescription = (prescriptionData) => {
   const errors = {};
 
-  // OD validation (optional but if provided must be valid)
-  if (prescriptionData.od && prescriptionData.od.trim().length > 0) {
-    if (!VALIDATION_PATTERNS.prescription.test(prescriptionData.od)) {
-      errors.od = 'Invalid OD prescription format';
-    }
-  }
-
-  // OS validation (optional but if provided must be valid)
-  if (prescriptionData.os && prescriptionData.os.trim().length > 0) {
-    if (!VALIDATION_PATTERNS.prescription.test(prescriptionData.os)) {
-      errors.os = 'Invalid OS prescription format';
+  // OD / OS are optional but if provided must be a readable, dispensable Rx
+  for (const eye of ['od', 'os']) {
+    if (hasText(prescriptionData[eye])) {
+      const error = checkRx(prescriptionData[eye]);
+      if (error) errors[eye] = `${eye.toUpperCase()}: ${error}`;
     }
   }
 
-  // Addition validation (optional)
-  if (prescriptionData.add && prescriptionData.add.trim().length > 0) {
-    if (!VALIDATION_PATTERNS.prescription.test(prescriptionData.add)) {
-      errors.add = 'Invalid ADD prescription format';
+  // Additions (optional), per eye or one for both
+  for (const field of ['addOd', 'addOs', 'add']) {
+    if (hasText(prescriptionData[field])) {
+      const error = checkAdd(prescriptionData[field]);
+      if (error) errors[field] = error;
     }
   }
 
@@ -275,6 +359,24 @@ export const validateBillItem = (billItemData) => {
   };
 };
 
+/**
+ * Validate every item on a bill before any of it is written, so a bad line is reported
+ * instead of silently dropped from a rewritten bill
+ */
+export const validateBillItems = (items) => {
+  const invalidItems = [];
+  items.forEach((item, index) => {
+    const result = validateBillItem(item || {});
+    if (!result.isValid) {
+      invalidItems.push({ index, id: item?.id, description: item?.description, errors: result.errors });
+    }
+  });
+  return {
+    isValid: invalidItems.length === 0,
+    invalidItems,
+  };
+};
+
 /**
  * Validate appointment data
  */
@@ -0,0 +1,170 @@
+/**
+ * Appointment Waitlist Module
+ * Patients waiting for an earlier appointment than the book can give them. When a slot
+ * is freed the matching entries are offered it in priority order: emergencies first,
+ * then whoever has waited longest.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { APPOINTMENT_DURATIONS, createAppointment } from './appointments.js';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+);
+
+const WAITLIST_SELECT = '*, patients(name, phone), providers(name)';
+
+const PRIORITY_RANK = { Emergency: 0, Normal: 1 };
+
+const byPriority = (a, b) =>
+  (PRIORITY_RANK[a.priority] ?? 1) - (PRIORITY_RANK[b.priority] ?? 1) || a.created_at.localeCompare(b.created_at);
+
+/**
+ * Patients still waiting, in the order they are offered slots
+ */
+export const getWaitlist = async () => {
+  try {
+    const { data, error } = await supabase
+      .from('appointment_waitlist')
+      .select(WAITLIST_SELECT)
+      .eq('status', 'WAITING');
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, entries: (data || []).sort(byPriority) };
+  } catch (error) {
+    console.error('Error getting waitlist:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Put a patient on the waitlist for an appointment type, with any provider or one in particular
+ */
+export const addToWaitlist = async ({ patientId, appointmentType, providerId, earliestDate, latestDate, priority, notes }, userId) => {
+  try {
+    const { data: existing } = await supabase
+      .from('appointment_waitlist')
+      .select('id')
+      .eq('patient_id', patientId)
+      .eq('appointment_type', appointmentType)
+      .eq('status', 'WAITING')
+      .limit(1);
+    if (existing && existing.length > 0) {
+      return { success: false, error: 'The patient is already waiting for this appointment type' };
+    }
+
+    const { data, error } = await supabase
+      .from('appointment_waitlist')
+      .insert({
+        patient_id: patientId,
+        appointment_type: appointmentType,
+        provider_id: providerId || null,
+        earliest_date: earliestDate,
+        latest_date: latestDate || null,
+        priority: priority || 'Normal',
+        notes: notes || null,
+        created_by: userId,
+      })
+      .select(WAITLIST_SELECT)
+      .single();
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, entry: data };
+  } catch (error) {
+    console.error('Error adding to waitlist:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Take a patient off the waitlist without booking them
+ */
+export const removeFromWaitlist = async (entryId, userId) => {
+  try {
+    const { data, error } = await supabase
+      .from('appointment_waitlist')
+      .update({ status: 'REMOVED', resolved_by: userId, resolved_at: new Date().toISOString() })
+      .eq('id', entryId)
+      .eq('status', 'WAITING')
+      .select(WAITLIST_SELECT)
+      .maybeSingle();
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    if (!data) {
+      return { success: false, error: 'Waitlist entry not found or no longer waiting' };
+    }
+    return { success: true, entry: data };
+  } catch (error) {
+    console.error('Error removing from waitlist:', error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Waiting patients a freed slot suits, in priority order: the slot is with a provider
+ * they accept, inside their dates and long enough for their appointment type
+ */
+export const getWaitlistOffers = async ({ providerId, date, durationMinutes }) => {
+  const result = await getWaitlist();
+  if (!result.success) {
+    return result;
+  }
+  const offers = result.entries.filter((entry) =>
+    (!entry.provider_id || entry.provider_id === providerId) &&
+    entry.earliest_date <= date &&
+    (!entry.latest_date || entry.latest_date >= date) &&
+    (APPOINTMENT_DURATIONS[entry.appointment_type] || Infinity) <= durationMinutes
+  );
+  return { success: true, offers };
+};
+
+/**
+ * Book a waiting patient into a slot and close their waitlist entry
+ */
+export const bookFromWaitlist = async (entryId, { providerId, date, time, reminderLanguage }, userId) => {
+  try {
+    const { data: entry } = await supabase
+      .from('appointment_waitlist')
+      .select('*')
+      .eq('id', entryId)
+      .maybeSingle();
+    if (!entry || entry.status !== 'WAITING') {
+      return { success: false, error: 'Waitlist entry not found or no longer waiting' };
+    }
+
+    const booked = await createAppointment({
+      patientId: entry.patient_id,
+      providerId: providerId || entry.provider_id,
+      appointmentType: entry.appointment_type,
+      date,
+      time,
+      priority: entry.priority,
+      notes: entry.notes,
+      reminderLanguage,
+    }, userId);
+    if (!booked.success) {
+      return booked;
+    }
+
+    const { error } = await supabase
+      .from('appointment_waitlist')
+      .update({
+        status: 'BOOKED',
+        appointment_id: booked.appointment.id,
+        resolved_by: userId,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', entryId);
+    if (error) {
+      console.error('Error closing waitlist entry:', error);
+    }
+    return { success: true, appointment: booked.appointment };
+  } catch (error) {
+    console.error('Error booking from waitlist:', error);
+    return { success: false, error: error.message };
+  }
+};
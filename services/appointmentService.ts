@@ -0,0 +1,729 @@
+/**
+ * Appointment Service
+ * The appointment book: bookings per provider, free slots, reschedules, cancellations,
+ * check-in, the waitlist and each provider's weekly working template
+ */
+
+import {
+  Appointment,
+  AppointmentType,
+  AppointmentPriority,
+  AppointmentStatus,
+  AppointmentSlot,
+  AppointmentHistoryEntry,
+  ProviderScheduleBlock,
+  AppointmentReminder,
+  ReminderLanguage,
+  WaitlistEntry,
+  NoShowReport,
+  NoShowReportRow,
+} from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+// Postgres returns TIME as HH:MM:SS; the UI works in HH:MM
+const toHHMM = (time?: string | null): string | undefined => (time ? time.slice(0, 5) : undefined);
+
+/**
+ * Map appointment reminder from API (snake_case) to frontend shape
+ */
+const mapReminder = (r: any): AppointmentReminder => ({
+  id: r.id,
+  kind: r.kind,
+  status: r.status,
+  sendAt: r.send_at,
+  sentAt: r.sent_at || undefined,
+  deliveredAt: r.delivered_at || undefined,
+  lastError: r.last_error || undefined,
+});
+
+/**
+ * Map appointment from API (snake_case) to frontend shape
+ */
+const mapAppointment = (a: any): Appointment => ({
+  id: a.id,
+  patientId: a.patient_id,
+  appointmentType: a.appointment_type as AppointmentType,
+  appointmentDate: a.appointment_date,
+  appointmentTime: toHHMM(a.appointment_time) || '',
+  priority: (a.priority || AppointmentPriority.NORMAL) as AppointmentPriority,
+  assignedDoctorId: a.assigned_doctor_id || undefined,
+  assignedDepartment: a.assigned_department || undefined,
+  status: a.status as AppointmentStatus,
+  providerId: a.provider_id || undefined,
+  providerName: a.providers?.name || undefined,
+  patientName: a.patients?.name || undefined,
+  patientPhone: a.patients?.phone || undefined,
+  durationMinutes: a.duration_minutes ?? undefined,
+  notes: a.notes || undefined,
+  cancelReason: a.cancel_reason || undefined,
+  checkedInAt: a.checked_in_at || undefined,
+  reminderLanguage: a.reminder_language || undefined,
+  reminders: a.appointment_reminders ? a.appointment_reminders.map(mapReminder) : undefined,
+});
+
+/**
+ * Map appointment history entry from API (snake_case) to frontend shape
+ */
+const mapHistoryEntry = (h: any): AppointmentHistoryEntry => ({
+  id: h.id,
+  appointmentId: h.appointment_id,
+  action: h.action,
+  fromDate: h.from_date || undefined,
+  fromTime: toHHMM(h.from_time),
+  fromProviderId: h.from_provider_id || undefined,
+  toDate: h.to_date || undefined,
+  toTime: toHHMM(h.to_time),
+  toProviderId: h.to_provider_id || undefined,
+  fromStatus: h.from_status || undefined,
+  toStatus: h.to_status || undefined,
+  reason: h.reason || undefined,
+  changedBy: h.changed_by || undefined,
+  changedAt: h.changed_at,
+});
+
+/**
+ * Map provider schedule block from API (snake_case) to frontend shape
+ */
+const mapScheduleBlock = (t: any): ProviderScheduleBlock => ({
+  id: t.id,
+  providerId: t.provider_id,
+  weekday: t.weekday,
+  startTime: toHHMM(t.start_time) || '',
+  endTime: toHHMM(t.end_time) || '',
+});
+
+/**
+ * Map waitlist entry from API (snake_case) to frontend shape
+ */
+const mapWaitlistEntry = (w: any): WaitlistEntry => ({
+  id: w.id,
+  patientId: w.patient_id,
+  patientName: w.patients?.name || undefined,
+  patientPhone: w.patients?.phone || undefined,
+  appointmentType: w.appointment_type as AppointmentType,
+  providerId: w.provider_id || undefined,
+  providerName: w.providers?.name || undefined,
+  earliestDate: w.earliest_date,
+  latestDate: w.latest_date || undefined,
+  priority: (w.priority || AppointmentPriority.NORMAL) as AppointmentPriority,
+  notes: w.notes || undefined,
+  status: w.status,
+  createdAt: w.created_at,
+});
+
+const mapNoShowRow = (r: any): NoShowReportRow => ({
+  key: r.key,
+  label: r.label,
+  due: r.due,
+  attended: r.attended,
+  late: r.late,
+  noShows: r.no_shows,
+  noShowRate: r.no_show_rate,
+});
+
+/**
+ * Appointments between two dates (inclusive), optionally for one provider
+ */
+export const getAppointments = async (
+  from: string,
+  to: string,
+  providerId?: string
+): Promise<{ success: boolean; appointments?: Appointment[]; error?: string }> => {
+  try {
+    const params = new URLSearchParams({ from, to });
+    if (providerId) params.set('providerId', providerId);
+
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch appointments' };
+    }
+
+    const data = await response.json();
+    return { success: true, appointments: (data.appointments || []).map(mapAppointment) };
+  } catch (error: any) {
+    console.error('Error fetching appointments:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * All of a patient's appointments
+ */
+export const getPatientAppointments = async (
+  patientId: string
+): Promise<{ success: boolean; appointments?: Appointment[]; error?: string }> => {
+  try {
+    const params = new URLSearchParams({ patientId });
+
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch appointments' };
+    }
+
+    const data = await response.json();
+    return { success: true, appointments: (data.appointments || []).map(mapAppointment) };
+  } catch (error: any) {
+    console.error('Error fetching patient appointments:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Free start times with a provider on a date for an appointment type
+ */
+export const getAvailableSlots = async (
+  providerId: string,
+  date: string,
+  appointmentType: AppointmentType
+): Promise<{ success: boolean; slots?: AppointmentSlot[]; durationMinutes?: number; error?: string }> => {
+  try {
+    const params = new URLSearchParams({ providerId, date, appointmentType });
+
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments/slots?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch available slots' };
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      slots: (data.slots || []).map((s: any) => ({ time: s.time, endTime: s.end_time })),
+      durationMinutes: data.durationMinutes,
+    };
+  } catch (error: any) {
+    console.error('Error fetching available slots:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Book an appointment with a provider
+ */
+export const bookAppointment = async (booking: {
+  patientId: string;
+  providerId: string;
+  appointmentType: AppointmentType;
+  date: string;
+  time: string;
+  priority?: AppointmentPriority;
+  notes?: string;
+  reminderLanguage?: ReminderLanguage;
+}): Promise<{ success: boolean; appointment?: Appointment; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(booking),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to book appointment' };
+    }
+
+    const data = await response.json();
+    return { success: true, appointment: mapAppointment(data.appointment) };
+  } catch (error: any) {
+    console.error('Error booking appointment:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Move an appointment to another date, time or provider
+ */
+export const rescheduleAppointment = async (
+  appointmentId: string,
+  change: { date: string; time: string; providerId?: string; reason?: string }
+): Promise<{ success: boolean; appointment?: Appointment; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments/${encodeURIComponent(appointmentId)}/reschedule`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(change),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to reschedule appointment' };
+    }
+
+    const data = await response.json();
+    return { success: true, appointment: mapAppointment(data.appointment) };
+  } catch (error: any) {
+    console.error('Error rescheduling appointment:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Cancel an appointment
+ */
+export const cancelAppointment = async (
+  appointmentId: string,
+  reason: string
+): Promise<{ success: boolean; appointment?: Appointment; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments/${encodeURIComponent(appointmentId)}/cancel`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ reason }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to cancel appointment' };
+    }
+
+    const data = await response.json();
+    return { success: true, appointment: mapAppointment(data.appointment) };
+  } catch (error: any) {
+    console.error('Error cancelling appointment:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Mark an appointment confirmed or completed
+ */
+export const updateAppointmentStatus = async (
+  appointmentId: string,
+  status: 'CONFIRMED' | 'COMPLETED'
+): Promise<{ success: boolean; appointment?: Appointment; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments/${encodeURIComponent(appointmentId)}/status`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ status }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to update appointment' };
+    }
+
+    const data = await response.json();
+    return { success: true, appointment: mapAppointment(data.appointment) };
+  } catch (error: any) {
+    console.error('Error updating appointment status:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Bookings, reschedules, cancellations and status changes of an appointment
+ */
+export const getAppointmentHistory = async (
+  appointmentId: string
+): Promise<{ success: boolean; history?: AppointmentHistoryEntry[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments/${encodeURIComponent(appointmentId)}/history`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch appointment history' };
+    }
+
+    const data = await response.json();
+    return { success: true, history: (data.history || []).map(mapHistoryEntry) };
+  } catch (error: any) {
+    console.error('Error fetching appointment history:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Weekly working templates, for all providers or one
+ */
+export const getProviderSchedules = async (
+  providerId?: string
+): Promise<{ success: boolean; templates?: ProviderScheduleBlock[]; error?: string }> => {
+  try {
+    const query = providerId ? `?${new URLSearchParams({ providerId })}` : '';
+
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/provider-schedules${query}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch provider schedules' };
+    }
+
+    const data = await response.json();
+    return { success: true, templates: (data.templates || []).map(mapScheduleBlock) };
+  } catch (error: any) {
+    console.error('Error fetching provider schedules:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Replace a provider's weekly working template (managers and admins)
+ */
+export const saveProviderSchedule = async (
+  providerId: string,
+  blocks: Array<Pick<ProviderScheduleBlock, 'weekday' | 'startTime' | 'endTime'>>
+): Promise<{ success: boolean; templates?: ProviderScheduleBlock[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/provider-schedules/${encodeURIComponent(providerId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ blocks: blocks.map(({ weekday, startTime, endTime }) => ({ weekday, startTime, endTime })) }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to save provider schedule' };
+    }
+
+    const data = await response.json();
+    return { success: true, templates: (data.templates || []).map(mapScheduleBlock) };
+  } catch (error: any) {
+    console.error('Error saving provider schedule:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Check the patient in for today's appointment
+ */
+export const checkInAppointment = async (
+  appointmentId: string
+): Promise<{ success: boolean; appointment?: Appointment; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments/${encodeURIComponent(appointmentId)}/check-in`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to check in appointment' };
+    }
+
+    const data = await response.json();
+    return { success: true, appointment: mapAppointment(data.appointment) };
+  } catch (error: any) {
+    console.error('Error checking in appointment:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * No-show rate by provider and appointment type between two dates (inclusive)
+ */
+export const getNoShowReport = async (
+  from: string,
+  to: string
+): Promise<{ success: boolean; report?: NoShowReport; error?: string }> => {
+  try {
+    const params = new URLSearchParams({ from, to });
+
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointments/no-show-report?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch no-show report' };
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      report: {
+        from: data.report.from,
+        to: data.report.to,
+        totals: mapNoShowRow(data.report.totals),
+        byProvider: (data.report.by_provider || []).map(mapNoShowRow),
+        byType: (data.report.by_type || []).map(mapNoShowRow),
+      },
+    };
+  } catch (error: any) {
+    console.error('Error fetching no-show report:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Patients waiting for an earlier appointment, in the order they are offered slots
+ */
+export const getWaitlist = async (): Promise<{ success: boolean; entries?: WaitlistEntry[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointment-waitlist`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch waitlist' };
+    }
+
+    const data = await response.json();
+    return { success: true, entries: (data.entries || []).map(mapWaitlistEntry) };
+  } catch (error: any) {
+    console.error('Error fetching waitlist:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Waiting patients a freed slot suits, in priority order
+ */
+export const getWaitlistOffers = async (
+  providerId: string,
+  date: string,
+  durationMinutes: number
+): Promise<{ success: boolean; offers?: WaitlistEntry[]; error?: string }> => {
+  try {
+    const params = new URLSearchParams({ providerId, date, durationMinutes: String(durationMinutes) });
+
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointment-waitlist/offers?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch waitlist offers' };
+    }
+
+    const data = await response.json();
+    return { success: true, offers: (data.offers || []).map(mapWaitlistEntry) };
+  } catch (error: any) {
+    console.error('Error fetching waitlist offers:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Put a patient on the waitlist
+ */
+export const addToWaitlist = async (entry: {
+  patientId: string;
+  appointmentType: AppointmentType;
+  providerId?: string;
+  earliestDate: string;
+  latestDate?: string;
+  priority?: AppointmentPriority;
+  notes?: string;
+}): Promise<{ success: boolean; entry?: WaitlistEntry; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointment-waitlist`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(entry),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to add to waitlist' };
+    }
+
+    const data = await response.json();
+    return { success: true, entry: mapWaitlistEntry(data.entry) };
+  } catch (error: any) {
+    console.error('Error adding to waitlist:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Take a patient off the waitlist
+ */
+export const removeFromWaitlist = async (
+  entryId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointment-waitlist/${encodeURIComponent(entryId)}/remove`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to remove from waitlist' };
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error removing from waitlist:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Book a waiting patient into a slot
+ */
+export const bookFromWaitlist = async (
+  entryId: string,
+  slot: { providerId: string; date: string; time: string; reminderLanguage?: ReminderLanguage }
+): Promise<{ success: boolean; appointment?: Appointment; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/appointment-waitlist/${encodeURIComponent(entryId)}/book`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(slot),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to book from waitlist' };
+    }
+
+    const data = await response.json();
+    return { success: true, appointment: mapAppointment(data.appointment) };
+  } catch (error: any) {
+    console.error('Error booking from waitlist:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
@@ -0,0 +1,180 @@
+/**
+ * Bill Adjustment Service
+ * Requests voids and credit notes against bill items and lets a manager approve or reject them
+ */
+
+import { BillAdjustment, BillAdjustmentType, PaymentMethod } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Map adjustment row from API (snake_case) to frontend shape
+ */
+const mapAdjustment = (a: any): BillAdjustment => ({
+  id: a.id,
+  adjustmentNumber: a.adjustment_number,
+  type: a.type,
+  status: a.status,
+  visitId: a.visit_id,
+  patientId: a.patient_id,
+  patientName: a.patients?.name || undefined,
+  billItemId: a.bill_item_ref,
+  description: a.description,
+  category: a.category,
+  itemAmount: parseFloat(a.item_amount) || 0,
+  amount: parseFloat(a.amount) || 0,
+  refundAmount: parseFloat(a.refund_amount) || 0,
+  refundMethod: a.refund_method || undefined,
+  reason: a.reason,
+  requestedBy: a.requested_by,
+  requestedAt: a.requested_at,
+  decidedBy: a.decided_by || undefined,
+  decidedAt: a.decided_at || undefined,
+  decisionNotes: a.decision_notes || undefined,
+});
+
+/**
+ * Get voids and credit notes requested against a visit
+ */
+export const getVisitAdjustments = async (
+  visitId: string
+): Promise<{ success: boolean; adjustments?: BillAdjustment[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${visitId}/adjustments`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch adjustments' };
+    }
+
+    const data = await response.json();
+    return { success: true, adjustments: (data.adjustments || []).map(mapAdjustment) };
+  } catch (error: any) {
+    console.error('Error fetching visit adjustments:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Request a void or credit note for a bill item (applied once a manager approves)
+ */
+export const requestBillAdjustment = async (
+  visitId: string,
+  request: {
+    billItemId: string;
+    type: BillAdjustmentType;
+    reason: string;
+    amount?: number;
+    refundMethod?: Exclude<PaymentMethod, 'INSURANCE'>;
+  }
+): Promise<{ success: boolean; adjustment?: BillAdjustment; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${visitId}/adjustments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to request adjustment' };
+    }
+
+    const data = await response.json();
+    return { success: true, adjustment: mapAdjustment(data.adjustment) };
+  } catch (error: any) {
+    console.error('Error requesting bill adjustment:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * List voids and credit notes by status and request date (YYYY-MM-DD)
+ */
+export const getBillAdjustments = async (
+  filters: { status?: BillAdjustment['status']; from?: string; to?: string } = {}
+): Promise<{ success: boolean; adjustments?: BillAdjustment[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const params = new URLSearchParams();
+    if (filters.status) params.set('status', filters.status);
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+
+    const response = await fetch(`${API_BASE_URL}/api/bill-adjustments?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch adjustments' };
+    }
+
+    const data = await response.json();
+    return { success: true, adjustments: (data.adjustments || []).map(mapAdjustment) };
+  } catch (error: any) {
+    console.error('Error fetching bill adjustments:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Approve or reject a pending adjustment (notes are required to reject)
+ */
+export const decideBillAdjustment = async (
+  adjustmentId: string,
+  approve: boolean,
+  notes?: string
+): Promise<{ success: boolean; adjustment?: BillAdjustment; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/bill-adjustments/${adjustmentId}/${approve ? 'approve' : 'reject'}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ notes }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || `Failed to ${approve ? 'approve' : 'reject'} adjustment` };
+    }
+
+    const data = await response.json();
+    return { success: true, adjustment: mapAdjustment(data.adjustment) };
+  } catch (error: any) {
+    console.error('Error deciding bill adjustment:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
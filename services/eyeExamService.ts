@@ -0,0 +1,229 @@
+/**
+ * Eye Exam Service
+ * The structured examination recorded at each encounter, per eye and in fixed units,
+ * and each patient's target IOP band
+ */
+
+import { EyeExam, EyeExamEye, IopTarget } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+// Postgres NUMERIC columns arrive as strings
+const toNumber = (value: any): number | undefined =>
+  value === null || value === undefined || value === '' ? undefined : Number(value);
+
+const mapEye = (e: any, eye: 'od' | 'os'): EyeExamEye => ({
+  vaDistance: e[`va_distance_${eye}`] || undefined,
+  vaNear: e[`va_near_${eye}`] || undefined,
+  vaPinhole: e[`va_pinhole_${eye}`] || undefined,
+  vaBestCorrected: e[`va_best_corrected_${eye}`] || undefined,
+  iopMmHg: toNumber(e[`iop_${eye}`]),
+  pupilSizeMm: toNumber(e[`pupil_size_${eye}`]),
+  pupilReaction: e[`pupil_reaction_${eye}`] || undefined,
+  cupDiscRatio: toNumber(e[`cup_disc_ratio_${eye}`]),
+  sphere: toNumber(e[`sphere_${eye}`]),
+  cylinder: toNumber(e[`cylinder_${eye}`]),
+  axis: toNumber(e[`axis_${eye}`]),
+  add: toNumber(e[`add_${eye}`]),
+  prism: toNumber(e[`prism_${eye}`]),
+  prismBase: e[`prism_base_${eye}`] || undefined,
+});
+
+/**
+ * Map eye exam from API (snake_case) to frontend shape
+ */
+const mapEyeExam = (e: any): EyeExam => ({
+  id: e.id,
+  visitId: e.visit_id,
+  patientId: e.patient_id,
+  providerId: e.provider_id || undefined,
+  visitDate: e.visits?.visit_date || undefined,
+  od: mapEye(e, 'od'),
+  os: mapEye(e, 'os'),
+  tonometryMethod: e.tonometry_method || undefined,
+  isDilated: !!e.is_dilated,
+  pupillaryDistanceMm: toNumber(e.pupillary_distance_mm),
+  pupils: e.pupils || undefined,
+  extraocularMovements: e.extraocular_movements || undefined,
+  anteriorSegment: e.anterior_segment || undefined,
+  posteriorSegment: e.posterior_segment || undefined,
+  slitLamp: e.slit_lamp || undefined,
+  createdAt: e.created_at,
+  updatedAt: e.updated_at,
+});
+
+/**
+ * Map IOP target from API (snake_case) to frontend shape
+ */
+const mapIopTarget = (t: any): IopTarget => ({
+  patientId: t.patient_id,
+  od: { low: toNumber(t.od_low), high: toNumber(t.od_high) },
+  os: { low: toNumber(t.os_low), high: toNumber(t.os_high) },
+  notes: t.notes || undefined,
+  setBy: t.set_by || undefined,
+  updatedAt: t.updated_at || undefined,
+});
+
+/**
+ * The exam recorded at a visit; exam is null when none has been saved yet
+ */
+export const getEyeExam = async (
+  visitId: string
+): Promise<{ success: boolean; exam?: EyeExam | null; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${encodeURIComponent(visitId)}/eye-exam`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch eye exam' };
+    }
+
+    const data = await response.json();
+    return { success: true, exam: data.exam ? mapEyeExam(data.exam) : null };
+  } catch (error: any) {
+    console.error('Error fetching eye exam:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Record or replace the exam for a visit. errors holds per-field messages keyed like
+ * od.iopMmHg when the server rejects a value.
+ */
+export const saveEyeExam = async (
+  visitId: string,
+  exam: Omit<EyeExam, 'id' | 'visitId' | 'patientId'>
+): Promise<{ success: boolean; exam?: EyeExam; error?: string; errors?: Record<string, string> }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${encodeURIComponent(visitId)}/eye-exam`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(exam),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to save eye exam', errors: errorData.errors };
+    }
+
+    const data = await response.json();
+    return { success: true, exam: mapEyeExam(data.exam) };
+  } catch (error: any) {
+    console.error('Error saving eye exam:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Every exam for a patient, oldest first
+ */
+export const getPatientEyeExams = async (
+  patientId: string
+): Promise<{ success: boolean; exams?: EyeExam[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/patients/${encodeURIComponent(patientId)}/eye-exams`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch eye exams' };
+    }
+
+    const data = await response.json();
+    return { success: true, exams: (data.exams || []).map(mapEyeExam) };
+  } catch (error: any) {
+    console.error('Error fetching eye exams:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * A patient's target IOP band; target is null when none has been set
+ */
+export const getIopTarget = async (
+  patientId: string
+): Promise<{ success: boolean; target?: IopTarget | null; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/patients/${encodeURIComponent(patientId)}/iop-target`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch IOP target' };
+    }
+
+    const data = await response.json();
+    return { success: true, target: data.target ? mapIopTarget(data.target) : null };
+  } catch (error: any) {
+    console.error('Error fetching IOP target:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Set a patient's target IOP band
+ */
+export const saveIopTarget = async (
+  patientId: string,
+  target: Pick<IopTarget, 'od' | 'os' | 'notes'>
+): Promise<{ success: boolean; target?: IopTarget; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/patients/${encodeURIComponent(patientId)}/iop-target`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(target),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to save IOP target' };
+    }
+
+    const data = await response.json();
+    return { success: true, target: mapIopTarget(data.target) };
+  } catch (error: any) {
+    console.error('Error saving IOP target:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
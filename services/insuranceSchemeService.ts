@@ -0,0 +1,139 @@
+/**
+ * Insurance Scheme Service
+ * Reads private insurer benefit schemes and lets administrators maintain their rules
+ */
+
+import { InsuranceScheme } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+type SchemeRules = Partial<Omit<InsuranceScheme, 'id' | 'insurer' | 'code' | 'annualOpticalLimit' | 'frameCap' | 'lensCap'>> & {
+  annualOpticalLimit?: number | null;
+  frameCap?: number | null;
+  lensCap?: number | null;
+};
+
+const toAmount = (value: any): number | undefined =>
+  value === null || value === undefined ? undefined : parseFloat(value);
+
+/**
+ * Map scheme row from API (snake_case) to frontend shape
+ */
+const mapScheme = (s: any): InsuranceScheme => ({
+  id: s.id,
+  insurer: s.insurer,
+  code: s.scheme_code,
+  name: s.name,
+  coverage: {
+    CLINICAL: parseFloat(s.coverage_clinical) || 0,
+    PHARMACY: parseFloat(s.coverage_pharmacy) || 0,
+    OPTICAL: parseFloat(s.coverage_optical) || 0,
+  },
+  annualOpticalLimit: toAmount(s.annual_optical_limit),
+  frameCap: toAmount(s.frame_cap),
+  lensCap: toAmount(s.lens_cap),
+  copayAmount: parseFloat(s.copay_amount) || 0,
+  excludedCodes: s.excluded_codes || [],
+  isActive: s.is_active !== false,
+});
+
+/**
+ * Get benefit schemes; inactive schemes are only returned to administrators
+ */
+export const getInsuranceSchemes = async (
+  includeInactive = false
+): Promise<{ success: boolean; schemes?: InsuranceScheme[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/insurance-schemes${includeInactive ? '?includeInactive=true' : ''}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch insurance schemes' };
+    }
+
+    const data = await response.json();
+    return { success: true, schemes: (data.schemes || []).map(mapScheme) };
+  } catch (error: any) {
+    console.error('Error fetching insurance schemes:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Add a benefit scheme for a private insurer
+ */
+export const createInsuranceScheme = async (
+  scheme: SchemeRules & Pick<InsuranceScheme, 'insurer' | 'code' | 'name'>
+): Promise<{ success: boolean; scheme?: InsuranceScheme; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/insurance-schemes`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(scheme),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to create scheme' };
+    }
+
+    const data = await response.json();
+    return { success: true, scheme: mapScheme(data.scheme) };
+  } catch (error: any) {
+    console.error('Error creating insurance scheme:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Change a scheme's benefit rules (null clears a cap or limit)
+ */
+export const updateInsuranceScheme = async (
+  schemeId: string,
+  rules: SchemeRules
+): Promise<{ success: boolean; scheme?: InsuranceScheme; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/insurance-schemes/${schemeId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(rules),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to update scheme' };
+    }
+
+    const data = await response.json();
+    return { success: true, scheme: mapScheme(data.scheme) };
+  } catch (error: any) {
+    console.error('Error updating insurance scheme:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
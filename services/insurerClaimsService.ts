@@ -0,0 +1,227 @@
+/**
+ * Insurer Claims Service
+ * Builds private insurer claim batches by insurer and period and tracks each claim's outcome
+ */
+
+import { ClaimableInsurerVisit, InsurerClaimBatch, InsurerClaim, InsurerClaimStatus, InsuranceProvider } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Map claim row from API (snake_case) to frontend shape
+ */
+const mapClaim = (c: any): InsurerClaim => ({
+  id: c.id,
+  batchId: c.batch_id,
+  visitId: c.visit_id,
+  patientId: c.patient_id,
+  claimNo: c.claim_no,
+  memberNumber: c.member_number || undefined,
+  memberName: c.member_name || undefined,
+  insuranceSchemeId: c.insurance_scheme_id || undefined,
+  visitDate: c.visit_date,
+  items: Array.isArray(c.items) ? c.items : [],
+  preauthReferences: c.preauth_references || [],
+  billAmount: parseFloat(c.bill_amount) || 0,
+  totalAmount: parseFloat(c.total_amount) || 0,
+  status: c.status,
+  queryNotes: c.query_notes || undefined,
+  rejectionReason: c.rejection_reason || undefined,
+  paidAmount: c.paid_amount != null ? parseFloat(c.paid_amount) : undefined,
+  paidAt: c.paid_at || undefined,
+  submittedAt: c.submitted_at || undefined,
+});
+
+/**
+ * Map batch row from API (snake_case) to frontend shape
+ */
+const mapBatch = (b: any): InsurerClaimBatch => ({
+  id: b.id,
+  batchNumber: b.batch_number,
+  insurer: b.insurer,
+  periodStart: b.period_start,
+  periodEnd: b.period_end,
+  status: b.status,
+  claimCount: b.claim_count ?? 0,
+  totalAmount: parseFloat(b.total_amount) || 0,
+  submissionReference: b.submission_reference || undefined,
+  submittedAt: b.submitted_at || undefined,
+  claims: (b.insurer_claims || [])
+    .map(mapClaim)
+    .sort((a: InsurerClaim, c: InsurerClaim) => a.claimNo - c.claimNo),
+});
+
+/**
+ * Get completed visits billed to an insurer in a period (YYYY-MM-DD) that have not been claimed
+ */
+export const getClaimableInsurerVisits = async (
+  insurer: InsuranceProvider,
+  from: string,
+  to: string
+): Promise<{ success: boolean; visits?: ClaimableInsurerVisit[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const params = new URLSearchParams({ insurer, from, to });
+    const response = await fetch(`${API_BASE_URL}/api/insurer-claims/claimable?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch claimable visits' };
+    }
+
+    const data = await response.json();
+    return { success: true, visits: data.visits || [] };
+  } catch (error: any) {
+    console.error('Error fetching claimable insurer visits:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * List claim batches with their claims, optionally for one insurer
+ */
+export const getInsurerClaimBatches = async (
+  insurer?: InsuranceProvider
+): Promise<{ success: boolean; batches?: InsurerClaimBatch[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const query = insurer ? `?insurer=${encodeURIComponent(insurer)}` : '';
+    const response = await fetch(`${API_BASE_URL}/api/insurer-claims/batches${query}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch claim batches' };
+    }
+
+    const data = await response.json();
+    return { success: true, batches: (data.batches || []).map(mapBatch) };
+  } catch (error: any) {
+    console.error('Error fetching insurer claim batches:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Create (or extend) the draft batch for an insurer and period
+ */
+export const createInsurerClaimBatch = async (
+  insurer: InsuranceProvider,
+  from: string,
+  to: string
+): Promise<{ success: boolean; addedClaims?: number; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/insurer-claims/batches`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ insurer, from, to }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to create claim batch' };
+    }
+
+    const data = await response.json();
+    return { success: true, addedClaims: data.addedClaims };
+  } catch (error: any) {
+    console.error('Error creating insurer claim batch:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Mark a draft batch as submitted to the insurer
+ */
+export const submitInsurerClaimBatch = async (
+  batchId: string,
+  submissionReference?: string
+): Promise<{ success: boolean; submittedClaims?: number; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/insurer-claims/batches/${batchId}/submit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ submissionReference }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to submit claim batch' };
+    }
+
+    const data = await response.json();
+    return { success: true, submittedClaims: data.submittedClaims };
+  } catch (error: any) {
+    console.error('Error submitting insurer claim batch:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Record the insurer's response on a claim, or resubmit it after answering a query
+ */
+export const updateInsurerClaimStatus = async (
+  claimId: string,
+  status: Exclude<InsurerClaimStatus, 'PENDING'>,
+  details: { reason?: string; paidAmount?: number } = {}
+): Promise<{ success: boolean; claim?: InsurerClaim; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/insurer-claims/${claimId}/status`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ status, ...details }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to update claim' };
+    }
+
+    const data = await response.json();
+    return { success: true, claim: mapClaim(data.claim) };
+  } catch (error: any) {
+    console.error('Error updating insurer claim:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
@@ -0,0 +1,358 @@
+/**
+ * Pharmacy Inventory Service
+ * Goods received notes, medication batches, stock adjustments, FEFO dispensing and the stock ledger
+ */
+
+import {
+  MedicationBatch,
+  StockMovement,
+  GoodsReceivedNote,
+  GoodsReceivedItem,
+  StockAdjustmentReason,
+  StockAllocation,
+  LowStockAlert,
+  ExpiryAlert,
+} from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+export const STOCK_ADJUSTMENT_REASONS: { value: StockAdjustmentReason; label: string }[] = [
+  { value: 'DAMAGED', label: 'Damaged' },
+  { value: 'EXPIRED', label: 'Expired (write-off)' },
+  { value: 'LOST', label: 'Lost / Missing' },
+  { value: 'COUNT_CORRECTION', label: 'Stock count correction' },
+  { value: 'RETURNED_TO_SUPPLIER', label: 'Returned to supplier' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+/**
+ * Map batch row from API (snake_case) to frontend shape
+ */
+const mapBatch = (b: any): MedicationBatch => ({
+  id: b.id,
+  medicationId: b.medication_id,
+  batchNo: b.batch_no,
+  expiryDate: b.expiry_date || undefined,
+  quantityReceived: b.quantity_received ?? 0,
+  quantityRemaining: b.quantity_remaining ?? 0,
+  unitCost: b.unit_cost != null ? parseFloat(b.unit_cost) : undefined,
+  grnId: b.grn_id || undefined,
+});
+
+/**
+ * Map ledger row from API (snake_case) to frontend shape
+ */
+const mapMovement = (m: any): StockMovement => ({
+  id: m.id,
+  medicationId: m.medication_id,
+  batchId: m.batch_id || undefined,
+  batchNo: m.medication_batches?.batch_no || undefined,
+  movementType: m.movement_type,
+  quantity: m.quantity,
+  balanceAfter: m.balance_after,
+  reason: m.reason || undefined,
+  notes: m.notes || undefined,
+  grnNumber: m.goods_received_notes?.grn_number || undefined,
+  patientId: m.patient_id || undefined,
+  createdAt: m.created_at,
+});
+
+/**
+ * Map GRN row from API (snake_case) to frontend shape
+ */
+const mapGRN = (g: any): GoodsReceivedNote => ({
+  id: g.id,
+  grnNumber: g.grn_number,
+  supplierName: g.supplier_name,
+  supplierInvoiceNo: g.supplier_invoice_no || undefined,
+  receivedDate: g.received_date,
+  notes: g.notes || undefined,
+  totalCost: parseFloat(g.total_cost) || 0,
+  items: (g.stock_movements || []).map((m: any) => ({
+    medicationId: m.medication_id,
+    medicationName: m.medications?.name,
+    batchNo: m.medication_batches?.batch_no || '',
+    expiryDate: m.medication_batches?.expiry_date || '',
+    quantity: m.quantity,
+    unitCost: m.medication_batches?.unit_cost != null ? parseFloat(m.medication_batches.unit_cost) : undefined,
+  })),
+  createdAt: g.created_at,
+});
+
+/**
+ * Get batches for a medication in FEFO order
+ */
+export const getMedicationBatches = async (
+  medicationId: string,
+  includeEmpty = false
+): Promise<{ success: boolean; batches?: MedicationBatch[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/medications/${medicationId}/batches?includeEmpty=${includeEmpty}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch batches' };
+    }
+
+    const data = await response.json();
+    return { success: true, batches: (data.batches || []).map(mapBatch) };
+  } catch (error: any) {
+    console.error('Error fetching medication batches:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Get the stock ledger for a medication (oldest first)
+ */
+export const getStockLedger = async (
+  medicationId: string,
+  range: { from?: string; to?: string } = {}
+): Promise<{ success: boolean; movements?: StockMovement[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const params = new URLSearchParams();
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+
+    const response = await fetch(`${API_BASE_URL}/api/medications/${medicationId}/ledger?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch stock ledger' };
+    }
+
+    const data = await response.json();
+    return { success: true, movements: (data.movements || []).map(mapMovement) };
+  } catch (error: any) {
+    console.error('Error fetching stock ledger:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * List recent goods received notes
+ */
+export const getGoodsReceivedNotes = async (): Promise<{ success: boolean; grns?: GoodsReceivedNote[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/inventory/grns`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch goods received notes' };
+    }
+
+    const data = await response.json();
+    return { success: true, grns: (data.grns || []).map(mapGRN) };
+  } catch (error: any) {
+    console.error('Error fetching goods received notes:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Record a goods received note
+ */
+export const receiveGoods = async (grn: {
+  supplierName: string;
+  supplierInvoiceNo?: string;
+  receivedDate?: string;
+  notes?: string;
+  items: GoodsReceivedItem[];
+}): Promise<{ success: boolean; grnNumber?: string; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/inventory/grns`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(grn),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to record goods received' };
+    }
+
+    const data = await response.json();
+    return { success: true, grnNumber: data.grn?.grn_number };
+  } catch (error: any) {
+    console.error('Error recording goods received:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Adjust a batch up (positive) or down (negative) with a reason
+ */
+export const adjustStock = async (adjustment: {
+  batchId: string;
+  quantity: number;
+  reason: StockAdjustmentReason;
+  notes?: string;
+}): Promise<{ success: boolean; balanceAfter?: number; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/inventory/adjustments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(adjustment),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to adjust stock' };
+    }
+
+    const data = await response.json();
+    return { success: true, balanceAfter: data.balanceAfter };
+  } catch (error: any) {
+    console.error('Error adjusting stock:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Deduct dispensed medications from stock (first expiry first out)
+ */
+export const dispenseStock = async (
+  patientId: string,
+  items: { medicationId: string; quantity: number }[],
+  visitId?: string
+): Promise<{ success: boolean; allocations?: StockAllocation[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/inventory/dispense`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ patientId, visitId, items }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to dispense stock' };
+    }
+
+    const data = await response.json();
+    return { success: true, allocations: data.allocations || [] };
+  } catch (error: any) {
+    console.error('Error dispensing stock:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Get low-stock and near-expiry alerts
+ */
+export const getStockAlerts = async (
+  expiryWithinDays: number
+): Promise<{ success: boolean; lowStock?: LowStockAlert[]; nearExpiry?: ExpiryAlert[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/inventory/alerts?expiryWithinDays=${expiryWithinDays}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch stock alerts' };
+    }
+
+    const data = await response.json();
+    return { success: true, lowStock: data.lowStock || [], nearExpiry: data.nearExpiry || [] };
+  } catch (error: any) {
+    console.error('Error fetching stock alerts:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Set a medication's reorder level
+ */
+export const updateReorderLevel = async (
+  medicationId: string,
+  reorderLevel: number
+): Promise<{ success: boolean; reorderLevel?: number; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/medications/${medicationId}/reorder-level`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ reorderLevel }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to update reorder level' };
+    }
+
+    const data = await response.json();
+    return { success: true, reorderLevel: data.reorderLevel };
+  } catch (error: any) {
+    console.error('Error updating reorder level:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
@@ -4,6 +4,7 @@
  */
 
 import { getSupabase, isSupabaseConfigured } from './supabaseClient';
+import { STOCK_ALERTS } from '../constants';
 
 export interface Medication {
   id: string;
@@ -12,6 +13,7 @@ export interface Medication {
   form: string;
   price: number;
   stock: number;
+  reorderLevel: number;
   isCoveredByNHIF: boolean;
   isCoveredByPrivate: boolean;
 }
@@ -57,7 +59,9 @@ export async function getMedications(filters?: {
     form: row.form,
     price: typeof row.price === 'number' ? row.price : parseFloat(row.price) || 0,
     stock: row.stock ?? 0,
+    reorderLevel: row.reorder_level ?? STOCK_ALERTS.DEFAULT_REORDER_LEVEL,
     isCoveredByNHIF: !!row.is_covered_by_nhif,
     isCoveredByPrivate: row.is_covered_by_private !== false,
+    tariffCode: row.tariff_code ?? undefined,
   }));
 }
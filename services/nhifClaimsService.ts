@@ -0,0 +1,268 @@
+/**
+ * NHIF Claims Service
+ * Builds monthly claim batches from verified NHIF visits and tracks folio outcomes
+ */
+
+import { ClaimableNHIFVisit, NHIFClaimBatch, NHIFClaimFolio, ClaimFolioStatus, NHIFClaimFormData } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Map folio row from API (snake_case) to frontend shape
+ */
+const mapFolio = (f: any): NHIFClaimFolio => ({
+  id: f.id,
+  batchId: f.batch_id,
+  visitId: f.visit_id,
+  patientId: f.patient_id,
+  verificationId: f.verification_id || undefined,
+  folioNo: f.folio_no,
+  cardNo: f.card_no,
+  authorizationNo: f.authorization_no || undefined,
+  memberName: f.member_name || undefined,
+  visitDate: f.visit_date,
+  items: Array.isArray(f.items) ? f.items : [],
+  totalAmount: parseFloat(f.total_amount) || 0,
+  status: f.status,
+  rejectionReason: f.rejection_reason || undefined,
+  paidAmount: f.paid_amount != null ? parseFloat(f.paid_amount) : undefined,
+  paidAt: f.paid_at || undefined,
+  submittedAt: f.submitted_at || undefined,
+});
+
+/**
+ * Map batch row from API (snake_case) to frontend shape
+ */
+const mapBatch = (b: any): NHIFClaimBatch => ({
+  id: b.id,
+  claimMonth: b.claim_month,
+  facilityCode: b.facility_code || undefined,
+  status: b.status,
+  folioCount: b.folio_count ?? 0,
+  totalAmount: parseFloat(b.total_amount) || 0,
+  submissionReference: b.submission_reference || undefined,
+  submittedAt: b.submitted_at || undefined,
+  folios: (b.nhif_claim_folios || [])
+    .map(mapFolio)
+    .sort((a: NHIFClaimFolio, c: NHIFClaimFolio) => a.folioNo - c.folioNo),
+});
+
+/**
+ * Get completed, verified NHIF visits for a month (YYYY-MM) that have not been claimed
+ */
+export const getClaimableVisits = async (
+  month: string
+): Promise<{ success: boolean; visits?: ClaimableNHIFVisit[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/nhif/claims/claimable?month=${encodeURIComponent(month)}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch claimable visits' };
+    }
+
+    const data = await response.json();
+    return { success: true, visits: data.visits || [] };
+  } catch (error: any) {
+    console.error('Error fetching claimable visits:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * List claim batches with folios
+ */
+export const getClaimBatches = async (): Promise<{ success: boolean; batches?: NHIFClaimBatch[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/nhif/claims/batches`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch claim batches' };
+    }
+
+    const data = await response.json();
+    return { success: true, batches: (data.batches || []).map(mapBatch) };
+  } catch (error: any) {
+    console.error('Error fetching claim batches:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Create (or extend) the draft batch for a month (YYYY-MM)
+ */
+export const createClaimBatch = async (
+  month: string
+): Promise<{ success: boolean; addedFolios?: number; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/nhif/claims/batches`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ month }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to create claim batch' };
+    }
+
+    const data = await response.json();
+    return { success: true, addedFolios: data.addedFolios };
+  } catch (error: any) {
+    console.error('Error creating claim batch:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Submit a draft batch to NHIF
+ */
+export const submitClaimBatch = async (
+  batchId: string
+): Promise<{ success: boolean; submissionReference?: string; submittedFolios?: number; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/nhif/claims/batches/${batchId}/submit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to submit claim batch' };
+    }
+
+    const data = await response.json();
+    return { success: true, submissionReference: data.submissionReference, submittedFolios: data.submittedFolios };
+  } catch (error: any) {
+    console.error('Error submitting claim batch:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Record NHIF's outcome for a folio
+ */
+export const updateFolioStatus = async (
+  folioId: string,
+  status: Extract<ClaimFolioStatus, 'ACCEPTED' | 'REJECTED' | 'PAID'>,
+  details: { rejectionReason?: string; paidAmount?: number } = {}
+): Promise<{ success: boolean; folio?: NHIFClaimFolio; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/nhif/claims/folios/${folioId}/status`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ status, ...details }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to update folio' };
+    }
+
+    const data = await response.json();
+    return { success: true, folio: mapFolio(data.folio) };
+  } catch (error: any) {
+    console.error('Error updating claim folio:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Get the data printed on the NHIF claim form (Form 2A/2B) for a visit
+ */
+export const getClaimFormData = async (
+  visitId: string
+): Promise<{ success: boolean; form?: NHIFClaimFormData; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/nhif/claims/visits/${visitId}/form`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to load claim form' };
+    }
+
+    const data = await response.json();
+    const f = data.form;
+    return {
+      success: true,
+      form: {
+        ...f,
+        facilityCode: f.facilityCode || undefined,
+        folioNo: f.folioNo ?? undefined,
+        patient: {
+          id: f.patient.id,
+          name: f.patient.name,
+          dob: f.patient.dob || undefined,
+          gender: f.patient.gender || undefined,
+          phone: f.patient.phone || undefined,
+          address: f.patient.address || undefined,
+        },
+        authorizationNo: f.authorizationNo || undefined,
+        memberName: f.memberName || undefined,
+        referralNo: f.referralNo || undefined,
+        chiefComplaint: f.chiefComplaint || undefined,
+        practitionerName: f.practitionerName || undefined,
+        diagnoses: f.diagnoses || [],
+        items: f.items || [],
+      },
+    };
+  } catch (error: any) {
+    console.error('Error loading claim form data:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
@@ -3,7 +3,7 @@
  * Uses Supabase directly when configured; otherwise API (or localStorage via PatientContext).
  */
 
-import type { Patient } from '../types';
+import type { Patient, Encounter, PrescriptionHistoryEvent } from '../types';
 import { getSupabase, isSupabaseConfigured } from './supabaseClient';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
@@ -38,8 +38,10 @@ export const mapPatientFromApi = (raw: Record<string, unknown>): Patient => {
     gender: p.gender ?? 'Male',
     insuranceType: p.insurance_type ?? p.insuranceType ?? 'CASH',
     insuranceProvider: (p.insurance_type ?? p.insuranceType) === 'CASH' ? undefined : (p.insurance_provider ?? p.insuranceProvider),
+    insuranceSchemeId: (p.insurance_type ?? p.insuranceType) === 'PRIVATE' ? (p.insurance_scheme_id ?? p.insuranceSchemeId ?? undefined) : undefined,
     insuranceNumber: (p.insurance_type ?? p.insuranceType) === 'CASH' ? undefined : (p.insurance_policy_number ?? p.insurance_member_number ?? p.insuranceNumber),
     nhifAuthNumber: (p.insurance_type ?? p.insuranceType) === 'CASH' ? undefined : (p.nhif_auth_number ?? p.nhifAuthNumber),
+    visitId: p.visit_id ?? p.visitId ?? undefined,
     status: p.status ?? 'WAITING',
     assignedProviderId: p.assigned_provider_id ?? p.assignedProviderId,
     checkedInAt: p.checked_in_at ?? p.checkedInAt ?? p.created_at ?? new Date().toISOString(),
@@ -57,11 +59,68 @@ export const mapPatientFromApi = (raw: Record<string, unknown>): Patient => {
       category: b.category,
       isCoveredByNHIF: !!(b.is_covered_by_nhif ?? b.isCoveredByNHIF),
       isCoveredByPrivate: (b.is_covered_by_private ?? b.isCoveredByPrivate) !== false,
+      nhifItemCode: b.nhif_item_code ?? b.nhifItemCode ?? undefined,
+      tariffCode: b.tariff_code ?? b.tariffCode ?? undefined,
+      voidedAt: b.voided_at ?? b.voidedAt ?? undefined,
     })) : [],
     prescriptionHistory: p.prescriptionHistory ?? [],
   };
 };
 
+/**
+ * Map a visit row (snake_case from Supabase or camelCase from API) to a frontend Encounter.
+ */
+export const mapEncounterFromApi = (raw: Record<string, unknown>, prescription?: any, billItems?: any[], providerName?: string): Encounter => {
+  const v = raw as any;
+  const rx = prescription ?? v.refraction;
+  const items = billItems ?? v.billItems ?? [];
+  return {
+    id: v.id,
+    patientId: v.patient_id ?? v.patientId,
+    visitDate: v.visit_date ?? v.visitDate,
+    visitTime: v.visit_time ?? v.visitTime,
+    department: v.department ?? 'OPTOMETRY',
+    payerType: v.payer_type ?? v.payerType ?? 'CASH',
+    insuranceProvider: v.insurance_provider ?? v.insuranceProvider ?? undefined,
+    status: v.status ?? 'REGISTERED',
+    createdAt: v.created_at ?? v.createdAt,
+    updatedAt: v.updated_at ?? v.updatedAt,
+    createdBy: v.created_by ?? v.createdBy ?? undefined,
+    updatedBy: v.updated_by ?? v.updatedBy ?? undefined,
+    providerId: v.provider_id ?? v.providerId ?? undefined,
+    providerName: providerName ?? v.providerName ?? undefined,
+    chiefComplaint: v.chief_complaint ?? v.chiefComplaint ?? undefined,
+    clinicalNotes: v.clinical_notes ?? v.clinicalNotes ?? undefined,
+    consultationNotes: v.consultation_notes ?? v.consultationNotes ?? undefined,
+    diagnoses: Array.isArray(v.diagnoses) ? v.diagnoses : [],
+    refraction: rx
+      ? {
+          od: rx.od,
+          os: rx.os,
+          add: rx.add ?? rx.add_od ?? rx.add_os,
+          addOd: rx.addOd ?? rx.add_od,
+          addOs: rx.addOs ?? rx.add_os,
+          edgeColor: rx.edgeColor ?? rx.edge_color,
+          medications: rx.medications ?? [],
+          verificationCode: rx.verificationCode ?? rx.verification_code ?? undefined,
+          verificationUrl: rx.verificationUrl ?? undefined,
+        }
+      : undefined,
+    billItems: (items as any[]).map((b: any) => ({
+      id: b.external_id ?? b.id,
+      description: b.description,
+      amount: typeof b.amount === 'number' ? b.amount : parseFloat(b.amount) || 0,
+      category: b.category,
+      isCoveredByNHIF: !!(b.is_covered_by_nhif ?? b.isCoveredByNHIF),
+      isCoveredByPrivate: (b.is_covered_by_private ?? b.isCoveredByPrivate) !== false,
+      nhifItemCode: b.nhif_item_code ?? b.nhifItemCode ?? undefined,
+      tariffCode: b.tariff_code ?? b.tariffCode ?? undefined,
+      voidedAt: b.voided_at ?? b.voidedAt ?? undefined,
+    })),
+    completedAt: v.completed_at ?? v.completedAt ?? undefined,
+  };
+};
+
 /**
  * Get authorization header
  */
@@ -143,6 +202,7 @@ async function createPatientSupabase(patientData: any): Promise<{ success: boole
         address: patientData.address ? String(patientData.address).trim() : '',
         insurance_type: patientData.insuranceType ?? 'CASH',
         insurance_provider: patientData.insuranceProvider ?? null,
+        insurance_scheme_id: patientData.insuranceSchemeId ?? null,
         insurance_policy_number: patientData.insuranceNumber ?? null,
         insurance_member_number: patientData.insuranceNumber ?? null,
         nhif_auth_number: patientData.nhifAuthNumber ?? null,
@@ -196,15 +256,23 @@ async function getPatientSupabase(patientId: string): Promise<{ success: boolean
 
     let prescriptions: any[] = [];
     let billItems: any[] = [];
+    let activeVisitId: string | undefined;
     try {
-      const [rx, bi] = await Promise.all([
+      const [rx, bi, visit] = await Promise.all([
         supabase.from('prescriptions').select('*').eq('patient_id', patientId).order('created_at', { ascending: false }),
         supabase.from('bill_items').select('*').eq('patient_id', patientId),
+        supabase.from('visits').select('id').eq('patient_id', patientId).in('status', ['REGISTERED', 'IN_PROGRESS']).order('created_at', { ascending: false }).limit(1),
       ]);
       if (!rx.error) prescriptions = rx.data ?? [];
       if (!bi.error) billItems = bi.data ?? [];
+      if (!visit.error && visit.data && visit.data.length > 0) activeVisitId = (visit.data[0] as any).id;
     } catch (_) {}
 
+    // Items billed against earlier encounters stay with those visits
+    if (activeVisitId) {
+      billItems = billItems.filter((b: any) => !b.visit_id || b.visit_id === activeVisitId);
+    }
+
     const latest = prescriptions[0];
     const prescription = latest
       ? {
@@ -225,9 +293,12 @@ async function getPatientSupabase(patientId: string): Promise<{ success: boolean
       category: b.category,
       isCoveredByNHIF: !!(b.is_covered_by_nhif ?? b.isCoveredByNHIF),
       isCoveredByPrivate: (b.is_covered_by_private ?? b.isCoveredByPrivate) !== false,
+      nhifItemCode: b.nhif_item_code ?? b.nhifItemCode ?? undefined,
+      tariffCode: b.tariff_code ?? b.tariffCode ?? undefined,
+      voidedAt: b.voided_at ?? b.voidedAt ?? undefined,
     }));
 
-    const out = { ...patient, prescription, billItems: billItemsMapped, bill_items: billItemsMapped };
+    const out = { ...patient, visit_id: activeVisitId, prescription, billItems: billItemsMapped, bill_items: billItemsMapped };
     return { success: true, patient: out };
   } catch (e) {
     console.error('getPatientSupabase:', e);
@@ -256,6 +327,99 @@ export const updatePatient = async (patientId: string, updates: any) => {
   }
 };
 
+/**
+ * Replace a bill's items in one transaction through the replace_bill_items function, as
+ * the API does: the visit's non-voided items (or, without a visit, the patient's items
+ * not yet on one) are swapped for the given lines, and listed unassigned items move onto
+ * the visit. Voided items are left as they are.
+ */
+async function replaceBillItemsSupabase(
+  supabase: ReturnType<typeof getSupabase>,
+  patientId: string,
+  visitId: string | null,
+  billItems: any[],
+  userId: string | null
+): Promise<{ error?: string }> {
+  const { error } = await (supabase as any).rpc('replace_bill_items', {
+    p_patient_id: patientId,
+    p_visit_id: visitId,
+    p_items: billItems.map(it => ({
+      external_id: it.id,
+      description: String(it.description ?? '').trim(),
+      amount: parseFloat(it.amount) || 0,
+      category: it.category ?? 'CLINICAL',
+      is_covered_by_nhif: !!it.isCoveredByNHIF,
+      is_covered_by_private: it.isCoveredByPrivate !== false,
+      nhif_item_code: it.nhifItemCode || null,
+      tariff_code: it.tariffCode || null,
+    })),
+    p_user_id: userId,
+  });
+  return error ? { error: error.message } : {};
+}
+
+/**
+ * Whether an incoming bill line charges differently from the stored row it replaces
+ */
+const chargeDiffers = (row: any, it: any) =>
+  Math.round((parseFloat(row.amount) || 0) * 100) !== Math.round((parseFloat(it.amount) || 0) * 100)
+  || row.category !== it.category
+  || !!row.is_covered_by_nhif !== !!it.isCoveredByNHIF
+  || (row.is_covered_by_private !== false) !== (it.isCoveredByPrivate !== false);
+
+/**
+ * Check an incoming bill against what is stored for the visit (or, without a visit,
+ * the patient's items not yet on one), as the API does. Voided items are kept as they
+ * are and left out of the rewrite; a stored charge the bill leaves out is an error,
+ * since charges only come off a bill through an approved void, and so is a changed
+ * charge once the visit has a payment, which needs a void or credit note.
+ */
+async function prepareBillRewrite(
+  supabase: ReturnType<typeof getSupabase>,
+  patientId: string,
+  visitId: string | null,
+  billItems: any[]
+): Promise<{ items: any[]; error?: string }> {
+  let query = supabase
+    .from('bill_items')
+    .select('id, external_id, description, amount, category, is_covered_by_nhif, is_covered_by_private, voided_at')
+    .eq('patient_id', patientId);
+  query = visitId ? query.eq('visit_id', visitId) : query.is('visit_id', null);
+  const [{ data, error }, paymentRes] = await Promise.all([
+    query,
+    visitId
+      ? supabase.from('payments').select('id', { count: 'exact', head: true }).eq('visit_id', visitId)
+      : Promise.resolve({ count: 0, error: null }),
+  ]);
+  if (error || paymentRes.error) return { items: [], error: (error || paymentRes.error)!.message };
+
+  const stored = (data ?? []) as any[];
+  const voidedRefs = new Set(stored.filter(row => row.voided_at).map(row => row.external_id || row.id));
+  const items = billItems.filter(it => !(it?.voidedAt || voidedRefs.has(it?.id)));
+  const listed = new Set(items.map(it => it?.id).filter(Boolean));
+  const dropped = stored.filter(row => !row.voided_at && !listed.has(row.external_id || row.id));
+  if (dropped.length > 0) {
+    return {
+      items,
+      error: `Bill items can only be removed through a void request: ${dropped.map(row => row.description).join(', ')}`,
+    };
+  }
+  if ((paymentRes.count ?? 0) > 0) {
+    const incoming = new Map(items.filter(it => it?.id).map(it => [it.id, it]));
+    const changed = stored.filter(row => {
+      const ref = row.external_id || row.id;
+      return !row.voided_at && incoming.has(ref) && chargeDiffers(row, incoming.get(ref));
+    });
+    if (changed.length > 0) {
+      return {
+        items,
+        error: `Charges on a paid visit can only be changed through a void or credit note: ${changed.map(row => row.description).join(', ')}`,
+      };
+    }
+  }
+  return { items };
+}
+
 async function updatePatientSupabase(
   patientId: string,
   updates: any
@@ -274,6 +438,7 @@ async function updatePatientSupabase(
     if (updates.address !== undefined) u.address = String(updates.address || '').trim();
     if (updates.insuranceType !== undefined) u.insurance_type = updates.insuranceType;
     if (updates.insuranceProvider !== undefined) u.insurance_provider = updates.insuranceProvider;
+    if (updates.insuranceSchemeId !== undefined) u.insurance_scheme_id = updates.insuranceSchemeId || null;
     if (updates.insuranceNumber !== undefined) {
       u.insurance_policy_number = updates.insuranceNumber;
       u.insurance_member_number = updates.insuranceNumber;
@@ -289,6 +454,14 @@ async function updatePatientSupabase(
     if (updates.diagnosis !== undefined) u.diagnosis = updates.diagnosis;
     if (updates.appointment !== undefined) u.appointment = updates.appointment;
 
+    const visitId: string | null = updates.visitId ?? null;
+    let billItems: any[] | null = null;
+    if (Array.isArray(updates.billItems) && updates.billItems.length > 0) {
+      const prepared = await prepareBillRewrite(supabase, patientId, visitId, updates.billItems);
+      if (prepared.error) return { success: false, error: prepared.error };
+      billItems = prepared.items;
+    }
+
     const { data: updated, error } = await supabase
       .from('patients')
       .update(u)
@@ -301,20 +474,9 @@ async function updatePatientSupabase(
       return { success: false, error: error.message };
     }
 
-    if (Array.isArray(updates.billItems) && updates.billItems.length > 0) {
-      await supabase.from('bill_items').delete().eq('patient_id', patientId);
-      for (const it of updates.billItems) {
-        await supabase.from('bill_items').insert({
-          patient_id: patientId,
-          external_id: it.id,
-          description: String(it.description ?? '').trim(),
-          amount: parseFloat(it.amount) || 0,
-          category: it.category ?? 'CLINICAL',
-          is_covered_by_nhif: !!it.isCoveredByNHIF,
-          is_covered_by_private: it.isCoveredByPrivate !== false,
-          created_by: userId,
-        });
-      }
+    if (billItems) {
+      const replaced = await replaceBillItemsSupabase(supabase, patientId, visitId, billItems, userId);
+      if (replaced.error) return { success: false, error: replaced.error };
       const res = await getPatientSupabase(patientId);
       return { success: true, patient: res.patient ?? updated };
     }
@@ -480,22 +642,226 @@ export const createBillItem = async (patientId: string, billItemData: any) => {
 };
 
 /**
- * Get patient's prescription history
+ * Get patient's prescription history (newest first)
  */
-export const getPrescriptionHistory = async (patientId: string) => {
+export const getPrescriptionHistory = async (patientId: string): Promise<{ success: boolean; history: PrescriptionHistoryEvent[] }> => {
   try {
     const response = await fetch(`${API_BASE_URL}/api/patients/${patientId}/prescriptions/history`, {
       method: 'GET',
       headers: getAuthHeader(),
     });
 
-    return await handleResponse(response);
+    const data = await handleResponse(response);
+    const history = ((data.prescriptions ?? []) as any[]).map((p): PrescriptionHistoryEvent => ({
+      id: p.id,
+      visitId: p.visitId ?? undefined,
+      date: p.date,
+      od: p.od ?? '',
+      os: p.os ?? '',
+      addOd: p.addOd ?? undefined,
+      addOs: p.addOs ?? undefined,
+      dispensedItems: p.dispensedItems ?? [],
+      providerName: p.providerName ?? '',
+    }));
+    return { success: true, history };
   } catch (error) {
     console.error('Error fetching prescription history:', error);
     throw error;
   }
 };
 
+/**
+ * Get a patient's encounter history (newest first)
+ */
+export const getPatientEncounters = async (patientId: string): Promise<{ success: boolean; encounters: Encounter[]; error?: string }> => {
+  if (useSupabaseForPatients()) {
+    return getPatientEncountersSupabase(patientId);
+  }
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/visits/patient/${patientId}/history`, {
+      method: 'GET',
+      headers: getAuthHeader(),
+    });
+
+    const data = await handleResponse(response);
+    const encounters = ((data.encounters ?? []) as Record<string, unknown>[]).map((e) => mapEncounterFromApi(e));
+    return { success: true, encounters };
+  } catch (error) {
+    console.error('Error fetching encounter history:', error);
+    throw error;
+  }
+};
+
+async function getPatientEncountersSupabase(patientId: string): Promise<{ success: boolean; encounters: Encounter[]; error?: string }> {
+  try {
+    const supabase = getSupabase();
+    const { data: visits, error } = await supabase
+      .from('visits')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('created_at', { ascending: false });
+
+    if (error) return { success: false, encounters: [], error: error.message };
+    const rows = (visits ?? []) as any[];
+    if (rows.length === 0) return { success: true, encounters: [] };
+
+    const visitIds = rows.map((v) => v.id);
+    const providerIds = [...new Set(rows.map((v) => v.provider_id).filter(Boolean))];
+    const [rx, bi, prov] = await Promise.all([
+      supabase.from('prescriptions').select('*').in('visit_id', visitIds).order('created_at', { ascending: false }),
+      supabase.from('bill_items').select('*').in('visit_id', visitIds),
+      providerIds.length > 0
+        ? supabase.from('providers').select('id, name').in('id', providerIds)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    const prescriptions = (rx.error ? [] : rx.data ?? []) as any[];
+    const billItems = (bi.error ? [] : bi.data ?? []) as any[];
+    const providers = (prov.error ? [] : prov.data ?? []) as any[];
+
+    const encounters = rows.map((v) => mapEncounterFromApi(
+      v,
+      prescriptions.find((p) => p.visit_id === v.id),
+      billItems.filter((b) => b.visit_id === v.id),
+      providers.find((p) => p.id === v.provider_id)?.name
+    ));
+    return { success: true, encounters };
+  } catch (e: any) {
+    console.error('getPatientEncountersSupabase:', e);
+    return { success: false, encounters: [], error: e?.message ?? 'Failed to fetch encounter history' };
+  }
+}
+
+/**
+ * Record clinical data against a visit (notes, diagnoses, refraction, bill items, status).
+ * Closed visits are read-only.
+ */
+export const saveEncounter = async (visitId: string, data: Partial<Encounter>) => {
+  if (useSupabaseForPatients()) {
+    return saveEncounterSupabase(visitId, data);
+  }
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/visits/${visitId}/encounter`, {
+      method: 'PUT',
+      headers: getAuthHeader(),
+      body: JSON.stringify(data),
+    });
+
+    return await handleResponse(response);
+  } catch (error) {
+    console.error('Error saving encounter:', error);
+    throw error;
+  }
+};
+
+async function saveEncounterSupabase(
+  visitId: string,
+  data: Partial<Encounter>
+): Promise<{ success: boolean; encounter?: Encounter; error?: string }> {
+  try {
+    const supabase = getSupabase();
+    const { data: { user } } = await supabase.auth.getUser();
+    const userId = user?.id ?? null;
+
+    const { data: visit, error: ve } = await supabase.from('visits').select('*').eq('id', visitId).maybeSingle();
+    if (ve || !visit) return { success: false, error: 'Visit not found' };
+    const current = visit as any;
+    if (current.status === 'COMPLETED' || current.status === 'CANCELLED') {
+      return { success: false, error: 'Visit is closed and can no longer be modified' };
+    }
+
+    let billItems: any[] | null = null;
+    if (Array.isArray(data.billItems)) {
+      const prepared = await prepareBillRewrite(supabase, current.patient_id, visitId, data.billItems);
+      if (prepared.error) return { success: false, error: prepared.error };
+      billItems = prepared.items;
+    }
+
+    // Prescription and bill first, the visit row last, so a failed write never leaves
+    // the visit closed against a retry
+    if (data.refraction) {
+      const rx = data.refraction as any;
+      const rxColumns = {
+        od: rx.od,
+        os: rx.os,
+        add_od: rx.addOd,
+        add_os: rx.addOs,
+        edge_color: rx.edgeColor,
+        sphere_od: rx.sphereOD,
+        sphere_os: rx.sphereOS,
+        cylinder_od: rx.cylinderOD,
+        cylinder_os: rx.cylinderOS,
+        axis_od: rx.axisOD,
+        axis_os: rx.axisOS,
+        prism_od: rx.prismOD,
+        prism_os: rx.prismOS,
+        base_od: rx.baseOD,
+        base_os: rx.baseOS,
+        pupillary_distance: rx.pupillaryDistance,
+        segment_height: rx.segmentHeight,
+        lens_type: rx.lensType,
+        medications: rx.medications ?? [],
+      };
+      // Update in place so the verification code on a printed prescription stays valid
+      const { data: existingRx } = await supabase
+        .from('prescriptions')
+        .select('id')
+        .eq('visit_id', visitId)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      const existingRxId = (existingRx as any)?.id;
+      const { error: rxError } = existingRxId
+        ? await supabase.from('prescriptions').update({ ...rxColumns, updated_at: new Date().toISOString() }).eq('id', existingRxId)
+        : await supabase.from('prescriptions').insert({ patient_id: current.patient_id, visit_id: visitId, ...rxColumns, created_by: userId });
+      if (rxError) {
+        return { success: false, error: rxError.message };
+      }
+    }
+
+    if (billItems) {
+      const replaced = await replaceBillItemsSupabase(supabase, current.patient_id, visitId, billItems, userId);
+      if (replaced.error) return { success: false, error: replaced.error };
+    }
+
+    const u: Record<string, any> = { updated_by: userId, updated_at: new Date().toISOString() };
+    if (data.providerId !== undefined) u.provider_id = data.providerId ?? null;
+    if (data.chiefComplaint !== undefined) u.chief_complaint = data.chiefComplaint;
+    if (data.clinicalNotes !== undefined) u.clinical_notes = data.clinicalNotes;
+    if (data.consultationNotes !== undefined) u.consultation_notes = data.consultationNotes;
+    if (data.diagnoses !== undefined) u.diagnoses = data.diagnoses;
+    if (data.status !== undefined) {
+      u.status = data.status;
+      if (data.status === 'COMPLETED') u.completed_at = new Date().toISOString();
+    }
+
+    const { data: updated, error } = await supabase
+      .from('visits')
+      .update(u)
+      .eq('id', visitId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Supabase update visit:', error);
+      return { success: false, error: error.message };
+    }
+
+    const [rxRes, biRes] = await Promise.all([
+      supabase.from('prescriptions').select('*').eq('visit_id', visitId).limit(1),
+      supabase.from('bill_items').select('*').eq('visit_id', visitId),
+    ]);
+    const encounter = mapEncounterFromApi(
+      updated as any,
+      rxRes.data?.[0],
+      (biRes.data ?? []) as any[]
+    );
+    return { success: true, encounter };
+  } catch (e: any) {
+    console.error('saveEncounterSupabase:', e);
+    return { success: false, error: e?.message ?? 'Failed to save encounter' };
+  }
+}
+
 /**
  * Get patient's billing information
  */
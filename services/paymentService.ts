@@ -0,0 +1,345 @@
+/**
+ * Payment Service
+ * Records split and partial payments against a visit, reads back the outstanding balance
+ * and pushes mobile money requests to the patient's phone
+ */
+
+import {
+  Payment,
+  PaymentLine,
+  PaymentMethod,
+  VisitBalance,
+  MobileMoneyNetwork,
+  MobileMoneyRequest,
+  FiscalReceipt,
+  FiscalReceiptStatus,
+} from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string; referenceLabel?: string }[] = [
+  { value: 'CASH', label: 'Cash' },
+  { value: 'CARD', label: 'Card', referenceLabel: 'Card slip / approval no.' },
+  { value: 'MOBILE_MONEY', label: 'Mobile Money', referenceLabel: 'Transaction ID' },
+  { value: 'INSURANCE', label: 'Insurance', referenceLabel: 'Authorization / card no.' },
+];
+
+export const MOBILE_MONEY_NETWORKS: { value: MobileMoneyNetwork; label: string; prefixes: string[] }[] = [
+  { value: 'MPESA', label: 'M-Pesa', prefixes: ['74', '75', '76'] },
+  { value: 'TIGOPESA', label: 'Tigo Pesa', prefixes: ['65', '67', '71', '77'] },
+  { value: 'AIRTELMONEY', label: 'Airtel Money', prefixes: ['68', '69', '78'] },
+];
+
+/**
+ * Guess the mobile money network from a Tanzanian phone number (07XX..., +2557XX...)
+ */
+export const detectMobileNetwork = (phone?: string): MobileMoneyNetwork | undefined => {
+  const digits = (phone || '').replace(/\D/g, '');
+  const local = digits.startsWith('255') ? digits.slice(3) : digits.startsWith('0') ? digits.slice(1) : digits;
+  return MOBILE_MONEY_NETWORKS.find(n => n.prefixes.includes(local.slice(0, 2)))?.value;
+};
+
+/**
+ * Map payment row from API (snake_case) to frontend shape
+ */
+const mapPayment = (p: any): Payment => ({
+  id: p.id,
+  receiptNumber: p.receipt_number,
+  visitId: p.visit_id,
+  patientId: p.patient_id,
+  method: p.method,
+  amount: parseFloat(p.amount) || 0,
+  amountTendered: p.amount_tendered != null ? parseFloat(p.amount_tendered) : undefined,
+  changeGiven: parseFloat(p.change_given) || 0,
+  referenceNumber: p.reference_number || undefined,
+  provider: p.provider || undefined,
+  notes: p.notes || undefined,
+  receivedAt: p.received_at,
+  receivedBy: p.received_by || undefined,
+});
+
+/**
+ * Map mobile money request row from API (snake_case) to frontend shape
+ */
+const mapMobileMoneyRequest = (r: any): MobileMoneyRequest => ({
+  id: r.id,
+  visitId: r.visit_id,
+  network: r.network,
+  msisdn: r.msisdn,
+  amount: parseFloat(r.amount) || 0,
+  status: r.status,
+  transactionId: r.transaction_id || undefined,
+  failureReason: r.failure_reason || undefined,
+  receiptNumber: r.receipt_number || undefined,
+  createdAt: r.created_at,
+});
+
+/**
+ * Map fiscal receipt row from API (snake_case) to frontend shape
+ */
+const mapFiscalReceipt = (f: any): FiscalReceipt => ({
+  id: f.id,
+  receiptNumber: f.receipt_number,
+  visitId: f.visit_id,
+  patientId: f.patient_id,
+  patientName: f.patients?.name || undefined,
+  device: f.device,
+  amount: parseFloat(f.amount) || 0,
+  status: f.status,
+  verificationCode: f.verification_code || undefined,
+  verificationUrl: f.verification_url || undefined,
+  zNumber: f.z_number || undefined,
+  fiscalCounter: f.fiscal_counter ?? undefined,
+  fiscalisedAt: f.fiscalised_at || undefined,
+  attempts: f.attempts ?? 0,
+  lastError: f.last_error || undefined,
+  nextAttemptAt: f.next_attempt_at || undefined,
+  createdAt: f.created_at,
+});
+
+/**
+ * Get payments, their fiscal receipts and the outstanding balance for a visit
+ */
+export const getVisitPayments = async (
+  visitId: string
+): Promise<{ success: boolean; balance?: VisitBalance; payments?: Payment[]; fiscalReceipts?: FiscalReceipt[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${visitId}/payments`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch payments' };
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      balance: data.balance,
+      payments: (data.payments || []).map(mapPayment),
+      fiscalReceipts: (data.fiscalReceipts || []).map(mapFiscalReceipt),
+    };
+  } catch (error: any) {
+    console.error('Error fetching visit payments:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Record one or more payment lines against a visit under a single receipt
+ */
+export const recordPayments = async (
+  visitId: string,
+  payments: PaymentLine[]
+): Promise<{
+  success: boolean;
+  receiptNumber?: string;
+  payments?: Payment[];
+  balance?: VisitBalance;
+  fiscalReceipt?: FiscalReceipt;
+  error?: string;
+}> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${visitId}/payments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ payments }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to record payment' };
+    }
+
+    const data = await response.json();
+    return {
+      success: true,
+      receiptNumber: data.receiptNumber,
+      payments: (data.payments || []).map(mapPayment),
+      balance: data.balance,
+      fiscalReceipt: data.fiscalReceipt ? mapFiscalReceipt(data.fiscalReceipt) : undefined,
+    };
+  } catch (error: any) {
+    console.error('Error recording payment:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Push a mobile money payment request to the patient's phone
+ */
+export const requestMobileMoneyPayment = async (
+  visitId: string,
+  request: { network?: MobileMoneyNetwork; phone: string; amount: number }
+): Promise<{ success: boolean; request?: MobileMoneyRequest; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${visitId}/mobile-money`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to send payment request' };
+    }
+
+    const data = await response.json();
+    return { success: true, request: mapMobileMoneyRequest(data.request) };
+  } catch (error: any) {
+    console.error('Error requesting mobile money payment:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Get the current status of a mobile money request
+ */
+export const getMobileMoneyRequest = async (
+  requestId: string
+): Promise<{ success: boolean; request?: MobileMoneyRequest; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/mobile-money/requests/${requestId}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch payment request' };
+    }
+
+    const data = await response.json();
+    return { success: true, request: mapMobileMoneyRequest(data.request) };
+  } catch (error: any) {
+    console.error('Error fetching mobile money request:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Register a receipt with the fiscal device now (retries one that is queued)
+ */
+export const fiscaliseReceipt = async (
+  receiptNumber: string
+): Promise<{ success: boolean; fiscalReceipt?: FiscalReceipt; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/fiscal-receipts/${receiptNumber}/fiscalise`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fiscalise receipt' };
+    }
+
+    const data = await response.json();
+    return { success: true, fiscalReceipt: data.fiscalReceipt ? mapFiscalReceipt(data.fiscalReceipt) : undefined };
+  } catch (error: any) {
+    console.error('Error fiscalising receipt:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * List fiscal receipts by status (FAILED is the retry queue)
+ */
+export const getFiscalReceipts = async (
+  status?: FiscalReceiptStatus
+): Promise<{ success: boolean; fiscalReceipts?: FiscalReceipt[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const query = status ? `?status=${status}` : '';
+    const response = await fetch(`${API_BASE_URL}/api/fiscal-receipts${query}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch fiscal receipts' };
+    }
+
+    const data = await response.json();
+    return { success: true, fiscalReceipts: (data.fiscalReceipts || []).map(mapFiscalReceipt) };
+  } catch (error: any) {
+    console.error('Error fetching fiscal receipts:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Retry every queued receipt now
+ */
+export const retryFiscalReceipts = async (): Promise<{ success: boolean; attempted?: number; fiscalised?: number; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/fiscal-receipts/retry`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to retry fiscal receipts' };
+    }
+
+    const data = await response.json();
+    return { success: true, attempted: data.attempted, fiscalised: data.fiscalised };
+  } catch (error: any) {
+    console.error('Error retrying fiscal receipts:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
@@ -0,0 +1,143 @@
+/**
+ * Pre-authorization Service
+ * Requests private insurer pre-approval for a visit's items and records the insurer's decision
+ */
+
+import { Preauthorization, PreauthItem, PreauthStatus } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Map pre-authorization row from API (snake_case) to frontend shape
+ */
+const mapPreauthorization = (p: any): Preauthorization => ({
+  id: p.id,
+  preauthNumber: p.preauth_number,
+  visitId: p.visit_id,
+  patientId: p.patient_id,
+  insurer: p.insurer,
+  insuranceSchemeId: p.insurance_scheme_id || undefined,
+  items: (p.items || []).map((item: any) => ({
+    billItemId: item.billItemId || undefined,
+    description: item.description,
+    tariffCode: item.tariffCode || undefined,
+    amount: parseFloat(item.amount) || 0,
+  })),
+  requestedAmount: parseFloat(p.requested_amount) || 0,
+  approvedAmount: p.approved_amount != null ? parseFloat(p.approved_amount) : undefined,
+  status: p.status,
+  approvalReference: p.approval_reference || undefined,
+  notes: p.notes || undefined,
+  requestedBy: p.requested_by,
+  requestedAt: p.requested_at,
+  decidedBy: p.decided_by || undefined,
+  decidedAt: p.decided_at || undefined,
+  decisionNotes: p.decision_notes || undefined,
+});
+
+/**
+ * Get pre-authorizations requested for a visit, oldest first
+ */
+export const getVisitPreauthorizations = async (
+  visitId: string
+): Promise<{ success: boolean; preauthorizations?: Preauthorization[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${visitId}/preauthorizations`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch pre-authorizations' };
+    }
+
+    const data = await response.json();
+    return { success: true, preauthorizations: (data.preauthorizations || []).map(mapPreauthorization) };
+  } catch (error: any) {
+    console.error('Error fetching visit pre-authorizations:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Ask the patient's insurer to pre-authorize items (amounts are the insurer share)
+ */
+export const requestPreauthorization = async (
+  visitId: string,
+  request: { items: PreauthItem[]; notes?: string }
+): Promise<{ success: boolean; preauthorization?: Preauthorization; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/visits/${visitId}/preauthorizations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to request pre-authorization' };
+    }
+
+    const data = await response.json();
+    return { success: true, preauthorization: mapPreauthorization(data.preauthorization) };
+  } catch (error: any) {
+    console.error('Error requesting pre-authorization:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Record the insurer's reply to a pending pre-authorization request
+ */
+export const recordPreauthorizationDecision = async (
+  preauthId: string,
+  decision: {
+    status: Exclude<PreauthStatus, 'REQUESTED'>;
+    approvedAmount?: number;
+    approvalReference?: string;
+    notes?: string;
+  }
+): Promise<{ success: boolean; preauthorization?: Preauthorization; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/preauthorizations/${preauthId}/decision`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(decision),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to record decision' };
+    }
+
+    const data = await response.json();
+    return { success: true, preauthorization: mapPreauthorization(data.preauthorization) };
+  } catch (error: any) {
+    console.error('Error recording pre-authorization decision:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
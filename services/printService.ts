@@ -0,0 +1,93 @@
+/**
+ * Print Service
+ * Sends ESC/POS jobs to the thermal printer this workstation is set up for, or
+ * returns them as text when the workstation is in preview mode
+ */
+
+import { storageService } from './storageService';
+import { renderEscPosPreview } from '../utils/escpos';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * True when this workstation prints on the thermal printer instead of A4 PDF
+ */
+export const isThermalPrinting = (): boolean => storageService.loadPrinterSettings().useThermalPrinter;
+
+/**
+ * Thermal printers configured on the server
+ */
+export const getThermalPrinters = async (): Promise<{ success: boolean; printers?: { name: string }[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/printers`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch printers' };
+    }
+
+    const data = await response.json();
+    return { success: true, printers: data.printers || [] };
+  } catch (error: any) {
+    console.error('Error fetching printers:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Print an ESC/POS job on this workstation's thermal printer. In preview mode nothing
+ * is sent and the job comes back as text in `preview`.
+ */
+export const printThermal = async (job: Uint8Array): Promise<{ success: boolean; preview?: string; error?: string }> => {
+  const settings = storageService.loadPrinterSettings();
+  if (settings.previewMode) {
+    return { success: true, preview: renderEscPosPreview(job) };
+  }
+  if (!settings.printerName) {
+    return { success: false, error: 'No thermal printer selected for this workstation (Settings > Workstation Printer)' };
+  }
+
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/printers/${encodeURIComponent(settings.printerName)}/print`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ data: toBase64(job) }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to print' };
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error printing:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
@@ -11,6 +11,7 @@ export interface Provider {
   name: string;
   role: string;
   specialization?: string;
+  registrationNumber?: string;
   isNHIFVerified: boolean;
   status: 'AVAILABLE' | 'BUSY' | 'ON_BREAK' | 'OFFLINE';
   queue?: any[];
@@ -53,6 +54,7 @@ export async function getProviders(filters?: {
     name: row.name,
     role: row.role,
     specialization: row.specialization ?? undefined,
+    registrationNumber: row.registration_number || undefined,
     isNHIFVerified: !!row.is_nhif_verified,
     status: row.status,
     queue: [],
@@ -96,6 +98,7 @@ export async function getProvidersForScheduling(): Promise<Provider[]> {
     name: row.name,
     role: row.role,
     specialization: row.specialization ?? undefined,
+    registrationNumber: row.registration_number || undefined,
     isNHIFVerified: !!row.is_nhif_verified,
     status: row.status,
     queue: [],
@@ -0,0 +1,165 @@
+/**
+ * Receivables Service
+ * Debtors ledger (open patient and insurer balances per visit) and debt write-offs
+ */
+
+import { Receivable, WriteOff, DebtorType } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Map write-off row from API (snake_case) to frontend shape
+ */
+const mapWriteOff = (w: any): WriteOff => ({
+  id: w.id,
+  writeOffNumber: w.write_off_number,
+  debtorType: w.debtor_type,
+  insurer: w.insurer || undefined,
+  visitId: w.visit_id,
+  patientId: w.patient_id,
+  patientName: w.patients?.name || undefined,
+  amount: parseFloat(w.amount) || 0,
+  reason: w.reason,
+  status: w.status,
+  requestedBy: w.requested_by,
+  requestedAt: w.requested_at,
+  decidedBy: w.decided_by || undefined,
+  decidedAt: w.decided_at || undefined,
+  decisionNotes: w.decision_notes || undefined,
+});
+
+/**
+ * Get every open patient and insurer balance
+ */
+export const getReceivables = async (): Promise<{ success: boolean; receivables?: Receivable[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/receivables`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch receivables' };
+    }
+
+    const data = await response.json();
+    return { success: true, receivables: data.receivables || [] };
+  } catch (error: any) {
+    console.error('Error fetching receivables:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * List write-offs, optionally by status
+ */
+export const getWriteOffs = async (
+  status?: WriteOff['status']
+): Promise<{ success: boolean; writeOffs?: WriteOff[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const query = status ? `?status=${status}` : '';
+    const response = await fetch(`${API_BASE_URL}/api/write-offs${query}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch write-offs' };
+    }
+
+    const data = await response.json();
+    return { success: true, writeOffs: (data.writeOffs || []).map(mapWriteOff) };
+  } catch (error: any) {
+    console.error('Error fetching write-offs:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Request a write-off of a visit's patient or insurer debt (the full balance when no amount is given)
+ */
+export const requestWriteOff = async (request: {
+  visitId: string;
+  debtorType: DebtorType;
+  amount?: number;
+  reason: string;
+}): Promise<{ success: boolean; writeOff?: WriteOff; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/write-offs`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to request write-off' };
+    }
+
+    const data = await response.json();
+    return { success: true, writeOff: mapWriteOff(data.writeOff) };
+  } catch (error: any) {
+    console.error('Error requesting write-off:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Approve or reject a pending write-off (notes are required to reject)
+ */
+export const decideWriteOff = async (
+  writeOffId: string,
+  approve: boolean,
+  notes?: string
+): Promise<{ success: boolean; writeOff?: WriteOff; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/write-offs/${writeOffId}/${approve ? 'approve' : 'reject'}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ notes }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || `Failed to ${approve ? 'approve' : 'reject'} write-off` };
+    }
+
+    const data = await response.json();
+    return { success: true, writeOff: mapWriteOff(data.writeOff) };
+  } catch (error: any) {
+    console.error('Error deciding write-off:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
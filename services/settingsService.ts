@@ -0,0 +1,103 @@
+/**
+ * Settings Service
+ * Reads and saves the system-wide settings (clinic details, working hours, toggles)
+ */
+
+import { SystemSettings } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Defaults used until the saved settings load (match the server defaults)
+ */
+export const DEFAULT_SETTINGS: SystemSettings = {
+  clinicName: 'Msimbazi Eye Care',
+  clinicTagline: 'Professional Eye Care Services',
+  clinicAddress: '',
+  clinicPhone: '',
+  clinicEmail: '',
+  workingHoursStart: '08:00',
+  workingHoursEnd: '17:00',
+  enableNotifications: true,
+  enableAuditLogging: true,
+};
+
+/**
+ * Map settings from API (snake_case) to frontend shape
+ */
+const mapSettings = (s: any): SystemSettings => ({
+  clinicName: s.clinic_name ?? DEFAULT_SETTINGS.clinicName,
+  clinicTagline: s.clinic_tagline ?? DEFAULT_SETTINGS.clinicTagline,
+  clinicAddress: s.clinic_address ?? '',
+  clinicPhone: s.clinic_phone ?? '',
+  clinicEmail: s.clinic_email ?? '',
+  workingHoursStart: s.working_hours_start ?? DEFAULT_SETTINGS.workingHoursStart,
+  workingHoursEnd: s.working_hours_end ?? DEFAULT_SETTINGS.workingHoursEnd,
+  enableNotifications: s.enable_notifications ?? true,
+  enableAuditLogging: s.enable_audit_logging ?? true,
+  updatedAt: s.updated_at || undefined,
+});
+
+/**
+ * Get the saved settings
+ */
+export const getSettings = async (): Promise<{ success: boolean; settings?: SystemSettings; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/settings`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch settings' };
+    }
+
+    const data = await response.json();
+    return { success: true, settings: mapSettings(data.settings || {}) };
+  } catch (error: any) {
+    console.error('Error fetching settings:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Save settings; fields left out keep their saved value (admin only)
+ */
+export const updateSettings = async (
+  changes: Partial<Omit<SystemSettings, 'updatedAt'>>
+): Promise<{ success: boolean; settings?: SystemSettings; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/settings`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to save settings' };
+    }
+
+    const data = await response.json();
+    return { success: true, settings: mapSettings(data.settings || {}) };
+  } catch (error: any) {
+    console.error('Error saving settings:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
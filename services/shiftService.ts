@@ -0,0 +1,194 @@
+/**
+ * Cashier Shift Service
+ * Opens and closes cashier shifts and fetches their Z-reports
+ */
+
+import { CashierShift, ShiftReport } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Map shift row from API (snake_case) to frontend shape
+ */
+const mapShift = (s: any): CashierShift => ({
+  id: s.id,
+  shiftNumber: s.shift_number,
+  cashierId: s.cashier_id,
+  cashierName: s.cashier_name || undefined,
+  status: s.status,
+  openingFloat: parseFloat(s.opening_float) || 0,
+  openedAt: s.opened_at,
+  countedCash: s.counted_cash != null ? parseFloat(s.counted_cash) : undefined,
+  expectedCash: s.expected_cash != null ? parseFloat(s.expected_cash) : undefined,
+  cashVariance: s.cash_variance != null ? parseFloat(s.cash_variance) : undefined,
+  closedAt: s.closed_at || undefined,
+  closingNotes: s.closing_notes || undefined,
+});
+
+/**
+ * Get the current user's open shift (null if none) with its running takings
+ */
+export const getCurrentShift = async (): Promise<{ success: boolean; shift?: CashierShift | null; report?: ShiftReport | null; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/shifts/current`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch shift' };
+    }
+
+    const data = await response.json();
+    return { success: true, shift: data.shift ? mapShift(data.shift) : null, report: data.report || null };
+  } catch (error: any) {
+    console.error('Error fetching current shift:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Open a shift with the cash float in the drawer
+ */
+export const openShift = async (
+  openingFloat: number,
+  notes?: string
+): Promise<{ success: boolean; shift?: CashierShift; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/shifts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ openingFloat, notes }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to open shift' };
+    }
+
+    const data = await response.json();
+    return { success: true, shift: mapShift(data.shift) };
+  } catch (error: any) {
+    console.error('Error opening shift:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Close a shift with the counted cash and optional card / mobile money settlement totals
+ */
+export const closeShift = async (
+  shiftId: string,
+  declaration: { countedCash: number; declaredTotals?: { CARD?: number; MOBILE_MONEY?: number }; notes?: string }
+): Promise<{ success: boolean; shift?: CashierShift; report?: ShiftReport; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/shifts/${shiftId}/close`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(declaration),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to close shift' };
+    }
+
+    const data = await response.json();
+    return { success: true, shift: mapShift(data.shift), report: data.report };
+  } catch (error: any) {
+    console.error('Error closing shift:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Get the Z-report for a shift (running X-report while it is open)
+ */
+export const getShiftReport = async (
+  shiftId: string
+): Promise<{ success: boolean; shift?: CashierShift; report?: ShiftReport; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/shifts/${shiftId}/report`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch shift report' };
+    }
+
+    const data = await response.json();
+    return { success: true, shift: mapShift(data.shift), report: data.report };
+  } catch (error: any) {
+    console.error('Error fetching shift report:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * List shifts opened in a date range (YYYY-MM-DD)
+ */
+export const getShifts = async (
+  range: { from?: string; to?: string } = {}
+): Promise<{ success: boolean; shifts?: CashierShift[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const params = new URLSearchParams();
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+
+    const response = await fetch(`${API_BASE_URL}/api/shifts?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch shifts' };
+    }
+
+    const data = await response.json();
+    return { success: true, shifts: (data.shifts || []).map(mapShift) };
+  } catch (error: any) {
+    console.error('Error fetching shifts:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
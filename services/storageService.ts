@@ -3,13 +3,14 @@
  * Abstracts localStorage operations with error handling and data validation
  */
 
-import { Patient, Provider } from '../types';
+import { Patient, Provider, PrinterSettings } from '../types';
 
 const STORAGE_KEYS = {
   PATIENTS: 'msimbazi_patients',
   PROVIDERS: 'msimbazi_providers',
   AUTH_TOKEN: 'msimbazi_auth_token',
   USER_ROLE: 'msimbazi_user_role',
+  PRINTER_SETTINGS: 'msimbazi_printer_settings',
 } as const;
 
 /**
@@ -101,6 +102,21 @@ class StorageService {
     return this.getItem<string | null>(STORAGE_KEYS.USER_ROLE, null);
   }
 
+  /**
+   * Workstation printer settings
+   */
+  savePrinterSettings(settings: PrinterSettings): boolean {
+    return this.setItem(STORAGE_KEYS.PRINTER_SETTINGS, settings);
+  }
+
+  loadPrinterSettings(): PrinterSettings {
+    return this.getItem<PrinterSettings>(STORAGE_KEYS.PRINTER_SETTINGS, {
+      useThermalPrinter: false,
+      printerName: '',
+      previewMode: false,
+    });
+  }
+
   /**
    * Clears all application data
    */
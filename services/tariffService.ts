@@ -0,0 +1,172 @@
+/**
+ * Tariff Service
+ * Reads the tariff master (price list) and lets administrators maintain items and effective-dated prices
+ */
+
+import { TariffItem, TariffGroup, TariffPayer, TariffPrice } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+/**
+ * Map tariff price row from API (snake_case) to frontend shape
+ */
+const mapPrice = (p: any): TariffPrice => ({
+  id: p.id,
+  payer: p.payer,
+  price: parseFloat(p.price) || 0,
+  effectiveFrom: p.effective_from,
+  effectiveTo: p.effective_to || undefined,
+});
+
+/**
+ * Map tariff item row (with nested prices) from API to frontend shape, newest price first
+ */
+const mapTariffItem = (t: any): TariffItem => ({
+  id: t.id,
+  code: t.code,
+  name: t.name,
+  category: t.category,
+  group: t.service_group,
+  nhifItemCode: t.nhif_item_code || undefined,
+  requiresPreauth: t.requires_preauth === true,
+  isActive: t.is_active !== false,
+  prices: (t.tariff_prices || [])
+    .map(mapPrice)
+    .sort((a: TariffPrice, b: TariffPrice) => b.effectiveFrom.localeCompare(a.effectiveFrom)),
+});
+
+/**
+ * Get the tariff master; inactive items are only returned to administrators
+ */
+export const getTariffs = async (
+  includeInactive = false
+): Promise<{ success: boolean; tariffs?: TariffItem[]; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/tariffs${includeInactive ? '?includeInactive=true' : ''}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to fetch tariffs' };
+    }
+
+    const data = await response.json();
+    return { success: true, tariffs: (data.tariffs || []).map(mapTariffItem) };
+  } catch (error: any) {
+    console.error('Error fetching tariffs:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Add a tariff item (service code); prices are set with setTariffPrice
+ */
+export const createTariffItem = async (
+  item: { code: string; name: string; category: TariffItem['category']; serviceGroup: TariffGroup; nhifItemCode?: string }
+): Promise<{ success: boolean; item?: TariffItem; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/tariffs`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(item),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to create tariff item' };
+    }
+
+    const data = await response.json();
+    return { success: true, item: mapTariffItem(data.item) };
+  } catch (error: any) {
+    console.error('Error creating tariff item:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Rename, set the NHIF item code or pre-authorization flag of, or (de)activate a tariff item
+ */
+export const updateTariffItem = async (
+  itemId: string,
+  updates: { name?: string; nhifItemCode?: string; requiresPreauth?: boolean; isActive?: boolean }
+): Promise<{ success: boolean; item?: TariffItem; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/tariffs/${itemId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to update tariff item' };
+    }
+
+    const data = await response.json();
+    return { success: true, item: mapTariffItem(data.item) };
+  } catch (error: any) {
+    console.error('Error updating tariff item:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
+
+/**
+ * Set a payer's price from an effective date (YYYY-MM-DD); the current price ends the day before
+ */
+export const setTariffPrice = async (
+  itemId: string,
+  price: { payer: TariffPayer; price: number; effectiveFrom: string }
+): Promise<{ success: boolean; price?: TariffPrice; error?: string }> => {
+  try {
+    const token = sessionStorage.getItem('authToken');
+    if (!token) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/tariffs/${itemId}/prices`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(price),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return { success: false, error: errorData.error || 'Failed to set price' };
+    }
+
+    const data = await response.json();
+    return { success: true, price: mapPrice(data.price) };
+  } catch (error: any) {
+    console.error('Error setting tariff price:', error);
+    return { success: false, error: error.message || 'Network error' };
+  }
+};
@@ -43,6 +43,8 @@ export interface CreateUserData {
   email: string;
   password: string;
   role: UserRole;
+  /** Professional council registration number, printed on prescriptions (doctor roles) */
+  registrationNumber?: string;
 }
 
 export interface User {
@@ -127,6 +129,7 @@ export const createUser = async (userData: CreateUserData): Promise<{ success: b
             user_id: authData.user.id,
             name: userData.name.trim(),
             role: userData.role,
+            registration_number: userData.registrationNumber?.trim() || null,
             status: 'AVAILABLE',
             is_nhif_verified: false,
             is_active: true,
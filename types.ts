@@ -98,6 +98,148 @@ export interface NHIFVerification {
   updatedAt: string;
 }
 
+export type ClaimFolioStatus = 'PENDING' | 'SUBMITTED' | 'ACCEPTED' | 'REJECTED' | 'PAID';
+
+export interface NHIFClaimItem {
+  id: string;
+  description: string;
+  category: 'CLINICAL' | 'PHARMACY' | 'OPTICAL';
+  amount: number;
+  itemCode?: string;
+}
+
+export interface ClaimableNHIFVisit {
+  visitId: string;
+  patientId: string;
+  patientName: string;
+  visitDate: string;
+  verificationId: string;
+  cardNo: string;
+  authorizationNo?: string;
+  memberName?: string;
+  visitTypeId?: VisitType;
+  items: NHIFClaimItem[];
+  totalAmount: number;
+}
+
+export interface NHIFClaimFolio {
+  id: string;
+  batchId: string;
+  visitId: string;
+  patientId: string;
+  verificationId?: string;
+  folioNo: number;
+  cardNo: string;
+  authorizationNo?: string;
+  memberName?: string;
+  visitDate: string;
+  items: NHIFClaimItem[];
+  totalAmount: number;
+  status: ClaimFolioStatus;
+  rejectionReason?: string;
+  paidAmount?: number;
+  paidAt?: string;
+  submittedAt?: string;
+}
+
+export interface NHIFClaimBatch {
+  id: string;
+  claimMonth: string; // First day of the claim month (YYYY-MM-DD)
+  facilityCode?: string;
+  status: 'DRAFT' | 'SUBMITTING' | 'SUBMITTED' | 'CLOSED';
+  folioCount: number;
+  totalAmount: number;
+  submissionReference?: string;
+  submittedAt?: string;
+  folios: NHIFClaimFolio[];
+}
+
+export type InsurerClaimStatus = 'PENDING' | 'SUBMITTED' | 'QUERIED' | 'PAID' | 'REJECTED';
+
+export interface InsurerClaimItem {
+  id: string;
+  description: string;
+  category: 'CLINICAL' | 'PHARMACY' | 'OPTICAL';
+  amount: number;
+  tariffCode?: string;
+}
+
+export interface ClaimableInsurerVisit {
+  visitId: string;
+  patientId: string;
+  patientName: string;
+  memberNumber?: string;
+  insuranceSchemeId?: string;
+  visitDate: string;
+  items: InsurerClaimItem[];
+  preauthReferences: string[];
+  billAmount: number; // Gross of the insurer-covered items
+  totalAmount: number; // Insurer share billed on the visit
+}
+
+export interface InsurerClaim {
+  id: string;
+  batchId: string;
+  visitId: string;
+  patientId: string;
+  claimNo: number;
+  memberNumber?: string;
+  memberName?: string;
+  insuranceSchemeId?: string;
+  visitDate: string;
+  items: InsurerClaimItem[];
+  preauthReferences: string[];
+  billAmount: number;
+  totalAmount: number;
+  status: InsurerClaimStatus;
+  queryNotes?: string;
+  rejectionReason?: string;
+  paidAmount?: number;
+  paidAt?: string;
+  submittedAt?: string;
+}
+
+export interface InsurerClaimBatch {
+  id: string;
+  batchNumber: string; // IC-YYYYMMDD-NNNN
+  insurer: InsuranceProvider;
+  periodStart: string;
+  periodEnd: string;
+  status: 'DRAFT' | 'SUBMITTED' | 'CLOSED';
+  claimCount: number;
+  totalAmount: number;
+  submissionReference?: string;
+  submittedAt?: string;
+  claims: InsurerClaim[];
+}
+
+export interface NHIFClaimFormData {
+  visitId: string;
+  visitDate: string;
+  facilityCode?: string;
+  folioNo?: number;
+  patient: {
+    id: string;
+    name: string;
+    dob?: string;
+    gender?: string;
+    phone?: string;
+    address?: string;
+  };
+  cardNo: string;
+  authorizationNo?: string;
+  memberName?: string;
+  visitTypeId?: VisitType;
+  referralNo?: string;
+  chiefComplaint?: string;
+  diagnoses: string[];
+  practitionerName?: string;
+  items: NHIFClaimItem[];
+  totalAmount: number;
+}
+
+export type AppointmentStatus = 'SCHEDULED' | 'CONFIRMED' | 'LATE' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW';
+
 export interface Appointment {
   id: string;
   patientId: string;
@@ -107,10 +249,104 @@ export interface Appointment {
   priority: AppointmentPriority;
   assignedDoctorId?: string;
   assignedDepartment?: string;
-  status: 'SCHEDULED' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED';
+  status: AppointmentStatus;
+  // Appointment book fields (absent on the check-in appointment stored on the patient)
+  providerId?: string;
+  providerName?: string;
+  patientName?: string;
+  patientPhone?: string;
+  durationMinutes?: number;
+  notes?: string;
+  cancelReason?: string;
+  checkedInAt?: string;
+  reminderLanguage?: ReminderLanguage;
+  reminders?: AppointmentReminder[];
+}
+
+export type ReminderLanguage = 'en' | 'sw';
+
+export type AppointmentReminderStatus = 'SCHEDULED' | 'SENDING' | 'SENT' | 'DELIVERED' | 'FAILED' | 'SKIPPED' | 'CANCELLED';
+
+/** An SMS reminder sent ahead of an appointment */
+export interface AppointmentReminder {
+  id: string;
+  kind: '24H' | '2H';
+  status: AppointmentReminderStatus;
+  sendAt: string;
+  sentAt?: string;
+  deliveredAt?: string;
+  lastError?: string;
+}
+
+/** A block of a provider's weekly bookable hours; weekday 0 = Sunday */
+export interface ProviderScheduleBlock {
+  id?: string;
+  providerId: string;
+  weekday: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface AppointmentSlot {
+  time: string;
+  endTime: string;
+}
+
+export interface AppointmentHistoryEntry {
+  id: string;
+  appointmentId: string;
+  action: 'BOOKED' | 'RESCHEDULED' | 'CANCELLED' | 'STATUS_CHANGED' | 'CHECKED_IN';
+  fromDate?: string;
+  fromTime?: string;
+  fromProviderId?: string;
+  toDate?: string;
+  toTime?: string;
+  toProviderId?: string;
+  fromStatus?: AppointmentStatus;
+  toStatus?: AppointmentStatus;
+  reason?: string;
+  changedBy?: string;
+  changedAt: string;
+}
+
+/** A patient waiting for an earlier appointment; providerId empty = any provider */
+export interface WaitlistEntry {
+  id: string;
+  patientId: string;
+  patientName?: string;
+  patientPhone?: string;
+  appointmentType: AppointmentType;
+  providerId?: string;
+  providerName?: string;
+  earliestDate: string;
+  latestDate?: string;
+  priority: AppointmentPriority;
+  notes?: string;
+  status: 'WAITING' | 'BOOKED' | 'REMOVED';
+  createdAt: string;
+}
+
+export interface NoShowReportRow {
+  key: string;
+  label: string;
+  due: number;
+  attended: number;
+  late: number;
+  noShows: number;
+  noShowRate: number;
+}
+
+export interface NoShowReport {
+  from: string;
+  to: string;
+  totals: NoShowReportRow;
+  byProvider: NoShowReportRow[];
+  byType: NoShowReportRow[];
 }
 
 export interface PrescriptionHistoryEvent {
+  id?: string;
+  visitId?: string;
   date: string;
   od: string;
   os: string;
@@ -127,8 +363,397 @@ export interface Medication {
   form: 'Tablet' | 'Capsule' | 'Drops' | 'Ointment' | 'Syrup';
   price: number;
   stock: number;
+  reorderLevel?: number;
   isCoveredByNHIF: boolean;
   isCoveredByPrivate?: boolean;
+  tariffCode?: string; // Tariff item it is billed from when dispensed
+}
+
+export type StockMovementType = 'OPENING' | 'RECEIPT' | 'DISPENSE' | 'ADJUSTMENT';
+
+export type StockAdjustmentReason =
+  | 'DAMAGED'
+  | 'EXPIRED'
+  | 'LOST'
+  | 'COUNT_CORRECTION'
+  | 'RETURNED_TO_SUPPLIER'
+  | 'OTHER';
+
+export interface MedicationBatch {
+  id: string;
+  medicationId: string;
+  batchNo: string;
+  expiryDate?: string; // Not set for the opening-balance batch
+  quantityReceived: number;
+  quantityRemaining: number;
+  unitCost?: number;
+  grnId?: string;
+}
+
+export interface StockMovement {
+  id: string;
+  medicationId: string;
+  batchId?: string;
+  batchNo?: string;
+  movementType: StockMovementType;
+  quantity: number; // Positive = in, negative = out
+  balanceAfter: number;
+  reason?: StockAdjustmentReason;
+  notes?: string;
+  grnNumber?: string;
+  patientId?: string;
+  createdAt: string;
+}
+
+export interface GoodsReceivedItem {
+  medicationId: string;
+  medicationName?: string;
+  batchNo: string;
+  expiryDate: string;
+  quantity: number;
+  unitCost?: number;
+}
+
+export interface GoodsReceivedNote {
+  id: string;
+  grnNumber: string;
+  supplierName: string;
+  supplierInvoiceNo?: string;
+  receivedDate: string;
+  notes?: string;
+  totalCost: number;
+  items: GoodsReceivedItem[];
+  createdAt: string;
+}
+
+export interface StockAllocation {
+  medicationId: string;
+  batchId: string;
+  batchNo: string;
+  expiryDate?: string;
+  quantity: number;
+  balanceAfter: number;
+}
+
+export interface LowStockAlert {
+  medicationId: string;
+  name: string;
+  dosage?: string;
+  form: string;
+  stock: number;
+  reorderLevel: number;
+}
+
+export interface ExpiryAlert {
+  batchId: string;
+  medicationId: string;
+  name: string;
+  batchNo: string;
+  expiryDate: string;
+  quantityRemaining: number;
+  daysToExpiry: number; // Negative once expired
+}
+
+export type PaymentMethod = 'CASH' | 'CARD' | 'MOBILE_MONEY' | 'INSURANCE';
+
+export type MobileMoneyNetwork = 'MPESA' | 'TIGOPESA' | 'AIRTELMONEY';
+
+export interface Payment {
+  id: string;
+  receiptNumber: string; // Shared by all lines tendered together
+  visitId: string;
+  patientId: string;
+  method: PaymentMethod;
+  amount: number; // Applied to the bill
+  amountTendered?: number; // Cash handed over
+  changeGiven: number;
+  referenceNumber?: string;
+  provider?: MobileMoneyNetwork; // Network for mobile money payments
+  notes?: string;
+  receivedAt: string;
+  receivedBy?: string; // Cashier user ID
+}
+
+/**
+ * System-wide settings saved from System Settings
+ */
+export interface SystemSettings {
+  clinicName: string;
+  clinicTagline: string;
+  clinicAddress: string;
+  clinicPhone: string;
+  clinicEmail: string;
+  workingHoursStart: string; // HH:MM, earliest appointment time
+  workingHoursEnd: string; // HH:MM, latest appointment time
+  enableNotifications: boolean;
+  enableAuditLogging: boolean; // Record user activity reported by the app
+  updatedAt?: string;
+}
+
+/**
+ * Printer choice for this workstation (kept in the browser, not shared)
+ */
+export interface PrinterSettings {
+  useThermalPrinter: boolean; // Receipts, queue tickets and job tickets on the 80mm printer instead of A4 PDF
+  printerName: string; // Thermal printer configured on the server
+  previewMode: boolean; // Show the ESC/POS stream as text instead of printing
+}
+
+export type FiscalReceiptStatus = 'PENDING' | 'FISCALISED' | 'FAILED';
+
+export interface FiscalReceipt {
+  id: string;
+  receiptNumber: string;
+  visitId: string;
+  patientId: string;
+  patientName?: string;
+  device: string; // Fiscal device adapter (emulator, vfd, ...)
+  amount: number; // Paid by the patient on the receipt
+  status: FiscalReceiptStatus;
+  verificationCode?: string; // TRA receipt verification code
+  verificationUrl?: string;
+  zNumber?: string;
+  fiscalCounter?: number;
+  fiscalisedAt?: string;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  createdAt: string;
+}
+
+export interface PaymentLine {
+  method: PaymentMethod;
+  amount: number;
+  amountTendered?: number;
+  referenceNumber?: string;
+  notes?: string;
+}
+
+export interface VisitBalance {
+  billTotal: number; // Net of voided items and approved credit notes
+  amountPaid: number; // Net of refunds paid back
+  credited?: number;
+  refunded?: number;
+  writtenOff?: number; // Approved patient write-offs
+  outstanding: number;
+}
+
+export type BillAdjustmentType = 'VOID' | 'CREDIT_NOTE';
+
+export interface BillAdjustment {
+  id: string;
+  adjustmentNumber: string;
+  type: BillAdjustmentType;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  visitId: string;
+  patientId: string;
+  patientName?: string;
+  billItemId: string;
+  description: string;
+  category: BillItem['category'];
+  itemAmount: number;
+  amount: number;
+  refundAmount: number;
+  refundMethod?: Exclude<PaymentMethod, 'INSURANCE'>;
+  reason: string;
+  requestedBy: string;
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNotes?: string;
+}
+
+export type DebtorType = 'PATIENT' | 'INSURER';
+
+export interface Receivable {
+  visitId: string;
+  patientId: string;
+  patientName: string;
+  patientPhone?: string;
+  visitDate: string;
+  debtorType: DebtorType;
+  insurer?: InsuranceProvider; // INSURER debts
+  claimReference?: string; // NHIF folio or insurer claim the debt is on
+  claimStatus?: string;
+  billed: number; // Share of the bill this debtor is responsible for
+  paid: number;
+  writtenOff: number;
+  pendingWriteOff: number;
+  balance: number;
+}
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface WriteOff {
+  id: string;
+  writeOffNumber: string; // WO-YYYYMMDD-NNNN
+  debtorType: DebtorType;
+  insurer?: InsuranceProvider;
+  visitId: string;
+  patientId: string;
+  patientName?: string;
+  amount: number;
+  reason: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  requestedBy: string;
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNotes?: string;
+}
+
+export interface CashierShift {
+  id: string;
+  shiftNumber: string;
+  cashierId: string;
+  cashierName?: string;
+  status: 'OPEN' | 'CLOSED';
+  openingFloat: number;
+  openedAt: string;
+  countedCash?: number;
+  expectedCash?: number;
+  cashVariance?: number; // Counted - expected (negative = short)
+  closedAt?: string;
+  closingNotes?: string;
+}
+
+export interface ShiftReport {
+  shiftNumber: string;
+  cashierName?: string;
+  openedAt: string;
+  closedAt?: string | null;
+  openingFloat: number;
+  receiptCount: number;
+  totalTaken: number;
+  changeGiven: number;
+  refundsPaid: number; // Credit note refunds paid out during the shift
+  cashRefunds: number;
+  byMethod: { method: PaymentMethod; count: number; amount: number; declared: number | null; variance: number | null }[];
+  byPayer: { payer: InsuranceType; count: number; amount: number; methods: Record<PaymentMethod, number> }[];
+  expectedCash: number;
+  countedCash: number | null;
+  cashVariance: number | null;
+}
+
+export interface MobileMoneyRequest {
+  id: string;
+  visitId: string;
+  network: MobileMoneyNetwork;
+  msisdn: string;
+  amount: number;
+  status: 'PENDING' | 'SUCCESS' | 'FAILED';
+  transactionId?: string;
+  failureReason?: string;
+  receiptNumber?: string; // Receipt the confirmed payment was recorded under
+  createdAt: string;
+}
+
+export type TariffGroup =
+  | 'CONSULTATION'
+  | 'TEST'
+  | 'PROCEDURE'
+  | 'LENS_TYPE'
+  | 'LENS_INDEX'
+  | 'EDGE_COLOR'
+  | 'COATING'
+  | 'FRAME'
+  | 'LIMIT'
+  | 'MEDICATION';
+
+/**
+ * Who a tariff price applies to: cash patients, NHIF, or a private insurer by name.
+ * For NHIF the price is what NHIF reimburses; an item without one is not NHIF-covered.
+ */
+export type TariffPayer = 'CASH' | InsuranceProvider;
+
+export interface TariffPrice {
+  id: string;
+  payer: TariffPayer;
+  price: number;
+  effectiveFrom: string; // YYYY-MM-DD
+  effectiveTo?: string; // Last day the price applies; unset while current
+}
+
+export interface TariffItem {
+  id: string;
+  code: string; // Service code, e.g. EYE_CONSULTATION
+  name: string;
+  category: BillItem['category'];
+  group: TariffGroup;
+  nhifItemCode?: string;
+  requiresPreauth: boolean; // Private insurers must approve it before they are billed
+  isActive: boolean;
+  prices: TariffPrice[];
+}
+
+/**
+ * Benefit rules of a private insurer scheme. Coverage is the share (0-1) of each
+ * bill category the insurer pays; caps and limits are in TZS, unset = no cap.
+ */
+export interface InsuranceScheme {
+  id: string;
+  insurer: InsuranceProvider;
+  code: string;
+  name: string;
+  coverage: Record<BillItem['category'], number>;
+  annualOpticalLimit?: number; // Per calendar year, across visits
+  frameCap?: number;
+  lensCap?: number;
+  copayAmount: number; // Fixed amount the patient pays per visit
+  excludedCodes: string[]; // Tariff service codes never covered
+  isActive: boolean;
+}
+
+export interface BenefitLine {
+  itemId: string;
+  description: string;
+  category: BillItem['category'];
+  tariffCode?: string;
+  amount: number;
+  covered: number;
+  patientPays: number;
+  note?: string; // Why the insurer pays less than the full amount
+}
+
+export interface BenefitBreakdown {
+  lines: BenefitLine[];
+  copay: number;
+  totalCovered: number; // After the co-pay
+  totalPatient: number;
+  opticalLimitRemaining?: number;
+}
+
+export type PreauthStatus = 'REQUESTED' | 'APPROVED' | 'PARTIALLY_APPROVED' | 'DECLINED';
+
+export interface PreauthItem {
+  billItemId?: string;
+  description: string;
+  tariffCode?: string;
+  amount: number; // Insurer share asked for
+}
+
+/**
+ * Private insurer pre-approval of items on a visit; the approved amount caps what
+ * may be billed to the insurer for items whose tariff requires pre-authorization
+ */
+export interface Preauthorization {
+  id: string;
+  preauthNumber: string; // PA-YYYYMMDD-NNNN
+  visitId: string;
+  patientId: string;
+  insurer: InsuranceProvider;
+  insuranceSchemeId?: string;
+  items: PreauthItem[];
+  requestedAmount: number;
+  approvedAmount?: number; // Set once the insurer has replied
+  status: PreauthStatus;
+  approvalReference?: string;
+  notes?: string;
+  requestedBy: string;
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNotes?: string;
 }
 
 export interface Patient {
@@ -142,6 +767,7 @@ export interface Patient {
   gender: string;
   insuranceType: InsuranceType;
   insuranceProvider?: InsuranceProvider; // Specific insurance provider
+  insuranceSchemeId?: string; // Private insurer benefit scheme
   insuranceProviderName?: string; // Legacy field, kept for compatibility
   insuranceNumber?: string;
   nhifAuthNumber?: string;
@@ -155,22 +781,164 @@ export interface Patient {
   diagnosis?: string;
   appointment?: Appointment; // Current appointment
   visitId?: string; // Current visit ID (for NHIF verification)
-  prescription?: {
+  prescription?: PatientPrescription;
+  billItems: BillItem[];
+  prescriptionHistory?: PrescriptionHistoryEvent[];
+  encounters?: Encounter[]; // Encounter history, newest first
+}
+
+export interface PatientPrescription {
+  od: string;
+  os: string;
+  add?: string;
+  addOd?: string;
+  addOs?: string;
+  edgeColor?: string;
+  medications?: Array<{
+    name: string;
+    dosage: string;
+    frequency: string;
+    duration: string;
+  }>;
+  verificationCode?: string; // Encoded in the QR on the printed prescription
+  verificationUrl?: string; // Public verify link for the QR, when the server has a public address
+}
+
+/**
+ * What goes on the printed spectacle and medication prescriptions handed to the
+ * patient at the end of a consultation
+ */
+export interface PrescriptionDocumentData {
+  issuedAt: string;
+  visitId?: string;
+  verificationCode?: string;
+  verificationUrl?: string; // Opened by the QR code; without it the QR carries the document details
+  patient: {
+    id: string;
+    name: string;
+    dob?: string;
+    gender?: string;
+    phone?: string;
+  };
+  prescriber: {
+    name: string;
+    registrationNumber?: string;
+    role?: string;
+  };
+  spectacle?: {
     od: string;
     os: string;
-    add?: string;
     addOd?: string;
     addOs?: string;
-    edgeColor?: string;
-    medications?: Array<{
-      name: string;
-      dosage: string;
-      frequency: string;
-      duration: string;
-    }>;
+    pupillaryDistance?: string;
+    segmentHeight?: string;
+    lensType?: string;
   };
+  medications?: Array<{
+    name: string;
+    strength?: string;
+    dosage?: string;
+    route?: string;
+    frequency: string;
+    duration: string;
+    instructions?: string;
+  }>;
+}
+
+/**
+ * A single clinical encounter built on a Visit.
+ * Each encounter owns its own notes, refraction, diagnoses and bill items,
+ * so seeing a returning patient never overwrites a previous exam.
+ */
+export interface Encounter extends Visit {
+  providerId?: string;
+  providerName?: string;
+  chiefComplaint?: string;
+  clinicalNotes?: string;
+  consultationNotes?: string;
+  diagnoses: string[];
+  refraction?: PatientPrescription;
   billItems: BillItem[];
-  prescriptionHistory?: PrescriptionHistoryEvent[];
+  completedAt?: string;
+}
+
+export type TonometryMethod =
+  | 'Goldmann Applanation'
+  | 'Non-Contact Tonometry (NCT)'
+  | 'Tono-Pen'
+  | 'iCare'
+  | 'Pneumatonometry';
+
+export type PrismBase = 'BI' | 'BO' | 'BU' | 'BD';
+
+/**
+ * Examination findings for one eye. Acuities are as recorded (Snellen such as 6/9 or
+ * 20/30, CF/HM/PL/NPL, near in N-point); refraction is in dioptres, axis in degrees and
+ * prism in prism dioptres.
+ */
+export interface EyeExamEye {
+  vaDistance?: string;
+  vaNear?: string;
+  vaPinhole?: string;
+  vaBestCorrected?: string;
+  iopMmHg?: number;
+  pupilSizeMm?: number;
+  pupilReaction?: string;
+  cupDiscRatio?: number; // Vertical, 0 to 1
+  sphere?: number;
+  cylinder?: number;
+  axis?: number;
+  add?: number;
+  prism?: number;
+  prismBase?: PrismBase;
+}
+
+/**
+ * Structured eye examination recorded at an encounter, one per visit
+ */
+export interface EyeExam {
+  id?: string;
+  visitId: string;
+  patientId: string;
+  providerId?: string;
+  visitDate?: string;
+  od: EyeExamEye;
+  os: EyeExamEye;
+  tonometryMethod?: TonometryMethod;
+  isDilated: boolean;
+  pupillaryDistanceMm?: number;
+  pupils?: string;
+  extraocularMovements?: string;
+  anteriorSegment?: string;
+  posteriorSegment?: string;
+  slitLamp?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Target IOP band (mmHg) per eye for glaucoma follow-up; either end may be open
+ */
+export interface IopTarget {
+  patientId: string;
+  od: { low?: number; high?: number };
+  os: { low?: number; high?: number };
+  notes?: string;
+  setBy?: string;
+  updatedAt?: string;
+}
+
+/**
+ * One eye of a spectacle prescription in dioptres. A cylinder of 0 is spherical and has
+ * no axis; prism is in prism dioptres with its base direction.
+ */
+export interface SpectacleRx {
+  sphere: number;
+  cylinder: number;
+  axis?: number;
+  add?: number;
+  prism?: number;
+  prismBase?: PrismBase;
 }
 
 export interface BillItem {
@@ -180,6 +948,9 @@ export interface BillItem {
   category: 'CLINICAL' | 'PHARMACY' | 'OPTICAL';
   isCoveredByNHIF: boolean;
   isCoveredByPrivate?: boolean; // New field for private insurance eligibility
+  nhifItemCode?: string; // NHIF tariff item code, printed on claim forms
+  tariffCode?: string; // Tariff service code the item was priced from
+  voidedAt?: string; // Set once a void is approved; the item stays on the bill for audit
 }
 
 export interface Provider {
@@ -188,6 +959,7 @@ export interface Provider {
   role: UserRole;
   isNHIFVerified: boolean;
   specialization?: string;
+  registrationNumber?: string; // Professional council registration, printed on prescriptions
   status: 'AVAILABLE' | 'BUSY' | 'ON_BREAK' | 'OFFLINE';
   queue: string[]; // Patient IDs
 }
@@ -0,0 +1,112 @@
+/**
+ * Appointment Book Utilities
+ * Date ranges and time arithmetic for the day / week calendar, and SMS reminder display
+ */
+
+import { Appointment, AppointmentStatus, AppointmentReminder, AppointmentReminderStatus } from '../types';
+
+export type CalendarView = 'day' | 'week';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Local calendar date as YYYY-MM-DD (toISOString would shift it to UTC)
+ */
+export const toLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseLocalDate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: string, days: number): string => {
+  const d = parseLocalDate(date);
+  d.setDate(d.getDate() + days);
+  return toLocalDate(d);
+};
+
+/** 0 = Sunday, matching provider schedule templates */
+export const getWeekday = (date: string): number => parseLocalDate(date).getDay();
+
+/**
+ * Dates shown by the calendar: the day itself, or Monday to Sunday of its week
+ */
+export const getCalendarDays = (view: CalendarView, date: string): string[] => {
+  if (view === 'day') return [date];
+  const monday = addDays(date, -((getWeekday(date) + 6) % 7));
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Appointments that hold their slot and can still be moved or cancelled
+ */
+export const isActiveAppointment = (appointment: Appointment): boolean =>
+  appointment.status === 'SCHEDULED' || appointment.status === 'CONFIRMED' || appointment.status === 'LATE';
+
+/**
+ * Status for display, e.g. "NO SHOW"
+ */
+export const formatAppointmentStatus = (status: AppointmentStatus): string => status.replace('_', ' ');
+
+/**
+ * Whether an appointment's slot is still ahead of us (a freed future slot can go to the waitlist)
+ */
+export const isUpcomingAppointment = (appointment: Appointment): boolean =>
+  new Date(`${appointment.appointmentDate}T${appointment.appointmentTime}`).getTime() > Date.now();
+
+/**
+ * End time of an appointment from its start and length
+ */
+export const getAppointmentEndTime = (appointment: Appointment): string =>
+  minutesToTime(timeToMinutes(appointment.appointmentTime) + (appointment.durationMinutes || 30));
+
+/**
+ * Short heading for a calendar column, e.g. "Mon 14"
+ */
+export const formatDayHeading = (date: string): string =>
+  parseLocalDate(date).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric' });
+
+/**
+ * Heading for the calendar toolbar: "Monday, 14 October 2026" or "14 – 20 Oct 2026"
+ */
+export const formatCalendarRange = (days: string[]): string => {
+  const first = parseLocalDate(days[0]);
+  if (days.length === 1) {
+    return first.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  }
+  const last = parseLocalDate(days[days.length - 1]);
+  return `${first.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })} – ${last.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+};
+
+export const REMINDER_KIND_LABELS: Record<AppointmentReminder['kind'], string> = {
+  '24H': '24 hours before',
+  '2H': '2 hours before',
+};
+
+export const REMINDER_STATUS_STYLES: Record<AppointmentReminderStatus, string> = {
+  SCHEDULED: 'bg-slate-100 text-slate-600',
+  SENDING: 'bg-blue-100 text-blue-700',
+  SENT: 'bg-blue-100 text-blue-700',
+  DELIVERED: 'bg-green-100 text-green-700',
+  FAILED: 'bg-red-100 text-red-700',
+  SKIPPED: 'bg-amber-100 text-amber-700',
+  CANCELLED: 'bg-slate-100 text-slate-400',
+};
+
+/**
+ * Reminders worth showing on an appointment: those replaced by a reschedule or
+ * stopped by a cancellation before sending are left out
+ */
+export const getVisibleReminders = (appointment: Appointment): AppointmentReminder[] =>
+  (appointment.reminders || [])
+    .filter(reminder => reminder.status !== 'CANCELLED')
+    .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
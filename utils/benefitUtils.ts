@@ -0,0 +1,118 @@
+/**
+ * Benefit rules engine
+ * Works out, line by line, what NHIF or a private insurer scheme pays on a bill
+ */
+
+import { BillItem, Encounter, InsuranceType, InsuranceScheme, BenefitBreakdown, BenefitLine, TariffItem } from '../types';
+import { INSURANCE_COVERAGE } from '../constants';
+
+export interface BenefitOptions {
+  tariffs?: TariffItem[]; // Identifies frame and lens items for the scheme caps
+  opticalUsed?: number; // Optical benefit already paid this calendar year
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const formatShare = (share: number): string => `${Math.round(share * 100)}% cover`;
+
+/**
+ * Evaluate the payer's rules against bill items (pass billable items only).
+ * Private patients without a scheme get the default private coverage on every category.
+ */
+export const evaluateBenefits = (
+  items: BillItem[],
+  insuranceType: InsuranceType,
+  scheme?: InsuranceScheme | null,
+  options: BenefitOptions = {}
+): BenefitBreakdown => {
+  const { tariffs = [], opticalUsed = 0 } = options;
+  let opticalRemaining = scheme?.annualOpticalLimit !== undefined
+    ? Math.max(scheme.annualOpticalLimit - opticalUsed, 0)
+    : undefined;
+
+  const lines: BenefitLine[] = items.map(item => {
+    const toLine = (covered: number, note?: string): BenefitLine => ({
+      itemId: item.id,
+      description: item.description,
+      category: item.category,
+      tariffCode: item.tariffCode,
+      amount: item.amount,
+      covered: roundAmount(covered),
+      patientPays: roundAmount(item.amount - covered),
+      note,
+    });
+
+    if (insuranceType === InsuranceType.NHIF) {
+      return item.isCoveredByNHIF ? toLine(item.amount) : toLine(0, 'Not covered by NHIF');
+    }
+    if (insuranceType !== InsuranceType.PRIVATE) {
+      return toLine(0);
+    }
+    if (!item.isCoveredByPrivate) {
+      return toLine(0, 'Not covered by insurer');
+    }
+    if (!scheme) {
+      const share = INSURANCE_COVERAGE.PRIVATE_DEFAULT_PERCENTAGE;
+      return toLine(item.amount * share, share < 1 ? formatShare(share) : undefined);
+    }
+    if (item.tariffCode && scheme.excludedCodes.includes(item.tariffCode)) {
+      return toLine(0, 'Excluded by scheme');
+    }
+
+    const share = scheme.coverage[item.category] ?? 0;
+    let covered = item.amount * share;
+    const notes = share < 1 ? [formatShare(share)] : [];
+
+    const group = item.tariffCode ? tariffs.find(t => t.code === item.tariffCode)?.group : undefined;
+    const cap = group === 'FRAME' ? scheme.frameCap : group === 'LENS_TYPE' ? scheme.lensCap : undefined;
+    if (cap !== undefined && covered > cap) {
+      covered = cap;
+      notes.push(`${group === 'FRAME' ? 'frame' : 'lens'} cap TZS ${cap.toLocaleString()}`);
+    }
+
+    if (item.category === 'OPTICAL' && opticalRemaining !== undefined) {
+      if (covered > opticalRemaining) {
+        covered = opticalRemaining;
+        notes.push(opticalRemaining === 0 ? 'annual optical limit used up' : 'annual optical limit reached');
+      }
+      opticalRemaining -= covered;
+    }
+
+    return toLine(covered, notes.join(', ') || undefined);
+  });
+
+  const covered = lines.reduce((sum, line) => sum + line.covered, 0);
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  const copay = insuranceType === InsuranceType.PRIVATE && scheme && covered > 0
+    ? Math.min(scheme.copayAmount, covered)
+    : 0;
+
+  return {
+    lines,
+    copay: roundAmount(copay),
+    totalCovered: roundAmount(covered - copay),
+    totalPatient: roundAmount(total - covered + copay),
+    opticalLimitRemaining: opticalRemaining !== undefined ? roundAmount(opticalRemaining) : undefined,
+  };
+};
+
+/**
+ * Optical benefit a scheme has already paid on the patient's other visits in a calendar year
+ */
+export const getOpticalBenefitUsed = (
+  encounters: Encounter[],
+  scheme: InsuranceScheme | null | undefined,
+  options: { tariffs?: TariffItem[]; year?: number; excludeVisitId?: string } = {}
+): number => {
+  if (!scheme || scheme.annualOpticalLimit === undefined) return 0;
+  const year = String(options.year ?? new Date().getFullYear());
+
+  return encounters
+    .filter(e => e.id !== options.excludeVisitId && e.status !== 'CANCELLED' && (e.visitDate || '').startsWith(year))
+    .sort((a, b) => a.visitDate.localeCompare(b.visitDate))
+    .reduce((used, encounter) => {
+      const opticalItems = encounter.billItems.filter(item => !item.voidedAt && item.category === 'OPTICAL');
+      const breakdown = evaluateBenefits(opticalItems, InsuranceType.PRIVATE, scheme, { tariffs: options.tariffs, opticalUsed: used });
+      return used + breakdown.lines.reduce((sum, line) => sum + line.covered, 0);
+    }, 0);
+};
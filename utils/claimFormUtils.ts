@@ -0,0 +1,233 @@
+/**
+ * NHIF Claim Form Utilities
+ * Generates the NHIF claim form (Form 2A/2B) PDF for a verified NHIF visit
+ */
+
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { NHIFClaimFormData, VisitType } from '../types';
+import { formatDate, getCurrentDate } from './dateTimeUtils';
+import { addPDFHeader, getClinicName } from './documentHeader';
+
+const VISIT_TYPE_LABELS: Record<VisitType, string> = {
+  [VisitType.NORMAL]: '1 - Normal Visit',
+  [VisitType.EMERGENCY]: '2 - Emergency',
+  [VisitType.REFERRAL]: '3 - Referral',
+  [VisitType.FOLLOW_UP]: '4 - Follow-up',
+};
+
+// ICD-10 code at the start of a diagnosis entry, e.g. "H52.1 - Myopia"
+const ICD10_PATTERN = /^([A-TV-Z][0-9][0-9A-Z](?:\.[0-9A-Z]{1,4})?)\b/;
+
+/**
+ * Split encounter diagnoses into ICD-10 code and description
+ */
+export const parseClaimDiagnoses = (diagnoses: string[]): Array<{ code: string; description: string }> => {
+  return diagnoses.map(entry => {
+    const match = entry.trim().match(ICD10_PATTERN);
+    if (!match) {
+      return { code: '', description: entry.trim() };
+    }
+    const description = entry.trim().slice(match[1].length).replace(/^\s*[-:]\s*/, '');
+    return { code: match[1], description };
+  });
+};
+
+/**
+ * Draw a labelled field ("Label: value"); blank values are left as a line to fill in by hand
+ */
+const drawField = (doc: jsPDF, label: string, value: string, x: number, y: number): void => {
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100, 100, 100);
+  doc.text(`${label}:`, x, y);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 0, 0);
+  doc.text(value || '____________', x + 38, y);
+};
+
+/**
+ * Draw a section title bar
+ */
+const drawSectionTitle = (doc: jsPDF, title: string, y: number, pageWidth: number): number => {
+  doc.setFillColor(235, 245, 240);
+  doc.rect(20, y - 5, pageWidth - 40, 7, 'F');
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 102, 51); // Brand green
+  doc.text(title, 22, y);
+  doc.setFontSize(9);
+  doc.setTextColor(0, 0, 0);
+  return y + 8;
+};
+
+/**
+ * Generate NHIF Claim Form (Form 2A/2B) PDF
+ */
+export const generateNHIFClaimFormPDF = async (form: NHIFClaimFormData): Promise<void> => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // Add hospital header with logo
+  let yPosition = await addPDFHeader(doc, pageWidth);
+
+  // Form Title
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'bold');
+  doc.text('NHIF CLAIM FORM (FORM 2A/2B)', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 6;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100, 100, 100);
+  doc.text('National Health Insurance Fund - Outpatient Claim', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 10;
+
+  // Part A - Facility and member particulars
+  yPosition = drawSectionTitle(doc, 'PART A: FACILITY & MEMBER PARTICULARS', yPosition, pageWidth);
+  const col2 = pageWidth / 2 + 5;
+
+  drawField(doc, 'Facility', getClinicName(), 22, yPosition);
+  drawField(doc, 'Facility Code', form.facilityCode || '', col2, yPosition);
+  yPosition += 6;
+  drawField(doc, 'Folio No', form.folioNo !== undefined ? String(form.folioNo) : '', 22, yPosition);
+  drawField(doc, 'Attendance Date', formatDate(form.visitDate), col2, yPosition);
+  yPosition += 6;
+  drawField(doc, 'Patient Name', form.patient.name, 22, yPosition);
+  drawField(doc, 'Patient File No', form.patient.id, col2, yPosition);
+  yPosition += 6;
+  drawField(doc, 'Date of Birth', form.patient.dob ? formatDate(form.patient.dob) : '', 22, yPosition);
+  drawField(doc, 'Sex', form.patient.gender || '', col2, yPosition);
+  yPosition += 6;
+  drawField(doc, 'Card Number', form.cardNo, 22, yPosition);
+  drawField(doc, 'Authorization No', form.authorizationNo || '', col2, yPosition);
+  yPosition += 6;
+  drawField(doc, 'Member Name', form.memberName || form.patient.name, 22, yPosition);
+  drawField(doc, 'Visit Type', form.visitTypeId ? VISIT_TYPE_LABELS[form.visitTypeId] || String(form.visitTypeId) : '', col2, yPosition);
+  yPosition += 6;
+  if (form.referralNo) {
+    drawField(doc, 'Referral No', form.referralNo, 22, yPosition);
+    yPosition += 6;
+  }
+
+  yPosition += 4;
+
+  // Part B - Diagnosis
+  yPosition = drawSectionTitle(doc, 'PART B: DIAGNOSIS (ICD-10)', yPosition, pageWidth);
+  const diagnoses = parseClaimDiagnoses(form.diagnoses);
+  (doc as any).autoTable({
+    head: [['#', 'ICD-10 Code', 'Diagnosis']],
+    body: diagnoses.length > 0
+      ? diagnoses.map((d, index) => [String(index + 1), d.code || '—', d.description])
+      : [['1', '', 'No diagnosis recorded for this encounter']],
+    startY: yPosition,
+    styles: { fontSize: 9, cellPadding: 2.5 },
+    headStyles: {
+      fillColor: [0, 102, 51], // Brand green
+      textColor: [255, 255, 255],
+      fontStyle: 'bold'
+    },
+    margin: { left: 20, right: 20 },
+    columnStyles: {
+      0: { cellWidth: 12 },
+      1: { cellWidth: 30 },
+    },
+  });
+  yPosition = ((doc as any).lastAutoTable?.finalY || yPosition + 15) + 8;
+
+  // Part C - Services rendered
+  yPosition = drawSectionTitle(doc, 'PART C: SERVICES RENDERED', yPosition, pageWidth);
+  (doc as any).autoTable({
+    head: [['#', 'NHIF Item Code', 'Description', 'Qty', 'Unit Price (TZS)', 'Amount (TZS)']],
+    body: form.items.map((item, index) => [
+      String(index + 1),
+      item.itemCode || '',
+      item.description,
+      '1',
+      item.amount.toLocaleString(),
+      item.amount.toLocaleString(),
+    ]),
+    foot: [['', '', 'TOTAL CLAIMED', '', '', form.totalAmount.toLocaleString()]],
+    startY: yPosition,
+    styles: { fontSize: 9, cellPadding: 2.5 },
+    headStyles: {
+      fillColor: [0, 102, 51], // Brand green
+      textColor: [255, 255, 255],
+      fontStyle: 'bold'
+    },
+    footStyles: { fillColor: [245, 245, 245], textColor: [0, 0, 0], fontStyle: 'bold' },
+    alternateRowStyles: { fillColor: [245, 245, 245] },
+    margin: { left: 20, right: 20 },
+    columnStyles: {
+      0: { cellWidth: 10 },
+      1: { cellWidth: 28 },
+      3: { cellWidth: 12, halign: 'center' },
+      4: { cellWidth: 30, halign: 'right' },
+      5: { cellWidth: 30, halign: 'right' },
+    },
+  });
+  yPosition = ((doc as any).lastAutoTable?.finalY || yPosition + 20) + 12;
+
+  // Signature blocks need about 45mm; start a new page if they won't fit
+  if (yPosition > pageHeight - 65) {
+    doc.addPage();
+    yPosition = 25;
+  }
+
+  yPosition = drawSectionTitle(doc, 'DECLARATIONS', yPosition, pageWidth);
+  const blockWidth = (pageWidth - 50) / 2;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(0, 102, 51);
+  doc.text('Attending Practitioner', 22, yPosition);
+  doc.text('Member / Patient', 22 + blockWidth + 10, yPosition);
+
+  yPosition += 5;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(60, 60, 60);
+  doc.text(
+    doc.splitTextToSize('I certify that I examined the patient and provided the services listed above.', blockWidth),
+    22,
+    yPosition
+  );
+  doc.text(
+    doc.splitTextToSize('I confirm that I received the services listed above on the date shown.', blockWidth),
+    22 + blockWidth + 10,
+    yPosition
+  );
+
+  yPosition += 14;
+  const signatureLabels = ['Name', 'Designation', 'Signature', 'Date'];
+  doc.setFontSize(9);
+  signatureLabels.forEach((label, index) => {
+    const rowY = yPosition + index * 8;
+    const practitionerValue = index === 0 ? form.practitionerName || '' : '';
+    const memberValue = index === 0 ? form.memberName || form.patient.name : '';
+
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(100, 100, 100);
+    doc.text(`${label}:`, 22, rowY);
+    doc.text(`${label}:`, 22 + blockWidth + 10, rowY);
+    doc.setDrawColor(180, 180, 180);
+    doc.line(22 + 45, rowY + 1, 22 + blockWidth, rowY + 1);
+    doc.line(22 + blockWidth + 10 + 45, rowY + 1, pageWidth - 20, rowY + 1);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(0, 0, 0);
+    if (practitionerValue) doc.text(practitionerValue, 22 + 46, rowY);
+    if (memberValue) doc.text(memberValue, 22 + blockWidth + 10 + 46, rowY);
+  });
+
+  // Footer
+  doc.setFontSize(8);
+  doc.setTextColor(150, 150, 150);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Generated by ${getClinicName()} on ${formatDate(getCurrentDate())}`, pageWidth / 2, pageHeight - 15, { align: 'center' });
+
+  // Save PDF
+  const reference = form.authorizationNo || form.cardNo;
+  const filename = `NHIF-Claim-Form-${reference}-${form.visitDate}.pdf`;
+  doc.save(filename);
+};
@@ -5,10 +5,16 @@
  */
 
 /**
- * Gets current date in YYYY-MM-DD format (for date inputs)
+ * Gets current date in YYYY-MM-DD format (for date inputs).
+ * Uses the workstation's local calendar day, not UTC, so the date turns over at
+ * midnight in the clinic rather than three hours later.
  */
 export const getCurrentDate = (): string => {
-  return new Date().toISOString().split('T')[0];
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
 };
 
 /**
@@ -22,9 +28,14 @@ export const getCurrentTime = (): string => {
 };
 
 /**
- * Gets next available appointment time (rounds to nearest 15 minutes, adds 30 min buffer)
+ * Gets next available appointment time (rounds to nearest 15 minutes, adds 30 min buffer),
+ * kept within the clinic's working hours (HH:MM, from System Settings)
  */
-export const getNextAvailableTime = (): string => {
+export const getNextAvailableTime = (
+  workingHours: { start: string; end: string } = { start: '08:00', end: '18:00' }
+): string => {
+  const [startHours, startMinutes] = workingHours.start.split(':').map(Number);
+  const [endHours, endMinutes] = workingHours.end.split(':').map(Number);
   const now = new Date();
   const currentMinutes = now.getMinutes();
   const currentHours = now.getHours();
@@ -45,13 +56,14 @@ export const getNextAvailableTime = (): string => {
     nextHours += 1;
   }
   
-  // Ensure within business hours (8 AM - 6 PM)
-  if (nextHours < 8) {
-    nextHours = 8;
-    nextMinutes = 0;
-  } else if (nextHours >= 18) {
-    nextHours = 18;
-    nextMinutes = 0;
+  // Ensure within working hours
+  const next = nextHours * 60 + nextMinutes;
+  if (next < startHours * 60 + startMinutes) {
+    nextHours = startHours;
+    nextMinutes = startMinutes;
+  } else if (next >= endHours * 60 + endMinutes) {
+    nextHours = endHours;
+    nextMinutes = endMinutes;
   }
   
   return `${String(nextHours).padStart(2, '0')}:${String(nextMinutes).padStart(2, '0')}`;
@@ -5,10 +5,46 @@
 
 import jsPDF from 'jspdf';
 import * as XLSX from 'xlsx';
+import { EscPosBuilder } from './escpos';
 
 export const HOSPITAL_NAME = 'MSIMBAZI EYE CARE';
 export const HOSPITAL_TAGLINE = 'Professional Eye Care Services';
 
+export interface ClinicDetails {
+  name: string;
+  tagline: string;
+  address: string;
+  phone: string;
+  email: string;
+}
+
+// Replaced from the saved system settings once they load (SettingsContext)
+let clinicDetails: ClinicDetails = { name: HOSPITAL_NAME, tagline: HOSPITAL_TAGLINE, address: '', phone: '', email: '' };
+
+/**
+ * Set the clinic details printed on documents
+ */
+export const setClinicDetails = (details: ClinicDetails): void => {
+  clinicDetails = {
+    ...details,
+    name: details.name.trim() ? details.name.trim().toUpperCase() : HOSPITAL_NAME,
+  };
+};
+
+/**
+ * Clinic name as printed on documents
+ */
+export const getClinicName = (): string => clinicDetails.name;
+
+/**
+ * Address, phone and email on one line (empty when none are set)
+ */
+export const getClinicContactLine = (): string =>
+  [clinicDetails.address, clinicDetails.phone, clinicDetails.email]
+    .map(part => part.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(' | ');
+
 /**
  * Add hospital header with logo to PDF document
  * @param doc - jsPDF document instance
@@ -34,14 +70,21 @@ export const addPDFHeader = async (doc: jsPDF, pageWidth: number): Promise<numbe
     doc.setFontSize(20);
     doc.setTextColor(255, 255, 255); // White text
     doc.setFont('helvetica', 'bold');
-    doc.text(HOSPITAL_NAME, pageWidth / 2, 22, { align: 'center' });
+    doc.text(clinicDetails.name, pageWidth / 2, 18, { align: 'center' });
     
     // Tagline
-    yPosition = 28;
+    yPosition = 25;
     doc.setFontSize(11);
     doc.setTextColor(255, 255, 255);
     doc.setFont('helvetica', 'normal');
-    doc.text(HOSPITAL_TAGLINE, pageWidth / 2, yPosition, { align: 'center' });
+    doc.text(clinicDetails.tagline, pageWidth / 2, yPosition, { align: 'center' });
+
+    // Contact details
+    const contactLine = getClinicContactLine();
+    if (contactLine) {
+      doc.setFontSize(8);
+      doc.text(contactLine, pageWidth / 2, 31, { align: 'center' });
+    }
     
     // Reset text color for content
     doc.setTextColor(0, 0, 0);
@@ -57,13 +100,13 @@ export const addPDFHeader = async (doc: jsPDF, pageWidth: number): Promise<numbe
     doc.setFontSize(20);
     doc.setTextColor(0, 102, 51); // Brand green
     doc.setFont('helvetica', 'bold');
-    doc.text(HOSPITAL_NAME, pageWidth / 2, yPosition, { align: 'center' });
+    doc.text(clinicDetails.name, pageWidth / 2, yPosition, { align: 'center' });
     
     yPosition += 8;
     doc.setFontSize(12);
     doc.setTextColor(100, 100, 100);
     doc.setFont('helvetica', 'normal');
-    doc.text(HOSPITAL_TAGLINE, pageWidth / 2, yPosition, { align: 'center' });
+    doc.text(clinicDetails.tagline, pageWidth / 2, yPosition, { align: 'center' });
     
     yPosition += 15;
     return yPosition;
@@ -81,8 +124,8 @@ export const addExcelHeader = (workbook: XLSX.WorkBook, sheetName: string): void
 
   // Insert header rows at the beginning
   const headerData = [
-    [HOSPITAL_NAME],
-    [HOSPITAL_TAGLINE],
+    [clinicDetails.name],
+    [clinicDetails.tagline],
     [], // Empty row
   ];
 
@@ -123,13 +166,35 @@ export const addExcelHeader = (workbook: XLSX.WorkBook, sheetName: string): void
  */
 export const addCSVHeader = (csvRows: string[]): string[] => {
   return [
-    HOSPITAL_NAME,
-    HOSPITAL_TAGLINE,
+    clinicDetails.name,
+    clinicDetails.tagline,
     '', // Empty row
     ...csvRows,
   ];
 };
 
+/**
+ * Add hospital header to a thermal printer (ESC/POS) job
+ * @param printer - ESC/POS builder for the job
+ * @returns the builder, left-aligned at normal size after the header
+ */
+export const addThermalHeader = (printer: EscPosBuilder): EscPosBuilder => {
+  printer
+    .align('center')
+    .bold(true)
+    .size(true)
+    .line(clinicDetails.name)
+    .size(false)
+    .bold(false)
+    .line(clinicDetails.tagline);
+  [clinicDetails.address, clinicDetails.phone, clinicDetails.email]
+    .filter(part => part.trim())
+    .forEach(part => printer.line(part.replace(/\s+/g, ' ').trim()));
+  return printer
+    .divider('=')
+    .align('left');
+};
+
 /**
  * Load logo as base64 (for future use when logo is available as base64)
  * This function can be used when you have the logo converted to base64
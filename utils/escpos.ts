@@ -0,0 +1,186 @@
+/**
+ * ESC/POS Utilities
+ * Builds command streams for 80mm thermal printers (Epson-compatible ESC/POS) and
+ * renders a stream back as plain text for the print preview
+ */
+
+export const LINE_WIDTH = 48; // Characters per line in Font A on 80mm paper
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+const ALIGN_CODES: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 };
+
+/**
+ * Printers use a single-byte code page; map common punctuation to ASCII and drop the rest
+ */
+const toPrintable = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/✓/g, '*')
+    .replace(/[^\x20-\x7e]/g, '?');
+
+/**
+ * Chainable builder for a print job:
+ *   new EscPosBuilder().align('center').line('Hello').cut().toBytes()
+ */
+export class EscPosBuilder {
+  private bytes: number[] = [];
+  private doubleSize = false;
+
+  constructor() {
+    this.command(ESC, 0x40); // Initialise printer
+  }
+
+  private command(...values: number[]): this {
+    this.bytes.push(...values);
+    return this;
+  }
+
+  /** Characters that fit on a line at the current text size */
+  get width(): number {
+    return this.doubleSize ? LINE_WIDTH / 2 : LINE_WIDTH;
+  }
+
+  align(align: EscPosAlign): this {
+    return this.command(ESC, 0x61, ALIGN_CODES[align]);
+  }
+
+  bold(on: boolean): this {
+    return this.command(ESC, 0x45, on ? 1 : 0);
+  }
+
+  /** Double width and height, for titles and queue numbers */
+  size(double: boolean): this {
+    this.doubleSize = double;
+    return this.command(GS, 0x21, double ? 0x11 : 0x00);
+  }
+
+  text(text: string): this {
+    for (const char of toPrintable(text)) {
+      this.bytes.push(char.charCodeAt(0));
+    }
+    return this;
+  }
+
+  line(text = ''): this {
+    return this.text(text).command(LF);
+  }
+
+  divider(char = '-'): this {
+    return this.line(char.repeat(this.width));
+  }
+
+  /** Label on the left, value on the right; the label is cut short if both do not fit */
+  columns(left: string, right: string): this {
+    const room = Math.max(this.width - right.length - 1, 0);
+    const label = left.length > room ? left.slice(0, room) : left;
+    return this.line(`${label}${' '.repeat(this.width - label.length - right.length)}${right}`);
+  }
+
+  feed(lines: number): this {
+    return this.command(ESC, 0x64, lines);
+  }
+
+  /** QR code (model 2, error correction M) printed at the current alignment */
+  qrCode(data: string, moduleSize = 6): this {
+    const payload = Array.from(toPrintable(data), char => char.charCodeAt(0));
+    const storeLength = payload.length + 3;
+    return this
+      .command(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00)
+      .command(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize)
+      .command(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31)
+      .command(GS, 0x28, 0x6b, storeLength % 256, Math.floor(storeLength / 256), 0x31, 0x50, 0x30, ...payload)
+      .command(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30)
+      .command(LF);
+  }
+
+  /** Feed past the tear bar and partial cut */
+  cut(): this {
+    return this.command(GS, 0x56, 0x42, 0x03);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Render an ESC/POS stream as the printer would lay it out: alignment applied within
+ * LINE_WIDTH, double-size text letter-spaced, QR codes and cuts shown as markers
+ */
+export const renderEscPosPreview = (bytes: Uint8Array): string => {
+  const lines: string[] = [];
+  let current = '';
+  let align: EscPosAlign = 'left';
+  let doubleSize = false;
+  let qrData = '';
+
+  const layout = (content: string) => {
+    const space = Math.max(LINE_WIDTH - content.length, 0);
+    if (align === 'center') return `${' '.repeat(Math.floor(space / 2))}${content}`;
+    if (align === 'right') return `${' '.repeat(space)}${content}`;
+    return content;
+  };
+  const flush = () => {
+    lines.push(layout(doubleSize ? current.split('').join(' ') : current));
+    current = '';
+  };
+
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    if (byte === LF) {
+      flush();
+      i += 1;
+    } else if (byte === ESC) {
+      const code = bytes[i + 1];
+      if (code === 0x40) {
+        align = 'left';
+        doubleSize = false;
+        i += 2;
+      } else if (code === 0x61) {
+        align = (['left', 'center', 'right'] as EscPosAlign[])[bytes[i + 2]] || 'left';
+        i += 3;
+      } else if (code === 0x64) {
+        if (current) flush();
+        for (let n = 0; n < bytes[i + 2]; n++) lines.push('');
+        i += 3;
+      } else {
+        i += 3; // ESC E n and other single-parameter commands
+      }
+    } else if (byte === GS) {
+      const code = bytes[i + 1];
+      if (code === 0x21) {
+        doubleSize = bytes[i + 2] !== 0;
+        i += 3;
+      } else if (code === 0x56) {
+        if (current) flush();
+        lines.push('', `${'- '.repeat(LINE_WIDTH / 2 - 3)}[cut]`);
+        i += bytes[i + 2] >= 0x41 ? 4 : 3;
+      } else if (code === 0x28 && bytes[i + 2] === 0x6b) {
+        const length = bytes[i + 3] + bytes[i + 4] * 256;
+        const fn = bytes[i + 6];
+        const body = bytes.slice(i + 8, i + 5 + length);
+        if (fn === 0x50) qrData = String.fromCharCode(...body);
+        if (fn === 0x51) current += `[QR: ${qrData}]`;
+        i += 5 + length;
+      } else {
+        i += 3;
+      }
+    } else {
+      current += String.fromCharCode(byte);
+      i += 1;
+    }
+  }
+  if (current) flush();
+
+  return lines.join('\n');
+};
@@ -7,7 +7,7 @@ import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import * as XLSX from 'xlsx';
 import { formatDate, getCurrentDate } from './dateTimeUtils';
-import { addPDFHeader, addCSVHeader, HOSPITAL_NAME } from './documentHeader';
+import { addPDFHeader, addCSVHeader, getClinicName } from './documentHeader';
 
 export interface ExportData {
   title: string;
@@ -163,7 +163,7 @@ export const exportToExcel = (data: ExportData): void => {
 
     // Add hospital header to summary data
     const summaryDataWithHeader = [
-      [HOSPITAL_NAME],
+      [getClinicName()],
       ['Professional Eye Care Services'],
       [],
       ...summaryData,
@@ -191,7 +191,7 @@ export const exportToExcel = (data: ExportData): void => {
     data.tables.forEach((table, index) => {
       // Add hospital header to table data
       const tableData = [
-        [HOSPITAL_NAME],
+        [getClinicName()],
         ['Professional Eye Care Services'],
         [],
         [table.title],
@@ -0,0 +1,155 @@
+/**
+ * Eye Exam Utilities
+ * Parsing and range checks for the structured eye exam, matching the checks the server
+ * applies, the readable summary kept in the consultation notes, and logMAR conversion
+ * and target IOP checks for trends across visits
+ */
+
+import { EyeExam, EyeExamEye, IopTarget } from '../types';
+
+export const TONOMETRY_METHODS = [
+  'Goldmann Applanation',
+  'Non-Contact Tonometry (NCT)',
+  'Tono-Pen',
+  'iCare',
+  'Pneumatonometry',
+] as const;
+
+type Measurement = Exclude<keyof EyeExamEye, 'vaDistance' | 'vaNear' | 'vaPinhole' | 'vaBestCorrected' | 'pupilReaction' | 'prismBase'>;
+
+// Range and step per numeric field, in the unit the field is stored in
+export const EYE_EXAM_LIMITS: Record<Measurement, { label: string; unit: string; min: number; max: number; step: number }> = {
+  iopMmHg: { label: 'IOP', unit: 'mmHg', min: 0, max: 80, step: 0.5 },
+  pupilSizeMm: { label: 'Pupil size', unit: 'mm', min: 1, max: 10, step: 0.5 },
+  cupDiscRatio: { label: 'Cup-to-disc ratio', unit: '', min: 0, max: 1, step: 0.05 },
+  sphere: { label: 'Sphere', unit: 'D', min: -30, max: 30, step: 0.25 },
+  cylinder: { label: 'Cylinder', unit: 'D', min: -10, max: 10, step: 0.25 },
+  axis: { label: 'Axis', unit: '°', min: 1, max: 180, step: 1 },
+  add: { label: 'Add', unit: 'D', min: 0.25, max: 4, step: 0.25 },
+  prism: { label: 'Prism', unit: 'Δ', min: 0, max: 20, step: 0.5 },
+};
+
+const DISTANCE_VA_PATTERN = /^(\d{1,2}(\.\d)?\/\d{1,3}(\.\d)?|CF|HM|PL|NPL)$/i;
+const NEAR_VA_PATTERN = /^(N\d{1,2}(\.\d)?|\d{1,2}(\.\d)?\/\d{1,3}(\.\d)?)$/i;
+
+/**
+ * Number typed into a measurement field, ignoring a trailing unit ("64mm", "2Δ", "180°").
+ * Blank gives undefined; anything else unreadable gives NaN so validation reports it.
+ */
+export const parseMeasurement = (value: string): number | undefined => {
+  const trimmed = value.trim().replace(/\s*(mmhg|mm|d|Δ|°|pd)$/i, '');
+  if (!trimmed) return undefined;
+  return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(trimmed) ? Number(trimmed) : NaN;
+};
+
+/**
+ * PD as typed: binocular ("64", "64mm") or monocular right/left ("32/31.5"), summed
+ */
+export const parsePupillaryDistance = (value: string): number | undefined => {
+  const monocular = value.trim().match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*(mm)?$/i);
+  if (monocular) return Number(monocular[1]) + Number(monocular[2]);
+  return parseMeasurement(value);
+};
+
+const onStep = (value: number, step: number): boolean =>
+  Math.abs(value / step - Math.round(value / step)) < 1e-6;
+
+/**
+ * Per-field problems with an exam, keyed like od.iopMmHg; empty when it can be saved
+ */
+export const validateEyeExam = (exam: Pick<EyeExam, 'od' | 'os' | 'pupillaryDistanceMm'>): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  (['od', 'os'] as const).forEach((eye) => {
+    const values = exam[eye];
+    const side = eye.toUpperCase();
+
+    if (values.vaDistance && !DISTANCE_VA_PATTERN.test(values.vaDistance)) {
+      errors[`${eye}.vaDistance`] = `Distance VA ${side} must be Snellen (6/9, 20/30) or CF, HM, PL, NPL`;
+    }
+    if (values.vaPinhole && !DISTANCE_VA_PATTERN.test(values.vaPinhole)) {
+      errors[`${eye}.vaPinhole`] = `Pinhole VA ${side} must be Snellen (6/9, 20/30) or CF, HM, PL, NPL`;
+    }
+    if (values.vaBestCorrected && !DISTANCE_VA_PATTERN.test(values.vaBestCorrected)) {
+      errors[`${eye}.vaBestCorrected`] = `Best-corrected VA ${side} must be Snellen (6/9, 20/30) or CF, HM, PL, NPL`;
+    }
+    if (values.vaNear && !NEAR_VA_PATTERN.test(values.vaNear)) {
+      errors[`${eye}.vaNear`] = `Near VA ${side} must be N-point (N6) or Snellen`;
+    }
+
+    (Object.keys(EYE_EXAM_LIMITS) as Measurement[]).forEach((field) => {
+      const value = values[field];
+      if (value === undefined) return;
+      const { label, unit, min, max, step } = EYE_EXAM_LIMITS[field];
+      if (!Number.isFinite(value) || value < min || value > max) {
+        errors[`${eye}.${field}`] = `${label} ${side} must be between ${min} and ${max}${unit}`;
+      } else if (!onStep(value, step)) {
+        errors[`${eye}.${field}`] = `${label} ${side} must be in steps of ${step}${unit}`;
+      }
+    });
+
+    if (values.cylinder && values.axis === undefined) {
+      errors[`${eye}.axis`] = `Axis ${side} is required with a cylinder`;
+    }
+    if (values.prism && !values.prismBase) {
+      errors[`${eye}.prismBase`] = `Prism base ${side} is required with a prism`;
+    }
+  });
+
+  const pd = exam.pupillaryDistanceMm;
+  if (pd !== undefined && (!Number.isFinite(pd) || pd < 40 || pd > 80)) {
+    errors.pupillaryDistanceMm = 'PD must be between 40 and 80mm';
+  }
+
+  return errors;
+};
+
+const perEye = (od?: string | number, os?: string | number, unit = ''): string =>
+  `OD ${od ?? 'N/A'}${od !== undefined ? unit : ''} OS ${os ?? 'N/A'}${os !== undefined ? unit : ''}`;
+
+/**
+ * Readable summary of the exam for the consultation notes and printed records
+ */
+export const formatEyeExamSummary = (exam: EyeExam): string[] => [
+  'VISUAL ACUITY:',
+  `Distance: ${perEye(exam.od.vaDistance, exam.os.vaDistance)}`,
+  `Near: ${perEye(exam.od.vaNear, exam.os.vaNear)}`,
+  `Pinhole: ${perEye(exam.od.vaPinhole, exam.os.vaPinhole)}`,
+  `Best corrected: ${perEye(exam.od.vaBestCorrected, exam.os.vaBestCorrected)}`,
+  '\nPUPILS:',
+  `General: ${exam.pupils || 'N/A'}`,
+  `Size: ${perEye(exam.od.pupilSizeMm, exam.os.pupilSizeMm, 'mm')}`,
+  `Reactivity: ${perEye(exam.od.pupilReaction, exam.os.pupilReaction)}`,
+  `\nEOM: ${exam.extraocularMovements || 'N/A'}`,
+  `\nIOP: ${perEye(exam.od.iopMmHg, exam.os.iopMmHg, ' mmHg')} (Method: ${exam.tonometryMethod || 'N/A'})`,
+  `Dilated: ${exam.isDilated ? 'Yes' : 'No'}`,
+  `\nANTERIOR SEGMENT: ${exam.anteriorSegment || 'N/A'}`,
+  `\nPOSTERIOR SEGMENT: ${exam.posteriorSegment || 'N/A'}`,
+  `Cup-to-disc ratio: ${perEye(exam.od.cupDiscRatio, exam.os.cupDiscRatio)}`,
+  `\nSLIT LAMP: ${exam.slitLamp || 'N/A'}`,
+];
+
+// Low-vision grades on the logMAR scale (Schulze-Bonsel et al.); PL and NPL have no value
+const LOW_VISION_LOGMAR: Record<string, number> = { CF: 2.0, HM: 2.3 };
+
+/**
+ * Snellen acuity (6/18, 20/60) or CF / HM as logMAR, rounded to 0.01.
+ * undefined when blank or when it has no logMAR equivalent (PL, NPL).
+ */
+export const vaToLogMAR = (va?: string): number | undefined => {
+  if (!va) return undefined;
+  const value = va.trim().toUpperCase();
+  if (value in LOW_VISION_LOGMAR) return LOW_VISION_LOGMAR[value];
+  const fraction = value.match(/^(\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/);
+  if (!fraction) return undefined;
+  const [, test, letters] = fraction.map(Number);
+  if (!test || !letters) return undefined;
+  return Math.round(Math.log10(letters / test) * 100) / 100;
+};
+
+/**
+ * Whether an IOP reading lies outside the patient's target band for that eye
+ */
+export const isOutsideIopTarget = (iop: number | undefined, band?: IopTarget['od']): boolean =>
+  iop !== undefined && !!band &&
+  ((band.high !== undefined && iop > band.high) || (band.low !== undefined && iop < band.low));
@@ -0,0 +1,98 @@
+/**
+ * Insurer Claim Utilities
+ * Turns a private insurer claim batch into the invoice summary (PDF) and the
+ * detailed claim sheet (Excel) sent to the insurer
+ */
+
+import { InsurerClaimBatch, InsurerClaimStatus } from '../types';
+import { ExportData, formatCurrency } from './exportUtils';
+import { formatDate } from './dateTimeUtils';
+
+export const CLAIM_STATUS_LABELS: Record<InsurerClaimStatus, string> = {
+  PENDING: 'Not submitted',
+  SUBMITTED: 'Submitted',
+  QUERIED: 'Queried',
+  PAID: 'Paid',
+  REJECTED: 'Rejected',
+};
+
+const batchPeriod = (batch: InsurerClaimBatch) => ({
+  start: formatDate(batch.periodStart),
+  end: formatDate(batch.periodEnd),
+});
+
+/**
+ * Invoice summary for the insurer: one line per claim with the amount claimed
+ */
+export const buildClaimInvoiceExport = (batch: InsurerClaimBatch): ExportData => ({
+  title: `${batch.insurer} Claim Invoice ${batch.batchNumber}`,
+  period: batch.batchNumber,
+  dateRange: batchPeriod(batch),
+  summary: [
+    { label: 'Insurer', value: batch.insurer },
+    { label: 'Claims', value: batch.claimCount },
+    { label: 'Gross Billed', value: formatCurrency(batch.claims.reduce((sum, c) => sum + c.billAmount, 0)) },
+    { label: 'Amount Claimed', value: formatCurrency(batch.totalAmount) },
+    ...(batch.submissionReference ? [{ label: 'Submission Reference', value: batch.submissionReference }] : []),
+  ],
+  tables: [
+    {
+      title: 'Claims',
+      headers: ['No.', 'Member', 'Member No.', 'Visit Date', 'Pre-auth Ref', 'Billed', 'Claimed'],
+      rows: batch.claims.map(claim => [
+        claim.claimNo,
+        claim.memberName || '-',
+        claim.memberNumber || '-',
+        formatDate(claim.visitDate),
+        claim.preauthReferences.join(', ') || '-',
+        formatCurrency(claim.billAmount),
+        formatCurrency(claim.totalAmount),
+      ]),
+    },
+  ],
+});
+
+/**
+ * Detailed claim sheet: every bill item of every claim, plus each claim's status
+ */
+export const buildClaimDetailExport = (batch: InsurerClaimBatch): ExportData => ({
+  title: `${batch.insurer} Claims ${batch.batchNumber}`,
+  period: batch.batchNumber,
+  dateRange: batchPeriod(batch),
+  summary: [
+    { label: 'Insurer', value: batch.insurer },
+    { label: 'Claims', value: batch.claimCount },
+    { label: 'Amount Claimed', value: batch.totalAmount },
+    { label: 'Amount Paid', value: batch.claims.reduce((sum, c) => sum + (c.status === 'PAID' ? c.paidAmount ?? c.totalAmount : 0), 0) },
+  ],
+  tables: [
+    {
+      title: 'Claim Items',
+      headers: ['Claim No.', 'Member', 'Member No.', 'Visit Date', 'Item', 'Category', 'Service Code', 'Amount'],
+      rows: batch.claims.flatMap(claim => claim.items.map(item => [
+        claim.claimNo,
+        claim.memberName || '',
+        claim.memberNumber || '',
+        claim.visitDate,
+        item.description,
+        item.category,
+        item.tariffCode || '',
+        item.amount,
+      ])),
+    },
+    {
+      title: 'Claim Status',
+      headers: ['Claim No.', 'Member', 'Pre-auth Ref', 'Billed', 'Claimed', 'Status', 'Query / Rejection Reason', 'Paid'],
+      rows: batch.claims.map(claim => [
+        claim.claimNo,
+        claim.memberName || '',
+        claim.preauthReferences.join(', '),
+        claim.billAmount,
+        claim.totalAmount,
+        CLAIM_STATUS_LABELS[claim.status],
+        claim.rejectionReason || claim.queryNotes || '',
+        claim.status === 'PAID' ? claim.paidAmount ?? claim.totalAmount : '',
+      ]),
+    },
+  ],
+});
@@ -5,15 +5,26 @@
 
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
-import { Patient, BillItem, InsuranceType } from '../types';
-import { calculateBillTotal, calculateInsuranceCoverage } from './patientUtils';
+import QRCode from 'qrcode';
+import { Patient, BillItem, InsuranceType, Payment, VisitBalance, BillAdjustment, FiscalReceipt } from '../types';
+import { calculateBillTotal, calculateInsuranceCoverage, getBillableItems } from './patientUtils';
 import { formatDate, formatTime, getCurrentDate } from './dateTimeUtils';
-import { addPDFHeader, HOSPITAL_NAME } from './documentHeader';
+import { addPDFHeader, getClinicName } from './documentHeader';
+import { PAYMENT_METHODS, MOBILE_MONEY_NETWORKS } from '../services/paymentService';
+
+export const paymentMethodLabel = (payment: Payment): string => {
+  const label = PAYMENT_METHODS.find(m => m.value === payment.method)?.label || payment.method;
+  const network = MOBILE_MONEY_NETWORKS.find(n => n.value === payment.provider)?.label;
+  return network ? `${label} (${network})` : label;
+};
 
 /**
  * Generate Invoice PDF for cash clients
  */
-export const generateInvoicePDF = async (patient: Patient): Promise<void> => {
+export const generateInvoicePDF = async (
+  patient: Patient,
+  insuranceCoverage: number = calculateInsuranceCoverage(patient)
+): Promise<void> => {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
@@ -63,8 +74,9 @@ export const generateInvoicePDF = async (patient: Patient): Promise<void> => {
   yPosition += 35;
 
   // Bill Items Table
-  if (patient.billItems && patient.billItems.length > 0) {
-    const tableData = patient.billItems.map((item, index) => [
+  const billableItems = getBillableItems(patient.billItems || []);
+  if (billableItems.length > 0) {
+    const tableData = billableItems.map((item, index) => [
       String(index + 1),
       item.description || item.name || 'Service',
       item.category || 'GENERAL',
@@ -97,7 +109,6 @@ export const generateInvoicePDF = async (patient: Patient): Promise<void> => {
 
   // Totals Section
   const grossTotal = calculateBillTotal(patient.billItems);
-  const insuranceCoverage = calculateInsuranceCoverage(patient);
   const netTotal = grossTotal - insuranceCoverage;
 
   doc.setFontSize(10);
@@ -137,7 +148,7 @@ export const generateInvoicePDF = async (patient: Patient): Promise<void> => {
     doc.setTextColor(100, 100, 100);
     doc.text('Payment Terms: Cash payment required at time of service', 20, yPosition);
     yPosition += 6;
-    doc.text('Thank you for choosing MSIMBAZI EYE CARE', 20, yPosition);
+    doc.text(`Thank you for choosing ${getClinicName()}`, 20, yPosition);
   } else {
     doc.setFontSize(9);
     doc.setFont('helvetica', 'normal');
@@ -155,7 +166,7 @@ export const generateInvoicePDF = async (patient: Patient): Promise<void> => {
   doc.setTextColor(150, 150, 150);
   doc.text('This is a computer-generated invoice. No signature required.', pageWidth / 2, yPosition, { align: 'center' });
   yPosition += 5;
-  doc.text('For inquiries, please contact MSIMBAZI EYE CARE', pageWidth / 2, yPosition, { align: 'center' });
+  doc.text(`For inquiries, please contact ${getClinicName()}`, pageWidth / 2, yPosition, { align: 'center' });
 
   // Save PDF
   const filename = `Invoice-${invoiceNumber}-${getCurrentDate()}.pdf`;
@@ -163,9 +174,76 @@ export const generateInvoicePDF = async (patient: Patient): Promise<void> => {
 };
 
 /**
- * Generate Receipt PDF after payment is processed
+ * Print the TRA fiscal block: verification code, Z number and counter with a QR code
+ * linking to the TRA verification page, or a notice while the receipt is still queued
  */
-export const generateReceiptPDF = async (patient: Patient, paymentMethod: string = 'Cash'): Promise<void> => {
+const addFiscalBlock = async (doc: jsPDF, fiscalReceipt: FiscalReceipt, yPosition: number): Promise<void> => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, yPosition, pageWidth - 20, yPosition);
+  yPosition += 8;
+
+  if (fiscalReceipt.status !== 'FISCALISED' || !fiscalReceipt.verificationUrl) {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(200, 120, 0);
+    doc.text('Fiscal receipt pending – the TRA verification code will be issued on reprint', pageWidth / 2, yPosition, { align: 'center' });
+    return;
+  }
+
+  const qrSize = 32;
+  const qrDataUrl = await QRCode.toDataURL(fiscalReceipt.verificationUrl, { margin: 1 });
+  doc.addImage(qrDataUrl, 'PNG', pageWidth - 20 - qrSize, yPosition - 4, qrSize, qrSize);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 0, 0);
+  doc.text('TRA FISCAL RECEIPT', 20, yPosition);
+  yPosition += 6;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(60, 60, 60);
+  doc.text(`Verification Code: ${fiscalReceipt.verificationCode}`, 20, yPosition);
+  yPosition += 5;
+  if (fiscalReceipt.zNumber) {
+    doc.text(`Z Number: ${fiscalReceipt.zNumber}`, 20, yPosition);
+    yPosition += 5;
+  }
+  if (fiscalReceipt.fiscalCounter != null) {
+    doc.text(`Receipt Counter: ${fiscalReceipt.fiscalCounter}`, 20, yPosition);
+    yPosition += 5;
+  }
+  if (fiscalReceipt.fiscalisedAt) {
+    const fiscalisedAt = new Date(fiscalReceipt.fiscalisedAt);
+    doc.text(
+      `Fiscalised: ${formatDate(fiscalisedAt.toISOString().split('T')[0])} ${formatTime(fiscalisedAt.toTimeString().substring(0, 5))}`,
+      20,
+      yPosition
+    );
+    yPosition += 5;
+  }
+  doc.text('Scan the QR code to verify this receipt with TRA', 20, yPosition);
+  yPosition += 5;
+  if (fiscalReceipt.device === 'emulator') {
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(200, 0, 0);
+    doc.text('TEST RECEIPT – issued by the fiscal device emulator', 20, yPosition);
+  }
+};
+
+/**
+ * Generate Receipt PDF for the payment lines recorded under one receipt number.
+ * Totals come from the recorded payments and the visit balance after they were applied.
+ * The TRA fiscal block is printed when the receipt has been sent to the fiscal device.
+ */
+export const generateReceiptPDF = async (
+  patient: Patient,
+  payments: Payment[],
+  balance: VisitBalance,
+  fiscalReceipt?: FiscalReceipt | null
+): Promise<void> => {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
@@ -182,9 +260,11 @@ export const generateReceiptPDF = async (patient: Patient, paymentMethod: string
   yPosition += 10;
 
   // Receipt Details
-  const receiptNumber = `RCP-${patient.id}-${Date.now().toString().slice(-6)}`;
-  const receiptDate = formatDate(getCurrentDate());
-  const currentTime = formatTime(new Date().toTimeString().substring(0, 5));
+  const receiptNumber = payments[0]?.receiptNumber || `RCP-${patient.id}-${Date.now().toString().slice(-6)}`;
+  const receivedAt = payments[0]?.receivedAt ? new Date(payments[0].receivedAt) : new Date();
+  const receiptDate = formatDate(receivedAt.toISOString().split('T')[0]);
+  const currentTime = formatTime(receivedAt.toTimeString().substring(0, 5));
+  const paymentMethod = payments.map(p => paymentMethodLabel(p)).filter((m, i, all) => all.indexOf(m) === i).join(' + ');
 
   doc.setFontSize(10);
   doc.setTextColor(60, 60, 60);
@@ -212,8 +292,9 @@ export const generateReceiptPDF = async (patient: Patient, paymentMethod: string
   yPosition += 35;
 
   // Services Rendered Table
-  if (patient.billItems && patient.billItems.length > 0) {
-    const tableData = patient.billItems.map((item, index) => [
+  const billableItems = getBillableItems(patient.billItems || []);
+  if (billableItems.length > 0) {
+    const tableData = billableItems.map((item, index) => [
       String(index + 1),
       item.description || item.name || 'Service',
       item.category || 'GENERAL',
@@ -244,32 +325,55 @@ export const generateReceiptPDF = async (patient: Patient, paymentMethod: string
     yPosition = finalY + 10;
   }
 
+  // Payments received on this receipt
+  const paymentRows = payments.map(p => [
+    paymentMethodLabel(p),
+    p.referenceNumber || '-',
+    p.amountTendered != null ? `TZS ${p.amountTendered.toLocaleString()}` : '-',
+    p.changeGiven > 0 ? `TZS ${p.changeGiven.toLocaleString()}` : '-',
+    `TZS ${p.amount.toLocaleString()}`,
+  ]);
+
+  (doc as any).autoTable({
+    head: [['Payment Method', 'Reference', 'Tendered', 'Change', 'Amount (TZS)']],
+    body: paymentRows,
+    startY: yPosition,
+    styles: { fontSize: 9, cellPadding: 3 },
+    headStyles: {
+      fillColor: [0, 102, 51], // Brand green
+      textColor: [255, 255, 255],
+      fontStyle: 'bold'
+    },
+    margin: { left: 20, right: 20 },
+    columnStyles: {
+      4: { halign: 'right' },
+    },
+  });
+  yPosition = ((doc as any).lastAutoTable?.finalY || yPosition + 20) + 10;
+
   // Payment Summary
-  const grossTotal = calculateBillTotal(patient.billItems);
-  const insuranceCoverage = calculateInsuranceCoverage(patient);
-  const netTotal = grossTotal - insuranceCoverage;
-  const amountPaid = netTotal; // For cash clients, amount paid equals net total
+  const amountPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+  const paidBefore = balance.amountPaid - amountPaid;
 
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  
+  doc.setTextColor(60, 60, 60);
+
   // Gross Total
   doc.text('Total Services:', pageWidth - 60, yPosition, { align: 'right' });
   doc.setFont('helvetica', 'bold');
-  doc.text(`TZS ${grossTotal.toLocaleString()}`, pageWidth - 20, yPosition, { align: 'right' });
-  
+  doc.text(`TZS ${balance.billTotal.toLocaleString()}`, pageWidth - 20, yPosition, { align: 'right' });
   yPosition += 7;
-  
-  // Insurance Coverage (if applicable)
-  if (insuranceCoverage > 0) {
+
+  // Earlier part payments (if any)
+  if (paidBefore > 0) {
     doc.setFont('helvetica', 'normal');
-    doc.setTextColor(0, 150, 0);
-    doc.text('Insurance Coverage:', pageWidth - 60, yPosition, { align: 'right' });
+    doc.text('Previously Paid:', pageWidth - 60, yPosition, { align: 'right' });
     doc.setFont('helvetica', 'bold');
-    doc.text(`- TZS ${insuranceCoverage.toLocaleString()}`, pageWidth - 20, yPosition, { align: 'right' });
+    doc.text(`- TZS ${paidBefore.toLocaleString()}`, pageWidth - 20, yPosition, { align: 'right' });
     yPosition += 7;
   }
-  
+
   // Amount Paid
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(0, 0, 0);
@@ -278,14 +382,26 @@ export const generateReceiptPDF = async (patient: Patient, paymentMethod: string
   doc.setFontSize(14);
   doc.setTextColor(0, 102, 51); // Green for paid amount
   doc.text(`TZS ${amountPaid.toLocaleString()}`, pageWidth - 20, yPosition, { align: 'right' });
+  yPosition += 8;
+
+  // Balance Outstanding
+  doc.setFontSize(10);
+  doc.setTextColor(balance.outstanding > 0 ? 200 : 0, balance.outstanding > 0 ? 0 : 102, balance.outstanding > 0 ? 0 : 51);
+  doc.text('Balance Outstanding:', pageWidth - 60, yPosition, { align: 'right' });
+  doc.text(`TZS ${balance.outstanding.toLocaleString()}`, pageWidth - 20, yPosition, { align: 'right' });
 
   yPosition += 15;
 
   // Payment Confirmation
   doc.setFontSize(10);
   doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 102, 51);
-  doc.text('✓ PAYMENT RECEIVED', pageWidth / 2, yPosition, { align: 'center' });
+  if (balance.outstanding > 0) {
+    doc.setTextColor(200, 0, 0);
+    doc.text('PART PAYMENT - BALANCE DUE', pageWidth / 2, yPosition, { align: 'center' });
+  } else {
+    doc.setTextColor(0, 102, 51);
+    doc.text('✓ PAID IN FULL', pageWidth / 2, yPosition, { align: 'center' });
+  }
   
   yPosition += 8;
   doc.setFontSize(9);
@@ -294,6 +410,16 @@ export const generateReceiptPDF = async (patient: Patient, paymentMethod: string
   doc.text('Thank you for your payment!', pageWidth / 2, yPosition, { align: 'center' });
   yPosition += 6;
   doc.text('Please keep this receipt for your records', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 10;
+
+  // TRA fiscal details
+  if (fiscalReceipt) {
+    if (yPosition + 40 > pageHeight - 25) {
+      doc.addPage();
+      yPosition = 20;
+    }
+    await addFiscalBlock(doc, fiscalReceipt, yPosition);
+  }
 
   // Footer
   yPosition = pageHeight - 20;
@@ -301,9 +427,108 @@ export const generateReceiptPDF = async (patient: Patient, paymentMethod: string
   doc.setTextColor(150, 150, 150);
   doc.text('This is a computer-generated receipt. No signature required.', pageWidth / 2, yPosition, { align: 'center' });
   yPosition += 5;
-  doc.text('For inquiries, please contact MSIMBAZI EYE CARE', pageWidth / 2, yPosition, { align: 'center' });
+  doc.text(`For inquiries, please contact ${getClinicName()}`, pageWidth / 2, yPosition, { align: 'center' });
 
   // Save PDF
   const filename = `Receipt-${receiptNumber}-${getCurrentDate()}.pdf`;
   doc.save(filename);
 };
+
+/**
+ * Generate Credit Note PDF for an approved credit note, showing any refund paid back
+ */
+export const generateCreditNotePDF = async (patient: Patient, adjustment: BillAdjustment): Promise<void> => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // Add hospital header with logo
+  let yPosition = await addPDFHeader(doc, pageWidth);
+
+  doc.setFontSize(16);
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'bold');
+  doc.text('CREDIT NOTE', pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 10;
+
+  const issuedAt = new Date(adjustment.decidedAt || adjustment.requestedAt);
+
+  doc.setFontSize(10);
+  doc.setTextColor(60, 60, 60);
+  doc.setFont('helvetica', 'normal');
+
+  // Left side - Patient Info
+  doc.text('Issued To:', 20, yPosition);
+  doc.setFont('helvetica', 'bold');
+  doc.text(patient.name, 20, yPosition + 6);
+  doc.setFont('helvetica', 'normal');
+  if (patient.phone) {
+    doc.text(`Phone: ${patient.phone}`, 20, yPosition + 12);
+  }
+  doc.text(`Patient ID: ${patient.id}`, 20, yPosition + 18);
+
+  // Right side - Credit Note Info
+  doc.text('Credit Note Number:', pageWidth - 20, yPosition, { align: 'right' });
+  doc.setFont('helvetica', 'bold');
+  doc.text(adjustment.adjustmentNumber, pageWidth - 20, yPosition + 6, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Date: ${formatDate(issuedAt.toISOString().split('T')[0])}`, pageWidth - 20, yPosition + 12, { align: 'right' });
+  doc.text(`Time: ${formatTime(issuedAt.toTimeString().substring(0, 5))}`, pageWidth - 20, yPosition + 18, { align: 'right' });
+
+  yPosition += 30;
+
+  (doc as any).autoTable({
+    head: [['Description', 'Category', 'Billed (TZS)', 'Credited (TZS)']],
+    body: [[
+      adjustment.description,
+      adjustment.category,
+      adjustment.itemAmount.toLocaleString(),
+      adjustment.amount.toLocaleString(),
+    ]],
+    startY: yPosition,
+    styles: { fontSize: 9, cellPadding: 3 },
+    headStyles: {
+      fillColor: [0, 102, 51], // Brand green
+      textColor: [255, 255, 255],
+      fontStyle: 'bold'
+    },
+    margin: { left: 20, right: 20 },
+    columnStyles: {
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+    },
+  });
+  yPosition = ((doc as any).lastAutoTable?.finalY || yPosition + 20) + 10;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Reason:', 20, yPosition);
+  const reasonLines = doc.splitTextToSize(adjustment.reason, pageWidth - 60);
+  doc.text(reasonLines, 40, yPosition);
+  yPosition += reasonLines.length * 5 + 5;
+
+  // Refund paid back (if the visit was left overpaid)
+  if (adjustment.refundAmount > 0) {
+    const refundLabel = PAYMENT_METHODS.find(m => m.value === adjustment.refundMethod)?.label || adjustment.refundMethod || '';
+    doc.text(`Refunded (${refundLabel}):`, pageWidth - 60, yPosition, { align: 'right' });
+    doc.setFont('helvetica', 'bold');
+    doc.text(`TZS ${adjustment.refundAmount.toLocaleString()}`, pageWidth - 20, yPosition, { align: 'right' });
+    yPosition += 7;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.text('Credited to Bill:', pageWidth - 60, yPosition, { align: 'right' });
+  doc.setFont('helvetica', 'bold');
+  doc.text(`TZS ${(adjustment.amount - adjustment.refundAmount).toLocaleString()}`, pageWidth - 20, yPosition, { align: 'right' });
+
+  // Footer
+  yPosition = pageHeight - 20;
+  doc.setFontSize(8);
+  doc.setTextColor(150, 150, 150);
+  doc.text('This is a computer-generated credit note approved by the clinic manager.', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 5;
+  doc.text(`For inquiries, please contact ${getClinicName()}`, pageWidth / 2, yPosition, { align: 'center' });
+
+  doc.save(`CreditNote-${adjustment.adjustmentNumber}-${getCurrentDate()}.pdf`);
+};
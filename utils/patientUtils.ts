@@ -3,8 +3,8 @@
  * Centralizes common patient operations
  */
 
-import { Patient, PatientStatus, InsuranceType, BillItem, Medication } from '../types';
-import { INSURANCE_COVERAGE } from '../constants';
+import { Patient, PatientStatus, InsuranceType, BillItem, Medication, InsuranceScheme } from '../types';
+import { evaluateBenefits, BenefitOptions } from './benefitUtils';
 
 /**
  * Gets CSS classes for patient status badge
@@ -43,33 +43,29 @@ export const isInsuranceEligible = (
   return false;
 };
 
+/**
+ * Bill items still on the bill (approved voids are kept for audit but not charged)
+ */
+export const getBillableItems = (items: BillItem[]): BillItem[] => {
+  return items.filter(item => !item.voidedAt);
+};
+
 /**
  * Calculates total bill amount
  */
 export const calculateBillTotal = (items: BillItem[]): number => {
-  return items.reduce((sum, item) => sum + item.amount, 0);
+  return getBillableItems(items).reduce((sum, item) => sum + item.amount, 0);
 };
 
 /**
- * Calculates insurance coverage amount
+ * Calculates insurance coverage amount (after any scheme co-pay)
  */
 export const calculateInsuranceCoverage = (
   patient: Patient,
-  coveragePercentage: number = INSURANCE_COVERAGE.PRIVATE_DEFAULT_PERCENTAGE
+  scheme?: InsuranceScheme | null,
+  options?: BenefitOptions
 ): number => {
-  return patient.billItems.reduce((sum, item) => {
-    if (isInsuranceEligible(item, patient.insuranceType)) {
-      if (patient.insuranceType === InsuranceType.NHIF) {
-        // NHIF covers full amount if eligible
-        return sum + item.amount;
-      }
-      if (patient.insuranceType === InsuranceType.PRIVATE) {
-        // Private insurance covers percentage
-        return sum + (item.amount * coveragePercentage);
-      }
-    }
-    return sum;
-  }, 0);
+  return evaluateBenefits(getBillableItems(patient.billItems), patient.insuranceType, scheme, options).totalCovered;
 };
 
 /**
@@ -142,3 +138,15 @@ export const searchPatients = (patients: Patient[], searchTerm: string): Patient
     p.phone.includes(term)
   );
 };
+
+/**
+ * Queue number for a patient: their place among today's check-ins (1-based)
+ */
+export const getQueueTokenNumber = (patients: Patient[], patientId: string): number => {
+  const today = new Date().toDateString();
+  const checkedInToday = patients
+    .filter(p => p.checkedInAt && new Date(p.checkedInAt).toDateString() === today)
+    .sort((a, b) => a.checkedInAt.localeCompare(b.checkedInAt));
+  const index = checkedInToday.findIndex(p => p.id === patientId);
+  return index >= 0 ? index + 1 : checkedInToday.length + 1;
+};
@@ -0,0 +1,104 @@
+/**
+ * Private Insurance Pre-authorization Gating
+ * Functions to check how much of a private patient's bill may be charged to the insurer
+ * when items on it need the insurer's pre-approval
+ */
+
+import { BenefitLine, Preauthorization, TariffItem } from '../types';
+import { getVisitPreauthorizations } from '../services/preauthorizationService';
+
+export interface PreauthGateResult {
+  allowed: boolean;
+  reason?: string;
+  required: boolean; // Some insurer-covered line needs pre-authorization
+  lines: BenefitLine[]; // The insurer-covered lines that need it
+  gatedCovered: number; // Insurer share of those lines
+  approvedAmount: number;
+  insurerExcess: number; // Insurer share that must not be billed to the insurer
+  pending?: Preauthorization;
+}
+
+/**
+ * Insurer-covered lines whose tariff item requires pre-authorization
+ */
+export const getPreauthRequiredLines = (lines: BenefitLine[], tariffs: TariffItem[]): BenefitLine[] =>
+  lines.filter(line => line.covered > 0 && !!line.tariffCode && tariffs.some(t => t.code === line.tariffCode && t.requiresPreauth));
+
+/**
+ * Check the insurer share of pre-authorization items against the visit's requests.
+ * Approvals add up across requests; a request still awaiting the insurer blocks the
+ * service, and anything above the approved amount is for the patient to pay.
+ */
+export const evaluatePreauthGate = (
+  lines: BenefitLine[],
+  preauthorizations: Preauthorization[],
+  tariffs: TariffItem[]
+): PreauthGateResult => {
+  const required = getPreauthRequiredLines(lines, tariffs);
+  const gatedCovered = required.reduce((sum, line) => sum + line.covered, 0);
+  const approvedAmount = preauthorizations
+    .filter(p => p.status === 'APPROVED' || p.status === 'PARTIALLY_APPROVED')
+    .reduce((sum, p) => sum + (p.approvedAmount || 0), 0);
+  const pending = preauthorizations.find(p => p.status === 'REQUESTED');
+  const insurerExcess = Math.max(gatedCovered - approvedAmount, 0);
+  const result = { required: required.length > 0, lines: required, gatedCovered, approvedAmount, insurerExcess, pending };
+  const itemNames = required.map(line => line.description).join(', ');
+
+  if (required.length === 0 || insurerExcess === 0) {
+    return { ...result, allowed: true };
+  }
+
+  // A request awaiting the insurer blocks services, as a pending NHIF verification does
+  if (pending) {
+    return {
+      ...result,
+      allowed: false,
+      reason: `Pre-authorization ${pending.preauthNumber} is awaiting the insurer's decision for ${itemNames}.`,
+    };
+  }
+
+  if (preauthorizations.length === 0) {
+    return {
+      ...result,
+      allowed: false,
+      reason: `Insurer pre-authorization is required for ${itemNames}. Request approval before billing the insurer.`,
+    };
+  }
+
+  if (approvedAmount === 0) {
+    return {
+      ...result,
+      allowed: true,
+      reason: `The insurer declined pre-authorization for ${itemNames}. The patient pays TZS ${insurerExcess.toLocaleString()} the insurer would have covered.`,
+    };
+  }
+
+  return {
+    ...result,
+    allowed: true,
+    reason: `The insurer approved TZS ${approvedAmount.toLocaleString()} of TZS ${gatedCovered.toLocaleString()}. The patient pays the remaining TZS ${insurerExcess.toLocaleString()}.`,
+  };
+};
+
+/**
+ * Check the pre-authorization gate for a visit's insurer-covered lines
+ */
+export const checkPreauthGate = async (
+  visitId: string | null,
+  lines: BenefitLine[],
+  tariffs: TariffItem[]
+): Promise<PreauthGateResult> => {
+  const unchecked = evaluatePreauthGate(lines, [], tariffs);
+  if (!unchecked.required) {
+    return unchecked;
+  }
+  if (!visitId) {
+    return { ...unchecked, reason: 'Visit ID is required for the insurer pre-authorization check' };
+  }
+
+  const result = await getVisitPreauthorizations(visitId);
+  if (!result.success) {
+    return { ...unchecked, allowed: false, reason: result.error || 'Pre-authorizations could not be checked' };
+  }
+  return evaluatePreauthGate(lines, result.preauthorizations || [], tariffs);
+};
@@ -0,0 +1,262 @@
+/**
+ * Prescription Document Utilities
+ * Generates the spectacle and medication prescriptions handed to the patient at the end
+ * of a consultation, signed by the prescriber and carrying a verification QR code
+ */
+
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import QRCode from 'qrcode';
+import { PrescriptionDocumentData } from '../types';
+import { formatDate, getCurrentDate } from './dateTimeUtils';
+import { addPDFHeader, getClinicName } from './documentHeader';
+import { formatPower, parseRx } from './rxUtils';
+
+/**
+ * Draw a labelled field ("Label: value"); blank values are left as a line to fill in by hand
+ */
+const drawField = (doc: jsPDF, label: string, value: string, x: number, y: number): void => {
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100, 100, 100);
+  doc.text(`${label}:`, x, y);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 0, 0);
+  doc.text(value || '____________', x + 38, y);
+};
+
+/**
+ * Draw a section title bar
+ */
+const drawSectionTitle = (doc: jsPDF, title: string, y: number, pageWidth: number): number => {
+  doc.setFillColor(235, 245, 240);
+  doc.rect(20, y - 5, pageWidth - 40, 7, 'F');
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 102, 51); // Brand green
+  doc.text(title, 22, y);
+  doc.setFontSize(9);
+  doc.setTextColor(0, 0, 0);
+  return y + 8;
+};
+
+/**
+ * Title, prescription number and the patient particulars shared by both documents
+ */
+const drawPrescriptionHeading = async (
+  doc: jsPDF,
+  title: string,
+  data: PrescriptionDocumentData,
+  pageWidth: number
+): Promise<number> => {
+  let yPosition = await addPDFHeader(doc, pageWidth);
+
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 6;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100, 100, 100);
+  const reference = data.verificationCode ? `Rx No. ${data.verificationCode} | ` : '';
+  doc.text(`${reference}Issued ${formatDate(data.issuedAt)}`, pageWidth / 2, yPosition, { align: 'center' });
+
+  yPosition += 10;
+
+  yPosition = drawSectionTitle(doc, 'PATIENT', yPosition, pageWidth);
+  const col2 = pageWidth / 2 + 5;
+  drawField(doc, 'Name', data.patient.name, 22, yPosition);
+  drawField(doc, 'File No', data.patient.id, col2, yPosition);
+  yPosition += 6;
+  drawField(doc, 'Date of Birth', data.patient.dob ? formatDate(data.patient.dob) : '', 22, yPosition);
+  drawField(doc, 'Sex', data.patient.gender || '', col2, yPosition);
+  yPosition += 6;
+  drawField(doc, 'Phone', data.patient.phone || '', 22, yPosition);
+
+  return yPosition + 10;
+};
+
+/**
+ * Prescriber name, registration number and signature, with the verification QR code
+ * beside them. Scanning opens the verify link when the prescription has been saved with
+ * a code; otherwise the QR carries the document details as text.
+ */
+const drawPrescriberBlock = async (
+  doc: jsPDF,
+  data: PrescriptionDocumentData,
+  documentType: string,
+  yPosition: number,
+  pageWidth: number,
+  pageHeight: number
+): Promise<void> => {
+  // The block needs about 50mm; start a new page if it won't fit
+  if (yPosition > pageHeight - 70) {
+    doc.addPage();
+    yPosition = 25;
+  }
+
+  yPosition = drawSectionTitle(doc, 'PRESCRIBER', yPosition, pageWidth);
+
+  const qrSize = 32;
+  const qrText = data.verificationUrl || [
+    getClinicName(),
+    documentType,
+    data.verificationCode ? `Rx No. ${data.verificationCode}` : '',
+    `Patient: ${data.patient.name} (${data.patient.id})`,
+    `Issued: ${formatDate(data.issuedAt)}`,
+    `Prescriber: ${data.prescriber.name}${data.prescriber.registrationNumber ? `, Reg. No. ${data.prescriber.registrationNumber}` : ''}`,
+  ].filter(Boolean).join('\n');
+  const qrDataUrl = await QRCode.toDataURL(qrText, { margin: 1 });
+  doc.addImage(qrDataUrl, 'PNG', pageWidth - 20 - qrSize, yPosition - 2, qrSize, qrSize);
+
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100, 100, 100);
+  doc.text(
+    data.verificationUrl ? 'Scan to verify this prescription' : 'Scan for prescription details',
+    pageWidth - 20 - qrSize / 2,
+    yPosition + qrSize + 2,
+    { align: 'center' }
+  );
+
+  doc.setFontSize(9);
+  const lineEnd = pageWidth - 30 - qrSize;
+  const rows: Array<[string, string]> = [
+    ['Name', data.prescriber.name],
+    ['Registration No', data.prescriber.registrationNumber || ''],
+    ['Designation', data.prescriber.role ? data.prescriber.role.charAt(0) + data.prescriber.role.slice(1).toLowerCase() : ''],
+    ['Signature', ''],
+    ['Date', formatDate(data.issuedAt)],
+  ];
+  rows.forEach(([label, value], index) => {
+    const rowY = yPosition + 2 + index * 8;
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(100, 100, 100);
+    doc.text(`${label}:`, 22, rowY);
+    doc.setDrawColor(180, 180, 180);
+    doc.line(22 + 35, rowY + 1, lineEnd, rowY + 1);
+    if (value) {
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(0, 0, 0);
+      doc.text(value, 22 + 36, rowY);
+    }
+  });
+
+  // Footer
+  doc.setFontSize(8);
+  doc.setTextColor(150, 150, 150);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Generated by ${getClinicName()} on ${formatDate(getCurrentDate())}`, pageWidth / 2, pageHeight - 15, { align: 'center' });
+};
+
+/**
+ * One eye's lens powers split into columns; a written Rx that cannot be read is printed
+ * as written so nothing is lost
+ */
+const spectacleRow = (eye: string, written: string, addText?: string): string[] => {
+  if (!written.trim()) return [eye, '—', '', '', '', addText || ''];
+  const { rx } = parseRx(written);
+  if (!rx) return [eye, written, '', '', '', addText || ''];
+  return [
+    eye,
+    rx.sphere === 0 ? 'Plano' : formatPower(rx.sphere),
+    rx.cylinder ? formatPower(rx.cylinder) : 'DS',
+    rx.cylinder ? `${String(rx.axis ?? '').padStart(3, '0')}°` : '',
+    rx.prism ? `${rx.prism} ${rx.prismBase}` : '',
+    addText || (rx.add ? formatPower(rx.add) : ''),
+  ];
+};
+
+/**
+ * Generate the spectacle prescription PDF (lens powers, PD, segment height and lens type)
+ */
+export const generateSpectaclePrescriptionPDF = async (data: PrescriptionDocumentData): Promise<void> => {
+  if (!data.spectacle) return;
+  const spectacle = data.spectacle;
+
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  let yPosition = await drawPrescriptionHeading(doc, 'SPECTACLE PRESCRIPTION', data, pageWidth);
+
+  yPosition = drawSectionTitle(doc, 'REFRACTION', yPosition, pageWidth);
+  (doc as any).autoTable({
+    head: [['Eye', 'Sphere', 'Cylinder', 'Axis', 'Prism (dioptres, base)', 'Add']],
+    body: [
+      spectacleRow('OD (Right)', spectacle.od, spectacle.addOd),
+      spectacleRow('OS (Left)', spectacle.os, spectacle.addOs),
+    ],
+    startY: yPosition,
+    styles: { fontSize: 10, cellPadding: 3, halign: 'center' },
+    headStyles: {
+      fillColor: [0, 102, 51], // Brand green
+      textColor: [255, 255, 255],
+      fontStyle: 'bold'
+    },
+    margin: { left: 20, right: 20 },
+    columnStyles: {
+      0: { halign: 'left', fontStyle: 'bold', cellWidth: 28 },
+    },
+  });
+  yPosition = ((doc as any).lastAutoTable?.finalY || yPosition + 20) + 10;
+
+  yPosition = drawSectionTitle(doc, 'DISPENSING', yPosition, pageWidth);
+  const col2 = pageWidth / 2 + 5;
+  drawField(doc, 'PD (mm)', spectacle.pupillaryDistance || '', 22, yPosition);
+  drawField(doc, 'Segment Height', spectacle.segmentHeight || '', col2, yPosition);
+  yPosition += 6;
+  drawField(doc, 'Lens Type', spectacle.lensType || '', 22, yPosition);
+  yPosition += 12;
+
+  await drawPrescriberBlock(doc, data, 'Spectacle prescription', yPosition, pageWidth, pageHeight);
+
+  doc.save(`Spectacle-Prescription-${data.patient.id}-${data.issuedAt.slice(0, 10)}.pdf`);
+};
+
+/**
+ * Generate the medication prescription PDF from the medications on the consultation
+ */
+export const generateMedicationPrescriptionPDF = async (data: PrescriptionDocumentData): Promise<void> => {
+  if (!data.medications || data.medications.length === 0) return;
+
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  let yPosition = await drawPrescriptionHeading(doc, 'MEDICATION PRESCRIPTION', data, pageWidth);
+
+  yPosition = drawSectionTitle(doc, 'MEDICATIONS', yPosition, pageWidth);
+  (doc as any).autoTable({
+    head: [['#', 'Drug', 'Strength', 'Dose', 'Route', 'Frequency', 'Duration', 'Special Instructions']],
+    body: data.medications.map((med, index) => [
+      String(index + 1),
+      med.name,
+      med.strength || '',
+      med.dosage || '',
+      med.route || '',
+      med.frequency,
+      med.duration,
+      med.instructions || '',
+    ]),
+    startY: yPosition,
+    styles: { fontSize: 9, cellPadding: 2.5 },
+    headStyles: {
+      fillColor: [0, 102, 51], // Brand green
+      textColor: [255, 255, 255],
+      fontStyle: 'bold'
+    },
+    alternateRowStyles: { fillColor: [245, 245, 245] },
+    margin: { left: 20, right: 20 },
+    columnStyles: {
+      0: { cellWidth: 8 },
+      1: { fontStyle: 'bold' },
+      7: { cellWidth: 40 },
+    },
+  });
+  yPosition = ((doc as any).lastAutoTable?.finalY || yPosition + 20) + 12;
+
+  await drawPrescriberBlock(doc, data, 'Medication prescription', yPosition, pageWidth, pageHeight);
+
+  doc.save(`Medication-Prescription-${data.patient.id}-${data.issuedAt.slice(0, 10)}.pdf`);
+};
@@ -0,0 +1,149 @@
+/**
+ * Receivables Utilities
+ * Ages open balances into 0-30 / 31-60 / 61-90 / 90+ day buckets, rolls them up per
+ * debtor and builds the aging report and insurer statement exports
+ */
+
+import { AgingBucket, Receivable } from '../types';
+import { ExportData, formatCurrency } from './exportUtils';
+import { formatDate } from './dateTimeUtils';
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export interface DebtorSummary {
+  key: string; // Insurer name, or patient ID for patient debts
+  name: string;
+  debtorType: Receivable['debtorType'];
+  items: Receivable[];
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Days from the visit (the date the debt arose) to the report date, both YYYY-MM-DD
+ */
+export const getAgeInDays = (visitDate: string, asOf: string): number => {
+  const from = new Date(`${visitDate.slice(0, 10)}T00:00:00`);
+  const to = new Date(`${asOf}T00:00:00`);
+  return Math.max(Math.round((to.getTime() - from.getTime()) / 86400000), 0);
+};
+
+export const getAgingBucket = (days: number): AgingBucket => {
+  if (days <= 30) return '0-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  return '90+';
+};
+
+/**
+ * Roll open balances up per debtor: one line per insurer, one per patient; largest first
+ */
+export const summarizeDebtors = (receivables: Receivable[], asOf: string): DebtorSummary[] => {
+  const summaries = new Map<string, DebtorSummary>();
+  for (const item of receivables) {
+    const key = item.debtorType === 'INSURER' ? item.insurer || 'Insurer' : item.patientId;
+    const summary = summaries.get(key) || {
+      key,
+      name: item.debtorType === 'INSURER' ? key : item.patientName || item.patientId,
+      debtorType: item.debtorType,
+      items: [],
+      buckets: emptyBuckets(),
+      total: 0,
+    };
+    const bucket = getAgingBucket(getAgeInDays(item.visitDate, asOf));
+    summary.items.push(item);
+    summary.buckets[bucket] = roundAmount(summary.buckets[bucket] + item.balance);
+    summary.total = roundAmount(summary.total + item.balance);
+    summaries.set(key, summary);
+  }
+  return [...summaries.values()].sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Bucket totals across a set of debtors
+ */
+export const totalBuckets = (summaries: DebtorSummary[]): Record<AgingBucket, number> =>
+  summaries.reduce((totals, s) => {
+    AGING_BUCKETS.forEach(bucket => { totals[bucket] = roundAmount(totals[bucket] + s.buckets[bucket]); });
+    return totals;
+  }, emptyBuckets());
+
+/**
+ * Aging report: totals per bucket, one row per debtor and every open item
+ */
+export const buildAgingReportExport = (summaries: DebtorSummary[], asOf: string): ExportData => {
+  const totals = totalBuckets(summaries);
+  const grandTotal = roundAmount(summaries.reduce((sum, s) => sum + s.total, 0));
+  return {
+    title: 'Debtors Aging Report',
+    period: `As of ${formatDate(asOf)}`,
+    summary: [
+      { label: 'Total Owed', value: formatCurrency(grandTotal) },
+      ...AGING_BUCKETS.map(bucket => ({ label: `${bucket} days`, value: formatCurrency(totals[bucket]) })),
+      { label: 'Insurers', value: formatCurrency(summaries.filter(s => s.debtorType === 'INSURER').reduce((sum, s) => sum + s.total, 0)) },
+      { label: 'Patients', value: formatCurrency(summaries.filter(s => s.debtorType === 'PATIENT').reduce((sum, s) => sum + s.total, 0)) },
+    ],
+    tables: [
+      {
+        title: 'Aging by Debtor',
+        headers: ['Debtor', 'Type', ...AGING_BUCKETS.map(bucket => `${bucket} days`), 'Total'],
+        rows: summaries.map(s => [
+          s.name,
+          s.debtorType === 'INSURER' ? 'Insurer' : 'Patient',
+          ...AGING_BUCKETS.map(bucket => formatCurrency(s.buckets[bucket])),
+          formatCurrency(s.total),
+        ]),
+      },
+      {
+        title: 'Open Items',
+        headers: ['Debtor', 'Patient', 'Visit Date', 'Days', 'Claim', 'Billed', 'Paid', 'Written Off', 'Balance'],
+        rows: summaries.flatMap(s => s.items.map(item => [
+          s.name,
+          item.patientName,
+          formatDate(item.visitDate),
+          getAgeInDays(item.visitDate, asOf),
+          item.claimReference || '-',
+          formatCurrency(item.billed),
+          formatCurrency(item.paid),
+          formatCurrency(item.writtenOff),
+          formatCurrency(item.balance),
+        ])),
+      },
+    ],
+  };
+};
+
+/**
+ * Statement for one insurer: every visit it still owes on, with claim and aging
+ */
+export const buildInsurerStatementExport = (summary: DebtorSummary, asOf: string): ExportData => ({
+  title: `Statement of Account – ${summary.name}`,
+  period: `As of ${formatDate(asOf)}`,
+  summary: [
+    { label: 'Insurer', value: summary.name },
+    { label: 'Open Visits', value: summary.items.length },
+    ...AGING_BUCKETS.map(bucket => ({ label: `${bucket} days`, value: formatCurrency(summary.buckets[bucket]) })),
+    { label: 'Balance Due', value: formatCurrency(summary.total) },
+  ],
+  tables: [
+    {
+      title: 'Outstanding Claims',
+      headers: ['Visit Date', 'Patient', 'Claim', 'Status', 'Days', 'Billed', 'Paid', 'Written Off', 'Balance'],
+      rows: summary.items.map(item => [
+        formatDate(item.visitDate),
+        item.patientName,
+        item.claimReference || 'Not yet claimed',
+        item.claimStatus || '-',
+        getAgeInDays(item.visitDate, asOf),
+        formatCurrency(item.billed),
+        formatCurrency(item.paid),
+        formatCurrency(item.writtenOff),
+        formatCurrency(item.balance),
+      ]),
+    },
+  ],
+});
@@ -0,0 +1,310 @@
+/**
+ * Spectacle Rx Utilities
+ * Reads hand-typed spectacle prescriptions ("-2.50/-0.75x180", "+1.00 DS", "Plano") into a
+ * typed SpectacleRx with the same limits as the eye exam, and does the optical arithmetic
+ * dispensing needs: cylinder transposition, spherical equivalent, near Rx and vertex
+ * distance compensation
+ */
+
+import { EyeExamEye, PrescriptionHistoryEvent, PrismBase, SpectacleRx } from '../types';
+import { EYE_EXAM_LIMITS } from './eyeExamUtils';
+
+// Vertex distance refractions are assumed to be done at, in mm
+export const STANDARD_VERTEX_MM = 12;
+
+// Below this power (strongest meridian, D) a vertex change alters the Rx by under 0.25D
+export const VERTEX_COMPENSATION_THRESHOLD = 4;
+
+const POWER = '[+-]?(?:\\d+(?:\\.\\d*)?|\\.\\d+)';
+
+const ADD_PATTERN = new RegExp(`[\\s,;]*ADD\\s*:?\\s*(${POWER})\\s*D?`);
+const PRISM_PATTERN = /(^|[\s,;])(?:PRISM\s*)?(\d+(?:\.\d+)?|\.\d+)\s*(?:Δ|\^|PD)?\s*B(?:ASE\s*)?(I|O|U|D)(?:N|UT|P|OWN)?\b/;
+const DISTANCE_PATTERN = new RegExp(
+  `^(PLANO|PL|${POWER}(?![\\d.]))\\s*(?:DS|SPH|D)?` +
+  `(?:\\s*\\/?\\s*(${POWER}(?![\\d.]))\\s*(?:DC|CYL|D)?(?:\\s*(?:X|AXIS|@)\\s*(\\d+(?:\\.\\d+)?))?)?$`
+);
+
+const FORMAT_HINT = 'use a form like -2.50/-0.75x180, +1.00 DS or Plano';
+
+const round = (value: number, step = 0.25): number => Math.round(value / step) * step + 0;
+
+const onStep = (value: number, step: number): boolean =>
+  Math.abs(value / step - Math.round(value / step)) < 1e-6;
+
+const checkLimit = (field: keyof typeof EYE_EXAM_LIMITS, value: number): string | undefined => {
+  const { label, unit, min, max, step } = EYE_EXAM_LIMITS[field];
+  if (!Number.isFinite(value) || value < min || value > max) {
+    return `${label} must be between ${min} and ${max}${unit}`;
+  }
+  if (!onStep(value, step)) {
+    return `${label} must be in steps of ${step}${unit}`;
+  }
+  return undefined;
+};
+
+/**
+ * Problems with a prescription, empty when it can be dispensed
+ */
+export const validateRx = (rx: SpectacleRx): string[] => {
+  const errors = [
+    checkLimit('sphere', rx.sphere),
+    checkLimit('cylinder', rx.cylinder),
+    rx.axis !== undefined ? checkLimit('axis', rx.axis) : undefined,
+    rx.add !== undefined ? checkLimit('add', rx.add) : undefined,
+    rx.prism !== undefined ? checkLimit('prism', rx.prism) : undefined,
+  ].filter((error): error is string => !!error);
+
+  if (rx.cylinder && rx.axis === undefined) errors.push('Axis is required with a cylinder');
+  if (rx.prism && !rx.prismBase) errors.push('Prism base is required with a prism');
+  return errors;
+};
+
+/**
+ * Read a distance prescription for one eye. Sphere and cylinder must carry their sign
+ * so "2.50" is never guessed; axis 0 is read as 180. Add ("Add +2.00") and prism
+ * ("2Δ BI", "1.5 base out") may follow. Blank gives neither rx nor error.
+ */
+export const parseRx = (text: string): { rx?: SpectacleRx; error?: string } => {
+  let rest = text.trim().toUpperCase()
+    .replace(/[−–]/g, '-')
+    .replace(/×/g, 'X')
+    .replace(/[°º]/g, '')
+    .replace(/\s+/g, ' ');
+  if (!rest) return {};
+
+  let add: number | undefined;
+  const addMatch = rest.match(ADD_PATTERN);
+  if (addMatch) {
+    add = Number(addMatch[1]);
+    rest = rest.replace(addMatch[0], ' ');
+  }
+
+  let prism: number | undefined;
+  let prismBase: PrismBase | undefined;
+  const prismMatch = rest.match(PRISM_PATTERN);
+  if (prismMatch) {
+    prism = Number(prismMatch[2]);
+    prismBase = `B${prismMatch[3]}` as PrismBase;
+    rest = rest.replace(prismMatch[0], prismMatch[1]);
+  }
+
+  const match = rest.replace(/[\s,;]+$/, '').trim().match(DISTANCE_PATTERN);
+  if (!match) return { error: `Could not read the prescription; ${FORMAT_HINT}` };
+  const [, sphereText, cylinderText, axisText] = match;
+
+  const sphere = sphereText.startsWith('PL') ? 0 : Number(sphereText);
+  if (sphere !== 0 && !/^[+-]/.test(sphereText)) {
+    return { error: 'Sphere needs a + or - sign' };
+  }
+  let cylinder = 0;
+  if (cylinderText) {
+    cylinder = Number(cylinderText);
+    if (cylinder !== 0 && !/^[+-]/.test(cylinderText)) {
+      return { error: 'Cylinder needs a + or - sign' };
+    }
+  }
+  let axis = axisText !== undefined ? Number(axisText) : undefined;
+  if (axis === 0) axis = 180;
+  if (!cylinder) axis = undefined;
+
+  const rx: SpectacleRx = { sphere, cylinder, axis, add, prism, prismBase };
+  const errors = validateRx(rx);
+  return errors.length ? { error: errors[0] } : { rx };
+};
+
+/**
+ * Read a reading addition ("+2.00", "2.00", "Add +2.00"). Blank gives neither add nor error.
+ */
+export const parseAdd = (text: string): { add?: number; error?: string } => {
+  const value = text.trim().toUpperCase().replace(/^ADD\s*:?\s*/, '').replace(/\s*D$/, '');
+  if (!value) return {};
+  if (!new RegExp(`^${POWER}$`).test(value)) {
+    return { error: 'Could not read the add; use a form like +2.00' };
+  }
+  const add = Number(value);
+  const error = checkLimit('add', add);
+  return error ? { error } : { add };
+};
+
+/**
+ * The prescription held in a structured eye exam, or undefined when no refraction was
+ * recorded for that eye
+ */
+export const rxFromEyeExam = (eye: EyeExamEye): SpectacleRx | undefined => {
+  if (eye.sphere === undefined && !eye.cylinder) return undefined;
+  return {
+    sphere: eye.sphere ?? 0,
+    cylinder: eye.cylinder ?? 0,
+    axis: eye.cylinder ? eye.axis : undefined,
+    add: eye.add,
+    prism: eye.prism,
+    prismBase: eye.prismBase,
+  };
+};
+
+/**
+ * Power with its sign and two decimals, e.g. +1.25 or -0.50
+ */
+export const formatPower = (value: number): string =>
+  `${value < 0 ? '-' : '+'}${Math.abs(value).toFixed(2)}`;
+
+/**
+ * Add as written on a prescription, e.g. +2.00; blank without one
+ */
+export const formatAdd = (add?: number): string => (add ? formatPower(add) : '');
+
+/**
+ * Canonical written form, e.g. "-2.50 / -0.75 x 180, 2Δ BI, Add +2.00". Axis is padded
+ * to three digits so x 090 is not misread as x 90 or x 9.
+ */
+export const formatRx = (rx: SpectacleRx): string => {
+  const sphere = rx.sphere === 0 ? 'Plano' : formatPower(rx.sphere);
+  const parts = [
+    rx.cylinder
+      ? `${sphere} / ${formatPower(rx.cylinder)} x ${String(rx.axis ?? '').padStart(3, '0')}`
+      : rx.sphere === 0 ? sphere : `${sphere} DS`,
+  ];
+  if (rx.prism) parts.push(`${rx.prism}Δ ${rx.prismBase}`);
+  if (rx.add) parts.push(`Add ${formatPower(rx.add)}`);
+  return parts.join(', ');
+};
+
+/**
+ * The same lens written with the opposite cylinder sign
+ */
+export const transposeRx = (rx: SpectacleRx): SpectacleRx => {
+  if (!rx.cylinder || rx.axis === undefined) return rx;
+  return {
+    ...rx,
+    sphere: round(rx.sphere + rx.cylinder),
+    cylinder: -rx.cylinder,
+    axis: rx.axis > 90 ? rx.axis - 90 : rx.axis + 90,
+  };
+};
+
+export const toMinusCylinder = (rx: SpectacleRx): SpectacleRx =>
+  rx.cylinder > 0 ? transposeRx(rx) : rx;
+
+export const toPlusCylinder = (rx: SpectacleRx): SpectacleRx =>
+  rx.cylinder < 0 ? transposeRx(rx) : rx;
+
+/**
+ * Sphere plus half the cylinder, in dioptres (may fall on an eighth)
+ */
+export const sphericalEquivalent = (rx: SpectacleRx): number => rx.sphere + rx.cylinder / 2;
+
+/**
+ * Reading prescription: the distance sphere with the add on top. undefined without an add.
+ */
+export const nearRx = (rx: SpectacleRx, add = rx.add): SpectacleRx | undefined => {
+  if (!add) return undefined;
+  return { ...rx, sphere: round(rx.sphere + add), add: undefined };
+};
+
+/**
+ * Power of the strongest principal meridian, ignoring sign
+ */
+export const strongestMeridian = (rx: SpectacleRx): number =>
+  Math.max(Math.abs(rx.sphere), Math.abs(rx.sphere + rx.cylinder));
+
+/**
+ * The Rx that gives the same correction when the lens sits toMm from the eye instead of
+ * fromMm (0 for contact lenses). Each principal meridian is compensated with
+ * F / (1 - dF) and rounded to 0.25D.
+ */
+export const compensateVertex = (rx: SpectacleRx, fromMm: number, toMm: number): SpectacleRx => {
+  const d = (fromMm - toMm) / 1000;
+  const effective = (power: number) => round(power / (1 - d * power));
+  const first = effective(rx.sphere);
+  const second = effective(rx.sphere + rx.cylinder);
+  const cylinder = round(second - first);
+  return {
+    ...rx,
+    sphere: first,
+    cylinder,
+    axis: cylinder ? rx.axis : undefined,
+  };
+};
+
+// Changes between visits larger than these are flagged as possible transcription errors
+export const RX_CHANGE_LIMITS = {
+  powerD: 1,
+  axisDegrees: 20,
+  // Axis of a weaker cylinder is too imprecise to be worth flagging
+  axisMinCylinderD: 0.5,
+};
+
+export interface RxChange {
+  sphere: number;
+  cylinder: number;
+  add?: number;
+  sphericalEquivalent: number;
+  axisShift?: number; // Degrees, 0 to 90; only when both have a cylinder
+  flags: string[];
+}
+
+/**
+ * Difference between two prescriptions for the same eye, current minus previous. Both
+ * are put in minus-cylinder form first so a transposed Rx does not look like a change.
+ */
+export const compareRx = (current: SpectacleRx, previous: SpectacleRx): RxChange => {
+  const now = toMinusCylinder(current);
+  const before = toMinusCylinder(previous);
+  const sphere = now.sphere - before.sphere;
+  const cylinder = now.cylinder - before.cylinder;
+  const add = now.add !== undefined && before.add !== undefined ? now.add - before.add : undefined;
+  const flags: string[] = [];
+
+  if (Math.abs(sphere) > RX_CHANGE_LIMITS.powerD) flags.push(`Sphere ${formatPower(sphere)}D`);
+  if (Math.abs(cylinder) > RX_CHANGE_LIMITS.powerD) flags.push(`Cylinder ${formatPower(cylinder)}D`);
+  if (add !== undefined && Math.abs(add) > RX_CHANGE_LIMITS.powerD) flags.push(`Add ${formatPower(add)}D`);
+
+  let axisShift: number | undefined;
+  if (now.cylinder && before.cylinder && now.axis !== undefined && before.axis !== undefined) {
+    const difference = Math.abs(now.axis - before.axis) % 180;
+    axisShift = Math.min(difference, 180 - difference);
+    if (
+      axisShift > RX_CHANGE_LIMITS.axisDegrees &&
+      Math.min(Math.abs(now.cylinder), Math.abs(before.cylinder)) >= RX_CHANGE_LIMITS.axisMinCylinderD
+    ) {
+      flags.push(`Axis shifted ${axisShift}°`);
+    }
+  }
+
+  return {
+    sphere,
+    cylinder,
+    add,
+    sphericalEquivalent: sphericalEquivalent(now) - sphericalEquivalent(before),
+    axisShift,
+    flags,
+  };
+};
+
+/**
+ * One eye of a stored prescription; error when the string as written cannot be read
+ */
+export const rxFromHistory = (
+  event: PrescriptionHistoryEvent,
+  eye: 'od' | 'os'
+): { rx?: SpectacleRx; error?: string } => {
+  const parsed = parseRx(event[eye] || '');
+  if (!parsed.rx) return parsed;
+  const add = parseAdd((eye === 'od' ? event.addOd : event.addOs) || '').add;
+  return { rx: { ...parsed.rx, add: add ?? parsed.rx.add } };
+};
+
+/**
+ * Large changes from an earlier prescription, e.g. "OD: Sphere -1.50D"; empty when none
+ */
+export const flagRxChanges = (
+  current: { od?: SpectacleRx; os?: SpectacleRx },
+  previous: PrescriptionHistoryEvent
+): string[] =>
+  (['od', 'os'] as const).flatMap((eye) => {
+    const now = current[eye];
+    const before = rxFromHistory(previous, eye).rx;
+    if (!now || !before) return [];
+    const { flags } = compareRx(now, before);
+    return flags.length ? [`${eye.toUpperCase()}: ${flags.join(', ')}`] : [];
+  });
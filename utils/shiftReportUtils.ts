@@ -0,0 +1,74 @@
+/**
+ * Shift Report Utilities
+ * Turns a cashier shift Z-report into export data for PDF, Excel and CSV
+ */
+
+import { ShiftReport, PaymentMethod } from '../types';
+import { ExportData, formatCurrency } from './exportUtils';
+import { formatISODateTime } from './dateTimeUtils';
+import { PAYMENT_METHODS } from '../services/paymentService';
+
+const methodLabel = (method: PaymentMethod): string =>
+  PAYMENT_METHODS.find(m => m.value === method)?.label || method;
+
+const PAYER_LABELS: Record<string, string> = {
+  CASH: 'Cash patients',
+  NHIF: 'NHIF',
+  PRIVATE: 'Private insurance',
+};
+
+/**
+ * Signed variance for display: "+ TZS 500" over, "- TZS 500" short
+ */
+export const formatVariance = (variance: number | null | undefined): string => {
+  if (variance == null) return '-';
+  if (variance === 0) return 'Balanced';
+  return `${variance > 0 ? '+' : '-'} ${formatCurrency(Math.abs(variance))}`;
+};
+
+/**
+ * Build the Z-report (or running X-report for an open shift) export
+ */
+export const buildShiftReportExport = (report: ShiftReport): ExportData => ({
+  title: report.closedAt ? `Z-Report ${report.shiftNumber}` : `X-Report ${report.shiftNumber} (shift open)`,
+  dateRange: {
+    start: formatISODateTime(report.openedAt),
+    end: report.closedAt ? formatISODateTime(report.closedAt) : 'Open',
+  },
+  summary: [
+    { label: 'Cashier', value: report.cashierName || '-' },
+    { label: 'Receipts', value: report.receiptCount },
+    { label: 'Total Taken', value: formatCurrency(report.totalTaken) },
+    { label: 'Opening Float', value: formatCurrency(report.openingFloat) },
+    { label: 'Expected Cash in Drawer', value: formatCurrency(report.expectedCash) },
+    { label: 'Counted Cash', value: report.countedCash != null ? formatCurrency(report.countedCash) : '-' },
+    { label: 'Cash Variance', value: formatVariance(report.cashVariance) },
+    { label: 'Change Given', value: formatCurrency(report.changeGiven) },
+    { label: 'Refunds Paid', value: formatCurrency(report.refundsPaid || 0) },
+  ],
+  tables: [
+    {
+      title: 'Takings by Payment Method',
+      headers: ['Method', 'Payments', 'Recorded', 'Declared', 'Variance'],
+      rows: report.byMethod.map(m => [
+        methodLabel(m.method),
+        m.count,
+        formatCurrency(m.amount),
+        m.method === 'CASH'
+          ? (report.countedCash != null ? formatCurrency(report.countedCash - report.openingFloat + (report.cashRefunds || 0)) : '-')
+          : (m.declared != null ? formatCurrency(m.declared) : '-'),
+        m.method === 'CASH' ? formatVariance(report.cashVariance) : formatVariance(m.variance),
+      ]),
+    },
+    {
+      title: 'Takings by Payer',
+      headers: ['Payer', 'Payments', ...report.byMethod.map(m => methodLabel(m.method)), 'Total'],
+      rows: report.byPayer.map(p => [
+        PAYER_LABELS[p.payer] || p.payer,
+        p.count,
+        ...report.byMethod.map(m => formatCurrency(p.methods[m.method] || 0)),
+        formatCurrency(p.amount),
+      ]),
+    },
+  ],
+});
@@ -0,0 +1,40 @@
+/**
+ * Tariff utility functions
+ * Resolves the price of a tariff item for a payer on a given date
+ */
+
+import { Patient, InsuranceType, InsuranceProvider, TariffItem, TariffPayer, TariffPrice } from '../types';
+import { getCurrentDate } from './dateTimeUtils';
+
+/**
+ * Payer whose tariff applies to a patient. Private patients without a recorded insurer pay the cash price.
+ */
+export const getPatientPayer = (patient: Pick<Patient, 'insuranceType' | 'insuranceProvider'>): TariffPayer => {
+  if (patient.insuranceType === InsuranceType.NHIF) return InsuranceProvider.NHIF;
+  if (patient.insuranceType === InsuranceType.PRIVATE && patient.insuranceProvider) return patient.insuranceProvider;
+  return 'CASH';
+};
+
+/**
+ * Price row in effect for exactly this payer on a date (YYYY-MM-DD), if any
+ */
+export const findTariffPrice = (item: TariffItem, payer: TariffPayer, date: string): TariffPrice | undefined =>
+  item.prices.find(p =>
+    p.payer === payer && p.effectiveFrom <= date && (!p.effectiveTo || p.effectiveTo >= date)
+  );
+
+/**
+ * Price of an item for a payer on a date (defaults to today at the clinic).
+ * Private insurers without their own tariff pay the cash price; NHIF never falls back,
+ * because an item without an NHIF price is not NHIF-covered.
+ */
+export const resolveTariffPrice = (
+  item: TariffItem,
+  payer: TariffPayer,
+  date: string = getCurrentDate()
+): number | undefined => {
+  const own = findTariffPrice(item, payer, date);
+  if (own) return own.price;
+  if (payer === 'CASH' || payer === InsuranceProvider.NHIF) return undefined;
+  return findTariffPrice(item, 'CASH', date)?.price;
+};
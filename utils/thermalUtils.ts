@@ -0,0 +1,163 @@
+/**
+ * Thermal Printer Documents
+ * 80mm ESC/POS versions of the payment receipt, the reception queue ticket and the
+ * optical workshop job ticket
+ */
+
+import { Patient, Payment, VisitBalance, FiscalReceipt } from '../types';
+import { EscPosBuilder } from './escpos';
+import { addThermalHeader } from './documentHeader';
+import { paymentMethodLabel } from './invoiceUtils';
+import { getBillableItems } from './patientUtils';
+import { formatISODateTime } from './dateTimeUtils';
+
+const tzs = (amount: number) => `TZS ${amount.toLocaleString()}`;
+
+/**
+ * Payment receipt for the lines recorded under one receipt number, with the TRA
+ * verification code and QR when the receipt has been fiscalised
+ */
+export const buildThermalReceipt = (
+  patient: Patient,
+  payments: Payment[],
+  balance: VisitBalance,
+  fiscalReceipt?: FiscalReceipt | null
+): Uint8Array => {
+  const printer = addThermalHeader(new EscPosBuilder());
+  const receiptNumber = payments[0]?.receiptNumber || '-';
+  const amountPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+  const paidBefore = balance.amountPaid - amountPaid;
+
+  printer
+    .align('center').bold(true).line('PAYMENT RECEIPT').bold(false).align('left')
+    .columns('Receipt:', receiptNumber)
+    .columns('Date:', formatISODateTime(payments[0]?.receivedAt || new Date().toISOString()))
+    .columns('Patient:', patient.name)
+    .columns('Patient ID:', patient.id)
+    .divider();
+
+  getBillableItems(patient.billItems || []).forEach(item => {
+    printer.columns(item.description || 'Service', tzs(item.amount));
+  });
+  printer.divider();
+
+  payments.forEach(p => {
+    printer.columns(`${paymentMethodLabel(p)}${p.referenceNumber ? ` ${p.referenceNumber}` : ''}`, tzs(p.amount));
+    if (p.amountTendered != null) printer.columns('  Tendered', tzs(p.amountTendered));
+    if (p.changeGiven > 0) printer.columns('  Change', tzs(p.changeGiven));
+  });
+  printer.divider();
+
+  printer.columns('Total Services', tzs(balance.billTotal));
+  if (paidBefore > 0) printer.columns('Previously Paid', `- ${tzs(paidBefore)}`);
+  printer
+    .bold(true).columns('AMOUNT PAID', tzs(amountPaid)).bold(false)
+    .columns('Balance Outstanding', tzs(balance.outstanding))
+    .align('center')
+    .bold(true)
+    .line(balance.outstanding > 0 ? 'PART PAYMENT - BALANCE DUE' : 'PAID IN FULL')
+    .bold(false);
+
+  if (fiscalReceipt) {
+    printer.divider();
+    if (fiscalReceipt.status === 'FISCALISED' && fiscalReceipt.verificationUrl) {
+      printer
+        .bold(true).line('TRA FISCAL RECEIPT').bold(false)
+        .align('left')
+        .columns('Verification Code:', fiscalReceipt.verificationCode || '-');
+      if (fiscalReceipt.zNumber) printer.columns('Z Number:', fiscalReceipt.zNumber);
+      if (fiscalReceipt.fiscalCounter != null) printer.columns('Receipt Counter:', String(fiscalReceipt.fiscalCounter));
+      printer.align('center').qrCode(fiscalReceipt.verificationUrl).line('Scan to verify with TRA');
+      if (fiscalReceipt.device === 'emulator') printer.bold(true).line('TEST RECEIPT - FISCAL EMULATOR').bold(false);
+    } else {
+      printer.line('Fiscal receipt pending -').line('verification code issued on reprint');
+    }
+  }
+
+  return printer
+    .feed(1)
+    .line('Thank you for your payment!')
+    .line('Please keep this receipt for your records')
+    .feed(3)
+    .cut()
+    .toBytes();
+};
+
+/**
+ * Queue ticket handed to the patient at check-in
+ */
+export const buildQueueTicket = (patient: Patient, tokenNumber: number): Uint8Array => {
+  const printer = addThermalHeader(new EscPosBuilder());
+  const appointment = patient.appointment;
+
+  printer
+    .align('center')
+    .line('QUEUE TICKET')
+    .feed(1)
+    .bold(true).size(true).line(String(tokenNumber).padStart(3, '0')).size(false).bold(false)
+    .feed(1)
+    .line(patient.name)
+    .line(`Patient ID: ${patient.id}`);
+  if (appointment) {
+    printer.line(`${appointment.appointmentType}${appointment.assignedDepartment ? ` - ${appointment.assignedDepartment}` : ''}`);
+  }
+
+  return printer
+    .line(formatISODateTime(patient.checkedInAt || new Date().toISOString()))
+    .divider()
+    .line('Please wait until your number is called')
+    .feed(3)
+    .cut()
+    .toBytes();
+};
+
+export interface OpticalJob {
+  patient: Patient;
+  od: string;
+  os: string;
+  addOd?: string;
+  addOs?: string;
+  lensType: string;
+  lensIndex: string;
+  coatings: string[];
+  edgeColor?: string;
+  frameDetails?: string;
+}
+
+/**
+ * Workshop job ticket for a dispensed spectacle order
+ */
+export const buildOpticalJobTicket = (job: OpticalJob): Uint8Array => {
+  const printer = addThermalHeader(new EscPosBuilder());
+
+  printer
+    .align('center').bold(true).line('OPTICAL JOB TICKET').bold(false).align('left')
+    .columns('Date:', formatISODateTime(new Date().toISOString()))
+    .columns('Patient:', job.patient.name)
+    .columns('Patient ID:', job.patient.id)
+    .divider()
+    .bold(true).line('PRESCRIPTION').bold(false)
+    .columns('OD (Right):', job.od || '-')
+    .columns('OS (Left):', job.os || '-');
+  if (job.addOd || job.addOs) {
+    printer.columns('ADD OD / OS:', `${job.addOd || '-'} / ${job.addOs || '-'}`);
+  }
+
+  printer
+    .divider()
+    .bold(true).line('LENSES').bold(false)
+    .columns('Type:', job.lensType || '-')
+    .columns('Index:', job.lensIndex || '-')
+    .line(`Coatings: ${job.coatings.length > 0 ? job.coatings.join(', ') : 'None'}`)
+    .columns('Edge:', job.edgeColor || '-')
+    .divider()
+    .bold(true).line('FRAME').bold(false)
+    .line(job.frameDetails || '-');
+
+  return printer
+    .feed(1)
+    .line('Checked by: ____________________')
+    .feed(3)
+    .cut()
+    .toBytes();
+};
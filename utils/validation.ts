@@ -3,6 +3,8 @@
  * Prevents XSS, injection attacks, and data corruption
  */
 
+import { parseRx } from './rxUtils';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -81,13 +83,11 @@ export const validateName = (name: string): boolean => {
 };
 
 /**
- * Validates prescription format (e.g., "-2.00 DS", "+1.50")
+ * Validates a spectacle prescription (e.g., "-2.00 DS", "-2.50/-0.75x180", "Plano")
  */
 export const validatePrescription = (prescription: string): boolean => {
   if (!prescription) return true; // Optional field
-  const sanitized = sanitizeInput(prescription);
-  // Matches formats like: -2.00 DS, +1.50, 0.00, etc.
-  return /^[+-]?\d+\.?\d*\s*(DS|DC|SPH|CYL|AXIS)?$/i.test(sanitized);
+  return !parseRx(sanitizeInput(prescription)).error;
 };
 
 /**
@@ -1,36 +1,79 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { usePatients } from '../contexts/PatientContext';
 import { useToast } from '../components/Toast';
 import { useAuth } from '../contexts/AuthContext';
-import { Appointment, AppointmentType, AppointmentPriority, PatientStatus, UserRole, InsuranceType } from '../types';
-import { getProviders } from '../services/providerService';
+import { useSettings } from '../contexts/SettingsContext';
+import { Appointment, AppointmentType, AppointmentPriority, PatientStatus, UserRole, InsuranceType, ProviderScheduleBlock, WaitlistEntry } from '../types';
+import { getProvidersForScheduling, Provider } from '../services/providerService';
+import { getAppointments, getProviderSchedules, getWaitlistOffers } from '../services/appointmentService';
 import { useDebounce } from '../utils/debounce';
 import { UI_TIMING } from '../constants';
 import { formatDate, formatTime } from '../utils/dateTimeUtils';
+import {
+  CalendarView,
+  getCalendarDays,
+  addDays,
+  toLocalDate,
+  formatCalendarRange,
+  formatAppointmentStatus,
+  isActiveAppointment,
+  isUpcomingAppointment,
+  getVisibleReminders,
+  REMINDER_KIND_LABELS,
+  REMINDER_STATUS_STYLES,
+} from '../utils/appointmentUtils';
+import AppointmentCalendar from '../components/AppointmentCalendar';
+import AppointmentBookingModal from '../components/AppointmentBookingModal';
+import AppointmentDetailsModal from '../components/AppointmentDetailsModal';
+import ProviderScheduleTemplates from '../components/ProviderScheduleTemplates';
+import AppointmentWaitlist from '../components/AppointmentWaitlist';
+import WaitlistOffersModal from '../components/WaitlistOffersModal';
 
 interface AppointmentsProps {
   onOpenEMR?: (patientId: string) => void;
 }
 
+// How far ahead an optometrist's own bookings are listed
+const UPCOMING_DAYS = 14;
+
+type BookView = CalendarView | 'list' | 'waitlist' | 'hours';
+
 const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
   const { patients, updatePatient } = usePatients();
-  const { activeRole } = useAuth();
+  const { activeRole, user } = useAuth();
+  const { workingHours } = useSettings();
   const { success: showSuccess, error: showError } = useToast();
   const [filterStatus, setFilterStatus] = useState<string>('ALL');
   const [filterType, setFilterType] = useState<string>('ALL');
   const [searchTerm, setSearchTerm] = useState('');
   const [viewMode, setViewMode] = useState<'queue' | 'appointments'>('queue');
+  const [bookView, setBookView] = useState<BookView>('day');
+  const [currentDate, setCurrentDate] = useState(toLocalDate(new Date()));
+  const [providerFilter, setProviderFilter] = useState('');
   const debouncedSearchTerm = useDebounce(searchTerm, UI_TIMING.DEBOUNCE_DELAY);
-  const [providers, setProviders] = useState<any[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [templates, setTemplates] = useState<ProviderScheduleBlock[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [isLoadingAppointments, setIsLoadingAppointments] = useState(false);
+  const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [booking, setBooking] = useState<{
+    appointment?: Appointment;
+    initial?: { date?: string; time?: string; providerId?: string };
+    waitlistEntry?: WaitlistEntry;
+  } | null>(null);
+  const [freedSlot, setFreedSlot] = useState<{ appointment: Appointment; offers: WaitlistEntry[] } | null>(null);
+  const [waitlistVersion, setWaitlistVersion] = useState(0);
   
   const isOptometrist = activeRole === UserRole.OPTOMETRIST;
+  const canEditSchedules = activeRole === UserRole.ADMIN || activeRole === UserRole.MANAGER;
+  const myProviderId = providers.find(p => p.userId === user?.id)?.id;
 
   // Load providers
   useEffect(() => {
     const loadProviders = async () => {
       try {
-        const providersList = await getProviders();
+        const providersList = await getProvidersForScheduling();
         setProviders(providersList);
       } catch (error) {
         console.error('Failed to load providers:', error);
@@ -40,6 +83,50 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
     loadProviders();
   }, []);
 
+  const loadTemplates = useCallback(async () => {
+    const result = await getProviderSchedules();
+    if (result.success) {
+      setTemplates(result.templates || []);
+    } else {
+      console.warn('Provider working hours unavailable:', result.error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOptometrist) loadTemplates();
+  }, [isOptometrist, loadTemplates]);
+
+  // Dates in view: the optometrist's next two weeks, or the day / week on the calendar
+  const days = useMemo(
+    () => getCalendarDays(bookView === 'day' ? 'day' : 'week', currentDate),
+    [bookView, currentDate]
+  );
+  const rangeFrom = isOptometrist ? toLocalDate(new Date()) : days[0];
+  const rangeTo = isOptometrist ? addDays(rangeFrom, UPCOMING_DAYS - 1) : days[days.length - 1];
+  const rangeProviderId = isOptometrist ? myProviderId : providerFilter || undefined;
+
+  const loadAppointments = useCallback(async () => {
+    if (isOptometrist && !rangeProviderId) {
+      setAppointments([]);
+      return;
+    }
+    setIsLoadingAppointments(true);
+    try {
+      const result = await getAppointments(rangeFrom, rangeTo, rangeProviderId);
+      if (result.success) {
+        setAppointments(result.appointments || []);
+      } else {
+        showError(result.error || 'Failed to load appointments');
+      }
+    } finally {
+      setIsLoadingAppointments(false);
+    }
+  }, [isOptometrist, rangeFrom, rangeTo, rangeProviderId]);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
   // Get clinical queue for optometrists (patients waiting or in clinical)
   const clinicalQueue = useMemo(() => {
     if (!isOptometrist) return [];
@@ -56,41 +143,9 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
       });
   }, [patients, isOptometrist]);
 
-  // Extract all appointments from patient records
-  const allAppointments = useMemo(() => {
-    const appointments: Array<Appointment & { patientName: string; patientPhone: string; patientId: string; patientStatus: PatientStatus }> = [];
-    
-    patients.forEach(patient => {
-      if (patient.appointment) {
-        appointments.push({
-          ...patient.appointment,
-          patientName: patient.name,
-          patientPhone: patient.phone,
-          patientId: patient.id,
-          patientStatus: patient.status,
-        });
-      }
-    });
-
-    // Sort by date and time (upcoming first, then past)
-    return appointments.sort((a, b) => {
-      const dateA = new Date(`${a.appointmentDate}T${a.appointmentTime}`).getTime();
-      const dateB = new Date(`${b.appointmentDate}T${b.appointmentTime}`).getTime();
-      const now = Date.now();
-      
-      // Upcoming appointments first
-      if (dateA > now && dateB <= now) return -1;
-      if (dateA <= now && dateB > now) return 1;
-      
-      // Then sort by date (upcoming: earliest first, past: most recent first)
-      if (dateA > now && dateB > now) return dateA - dateB;
-      return dateB - dateA;
-    });
-  }, [patients]);
-
   // Filter appointments
   const filteredAppointments = useMemo(() => {
-    let filtered = allAppointments;
+    let filtered = appointments;
 
     // Filter by status
     if (filterStatus !== 'ALL') {
@@ -106,30 +161,25 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
     if (debouncedSearchTerm.trim()) {
       const search = debouncedSearchTerm.toLowerCase();
       filtered = filtered.filter(apt =>
-        apt.patientName.toLowerCase().includes(search) ||
-        apt.patientPhone.includes(search) ||
+        (apt.patientName || '').toLowerCase().includes(search) ||
+        (apt.patientPhone || '').includes(search) ||
         apt.patientId.toLowerCase().includes(search) ||
-        (apt.assignedDoctorId && providers.find(p => p.id === apt.assignedDoctorId)?.name.toLowerCase().includes(search))
+        (apt.providerName || '').toLowerCase().includes(search)
       );
     }
 
     return filtered;
-  }, [allAppointments, filterStatus, filterType, debouncedSearchTerm]);
+  }, [appointments, filterStatus, filterType, debouncedSearchTerm]);
 
   // Get appointment statistics
   const stats = useMemo(() => ({
-    total: allAppointments.length,
-    scheduled: allAppointments.filter(a => a.status === 'SCHEDULED').length,
-    confirmed: allAppointments.filter(a => a.status === 'CONFIRMED').length,
-    completed: allAppointments.filter(a => a.status === 'COMPLETED').length,
-    cancelled: allAppointments.filter(a => a.status === 'CANCELLED').length,
-  }), [allAppointments]);
-
-  const getDoctorName = (doctorId?: string) => {
-    if (!doctorId) return 'Auto Assigned';
-    const doctor = providers.find(p => p.id === doctorId);
-    return doctor ? doctor.name : 'Unknown';
-  };
+    total: appointments.length,
+    scheduled: appointments.filter(a => a.status === 'SCHEDULED').length,
+    confirmed: appointments.filter(a => a.status === 'CONFIRMED').length,
+    completed: appointments.filter(a => a.status === 'COMPLETED').length,
+    cancelled: appointments.filter(a => a.status === 'CANCELLED').length,
+    noShows: appointments.filter(a => a.status === 'NO_SHOW').length,
+  }), [appointments]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -137,10 +187,14 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
         return 'bg-orange-100 text-orange-700';
       case 'CONFIRMED':
         return 'bg-brand-primary-100 text-brand-primary-dark';
+      case 'LATE':
+        return 'bg-amber-100 text-amber-700';
       case 'COMPLETED':
         return 'bg-green-100 text-green-700';
       case 'CANCELLED':
         return 'bg-red-100 text-red-700';
+      case 'NO_SHOW':
+        return 'bg-rose-100 text-rose-700';
       default:
         return 'bg-slate-100 text-slate-600';
     }
@@ -168,12 +222,86 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
     }
   };
 
+  const handleNavigate = (direction: -1 | 1) => {
+    setCurrentDate(addDays(currentDate, direction * (bookView === 'day' ? 1 : 7)));
+  };
+
+  // A cancelled or moved appointment frees its slot; offer it to the waitlist
+  const offerFreedSlot = async (previous: Appointment) => {
+    if (!previous.providerId || !isUpcomingAppointment(previous)) return;
+    const result = await getWaitlistOffers(previous.providerId, previous.appointmentDate, previous.durationMinutes || 30);
+    if (result.success && result.offers && result.offers.length > 0) {
+      setSelectedAppointment(null);
+      setFreedSlot({ appointment: previous, offers: result.offers });
+    }
+  };
+
+  const handleBookingSaved = (appointment: Appointment) => {
+    const previous = booking?.appointment;
+    setBooking(null);
+    setSelectedAppointment(previous ? appointment : null);
+    if (booking?.waitlistEntry) {
+      setWaitlistVersion(version => version + 1);
+    }
+    loadAppointments();
+    if (previous && (previous.appointmentDate !== appointment.appointmentDate
+      || previous.appointmentTime !== appointment.appointmentTime
+      || previous.providerId !== appointment.providerId)) {
+      offerFreedSlot(previous);
+    }
+  };
+
+  const handleAppointmentChanged = (appointment: Appointment) => {
+    const previous = selectedAppointment;
+    setSelectedAppointment(appointment);
+    loadAppointments();
+    if (previous && isActiveAppointment(previous) && appointment.status === 'CANCELLED') {
+      offerFreedSlot(previous);
+    }
+  };
+
+  const handleWaitlistBooked = (appointment: Appointment) => {
+    setFreedSlot(null);
+    setWaitlistVersion(version => version + 1);
+    setSelectedAppointment(appointment);
+    loadAppointments();
+  };
+
+  const modals = (
+    <>
+      {selectedAppointment && !booking && (
+        <AppointmentDetailsModal
+          appointment={selectedAppointment}
+          providers={providers}
+          onClose={() => setSelectedAppointment(null)}
+          onChanged={handleAppointmentChanged}
+          onReschedule={(appointment) => setBooking({ appointment })}
+        />
+      )}
+      {booking && (
+        <AppointmentBookingModal
+          providers={providers}
+          appointment={booking.appointment}
+          initial={booking.initial}
+          waitlistEntry={booking.waitlistEntry}
+          onClose={() => setBooking(null)}
+          onSaved={handleBookingSaved}
+        />
+      )}
+      {freedSlot && (
+        <WaitlistOffersModal
+          freedAppointment={freedSlot.appointment}
+          offers={freedSlot.offers}
+          onClose={() => setFreedSlot(null)}
+          onBooked={handleWaitlistBooked}
+        />
+      )}
+    </>
+  );
+
   // Optometrist View - Queue and Appointments
   if (isOptometrist) {
-    const upcomingAppointments = allAppointments.filter(apt => {
-      const aptDate = new Date(`${apt.appointmentDate}T${apt.appointmentTime}`).getTime();
-      return aptDate > Date.now() && apt.status !== 'CANCELLED' && apt.status !== 'COMPLETED';
-    });
+    const upcomingAppointments = appointments.filter(isActiveAppointment);
 
     return (
       <div className="space-y-6 max-w-7xl mx-auto">
@@ -325,7 +453,7 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
             <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
               <div className="p-6 border-b border-slate-200 bg-slate-50">
                 <h3 className="text-base font-bold text-slate-900 mb-1">Scheduled Appointments</h3>
-                <p className="text-xs text-slate-500 font-medium">Upcoming appointments assigned to you</p>
+                <p className="text-xs text-slate-500 font-medium">Upcoming appointments booked with you</p>
               </div>
               <div className="divide-y divide-slate-100">
                 {upcomingAppointments.length > 0 ? (
@@ -339,13 +467,13 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
                         <div className="flex items-start justify-between gap-4">
                           <div className="flex items-start gap-4 flex-1">
                             <div className="w-12 h-12 rounded-full bg-brand-primary-50 text-brand-primary flex items-center justify-center font-bold text-sm">
-                              {appointment.patientName.charAt(0)}
+                              {(appointment.patientName || '?').charAt(0)}
                             </div>
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-3 mb-2">
                                 <h4 className="text-sm font-bold text-slate-900">{appointment.patientName}</h4>
                                 <span className={`text-xs px-2 py-1 rounded-full font-semibold ${getStatusColor(appointment.status)}`}>
-                                  {appointment.status}
+                                  {formatAppointmentStatus(appointment.status)}
                                 </span>
                                 {appointment.priority === AppointmentPriority.EMERGENCY && (
                                   <span className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded-full font-bold">
@@ -398,8 +526,12 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
                 ) : (
                   <div className="p-12 text-center text-slate-400">
                     <i className="fas fa-calendar-times text-4xl mb-3 opacity-20"></i>
-                    <p className="text-sm font-semibold text-slate-600">No upcoming appointments</p>
-                    <p className="text-xs text-slate-500 mt-1">Scheduled appointments will appear here</p>
+                    <p className="text-sm font-semibold text-slate-600">
+                      {isLoadingAppointments ? 'Loading appointments...' : 'No upcoming appointments'}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {myProviderId ? `Appointments booked with you in the next ${UPCOMING_DAYS} days will appear here` : 'Your account is not set up as a provider'}
+                    </p>
                   </div>
                 )}
               </div>
@@ -410,171 +542,309 @@ const Appointments: React.FC<AppointmentsProps> = ({ onOpenEMR }) => {
     );
   }
 
-  // Receptionist/Admin View - Appointment History
+  // Receptionist/Admin View - Appointment Book
+  const bookTabs: Array<{ id: BookView; label: string; icon: string }> = [
+    { id: 'day', label: 'Day', icon: 'fa-calendar-day' },
+    { id: 'week', label: 'Week', icon: 'fa-calendar-week' },
+    { id: 'list', label: 'List', icon: 'fa-list' },
+    { id: 'waitlist', label: 'Waitlist', icon: 'fa-hourglass-half' },
+    ...(canEditSchedules ? [{ id: 'hours' as BookView, label: 'Working Hours', icon: 'fa-user-clock' }] : []),
+  ];
+
   return (
     <div className="space-y-6 max-w-7xl mx-auto">
       {/* Header with Stats */}
       <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
           <div>
-            <h2 className="text-base font-bold text-slate-900 tracking-tight">Appointment History</h2>
-            <p className="text-xs text-slate-500 font-medium mt-1">View and manage all patient appointments</p>
+            <h2 className="text-base font-bold text-slate-900 tracking-tight">Appointment Book</h2>
+            <p className="text-xs text-slate-500 font-medium mt-1">Book, reschedule and cancel appointments by provider</p>
           </div>
-          <div className="flex items-center gap-3 w-full sm:w-auto">
-            {/* Search */}
-            <div className="relative flex-1 sm:flex-initial">
-              <i className="fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 text-sm"></i>
-              <input
-                type="text"
-                placeholder="Search appointments..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="w-full sm:w-64 pl-11 pr-4 h-12 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all font-medium"
-              />
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex gap-2 bg-slate-100 p-1 rounded-xl">
+              {bookTabs.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setBookView(tab.id)}
+                  className={`px-4 py-2 rounded-lg text-xs font-semibold transition-all ${
+                    bookView === tab.id
+                      ? 'text-white shadow-md'
+                      : 'text-slate-600 hover:text-slate-900'
+                  }`}
+                  style={bookView === tab.id ? { backgroundColor: 'var(--brand-primary)' } : {}}
+                >
+                  <i className={`fas ${tab.icon} mr-2`}></i>
+                  {tab.label}
+                </button>
+              ))}
             </div>
+            <button
+              onClick={() => setBooking({ initial: { date: currentDate, providerId: providerFilter || undefined } })}
+              className="px-5 py-2.5 text-white bg-brand-primary rounded-xl text-xs font-semibold hover:bg-brand-primary-dark transition-colors flex items-center gap-2"
+            >
+              <i className="fas fa-plus"></i>
+              Book Appointment
+            </button>
           </div>
         </div>
 
-        {/* Statistics Cards */}
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-          <div className="bg-slate-50 p-4 rounded-xl border border-slate-200">
-            <p className="text-xs font-semibold text-slate-500 mb-1">Total</p>
-            <p className="text-base font-bold text-slate-900">{stats.total}</p>
-          </div>
-          <div className="bg-orange-50 p-4 rounded-xl border border-orange-200">
-            <p className="text-xs font-semibold text-orange-600 mb-1">Scheduled</p>
-            <p className="text-base font-bold text-orange-700">{stats.scheduled}</p>
-          </div>
-          <div className="bg-brand-primary-50 p-4 rounded-xl border border-brand-primary-100">
-            <p className="text-xs font-semibold text-blue-600 mb-1">Confirmed</p>
-            <p className="text-base font-bold text-brand-primary-dark">{stats.confirmed}</p>
-          </div>
-          <div className="bg-green-50 p-4 rounded-xl border border-green-200">
-            <p className="text-xs font-semibold text-green-600 mb-1">Completed</p>
-            <p className="text-base font-bold text-green-700">{stats.completed}</p>
-          </div>
-          <div className="bg-red-50 p-4 rounded-xl border border-red-200">
-            <p className="text-xs font-semibold text-red-600 mb-1">Cancelled</p>
-            <p className="text-base font-bold text-red-700">{stats.cancelled}</p>
-          </div>
-        </div>
+        {bookView !== 'hours' && bookView !== 'waitlist' && (
+          <>
+            {/* Date navigation */}
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleNavigate(-1)}
+                  className="w-10 h-10 rounded-xl bg-slate-100 text-slate-600 hover:bg-slate-200"
+                  aria-label="Previous"
+                >
+                  <i className="fas fa-chevron-left"></i>
+                </button>
+                <button
+                  onClick={() => setCurrentDate(toLocalDate(new Date()))}
+                  className="h-10 px-4 rounded-xl bg-slate-100 text-slate-700 text-xs font-semibold hover:bg-slate-200"
+                >
+                  Today
+                </button>
+                <button
+                  onClick={() => handleNavigate(1)}
+                  className="w-10 h-10 rounded-xl bg-slate-100 text-slate-600 hover:bg-slate-200"
+                  aria-label="Next"
+                >
+                  <i className="fas fa-chevron-right"></i>
+                </button>
+                <input
+                  type="date"
+                  value={currentDate}
+                  onChange={(e) => e.target.value && setCurrentDate(e.target.value)}
+                  className="h-10 px-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+                />
+                <span className="ml-2 text-sm font-bold text-slate-800">{formatCalendarRange(days)}</span>
+                {isLoadingAppointments && <i className="fas fa-spinner fa-spin text-slate-400 ml-2"></i>}
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-xs font-semibold text-slate-600">Provider:</label>
+                <select
+                  value={providerFilter}
+                  onChange={(e) => setProviderFilter(e.target.value)}
+                  className="h-10 px-4 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+                >
+                  <option value="">All Providers</option>
+                  {providers.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Statistics Cards */}
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+              <div className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+                <p className="text-xs font-semibold text-slate-500 mb-1">Total</p>
+                <p className="text-base font-bold text-slate-900">{stats.total}</p>
+              </div>
+              <div className="bg-orange-50 p-4 rounded-xl border border-orange-200">
+                <p className="text-xs font-semibold text-orange-600 mb-1">Scheduled</p>
+                <p className="text-base font-bold text-orange-700">{stats.scheduled}</p>
+              </div>
+              <div className="bg-brand-primary-50 p-4 rounded-xl border border-brand-primary-100">
+                <p className="text-xs font-semibold text-blue-600 mb-1">Confirmed</p>
+                <p className="text-base font-bold text-brand-primary-dark">{stats.confirmed}</p>
+              </div>
+              <div className="bg-green-50 p-4 rounded-xl border border-green-200">
+                <p className="text-xs font-semibold text-green-600 mb-1">Completed</p>
+                <p className="text-base font-bold text-green-700">{stats.completed}</p>
+              </div>
+              <div className="bg-red-50 p-4 rounded-xl border border-red-200">
+                <p className="text-xs font-semibold text-red-600 mb-1">Cancelled</p>
+                <p className="text-base font-bold text-red-700">{stats.cancelled}</p>
+              </div>
+              <div className="bg-rose-50 p-4 rounded-xl border border-rose-200">
+                <p className="text-xs font-semibold text-rose-600 mb-1">No-shows</p>
+                <p className="text-base font-bold text-rose-700">{stats.noShows}</p>
+              </div>
+            </div>
+          </>
+        )}
       </div>
 
-      {/* Filters */}
-      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
-        <div className="flex flex-wrap gap-4 items-center">
-          <div className="flex items-center gap-2">
-            <label className="text-xs font-semibold text-slate-600">Status:</label>
-            <select
-              value={filterStatus}
-              onChange={(e) => setFilterStatus(e.target.value)}
-              className="h-10 px-4 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
-            >
-              <option value="ALL">All Status</option>
-              <option value="SCHEDULED">Scheduled</option>
-              <option value="CONFIRMED">Confirmed</option>
-              <option value="COMPLETED">Completed</option>
-              <option value="CANCELLED">Cancelled</option>
-            </select>
-          </div>
+      {/* Calendar */}
+      {(bookView === 'day' || bookView === 'week') && (
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+          <AppointmentCalendar
+            view={bookView}
+            days={days}
+            appointments={appointments}
+            providers={providers}
+            templates={templates}
+            selectedProviderId={providerFilter || undefined}
+            workingHours={workingHours}
+            onSelectAppointment={setSelectedAppointment}
+            onSelectSlot={(slot) => setBooking({ initial: slot })}
+          />
+        </div>
+      )}
 
-          <div className="flex items-center gap-2">
-            <label className="text-xs font-semibold text-slate-600">Type:</label>
-            <select
-              value={filterType}
-              onChange={(e) => setFilterType(e.target.value)}
-              className="h-10 px-4 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
-            >
-              <option value="ALL">All Types</option>
-              {Object.values(AppointmentType).map(type => (
-                <option key={type} value={type}>{type}</option>
-              ))}
-            </select>
+      {bookView === 'list' && (
+        <>
+          {/* Filters */}
+          <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+            <div className="flex flex-wrap gap-4 items-center">
+              <div className="relative flex-1 min-w-[200px]">
+                <i className="fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 text-sm"></i>
+                <input
+                  type="text"
+                  placeholder="Search appointments..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full pl-11 pr-4 h-10 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all font-medium"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-xs font-semibold text-slate-600">Status:</label>
+                <select
+                  value={filterStatus}
+                  onChange={(e) => setFilterStatus(e.target.value)}
+                  className="h-10 px-4 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+                >
+                  <option value="ALL">All Status</option>
+                  <option value="SCHEDULED">Scheduled</option>
+                  <option value="CONFIRMED">Confirmed</option>
+                  <option value="LATE">Late</option>
+                  <option value="COMPLETED">Completed</option>
+                  <option value="CANCELLED">Cancelled</option>
+                  <option value="NO_SHOW">No-show</option>
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <label className="text-xs font-semibold text-slate-600">Type:</label>
+                <select
+                  value={filterType}
+                  onChange={(e) => setFilterType(e.target.value)}
+                  className="h-10 px-4 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+                >
+                  <option value="ALL">All Types</option>
+                  {Object.values(AppointmentType).map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
 
-      {/* Appointments Table */}
-      <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
-        <div className="overflow-x-auto">
-          <table className="w-full text-left border-collapse">
-            <thead className="bg-slate-50 border-b border-slate-200">
-              <tr>
-                <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Patient</th>
-                <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Appointment</th>
-                <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Date & Time</th>
-                <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Assigned Doctor</th>
-                <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Priority</th>
-                <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Status</th>
-                <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Department</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-100">
-              {filteredAppointments.length > 0 ? (
-                filteredAppointments.map(appointment => (
-                  <tr key={appointment.id} className="hover:bg-slate-50/50 transition-all">
-                    <td className="px-6 py-4">
-                      <div>
-                        <p className="text-sm font-semibold text-slate-800">{appointment.patientName}</p>
-                        <p className="text-xs text-slate-500 mt-0.5">{appointment.patientPhone}</p>
-                        <p className="text-xs text-slate-400 mt-0.5">ID: {appointment.patientId}</p>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className="text-sm font-medium text-slate-700">{appointment.appointmentType}</span>
-                    </td>
-                    <td className="px-6 py-4">
-                      <p className="text-sm font-medium text-slate-700">
-                        {formatDate(appointment.appointmentDate)}
-                      </p>
-                      <p className="text-xs text-slate-500 mt-0.5">{formatTime(appointment.appointmentTime)}</p>
-                    </td>
-                    <td className="px-6 py-4">
-                      <p className="text-sm font-medium text-slate-700">
-                        {getDoctorName(appointment.assignedDoctorId)}
-                      </p>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className={`text-xs px-3 py-1 rounded-full font-semibold ${getPriorityColor(appointment.priority)}`}>
-                        {appointment.priority}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className={`text-xs px-3 py-1 rounded-full font-semibold ${getStatusColor(appointment.status)}`}>
-                        {appointment.status}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className="text-xs px-3 py-1 rounded-lg bg-slate-100 text-slate-600 font-semibold">
-                        {appointment.assignedDepartment || 'N/A'}
-                      </span>
-                    </td>
+          {/* Appointments Table */}
+          <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
+            <div className="overflow-x-auto">
+              <table className="w-full text-left border-collapse">
+                <thead className="bg-slate-50 border-b border-slate-200">
+                  <tr>
+                    <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Patient</th>
+                    <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Appointment</th>
+                    <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Date & Time</th>
+                    <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Provider</th>
+                    <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Priority</th>
+                    <th className="px-6 py-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Status</th>
                   </tr>
-                ))
-              ) : (
-                <tr>
-                  <td colSpan={7} className="px-8 py-20 text-center text-slate-400 bg-white">
-                    <i className="fas fa-calendar-times text-5xl mb-4 opacity-20"></i>
-                    <p className="text-sm font-semibold text-slate-600">No appointments found</p>
-                    {searchTerm && (
-                      <p className="text-xs text-slate-500 mt-1">Try adjusting your search or filters</p>
-                    )}
-                  </td>
-                </tr>
-              )}
-            </tbody>
-          </table>
-        </div>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {filteredAppointments.length > 0 ? (
+                    filteredAppointments.map(appointment => (
+                      <tr
+                        key={appointment.id}
+                        onClick={() => setSelectedAppointment(appointment)}
+                        className="hover:bg-slate-50/50 transition-all cursor-pointer"
+                      >
+                        <td className="px-6 py-4">
+                          <div>
+                            <p className="text-sm font-semibold text-slate-800">{appointment.patientName}</p>
+                            <p className="text-xs text-slate-500 mt-0.5">{appointment.patientPhone}</p>
+                            <p className="text-xs text-slate-400 mt-0.5">ID: {appointment.patientId}</p>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className="text-sm font-medium text-slate-700">{appointment.appointmentType}</span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="text-sm font-medium text-slate-700">
+                            {formatDate(appointment.appointmentDate)}
+                          </p>
+                          <p className="text-xs text-slate-500 mt-0.5">
+                            {formatTime(appointment.appointmentTime)} · {appointment.durationMinutes} min
+                          </p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="text-sm font-medium text-slate-700">
+                            {appointment.providerName || 'Unknown'}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`text-xs px-3 py-1 rounded-full font-semibold ${getPriorityColor(appointment.priority)}`}>
+                            {appointment.priority}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`text-xs px-3 py-1 rounded-full font-semibold ${getStatusColor(appointment.status)}`}>
+                            {formatAppointmentStatus(appointment.status)}
+                          </span>
+                          {getVisibleReminders(appointment).length > 0 && (
+                            <div className="flex gap-1 mt-2">
+                              {getVisibleReminders(appointment).map(reminder => (
+                                <span
+                                  key={reminder.id}
+                                  title={reminder.lastError || REMINDER_KIND_LABELS[reminder.kind]}
+                                  className={`text-[10px] px-2 py-0.5 rounded-full font-semibold ${REMINDER_STATUS_STYLES[reminder.status]}`}
+                                >
+                                  <i className="fas fa-sms mr-1"></i>{reminder.kind.toLowerCase()} {reminder.status.toLowerCase()}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={6} className="px-8 py-20 text-center text-slate-400 bg-white">
+                        <i className="fas fa-calendar-times text-5xl mb-4 opacity-20"></i>
+                        <p className="text-sm font-semibold text-slate-600">
+                          {isLoadingAppointments ? 'Loading appointments...' : 'No appointments found'}
+                        </p>
+                        {searchTerm && (
+                          <p className="text-xs text-slate-500 mt-1">Try adjusting your search or filters</p>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
 
-        {/* Summary */}
-        {filteredAppointments.length > 0 && (
-          <div className="px-6 py-4 bg-slate-50 border-t border-slate-200">
-            <p className="text-sm font-medium text-slate-600">
-              Showing <span className="font-semibold">{filteredAppointments.length}</span> of <span className="font-semibold">{allAppointments.length}</span> appointments
-            </p>
+            {/* Summary */}
+            {filteredAppointments.length > 0 && (
+              <div className="px-6 py-4 bg-slate-50 border-t border-slate-200">
+                <p className="text-sm font-medium text-slate-600">
+                  Showing <span className="font-semibold">{filteredAppointments.length}</span> of <span className="font-semibold">{appointments.length}</span> appointments this week
+                </p>
+              </div>
+            )}
           </div>
-        )}
-      </div>
+        </>
+      )}
+
+      {bookView === 'waitlist' && (
+        <AppointmentWaitlist
+          providers={providers}
+          reloadKey={waitlistVersion}
+          onBook={(entry) => setBooking({ waitlistEntry: entry })}
+        />
+      )}
+
+      {bookView === 'hours' && canEditSchedules && (
+        <ProviderScheduleTemplates providers={providers} workingHours={workingHours} onSaved={loadTemplates} />
+      )}
+
+      {modals}
     </div>
   );
 };
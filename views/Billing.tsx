@@ -1,19 +1,65 @@
 
-import React, { useState, useEffect } from 'react';
-import { PatientStatus, InsuranceType } from '../types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { PatientStatus, InsuranceType, Payment, PaymentMethod, VisitBalance, FiscalReceipt, MobileMoneyNetwork, MobileMoneyRequest, CashierShift, ShiftReport, BillItem, BillAdjustment, BillAdjustmentType, InsuranceScheme, Preauthorization } from '../types';
 import { usePatients } from '../contexts/PatientContext';
 import { useToast } from '../components/Toast';
-import { calculateBillTotal, calculateInsuranceCoverage, isInsuranceEligible } from '../utils/patientUtils';
+import { calculateBillTotal, getBillableItems } from '../utils/patientUtils';
+import { evaluateBenefits, getOpticalBenefitUsed } from '../utils/benefitUtils';
+import { useTariffs } from '../contexts/TariffContext';
 import { formatDate, getCurrentDate } from '../utils/dateTimeUtils';
-import { generateInvoicePDF, generateReceiptPDF } from '../utils/invoiceUtils';
+import { generateInvoicePDF, generateReceiptPDF, generateCreditNotePDF } from '../utils/invoiceUtils';
 import NHIFVerificationBadge from '../components/NHIFVerificationBadge';
+import CashierShiftBar from '../components/CashierShiftBar';
 import { getPatientVisit } from '../services/nhifService';
 import { canCreateInvoice } from '../utils/nhifGating';
 import { logCriticalOperation } from '../services/auditLogService';
+import {
+  getVisitPayments,
+  recordPayments,
+  fiscaliseReceipt,
+  requestMobileMoneyPayment,
+  getMobileMoneyRequest,
+  detectMobileNetwork,
+  PAYMENT_METHODS,
+  MOBILE_MONEY_NETWORKS,
+} from '../services/paymentService';
+import { getCurrentShift } from '../services/shiftService';
+import { getVisitAdjustments, requestBillAdjustment } from '../services/billAdjustmentService';
+import { getInsuranceSchemes } from '../services/insuranceSchemeService';
+import { getVisitPreauthorizations } from '../services/preauthorizationService';
+import { evaluatePreauthGate, checkPreauthGate } from '../utils/preauthGating';
+import PreauthorizationPanel from '../components/PreauthorizationPanel';
+import ThermalPrintPreview from '../components/ThermalPrintPreview';
+import { isThermalPrinting, printThermal } from '../services/printService';
+import { buildThermalReceipt } from '../utils/thermalUtils';
+import { UI_TIMING } from '../constants';
+
+interface TenderLine {
+  method: PaymentMethod;
+  amount: string;
+  amountTendered: string;
+  referenceNumber: string;
+}
+
+interface AdjustmentForm {
+  item: BillItem;
+  type: BillAdjustmentType;
+  amount: string;
+  reason: string;
+  refundMethod: Exclude<PaymentMethod, 'INSURANCE'>;
+}
+
+const emptyTender = (method: PaymentMethod = 'CASH', amount = 0, referenceNumber = ''): TenderLine => ({
+  method,
+  amount: amount > 0 ? String(amount) : '',
+  amountTendered: '',
+  referenceNumber,
+});
 
 const Billing: React.FC = () => {
-  const { patients, updatePatient, refreshPatient } = usePatients();
-  const { success: showSuccess, error: showError } = useToast();
+  const { patients, updatePatient, refreshPatient, saveEncounter, getEncounters } = usePatients();
+  const { success: showSuccess, error: showError, warning: showWarning } = useToast();
+  const { tariffs } = useTariffs();
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   
@@ -21,6 +67,72 @@ const Billing: React.FC = () => {
   const activePatient = patients.find(p => p.id === selectedId);
   const [currentVisitId, setCurrentVisitId] = useState<string | null>(null);
   const [nhifGateResult, setNhifGateResult] = useState<{ allowed: boolean; reason?: string } | null>(null);
+  const [balance, setBalance] = useState<VisitBalance | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [fiscalReceipts, setFiscalReceipts] = useState<FiscalReceipt[]>([]);
+  const [printPreview, setPrintPreview] = useState<string | null>(null);
+  const [tenders, setTenders] = useState<TenderLine[]>([emptyTender()]);
+  const [mobileMoneyForm, setMobileMoneyForm] = useState<{ network: MobileMoneyNetwork | ''; phone: string; amount: string } | null>(null);
+  const [mobileMoneyRequest, setMobileMoneyRequest] = useState<MobileMoneyRequest | null>(null);
+  const [shift, setShift] = useState<CashierShift | null>(null);
+  const [shiftReport, setShiftReport] = useState<ShiftReport | null>(null);
+  const [adjustments, setAdjustments] = useState<BillAdjustment[]>([]);
+  const [adjustmentForm, setAdjustmentForm] = useState<AdjustmentForm | null>(null);
+  const [schemes, setSchemes] = useState<InsuranceScheme[]>([]);
+  const [opticalUsed, setOpticalUsed] = useState(0);
+  const [preauthorizations, setPreauthorizations] = useState<Preauthorization[]>([]);
+
+  const visitId = currentVisitId ?? activePatient?.visitId ?? null;
+
+  /**
+   * Private insurer scheme of a patient; null means the default private coverage applies
+   */
+  const findScheme = useCallback((patient?: { insuranceType: InsuranceType; insuranceSchemeId?: string }) =>
+    patient?.insuranceType === InsuranceType.PRIVATE
+      ? schemes.find(s => s.id === patient.insuranceSchemeId) || null
+      : null,
+  [schemes]);
+
+  const activeScheme = findScheme(activePatient);
+
+  // What the payer covers on each line of the current bill
+  const benefit = useMemo(() => activePatient
+    ? evaluateBenefits(getBillableItems(activePatient.billItems), activePatient.insuranceType, activeScheme, { tariffs, opticalUsed })
+    : null,
+  [activePatient, activeScheme, tariffs, opticalUsed]);
+
+  // Insurer share of pre-authorization items is capped at what the insurer approved
+  const preauthGate = useMemo(() => evaluatePreauthGate(
+    activePatient?.insuranceType === InsuranceType.PRIVATE && benefit ? benefit.lines : [],
+    preauthorizations,
+    tariffs
+  ), [activePatient?.insuranceType, benefit, preauthorizations, tariffs]);
+  const insurerLimit = Math.max((benefit?.totalCovered ?? 0) - preauthGate.insurerExcess, 0);
+
+  useEffect(() => {
+    getInsuranceSchemes().then(result => {
+      if (result.success) {
+        setSchemes(result.schemes || []);
+      } else {
+        console.warn('Insurance schemes unavailable:', result.error);
+      }
+    });
+  }, []);
+
+  /**
+   * Load the cashier's open shift and its running takings
+   */
+  const loadShift = useCallback(async () => {
+    const result = await getCurrentShift();
+    if (result.success) {
+      setShift(result.shift ?? null);
+      setShiftReport(result.report ?? null);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadShift();
+  }, [loadShift]);
 
   // Refresh patient data when selected
   useEffect(() => {
@@ -50,6 +162,85 @@ const Billing: React.FC = () => {
     }
   }, [activePatient]);
 
+  /**
+   * Load recorded payments and prefill the tender lines with what is still owed:
+   * the insurer's share first (if not yet recorded), the rest as cash
+   */
+  const loadPayments = useCallback(async (id: string) => {
+    const result = await getVisitPayments(id);
+    if (!result.success || !result.balance) {
+      setBalance(null);
+      setPayments([]);
+      setFiscalReceipts([]);
+      return;
+    }
+    setBalance(result.balance);
+    setPayments(result.payments || []);
+    setFiscalReceipts(result.fiscalReceipts || []);
+
+    const outstanding = result.balance.outstanding;
+    const patient = patients.find(p => p.id === selectedId);
+    const scheme = findScheme(patient);
+
+    // Annual optical limits count what the scheme paid on the patient's other visits this year
+    let used = 0;
+    if (patient && scheme?.annualOpticalLimit !== undefined) {
+      used = getOpticalBenefitUsed(await getEncounters(patient.id), scheme, { tariffs, excludeVisitId: id });
+    }
+    setOpticalUsed(used);
+
+    let visitPreauths: Preauthorization[] = [];
+    if (patient?.insuranceType === InsuranceType.PRIVATE) {
+      const preauthResult = await getVisitPreauthorizations(id);
+      visitPreauths = preauthResult.success ? preauthResult.preauthorizations || [] : [];
+    }
+    setPreauthorizations(visitPreauths);
+
+    const hasInsurancePayment = (result.payments || []).some(p => p.method === 'INSURANCE');
+    let coverage = 0;
+    if (patient && !hasInsurancePayment) {
+      const breakdown = evaluateBenefits(getBillableItems(patient.billItems), patient.insuranceType, scheme, { tariffs, opticalUsed: used });
+      const gate = evaluatePreauthGate(patient.insuranceType === InsuranceType.PRIVATE ? breakdown.lines : [], visitPreauths, tariffs);
+      coverage = Math.min(Math.max(breakdown.totalCovered - gate.insurerExcess, 0), outstanding);
+    }
+    const lines: TenderLine[] = [];
+    if (coverage > 0) {
+      lines.push(emptyTender('INSURANCE', coverage, patient?.insuranceNumber || ''));
+    }
+    if (outstanding - coverage > 0 || lines.length === 0) {
+      lines.push(emptyTender('CASH', outstanding - coverage));
+    }
+    setTenders(lines);
+  }, [patients, selectedId, findScheme, getEncounters, tariffs]);
+
+  const loadAdjustments = useCallback(async (id: string) => {
+    const result = await getVisitAdjustments(id);
+    setAdjustments(result.success ? result.adjustments || [] : []);
+  }, []);
+
+  useEffect(() => {
+    setMobileMoneyForm(null);
+    setMobileMoneyRequest(null);
+    setAdjustmentForm(null);
+    if (visitId) {
+      loadPayments(visitId);
+      loadAdjustments(visitId);
+    } else {
+      setBalance(null);
+      setPayments([]);
+      setAdjustments([]);
+      setOpticalUsed(0);
+      setPreauthorizations([]);
+      setTenders([emptyTender()]);
+    }
+  }, [visitId]); // Reload only when the visit changes, not on every patient list refresh
+
+  const updateTender = (index: number, field: keyof TenderLine, value: string) => {
+    setTenders(prev => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const tenderTotal = tenders.reduce((sum, t) => sum + (parseFloat(t.amount) || 0), 0);
+
   const handlePrintInvoice = async () => {
     if (!activePatient) {
       showError('Please select a patient');
@@ -62,7 +253,7 @@ const Billing: React.FC = () => {
     }
 
     try {
-      await generateInvoicePDF(activePatient);
+      await generateInvoicePDF(activePatient, insurerLimit);
       showSuccess('Invoice generated successfully');
     } catch (error) {
       showError('Failed to generate invoice');
@@ -70,7 +261,104 @@ const Billing: React.FC = () => {
     }
   };
 
-  const handleProcessPayment = async () => {
+  /**
+   * Close the visit once nothing is outstanding
+   */
+  const completeCheckout = async (paidBalance: VisitBalance) => {
+    if (!selectedId || !activePatient) return;
+
+    // Close the encounter with its final charges before the patient is checked out,
+    // so a failure leaves both open to retry
+    const encounterResult = await saveEncounter(selectedId, {
+      id: visitId ?? undefined,
+      status: 'COMPLETED',
+      billItems: activePatient.billItems,
+    });
+    if (!encounterResult.success) {
+      showError(`Payment recorded but the visit could not be closed: ${encounterResult.error || 'unknown error'}`);
+      return;
+    }
+
+    const result = await updatePatient(selectedId, { status: PatientStatus.COMPLETED });
+    if (!result.success) {
+      showError(result.error ?? 'Payment recorded but the patient could not be checked out');
+      return;
+    }
+
+    // Log payment processing
+    await logCriticalOperation(
+      'PROCESS_PAYMENT',
+      'PATIENT',
+      selectedId,
+      {
+        patientName: activePatient.name,
+        visitId,
+        totalAmount: paidBalance.billTotal,
+        amountPaid: paidBalance.amountPaid,
+        insuranceType: activePatient.insuranceType,
+      }
+    );
+
+    showSuccess(`Checkout complete for ${activePatient.name}`);
+    await refreshPatient(selectedId);
+    setSelectedId(null);
+  };
+
+  /**
+   * Print a receipt on this workstation's thermal printer, or as an A4 PDF
+   */
+  const printReceipt = async (
+    receiptPayments: Payment[],
+    receiptBalance: VisitBalance,
+    fiscalReceipt?: FiscalReceipt | null
+  ) => {
+    if (!activePatient) return;
+    if (!isThermalPrinting()) {
+      await generateReceiptPDF(activePatient, receiptPayments, receiptBalance, fiscalReceipt);
+      return;
+    }
+
+    const result = await printThermal(buildThermalReceipt(activePatient, receiptPayments, receiptBalance, fiscalReceipt));
+    if (!result.success) {
+      showError(`${result.error || 'Thermal print failed'} — printing A4 receipt instead`);
+      await generateReceiptPDF(activePatient, receiptPayments, receiptBalance, fiscalReceipt);
+    } else if (result.preview !== undefined) {
+      setPrintPreview(result.preview);
+    }
+  };
+
+  /**
+   * Print the receipt for newly recorded payments, then check out if the bill is settled.
+   * A receipt the fiscal device could not take is printed as pending and queued for retry.
+   */
+  const afterPaymentRecorded = async (
+    receiptPayments: Payment[],
+    newBalance: VisitBalance,
+    fiscalReceipt?: FiscalReceipt
+  ) => {
+    if (!activePatient || !visitId) return;
+
+    loadShift();
+
+    if (fiscalReceipt && fiscalReceipt.status !== 'FISCALISED') {
+      showWarning(`${fiscalReceipt.receiptNumber} could not be fiscalised (${fiscalReceipt.lastError || 'device error'}) — it will be retried; reprint once it is issued`);
+    }
+
+    try {
+      await printReceipt(receiptPayments, newBalance, fiscalReceipt);
+    } catch (receiptError) {
+      console.error('Receipt generation error:', receiptError);
+      // Don't fail the payment if receipt generation fails
+    }
+
+    if (newBalance.outstanding <= 0) {
+      await completeCheckout(newBalance);
+    } else {
+      await loadPayments(visitId);
+    }
+  };
+
+  const handleRecordPayment = async () => {
     if (!selectedId || !activePatient) {
       showError('Please select a patient');
       return;
@@ -81,57 +369,82 @@ const Billing: React.FC = () => {
       return;
     }
 
+    if (!visitId) {
+      showError('This patient has no open visit to record payment against');
+      return;
+    }
+
+    if (!shift) {
+      showError('Open a cashier shift before taking payments');
+      return;
+    }
+
     // Check NHIF service gate
-    if (activePatient.insuranceType === InsuranceType.NHIF && currentVisitId) {
-      const gateResult = await canCreateInvoice(currentVisitId);
+    if (activePatient.insuranceType === InsuranceType.NHIF) {
+      const gateResult = await canCreateInvoice(visitId);
       if (!gateResult.allowed) {
         showError(gateResult.reason || 'NHIF verification required before processing payment');
         return;
       }
     }
 
-    const totalAmount = calculateBillTotal(activePatient.billItems);
-    const patientResponsibility = totalAmount - calculateInsuranceCoverage(activePatient);
-    
-    if (!confirm(`Are you sure you want to process payment for ${activePatient.name}? Total: TZS ${totalAmount.toLocaleString()}, Patient Responsibility: TZS ${patientResponsibility.toLocaleString()}. This will mark the patient as completed.`)) {
+    // Check private insurer pre-authorization gate: never bill the insurer above what it approved
+    const insuranceTendered = tenders
+      .filter(t => t.method === 'INSURANCE')
+      .reduce((sum, t) => sum + (parseFloat(t.amount) || 0), 0);
+    if (activePatient.insuranceType === InsuranceType.PRIVATE && insuranceTendered > 0 && benefit) {
+      const gateResult = await checkPreauthGate(visitId, benefit.lines, tariffs);
+      const insuranceRecorded = payments.filter(p => p.method === 'INSURANCE').reduce((sum, p) => sum + p.amount, 0);
+      const billable = Math.max(benefit.totalCovered - gateResult.insurerExcess - insuranceRecorded, 0);
+      if (insuranceTendered > billable) {
+        showError(`${gateResult.reason ? `${gateResult.reason} ` : ''}The insurer can be billed at most TZS ${billable.toLocaleString()} on this visit.`);
+        return;
+      }
+    }
+
+    const lines = tenders.filter(t => parseFloat(t.amount) > 0);
+    if (lines.length === 0) {
+      showError('Enter the amount being paid');
+      return;
+    }
+    for (const line of lines) {
+      const method = PAYMENT_METHODS.find(m => m.value === line.method);
+      if (method?.referenceLabel && !line.referenceNumber.trim()) {
+        showError(`${method.label} payments need a ${method.referenceLabel.toLowerCase()}`);
+        return;
+      }
+      if (line.method === 'CASH' && line.amountTendered && parseFloat(line.amountTendered) < parseFloat(line.amount)) {
+        showError('Cash tendered is less than the cash amount');
+        return;
+      }
+    }
+    if (balance && tenderTotal > balance.outstanding) {
+      showError(`Payment exceeds the outstanding balance of TZS ${balance.outstanding.toLocaleString()}`);
+      return;
+    }
+
+    const remaining = (balance?.outstanding ?? tenderTotal) - tenderTotal;
+    if (!confirm(`Record payment of TZS ${tenderTotal.toLocaleString()} for ${activePatient.name}?${remaining > 0 ? ` TZS ${remaining.toLocaleString()} will remain outstanding.` : ' This settles the bill and completes checkout.'}`)) {
       return;
     }
 
     setIsProcessing(true);
     try {
-      const result = await updatePatient(selectedId, { status: PatientStatus.COMPLETED });
-      if (result.success) {
-        // Log payment processing
-        await logCriticalOperation(
-          'PROCESS_PAYMENT',
-          'PATIENT',
-          selectedId,
-          {
-            patientName: activePatient.name,
-            totalAmount: totalAmount,
-            patientResponsibility: patientResponsibility,
-            insuranceType: activePatient.insuranceType,
-          }
-        );
+      const result = await recordPayments(visitId, lines.map(line => ({
+        method: line.method,
+        amount: parseFloat(line.amount),
+        amountTendered: line.method === 'CASH' && line.amountTendered ? parseFloat(line.amountTendered) : undefined,
+        referenceNumber: line.referenceNumber.trim() || undefined,
+      })));
 
-        showSuccess(`Payment Processed Successfully for ${activePatient.name}`);
-        
-        // Generate receipt for cash clients
-        if (activePatient.insuranceType === InsuranceType.CASH) {
-          try {
-            await generateReceiptPDF(activePatient, 'Cash');
-          } catch (receiptError) {
-            console.error('Receipt generation error:', receiptError);
-            // Don't fail the payment if receipt generation fails
-          }
-        }
-        
-        // Refresh patient data to get updated status
-        await refreshPatient(selectedId);
-        setSelectedId(null);
-      } else {
-        showError(result.error ?? 'Failed to process payment');
+      if (!result.success || !result.balance) {
+        showError(result.error ?? 'Failed to record payment');
+        return;
       }
+
+      const change = (result.payments || []).reduce((sum, p) => sum + p.changeGiven, 0);
+      showSuccess(`Payment recorded on ${result.receiptNumber}${change > 0 ? ` — give change TZS ${change.toLocaleString()}` : ''}`);
+      await afterPaymentRecorded(result.payments || [], result.balance, result.fiscalReceipt);
     } catch (error) {
       showError('An error occurred while processing payment');
       console.error('Payment processing error:', error);
@@ -140,8 +453,204 @@ const Billing: React.FC = () => {
     }
   };
 
+  const openMobileMoneyForm = () => {
+    if (!activePatient || !balance) return;
+    setMobileMoneyForm({
+      network: detectMobileNetwork(activePatient.phone) || '',
+      phone: activePatient.phone || '',
+      amount: String(balance.outstanding),
+    });
+  };
+
+  const handleSendMobileMoney = async () => {
+    if (!visitId || !mobileMoneyForm) return;
+    const amount = parseFloat(mobileMoneyForm.amount);
+    if (!mobileMoneyForm.phone.trim()) {
+      showError('Enter the phone number to charge');
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      showError('Enter the amount to request');
+      return;
+    }
+    if (balance && amount > balance.outstanding) {
+      showError(`Amount exceeds the outstanding balance of TZS ${balance.outstanding.toLocaleString()}`);
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const result = await requestMobileMoneyPayment(visitId, {
+        network: mobileMoneyForm.network || undefined,
+        phone: mobileMoneyForm.phone.trim(),
+        amount,
+      });
+      if (result.success && result.request) {
+        setMobileMoneyRequest(result.request);
+        setMobileMoneyForm(null);
+      } else {
+        showError(result.error ?? 'Failed to send payment request');
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Poll a pending mobile money request until the patient approves or declines on their phone
+  useEffect(() => {
+    if (!mobileMoneyRequest || mobileMoneyRequest.status !== 'PENDING') return;
+
+    const startedAt = Date.now();
+    const interval = setInterval(async () => {
+      if (Date.now() - startedAt > UI_TIMING.MOBILE_MONEY_TIMEOUT) {
+        clearInterval(interval);
+        setMobileMoneyRequest(null);
+        showError('No response from the patient\'s phone. Ask them to check their phone and try again.');
+        return;
+      }
+
+      const result = await getMobileMoneyRequest(mobileMoneyRequest.id);
+      if (!result.success || !result.request || result.request.status === 'PENDING') return;
+
+      clearInterval(interval);
+      setMobileMoneyRequest(null);
+      const settled = result.request;
+
+      if (settled.status === 'FAILED') {
+        showError(`Mobile money payment failed: ${settled.failureReason || 'declined'}`);
+        return;
+      }
+      if (!settled.receiptNumber || !visitId) {
+        showError(settled.failureReason || 'Payment confirmed but not applied to the bill — refer to finance');
+        return;
+      }
+
+      showSuccess(`Mobile money payment confirmed (${settled.transactionId}) on ${settled.receiptNumber}`);
+      const paymentsResult = await getVisitPayments(visitId);
+      if (paymentsResult.success && paymentsResult.balance) {
+        await afterPaymentRecorded(
+          (paymentsResult.payments || []).filter(p => p.receiptNumber === settled.receiptNumber),
+          paymentsResult.balance,
+          (paymentsResult.fiscalReceipts || []).find(f => f.receiptNumber === settled.receiptNumber)
+        );
+      }
+    }, UI_TIMING.MOBILE_MONEY_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [mobileMoneyRequest?.id, mobileMoneyRequest?.status]);
+
+  const handleCompleteCheckout = async () => {
+    if (!balance) return;
+    setIsProcessing(true);
+    try {
+      await completeCheckout(balance);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * Reprint a receipt, rebuilding the balance as it stood after that receipt.
+   * A receipt not yet fiscalised is sent to the fiscal device again first.
+   */
+  const handleReprintReceipt = async (receiptNumber: string) => {
+    if (!activePatient || !balance) return;
+    const upTo = payments.findIndex((p, i) => p.receiptNumber === receiptNumber && payments[i + 1]?.receiptNumber !== receiptNumber);
+    const paidToDate = payments.slice(0, upTo + 1).reduce((sum, p) => sum + p.amount, 0);
+    const receiptLines = payments.filter(p => p.receiptNumber === receiptNumber);
+    let fiscalReceipt = fiscalReceipts.find(f => f.receiptNumber === receiptNumber);
+    if (fiscalReceipt?.status !== 'FISCALISED' && receiptLines.some(p => p.method !== 'INSURANCE')) {
+      const fiscalResult = await fiscaliseReceipt(receiptNumber);
+      if (fiscalResult.success && fiscalResult.fiscalReceipt) {
+        fiscalReceipt = fiscalResult.fiscalReceipt;
+        const updated = fiscalResult.fiscalReceipt;
+        setFiscalReceipts(prev => [...prev.filter(f => f.receiptNumber !== receiptNumber), updated]);
+      }
+      if (fiscalReceipt?.status !== 'FISCALISED') {
+        showWarning(`${receiptNumber} is still not fiscalised — printing without the TRA verification code`);
+      }
+    }
+    try {
+      await printReceipt(
+        receiptLines,
+        { billTotal: balance.billTotal, amountPaid: paidToDate, outstanding: Math.max(balance.billTotal - paidToDate, 0) },
+        fiscalReceipt
+      );
+    } catch (error) {
+      showError('Failed to generate receipt');
+      console.error('Receipt generation error:', error);
+    }
+  };
+
+  /**
+   * Start a void (nothing paid yet) or credit note (after payment) for a bill item
+   */
+  const openAdjustmentForm = (item: BillItem) => {
+    const credited = adjustments
+      .filter(a => a.billItemId === item.id && a.type === 'CREDIT_NOTE' && a.status === 'APPROVED')
+      .reduce((sum, a) => sum + a.amount, 0);
+    setAdjustmentForm({
+      item,
+      type: payments.length > 0 ? 'CREDIT_NOTE' : 'VOID',
+      amount: String(item.amount - credited),
+      reason: '',
+      refundMethod: 'CASH',
+    });
+  };
+
+  const handleRequestAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!visitId || !adjustmentForm) return;
+    if (!adjustmentForm.reason.trim()) {
+      showError('Give a reason for the correction');
+      return;
+    }
+    const amount = parseFloat(adjustmentForm.amount);
+    if (adjustmentForm.type === 'CREDIT_NOTE' && (isNaN(amount) || amount <= 0)) {
+      showError('Enter the amount to credit');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const result = await requestBillAdjustment(visitId, {
+        billItemId: adjustmentForm.item.id,
+        type: adjustmentForm.type,
+        reason: adjustmentForm.reason.trim(),
+        amount: adjustmentForm.type === 'CREDIT_NOTE' ? amount : undefined,
+        refundMethod: adjustmentForm.type === 'CREDIT_NOTE' ? adjustmentForm.refundMethod : undefined,
+      });
+      if (result.success && result.adjustment) {
+        showSuccess(`${result.adjustment.adjustmentNumber} sent to a manager for approval`);
+        setAdjustmentForm(null);
+        await loadAdjustments(visitId);
+      } else {
+        showError(result.error || 'Failed to request correction');
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePrintCreditNote = async (adjustment: BillAdjustment) => {
+    if (!activePatient) return;
+    try {
+      await generateCreditNotePDF(activePatient, adjustment);
+    } catch (error) {
+      showError('Failed to generate credit note');
+      console.error('Credit note generation error:', error);
+    }
+  };
+
+  const creditNotes = adjustments.filter(a => a.type === 'CREDIT_NOTE' && a.status === 'APPROVED');
+
+  const receiptNumbers = payments.map(p => p.receiptNumber).filter((r, i, all) => all.indexOf(r) === i);
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-full max-w-7xl mx-auto">
+      <div className="lg:col-span-3">
+        <CashierShiftBar shift={shift} report={shiftReport} onShiftChanged={loadShift} />
+      </div>
       <div className="lg:col-span-1 space-y-4">
         <h3 className="font-semibold text-slate-700 text-sm uppercase tracking-wide px-2">Cashier Queue</h3>
         <div className="space-y-3 px-2">
@@ -199,6 +708,17 @@ const Billing: React.FC = () => {
               </div>
             )}
 
+            {activePatient.insuranceType === InsuranceType.PRIVATE && (preauthGate.required || preauthorizations.length > 0) && (
+              <div className="p-6 border-b border-slate-100 bg-slate-50/50">
+                <PreauthorizationPanel
+                  visitId={visitId}
+                  gate={preauthGate}
+                  preauthorizations={preauthorizations}
+                  onChanged={() => visitId && loadPayments(visitId)}
+                />
+              </div>
+            )}
+
             <div className="p-8 border-b border-slate-100 flex justify-between items-start bg-slate-50/50">
               <div>
                 <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">Billing Summary</p>
@@ -233,27 +753,60 @@ const Billing: React.FC = () => {
                       <th className="text-center pb-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Dept</th>
                       <th className="text-center pb-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Eligibility</th>
                       <th className="text-right pb-4 text-xs font-semibold text-slate-600 uppercase tracking-wide">Amount (TZS)</th>
+                      {visitId && <th className="pb-4"></th>}
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
                     {activePatient.billItems.map(item => {
-                      const isEligible = isInsuranceEligible(item, activePatient.insuranceType);
+                      const line = benefit?.lines.find(l => l.itemId === item.id);
+                      const pending = adjustments.find(a => a.billItemId === item.id && a.status === 'PENDING');
+                      const credited = adjustments
+                        .filter(a => a.billItemId === item.id && a.type === 'CREDIT_NOTE' && a.status === 'APPROVED')
+                        .reduce((sum, a) => sum + a.amount, 0);
                       return (
-                        <tr key={item.id} className="hover:bg-slate-50 transition-colors">
-                          <td className="py-4 text-sm font-semibold text-slate-800">{item.description}</td>
+                        <tr key={item.id} className={`hover:bg-slate-50 transition-colors ${item.voidedAt ? 'opacity-50' : ''}`}>
+                          <td className="py-4 text-sm font-semibold text-slate-800">
+                            <span className={item.voidedAt ? 'line-through' : ''}>{item.description}</span>
+                            {item.voidedAt && (
+                              <span className="ml-2 text-xs px-2 py-0.5 bg-red-100 text-red-700 rounded-lg font-semibold">VOID</span>
+                            )}
+                            {pending && (
+                              <span className="ml-2 text-xs px-2 py-0.5 bg-amber-100 text-amber-700 rounded-lg font-semibold">
+                                {pending.type === 'VOID' ? 'Void' : 'Credit'} awaiting approval
+                              </span>
+                            )}
+                            {credited > 0 && (
+                              <p className="text-xs font-medium text-emerald-600 mt-1">Credited TZS {credited.toLocaleString()}</p>
+                            )}
+                          </td>
                           <td className="py-4 text-center">
                             <span className="text-xs px-3 py-1 bg-slate-100 rounded-lg font-semibold text-slate-600 uppercase tracking-wide">{item.category}</span>
                           </td>
                           <td className="py-4 text-center">
-                            {isEligible ? (
+                            {line && line.covered > 0 ? (
                               <span className="text-xs px-3 py-1 bg-emerald-100 text-emerald-700 rounded-full font-semibold flex items-center justify-center w-fit mx-auto gap-1.5">
-                                <i className="fas fa-shield-check text-xs"></i> Covered
+                                <i className="fas fa-shield-check text-xs"></i>
+                                {line.covered === line.amount ? 'Covered' : `Covers ${line.covered.toLocaleString()}`}
                               </span>
-                            ) : (
+                            ) : line ? (
                               <span className="text-xs px-3 py-1 bg-slate-100 text-slate-500 rounded-full font-semibold">Out-of-Pocket</span>
-                            )}
+                            ) : null}
+                            {line?.note && <p className="text-xs text-slate-400 mt-1">{line.note}</p>}
                           </td>
                           <td className="py-4 text-right font-bold text-slate-900 text-sm">{item.amount.toLocaleString()}</td>
+                          {visitId && (
+                            <td className="py-4 pl-4 text-right">
+                              {!item.voidedAt && !pending && credited < item.amount && (
+                                <button
+                                  onClick={() => openAdjustmentForm(item)}
+                                  className="text-xs font-semibold text-slate-400 hover:text-red-600"
+                                  title={payments.length > 0 ? 'Issue credit note' : 'Void item'}
+                                >
+                                  <i className={`fas ${payments.length > 0 ? 'fa-undo' : 'fa-ban'}`}></i>
+                                </button>
+                              )}
+                            </td>
+                          )}
                         </tr>
                       );
                     })}
@@ -274,18 +827,268 @@ const Billing: React.FC = () => {
                   <div className="space-y-3">
                     <div className="flex justify-between text-sm font-semibold text-slate-400">
                       <span>Gross Total Services</span>
-                      <span>TZS {calculateBillTotal(activePatient.billItems).toLocaleString()}</span>
+                      <span>TZS {(balance?.billTotal ?? calculateBillTotal(activePatient.billItems)).toLocaleString()}</span>
                     </div>
                     <div className="flex justify-between text-sm font-semibold text-brand-primary-light">
-                      <span>Insurance Contribution</span>
-                      <span>- TZS {calculateInsuranceCoverage(activePatient).toLocaleString()}</span>
+                      <span>Insurance Contribution (est.){activeScheme ? ` · ${activeScheme.name}` : ''}</span>
+                      <span>- TZS {insurerLimit.toLocaleString()}</span>
                     </div>
+                    {preauthGate.insurerExcess > 0 && (
+                      <div className="flex justify-between text-xs font-semibold text-amber-400">
+                        <span>{preauthGate.pending ? 'Awaiting insurer pre-authorization' : 'Not pre-authorized by insurer (patient pays)'}</span>
+                        <span>TZS {preauthGate.insurerExcess.toLocaleString()}</span>
+                      </div>
+                    )}
+                    {benefit && benefit.copay > 0 && (
+                      <div className="flex justify-between text-xs font-semibold text-slate-400">
+                        <span>Includes scheme co-pay paid by patient</span>
+                        <span>TZS {benefit.copay.toLocaleString()}</span>
+                      </div>
+                    )}
+                    {benefit?.opticalLimitRemaining !== undefined && (
+                      <div className="flex justify-between text-xs font-semibold text-slate-400">
+                        <span>Optical benefit left this year (after this bill)</span>
+                        <span>TZS {benefit.opticalLimitRemaining.toLocaleString()}</span>
+                      </div>
+                    )}
+                    {balance && balance.amountPaid > 0 && (
+                      <div className="flex justify-between text-sm font-semibold text-emerald-400">
+                        <span>Paid to Date</span>
+                        <span>- TZS {balance.amountPaid.toLocaleString()}</span>
+                      </div>
+                    )}
                   </div>
 
+                  {payments.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide">Payments Received</p>
+                      {receiptNumbers.map(receiptNumber => {
+                        const lines = payments.filter(p => p.receiptNumber === receiptNumber);
+                        const fiscal = fiscalReceipts.find(f => f.receiptNumber === receiptNumber);
+                        return (
+                          <div key={receiptNumber} className="flex justify-between items-center p-3 bg-white/5 border border-white/10 rounded-xl text-sm">
+                            <div>
+                              <p className="font-semibold">{receiptNumber}</p>
+                              <p className="text-xs text-slate-400">
+                                {lines.map(l => `${PAYMENT_METHODS.find(m => m.value === l.method)?.label || l.method}${l.referenceNumber ? ` (${l.referenceNumber})` : ''}`).join(' + ')}
+                                {' · '}{formatDate(lines[0].receivedAt.split('T')[0])}
+                              </p>
+                              {fiscal && (
+                                fiscal.status === 'FISCALISED' ? (
+                                  <p className="text-xs text-emerald-400">
+                                    <i className="fas fa-check-circle mr-1"></i>TRA {fiscal.verificationCode}
+                                  </p>
+                                ) : (
+                                  <p className="text-xs text-amber-400" title={fiscal.lastError}>
+                                    <i className="fas fa-exclamation-triangle mr-1"></i>Not fiscalised — reprint to retry
+                                  </p>
+                                )
+                              )}
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <span className="font-bold">TZS {lines.reduce((sum, l) => sum + l.amount, 0).toLocaleString()}</span>
+                              <button
+                                onClick={() => handleReprintReceipt(receiptNumber)}
+                                className="text-slate-400 hover:text-white"
+                                title="Reprint receipt"
+                              >
+                                <i className="fas fa-print"></i>
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {creditNotes.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide">Credit Notes</p>
+                      {creditNotes.map(note => (
+                        <div key={note.id} className="flex justify-between items-center p-3 bg-white/5 border border-white/10 rounded-xl text-sm">
+                          <div>
+                            <p className="font-semibold">{note.adjustmentNumber}</p>
+                            <p className="text-xs text-slate-400">
+                              {note.description}
+                              {note.refundAmount > 0 && ` · refunded TZS ${note.refundAmount.toLocaleString()} (${PAYMENT_METHODS.find(m => m.value === note.refundMethod)?.label || note.refundMethod})`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="font-bold">- TZS {note.amount.toLocaleString()}</span>
+                            <button
+                              onClick={() => handlePrintCreditNote(note)}
+                              className="text-slate-400 hover:text-white"
+                              title="Print credit note"
+                            >
+                              <i className="fas fa-print"></i>
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {visitId && balance && balance.outstanding > 0 && (
+                    <div className="space-y-3">
+                      <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide">Take Payment</p>
+                      {tenders.map((tender, index) => {
+                        const method = PAYMENT_METHODS.find(m => m.value === tender.method);
+                        const change = tender.method === 'CASH' && tender.amountTendered
+                          ? parseFloat(tender.amountTendered) - (parseFloat(tender.amount) || 0)
+                          : 0;
+                        return (
+                          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                            <select
+                              value={tender.method}
+                              onChange={(e) => updateTender(index, 'method', e.target.value)}
+                              className="col-span-3 h-10 px-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white outline-none"
+                            >
+                              {PAYMENT_METHODS.map(m => (
+                                <option key={m.value} value={m.value} className="text-slate-900">{m.label}</option>
+                              ))}
+                            </select>
+                            <input
+                              type="number"
+                              min={0}
+                              value={tender.amount}
+                              onChange={(e) => updateTender(index, 'amount', e.target.value)}
+                              placeholder="Amount"
+                              className="col-span-3 h-10 px-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white outline-none"
+                            />
+                            {tender.method === 'CASH' ? (
+                              <input
+                                type="number"
+                                min={0}
+                                value={tender.amountTendered}
+                                onChange={(e) => updateTender(index, 'amountTendered', e.target.value)}
+                                placeholder="Cash tendered"
+                                className="col-span-4 h-10 px-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white outline-none"
+                              />
+                            ) : (
+                              <input
+                                type="text"
+                                value={tender.referenceNumber}
+                                onChange={(e) => updateTender(index, 'referenceNumber', e.target.value)}
+                                placeholder={method?.referenceLabel}
+                                className="col-span-4 h-10 px-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white outline-none"
+                              />
+                            )}
+                            <div className="col-span-2 flex items-center justify-end gap-2">
+                              {change > 0 && <span className="text-xs font-semibold text-amber-300">Change {change.toLocaleString()}</span>}
+                              {tenders.length > 1 && (
+                                <button
+                                  onClick={() => setTenders(prev => prev.filter((_, i) => i !== index))}
+                                  className="text-slate-400 hover:text-red-400"
+                                  title="Remove line"
+                                >
+                                  <i className="fas fa-times"></i>
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                      <div className="flex gap-4">
+                        <button
+                          onClick={() => setTenders(prev => [...prev, emptyTender('CASH', Math.max(balance.outstanding - tenderTotal, 0))])}
+                          className="text-xs font-semibold text-brand-primary-light hover:text-white"
+                        >
+                          <i className="fas fa-plus mr-1"></i> Split payment
+                        </button>
+                        {shift && !mobileMoneyForm && !mobileMoneyRequest && (
+                          <button
+                            onClick={openMobileMoneyForm}
+                            className="text-xs font-semibold text-brand-primary-light hover:text-white"
+                          >
+                            <i className="fas fa-mobile-alt mr-1"></i> Request via mobile money
+                          </button>
+                        )}
+                      </div>
+
+                      {mobileMoneyForm && (
+                        <div className="p-4 bg-white/5 border border-white/10 rounded-xl space-y-3">
+                          <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide">Send payment request to phone</p>
+                          <div className="grid grid-cols-12 gap-2">
+                            <select
+                              value={mobileMoneyForm.network}
+                              onChange={(e) => setMobileMoneyForm({ ...mobileMoneyForm, network: e.target.value as MobileMoneyNetwork | '' })}
+                              className="col-span-4 h-10 px-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white outline-none"
+                            >
+                              <option value="" className="text-slate-900">Detect network</option>
+                              {MOBILE_MONEY_NETWORKS.map(n => (
+                                <option key={n.value} value={n.value} className="text-slate-900">{n.label}</option>
+                              ))}
+                            </select>
+                            <input
+                              type="tel"
+                              value={mobileMoneyForm.phone}
+                              onChange={(e) => setMobileMoneyForm({ ...mobileMoneyForm, phone: e.target.value, network: detectMobileNetwork(e.target.value) || mobileMoneyForm.network })}
+                              placeholder="07XX XXX XXX"
+                              className="col-span-4 h-10 px-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white outline-none"
+                            />
+                            <input
+                              type="number"
+                              min={0}
+                              value={mobileMoneyForm.amount}
+                              onChange={(e) => setMobileMoneyForm({ ...mobileMoneyForm, amount: e.target.value })}
+                              placeholder="Amount"
+                              className="col-span-4 h-10 px-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white outline-none"
+                            />
+                          </div>
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => setMobileMoneyForm(null)}
+                              className="px-4 h-9 bg-white/5 border border-white/10 rounded-xl text-xs font-semibold hover:bg-white/10"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={handleSendMobileMoney}
+                              disabled={isProcessing}
+                              className="px-4 h-9 rounded-xl text-xs font-semibold text-white disabled:opacity-50"
+                              style={{ backgroundColor: 'var(--brand-primary)' }}
+                            >
+                              <i className="fas fa-paper-plane mr-1"></i> Send Request
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
+                      {mobileMoneyRequest && (
+                        <div className="p-4 bg-amber-500/10 border border-amber-400/30 rounded-xl flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-semibold text-amber-200">
+                              <i className="fas fa-spinner fa-spin mr-2"></i>
+                              Waiting for the patient to approve on {mobileMoneyRequest.msisdn}
+                            </p>
+                            <p className="text-xs text-slate-400 mt-1">
+                              {MOBILE_MONEY_NETWORKS.find(n => n.value === mobileMoneyRequest.network)?.label} · TZS {mobileMoneyRequest.amount.toLocaleString()}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => setMobileMoneyRequest(null)}
+                            className="text-xs font-semibold text-slate-400 hover:text-white"
+                            title="Stop waiting (a late approval is still recorded by the gateway callback)"
+                          >
+                            Stop waiting
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <div className="border-t border-white/10 pt-6 flex justify-between items-center">
                     <div>
-                      <p className="text-xs font-semibold text-brand-primary-light uppercase tracking-wide mb-2">Net Patient Responsibility</p>
-                      <span className="text-base font-bold tracking-tight">TZS {(calculateBillTotal(activePatient.billItems) - calculateInsuranceCoverage(activePatient)).toLocaleString()}</span>
+                      <p className="text-xs font-semibold text-brand-primary-light uppercase tracking-wide mb-2">Outstanding Balance</p>
+                      <span className="text-base font-bold tracking-tight">
+                        TZS {(balance?.outstanding ?? calculateBillTotal(activePatient.billItems)).toLocaleString()}
+                      </span>
+                      {balance && balance.outstanding > 0 && tenderTotal > 0 && tenderTotal < balance.outstanding && (
+                        <p className="text-xs text-amber-300 mt-1">Part payment — TZS {(balance.outstanding - tenderTotal).toLocaleString()} will remain</p>
+                      )}
+                      {!visitId && (
+                        <p className="text-xs text-red-300 mt-1">No open visit — payments cannot be recorded</p>
+                      )}
                     </div>
                     
                     <div className="flex gap-3">
@@ -296,8 +1099,8 @@ const Billing: React.FC = () => {
                     <i className="fas fa-file-invoice text-white"></i> {activePatient.insuranceType === InsuranceType.CASH ? 'Invoice' : 'Bill'}
                   </button>
                   <button 
-                    onClick={handleProcessPayment}
-                    disabled={isProcessing || !activePatient.billItems || activePatient.billItems.length === 0}
+                    onClick={balance && balance.outstanding <= 0 ? handleCompleteCheckout : handleRecordPayment}
+                    disabled={isProcessing || !visitId || !balance || activePatient.billItems.length === 0 || (!shift && balance.outstanding > 0)}
                     className="px-8 h-12 text-white rounded-xl font-semibold text-sm shadow-lg active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                     style={{
                       backgroundColor: 'var(--brand-primary)',
@@ -311,7 +1114,13 @@ const Billing: React.FC = () => {
                       e.currentTarget.style.backgroundColor = 'var(--brand-primary)';
                     }}
                   >
-                    {isProcessing ? 'Processing...' : 'Confirm & Complete Checkout'}
+                    {isProcessing
+                      ? 'Processing...'
+                      : balance && balance.outstanding <= 0
+                      ? 'Complete Checkout'
+                      : !shift
+                      ? 'Open a Shift to Take Payment'
+                      : `Record Payment${tenderTotal > 0 ? ` · TZS ${tenderTotal.toLocaleString()}` : ''}`}
                   </button>
                     </div>
                   </div>
@@ -334,6 +1143,69 @@ const Billing: React.FC = () => {
           </div>
         )}
       </div>
+
+      {adjustmentForm && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleRequestAdjustment} className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <div>
+              <h3 className="text-base font-bold text-slate-900">
+                {adjustmentForm.type === 'VOID' ? 'Void Bill Item' : 'Issue Credit Note'}
+              </h3>
+              <p className="text-xs text-slate-500 mt-1">
+                {adjustmentForm.item.description} · TZS {adjustmentForm.item.amount.toLocaleString()}.
+                {' '}A manager must approve this before the bill changes.
+              </p>
+            </div>
+            {adjustmentForm.type === 'CREDIT_NOTE' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Amount to credit</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={adjustmentForm.amount}
+                    onChange={(e) => setAdjustmentForm({ ...adjustmentForm, amount: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-brand-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Refund by</label>
+                  <select
+                    value={adjustmentForm.refundMethod}
+                    onChange={(e) => setAdjustmentForm({ ...adjustmentForm, refundMethod: e.target.value as AdjustmentForm['refundMethod'] })}
+                    className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-brand-primary"
+                  >
+                    {PAYMENT_METHODS.filter(m => m.value !== 'INSURANCE').map(m => (
+                      <option key={m.value} value={m.value}>{m.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Reason</label>
+              <textarea
+                value={adjustmentForm.reason}
+                onChange={(e) => setAdjustmentForm({ ...adjustmentForm, reason: e.target.value })}
+                rows={3}
+                autoFocus
+                placeholder={adjustmentForm.type === 'VOID' ? 'e.g. Charged twice, wrong item dispensed' : 'e.g. Frames returned, overcharged'}
+                className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-brand-primary"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setAdjustmentForm(null)} className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-50 rounded-xl">
+                Cancel
+              </button>
+              <button type="submit" disabled={isProcessing} className="px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-xl disabled:opacity-50">
+                {isProcessing ? 'Sending...' : 'Send for Approval'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <ThermalPrintPreview preview={printPreview} onClose={() => setPrintPreview(null)} />
     </div>
   );
 };
@@ -1,10 +1,14 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { PatientStatus, Provider, InsuranceType } from '../types';
+import { PatientStatus, Provider, InsuranceType, Encounter, BillItem, InsuranceProvider, EyeExam, EyeExamEye, PrescriptionDocumentData, PrescriptionHistoryEvent, PrismBase, SpectacleRx, TonometryMethod } from '../types';
 import { usePatients } from '../contexts/PatientContext';
 import { useToast } from '../components/Toast';
 import * as patientService from '../services/patientService';
 import NHIFVerificationBadge from '../components/NHIFVerificationBadge';
+import EncounterTimeline from '../components/EncounterTimeline';
+import EyeExamTrends from '../components/EyeExamTrends';
+import RxSummary from '../components/RxSummary';
+import RxComparison from '../components/RxComparison';
 import { getPatientVisit } from '../services/nhifService';
 import { canStartConsultation } from '../utils/nhifGating';
 import { 
@@ -15,20 +19,33 @@ import {
   getMedicationSuggestion 
 } from '../services/geminiService';
 import { generateBillItemId } from '../utils/idGenerator';
-import { sanitizeInput, validatePrescription } from '../utils/validation';
-import { CLINICAL_FEES, VALIDATION_LIMITS } from '../constants';
+import { sanitizeInput } from '../utils/validation';
+import { VALIDATION_LIMITS } from '../constants';
+import { useTariffs } from '../contexts/TariffContext';
+import { getPatientPayer } from '../utils/tariffUtils';
 import { AppError } from '../utils/errorHandler';
 import { formatDate, formatTime } from '../utils/dateTimeUtils';
 import { logCriticalOperation } from '../services/auditLogService';
 import { getICD10Codes } from '../services/icd10Service';
+import { getEyeExam, saveEyeExam } from '../services/eyeExamService';
+import { flagRxChanges, formatAdd, formatRx, parseAdd, parseRx, rxFromEyeExam, validateRx } from '../utils/rxUtils';
+import { generateMedicationPrescriptionPDF, generateSpectaclePrescriptionPDF } from '../utils/prescriptionPdfUtils';
+import {
+  TONOMETRY_METHODS,
+  parseMeasurement,
+  parsePupillaryDistance,
+  validateEyeExam,
+  formatEyeExamSummary,
+} from '../utils/eyeExamUtils';
 
 interface ClinicalProps {
   activeProvider?: Provider;
 }
 
 const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
-  const { patients, updatePatient, refreshPatient, useApi } = usePatients();
+  const { patients, updatePatient, refreshPatient, getEncounters, saveEncounter, useApi } = usePatients();
   const { success: showSuccess, error: showError } = useToast();
+  const { getTariff, priceFor } = useTariffs();
   
   // Check if patient ID was passed from appointments page
   const [selectedPatientId, setSelectedPatientId] = useState<string | null>(() => {
@@ -57,6 +74,8 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
   const [visualAcuityNearOS, setVisualAcuityNearOS] = useState('');
   const [visualAcuityPinholeOD, setVisualAcuityPinholeOD] = useState('');
   const [visualAcuityPinholeOS, setVisualAcuityPinholeOS] = useState('');
+  const [bestCorrectedVaOD, setBestCorrectedVaOD] = useState('');
+  const [bestCorrectedVaOS, setBestCorrectedVaOS] = useState('');
   const [refractionOD, setRefractionOD] = useState('');
   const [refractionOS, setRefractionOS] = useState('');
   const [addOD, setAddOD] = useState('');
@@ -73,6 +92,9 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
   const [intraocularPressureOS, setIntraocularPressureOS] = useState('');
   const [tonometryMethod, setTonometryMethod] = useState('');
   const [isDilated, setIsDilated] = useState(false);
+  const [cupDiscRatioOD, setCupDiscRatioOD] = useState('');
+  const [cupDiscRatioOS, setCupDiscRatioOS] = useState('');
+  const [examErrors, setExamErrors] = useState<Record<string, string>>({});
   
   // Additional Examination Tests
   const [visualField, setVisualField] = useState('');
@@ -155,6 +177,14 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
   const activePatient = patients.find(p => p.id === selectedPatientId);
   const [currentVisitId, setCurrentVisitId] = useState<string | null>(null);
   const [nhifGateResult, setNhifGateResult] = useState<{ allowed: boolean; reason?: string } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTrends, setShowTrends] = useState(false);
+  // Prescriptions from the consultation just completed, kept so they can be printed after the form resets
+  const [printableRx, setPrintableRx] = useState<PrescriptionDocumentData | null>(null);
+  const [encounters, setEncounters] = useState<Encounter[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [prescriptionHistory, setPrescriptionHistory] = useState<PrescriptionHistoryEvent[]>([]);
+  const [compareIndex, setCompareIndex] = useState(0);
 
   // When using API, fetch full patient details (incl. prescription, billItems) on select
   useEffect(() => {
@@ -163,27 +193,93 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
     }
   }, [useApi, selectedPatientId, refreshPatient]);
 
-  // Fetch visit ID for NHIF patients
+  // Fetch the current visit (encounter) ID; NHIF patients are also gated on it
   useEffect(() => {
-    if (activePatient && activePatient.insuranceType === InsuranceType.NHIF) {
-      getPatientVisit(activePatient.id)
-        .then((result) => {
-          if (result.success && result.visit) {
-            setCurrentVisitId(result.visit.id);
+    setNhifGateResult(null);
+    if (!activePatient) {
+      setCurrentVisitId(null);
+      return;
+    }
+    setCurrentVisitId(activePatient.visitId ?? null);
+    getPatientVisit(activePatient.id)
+      .then((result) => {
+        if (result.success && result.visit) {
+          setCurrentVisitId(result.visit.id);
+          if (activePatient.insuranceType === InsuranceType.NHIF) {
             // Check service gate
             canStartConsultation(result.visit.id).then((gateResult) => {
               setNhifGateResult(gateResult);
             });
           }
-        })
-        .catch(() => {
-          // Visit might not exist yet
-        });
-    } else {
-      setCurrentVisitId(null);
-      setNhifGateResult(null);
+        }
+      })
+      .catch(() => {
+        // Visit might not exist yet
+      });
+  }, [activePatient?.id]);
+
+  // Earlier prescriptions to compare this visit's refraction against
+  useEffect(() => {
+    setPrescriptionHistory([]);
+    setCompareIndex(0);
+    if (!activePatient) return;
+    if (!useApi) {
+      setPrescriptionHistory(activePatient.prescriptionHistory ?? []);
+      return;
     }
-  }, [activePatient]);
+    patientService.getPrescriptionHistory(activePatient.id)
+      .then((result) => setPrescriptionHistory(result.history))
+      .catch(() => {
+        // Comparison is advisory; the consultation goes ahead without it
+      });
+  }, [useApi, activePatient?.id]);
+
+  // This visit's own prescription is what is being compared, not a previous one
+  const previousPrescriptions = prescriptionHistory.filter(event => !currentVisitId || event.visitId !== currentVisitId);
+  const comparedPrescription = previousPrescriptions[Math.min(compareIndex, previousPrescriptions.length - 1)];
+
+  // Reopening a patient mid-visit brings back the exam already recorded for it
+  useEffect(() => {
+    setExamErrors({});
+    if (!useApi || !currentVisitId) return;
+    getEyeExam(currentVisitId).then((result) => {
+      const exam = result.success ? result.exam : null;
+      if (!exam) return;
+      const text = (value?: string | number) => (value === undefined ? '' : String(value));
+      setVisualAcuityDistanceOD(text(exam.od.vaDistance));
+      setVisualAcuityDistanceOS(text(exam.os.vaDistance));
+      setVisualAcuityNearOD(text(exam.od.vaNear));
+      setVisualAcuityNearOS(text(exam.os.vaNear));
+      setVisualAcuityPinholeOD(text(exam.od.vaPinhole));
+      setVisualAcuityPinholeOS(text(exam.os.vaPinhole));
+      setBestCorrectedVaOD(text(exam.od.vaBestCorrected));
+      setBestCorrectedVaOS(text(exam.os.vaBestCorrected));
+      setIntraocularPressureOD(text(exam.od.iopMmHg));
+      setIntraocularPressureOS(text(exam.os.iopMmHg));
+      setTonometryMethod(text(exam.tonometryMethod));
+      setIsDilated(exam.isDilated);
+      setPupils(text(exam.pupils));
+      setPupilSizeOD(text(exam.od.pupilSizeMm));
+      setPupilSizeOS(text(exam.os.pupilSizeMm));
+      setPupilReactivityOD(text(exam.od.pupilReaction));
+      setPupilReactivityOS(text(exam.os.pupilReaction));
+      setExtraocularMovements(text(exam.extraocularMovements));
+      setAnteriorSegment(text(exam.anteriorSegment));
+      setPosteriorSegment(text(exam.posteriorSegment));
+      setSlitLampFindings(text(exam.slitLamp));
+      setCupDiscRatioOD(text(exam.od.cupDiscRatio));
+      setCupDiscRatioOS(text(exam.os.cupDiscRatio));
+    });
+  }, [useApi, currentVisitId]);
+
+  // Load encounter history when the History panel is opened
+  useEffect(() => {
+    if (!showHistory || !selectedPatientId) return;
+    setIsHistoryLoading(true);
+    getEncounters(selectedPatientId)
+      .then(setEncounters)
+      .finally(() => setIsHistoryLoading(false));
+  }, [showHistory, selectedPatientId]);
 
   // Load patient data when selectedPatientId changes
   useEffect(() => {
@@ -245,34 +341,30 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
     }
   };
 
-  // Handler for prescription inputs with validation
+  // Handler for prescription inputs: keeps what was typed and flags anything that cannot be dispensed
   const handlePrescriptionChange = (
     field: 'od' | 'os' | 'addOd' | 'addOs',
     value: string
   ) => {
-    // Allow empty values (prescription is optional)
-    if (!value.trim()) {
-      setPrescriptionErrors(prev => ({ ...prev, [field]: undefined }));
-      if (field === 'od') setPrescriptionOD('');
-      else if (field === 'os') setPrescriptionOS('');
-      else if (field === 'addOd') setPrescriptionAddOD('');
-      else if (field === 'addOs') setPrescriptionAddOS('');
-      return;
-    }
+    if (field === 'od') setPrescriptionOD(value);
+    else if (field === 'os') setPrescriptionOS(value);
+    else if (field === 'addOd') setPrescriptionAddOD(value);
+    else if (field === 'addOs') setPrescriptionAddOS(value);
 
-    // Validate prescription format
-    if (validatePrescription(value)) {
-      setPrescriptionErrors(prev => ({ ...prev, [field]: undefined }));
-      if (field === 'od') setPrescriptionOD(value);
-      else if (field === 'os') setPrescriptionOS(value);
-      else if (field === 'addOd') setPrescriptionAddOD(value);
-      else if (field === 'addOs') setPrescriptionAddOS(value);
-    } else {
-      setPrescriptionErrors(prev => ({
-        ...prev,
-        [field]: 'Invalid prescription format. Use format like: -2.00 DS or +1.50'
-      }));
-    }
+    const { error } = field === 'od' || field === 'os' ? parseRx(value) : parseAdd(value);
+    setPrescriptionErrors(prev => ({ ...prev, [field]: error }));
+  };
+
+  // Typed Rx for an eye: the written prescription when given, otherwise the refraction fields
+  const rxForEye = (
+    written: string,
+    addText: string,
+    refraction: EyeExamEye
+  ): { rx?: SpectacleRx; error?: string } => {
+    const parsed = written.trim() ? parseRx(written) : { rx: rxFromEyeExam(refraction) };
+    const add = parseAdd(addText);
+    if (parsed.error || add.error) return { error: parsed.error || add.error };
+    return parsed.rx ? { rx: { ...parsed.rx, add: add.add ?? parsed.rx.add } } : {};
   };
 
   const handleAiInsight = async () => {
@@ -403,6 +495,58 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
     }
   };
 
+  // Typed exam from the form; unreadable numbers become NaN so validation reports them
+  const buildEyeExam = (): Omit<EyeExam, 'id' | 'visitId' | 'patientId'> => {
+    // Prism may be typed with its base, e.g. "2Δ BI"
+    const prism = (value: string) => parseMeasurement(value.replace(/\s*B[IOUD]$/i, ''));
+    const prismBase = (base: string, value: string) =>
+      (base || value.trim().match(/B[IOUD]$/i)?.[0].toUpperCase() || undefined) as PrismBase | undefined;
+    const text = (value: string) => value.trim() || undefined;
+    return {
+      providerId: activeProvider?.id,
+      od: {
+        vaDistance: text(visualAcuityDistanceOD)?.toUpperCase(),
+        vaNear: text(visualAcuityNearOD)?.toUpperCase(),
+        vaPinhole: text(visualAcuityPinholeOD)?.toUpperCase(),
+        vaBestCorrected: text(bestCorrectedVaOD)?.toUpperCase(),
+        iopMmHg: parseMeasurement(intraocularPressureOD),
+        pupilSizeMm: parseMeasurement(pupilSizeOD),
+        pupilReaction: text(pupilReactivityOD),
+        cupDiscRatio: parseMeasurement(cupDiscRatioOD),
+        sphere: parseMeasurement(sphereOD),
+        cylinder: parseMeasurement(cylinderOD),
+        axis: parseMeasurement(axisOD),
+        add: parseMeasurement(prescriptionAddOD),
+        prism: prism(prismOD),
+        prismBase: prismBase(baseOD, prismOD),
+      },
+      os: {
+        vaDistance: text(visualAcuityDistanceOS)?.toUpperCase(),
+        vaNear: text(visualAcuityNearOS)?.toUpperCase(),
+        vaPinhole: text(visualAcuityPinholeOS)?.toUpperCase(),
+        vaBestCorrected: text(bestCorrectedVaOS)?.toUpperCase(),
+        iopMmHg: parseMeasurement(intraocularPressureOS),
+        pupilSizeMm: parseMeasurement(pupilSizeOS),
+        pupilReaction: text(pupilReactivityOS),
+        cupDiscRatio: parseMeasurement(cupDiscRatioOS),
+        sphere: parseMeasurement(sphereOS),
+        cylinder: parseMeasurement(cylinderOS),
+        axis: parseMeasurement(axisOS),
+        add: parseMeasurement(prescriptionAddOS),
+        prism: prism(prismOS),
+        prismBase: prismBase(baseOS, prismOS),
+      },
+      tonometryMethod: (tonometryMethod || undefined) as TonometryMethod | undefined,
+      isDilated,
+      pupillaryDistanceMm: parsePupillaryDistance(pupillaryDistance),
+      pupils: text(pupils),
+      extraocularMovements: text(extraocularMovements),
+      anteriorSegment: text(anteriorSegment),
+      posteriorSegment: text(posteriorSegment),
+      slitLamp: text(slitLampFindings),
+    };
+  };
+
   const handleComplete = async () => {
     if (!selectedPatientId || !activePatient) return;
     
@@ -424,6 +568,25 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
       return;
     }
 
+    const eyeExam = buildEyeExam();
+    const eyeExamErrors = validateEyeExam(eyeExam);
+    setExamErrors(eyeExamErrors);
+    if (Object.keys(eyeExamErrors).length > 0) {
+      showError(Object.values(eyeExamErrors)[0]);
+      return;
+    }
+
+    const rxOD = rxForEye(prescriptionOD, prescriptionAddOD, eyeExam.od);
+    const rxOS = rxForEye(prescriptionOS, prescriptionAddOS, eyeExam.os);
+    if (rxOD.error || rxOS.error) {
+      showError(rxOD.error ? `OD prescription: ${rxOD.error}` : `OS prescription: ${rxOS.error}`);
+      return;
+    }
+    const rxChanges = comparedPrescription ? flagRxChanges({ od: rxOD.rx, os: rxOS.rx }, comparedPrescription) : [];
+    if (rxChanges.length > 0 && !confirm(`Large change from the prescription of ${formatDate(comparedPrescription.date)}:\n${rxChanges.join('\n')}\n\nIs the refraction correct?`)) {
+      return;
+    }
+
     // Determine next status based on prescription and plan
     // Check if prescription is filled (optical needs - glasses/lenses)
     const hasPrescription = prescriptionOD.trim() || prescriptionOS.trim() || prescriptionAddOD.trim() || prescriptionAddOS.trim() ||
@@ -470,25 +633,14 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
     }
 
     // Build comprehensive consultation notes
+    // The exam itself is stored as a structured record; the notes keep a readable copy
     const consultationNotesParts = [
       `HPI: ${historyPresentIllness}`,
-      `\n\nVISUAL ACUITY:`,
-      `Distance: OD ${visualAcuityDistanceOD || 'N/A'} OS ${visualAcuityDistanceOS || 'N/A'}`,
-      `Near: OD ${visualAcuityNearOD || 'N/A'} OS ${visualAcuityNearOS || 'N/A'}`,
-      `Pinhole: OD ${visualAcuityPinholeOD || 'N/A'} OS ${visualAcuityPinholeOS || 'N/A'}`,
+      `\n`,
+      ...formatEyeExamSummary({ ...eyeExam, visitId: currentVisitId ?? '', patientId: selectedPatientId }),
       `\n\nREFRACTION:`,
       `OD: ${refractionOD || 'N/A'}, OS: ${refractionOS || 'N/A'}`,
       `Add: OD ${addOD || 'N/A'} OS ${addOS || 'N/A'}`,
-      `\n\nPUPILS:`,
-      `General: ${pupils || 'N/A'}`,
-      `Size: OD ${pupilSizeOD || 'N/A'}mm OS ${pupilSizeOS || 'N/A'}mm`,
-      `Reactivity: OD ${pupilReactivityOD || 'N/A'} OS ${pupilReactivityOS || 'N/A'}`,
-      `\n\nEOM: ${extraocularMovements || 'N/A'}`,
-      `\n\nIOP: OD ${intraocularPressureOD || 'N/A'} OS ${intraocularPressureOS || 'N/A'} (Method: ${tonometryMethod || 'N/A'})`,
-      `Dilated: ${isDilated ? 'Yes' : 'No'}`,
-      `\n\nANTERIOR SEGMENT: ${anteriorSegment || 'N/A'}`,
-      `\n\nPOSTERIOR SEGMENT: ${posteriorSegment || 'N/A'}`,
-      `\n\nSLIT LAMP: ${slitLampFindings || 'N/A'}`,
       `\n\nADDITIONAL TESTS:`,
       `Visual Field: ${visualField || 'N/A'}`,
       `Color Vision: ${colorVision || 'N/A'}`,
@@ -507,12 +659,13 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
       `Allergies: ${allergies || 'N/A'}`
     ];
 
-    // Build prescription object with professional format
+    // Build prescription object with professional format; od/os are written out in one
+    // canonical form so dispensing never has to interpret hand-typed notation
     const prescriptionData: any = {
-      od: prescriptionOD || `${sphereOD || ''} ${cylinderOD ? `/${cylinderOD}` : ''} ${axisOD ? `x${axisOD}` : ''}`.trim(),
-      os: prescriptionOS || `${sphereOS || ''} ${cylinderOS ? `/${cylinderOS}` : ''} ${axisOS ? `x${axisOS}` : ''}`.trim(),
-      addOd: prescriptionAddOD,
-      addOs: prescriptionAddOS,
+      od: rxOD.rx ? formatRx({ ...rxOD.rx, add: undefined }) : '',
+      os: rxOS.rx ? formatRx({ ...rxOS.rx, add: undefined }) : '',
+      addOd: formatAdd(rxOD.rx?.add ?? parseAdd(prescriptionAddOD).add),
+      addOs: formatAdd(rxOS.rx?.add ?? parseAdd(prescriptionAddOS).add),
       sphereOD,
       sphereOS,
       cylinderOD,
@@ -541,27 +694,108 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
       }));
     }
 
+    // Exam fee from the patient's payer tariff; NHIF covers it only while it has an NHIF price
+    const examTariff = getTariff('COMPREHENSIVE_EXAMINATION');
+    const examFee = priceFor('COMPREHENSIVE_EXAMINATION', getPatientPayer(activePatient))
+      ?? priceFor('COMPREHENSIVE_EXAMINATION', 'CASH');
+    if (!examTariff || examFee === undefined) {
+      showError('No current price for the Comprehensive Eye Examination. Ask an administrator to set it in Settings > Price List.');
+      return;
+    }
+
+    const billItems: BillItem[] = [
+      ...activePatient.billItems,
+      { 
+        id: generateBillItemId(), 
+        description: `${examTariff.name} Fee`, 
+        amount: examFee, 
+        category: 'CLINICAL', 
+        isCoveredByNHIF: priceFor('COMPREHENSIVE_EXAMINATION', InsuranceProvider.NHIF) !== undefined, 
+        isCoveredByPrivate: true,
+        nhifItemCode: examTariff.nhifItemCode
+      }
+    ];
+
+    if (useApi && currentVisitId) {
+      const examResult = await saveEyeExam(currentVisitId, eyeExam);
+      if (!examResult.success) {
+        setExamErrors(examResult.errors || {});
+        showError(examResult.error || 'Failed to save the eye exam');
+        return;
+      }
+    }
+
+    // Record the exam against this visit first so it survives the patient's next
+    // encounter; the patient only moves on once it is saved
+    const icd10Entry = icd10Codes.find(c => c.code === icd10Code);
+    const encounterResult = await saveEncounter(selectedPatientId, {
+      id: currentVisitId ?? undefined,
+      status: 'IN_PROGRESS',
+      providerId: activeProvider?.id,
+      providerName: activeProvider?.name,
+      chiefComplaint: chiefComplaint,
+      clinicalNotes: clinicalNotesParts.join('\n'),
+      consultationNotes: consultationNotesParts.join('\n'),
+      diagnoses: [
+        // Selected ICD-10 code first so claim forms can pick it up
+        ...(icd10Code ? [icd10Entry ? `${icd10Entry.code} - ${icd10Entry.description}` : icd10Code] : []),
+        ...diagnosis.split('\n').map(d => d.trim()).filter(Boolean),
+      ],
+      refraction: prescriptionData,
+      billItems
+    });
+    if (!encounterResult.success) {
+      showError(`The consultation could not be saved to this visit: ${encounterResult.error || 'unknown error'}`);
+      return;
+    }
+
     const result = await updatePatient(selectedPatientId, {
       status: nextStatus,
+      visitId: currentVisitId ?? undefined,
       chiefComplaint: chiefComplaint,
       clinicalNotes: clinicalNotesParts.join('\n'),
       consultationNotes: consultationNotesParts.join('\n'),
       diagnosis: diagnosis,
       prescription: prescriptionData,
-      billItems: [
-        ...activePatient.billItems,
-        { 
-          id: generateBillItemId(), 
-          description: 'Comprehensive Eye Examination Fee', 
-          amount: CLINICAL_FEES.COMPREHENSIVE_EXAMINATION, 
-          category: 'CLINICAL', 
-          isCoveredByNHIF: true, 
-          isCoveredByPrivate: true 
-        }
-      ]
+      billItems
     });
     
       if (result.success) {
+        const verificationCode = encounterResult.encounter?.refraction?.verificationCode;
+        const verificationUrl = encounterResult.encounter?.refraction?.verificationUrl;
+        const printedMedications = (prescriptionData.medications || [])
+          .filter((med: any) => String(med.name || '').trim() !== '');
+        setPrintableRx({
+          issuedAt: new Date().toISOString(),
+          visitId: currentVisitId ?? undefined,
+          verificationCode,
+          verificationUrl,
+          patient: {
+            id: activePatient.id,
+            name: activePatient.name,
+            dob: activePatient.dob,
+            gender: activePatient.gender,
+            phone: activePatient.phone,
+          },
+          prescriber: {
+            name: activeProvider?.name || '',
+            registrationNumber: activeProvider?.registrationNumber,
+            role: activeProvider?.role,
+          },
+          spectacle: prescriptionData.od || prescriptionData.os
+            ? {
+                od: prescriptionData.od,
+                os: prescriptionData.os,
+                addOd: prescriptionData.addOd,
+                addOs: prescriptionData.addOs,
+                pupillaryDistance,
+                segmentHeight,
+                lensType,
+              }
+            : undefined,
+          medications: printedMedications.length > 0 ? printedMedications : undefined,
+        });
+
         // Log consultation completion
         await logCriticalOperation(
           'COMPLETE_CONSULTATION',
@@ -584,6 +818,21 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
     }
   };
 
+  const handlePrintPrescription = async (kind: 'spectacle' | 'medication') => {
+    if (!printableRx) return;
+    try {
+      if (kind === 'spectacle') {
+        await generateSpectaclePrescriptionPDF(printableRx);
+      } else {
+        await generateMedicationPrescriptionPDF(printableRx);
+      }
+      showSuccess('Prescription downloaded');
+    } catch (error) {
+      showError('Failed to generate prescription');
+      console.error('Prescription generation error:', error);
+    }
+  };
+
   const resetForm = () => {
     setChiefComplaint('');
     setHistoryPresentIllness('');
@@ -599,6 +848,8 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
     setVisualAcuityNearOS('');
     setVisualAcuityPinholeOD('');
     setVisualAcuityPinholeOS('');
+    setBestCorrectedVaOD('');
+    setBestCorrectedVaOS('');
     setRefractionOD('');
     setRefractionOS('');
     setAddOD('');
@@ -615,6 +866,9 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
     setIntraocularPressureOS('');
     setTonometryMethod('');
     setIsDilated(false);
+    setCupDiscRatioOD('');
+    setCupDiscRatioOS('');
+    setExamErrors({});
     setVisualField('');
     setColorVision('');
     setCoverTest('');
@@ -699,6 +953,7 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
     if (!patient) return;
 
     // Load patient data into form
+    setPrintableRx(null);
     setSelectedPatientId(patient.id);
     setChiefComplaint(patient.chiefComplaint || '');
     setPastOcularHistory(patient.clinicalNotes || '');
@@ -730,10 +985,59 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
           <i className="fas fa-info-circle"></i>
           <span>Go to Appointments page to select a patient</span>
         </div>
+        {printableRx && (printableRx.spectacle || printableRx.medications) && (
+          <div className="mt-8 w-full max-w-md p-4 bg-brand-primary-50 border border-brand-primary-100 rounded-xl text-left">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm font-bold text-slate-900">Print prescriptions for {printableRx.patient.name}</p>
+                <p className="text-xs text-slate-500 mt-1">
+                  Hand these to the patient before they leave.
+                  {!printableRx.prescriber.registrationNumber && ' No registration number is on file for the prescriber; it will be left blank to fill in by hand.'}
+                </p>
+              </div>
+              <button
+                onClick={() => setPrintableRx(null)}
+                className="text-slate-400 hover:text-slate-600"
+                title="Dismiss"
+              >
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-3">
+              {printableRx.spectacle && (
+                <button
+                  onClick={() => handlePrintPrescription('spectacle')}
+                  className="px-4 py-2 bg-brand-primary text-white rounded-xl text-xs font-semibold uppercase tracking-wide flex items-center gap-2 hover:bg-brand-primary-dark transition-all"
+                >
+                  <i className="fas fa-glasses"></i>
+                  Print Spectacle Rx
+                </button>
+              )}
+              {printableRx.medications && (
+                <button
+                  onClick={() => handlePrintPrescription('medication')}
+                  className="px-4 py-2 bg-white text-brand-primary border border-brand-primary-100 rounded-xl text-xs font-semibold uppercase tracking-wide flex items-center gap-2 hover:bg-brand-primary-50 transition-all"
+                >
+                  <i className="fas fa-prescription-bottle-alt"></i>
+                  Print Medication Rx
+                </button>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     );
   }
 
+  // The prescription as dispensing will read it, once each eye can be dispensed
+  const liveExam = buildEyeExam();
+  const liveRx = (written: string, addText: string, refraction: EyeExamEye): SpectacleRx | undefined => {
+    const { rx } = rxForEye(written, addText, refraction);
+    return rx && validateRx(rx).length === 0 ? rx : undefined;
+  };
+  const liveRxOD = liveRx(prescriptionOD, prescriptionAddOD, liveExam.od);
+  const liveRxOS = liveRx(prescriptionOS, prescriptionAddOS, liveExam.os);
+
   return (
     <div className="flex flex-col gap-4 max-w-7xl mx-auto">
       {/* Minimal Patient Header - Just Name and ID */}
@@ -761,14 +1065,52 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
               <i className={`fas ${isAiLoading ? 'fa-spinner fa-spin' : 'fa-brain'} text-brand-primary-light`}></i>
               AI Insights
             </button>
-            <button className="px-4 py-2 bg-slate-50 text-slate-600 border border-slate-200 rounded-xl text-xs font-semibold uppercase tracking-wide flex items-center gap-2 hover:bg-white transition-all">
+            <button 
+              onClick={() => setShowHistory(prev => !prev)}
+              className={`px-4 py-2 border rounded-xl text-xs font-semibold uppercase tracking-wide flex items-center gap-2 transition-all ${showHistory ? 'bg-brand-primary-50 text-brand-primary border-brand-primary-100' : 'bg-slate-50 text-slate-600 border-slate-200 hover:bg-white'}`}
+            >
               <i className="fas fa-history text-brand-primary"></i>
               History
             </button>
+            {useApi && (
+              <button 
+                onClick={() => setShowTrends(prev => !prev)}
+                className={`px-4 py-2 border rounded-xl text-xs font-semibold uppercase tracking-wide flex items-center gap-2 transition-all ${showTrends ? 'bg-brand-primary-50 text-brand-primary border-brand-primary-100' : 'bg-slate-50 text-slate-600 border-slate-200 hover:bg-white'}`}
+              >
+                <i className="fas fa-chart-line text-brand-primary"></i>
+                Trends
+              </button>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Encounter History Timeline */}
+      {showHistory && (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <h3 className="text-base font-bold text-slate-900 mb-4 flex items-center gap-2">
+            <i className="fas fa-stream text-brand-primary"></i>
+            Encounter History
+          </h3>
+          <EncounterTimeline
+            encounters={encounters}
+            isLoading={isHistoryLoading}
+            currentVisitId={currentVisitId}
+          />
+        </div>
+      )}
+
+      {/* IOP / VA / Cup-to-Disc Trends */}
+      {showTrends && useApi && (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+          <h3 className="text-base font-bold text-slate-900 mb-4 flex items-center gap-2">
+            <i className="fas fa-chart-line text-brand-primary"></i>
+            Exam Trends
+          </h3>
+          <EyeExamTrends patientId={activePatient.id} />
+        </div>
+      )}
+
       {/* Comprehensive EMR Form - Scrollable */}
       <div className="flex-1 overflow-y-auto space-y-4 custom-scrollbar pb-4">
         {/* History Section */}
@@ -870,6 +1212,16 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
             <i className="fas fa-eye text-emerald-600"></i>
             Examination
           </h3>
+
+          {Object.keys(examErrors).length > 0 && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl">
+              <ul className="text-xs text-red-700 space-y-1">
+                {Object.entries(examErrors).map(([field, message]) => (
+                  <li key={field}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           
           {/* Visual Acuity */}
           <div className="mb-6">
@@ -916,7 +1268,7 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
                 />
               </div>
             </div>
-            <div className="grid grid-cols-2 gap-4 mt-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
               <div className="space-y-2">
                 <label className="text-xs font-semibold text-slate-600">Pinhole VA - OD</label>
                 <input 
@@ -937,6 +1289,26 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
                   className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-normal focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all" 
                 />
               </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold text-slate-600">Best Corrected VA - OD</label>
+                <input 
+                  type="text"
+                  value={bestCorrectedVaOD} 
+                  onChange={(e) => setBestCorrectedVaOD(e.target.value)} 
+                  placeholder="6/6" 
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-normal focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all" 
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-semibold text-slate-600">Best Corrected VA - OS</label>
+                <input 
+                  type="text"
+                  value={bestCorrectedVaOS} 
+                  onChange={(e) => setBestCorrectedVaOS(e.target.value)} 
+                  placeholder="6/6" 
+                  className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-normal focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all" 
+                />
+              </div>
             </div>
           </div>
 
@@ -1075,11 +1447,9 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
                   className="flex-1 p-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-normal focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
                 >
                   <option value="">Select Method</option>
-                  <option value="Goldmann Applanation">Goldmann Applanation</option>
-                  <option value="Non-Contact Tonometry (NCT)">Non-Contact Tonometry (NCT)</option>
-                  <option value="Tono-Pen">Tono-Pen</option>
-                  <option value="iCare">iCare</option>
-                  <option value="Pneumatonometry">Pneumatonometry</option>
+                  {TONOMETRY_METHODS.map(method => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
                 </select>
                 <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
                   <input 
@@ -1112,6 +1482,27 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
                 maxLength={VALIDATION_LIMITS.MAX_NOTES_LENGTH}
               />
             </div>
+            <div className="md:col-span-2 space-y-2">
+              <label className="text-xs font-semibold text-slate-600">Cup-to-Disc Ratio (vertical)</label>
+              <div className="grid grid-cols-2 gap-2">
+                <input 
+                  type="text"
+                  inputMode="decimal"
+                  value={cupDiscRatioOD} 
+                  onChange={(e) => setCupDiscRatioOD(e.target.value)} 
+                  placeholder="OD (0.3)" 
+                  className={`w-full p-3 bg-slate-50 border rounded-xl text-sm font-normal focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all ${examErrors['od.cupDiscRatio'] ? 'border-red-500' : 'border-slate-200'}`} 
+                />
+                <input 
+                  type="text"
+                  inputMode="decimal"
+                  value={cupDiscRatioOS} 
+                  onChange={(e) => setCupDiscRatioOS(e.target.value)} 
+                  placeholder="OS (0.3)" 
+                  className={`w-full p-3 bg-slate-50 border rounded-xl text-sm font-normal focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all ${examErrors['os.cupDiscRatio'] ? 'border-red-500' : 'border-slate-200'}`} 
+                />
+              </div>
+            </div>
             <div className="md:col-span-2 space-y-2">
               <label className="text-xs font-semibold text-slate-600">Slit Lamp Findings</label>
               <textarea 
@@ -1493,7 +1884,7 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
                   type="text"
                   value={prescriptionOD} 
                   onChange={(e) => handlePrescriptionChange('od', e.target.value)} 
-                  placeholder="-2.00 DS" 
+                  placeholder="-2.50/-0.75x180" 
                   maxLength={VALIDATION_LIMITS.MAX_PRESCRIPTION_LENGTH}
                   className={`w-full p-3 bg-white border rounded-xl text-sm font-semibold text-slate-900 focus:border-indigo-500 outline-none text-center transition-all ${prescriptionErrors.od ? 'border-red-500' : 'border-slate-200'}`} 
                 />
@@ -1517,6 +1908,33 @@ const Clinical: React.FC<ClinicalProps> = ({ activeProvider }) => {
               </div>
             </div>
           </div>
+
+          {(liveRxOD || liveRxOS) && (
+            <div className="mt-4">
+              <h4 className="text-xs font-semibold text-slate-600 mb-2">As Dispensing Will Read It</h4>
+              <RxSummary od={liveRxOD} os={liveRxOS} />
+            </div>
+          )}
+
+          {(liveRxOD || liveRxOS) && comparedPrescription && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <h4 className="text-xs font-semibold text-slate-600">Compared With Previous Prescription</h4>
+                <select
+                  value={Math.min(compareIndex, previousPrescriptions.length - 1)}
+                  onChange={(e) => setCompareIndex(Number(e.target.value))}
+                  className="p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs outline-none focus:border-indigo-500"
+                >
+                  {previousPrescriptions.map((event, index) => (
+                    <option key={event.id ?? index} value={index}>
+                      {formatDate(event.date)}{event.providerName ? ` · ${event.providerName}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <RxComparison od={liveRxOD} os={liveRxOS} previous={comparedPrescription} />
+            </div>
+          )}
         </div>
 
         {/* Medication Prescription */}
@@ -0,0 +1,463 @@
+/**
+ * Debtors Report View
+ * Accounts receivable: who owes the clinic money (insurers, NHIF and patients), aged into
+ * 0-30 / 31-60 / 61-90 / 90+ day buckets, with insurer statements and approved write-offs
+ */
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { DebtorType, Receivable, UserRole, WriteOff } from '../types';
+import { getReceivables, getWriteOffs, requestWriteOff, decideWriteOff } from '../services/receivablesService';
+import {
+  AGING_BUCKETS,
+  DebtorSummary,
+  summarizeDebtors,
+  totalBuckets,
+  getAgeInDays,
+  buildAgingReportExport,
+  buildInsurerStatementExport,
+} from '../utils/receivablesUtils';
+import { exportToPDF, exportToExcel, formatCurrency } from '../utils/exportUtils';
+import { formatDate, formatISODateTime, getCurrentDate } from '../utils/dateTimeUtils';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../components/Toast';
+
+type DebtorFilter = 'ALL' | DebtorType;
+
+interface WriteOffForm {
+  item: Receivable;
+  amount: string;
+  reason: string;
+}
+
+const BUCKET_COLORS: Record<string, string> = {
+  '0-30': '#10b981',
+  '31-60': '#eab308',
+  '61-90': '#f97316',
+  '90+': '#ef4444',
+};
+
+const DebtorsReport: React.FC = () => {
+  const { user, activeRole } = useAuth();
+  const { success: showSuccess, error: showError } = useToast();
+  const [receivables, setReceivables] = useState<Receivable[]>([]);
+  const [pendingWriteOffs, setPendingWriteOffs] = useState<WriteOff[]>([]);
+  const [debtorFilter, setDebtorFilter] = useState<DebtorFilter>('ALL');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [writeOffForm, setWriteOffForm] = useState<WriteOffForm | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  const asOf = getCurrentDate();
+  const canApprove = activeRole === UserRole.MANAGER;
+
+  // Close export menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setExportMenuOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [receivablesResult, writeOffsResult] = await Promise.all([
+        getReceivables(),
+        getWriteOffs('PENDING'),
+      ]);
+      if (receivablesResult.success) {
+        setReceivables(receivablesResult.receivables || []);
+      } else {
+        setReceivables([]);
+        showError(receivablesResult.error || 'Failed to load receivables');
+      }
+      if (writeOffsResult.success) {
+        setPendingWriteOffs(writeOffsResult.writeOffs || []);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const summaries = useMemo(
+    () => summarizeDebtors(receivables.filter(r => debtorFilter === 'ALL' || r.debtorType === debtorFilter), asOf),
+    [receivables, debtorFilter, asOf]
+  );
+
+  const totals = useMemo(() => totalBuckets(summaries), [summaries]);
+  const grandTotal = summaries.reduce((sum, s) => sum + s.total, 0);
+
+  const handleExportPDF = async () => {
+    await exportToPDF(buildAgingReportExport(summaries, asOf));
+    showSuccess('Aging report exported as PDF');
+    setExportMenuOpen(false);
+  };
+
+  const handleExportExcel = () => {
+    exportToExcel(buildAgingReportExport(summaries, asOf));
+    showSuccess('Aging report exported as Excel');
+    setExportMenuOpen(false);
+  };
+
+  const handleStatement = async (summary: DebtorSummary) => {
+    try {
+      await exportToPDF(buildInsurerStatementExport(summary, asOf));
+      showSuccess(`${summary.name} statement downloaded`);
+    } catch (err) {
+      console.error('Error exporting statement:', err);
+      showError('Failed to export statement');
+    }
+  };
+
+  const handleRequestWriteOff = async () => {
+    if (!writeOffForm) return;
+    const { item } = writeOffForm;
+    const amount = parseFloat(writeOffForm.amount);
+    if (isNaN(amount) || amount <= 0 || amount > item.balance) {
+      showError(`Enter an amount up to TZS ${item.balance.toLocaleString()}`);
+      return;
+    }
+    if (!writeOffForm.reason.trim()) {
+      showError('A reason is required');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const result = await requestWriteOff({
+        visitId: item.visitId,
+        debtorType: item.debtorType,
+        amount,
+        reason: writeOffForm.reason.trim(),
+      });
+      if (result.success && result.writeOff) {
+        showSuccess(`${result.writeOff.writeOffNumber} sent for manager approval`);
+        setWriteOffForm(null);
+        await loadData();
+      } else {
+        showError(result.error || 'Failed to request write-off');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDecide = async (writeOff: WriteOff, approve: boolean) => {
+    let notes: string | undefined;
+    if (approve) {
+      if (!confirm(`Approve ${writeOff.writeOffNumber}: write off TZS ${writeOff.amount.toLocaleString()} owed by ${writeOff.debtorType === 'INSURER' ? writeOff.insurer : writeOff.patientName || 'the patient'}?`)) {
+        return;
+      }
+    } else {
+      const reason = prompt(`Reason for rejecting ${writeOff.writeOffNumber}:`);
+      if (!reason || !reason.trim()) return;
+      notes = reason.trim();
+    }
+
+    setIsWorking(true);
+    try {
+      const result = await decideWriteOff(writeOff.id, approve, notes);
+      if (result.success) {
+        showSuccess(`${writeOff.writeOffNumber} ${approve ? 'approved' : 'rejected'}`);
+        await loadData();
+      } else {
+        showError(result.error || 'Failed to record decision');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-base font-bold text-slate-900 tracking-tight">Debtors &amp; Aging</h1>
+            <p className="text-sm text-slate-500 font-medium mt-1">Money owed by insurers, NHIF and patients as of {formatDate(asOf)}</p>
+          </div>
+          <div className="flex items-center gap-3 w-full sm:w-auto">
+            <select
+              value={debtorFilter}
+              onChange={(e) => setDebtorFilter(e.target.value as DebtorFilter)}
+              className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-semibold focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+            >
+              <option value="ALL">All debtors</option>
+              <option value="INSURER">Insurers &amp; NHIF</option>
+              <option value="PATIENT">Patients</option>
+            </select>
+            <button
+              onClick={loadData}
+              disabled={isLoading}
+              className="px-4 py-2.5 bg-slate-50 text-slate-600 border border-slate-200 rounded-xl text-sm font-semibold hover:bg-white transition-all"
+            >
+              <i className={`fas fa-sync-alt ${isLoading ? 'fa-spin' : ''}`}></i>
+            </button>
+            <div className="relative" ref={exportMenuRef}>
+              <button
+                onClick={() => setExportMenuOpen(!exportMenuOpen)}
+                disabled={summaries.length === 0}
+                className="px-6 py-2.5 bg-brand-primary text-white rounded-xl font-semibold text-sm hover:bg-brand-primary-dark transition-all flex items-center gap-2 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <i className="fas fa-download"></i>
+                Export Report
+                <i className={`fas fa-chevron-${exportMenuOpen ? 'up' : 'down'} text-xs`}></i>
+              </button>
+
+              {exportMenuOpen && (
+                <div className="absolute right-0 mt-2 w-48 bg-white rounded-xl border border-slate-200 shadow-lg z-50 overflow-hidden">
+                  <button
+                    onClick={handleExportPDF}
+                    className="w-full px-4 py-3 text-left text-sm font-semibold text-slate-700 hover:bg-slate-50 transition-all flex items-center gap-3 border-b border-slate-100"
+                  >
+                    <i className="fas fa-file-pdf text-red-600"></i>
+                    Export as PDF
+                  </button>
+                  <button
+                    onClick={handleExportExcel}
+                    className="w-full px-4 py-3 text-left text-sm font-semibold text-slate-700 hover:bg-slate-50 transition-all flex items-center gap-3"
+                  >
+                    <i className="fas fa-file-excel text-green-600"></i>
+                    Export as Excel
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Aging Buckets */}
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <div className="p-3 rounded-xl text-white shadow-md w-fit mb-3" style={{ backgroundColor: 'var(--brand-primary)' }}>
+            <i className="fas fa-hand-holding-usd text-lg text-white"></i>
+          </div>
+          <h3 className="text-base font-black text-slate-900 mb-1">{formatCurrency(grandTotal)}</h3>
+          <p className="text-xs font-semibold text-slate-600">Total Owed</p>
+        </div>
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+            <div className="p-3 rounded-xl text-white shadow-md w-fit mb-3" style={{ backgroundColor: BUCKET_COLORS[bucket] }}>
+              <i className="fas fa-hourglass-half text-lg text-white"></i>
+            </div>
+            <h3 className="text-base font-black text-slate-900 mb-1">{formatCurrency(totals[bucket])}</h3>
+            <p className="text-xs font-semibold text-slate-600">{bucket} days</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Pending Write-offs */}
+      {pendingWriteOffs.length > 0 && (
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-slate-100">
+            <h2 className="text-sm font-bold text-slate-900 flex items-center gap-2">
+              Write-offs Awaiting Approval
+              <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 font-bold">{pendingWriteOffs.length}</span>
+            </h2>
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {pendingWriteOffs.map(writeOff => (
+              <li key={writeOff.id} className="px-6 py-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {writeOff.writeOffNumber} · {writeOff.debtorType === 'INSURER' ? `${writeOff.insurer} (${writeOff.patientName || 'patient'})` : writeOff.patientName || 'Patient'}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    TZS {writeOff.amount.toLocaleString()} · {formatISODateTime(writeOff.requestedAt)}
+                  </p>
+                  <p className="text-xs text-slate-700 mt-1 italic">"{writeOff.reason}"</p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {!canApprove ? (
+                    <span className="text-xs text-slate-400 font-medium">Awaiting a clinic manager</span>
+                  ) : writeOff.requestedBy === user?.id ? (
+                    <span className="text-xs text-slate-400 font-medium">Your request — needs another manager</span>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleDecide(writeOff, false)}
+                        disabled={isWorking}
+                        className="px-4 py-2 text-sm font-semibold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                      <button
+                        onClick={() => handleDecide(writeOff, true)}
+                        disabled={isWorking}
+                        className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Aging by Debtor */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-sm font-bold text-slate-900">Debtors ({summaries.length})</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Debtor</th>
+                {AGING_BUCKETS.map(bucket => (
+                  <th key={bucket} className="px-6 py-3 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">{bucket}</th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Total</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Statement</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {summaries.length === 0 && (
+                <tr>
+                  <td colSpan={AGING_BUCKETS.length + 3} className="px-6 py-12 text-center text-sm text-slate-400">
+                    {isLoading ? 'Loading...' : 'Nothing is owed to the clinic'}
+                  </td>
+                </tr>
+              )}
+              {summaries.map(summary => {
+                const isExpanded = expandedKey === summary.key;
+                return (
+                  <React.Fragment key={summary.key}>
+                    <tr className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4">
+                        <button
+                          onClick={() => setExpandedKey(isExpanded ? null : summary.key)}
+                          className="flex items-center gap-3 text-left"
+                        >
+                          <i className={`fas fa-chevron-${isExpanded ? 'down' : 'right'} text-xs text-slate-400`}></i>
+                          <div>
+                            <p className="text-sm font-semibold text-slate-900">{summary.name}</p>
+                            <p className="text-xs text-slate-500">
+                              {summary.debtorType === 'INSURER' ? 'Insurer' : 'Patient'} · {summary.items.length} visit(s)
+                            </p>
+                          </div>
+                        </button>
+                      </td>
+                      {AGING_BUCKETS.map(bucket => (
+                        <td key={bucket} className={`px-6 py-4 text-right text-sm ${summary.buckets[bucket] > 0 ? 'font-semibold text-slate-900' : 'text-slate-300'}`}>
+                          {formatCurrency(summary.buckets[bucket])}
+                        </td>
+                      ))}
+                      <td className="px-6 py-4 text-right text-sm font-bold text-slate-900">{formatCurrency(summary.total)}</td>
+                      <td className="px-6 py-4 text-right">
+                        {summary.debtorType === 'INSURER' && (
+                          <button
+                            onClick={() => handleStatement(summary)}
+                            className="px-3 py-1 text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-50"
+                            title="Download statement of account (PDF)"
+                          >
+                            <i className="fas fa-file-pdf mr-1"></i>Statement
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && summary.items.map(item => (
+                      <tr key={`${item.visitId}-${item.debtorType}`} className="bg-slate-50">
+                        <td className="px-6 py-3 pl-14">
+                          <p className="text-sm text-slate-800">{item.patientName || item.patientId}</p>
+                          <p className="text-xs text-slate-500">
+                            Visit {formatDate(item.visitDate)} · {getAgeInDays(item.visitDate, asOf)} days
+                            {item.claimReference && <> · {item.claimReference}{item.claimStatus && ` (${item.claimStatus})`}</>}
+                          </p>
+                        </td>
+                        <td colSpan={AGING_BUCKETS.length} className="px-6 py-3 text-right text-xs text-slate-500">
+                          Billed {formatCurrency(item.billed)} · Paid {formatCurrency(item.paid)}
+                          {item.writtenOff > 0 && ` · Written off ${formatCurrency(item.writtenOff)}`}
+                        </td>
+                        <td className="px-6 py-3 text-right text-sm font-semibold text-slate-900">{formatCurrency(item.balance)}</td>
+                        <td className="px-6 py-3 text-right">
+                          {item.pendingWriteOff > 0 ? (
+                            <span className="text-xs text-amber-600 font-semibold">Write-off pending</span>
+                          ) : (
+                            <button
+                              onClick={() => setWriteOffForm({ item, amount: String(item.balance), reason: '' })}
+                              className="px-3 py-1 text-xs font-semibold text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100"
+                            >
+                              Write Off
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {writeOffForm && (
+        <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+            <h3 className="text-base font-bold text-slate-900">Write off debt</h3>
+            <p className="text-sm text-slate-500">
+              {writeOffForm.item.debtorType === 'INSURER' ? `${writeOffForm.item.insurer} · ` : ''}
+              {writeOffForm.item.patientName} · visit {formatDate(writeOffForm.item.visitDate)} · TZS {writeOffForm.item.balance.toLocaleString()} owed
+            </p>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">Amount (TZS)</label>
+              <input
+                type="number"
+                min="0"
+                max={writeOffForm.item.balance}
+                value={writeOffForm.amount}
+                onChange={(e) => setWriteOffForm({ ...writeOffForm, amount: e.target.value })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-1 block">Reason</label>
+              <textarea
+                value={writeOffForm.reason}
+                onChange={(e) => setWriteOffForm({ ...writeOffForm, reason: e.target.value })}
+                rows={3}
+                placeholder="e.g. Claim rejected and not recoverable from the patient"
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+              />
+            </div>
+            <p className="text-xs text-slate-500">The write-off takes effect once a clinic manager other than you approves it.</p>
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                onClick={() => setWriteOffForm(null)}
+                className="px-4 py-2 text-sm font-semibold text-slate-600 bg-slate-100 rounded-xl hover:bg-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRequestWriteOff}
+                disabled={isWorking}
+                className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark disabled:opacity-50"
+              >
+                Request Write-off
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DebtorsReport;
@@ -0,0 +1,454 @@
+/**
+ * Insurer Claims View
+ * Claim officer workspace for private insurers: batch claimable visits by insurer and period,
+ * export the invoice and claim detail for submission and track each claim through to payment
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ClaimableInsurerVisit, InsurerClaimBatch, InsurerClaim, InsurerClaimStatus, InsuranceProvider } from '../types';
+import {
+  getClaimableInsurerVisits,
+  getInsurerClaimBatches,
+  createInsurerClaimBatch,
+  submitInsurerClaimBatch,
+  updateInsurerClaimStatus,
+} from '../services/insurerClaimsService';
+import { buildClaimInvoiceExport, buildClaimDetailExport, CLAIM_STATUS_LABELS } from '../utils/insurerClaimUtils';
+import { INSURANCE_PROVIDERS } from '../constants';
+import { formatDate, getCurrentDate } from '../utils/dateTimeUtils';
+import { formatCurrency, exportToPDF, exportToExcel } from '../utils/exportUtils';
+import { useToast } from '../components/Toast';
+
+const PRIVATE_INSURERS = INSURANCE_PROVIDERS
+  .map(p => p.value as InsuranceProvider)
+  .filter(insurer => insurer !== InsuranceProvider.NHIF);
+
+const CLAIM_STATUS_STYLES: Record<InsurerClaimStatus, string> = {
+  PENDING: 'bg-slate-100 text-slate-600',
+  SUBMITTED: 'bg-blue-100 text-blue-700',
+  QUERIED: 'bg-amber-100 text-amber-700',
+  PAID: 'bg-green-600 text-white',
+  REJECTED: 'bg-red-100 text-red-700',
+};
+
+const BATCH_STATUS_STYLES: Record<InsurerClaimBatch['status'], string> = {
+  DRAFT: 'bg-yellow-100 text-yellow-700',
+  SUBMITTED: 'bg-blue-100 text-blue-700',
+  CLOSED: 'bg-slate-200 text-slate-700',
+};
+
+/**
+ * First day of the current month as YYYY-MM-DD
+ */
+const getMonthStart = (): string => `${getCurrentDate().slice(0, 7)}-01`;
+
+const InsurerClaims: React.FC = () => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [insurer, setInsurer] = useState<InsuranceProvider>(PRIVATE_INSURERS[0]);
+  const [periodStart, setPeriodStart] = useState<string>(getMonthStart());
+  const [periodEnd, setPeriodEnd] = useState<string>(getCurrentDate());
+  const [claimableVisits, setClaimableVisits] = useState<ClaimableInsurerVisit[]>([]);
+  const [batches, setBatches] = useState<InsurerClaimBatch[]>([]);
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!periodStart || !periodEnd || periodStart > periodEnd) return;
+    setIsLoading(true);
+    try {
+      const [claimableResult, batchesResult] = await Promise.all([
+        getClaimableInsurerVisits(insurer, periodStart, periodEnd),
+        getInsurerClaimBatches(insurer),
+      ]);
+      if (claimableResult.success) {
+        setClaimableVisits(claimableResult.visits || []);
+      } else {
+        setClaimableVisits([]);
+        showError(claimableResult.error || 'Failed to load claimable visits');
+      }
+      if (batchesResult.success) {
+        setBatches(batchesResult.batches || []);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [insurer, periodStart, periodEnd]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const statistics = useMemo(() => {
+    const claims = batches.flatMap(b => b.claims);
+    const sumBy = (status: InsurerClaimStatus) =>
+      claims.filter(c => c.status === status).reduce((sum, c) => sum + c.totalAmount, 0);
+    return {
+      claimableAmount: claimableVisits.reduce((sum, v) => sum + v.totalAmount, 0),
+      awaitingInsurer: sumBy('SUBMITTED'),
+      queried: sumBy('QUERIED'),
+      paid: claims.filter(c => c.status === 'PAID').reduce((sum, c) => sum + (c.paidAmount ?? c.totalAmount), 0),
+      rejected: sumBy('REJECTED'),
+    };
+  }, [batches, claimableVisits]);
+
+  const handleCreateBatch = async () => {
+    if (claimableVisits.length === 0) {
+      showError(`No claimable ${insurer} visits for this period`);
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const result = await createInsurerClaimBatch(insurer, periodStart, periodEnd);
+      if (result.success) {
+        showSuccess(`${result.addedClaims ?? 0} claim(s) added to the ${insurer} batch for ${formatDate(periodStart)} – ${formatDate(periodEnd)}`);
+        await loadData();
+      } else {
+        showError(result.error || 'Failed to create claim batch');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSubmitBatch = async (batch: InsurerClaimBatch) => {
+    const reference = prompt(
+      `Mark ${batch.claimCount} claim(s) totalling ${formatCurrency(batch.totalAmount)} as submitted to ${batch.insurer}? Submitted batches cannot be edited.\n\nSubmission reference (insurer portal or letter number, optional):`
+    );
+    if (reference === null) return;
+
+    setIsWorking(true);
+    try {
+      const result = await submitInsurerClaimBatch(batch.id, reference.trim() || undefined);
+      if (result.success) {
+        showSuccess(`${result.submittedClaims ?? batch.claimCount} claim(s) submitted to ${batch.insurer}`);
+        await loadData();
+      } else {
+        showError(result.error || 'Failed to submit claim batch');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async (batch: InsurerClaimBatch, format: 'pdf' | 'excel') => {
+    try {
+      if (format === 'pdf') {
+        await exportToPDF(buildClaimInvoiceExport(batch));
+      } else {
+        exportToExcel(buildClaimDetailExport(batch));
+      }
+      showSuccess(`${batch.batchNumber} exported`);
+    } catch (err) {
+      console.error('Error exporting claim batch:', err);
+      showError('Failed to export claim batch');
+    }
+  };
+
+  const handleClaimStatus = async (claim: InsurerClaim, status: Exclude<InsurerClaimStatus, 'PENDING'>) => {
+    const details: { reason?: string; paidAmount?: number } = {};
+    if (status === 'QUERIED' || status === 'REJECTED') {
+      const reason = prompt(`${status === 'QUERIED' ? 'Insurer query' : 'Rejection reason'} for claim #${claim.claimNo}:`);
+      if (!reason || !reason.trim()) return;
+      details.reason = reason.trim();
+    }
+    if (status === 'PAID') {
+      const amount = prompt(`Amount paid by ${insurer} for claim #${claim.claimNo}:`, String(claim.totalAmount));
+      if (amount === null) return;
+      const parsed = parseFloat(amount);
+      if (isNaN(parsed) || parsed < 0) {
+        showError('Paid amount must be a positive number');
+        return;
+      }
+      details.paidAmount = parsed;
+    }
+
+    setIsWorking(true);
+    try {
+      const result = await updateInsurerClaimStatus(claim.id, status, details);
+      if (result.success) {
+        showSuccess(`Claim #${claim.claimNo} ${status === 'SUBMITTED' ? 'resubmitted' : `marked ${CLAIM_STATUS_LABELS[status].toLowerCase()}`}`);
+        await loadData();
+      } else {
+        showError(result.error || 'Failed to update claim');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+        <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+          <div>
+            <h1 className="text-base font-bold text-slate-900 tracking-tight">Insurer Claims</h1>
+            <p className="text-sm text-slate-500 font-medium mt-1">Batch private insurer claims, export them for submission and track reimbursement</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 w-full lg:w-auto">
+            <select
+              value={insurer}
+              onChange={(e) => setInsurer(e.target.value as InsuranceProvider)}
+              className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-semibold focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+            >
+              {PRIVATE_INSURERS.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <input
+              type="date"
+              value={periodStart}
+              max={periodEnd}
+              onChange={(e) => setPeriodStart(e.target.value)}
+              className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-semibold focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+            />
+            <span className="text-sm text-slate-400">to</span>
+            <input
+              type="date"
+              value={periodEnd}
+              min={periodStart}
+              max={getCurrentDate()}
+              onChange={(e) => setPeriodEnd(e.target.value)}
+              className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-semibold focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+            />
+            <button
+              onClick={loadData}
+              disabled={isLoading}
+              className="px-4 py-2.5 bg-slate-50 text-slate-600 border border-slate-200 rounded-xl text-sm font-semibold hover:bg-white transition-all"
+            >
+              <i className={`fas fa-sync-alt ${isLoading ? 'fa-spin' : ''}`}></i>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Statistics Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {[
+          { label: 'Ready to Claim', value: formatCurrency(statistics.claimableAmount), icon: 'fa-folder-plus', color: 'var(--brand-primary)' },
+          { label: `Awaiting ${insurer}`, value: formatCurrency(statistics.awaitingInsurer), icon: 'fa-hourglass-half', color: '#3b82f6' },
+          { label: 'Queried', value: formatCurrency(statistics.queried), icon: 'fa-question-circle', color: '#f59e0b' },
+          { label: 'Paid', value: formatCurrency(statistics.paid), icon: 'fa-money-bill-wave', color: '#16a34a' },
+          { label: 'Rejected', value: formatCurrency(statistics.rejected), icon: 'fa-times-circle', color: '#ef4444' },
+        ].map((stat, i) => (
+          <div key={i} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+            <div className="p-3 rounded-xl text-white shadow-md w-fit mb-3" style={{ backgroundColor: stat.color }}>
+              <i className={`fas ${stat.icon} text-lg text-white`}></i>
+            </div>
+            <h3 className="text-base font-black text-slate-900 mb-1">{stat.value}</h3>
+            <p className="text-xs font-semibold text-slate-600">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Claimable Visits */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="text-sm font-bold text-slate-900">
+            Claimable {insurer} Visits – {formatDate(periodStart)} to {formatDate(periodEnd)} ({claimableVisits.length})
+          </h2>
+          <button
+            onClick={handleCreateBatch}
+            disabled={isWorking || claimableVisits.length === 0}
+            className="px-5 py-2.5 bg-brand-primary text-white rounded-xl text-sm font-semibold hover:bg-brand-primary-dark transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <i className="fas fa-layer-group"></i>
+            Add to Batch
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Patient</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Member Number</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Pre-auth Ref</th>
+                <th className="px-6 py-3 text-center text-xs font-bold text-slate-600 uppercase tracking-wide">Visit Date</th>
+                <th className="px-6 py-3 text-center text-xs font-bold text-slate-600 uppercase tracking-wide">Items</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Billed</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Claim</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {claimableVisits.length > 0 ? (
+                claimableVisits.map(visit => (
+                  <tr key={visit.visitId} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-semibold text-slate-900">{visit.patientName || 'Unknown'}</p>
+                      <p className="text-xs text-slate-500 font-mono">{visit.patientId}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm font-medium text-slate-700">{visit.memberNumber || 'N/A'}</td>
+                    <td className="px-6 py-4 text-sm font-mono font-semibold text-emerald-600">{visit.preauthReferences.join(', ') || 'N/A'}</td>
+                    <td className="px-6 py-4 text-center text-sm text-slate-600">{formatDate(visit.visitDate)}</td>
+                    <td className="px-6 py-4 text-center text-sm text-slate-600">{visit.items.length}</td>
+                    <td className="px-6 py-4 text-right text-sm text-slate-600">{formatCurrency(visit.billAmount)}</td>
+                    <td className="px-6 py-4 text-right text-sm font-bold text-slate-900">{formatCurrency(visit.totalAmount)}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-slate-400">
+                    {isLoading ? 'Loading...' : `No completed ${insurer} visits waiting to be claimed for this period`}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Claim Batches */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-sm font-bold text-slate-900">{insurer} Claim Batches ({batches.length})</h2>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {batches.length === 0 && (
+            <p className="px-6 py-12 text-center text-sm text-slate-400">No claim batches yet</p>
+          )}
+          {batches.map(batch => {
+            const isExpanded = expandedBatchId === batch.id;
+            return (
+              <div key={batch.id}>
+                <div className="px-6 py-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <button
+                    onClick={() => setExpandedBatchId(isExpanded ? null : batch.id)}
+                    className="flex items-center gap-3 text-left"
+                  >
+                    <i className={`fas fa-chevron-${isExpanded ? 'down' : 'right'} text-xs text-slate-400`}></i>
+                    <div>
+                      <p className="text-sm font-bold text-slate-900">
+                        {batch.batchNumber}
+                        <span className="ml-2 font-medium text-slate-500">{formatDate(batch.periodStart)} – {formatDate(batch.periodEnd)}</span>
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {batch.claimCount} claim(s) · {formatCurrency(batch.totalAmount)}
+                        {batch.submissionReference && <> · Ref <span className="font-mono">{batch.submissionReference}</span></>}
+                        {batch.submittedAt && <> · Submitted {formatDate(batch.submittedAt)}</>}
+                      </p>
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-3">
+                    <span className={`text-xs px-3 py-1 rounded-full font-semibold ${BATCH_STATUS_STYLES[batch.status]}`}>
+                      {batch.status}
+                    </span>
+                    <button
+                      onClick={() => handleExport(batch, 'pdf')}
+                      className="px-3 py-2 text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded-xl hover:bg-slate-50"
+                      title="Download invoice summary (PDF)"
+                    >
+                      <i className="fas fa-file-pdf mr-1"></i>Invoice
+                    </button>
+                    <button
+                      onClick={() => handleExport(batch, 'excel')}
+                      className="px-3 py-2 text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded-xl hover:bg-slate-50"
+                      title="Download claim detail (Excel)"
+                    >
+                      <i className="fas fa-file-excel mr-1"></i>Detail
+                    </button>
+                    {batch.status === 'DRAFT' && (
+                      <button
+                        onClick={() => handleSubmitBatch(batch)}
+                        disabled={isWorking}
+                        className="px-4 py-2 bg-brand-primary text-white rounded-xl text-xs font-semibold uppercase tracking-wide hover:bg-brand-primary-dark transition-all flex items-center gap-2 disabled:opacity-50"
+                      >
+                        <i className="fas fa-paper-plane"></i>
+                        Mark Submitted
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="overflow-x-auto bg-slate-50 border-t border-slate-100">
+                    <table className="w-full">
+                      <thead>
+                        <tr>
+                          <th className="px-6 py-2 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Claim</th>
+                          <th className="px-6 py-2 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Member</th>
+                          <th className="px-6 py-2 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Pre-auth Ref</th>
+                          <th className="px-6 py-2 text-center text-xs font-bold text-slate-600 uppercase tracking-wide">Visit Date</th>
+                          <th className="px-6 py-2 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Claimed</th>
+                          <th className="px-6 py-2 text-center text-xs font-bold text-slate-600 uppercase tracking-wide">Status</th>
+                          <th className="px-6 py-2 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {batch.claims.map(claim => (
+                          <tr key={claim.id}>
+                            <td className="px-6 py-3 text-sm font-mono text-slate-700">#{claim.claimNo}</td>
+                            <td className="px-6 py-3">
+                              <p className="text-sm font-semibold text-slate-900">{claim.memberName || 'N/A'}</p>
+                              <p className="text-xs text-slate-500">{claim.memberNumber || 'No member number'}</p>
+                            </td>
+                            <td className="px-6 py-3 text-sm font-mono text-slate-700">{claim.preauthReferences.join(', ') || 'N/A'}</td>
+                            <td className="px-6 py-3 text-center text-sm text-slate-600">{formatDate(claim.visitDate)}</td>
+                            <td className="px-6 py-3 text-right text-sm font-semibold text-slate-900">
+                              {formatCurrency(claim.totalAmount)}
+                              {claim.status === 'PAID' && claim.paidAmount !== undefined && claim.paidAmount !== claim.totalAmount && (
+                                <p className="text-xs text-slate-500">Paid {formatCurrency(claim.paidAmount)}</p>
+                              )}
+                            </td>
+                            <td className="px-6 py-3 text-center">
+                              <span className={`text-xs px-3 py-1 rounded-full font-semibold ${CLAIM_STATUS_STYLES[claim.status]}`}>
+                                {claim.status}
+                              </span>
+                              {(claim.rejectionReason || claim.queryNotes) && (
+                                <p className={`text-xs mt-1 ${claim.status === 'REJECTED' ? 'text-red-600' : 'text-amber-600'}`}>
+                                  {claim.status === 'REJECTED' ? claim.rejectionReason : claim.queryNotes}
+                                </p>
+                              )}
+                            </td>
+                            <td className="px-6 py-3 text-right whitespace-nowrap">
+                              {claim.status === 'SUBMITTED' && (
+                                <button
+                                  onClick={() => handleClaimStatus(claim, 'QUERIED')}
+                                  disabled={isWorking}
+                                  className="px-3 py-1 text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 mr-2"
+                                >
+                                  Query
+                                </button>
+                              )}
+                              {claim.status === 'QUERIED' && (
+                                <button
+                                  onClick={() => handleClaimStatus(claim, 'SUBMITTED')}
+                                  disabled={isWorking}
+                                  className="px-3 py-1 text-xs font-semibold text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 mr-2"
+                                >
+                                  Resubmit
+                                </button>
+                              )}
+                              {(claim.status === 'SUBMITTED' || claim.status === 'QUERIED') && (
+                                <>
+                                  <button
+                                    onClick={() => handleClaimStatus(claim, 'REJECTED')}
+                                    disabled={isWorking}
+                                    className="px-3 py-1 text-xs font-semibold text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 mr-2"
+                                  >
+                                    Reject
+                                  </button>
+                                  <button
+                                    onClick={() => handleClaimStatus(claim, 'PAID')}
+                                    disabled={isWorking}
+                                    className="px-3 py-1 text-xs font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700"
+                                  >
+                                    Record Payment
+                                  </button>
+                                </>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InsurerClaims;
@@ -0,0 +1,431 @@
+/**
+ * NHIF Claims View
+ * Claim officer workspace: build monthly claim batches from verified NHIF visits,
+ * submit them to NHIF and track each folio through to payment
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ClaimableNHIFVisit, NHIFClaimBatch, NHIFClaimFolio, ClaimFolioStatus } from '../types';
+import {
+  getClaimableVisits,
+  getClaimBatches,
+  createClaimBatch,
+  submitClaimBatch,
+  updateFolioStatus,
+  getClaimFormData,
+} from '../services/nhifClaimsService';
+import { generateNHIFClaimFormPDF } from '../utils/claimFormUtils';
+import { formatDate } from '../utils/dateTimeUtils';
+import { formatCurrency } from '../utils/exportUtils';
+import { useToast } from '../components/Toast';
+
+const FOLIO_STATUS_STYLES: Record<ClaimFolioStatus, string> = {
+  PENDING: 'bg-slate-100 text-slate-600',
+  SUBMITTED: 'bg-blue-100 text-blue-700',
+  ACCEPTED: 'bg-emerald-100 text-emerald-700',
+  REJECTED: 'bg-red-100 text-red-700',
+  PAID: 'bg-green-600 text-white',
+};
+
+const BATCH_STATUS_STYLES: Record<NHIFClaimBatch['status'], string> = {
+  DRAFT: 'bg-yellow-100 text-yellow-700',
+  SUBMITTING: 'bg-blue-50 text-blue-600',
+  SUBMITTED: 'bg-blue-100 text-blue-700',
+  CLOSED: 'bg-slate-200 text-slate-700',
+};
+
+/**
+ * Current month as YYYY-MM
+ */
+const getCurrentMonth = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const formatClaimMonth = (claimMonth: string): string => {
+  const date = new Date(claimMonth);
+  return date.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+};
+
+const NHIFClaims: React.FC = () => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentMonth());
+  const [claimableVisits, setClaimableVisits] = useState<ClaimableNHIFVisit[]>([]);
+  const [batches, setBatches] = useState<NHIFClaimBatch[]>([]);
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [claimableResult, batchesResult] = await Promise.all([
+        getClaimableVisits(selectedMonth),
+        getClaimBatches(),
+      ]);
+      if (claimableResult.success) {
+        setClaimableVisits(claimableResult.visits || []);
+      } else {
+        setClaimableVisits([]);
+        showError(claimableResult.error || 'Failed to load claimable visits');
+      }
+      if (batchesResult.success) {
+        setBatches(batchesResult.batches || []);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedMonth]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const statistics = useMemo(() => {
+    const folios = batches.flatMap(b => b.folios);
+    const sumBy = (status: ClaimFolioStatus) =>
+      folios.filter(f => f.status === status).reduce((sum, f) => sum + f.totalAmount, 0);
+    return {
+      claimableAmount: claimableVisits.reduce((sum, v) => sum + v.totalAmount, 0),
+      awaitingDecision: sumBy('SUBMITTED'),
+      accepted: sumBy('ACCEPTED'),
+      paid: folios.filter(f => f.status === 'PAID').reduce((sum, f) => sum + (f.paidAmount ?? f.totalAmount), 0),
+      rejected: sumBy('REJECTED'),
+    };
+  }, [batches, claimableVisits]);
+
+  const handleCreateBatch = async () => {
+    if (claimableVisits.length === 0) {
+      showError('No claimable NHIF visits for this month');
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const result = await createClaimBatch(selectedMonth);
+      if (result.success) {
+        showSuccess(`${result.addedFolios ?? 0} folio(s) added to the ${formatClaimMonth(`${selectedMonth}-01`)} batch`);
+        await loadData();
+      } else {
+        showError(result.error || 'Failed to create claim batch');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSubmitBatch = async (batch: NHIFClaimBatch) => {
+    if (!confirm(`Submit ${batch.folioCount} folio(s) totalling ${formatCurrency(batch.totalAmount)} to NHIF for ${formatClaimMonth(batch.claimMonth)}? Submitted batches cannot be edited.`)) {
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const result = await submitClaimBatch(batch.id);
+      if (result.success) {
+        showSuccess(`Batch submitted to NHIF${result.submissionReference ? ` (Ref: ${result.submissionReference})` : ''}`);
+        await loadData();
+      } else {
+        showError(result.error || 'Failed to submit claim batch');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFolioStatus = async (folio: NHIFClaimFolio, status: 'ACCEPTED' | 'REJECTED' | 'PAID') => {
+    const details: { rejectionReason?: string; paidAmount?: number } = {};
+    if (status === 'REJECTED') {
+      const reason = prompt(`Rejection reason for folio #${folio.folioNo}:`);
+      if (!reason || !reason.trim()) return;
+      details.rejectionReason = reason.trim();
+    }
+    if (status === 'PAID') {
+      const amount = prompt(`Amount paid by NHIF for folio #${folio.folioNo}:`, String(folio.totalAmount));
+      if (amount === null) return;
+      const parsed = parseFloat(amount);
+      if (isNaN(parsed) || parsed < 0) {
+        showError('Paid amount must be a positive number');
+        return;
+      }
+      details.paidAmount = parsed;
+    }
+
+    setIsWorking(true);
+    try {
+      const result = await updateFolioStatus(folio.id, status, details);
+      if (result.success) {
+        showSuccess(`Folio #${folio.folioNo} marked ${status.toLowerCase()}`);
+        await loadData();
+      } else {
+        showError(result.error || 'Failed to update folio');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleClaimForm = async (visitId: string) => {
+    setIsWorking(true);
+    try {
+      const result = await getClaimFormData(visitId);
+      if (result.success && result.form) {
+        await generateNHIFClaimFormPDF(result.form);
+        showSuccess('Claim form downloaded');
+      } else {
+        showError(result.error || 'Failed to generate claim form');
+      }
+    } catch (err) {
+      console.error('Error generating claim form:', err);
+      showError('Failed to generate claim form');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-base font-bold text-slate-900 tracking-tight">NHIF Claims</h1>
+            <p className="text-sm text-slate-500 font-medium mt-1">Build monthly claim batches, submit to NHIF and track reimbursement</p>
+          </div>
+          <div className="flex items-center gap-3 w-full sm:w-auto">
+            <input
+              type="month"
+              value={selectedMonth}
+              max={getCurrentMonth()}
+              onChange={(e) => setSelectedMonth(e.target.value)}
+              className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-semibold focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+            />
+            <button
+              onClick={loadData}
+              disabled={isLoading}
+              className="px-4 py-2.5 bg-slate-50 text-slate-600 border border-slate-200 rounded-xl text-sm font-semibold hover:bg-white transition-all"
+            >
+              <i className={`fas fa-sync-alt ${isLoading ? 'fa-spin' : ''}`}></i>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Statistics Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {[
+          { label: 'Ready to Claim', value: formatCurrency(statistics.claimableAmount), icon: 'fa-folder-plus', color: 'var(--brand-primary)' },
+          { label: 'Awaiting NHIF', value: formatCurrency(statistics.awaitingDecision), icon: 'fa-hourglass-half', color: '#3b82f6' },
+          { label: 'Accepted', value: formatCurrency(statistics.accepted), icon: 'fa-check-circle', color: '#10b981' },
+          { label: 'Paid', value: formatCurrency(statistics.paid), icon: 'fa-money-bill-wave', color: '#16a34a' },
+          { label: 'Rejected', value: formatCurrency(statistics.rejected), icon: 'fa-times-circle', color: '#ef4444' },
+        ].map((stat, i) => (
+          <div key={i} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+            <div className="p-3 rounded-xl text-white shadow-md w-fit mb-3" style={{ backgroundColor: stat.color }}>
+              <i className={`fas ${stat.icon} text-lg text-white`}></i>
+            </div>
+            <h3 className="text-base font-black text-slate-900 mb-1">{stat.value}</h3>
+            <p className="text-xs font-semibold text-slate-600">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Claimable Visits */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="text-sm font-bold text-slate-900">
+            Claimable Visits – {formatClaimMonth(`${selectedMonth}-01`)} ({claimableVisits.length})
+          </h2>
+          <button
+            onClick={handleCreateBatch}
+            disabled={isWorking || claimableVisits.length === 0}
+            className="px-5 py-2.5 bg-brand-primary text-white rounded-xl text-sm font-semibold hover:bg-brand-primary-dark transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <i className="fas fa-layer-group"></i>
+            Add to Monthly Batch
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Patient</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Card Number</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Auth Number</th>
+                <th className="px-6 py-3 text-center text-xs font-bold text-slate-600 uppercase tracking-wide">Visit Date</th>
+                <th className="px-6 py-3 text-center text-xs font-bold text-slate-600 uppercase tracking-wide">Items</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Amount</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Form</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {claimableVisits.length > 0 ? (
+                claimableVisits.map(visit => (
+                  <tr key={visit.visitId} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-semibold text-slate-900">{visit.patientName || visit.memberName || 'Unknown'}</p>
+                      <p className="text-xs text-slate-500 font-mono">{visit.patientId}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm font-medium text-slate-700">{visit.cardNo}</td>
+                    <td className="px-6 py-4 text-sm font-mono font-semibold text-emerald-600">{visit.authorizationNo || 'N/A'}</td>
+                    <td className="px-6 py-4 text-center text-sm text-slate-600">{formatDate(visit.visitDate)}</td>
+                    <td className="px-6 py-4 text-center text-sm text-slate-600">{visit.items.length}</td>
+                    <td className="px-6 py-4 text-right text-sm font-bold text-slate-900">{formatCurrency(visit.totalAmount)}</td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => handleClaimForm(visit.visitId)}
+                        disabled={isWorking}
+                        className="px-3 py-1 text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-50"
+                        title="Download NHIF claim form (Form 2A/2B)"
+                      >
+                        <i className="fas fa-file-pdf mr-1"></i>2A/2B
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-sm text-slate-400">
+                    {isLoading ? 'Loading...' : 'No completed, verified NHIF visits waiting to be claimed for this month'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Claim Batches */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-sm font-bold text-slate-900">Claim Batches ({batches.length})</h2>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {batches.length === 0 && (
+            <p className="px-6 py-12 text-center text-sm text-slate-400">No claim batches yet</p>
+          )}
+          {batches.map(batch => {
+            const isExpanded = expandedBatchId === batch.id;
+            return (
+              <div key={batch.id}>
+                <div className="px-6 py-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <button
+                    onClick={() => setExpandedBatchId(isExpanded ? null : batch.id)}
+                    className="flex items-center gap-3 text-left"
+                  >
+                    <i className={`fas fa-chevron-${isExpanded ? 'down' : 'right'} text-xs text-slate-400`}></i>
+                    <div>
+                      <p className="text-sm font-bold text-slate-900">{formatClaimMonth(batch.claimMonth)}</p>
+                      <p className="text-xs text-slate-500">
+                        {batch.folioCount} folio(s) · {formatCurrency(batch.totalAmount)}
+                        {batch.submissionReference && <> · Ref <span className="font-mono">{batch.submissionReference}</span></>}
+                        {batch.submittedAt && <> · Submitted {formatDate(batch.submittedAt)}</>}
+                      </p>
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-3">
+                    <span className={`text-xs px-3 py-1 rounded-full font-semibold ${BATCH_STATUS_STYLES[batch.status]}`}>
+                      {batch.status}
+                    </span>
+                    {batch.status === 'DRAFT' && (
+                      <button
+                        onClick={() => handleSubmitBatch(batch)}
+                        disabled={isWorking}
+                        className="px-4 py-2 bg-brand-primary text-white rounded-xl text-xs font-semibold uppercase tracking-wide hover:bg-brand-primary-dark transition-all flex items-center gap-2 disabled:opacity-50"
+                      >
+                        <i className="fas fa-paper-plane"></i>
+                        Submit to NHIF
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="overflow-x-auto bg-slate-50 border-t border-slate-100">
+                    <table className="w-full">
+                      <thead>
+                        <tr>
+                          <th className="px-6 py-2 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Folio</th>
+                          <th className="px-6 py-2 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Member</th>
+                          <th className="px-6 py-2 text-left text-xs font-bold text-slate-600 uppercase tracking-wide">Auth Number</th>
+                          <th className="px-6 py-2 text-center text-xs font-bold text-slate-600 uppercase tracking-wide">Visit Date</th>
+                          <th className="px-6 py-2 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Claimed</th>
+                          <th className="px-6 py-2 text-center text-xs font-bold text-slate-600 uppercase tracking-wide">Status</th>
+                          <th className="px-6 py-2 text-right text-xs font-bold text-slate-600 uppercase tracking-wide">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {batch.folios.map(folio => (
+                          <tr key={folio.id}>
+                            <td className="px-6 py-3 text-sm font-mono text-slate-700">#{folio.folioNo}</td>
+                            <td className="px-6 py-3">
+                              <p className="text-sm font-semibold text-slate-900">{folio.memberName || 'N/A'}</p>
+                              <p className="text-xs text-slate-500">{folio.cardNo}</p>
+                            </td>
+                            <td className="px-6 py-3 text-sm font-mono text-slate-700">{folio.authorizationNo || 'N/A'}</td>
+                            <td className="px-6 py-3 text-center text-sm text-slate-600">{formatDate(folio.visitDate)}</td>
+                            <td className="px-6 py-3 text-right text-sm font-semibold text-slate-900">
+                              {formatCurrency(folio.totalAmount)}
+                              {folio.status === 'PAID' && folio.paidAmount !== undefined && folio.paidAmount !== folio.totalAmount && (
+                                <p className="text-xs text-slate-500">Paid {formatCurrency(folio.paidAmount)}</p>
+                              )}
+                            </td>
+                            <td className="px-6 py-3 text-center">
+                              <span className={`text-xs px-3 py-1 rounded-full font-semibold ${FOLIO_STATUS_STYLES[folio.status]}`}>
+                                {folio.status}
+                              </span>
+                              {folio.rejectionReason && (
+                                <p className="text-xs text-red-600 mt-1">{folio.rejectionReason}</p>
+                              )}
+                            </td>
+                            <td className="px-6 py-3 text-right whitespace-nowrap">
+                              <button
+                                onClick={() => handleClaimForm(folio.visitId)}
+                                disabled={isWorking}
+                                className="px-3 py-1 text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 mr-2"
+                                title="Download NHIF claim form (Form 2A/2B)"
+                              >
+                                <i className="fas fa-file-pdf"></i>
+                              </button>
+                              {folio.status === 'SUBMITTED' && (
+                                <>
+                                  <button
+                                    onClick={() => handleFolioStatus(folio, 'ACCEPTED')}
+                                    disabled={isWorking}
+                                    className="px-3 py-1 text-xs font-semibold text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-lg hover:bg-emerald-100 mr-2"
+                                  >
+                                    Accept
+                                  </button>
+                                  <button
+                                    onClick={() => handleFolioStatus(folio, 'REJECTED')}
+                                    disabled={isWorking}
+                                    className="px-3 py-1 text-xs font-semibold text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100"
+                                  >
+                                    Reject
+                                  </button>
+                                </>
+                              )}
+                              {folio.status === 'ACCEPTED' && (
+                                <button
+                                  onClick={() => handleFolioStatus(folio, 'PAID')}
+                                  disabled={isWorking}
+                                  className="px-3 py-1 text-xs font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700"
+                                >
+                                  Record Payment
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NHIFClaims;
@@ -1,51 +1,40 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { PatientStatus, PrescriptionHistoryEvent, InsuranceType } from '../types';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { PatientStatus, PrescriptionHistoryEvent, InsuranceType, InsuranceProvider, TariffItem, TariffPayer, InsuranceScheme, BillItem, Preauthorization } from '../types';
 import { usePatients } from '../contexts/PatientContext';
 import { useToast } from '../components/Toast';
 import { generateBillItemId } from '../utils/idGenerator';
-import { createBillItem, createPrescription } from '../services/patientService';
+import { createBillItem, createPrescription, getPrescriptionHistory } from '../services/patientService';
 import NHIFVerificationBadge from '../components/NHIFVerificationBadge';
 import { getPatientVisit } from '../services/nhifService';
 import { canDispenseOptical } from '../utils/nhifGating';
 import { logCriticalOperation } from '../services/auditLogService';
+import { useTariffs } from '../contexts/TariffContext';
+import { getPatientPayer, resolveTariffPrice } from '../utils/tariffUtils';
+import { evaluateBenefits, getOpticalBenefitUsed } from '../utils/benefitUtils';
+import { getInsuranceSchemes } from '../services/insuranceSchemeService';
+import { getVisitPreauthorizations } from '../services/preauthorizationService';
+import { evaluatePreauthGate, checkPreauthGate } from '../utils/preauthGating';
+import { getBillableItems } from '../utils/patientUtils';
+import PreauthorizationPanel from '../components/PreauthorizationPanel';
+import ThermalPrintPreview from '../components/ThermalPrintPreview';
+import RxSummary from '../components/RxSummary';
+import RxComparison from '../components/RxComparison';
+import { isThermalPrinting, printThermal } from '../services/printService';
+import { buildOpticalJobTicket } from '../utils/thermalUtils';
+import { flagRxChanges, formatAdd, formatRx, parseAdd, parseRx } from '../utils/rxUtils';
+import { formatDate } from '../utils/dateTimeUtils';
 
-const LENS_TYPES = [
-  { name: 'Single Vision - Distance', basePrice: 20000, nhifEligible: true, nhifCap: 20000 },
-  { name: 'Single Vision - Reading', basePrice: 20000, nhifEligible: true, nhifCap: 20000 },
-  { name: 'Bifocal - Flat Top', basePrice: 45000, nhifEligible: true, nhifCap: 40000 },
-  { name: 'Bifocal - Round Top', basePrice: 45000, nhifEligible: true, nhifCap: 40000 },
-  { name: 'Progressive - Standard', basePrice: 85000, nhifEligible: false, nhifCap: 0 },
-];
-
-const LENS_INDICES = [
-  { index: '1.50 (Standard)', premium: 0, nhifEligible: true },
-  { index: '1.56 (Mid-Index)', premium: 15000, nhifEligible: true },
-  { index: '1.61 (High-Index)', premium: 35000, nhifEligible: false },
-];
-
-const LENS_EDGE_COLORS = [
-  { name: 'Clear', price: 0 }, { name: 'Sky Blue', price: 5000 }, { name: 'Forest Green', price: 5000 },
-];
-
-const COATINGS = [
-  { name: 'Hard Coat', price: 10000, nhifEligible: true, nhifCap: 10000 },
-  { name: 'Anti-Reflective', price: 25000, nhifEligible: false, nhifCap: 0 },
-  { name: 'Blue Cut', price: 40000, nhifEligible: false, nhifCap: 0 },
-];
-
-const NHIF_REGS = {
-  FRAME_CAP: 30000,
-  MAX_TOTAL_REIMBURSEMENT: 80000,
-};
+const RX_FIELD_LABELS = { od: 'OD', os: 'OS', addOd: 'Add OD', addOs: 'Add OS' } as const;
 
 const OpticalDispensing: React.FC = () => {
-  const { patients, updatePatient, refreshPatient, useApi } = usePatients();
+  const { patients, updatePatient, refreshPatient, getEncounters, useApi } = usePatients();
   const { success: showSuccess, error: showError } = useToast();
+  const { tariffs, getTariff } = useTariffs();
   const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [lensType, setLensType] = useState(LENS_TYPES[0].name);
-  const [lensIndex, setLensIndex] = useState(LENS_INDICES[0].index);
-  const [edgeColor, setEdgeColor] = useState(LENS_EDGE_COLORS[0].name);
+  const [lensType, setLensType] = useState('');
+  const [lensIndex, setLensIndex] = useState('');
+  const [edgeColor, setEdgeColor] = useState('');
   const [selectedCoatings, setSelectedCoatings] = useState<string[]>([]);
   const [frameDetails, setFrameDetails] = useState('');
   const [framePrice, setFramePrice] = useState(0);
@@ -55,19 +44,40 @@ const OpticalDispensing: React.FC = () => {
   const [addOs, setAddOs] = useState('');
   const [showHistory, setShowHistory] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [printPreview, setPrintPreview] = useState<string | null>(null);
   
   const [isCalculatorOpen, setIsCalculatorOpen] = useState(false);
   const [useCase, setUseCase] = useState('Daily Use');
   const [historySearchTerm, setHistorySearchTerm] = useState('');
   const [detailViewEvent, setDetailViewEvent] = useState<PrescriptionHistoryEvent | null>(null);
+  const [prescriptionHistory, setPrescriptionHistory] = useState<PrescriptionHistoryEvent[]>([]);
 
   const [claimFrameNHIF, setClaimFrameNHIF] = useState(false);
   const [claimLensNHIF, setClaimLensNHIF] = useState(false);
 
   const activePatient = patients.find(p => p.id === selectedId);
+  const [schemes, setSchemes] = useState<InsuranceScheme[]>([]);
+  const [opticalUsed, setOpticalUsed] = useState(0);
+  const activeScheme = activePatient?.insuranceType === InsuranceType.PRIVATE
+    ? schemes.find(s => s.id === activePatient.insuranceSchemeId) || null
+    : null;
   const [currentVisitId, setCurrentVisitId] = useState<string | null>(null);
   const [nhifGateResult, setNhifGateResult] = useState<{ allowed: boolean; reason?: string } | null>(null);
+  const [preauthorizations, setPreauthorizations] = useState<Preauthorization[]>([]);
+  const preauthVisitId = activePatient?.insuranceType === InsuranceType.PRIVATE ? activePatient.visitId ?? null : null;
   
+  // Lens options and NHIF allowances come from the tariff master
+  const lensTypes = useMemo(() => tariffs.filter(t => t.group === 'LENS_TYPE'), [tariffs]);
+  const lensIndices = useMemo(() => tariffs.filter(t => t.group === 'LENS_INDEX'), [tariffs]);
+  const edgeColors = useMemo(() => tariffs.filter(t => t.group === 'EDGE_COLOR'), [tariffs]);
+  const coatings = useMemo(() => tariffs.filter(t => t.group === 'COATING'), [tariffs]);
+
+  useEffect(() => {
+    if (!lensType && lensTypes.length > 0) setLensType(lensTypes[0].name);
+    if (!lensIndex && lensIndices.length > 0) setLensIndex(lensIndices[0].name);
+    if (!edgeColor && edgeColors.length > 0) setEdgeColor(edgeColors[0].name);
+  }, [lensTypes, lensIndices, edgeColors]);
+
   const opticalQueue = patients.filter(p => p.status === PatientStatus.PENDING_BILLING || p.status === PatientStatus.IN_OPTICAL || (p.prescription && p.status !== PatientStatus.COMPLETED));
 
   // Refresh patient data when selected
@@ -79,6 +89,21 @@ const OpticalDispensing: React.FC = () => {
     }
   }, [selectedId, refreshPatient]);
 
+  useEffect(() => {
+    getInsuranceSchemes().then(result => {
+      if (result.success) setSchemes(result.schemes || []);
+    });
+  }, []);
+
+  // Optical benefit the patient's scheme already paid on other visits this year
+  useEffect(() => {
+    setOpticalUsed(0);
+    if (!activePatient || activeScheme?.annualOpticalLimit === undefined) return;
+    getEncounters(activePatient.id)
+      .then(encounters => setOpticalUsed(getOpticalBenefitUsed(encounters, activeScheme, { tariffs, excludeVisitId: activePatient.visitId })))
+      .catch(() => {});
+  }, [activePatient?.id, activeScheme, tariffs]);
+
   // Fetch visit ID for NHIF patients
   useEffect(() => {
     if (activePatient && activePatient.insuranceType === InsuranceType.NHIF) {
@@ -98,35 +123,126 @@ const OpticalDispensing: React.FC = () => {
     }
   }, [activePatient]);
 
+  // Insurer pre-authorizations for private patients' visits
+  const loadPreauthorizations = useCallback(async () => {
+    if (!preauthVisitId) {
+      setPreauthorizations([]);
+      return;
+    }
+    const result = await getVisitPreauthorizations(preauthVisitId);
+    setPreauthorizations(result.success ? result.preauthorizations || [] : []);
+  }, [preauthVisitId]);
+
+  useEffect(() => {
+    loadPreauthorizations();
+  }, [loadPreauthorizations]);
+
   useEffect(() => {
     if (activePatient) {
       setOd(activePatient.prescription?.od || ''); 
       setOs(activePatient.prescription?.os || ''); 
       setAddOd(activePatient.prescription?.addOd || activePatient.prescription?.add || ''); 
       setAddOs(activePatient.prescription?.addOs || activePatient.prescription?.add || ''); 
-      setEdgeColor(activePatient.prescription?.edgeColor || LENS_EDGE_COLORS[0].name);
+      setEdgeColor(activePatient.prescription?.edgeColor || edgeColors[0]?.name || '');
     }
   }, [activePatient]);
 
+  // Earlier prescriptions, so a mistyped Rx shows up as an implausible change before lenses are ordered
+  useEffect(() => {
+    setPrescriptionHistory([]);
+    setDetailViewEvent(null);
+    setHistorySearchTerm('');
+    if (!activePatient) return;
+    if (!useApi) {
+      setPrescriptionHistory(activePatient.prescriptionHistory ?? []);
+      return;
+    }
+    getPrescriptionHistory(activePatient.id)
+      .then(result => setPrescriptionHistory(result.history))
+      .catch(() => {
+        // Comparison is advisory; dispensing goes ahead without it
+      });
+  }, [useApi, activePatient?.id]);
+
+  // The Rx written at this visit is the one being dispensed, not a previous one
+  const previousPrescriptions = prescriptionHistory.filter(event => !activePatient?.visitId || event.visitId !== activePatient.visitId);
+  const comparedPrescription = detailViewEvent ?? previousPrescriptions[0] ?? null;
+  const filteredHistory = previousPrescriptions.filter(event => {
+    const term = historySearchTerm.trim().toLowerCase();
+    return !term || [formatDate(event.date), event.providerName, event.od, event.os, ...event.dispensedItems]
+      .some(value => value?.toLowerCase().includes(term));
+  });
+
   const pricingSummary = useMemo(() => {
-    const selectedLens = LENS_TYPES.find(t => t.name === lensType)!;
-    const selectedIdx = LENS_INDICES.find(i => i.index === lensIndex)!;
-    const selectedEdge = LENS_EDGE_COLORS.find(e => e.name === edgeColor)!;
-    const coatingTotal = selectedCoatings.reduce((acc, cName) => acc + (COATINGS.find(coating => coating.name === cName)?.price || 0), 0);
-    const subtotalLens = selectedLens.basePrice + selectedIdx.premium + coatingTotal + selectedEdge.price;
+    // NHIF patients pay the cash retail price; private insurers may have their own tariff
+    const retailPayer: TariffPayer = activePatient && activePatient.insuranceType !== InsuranceType.NHIF
+      ? getPatientPayer(activePatient)
+      : 'CASH';
+    const lensComponents = [
+      lensTypes.find(t => t.name === lensType),
+      lensIndices.find(i => i.name === lensIndex),
+      edgeColors.find(e => e.name === edgeColor),
+      ...selectedCoatings.map(cName => coatings.find(coating => coating.name === cName)),
+    ].filter((item): item is TariffItem => !!item);
+    const unpriced = lensComponents.filter(item => resolveTariffPrice(item, retailPayer) === undefined).map(item => item.name);
+    const subtotalLens = lensComponents.reduce((acc, item) => acc + (resolveTariffPrice(item, retailPayer) || 0), 0);
     const total = subtotalLens + framePrice;
-    let nhifDeduction = 0;
+    let insuranceDeduction = 0;
+    let benefitLines: ReturnType<typeof evaluateBenefits>['lines'] = [];
+    let visitLines: ReturnType<typeof evaluateBenefits>['lines'] = [];
     if (activePatient?.insuranceType === InsuranceType.NHIF) {
-      if (claimFrameNHIF) nhifDeduction += Math.min(framePrice, NHIF_REGS.FRAME_CAP);
+      const frameTariff = getTariff('FRAME');
+      const ceilingTariff = getTariff('NHIF_OPTICAL_CEILING');
+      if (claimFrameNHIF && frameTariff) insuranceDeduction += Math.min(framePrice, resolveTariffPrice(frameTariff, InsuranceProvider.NHIF) || 0);
       if (claimLensNHIF) {
-        if (selectedLens.nhifEligible) nhifDeduction += Math.min(selectedLens.basePrice, selectedLens.nhifCap);
-        if (selectedIdx.nhifEligible) nhifDeduction += selectedIdx.premium;
-        selectedCoatings.forEach(cName => { const c = COATINGS.find(coat => coat.name === cName); if (c?.nhifEligible) nhifDeduction += c.nhifCap; });
+        // Only components with an NHIF price are eligible, each up to that price
+        lensComponents.forEach(item => {
+          const nhifCap = resolveTariffPrice(item, InsuranceProvider.NHIF);
+          if (nhifCap !== undefined) insuranceDeduction += Math.min(resolveTariffPrice(item, retailPayer) || 0, nhifCap);
+        });
       }
-      nhifDeduction = Math.min(nhifDeduction, NHIF_REGS.MAX_TOTAL_REIMBURSEMENT);
+      const ceiling = ceilingTariff ? resolveTariffPrice(ceilingTariff, InsuranceProvider.NHIF) : undefined;
+      if (ceiling !== undefined) insuranceDeduction = Math.min(insuranceDeduction, ceiling);
+    } else if (activePatient?.insuranceType === InsuranceType.PRIVATE) {
+      // Scheme rules per line; any per-visit co-pay is applied on the full bill at billing
+      const candidateItems: BillItem[] = [
+        { id: 'frame', description: 'Frame', amount: framePrice, category: 'OPTICAL', isCoveredByNHIF: false, isCoveredByPrivate: true, tariffCode: 'FRAME' },
+        { id: 'lens', description: `Lens: ${lensType}`, amount: subtotalLens, category: 'OPTICAL', isCoveredByNHIF: false, isCoveredByPrivate: true, tariffCode: lensComponents.find(item => item.group === 'LENS_TYPE')?.code },
+      ];
+      const proposedItems = candidateItems.filter(item => item.amount > 0);
+      // Evaluated with the rest of the bill so limits and pre-authorizations see the whole visit
+      visitLines = evaluateBenefits([...getBillableItems(activePatient.billItems), ...proposedItems], InsuranceType.PRIVATE, activeScheme, { tariffs, opticalUsed }).lines;
+      benefitLines = visitLines.filter(line => proposedItems.some(item => item.id === line.itemId));
+      insuranceDeduction = benefitLines.reduce((sum, line) => sum + line.covered, 0);
     }
-    return { subtotalLens, total, nhifDeduction, netPayable: total - nhifDeduction };
-  }, [lensType, lensIndex, edgeColor, selectedCoatings, framePrice, activePatient, claimFrameNHIF, claimLensNHIF]);
+    // Approvals go to items already on the bill first; the unapproved rest of these is the patient's
+    const preauthGate = evaluatePreauthGate(visitLines, preauthorizations, tariffs);
+    const proposedGated = preauthGate.lines.filter(line => benefitLines.includes(line)).reduce((sum, line) => sum + line.covered, 0);
+    insuranceDeduction -= Math.min(preauthGate.insurerExcess, proposedGated);
+    return { subtotalLens, total, insuranceDeduction, benefitLines, visitLines, preauthGate, netPayable: total - insuranceDeduction, unpriced };
+  }, [lensTypes, lensIndices, edgeColors, coatings, tariffs, getTariff, lensType, lensIndex, edgeColor, selectedCoatings, framePrice, activePatient, activeScheme, opticalUsed, preauthorizations, claimFrameNHIF, claimLensNHIF]);
+
+  // The Rx is only ever read through the parser, so a hand-typed string is never guessed at
+  const rxReading = useMemo(() => {
+    const odRx = parseRx(od);
+    const osRx = parseRx(os);
+    const odAdd = parseAdd(addOd);
+    const osAdd = parseAdd(addOs);
+    const rxOd = odRx.rx && { ...odRx.rx, add: odAdd.add ?? odRx.rx.add };
+    const rxOs = osRx.rx && { ...osRx.rx, add: osAdd.add ?? osRx.rx.add };
+    return {
+      od: rxOd,
+      os: rxOs,
+      errors: { od: odRx.error, os: osRx.error, addOd: odAdd.error, addOs: osAdd.error },
+      // Canonical strings saved and printed in place of what was typed
+      written: {
+        od: rxOd ? formatRx({ ...rxOd, add: undefined }) : '',
+        os: rxOs ? formatRx({ ...rxOs, add: undefined }) : '',
+        addOd: formatAdd(rxOd?.add ?? odAdd.add),
+        addOs: formatAdd(rxOs?.add ?? osAdd.add),
+      },
+    };
+  }, [od, os, addOd, addOs]);
 
   const handleCompleteDispensing = async () => {
     if (!activePatient) {
@@ -134,11 +250,28 @@ const OpticalDispensing: React.FC = () => {
       return;
     }
 
+    const rxError = (Object.keys(RX_FIELD_LABELS) as Array<keyof typeof RX_FIELD_LABELS>)
+      .find(field => rxReading.errors[field]);
+    if (rxError) {
+      showError(`${RX_FIELD_LABELS[rxError]} prescription: ${rxReading.errors[rxError]}`);
+      return;
+    }
+
     if (!frameDetails.trim() && framePrice === 0 && pricingSummary.subtotalLens === 0) {
       showError('Please add frame details or lens configuration');
       return;
     }
 
+    if (pricingSummary.unpriced.length > 0) {
+      showError(`No current price for ${pricingSummary.unpriced.join(', ')}. Ask an administrator to set it in Settings > Price List.`);
+      return;
+    }
+
+    const rxChanges = comparedPrescription ? flagRxChanges(rxReading, comparedPrescription) : [];
+    if (rxChanges.length > 0 && !confirm(`Large change from the prescription of ${formatDate(comparedPrescription!.date)}:\n${rxChanges.join('\n')}\n\nHas the Rx been checked against the clinical record?`)) {
+      return;
+    }
+
     const totalAmount = pricingSummary.total;
     if (!confirm(`Are you sure you want to complete optical dispensing for ${activePatient.name}? Total amount: TZS ${totalAmount.toLocaleString()}. This will finalize the order.`)) {
       return;
@@ -153,6 +286,15 @@ const OpticalDispensing: React.FC = () => {
       }
     }
 
+    // Check private insurer pre-authorization gate
+    if (activePatient.insuranceType === InsuranceType.PRIVATE) {
+      const gateResult = await checkPreauthGate(preauthVisitId, pricingSummary.visitLines, tariffs);
+      if (!gateResult.allowed) {
+        showError(gateResult.reason || 'Insurer pre-authorization required before dispensing');
+        return;
+      }
+    }
+
     setIsSubmitting(true);
     try {
       // Check if patient needs medications by checking consultation notes/plan
@@ -178,10 +320,7 @@ const OpticalDispensing: React.FC = () => {
       // Prepare prescription update
       const prescriptionUpdate = {
         ...activePatient.prescription,
-        od,
-        os,
-        addOd,
-        addOs,
+        ...rxReading.written,
         edgeColor
       };
 
@@ -194,7 +333,8 @@ const OpticalDispensing: React.FC = () => {
           amount: framePrice,
           category: 'OPTICAL' as const,
           isCoveredByNHIF: claimFrameNHIF,
-          isCoveredByPrivate: true
+          isCoveredByPrivate: true,
+          tariffCode: 'FRAME'
         });
       }
       if (pricingSummary.subtotalLens > 0) {
@@ -204,14 +344,15 @@ const OpticalDispensing: React.FC = () => {
           amount: pricingSummary.subtotalLens,
           category: 'OPTICAL' as const,
           isCoveredByNHIF: claimLensNHIF,
-          isCoveredByPrivate: true
+          isCoveredByPrivate: true,
+          tariffCode: lensTypes.find(t => t.name === lensType)?.code
         });
       }
 
       // Create prescription via API if available
-      if (useApi && (od || os || addOd || addOs)) {
+      if (useApi && Object.values(rxReading.written).some(Boolean)) {
         try {
-          await createPrescription(activePatient.id, prescriptionUpdate);
+          await createPrescription(activePatient.id, { ...prescriptionUpdate, visitId: activePatient.visitId });
         } catch (apiError) {
           console.warn('Failed to create prescription via API, will update via patient update:', apiError);
         }
@@ -250,6 +391,24 @@ const OpticalDispensing: React.FC = () => {
           }
         );
 
+        // Job ticket for the workshop on the thermal printer
+        if (isThermalPrinting()) {
+          const printResult = await printThermal(buildOpticalJobTicket({
+            patient: activePatient,
+            ...rxReading.written,
+            lensType,
+            lensIndex,
+            coatings: selectedCoatings,
+            edgeColor,
+            frameDetails: frameDetails.trim(),
+          }));
+          if (!printResult.success) {
+            showError(printResult.error || 'Failed to print job ticket');
+          } else if (printResult.preview !== undefined) {
+            setPrintPreview(printResult.preview);
+          }
+        }
+
         // Refresh patient data to get updated information
         await refreshPatient(activePatient.id);
         showSuccess(successMessage);
@@ -307,6 +466,17 @@ const OpticalDispensing: React.FC = () => {
               </div>
             )}
 
+            {activePatient.insuranceType === InsuranceType.PRIVATE && (
+              <div className="mb-4">
+                <PreauthorizationPanel
+                  visitId={preauthVisitId}
+                  gate={pricingSummary.preauthGate}
+                  preauthorizations={preauthorizations}
+                  onChanged={loadPreauthorizations}
+                />
+              </div>
+            )}
+
             <div className="flex-1 bg-white rounded-[3rem] border border-slate-200 shadow-sm overflow-hidden flex flex-col relative">
               <div className="p-8 border-b border-slate-100 flex justify-between items-center bg-white sticky top-0 z-20">
               <div> <h2 className="text-xl font-black text-slate-900 tracking-tight">{activePatient.name}</h2> <span className="text-[10px] font-black text-blue-500 uppercase tracking-widest">{activePatient.insuranceType} Dispensing</span> </div>
@@ -320,16 +490,66 @@ const OpticalDispensing: React.FC = () => {
             </div>
             <div className="flex-1 p-8 space-y-12 overflow-y-auto custom-scrollbar">
               <section className="space-y-6">
-                <h4 className="text-[11px] font-black uppercase tracking-widest text-slate-900 flex items-center gap-3"> <span className="w-8 h-8 bg-blue-50 text-blue-600 rounded-xl flex items-center justify-center">1</span> Custom Lens Config </h4>
+                <h4 className="text-[11px] font-black uppercase tracking-widest text-slate-900 flex items-center gap-3"> <span className="w-8 h-8 bg-indigo-50 text-indigo-600 rounded-xl flex items-center justify-center">1</span> Prescription </h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                  {([
+                    ['od', od, setOd, '-2.50/-0.75x180'],
+                    ['os', os, setOs, '-2.25 DS'],
+                    ['addOd', addOd, setAddOd, '+2.00'],
+                    ['addOs', addOs, setAddOs, '+2.00'],
+                  ] as const).map(([field, value, setValue, placeholder]) => (
+                    <div key={field} className="space-y-2">
+                      <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">{RX_FIELD_LABELS[field]}</label>
+                      <input type="text" value={value} onChange={(e) => setValue(e.target.value)} placeholder={placeholder} className={`w-full px-5 py-3.5 bg-slate-50 border rounded-2xl font-bold text-sm outline-none focus:border-indigo-500 ${rxReading.errors[field] ? 'border-red-500' : 'border-slate-200'}`} />
+                      {rxReading.errors[field] && <p className="text-[10px] font-bold text-red-600 ml-1">{rxReading.errors[field]}</p>}
+                    </div>
+                  ))}
+                </div>
+                <RxSummary od={rxReading.od} os={rxReading.os} />
+                {previousPrescriptions.length > 0 && (
+                  <div className="border border-slate-200 rounded-2xl overflow-hidden">
+                    <button onClick={() => setShowHistory(!showHistory)} className="w-full px-5 py-3 bg-slate-50 flex justify-between items-center text-[10px] font-black uppercase tracking-widest text-slate-600">
+                      <span><i className="fas fa-history mr-2"></i>Prescription History ({previousPrescriptions.length})</span>
+                      <i className={`fas fa-chevron-${showHistory ? 'up' : 'down'}`}></i>
+                    </button>
+                    {showHistory && (
+                      <div className="p-5 space-y-4">
+                        <input type="text" value={historySearchTerm} onChange={(e) => setHistorySearchTerm(e.target.value)} placeholder="Search by date, provider or Rx" className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl font-bold text-sm outline-none focus:border-indigo-500" />
+                        <div className="max-h-48 overflow-y-auto space-y-2 custom-scrollbar">
+                          {filteredHistory.map((event, index) => {
+                            const isSelected = comparedPrescription === event;
+                            return (
+                              <button key={event.id ?? index} onClick={() => setDetailViewEvent(event)} className={`w-full px-4 py-3 rounded-xl border text-left transition-all ${isSelected ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 bg-white hover:border-indigo-300'}`}>
+                                <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-500">
+                                  <span>{formatDate(event.date)}</span>
+                                  <span>{event.providerName}</span>
+                                </div>
+                                <p className="text-xs font-bold text-slate-800 mt-1">OD {event.od || '—'} · OS {event.os || '—'}</p>
+                                {event.dispensedItems.length > 0 && <p className="text-[10px] text-slate-500 mt-0.5">{event.dispensedItems.join(', ')}</p>}
+                              </button>
+                            );
+                          })}
+                          {filteredHistory.length === 0 && <p className="text-xs text-slate-400 text-center py-2">No prescriptions match</p>}
+                        </div>
+                        {comparedPrescription && (rxReading.od || rxReading.os) && (
+                          <RxComparison od={rxReading.od} os={rxReading.os} previous={comparedPrescription} />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </section>
+              <section className="space-y-6">
+                <h4 className="text-[11px] font-black uppercase tracking-widest text-slate-900 flex items-center gap-3"> <span className="w-8 h-8 bg-blue-50 text-blue-600 rounded-xl flex items-center justify-center">2</span> Custom Lens Config </h4>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                  <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Profile</label> <select value={lensType} onChange={(e) => setLensType(e.target.value)} className="w-full px-5 py-3.5 bg-slate-50 border border-slate-200 rounded-2xl font-bold text-sm outline-none"> {LENS_TYPES.map(t => <option key={t.name} value={t.name}>{t.name}</option>)} </select> </div>
-                  <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Index</label> <select value={lensIndex} onChange={(e) => setLensIndex(e.target.value)} className="w-full px-5 py-3.5 bg-slate-50 border border-slate-200 rounded-2xl font-bold text-sm outline-none"> {LENS_INDICES.map(i => <option key={i.index} value={i.index}>{i.index}</option>)} </select> </div>
-                  <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Edge</label> <select value={edgeColor} onChange={(e) => setEdgeColor(e.target.value)} className="w-full px-5 py-3.5 bg-slate-50 border border-slate-200 rounded-2xl font-bold text-sm outline-none"> {LENS_EDGE_COLORS.map(c => <option key={c.name} value={c.name}>{c.name}</option>)} </select> </div>
+                  <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Profile</label> <select value={lensType} onChange={(e) => setLensType(e.target.value)} className="w-full px-5 py-3.5 bg-slate-50 border border-slate-200 rounded-2xl font-bold text-sm outline-none"> {lensTypes.map(t => <option key={t.code} value={t.name}>{t.name}</option>)} </select> </div>
+                  <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Index</label> <select value={lensIndex} onChange={(e) => setLensIndex(e.target.value)} className="w-full px-5 py-3.5 bg-slate-50 border border-slate-200 rounded-2xl font-bold text-sm outline-none"> {lensIndices.map(i => <option key={i.code} value={i.name}>{i.name}</option>)} </select> </div>
+                  <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Edge</label> <select value={edgeColor} onChange={(e) => setEdgeColor(e.target.value)} className="w-full px-5 py-3.5 bg-slate-50 border border-slate-200 rounded-2xl font-bold text-sm outline-none"> {edgeColors.map(c => <option key={c.code} value={c.name}>{c.name}</option>)} </select> </div>
                   <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Lens Price</label> <div className="px-5 py-3.5 bg-slate-900 border border-slate-800 rounded-2xl font-black text-sm text-blue-400 text-center"> {pricingSummary.subtotalLens.toLocaleString()} </div> </div>
                 </div>
               </section>
               <section className="space-y-6">
-                <div className="flex justify-between items-center"> <h4 className="text-[11px] font-black uppercase tracking-widest text-slate-900 flex items-center gap-3"> <span className="w-8 h-8 bg-emerald-50 text-emerald-600 rounded-xl flex items-center justify-center">2</span> Frame Selection </h4> {activePatient.insuranceType === InsuranceType.NHIF && <label className="flex items-center gap-3 bg-emerald-50 px-4 py-2 rounded-2xl border border-emerald-100 cursor-pointer"> <span className="text-[10px] font-black text-emerald-700 uppercase tracking-widest">Apply NHIF Frame Allowance</span> <input type="checkbox" checked={claimFrameNHIF} onChange={(e) => setClaimFrameNHIF(e.target.checked)} className="w-5 h-5 rounded-lg text-emerald-600" /> </label>} </div>
+                <div className="flex justify-between items-center"> <h4 className="text-[11px] font-black uppercase tracking-widest text-slate-900 flex items-center gap-3"> <span className="w-8 h-8 bg-emerald-50 text-emerald-600 rounded-xl flex items-center justify-center">3</span> Frame Selection </h4> {activePatient.insuranceType === InsuranceType.NHIF && <label className="flex items-center gap-3 bg-emerald-50 px-4 py-2 rounded-2xl border border-emerald-100 cursor-pointer"> <span className="text-[10px] font-black text-emerald-700 uppercase tracking-widest">Apply NHIF Frame Allowance</span> <input type="checkbox" checked={claimFrameNHIF} onChange={(e) => setClaimFrameNHIF(e.target.checked)} className="w-5 h-5 rounded-lg text-emerald-600" /> </label>} </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                   <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Frame Serial/Description</label> <input type="text" value={frameDetails} onChange={(e) => setFrameDetails(e.target.value)} placeholder="Enter Frame Details" className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl font-bold text-sm outline-none focus:border-emerald-500" /> </div>
                   <div className="space-y-4"> <div className="space-y-2"> <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Retail Price (TZS)</label> <input type="number" value={framePrice === 0 ? '' : framePrice} onChange={(e) => setFramePrice(parseFloat(e.target.value) || 0)} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl font-black text-sm outline-none" /> </div> </div>
@@ -339,8 +559,18 @@ const OpticalDispensing: React.FC = () => {
             <div className="p-8 bg-slate-950 border-t border-slate-800 text-white">
               <div className="flex justify-between items-end">
                 <div> <p className="text-[10px] font-black text-blue-400 uppercase tracking-widest mb-1">Final Balance (Unified Billing)</p> <span className="text-4xl font-black tracking-tighter">TZS {pricingSummary.netPayable.toLocaleString()}</span> </div>
-                <div className="text-right text-[10px] font-bold text-slate-500 uppercase tracking-widest"> {activePatient.insuranceType} Coverage Applied: TZS {pricingSummary.nhifDeduction.toLocaleString()} </div>
+                <div className="text-right text-[10px] font-bold text-slate-500 uppercase tracking-widest"> {activeScheme ? activeScheme.name : activePatient.insuranceType} Coverage Applied: TZS {pricingSummary.insuranceDeduction.toLocaleString()} </div>
               </div>
+              {pricingSummary.benefitLines.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-slate-800 space-y-1">
+                  {pricingSummary.benefitLines.map(line => (
+                    <div key={line.itemId} className="flex justify-between text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                      <span>{line.description}{line.note ? ` · ${line.note}` : ''}</span>
+                      <span>Insurer {line.covered.toLocaleString()} · Patient {line.patientPays.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
           </>
@@ -348,6 +578,8 @@ const OpticalDispensing: React.FC = () => {
           <div className="flex-1 flex flex-col items-center justify-center bg-white rounded-[3rem] border border-dashed border-slate-200 p-12 text-center"> <div className="w-28 h-28 bg-slate-50 rounded-[2.5rem] flex items-center justify-center mb-8"> <i className="fas fa-glasses text-5xl text-slate-200"></i> </div> <h3 className="text-2xl font-black text-slate-900 mb-3 tracking-tight">Optical Fitting Workspace</h3> <p className="text-slate-400 max-w-sm font-medium uppercase text-[10px] tracking-widest">Select a patient order from the left to start fitting.</p> </div>
         )}
       </div>
+
+      <ThermalPrintPreview preview={printPreview} onClose={() => setPrintPreview(null)} />
     </div>
   );
 };
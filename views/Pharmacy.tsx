@@ -1,26 +1,34 @@
 
-import React, { useState, useEffect } from 'react';
-import { PatientStatus, Medication, BillItem, InsuranceType } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { PatientStatus, Medication, BillItem, InsuranceType, InsuranceProvider, StockAllocation } from '../types';
 import { usePatients } from '../contexts/PatientContext';
+import { useTariffs } from '../contexts/TariffContext';
 import { useToast } from '../components/Toast';
 import { generateBillItemId } from '../utils/idGenerator';
 import { isInsuranceEligible } from '../utils/patientUtils';
-import { createBillItem } from '../services/patientService';
+import { getPatientPayer } from '../utils/tariffUtils';
 import NHIFVerificationBadge from '../components/NHIFVerificationBadge';
 import { getPatientVisit } from '../services/nhifService';
 import { canDispenseMedications } from '../utils/nhifGating';
 import { logCriticalOperation } from '../services/auditLogService';
+import { adjustStock, dispenseStock } from '../services/inventoryService';
+import PharmacyInventory from '../components/PharmacyInventory';
+import { STOCK_ALERTS } from '../constants';
 
 const Pharmacy: React.FC = () => {
   const { patients, updatePatient, refreshPatient, useApi } = usePatients();
   const { success: showSuccess, error: showError } = useToast();
+  const { getTariff, priceFor } = useTariffs();
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [dispensingItems, setDispensingItems] = useState<{ med: Medication; qty: number }[]>([]);
   const [isDispensing, setIsDispensing] = useState(false);
   const [medications, setMedications] = useState<Medication[]>([]);
+  const [activeTab, setActiveTab] = useState<'dispensing' | 'inventory'>('dispensing');
 
   const activePatient = patients.find(p => p.id === selectedId);
+  const [currentVisitId, setCurrentVisitId] = useState<string | null>(null);
+  const [nhifGateResult, setNhifGateResult] = useState<{ allowed: boolean; reason?: string } | null>(null);
   const pharmacyQueue = patients.filter(p => 
     p.status === PatientStatus.PENDING_TREATMENT || 
     p.status === PatientStatus.IN_PHARMACY || 
@@ -28,19 +36,20 @@ const Pharmacy: React.FC = () => {
   );
 
   // Load medications from API
+  const loadMedications = useCallback(async () => {
+    try {
+      const { getMedications } = await import('../services/medicationService');
+      const meds = await getMedications({ search: searchTerm });
+      setMedications(meds);
+    } catch (error) {
+      console.error('Failed to load medications:', error);
+      setMedications([]);
+    }
+  }, [searchTerm]);
+
   useEffect(() => {
-    const loadMedications = async () => {
-      try {
-        const { getMedications } = await import('../services/medicationService');
-        const meds = await getMedications({ search: searchTerm });
-        setMedications(meds);
-      } catch (error) {
-        console.error('Failed to load medications:', error);
-        setMedications([]);
-      }
-    };
     loadMedications();
-  }, [searchTerm]);
+  }, [loadMedications]);
 
   // Refresh patient data when selected
   useEffect(() => {
@@ -51,15 +60,73 @@ const Pharmacy: React.FC = () => {
     }
   }, [selectedId, refreshPatient]);
 
+  // The visit being dispensed against, and for NHIF patients whether dispensing is allowed yet
+  useEffect(() => {
+    setNhifGateResult(null);
+    if (!activePatient) {
+      setCurrentVisitId(null);
+      return;
+    }
+    setCurrentVisitId(activePatient.visitId ?? null);
+    getPatientVisit(activePatient.id)
+      .then((result) => {
+        if (result.success && result.visit) {
+          setCurrentVisitId(result.visit.id);
+          if (activePatient.insuranceType === InsuranceType.NHIF) {
+            canDispenseMedications(result.visit.id).then((gateResult) => {
+              setNhifGateResult(gateResult);
+            });
+          }
+        }
+      })
+      .catch(() => {
+        // Visit might not exist yet
+      });
+  }, [activePatient?.id]);
+
+  /**
+   * Put dispensed stock back on its batches when the dispense could not be billed
+   */
+  const restoreStock = async (allocations: StockAllocation[], patientName: string): Promise<boolean> => {
+    let restored = true;
+    for (const allocation of allocations) {
+      const result = await adjustStock({
+        batchId: allocation.batchId,
+        quantity: allocation.quantity,
+        reason: 'OTHER',
+        notes: `Dispense for ${patientName} reversed: billing failed`,
+      });
+      if (!result.success) {
+        console.error('Failed to restore stock for batch', allocation.batchNo, result.error);
+        restored = false;
+      }
+    }
+    return restored;
+  };
+
   const filteredMeds = medications.filter(m => m.name.toLowerCase().includes(searchTerm.toLowerCase()));
 
+  // Unit price from the patient's payer tariff; undefined while the medication has no current price
+  const unitPrice = (med: Medication): number | undefined => {
+    if (!med.tariffCode) return undefined;
+    return priceFor(med.tariffCode, activePatient ? getPatientPayer(activePatient) : 'CASH')
+      ?? priceFor(med.tariffCode, 'CASH');
+  };
+
+  const formatUnitPrice = (med: Medication): string => {
+    const price = unitPrice(med);
+    return price === undefined ? 'No price' : `TZS ${price.toLocaleString()}`;
+  };
+
+  const dispensingTotal = dispensingItems.reduce((sum, item) => sum + (unitPrice(item.med) ?? 0) * item.qty, 0);
+
   const handleAddToDispense = (med: Medication) => {
     if (dispensingItems.find(i => i.med.id === med.id)) return;
     setDispensingItems([...dispensingItems, { med, qty: 1 }]);
   };
 
   const updateQty = (id: string, delta: number) => {
-    setDispensingItems(prev => prev.map(item => item.med.id === id ? { ...item, qty: Math.max(1, item.qty + delta) } : item));
+    setDispensingItems(prev => prev.map(item => item.med.id === id ? { ...item, qty: Math.min(item.med.stock, Math.max(1, item.qty + delta)) } : item));
   };
 
   const handleCompleteDispensing = async () => {
@@ -68,8 +135,13 @@ const Pharmacy: React.FC = () => {
       return;
     }
 
-    const totalAmount = dispensingItems.reduce((sum, item) => sum + (item.med.price * item.qty), 0);
-    if (!confirm(`Are you sure you want to complete dispensing for ${activePatient.name}? Total amount: TZS ${totalAmount.toLocaleString()}. This will route the patient to billing.`)) {
+    const unpriced = dispensingItems.filter(item => unitPrice(item.med) === undefined);
+    if (unpriced.length > 0) {
+      showError(`No current price for ${unpriced.map(item => item.med.name).join(', ')}. Ask an administrator to set it in Settings > Price List.`);
+      return;
+    }
+
+    if (!confirm(`Are you sure you want to complete dispensing for ${activePatient.name}? Total amount: TZS ${dispensingTotal.toLocaleString()}. This will route the patient to billing.`)) {
       return;
     }
 
@@ -83,31 +155,38 @@ const Pharmacy: React.FC = () => {
     }
 
     setIsDispensing(true);
+    let allocations: StockAllocation[] = [];
     try {
+      // Deduct stock (first expiry first out) before billing so a short line stops the dispense
+      if (useApi) {
+        const stockResult = await dispenseStock(
+          activePatient.id,
+          dispensingItems.map(item => ({ medicationId: item.med.id, quantity: item.qty })),
+          currentVisitId ?? undefined
+        );
+        if (!stockResult.success) {
+          showError(stockResult.error || 'Failed to update pharmacy stock');
+          return;
+        }
+        allocations = stockResult.allocations || [];
+      }
+
+      // NHIF covers a medication only while it has an NHIF price
       const newBillItems: BillItem[] = dispensingItems.map(item => ({
         id: generateBillItemId(),
         description: `${item.med.name} (${item.med.dosage}) x${item.qty}`,
-        amount: item.med.price * item.qty,
+        amount: (unitPrice(item.med) ?? 0) * item.qty,
         category: 'PHARMACY',
-        isCoveredByNHIF: item.med.isCoveredByNHIF,
-        isCoveredByPrivate: item.med.isCoveredByPrivate
+        isCoveredByNHIF: priceFor(item.med.tariffCode!, InsuranceProvider.NHIF) !== undefined,
+        isCoveredByPrivate: item.med.isCoveredByPrivate,
+        nhifItemCode: getTariff(item.med.tariffCode!)?.nhifItemCode,
+        tariffCode: item.med.tariffCode
       }));
 
-      // Create bill items via API if available
-      if (useApi) {
-        try {
-          // Create bill items individually via API
-          for (const item of newBillItems) {
-            await createBillItem(activePatient.id, item);
-          }
-        } catch (apiError) {
-          console.warn('Failed to create bill items via API, falling back to update:', apiError);
-        }
-      }
-
-      // Update patient status and bill items
+      // Update patient status and bill items on the active visit
       const result = await updatePatient(activePatient.id, {
         status: PatientStatus.PENDING_BILLING,
+        visitId: currentVisitId ?? undefined,
         billItems: [...(activePatient.billItems || []), ...newBillItems]
       });
 
@@ -120,19 +199,28 @@ const Pharmacy: React.FC = () => {
           {
             patientName: activePatient.name,
             itemCount: dispensingItems.length,
-            totalAmount: totalAmount,
+            totalAmount: dispensingTotal,
           }
         );
 
         // Refresh patient data to get updated bill items
         await refreshPatient(activePatient.id);
+        loadMedications();
         showSuccess(`Medications dispensed successfully. ${activePatient.name} routed to billing.`);
         setSelectedId(null);
         setDispensingItems([]);
       } else {
-        showError(result.error ?? 'Failed to record dispensing');
+        const restored = await restoreStock(allocations, activePatient.name);
+        loadMedications();
+        showError(restored
+          ? `${result.error ?? 'Failed to record dispensing'}. Stock has been put back.`
+          : `${result.error ?? 'Failed to record dispensing'}. Stock could not be put back; check the stock ledger.`);
       }
     } catch (error) {
+      if (allocations.length > 0) {
+        await restoreStock(allocations, activePatient.name);
+        loadMedications();
+      }
       showError('An error occurred while processing dispensing');
       console.error('Dispensing error:', error);
     } finally {
@@ -141,6 +229,25 @@ const Pharmacy: React.FC = () => {
   };
 
   return (
+    <div className="flex flex-col gap-6 h-full">
+      <div className="flex gap-2">
+        {([
+          { id: 'dispensing', label: 'Dispensing', icon: 'fa-prescription-bottle-alt' },
+          { id: 'inventory', label: 'Inventory', icon: 'fa-boxes' },
+        ] as const).map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === tab.id ? 'bg-emerald-600 text-white shadow-md' : 'bg-white text-slate-500 border border-slate-200 hover:border-emerald-300'}`}
+          >
+            <i className={`fas ${tab.icon} mr-2`}></i>{tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'inventory' ? (
+        <PharmacyInventory medications={medications} onStockChanged={loadMedications} />
+      ) : (
     <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 h-full">
       <div className="lg:col-span-1 flex flex-col gap-4 overflow-hidden">
         <h3 className="font-black text-slate-800 text-[10px] uppercase tracking-widest flex items-center justify-between px-2">Pharma Board <span className="bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full text-[10px]">{pharmacyQueue.length}</span></h3>
@@ -191,10 +298,11 @@ const Pharmacy: React.FC = () => {
               <div className="flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar">
                 {filteredMeds.map(med => {
                   const isEligible = activePatient ? isInsuranceEligible(med, activePatient.insuranceType) : false;
+                  const isLowStock = med.stock <= (med.reorderLevel ?? STOCK_ALERTS.DEFAULT_REORDER_LEVEL);
                   return (
                     <div key={med.id} className="p-4 bg-white border border-slate-100 rounded-3xl hover:border-emerald-200 hover:shadow-md transition-all group flex items-center justify-between">
                       <div className="flex items-center gap-4">
-                        <div className={`w-12 h-12 rounded-2xl flex items-center justify-center text-lg ${med.stock < 10 ? 'bg-red-50 text-red-500' : 'bg-emerald-50 text-emerald-500'}`}> <i className={`fas ${med.form === 'Drops' ? 'fa-eye-dropper' : 'fa-capsules'}`}></i> </div>
+                        <div className={`w-12 h-12 rounded-2xl flex items-center justify-center text-lg ${isLowStock ? 'bg-red-50 text-red-500' : 'bg-emerald-50 text-emerald-500'}`}> <i className={`fas ${med.form === 'Drops' ? 'fa-eye-dropper' : 'fa-capsules'}`}></i> </div>
                         <div>
                           <h5 className="text-sm font-black text-slate-800">{med.name}</h5>
                           <div className="flex gap-2 items-center">
@@ -204,7 +312,7 @@ const Pharmacy: React.FC = () => {
                         </div>
                       </div>
                       <div className="text-right flex items-center gap-4">
-                        <div className="mr-2"> <p className="text-sm font-black text-slate-900">TZS {med.price.toLocaleString()}</p> <p className={`text-[10px] font-bold ${med.stock < 10 ? 'text-red-500' : 'text-slate-400'}`}>Qty: {med.stock}</p> </div>
+                        <div className="mr-2"> <p className="text-sm font-black text-slate-900">{formatUnitPrice(med)}</p> <p className={`text-[10px] font-bold ${isLowStock ? 'text-red-500' : 'text-slate-400'}`}>Qty: {med.stock}</p> </div>
                         <button onClick={() => handleAddToDispense(med)} disabled={med.stock <= 0} className="w-10 h-10 bg-emerald-50 text-emerald-600 rounded-2xl hover:bg-emerald-600 hover:text-white transition-all flex items-center justify-center group"> <i className="fas fa-plus text-emerald-600 group-hover:text-white"></i> </button>
                       </div>
                     </div>
@@ -221,7 +329,7 @@ const Pharmacy: React.FC = () => {
               <div className="flex-1 overflow-y-auto space-y-4 mb-6 pr-2 custom-scrollbar">
                 {dispensingItems.map(item => (
                   <div key={item.med.id} className="bg-white/5 p-4 rounded-3xl border border-white/5 flex items-center justify-between">
-                    <div> <p className="text-sm font-bold text-white">{item.med.name}</p> <p className="text-[10px] text-white/40">TZS {item.med.price.toLocaleString()} x {item.qty}</p> </div>
+                    <div> <p className="text-sm font-bold text-white">{item.med.name}</p> <p className="text-[10px] text-white/40">{formatUnitPrice(item.med)} x {item.qty}</p> </div>
                     <div className="flex items-center gap-3">
                       <button onClick={() => updateQty(item.med.id, -1)} className="w-8 h-8 rounded-xl bg-white/5 hover:bg-white/10 flex items-center justify-center"> <i className="fas fa-minus text-[10px] text-white"></i> </button>
                       <span className="font-black w-4 text-center text-white">{item.qty}</span>
@@ -241,7 +349,7 @@ const Pharmacy: React.FC = () => {
                 ))}
               </div>
               <div className="space-y-4 pt-6 border-t border-white/10">
-                <div className="flex justify-between items-center"> <span className="text-sm font-black uppercase tracking-widest text-slate-400">Net Total</span> <span className="text-2xl font-black text-emerald-400"> TZS {dispensingItems.reduce((acc, curr) => acc + (curr.med.price * curr.qty), 0).toLocaleString()} </span> </div>
+                <div className="flex justify-between items-center"> <span className="text-sm font-black uppercase tracking-widest text-slate-400">Net Total</span> <span className="text-2xl font-black text-emerald-400"> TZS {dispensingTotal.toLocaleString()} </span> </div>
                 <button 
                   onClick={handleCompleteDispensing} 
                   disabled={dispensingItems.length === 0 || isDispensing} 
@@ -262,6 +370,8 @@ const Pharmacy: React.FC = () => {
         )}
       </div>
     </div>
+      )}
+    </div>
   );
 };
 
@@ -1,24 +1,35 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { InsuranceType, PatientStatus, InsuranceProvider, AppointmentType, AppointmentPriority, Patient, VisitType, AuthorizationStatus } from '../types';
+import { InsuranceType, PatientStatus, InsuranceProvider, AppointmentType, AppointmentPriority, Patient, VisitType, AuthorizationStatus, InsuranceScheme, Appointment } from '../types';
 import { usePatients } from '../contexts/PatientContext';
 import { useToast } from '../components/Toast';
 import { useAuth } from '../contexts/AuthContext';
+import { useTariffs } from '../contexts/TariffContext';
+import { useSettings } from '../contexts/SettingsContext';
 import * as patientService from '../services/patientService';
 import { sanitizeInput, validatePhone, validateDateOfBirth, validateName } from '../utils/validation';
 import { generateAuthNumber, generatePatientId } from '../utils/idGenerator';
-import { INSURANCE_PROVIDERS, HOSPITAL_PRICING } from '../constants';
+import { INSURANCE_PROVIDERS } from '../constants';
 import { getProvidersForScheduling } from '../services/providerService';
 import { syncProvidersFromUsers } from '../services/userService';
 import { getCurrentDate, getNextAvailableTime, formatDate, formatTime } from '../utils/dateTimeUtils';
 import { verifyNHIF, createVisit, getPatientVisit } from '../services/nhifService';
+import { getInsuranceSchemes } from '../services/insuranceSchemeService';
+import { getPatientAppointments, checkInAppointment } from '../services/appointmentService';
+import { isActiveAppointment } from '../utils/appointmentUtils';
+import { isThermalPrinting, printThermal } from '../services/printService';
+import { buildQueueTicket } from '../utils/thermalUtils';
+import { getQueueTokenNumber } from '../utils/patientUtils';
+import ThermalPrintPreview from '../components/ThermalPrintPreview';
 
 type RegistrationStep = 'category' | 'patient-details' | 'insurance' | 'appointment' | 'billing-preview' | 'complete';
 
 const Registration: React.FC = () => {
-  const { addPatient, updatePatient, patients, getPatient } = usePatients();
+  const { addPatient, updatePatient, patients, getPatient, useApi } = usePatients();
   const { success: showSuccess, error: showError } = useToast();
   const { user } = useAuth();
+  const { getTariff, priceFor } = useTariffs();
+  const { workingHours } = useSettings();
   
   const [currentStep, setCurrentStep] = useState<RegistrationStep>('category');
   const [isVerifying, setIsVerifying] = useState(false);
@@ -35,7 +46,10 @@ const Registration: React.FC = () => {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [printPreview, setPrintPreview] = useState<string | null>(null);
   const [savedPatient, setSavedPatient] = useState<Patient | null>(null);
+  const [schemes, setSchemes] = useState<InsuranceScheme[]>([]);
+  const [bookedAppointments, setBookedAppointments] = useState<Appointment[]>([]);
   
   const [formData, setFormData] = useState({
     // Category
@@ -50,6 +64,7 @@ const Registration: React.FC = () => {
     
     // Insurance
     insuranceProvider: '' as InsuranceProvider | '',
+    insuranceSchemeId: '',
     insuranceNumber: '',
     nhifAuthNumber: '',
     visitTypeId: VisitType.NORMAL as VisitType,
@@ -97,6 +112,28 @@ const Registration: React.FC = () => {
     loadDoctors();
   }, []);
 
+  useEffect(() => {
+    getInsuranceSchemes().then(result => {
+      if (result.success) setSchemes(result.schemes || []);
+    });
+  }, []);
+
+  // A returning patient's bookings: their no-show record, and today's booking to check in against
+  useEffect(() => {
+    if (!selectedPatientId) {
+      setBookedAppointments([]);
+      return;
+    }
+    getPatientAppointments(selectedPatientId).then(result => {
+      setBookedAppointments(result.success ? result.appointments || [] : []);
+    });
+  }, [selectedPatientId]);
+
+  const noShowCount = bookedAppointments.filter(a => a.status === 'NO_SHOW').length;
+  const todaysBooking = bookedAppointments.find(a =>
+    a.appointmentDate === getCurrentDate() && !a.checkedInAt && (isActiveAppointment(a) || a.status === 'NO_SHOW')
+  );
+
   // Calculate age from date of birth
   const calculatedAge = useMemo(() => {
     if (!formData.dob) return null;
@@ -114,11 +151,28 @@ const Registration: React.FC = () => {
   const billingPreview = useMemo(() => {
     if (formData.patientCategory !== 'CASH') return null;
     const total = formData.selectedServices.reduce((sum, service) => {
-      const price = HOSPITAL_PRICING[service as keyof typeof HOSPITAL_PRICING] || 0;
+      const price = priceFor(service, 'CASH') || 0;
       return sum + price;
     }, 0);
     return total;
-  }, [formData.selectedServices, formData.patientCategory]);
+  }, [formData.selectedServices, formData.patientCategory, priceFor]);
+
+  // Selected services without a current cash price in the tariff master
+  const unpricedServices = formData.patientCategory === 'CASH'
+    ? formData.selectedServices.filter(service => priceFor(service, 'CASH') === undefined)
+    : [];
+
+  const getServiceName = (service: string) => getTariff(service)?.name || service.replace(/_/g, ' ');
+
+  // Bill items for the selected services, priced from the cash tariff
+  const buildServiceBillItems = () => formData.selectedServices.map((service, index) => ({
+    id: `BILL-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
+    description: getServiceName(service),
+    amount: priceFor(service, 'CASH') || 0,
+    category: 'CLINICAL' as const,
+    isCoveredByNHIF: false,
+    nhifItemCode: getTariff(service)?.nhifItemCode,
+  }));
 
   // Auto-populate appointment date and time when appointment step is reached
   useEffect(() => {
@@ -126,7 +180,7 @@ const Registration: React.FC = () => {
       setFormData(prev => ({
         ...prev,
         appointmentDate: prev.appointmentDate || getCurrentDate(),
-        appointmentTime: prev.appointmentTime || getNextAvailableTime(),
+        appointmentTime: prev.appointmentTime || getNextAvailableTime(workingHours),
       }));
     }
   }, [currentStep]);
@@ -269,7 +323,7 @@ const Registration: React.FC = () => {
       setFormData({
         ...formData,
         appointmentDate: getCurrentDate(),
-        appointmentTime: getNextAvailableTime(),
+        appointmentTime: getNextAvailableTime(workingHours),
       });
       setCurrentStep('appointment');
     }
@@ -358,6 +412,10 @@ const Registration: React.FC = () => {
       showError('Appointment date is required');
       return;
     }
+    if (unpricedServices.length > 0) {
+      showError(`No current cash price for ${unpricedServices.map(getServiceName).join(', ')}. Ask an administrator to set it in Settings > Price List.`);
+      return;
+    }
     if (!formData.appointmentTime) {
       showError('Appointment time is required');
       return;
@@ -384,16 +442,35 @@ const Registration: React.FC = () => {
         status: 'SCHEDULED' as const,
       };
 
+      // Every check-in opens its own visit (NHIF verification may already have opened it)
+      // so the encounter recorded in Clinical has somewhere to go
+      let visitId = currentVisitId;
+      if (useApi && !visitId) {
+        const visitResult = await createVisit(
+          existingPatient.id,
+          formData.patientCategory === 'INSURANCE' ? 'INSURANCE' : 'CASH',
+          formData.patientCategory === 'INSURANCE' ? formData.insuranceProvider : undefined
+        );
+        if (!visitResult.success || !visitResult.visitId) {
+          showError(`Could not open a visit for this check-in: ${visitResult.error || 'unknown error'}. Please try again.`);
+          return;
+        }
+        visitId = visitResult.visitId;
+        setCurrentVisitId(visitResult.visitId);
+      }
+
       const updateData: Partial<Patient> = {
         status: PatientStatus.WAITING,
         checkedInAt: new Date().toISOString(), // Update check-in time
         appointment: updatedAppointment,
+        visitId: visitId ?? undefined,
       };
 
       // Always sync insurance from current category (fix: cash patients were left as NHIF)
       if (formData.patientCategory === 'CASH') {
         updateData.insuranceType = InsuranceType.CASH;
         updateData.insuranceProvider = null as unknown as InsuranceProvider; // explicit null so API clears DB
+        updateData.insuranceSchemeId = '';
         updateData.insuranceNumber = '';
         updateData.nhifAuthNumber = '';
       } else {
@@ -402,6 +479,7 @@ const Registration: React.FC = () => {
           : InsuranceType.PRIVATE;
         updateData.insuranceProvider = formData.insuranceProvider as InsuranceProvider;
         updateData.insuranceProviderName = formData.insuranceProvider;
+        updateData.insuranceSchemeId = updateData.insuranceType === InsuranceType.PRIVATE ? formData.insuranceSchemeId : '';
         updateData.insuranceNumber = formData.insuranceNumber || undefined;
         updateData.nhifAuthNumber = formData.insuranceProvider === InsuranceProvider.NHIF 
           ? formData.nhifAuthNumber || undefined 
@@ -415,13 +493,7 @@ const Registration: React.FC = () => {
 
       // Add bill items for cash patients
       if (formData.patientCategory === 'CASH' && formData.selectedServices.length > 0) {
-        updateData.billItems = formData.selectedServices.map((service, index) => ({
-          id: `BILL-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
-          description: service.replace(/_/g, ' '),
-          amount: HOSPITAL_PRICING[service as keyof typeof HOSPITAL_PRICING] || 0,
-          category: 'CLINICAL' as const,
-          isCoveredByNHIF: false,
-        }));
+        updateData.billItems = buildServiceBillItems();
       }
 
       try {
@@ -433,6 +505,13 @@ const Registration: React.FC = () => {
             setSavedPatient(updatedPatient);
             setCurrentStep('complete');
             showSuccess(`Returning patient "${updatedPatient.name}" (ID: ${updatedPatient.id}) - Appointment scheduled successfully!`);
+
+            if (todaysBooking) {
+              const checkIn = await checkInAppointment(todaysBooking.id);
+              if (!checkIn.success) {
+                showError(`Could not check in the ${formatTime(todaysBooking.appointmentTime)} booking: ${checkIn.error}`);
+              }
+            }
             
             // Reset form after 5 seconds
             setTimeout(() => {
@@ -445,6 +524,7 @@ const Registration: React.FC = () => {
                 address: '',
                 gender: 'Male',
                 insuranceProvider: '' as InsuranceProvider | '',
+                insuranceSchemeId: '',
                 insuranceNumber: '',
                 nhifAuthNumber: '',
                 appointmentType: '' as AppointmentType | '',
@@ -458,6 +538,7 @@ const Registration: React.FC = () => {
               setVerificationError('');
               setSearchTerm('');
               setSelectedPatientId(null);
+              setCurrentVisitId(null);
               setSavedPatient(null);
             }, 5000);
           }
@@ -505,17 +586,14 @@ const Registration: React.FC = () => {
                      (formData.insuranceProvider === InsuranceProvider.NHIF ? InsuranceType.NHIF : InsuranceType.PRIVATE),
       insuranceProvider: formData.patientCategory === 'INSURANCE' ? formData.insuranceProvider as InsuranceProvider : undefined,
       insuranceProviderName: formData.patientCategory === 'INSURANCE' ? formData.insuranceProvider : undefined,
+      insuranceSchemeId: formData.patientCategory === 'INSURANCE' && formData.insuranceProvider !== InsuranceProvider.NHIF
+        ? formData.insuranceSchemeId || undefined
+        : undefined,
       insuranceNumber: formData.patientCategory === 'INSURANCE' ? formData.insuranceNumber : undefined,
       nhifAuthNumber: formData.insuranceProvider === InsuranceProvider.NHIF ? formData.nhifAuthNumber : undefined,
       status: PatientStatus.WAITING,
       checkedInAt: new Date().toISOString(), // Auto-generated timestamp
-      billItems: formData.patientCategory === 'CASH' ? formData.selectedServices.map((service, index) => ({
-        id: `BILL-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
-        description: service.replace(/_/g, ' '),
-        amount: HOSPITAL_PRICING[service as keyof typeof HOSPITAL_PRICING] || 0,
-        category: 'CLINICAL' as const,
-        isCoveredByNHIF: false,
-      })) : [],
+      billItems: formData.patientCategory === 'CASH' ? buildServiceBillItems() : [],
       chiefComplaint: '',
       appointment: {
         id: `APT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -534,12 +612,12 @@ const Registration: React.FC = () => {
       const result = await addPatient(patientData);
       
       if (result.success && result.patient) {
-        // Create visit for insurance patients (if not already created)
-        if (formData.patientCategory === 'INSURANCE' && !currentVisitId) {
+        // Every registration opens a visit so the encounter has its own record
+        if (!currentVisitId) {
           const visitResult = await createVisit(
             result.patient.id,
-            'INSURANCE',
-            formData.insuranceProvider
+            formData.patientCategory === 'INSURANCE' ? 'INSURANCE' : 'CASH',
+            formData.patientCategory === 'INSURANCE' ? formData.insuranceProvider : undefined
           );
           if (visitResult.success && visitResult.visitId) {
             setCurrentVisitId(visitResult.visitId);
@@ -577,6 +655,7 @@ const Registration: React.FC = () => {
             address: '',
             gender: 'Male',
             insuranceProvider: '' as InsuranceProvider | '',
+            insuranceSchemeId: '',
             insuranceNumber: '',
             nhifAuthNumber: '',
             appointmentType: '' as AppointmentType | '',
@@ -590,6 +669,7 @@ const Registration: React.FC = () => {
           setVerificationError('');
           setSearchTerm('');
           setSelectedPatientId(null);
+          setCurrentVisitId(null);
           setSavedPatient(null);
         }, 5000);
       } else {
@@ -617,12 +697,14 @@ const Registration: React.FC = () => {
         insuranceProvider: keepCategory === 'INSURANCE' && patient.insuranceType !== InsuranceType.CASH
           ? (patient.insuranceProvider as InsuranceProvider) || ('' as InsuranceProvider)
           : ('' as InsuranceProvider),
+        insuranceSchemeId: keepCategory === 'INSURANCE' ? (patient.insuranceSchemeId || '') : '',
         insuranceNumber: keepCategory === 'INSURANCE' ? (patient.insuranceNumber || '') : '',
       };
       setFormData(keepCategory === 'CASH'
-        ? { ...base, appointmentDate: getCurrentDate(), appointmentTime: getNextAvailableTime() }
+        ? { ...base, appointmentDate: getCurrentDate(), appointmentTime: getNextAvailableTime(workingHours) }
         : base);
       setSelectedPatientId(patientId);
+      setCurrentVisitId(null);
       setSearchTerm('');
       setCurrentStep(keepCategory === 'CASH' ? 'appointment' : 'insurance');
     }
@@ -719,6 +801,9 @@ const Registration: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Queue ticket preview stays open after the completed registration resets the form */}
+        <ThermalPrintPreview preview={printPreview} onClose={() => setPrintPreview(null)} />
       </div>
     );
   }
@@ -879,7 +964,13 @@ const Registration: React.FC = () => {
                 required
                 value={formData.insuranceProvider}
                 onChange={(e) => {
-                  setFormData({ ...formData, insuranceProvider: e.target.value as InsuranceProvider, insuranceNumber: '', nhifAuthNumber: '' });
+                  setFormData({
+                    ...formData,
+                    insuranceProvider: e.target.value as InsuranceProvider,
+                    insuranceSchemeId: schemes.find(s => s.insurer === e.target.value)?.id || '',
+                    insuranceNumber: '',
+                    nhifAuthNumber: '',
+                  });
                   setIsVerified(false);
                   setVerificationError('');
                 }}
@@ -1110,6 +1201,22 @@ const Registration: React.FC = () => {
                   </>
                 )}
 
+                {formData.insuranceProvider !== InsuranceProvider.NHIF && (
+                  <div className="space-y-2">
+                    <label className="text-xs font-semibold text-slate-700">Benefit Scheme</label>
+                    <select
+                      value={formData.insuranceSchemeId}
+                      onChange={(e) => setFormData({ ...formData, insuranceSchemeId: e.target.value })}
+                      className="w-full h-12 px-4 bg-white border border-slate-200 rounded-xl text-sm font-normal focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none transition-all"
+                    >
+                      <option value="">-- Default cover --</option>
+                      {schemes.filter(s => s.insurer === formData.insuranceProvider).map(scheme => (
+                        <option key={scheme.id} value={scheme.id}>{scheme.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {formData.insuranceProvider !== InsuranceProvider.NHIF && (
                   <div className="p-4 bg-brand-primary-50 border border-brand-primary-100 rounded-xl">
                     <p className="text-xs text-brand-primary-dark">
@@ -1178,6 +1285,45 @@ const Registration: React.FC = () => {
           </div>
 
           <form onSubmit={(e) => { e.preventDefault(); handleAppointmentSubmit(); }} className="p-8 space-y-6">
+            {(todaysBooking || noShowCount > 0) && (
+              <div className="space-y-3">
+                {todaysBooking && (
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-xl bg-brand-primary-50 border border-brand-primary-100">
+                    <div>
+                      <p className="text-sm font-semibold text-slate-800">
+                        <i className="fas fa-calendar-check mr-2 text-brand-primary"></i>
+                        Booked today at {formatTime(todaysBooking.appointmentTime)}: {todaysBooking.appointmentType}
+                        {todaysBooking.providerName && ` with ${todaysBooking.providerName}`}
+                      </p>
+                      <p className="text-xs text-slate-500 mt-1">The booking is checked in when registration completes</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({
+                        ...formData,
+                        appointmentType: todaysBooking.appointmentType,
+                        appointmentDate: todaysBooking.appointmentDate,
+                        appointmentTime: todaysBooking.appointmentTime,
+                        priority: todaysBooking.priority,
+                        selectedServices: formData.patientCategory === 'CASH'
+                          ? [appointmentServiceMap[todaysBooking.appointmentType]]
+                          : formData.selectedServices,
+                      })}
+                      className="px-4 py-2 text-xs font-semibold text-white bg-brand-primary rounded-xl hover:bg-brand-primary-dark whitespace-nowrap"
+                    >
+                      Use Booking
+                    </button>
+                  </div>
+                )}
+                {noShowCount > 0 && (
+                  <p className="text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+                    <i className="fas fa-exclamation-triangle mr-2"></i>
+                    {noShowCount} missed appointment{noShowCount === 1 ? '' : 's'} (no-show) on record for this patient
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
               <div className="space-y-2 md:col-span-2">
                 <label className="text-xs font-semibold text-slate-700">Appointment Type</label>
@@ -1233,7 +1379,7 @@ const Registration: React.FC = () => {
                   Appointment Time
                   <button
                     type="button"
-                    onClick={() => setFormData({ ...formData, appointmentTime: getNextAvailableTime() })}
+                    onClick={() => setFormData({ ...formData, appointmentTime: getNextAvailableTime(workingHours) })}
                     className="text-xs text-brand-primary hover:text-brand-primary-dark font-semibold"
                     title="Set to next available time"
                   >
@@ -1332,11 +1478,15 @@ const Registration: React.FC = () => {
               <h4 className="text-sm font-semibold text-slate-700 mb-4">Selected Services</h4>
               <div className="space-y-3">
                 {formData.selectedServices.map(service => {
-                  const price = HOSPITAL_PRICING[service as keyof typeof HOSPITAL_PRICING] || 0;
+                  const price = priceFor(service, 'CASH');
                   return (
                     <div key={service} className="flex justify-between items-center p-3 bg-white rounded-lg border border-slate-200">
-                      <span className="text-sm font-medium text-slate-700">{service.replace(/_/g, ' ')}</span>
-                      <span className="text-sm font-semibold text-slate-900">TZS {price.toLocaleString()}</span>
+                      <span className="text-sm font-medium text-slate-700">{getServiceName(service)}</span>
+                      {price !== undefined ? (
+                        <span className="text-sm font-semibold text-slate-900">TZS {price.toLocaleString()}</span>
+                      ) : (
+                        <span className="text-xs font-semibold text-red-600">No price set</span>
+                      )}
                     </div>
                   );
                 })}
@@ -1369,6 +1519,18 @@ const Registration: React.FC = () => {
   }
 
   // Step 6: Complete
+  /**
+   * Print the patient's queue ticket on this workstation's thermal printer
+   */
+  const handlePrintQueueTicket = async (patient: Patient) => {
+    const result = await printThermal(buildQueueTicket(patient, getQueueTokenNumber(patients, patient.id)));
+    if (!result.success) {
+      showError(result.error || 'Failed to print queue ticket');
+    } else if (result.preview !== undefined) {
+      setPrintPreview(result.preview);
+    }
+  };
+
   if (currentStep === 'complete') {
     // Use saved patient or find it from patients list
     const displayPatient = savedPatient || (patients.length > 0 ? patients.find(p => 
@@ -1432,6 +1594,15 @@ const Registration: React.FC = () => {
               </div>
 
               <div className="flex gap-3 pt-4">
+                {isThermalPrinting() && (
+                  <button
+                    onClick={() => handlePrintQueueTicket(displayPatient)}
+                    className="px-6 h-12 bg-white border border-slate-200 text-slate-700 rounded-xl font-semibold text-sm hover:bg-slate-50 transition-all"
+                  >
+                    <i className="fas fa-ticket-alt mr-2"></i>
+                    Print Queue Ticket
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     setCurrentStep('category');
@@ -1443,6 +1614,7 @@ const Registration: React.FC = () => {
                       address: '',
                       gender: 'Male',
                       insuranceProvider: '' as InsuranceProvider | '',
+                      insuranceSchemeId: '',
                       insuranceNumber: '',
                       nhifAuthNumber: '',
                       appointmentType: '' as AppointmentType | '',
@@ -1456,6 +1628,7 @@ const Registration: React.FC = () => {
                     setVerificationError('');
                     setSearchTerm('');
                     setSelectedPatientId(null);
+                    setCurrentVisitId(null);
                   }}
                   className="flex-1 px-6 h-12 text-white rounded-xl font-semibold text-sm shadow-md transition-all"
                   style={{ backgroundColor: 'var(--brand-primary)' }}
@@ -1479,6 +1652,8 @@ const Registration: React.FC = () => {
             </div>
           )}
         </div>
+
+        <ThermalPrintPreview preview={printPreview} onClose={() => setPrintPreview(null)} />
       </div>
     );
   }
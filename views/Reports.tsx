@@ -3,12 +3,15 @@
  * Admin and Manager view for comprehensive system reports and analytics
  */
 
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { usePatients } from '../contexts/PatientContext';
-import { PatientStatus, InsuranceType } from '../types';
-import { calculateBillTotal, calculateInsuranceCoverage } from '../utils/patientUtils';
-import { formatDate, getCurrentDate } from '../utils/dateTimeUtils';
+import { PatientStatus, InsuranceType, BillAdjustment } from '../types';
+import { calculateBillTotal, calculateInsuranceCoverage, getBillableItems } from '../utils/patientUtils';
+import { formatDate, getCurrentDate, formatISODateTime } from '../utils/dateTimeUtils';
 import { exportToPDF, exportToExcel, exportToCSV, ExportData, formatCurrency, formatPercentage } from '../utils/exportUtils';
+import CashierShiftsReport from '../components/CashierShiftsReport';
+import NoShowReport from '../components/NoShowReport';
+import { getBillAdjustments } from '../services/billAdjustmentService';
 
 type ReportPeriod = 'today' | 'week' | 'month' | 'year' | 'custom';
 
@@ -54,11 +57,36 @@ const Reports: React.FC = () => {
     });
   }, [patients, dateRange]);
 
+  // Approved voids and credit notes in the period
+  const [adjustments, setAdjustments] = useState<BillAdjustment[]>([]);
+  useEffect(() => {
+    getBillAdjustments({
+      status: 'APPROVED',
+      from: dateRange.startDate.toISOString().split('T')[0],
+      to: dateRange.endDate.toISOString().split('T')[0],
+    }).then((result) => {
+      if (result.success) {
+        setAdjustments(result.adjustments || []);
+      } else {
+        console.warn('Bill adjustments unavailable:', result.error);
+      }
+    });
+  }, [dateRange]);
+
   // Calculate statistics
   const statistics = useMemo(() => {
+    // Voided items are already off the bill; credit notes come off revenue
+    const creditNotes = adjustments.filter(a => a.type === 'CREDIT_NOTE');
+    const creditedFor = (category: string) => creditNotes
+      .filter(a => a.category === category)
+      .reduce((sum, a) => sum + a.amount, 0);
+    const voidsTotal = adjustments.filter(a => a.type === 'VOID').reduce((sum, a) => sum + a.amount, 0);
+    const creditNotesTotal = creditNotes.reduce((sum, a) => sum + a.amount, 0);
+    const refundsTotal = creditNotes.reduce((sum, a) => sum + a.refundAmount, 0);
+
     const totalRevenue = filteredPatients.reduce((sum, p) => {
       return sum + calculateBillTotal(p.billItems);
-    }, 0);
+    }, 0) - creditNotesTotal;
 
     const insuranceCoverage = filteredPatients.reduce((sum, p) => {
       return sum + calculateInsuranceCoverage(p);
@@ -82,27 +110,30 @@ const Reports: React.FC = () => {
 
     // Revenue by category
     const clinicalRevenue = filteredPatients.reduce((sum, p) => {
-      return sum + p.billItems
+      return sum + getBillableItems(p.billItems)
         .filter(item => item.category === 'CLINICAL')
         .reduce((s, item) => s + item.amount, 0);
-    }, 0);
+    }, 0) - creditedFor('CLINICAL');
 
     const pharmacyRevenue = filteredPatients.reduce((sum, p) => {
-      return sum + p.billItems
+      return sum + getBillableItems(p.billItems)
         .filter(item => item.category === 'PHARMACY')
         .reduce((s, item) => s + item.amount, 0);
-    }, 0);
+    }, 0) - creditedFor('PHARMACY');
 
     const opticalRevenue = filteredPatients.reduce((sum, p) => {
-      return sum + p.billItems
+      return sum + getBillableItems(p.billItems)
         .filter(item => item.category === 'OPTICAL')
         .reduce((s, item) => s + item.amount, 0);
-    }, 0);
+    }, 0) - creditedFor('OPTICAL');
 
     return {
       totalRevenue,
       insuranceCoverage,
       netRevenue,
+      voidsTotal,
+      creditNotesTotal,
+      refundsTotal,
       totalPatients: filteredPatients.length,
       completedPatients,
       nhifPatients,
@@ -117,7 +148,7 @@ const Reports: React.FC = () => {
       opticalRevenue,
       averageBillAmount: filteredPatients.length > 0 ? totalRevenue / filteredPatients.length : 0,
     };
-  }, [filteredPatients]);
+  }, [filteredPatients, adjustments]);
 
   // Prepare export data
   const prepareExportData = (): ExportData => {
@@ -180,6 +211,9 @@ const Reports: React.FC = () => {
         { label: 'Total Revenue', value: formatCurrency(statistics.totalRevenue) },
         { label: 'Insurance Coverage', value: formatCurrency(statistics.insuranceCoverage) },
         { label: 'Net Revenue', value: formatCurrency(statistics.netRevenue) },
+        { label: 'Voided Items', value: formatCurrency(statistics.voidsTotal) },
+        { label: 'Credit Notes', value: formatCurrency(statistics.creditNotesTotal) },
+        { label: 'Refunds Paid', value: formatCurrency(statistics.refundsTotal) },
         { label: 'Average Bill Amount', value: formatCurrency(statistics.averageBillAmount) },
         { label: 'NHIF Patients', value: statistics.nhifPatients },
         { label: 'Private Insurance Patients', value: statistics.privatePatients },
@@ -205,6 +239,20 @@ const Reports: React.FC = () => {
             ['Optical Services', formatCurrency(statistics.opticalRevenue), formatPercentage(statistics.opticalRevenue, statistics.totalRevenue)],
           ],
         },
+        ...(adjustments.length > 0 ? [{
+          title: 'Voids & Credit Notes',
+          headers: ['Number', 'Type', 'Patient', 'Item', 'Amount', 'Refunded', 'Reason', 'Approved'],
+          rows: adjustments.map(a => [
+            a.adjustmentNumber,
+            a.type === 'VOID' ? 'Void' : 'Credit Note',
+            a.patientName || '',
+            a.description,
+            formatCurrency(a.amount),
+            formatCurrency(a.refundAmount),
+            a.reason,
+            a.decidedAt ? formatISODateTime(a.decidedAt) : '',
+          ]),
+        }] : []),
         ...(patientTableRows.length > 0 ? [{
           title: 'Patient Details',
           headers: ['Patient ID', 'Name', 'Gender', 'Check-in Date', 'Insurance', 'Status', 'Total Bill'],
@@ -528,6 +576,60 @@ const Reports: React.FC = () => {
         </div>
       </div>
 
+      {/* Voids & Credit Notes */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-sm font-normal text-slate-900 flex items-center gap-2">
+            <i className="fas fa-undo text-brand-primary"></i>
+            Voids &amp; Credit Notes
+          </h2>
+          <span className="text-xs font-normal text-slate-500">
+            Voided TZS {statistics.voidsTotal.toLocaleString()} · Credited TZS {statistics.creditNotesTotal.toLocaleString()} · Refunded TZS {statistics.refundsTotal.toLocaleString()}
+          </span>
+        </div>
+        {adjustments.length === 0 ? (
+          <p className="text-sm text-slate-500">No approved voids or credit notes in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                  <th className="py-2 pr-4">Number</th>
+                  <th className="py-2 pr-4">Patient</th>
+                  <th className="py-2 pr-4">Item</th>
+                  <th className="py-2 pr-4">Reason</th>
+                  <th className="py-2 pr-4 text-right">Amount</th>
+                  <th className="py-2 text-right">Refunded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {adjustments.map(a => (
+                  <tr key={a.id} className="border-b border-slate-100">
+                    <td className="py-3 pr-4">
+                      <span className="font-semibold text-slate-800">{a.adjustmentNumber}</span>
+                      <span className={`ml-2 text-xs px-2 py-0.5 rounded-lg font-semibold ${a.type === 'VOID' ? 'bg-red-100 text-red-700' : 'bg-purple-100 text-purple-700'}`}>
+                        {a.type === 'VOID' ? 'Void' : 'Credit'}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4 text-slate-600">{a.patientName || '-'}</td>
+                    <td className="py-3 pr-4 text-slate-600">{a.description}</td>
+                    <td className="py-3 pr-4 text-slate-600">{a.reason}</td>
+                    <td className="py-3 pr-4 text-right text-slate-800">TZS {a.amount.toLocaleString()}</td>
+                    <td className="py-3 text-right text-slate-600">{a.refundAmount > 0 ? `TZS ${a.refundAmount.toLocaleString()}` : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Cashier Shifts */}
+      <CashierShiftsReport startDate={dateRange.startDate} endDate={dateRange.endDate} />
+
+      {/* Appointment No-Shows */}
+      <NoShowReport startDate={dateRange.startDate} endDate={dateRange.endDate} />
+
       {/* Period Summary */}
       <div className="bg-gradient-to-r from-brand-primary to-brand-secondary rounded-2xl p-6 text-white">
         <div className="flex items-center justify-between">
@@ -3,24 +3,49 @@
  * Admin-only view for system configuration
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { SystemSettings as Settings } from '../types';
+import TariffManagement from '../components/TariffManagement';
+import InsuranceSchemeManagement from '../components/InsuranceSchemeManagement';
+import WorkstationPrinterSettings from '../components/WorkstationPrinterSettings';
+import { useSettings } from '../contexts/SettingsContext';
+import { useToast } from '../components/Toast';
+import { formatISODateTime } from '../utils/dateTimeUtils';
 
 const SystemSettings: React.FC = () => {
-  const [settings, setSettings] = useState({
-    clinicName: 'Msimbazi Eye Care',
-    clinicAddress: '',
-    clinicPhone: '',
-    clinicEmail: '',
-    workingHours: '08:00 - 17:00',
-    enableNotifications: true,
-    enableAuditLogging: true,
-  });
+  const { settings: savedSettings, saveSettings } = useSettings();
+  const { success: showSuccess, error: showError } = useToast();
+  const [settings, setSettings] = useState<Settings>(savedSettings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Show the saved values once they load (and after each save)
+  useEffect(() => {
+    setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { updatedAt, ...changes } = settings;
+      const result = await saveSettings(changes);
+      if (result.success) {
+        showSuccess('Settings saved');
+      } else {
+        showError(result.error || 'Failed to save settings');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-base font-bold text-slate-900">System Settings</h1>
-        <p className="text-sm text-slate-500 font-medium mt-1">Configure system-wide settings</p>
+        <p className="text-sm text-slate-500 font-medium mt-1">
+          Configure system-wide settings
+          {savedSettings.updatedAt && ` · last saved ${formatISODateTime(savedSettings.updatedAt)}`}
+        </p>
       </div>
 
       {/* Clinic Information */}
@@ -39,6 +64,16 @@ const SystemSettings: React.FC = () => {
               className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
             />
           </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600 mb-2 block">Tagline</label>
+            <input
+              type="text"
+              value={settings.clinicTagline}
+              onChange={(e) => setSettings({...settings, clinicTagline: e.target.value})}
+              placeholder="Printed under the clinic name on documents"
+              className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+            />
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="text-xs font-semibold text-slate-600 mb-2 block">Phone Number</label>
@@ -71,6 +106,27 @@ const SystemSettings: React.FC = () => {
               className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
             />
           </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-2 block">Opens</label>
+              <input
+                type="time"
+                value={settings.workingHoursStart}
+                onChange={(e) => setSettings({...settings, workingHoursStart: e.target.value})}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-600 mb-2 block">Closes</label>
+              <input
+                type="time"
+                value={settings.workingHoursEnd}
+                onChange={(e) => setSettings({...settings, workingHoursEnd: e.target.value})}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">Name, tagline and contact details are printed on receipts, invoices and reports; appointment times are suggested within working hours.</p>
         </div>
       </div>
 
@@ -98,7 +154,7 @@ const SystemSettings: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-semibold text-slate-900">Audit Logging</p>
-              <p className="text-xs text-slate-500 mt-1">Track all system activities</p>
+              <p className="text-xs text-slate-500 mt-1">Track all system activities (payments, approvals and settings changes are always recorded)</p>
             </div>
             <label className="relative inline-flex items-center cursor-pointer">
               <input
@@ -114,11 +170,17 @@ const SystemSettings: React.FC = () => {
       </div>
 
       <div className="flex justify-end gap-3">
-        <button className="px-6 py-3 bg-slate-100 text-slate-700 rounded-xl font-semibold text-sm hover:bg-slate-200 transition-all">
+        <button
+          onClick={() => setSettings(savedSettings)}
+          disabled={isSaving}
+          className="px-6 py-3 bg-slate-100 text-slate-700 rounded-xl font-semibold text-sm hover:bg-slate-200 transition-all disabled:opacity-50"
+        >
           Cancel
         </button>
         <button 
-          className="px-6 py-3 text-white rounded-xl font-semibold text-sm transition-all"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-6 py-3 text-white rounded-xl font-semibold text-sm transition-all disabled:opacity-50"
           style={{ backgroundColor: 'var(--brand-primary)' }}
           onMouseEnter={(e) => {
             e.currentTarget.style.backgroundColor = 'var(--brand-primary-dark)';
@@ -127,9 +189,15 @@ const SystemSettings: React.FC = () => {
             e.currentTarget.style.backgroundColor = 'var(--brand-primary)';
           }}
         >
-          Save Changes
+          {isSaving ? 'Saving...' : 'Save Changes'}
         </button>
       </div>
+
+      <WorkstationPrinterSettings />
+
+      <TariffManagement />
+
+      <InsuranceSchemeManagement />
     </div>
   );
 };
@@ -28,6 +28,7 @@ const UserManagement: React.FC = () => {
     password: '',
     confirmPassword: '',
     role: UserRole.RECEPTIONIST,
+    registrationNumber: '',
   });
 
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
@@ -88,6 +89,7 @@ const UserManagement: React.FC = () => {
       email: formData.email.trim(),
       password: formData.password,
       role: formData.role,
+      registrationNumber: formData.registrationNumber.trim() || undefined,
     });
 
     if (result.success) {
@@ -108,6 +110,7 @@ const UserManagement: React.FC = () => {
       password: '',
       confirmPassword: '',
       role: UserRole.RECEPTIONIST,
+      registrationNumber: '',
     });
     setFormErrors({});
     setEditingUser(null);
@@ -403,6 +406,20 @@ const UserManagement: React.FC = () => {
                 </select>
               </div>
 
+              {formData.role === UserRole.OPTOMETRIST && (
+                <div>
+                  <label className="text-xs font-semibold text-slate-600 mb-2 block">Registration Number</label>
+                  <input
+                    type="text"
+                    value={formData.registrationNumber}
+                    onChange={(e) => setFormData({...formData, registrationNumber: e.target.value})}
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-brand-primary focus:border-brand-primary outline-none"
+                    placeholder="Council registration no."
+                  />
+                  <p className="text-xs text-slate-500 mt-1">Printed on the prescriptions this provider signs</p>
+                </div>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"